@@ -33,6 +33,7 @@ import SalesReport from "./pages/admin/SalesReport";
 import Payouts from "./pages/admin/Payouts";
 import AgentTasks from "./pages/admin/AgentTasks";
 import WhatsAppCommands from "./pages/admin/WhatsAppCommands";
+import WhatsAppBroadcasts from "./pages/admin/WhatsAppBroadcasts";
 import SamrambhakaManagement from "./pages/admin/SamrambhakaManagement";
 import DepartmentsManagement from "./pages/admin/DepartmentsManagement";
 import RegisterAgent from "./pages/RegisterAgent";
@@ -41,6 +42,7 @@ import Samrabhaka from "./pages/Samrabhaka";
 import Trainings from "./pages/Trainings";
 import TrainingDetail from "./pages/TrainingDetail";
 import TrainingsManagement from "./pages/admin/TrainingsManagement";
+import AuditLog from "./pages/admin/AuditLog";
 import { MobileGate } from "./components/MobileGate";
 
 const queryClient = new QueryClient();
@@ -73,7 +75,7 @@ const App = () => (
             <Route
               path="/admin/trainings"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="trainings:publish">
                   <TrainingsManagement />
                 </ProtectedRoute>
               }
@@ -154,7 +156,7 @@ const App = () => (
             <Route
               path="/admin/programs"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="programs:edit">
                   <ProgramsManagement />
                 </ProtectedRoute>
               }
@@ -162,7 +164,7 @@ const App = () => (
             <Route
               path="/admin/programs/:id"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="programs:edit">
                   <ProgramDetail />
                 </ProtectedRoute>
               }
@@ -172,7 +174,7 @@ const App = () => (
             <Route
               path="/admin/pennyekart-agents"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="agents:manage">
                   <PennyekartAgentHierarchy />
                 </ProtectedRoute>
               }
@@ -182,7 +184,7 @@ const App = () => (
             <Route
               path="/admin/agent-tasks"
               element={
-                <ProtectedRoute requiredRoles={["admin", "super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="agents:manage">
                   <AgentTasks />
                 </ProtectedRoute>
               }
@@ -218,31 +220,31 @@ const App = () => (
               }
             />
 
-            {/* Old Payments Upload - Super Admin only */}
+            {/* Old Payments Upload - Admin & Super Admin */}
             <Route
               path="/super-admin/old-payments"
               element={
-                <ProtectedRoute requiredRoles={["super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="sales:upload">
                   <OldPaymentsUpload />
                 </ProtectedRoute>
               }
             />
 
-            {/* Pennyekart Sales Report - Super Admin only */}
+            {/* Pennyekart Sales Report - Admin & Super Admin */}
             <Route
               path="/admin/sales-report"
               element={
-                <ProtectedRoute requiredRoles={["super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="sales:upload">
                   <SalesReport />
                 </ProtectedRoute>
               }
             />
 
-            {/* Pennyekart Payouts - Super Admin only */}
+            {/* Pennyekart Payouts - Admin & Super Admin */}
             <Route
               path="/admin/payouts"
               element={
-                <ProtectedRoute requiredRoles={["super_admin"]}>
+                <ProtectedRoute requiredRoles={["admin", "super_admin"]} requiredCapability="payouts:approve">
                   <Payouts />
                 </ProtectedRoute>
               }
@@ -257,6 +259,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/whatsapp-broadcasts"
+              element={
+                <ProtectedRoute requiredRoles={["super_admin"]}>
+                  <WhatsAppBroadcasts />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Departments - Super Admin only */}
             <Route
@@ -278,6 +288,16 @@ const App = () => (
               }
             />
 
+            {/* Audit Log - Super Admin only */}
+            <Route
+              path="/super-admin/audit-log"
+              element={
+                <ProtectedRoute requiredRoles={["super_admin"]}>
+                  <AuditLog />
+                </ProtectedRoute>
+              }
+            />
+
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
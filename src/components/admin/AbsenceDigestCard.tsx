@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarClock, Loader2, Send } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  edgeClient,
+  type AbsenceDigestRecipient,
+  type AbsenceDigestSend,
+  type AbsenceDigestSettings,
+} from "@/lib/edgeApi";
+
+const KIND_LABELS: Record<string, string> = {
+  team_leader: "Team Leader",
+  coordinator: "Coordinator",
+  admin: "Admin",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  sent: "bg-green-100 text-green-800 border-green-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+  opted_out: "bg-muted text-muted-foreground",
+};
+
+/**
+ * The daily absence digest: when it goes out, who gets it (with per-recipient
+ * opt-out) and the send log. Team Leaders and Coordinators get their own
+ * team's absentees; admins who manage agents get a summary by panchayath.
+ */
+export function AbsenceDigestCard() {
+  const { adminToken } = useAuth();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<AbsenceDigestSettings | null>(null);
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [sendTime, setSendTime] = useState("20:00");
+  const [recipients, setRecipients] = useState<AbsenceDigestRecipient[]>([]);
+  const [sends, setSends] = useState<AbsenceDigestSend[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [togglingMobile, setTogglingMobile] = useState<string | null>(null);
+
+  const api = useMemo(() => edgeClient("absence-digest", { adminToken }), [adminToken]);
+
+  const applySettings = useCallback((next: AbsenceDigestSettings) => {
+    setSettings(next);
+    setIsEnabled(next.is_enabled);
+    setSendTime(next.send_time.slice(0, 5));
+  }, []);
+
+  const fetchOverview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await api.overview();
+      applySettings(res.settings);
+      setRecipients(res.recipients);
+      setSends(res.sends);
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to load digest", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, applySettings, toast]);
+
+  useEffect(() => {
+    fetchOverview();
+  }, [fetchOverview]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await api.save_settings({ is_enabled: isEnabled, send_time: sendTime });
+      applySettings(res.settings);
+      toast({ title: "Saved", description: isEnabled ? `Digest goes out daily at ${sendTime}.` : "Daily digest is off." });
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to save", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendNow = async () => {
+    setIsSending(true);
+    try {
+      const res = await api.send_now();
+      toast({
+        title: "Digest sent",
+        description: `${res.sent} sent, ${res.failed} failed, ${res.opted_out} opted out.`,
+      });
+      await fetchOverview();
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to send", variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleRecipient = async (recipient: AbsenceDigestRecipient, receives: boolean) => {
+    setTogglingMobile(recipient.mobile);
+    try {
+      await api.set_opt_out({ mobile: recipient.mobile, opted_out: !receives });
+      setRecipients((prev) => prev.map((r) => (r.mobile === recipient.mobile ? { ...r, opted_out: !receives } : r)));
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to update", variant: "destructive" });
+    } finally {
+      setTogglingMobile(null);
+    }
+  };
+
+  const isDirty = !!settings && (isEnabled !== settings.is_enabled || sendTime !== settings.send_time.slice(0, 5));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          Daily Absence Digest
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Sends each Team Leader and Coordinator the agents in their team with no work log for the day, and admins a
+          summary by panchayath. Recipients can reply <span className="font-mono">digest off</span> to stop it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading && !settings ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="digest-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+                <Label htmlFor="digest-enabled" className="text-xs">Send daily</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="digest-time" className="text-xs">Time (IST)</Label>
+                <Input
+                  id="digest-time"
+                  type="time"
+                  className="h-9 w-32"
+                  value={sendTime}
+                  onChange={(e) => setSendTime(e.target.value)}
+                />
+              </div>
+              <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleSendNow} disabled={isSending}>
+                {isSending ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Send className="h-4 w-4 mr-1.5" />}
+                Send today's now
+              </Button>
+            </div>
+            {settings?.last_run_date && (
+              <p className="text-xs text-muted-foreground">
+                Last sent for {format(new Date(settings.last_run_date), "dd MMM yyyy")}
+              </p>
+            )}
+
+            <Tabs defaultValue="recipients">
+              <TabsList>
+                <TabsTrigger value="recipients">Recipients ({recipients.length})</TabsTrigger>
+                <TabsTrigger value="log">Send log</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="recipients">
+                {recipients.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No one receives the digest yet.</p>
+                ) : (
+                  <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">Name</TableHead>
+                          <TableHead className="text-xs">Role</TableHead>
+                          <TableHead className="text-xs">Mobile</TableHead>
+                          <TableHead className="text-xs text-right">Receives</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {recipients.map((r) => (
+                          <TableRow key={`${r.kind}-${r.id}`}>
+                            <TableCell className="text-sm">{r.name}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{KIND_LABELS[r.kind] || r.kind}</TableCell>
+                            <TableCell className="font-mono text-xs">{r.mobile}</TableCell>
+                            <TableCell className="text-right">
+                              <Switch
+                                checked={!r.opted_out}
+                                disabled={togglingMobile === r.mobile}
+                                onCheckedChange={(v) => toggleRecipient(r, v)}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="log">
+                {sends.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No digests sent yet.</p>
+                ) : (
+                  <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">Date</TableHead>
+                          <TableHead className="text-xs">Recipient</TableHead>
+                          <TableHead className="text-xs text-right">Absent</TableHead>
+                          <TableHead className="text-xs">Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sends.map((s) => (
+                          <TableRow key={s.id}>
+                            <TableCell className="text-xs whitespace-nowrap">
+                              {format(new Date(s.run_date), "dd MMM")}
+                              <span className="text-muted-foreground"> · {format(new Date(s.created_at), "HH:mm")}</span>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {s.recipient_name}
+                              <span className="block text-[11px] text-muted-foreground">
+                                {KIND_LABELS[s.recipient_kind] || s.recipient_kind} · {s.mobile}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-sm text-right">{s.absent_count}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={`text-[10px] capitalize ${STATUS_COLORS[s.status] || ""}`}>
+                                {s.status === "opted_out" ? "Opted out" : s.status}
+                              </Badge>
+                              {s.error && <p className="text-[11px] text-destructive mt-0.5 max-w-[180px] truncate">{s.error}</p>}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
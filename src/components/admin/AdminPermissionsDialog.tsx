@@ -14,9 +14,10 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Shield, Building2, IndianRupee } from "lucide-react";
+import { Loader2, Shield, Building2, IndianRupee, KeyRound } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { CAPABILITIES, DEFAULT_ADMIN_CAPABILITIES } from "@/lib/capabilities";
 
 interface Division {
   id: string;
@@ -34,6 +35,7 @@ interface AdminPermissionsDialogProps {
     additional_division_ids?: string[];
     cash_collection_enabled?: boolean;
     cash_collection_division_ids?: string[];
+    capabilities?: string[];
   } | null;
   divisions: Division[];
   onSaved: () => void;
@@ -49,6 +51,7 @@ export function AdminPermissionsDialog({
   const [accessAll, setAccessAll] = useState(false);
   const [selectedDivisionIds, setSelectedDivisionIds] = useState<string[]>([]);
   const [cashCollectionDivisionIds, setCashCollectionDivisionIds] = useState<string[]>([]);
+  const [capabilities, setCapabilities] = useState<string[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
@@ -57,6 +60,7 @@ export function AdminPermissionsDialog({
       setAccessAll(admin.access_all_divisions ?? false);
       setSelectedDivisionIds(admin.additional_division_ids ?? []);
       setCashCollectionDivisionIds(admin.cash_collection_division_ids ?? []);
+      setCapabilities(admin.capabilities ?? DEFAULT_ADMIN_CAPABILITIES);
     }
   }, [admin]);
 
@@ -76,6 +80,14 @@ export function AdminPermissionsDialog({
     );
   };
 
+  const handleToggleCapability = (capability: string) => {
+    setCapabilities((prev) =>
+      prev.includes(capability)
+        ? prev.filter((c) => c !== capability)
+        : [...prev, capability]
+    );
+  };
+
   const handleSelectAll = () => {
     const otherDivisionIds = divisions
       .filter((d) => d.id !== admin?.division_id)
@@ -108,6 +120,7 @@ export function AdminPermissionsDialog({
           access_all_divisions: accessAll,
           additional_division_ids: accessAll ? [] : selectedDivisionIds,
           cash_collection_division_ids: cashCollectionDivisionIds,
+          capabilities,
         } as any)
         .eq("id", admin.id);
 
@@ -145,7 +158,7 @@ export function AdminPermissionsDialog({
             Manage Permissions
           </DialogTitle>
           <DialogDescription>
-            Configure division access for{" "}
+            Configure module and division access for{" "}
             <span className="font-medium text-foreground">
               {admin.full_name || "Admin"}
             </span>
@@ -172,6 +185,34 @@ export function AdminPermissionsDialog({
 
             <Separator />
 
+            {/* Module Access Section */}
+            <div className="space-y-3">
+              <h4 className="text-sm font-semibold flex items-center gap-2">
+                <KeyRound className="h-4 w-4 text-primary" />
+                Module Access
+              </h4>
+              <div className="rounded-lg border p-2 space-y-1">
+                {CAPABILITIES.map((capability) => (
+                  <label
+                    key={capability.key}
+                    className="flex items-start gap-3 rounded-md px-3 py-2 hover:bg-accent cursor-pointer transition-colors"
+                  >
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={capabilities.includes(capability.key)}
+                      onCheckedChange={() => handleToggleCapability(capability.key)}
+                    />
+                    <div className="space-y-0.5">
+                      <span className="text-sm font-medium">{capability.label}</span>
+                      <p className="text-xs text-muted-foreground">{capability.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
             {/* Division Access Section */}
             <div className="space-y-3">
               <h4 className="text-sm font-semibold flex items-center gap-2">
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, LockOpen, RefreshCw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface LoginLock {
+  id: string;
+  scope: string;
+  key_type: string;
+  key: string;
+  failure_count: number;
+  last_failure_at: string;
+  locked_until: string | null;
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  admin: "Admin login",
+  agent: "Samrabhaka login",
+  department: "Department login",
+};
+
+interface LoginLocksTableProps {
+  /** Admin phones mapped to names, to label locked admin accounts. */
+  adminNames?: Record<string, string>;
+}
+
+/** Mobiles and IPs currently locked out after repeated failed logins, with manual unlock. */
+export function LoginLocksTable({ adminNames = {} }: LoginLocksTableProps) {
+  const { toast } = useToast();
+  const [locks, setLocks] = useState<LoginLock[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+
+  const fetchLocks = async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("login_throttles")
+      .select("id, scope, key_type, key, failure_count, last_failure_at, locked_until")
+      .gt("locked_until", new Date().toISOString())
+      .order("locked_until", { ascending: false });
+    if (!error) setLocks(data || []);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchLocks();
+  }, []);
+
+  const unlock = async (lock: LoginLock) => {
+    setUnlockingId(lock.id);
+    const { error } = await supabase.from("login_throttles").delete().eq("id", lock.id);
+    setUnlockingId(null);
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Unlocked", description: `${lock.key} can try signing in again.` });
+    setLocks((prev) => prev.filter((l) => l.id !== lock.id));
+  };
+
+  return (
+    <div className="rounded-lg border bg-card overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <div>
+          <h2 className="font-semibold">Locked logins</h2>
+          <p className="text-xs text-muted-foreground">
+            Temporarily blocked after too many failed attempts
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={fetchLocks} title="Refresh" disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      <div className="overflow-x-auto">
+        <Table className="min-w-[640px]">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Login</TableHead>
+              <TableHead>Mobile / IP</TableHead>
+              <TableHead>Failed attempts</TableHead>
+              <TableHead>Last attempt</TableHead>
+              <TableHead>Locked until</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading && locks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : locks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                  No logins are locked right now.
+                </TableCell>
+              </TableRow>
+            ) : (
+              locks.map((lock) => (
+                <TableRow key={lock.id}>
+                  <TableCell className="whitespace-nowrap">{SCOPE_LABELS[lock.scope] || lock.scope}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-[10px] uppercase">{lock.key_type}</Badge>
+                      <span className="font-medium">{lock.key}</span>
+                      {lock.scope === "admin" && adminNames[lock.key] && (
+                        <span className="text-xs text-muted-foreground">({adminNames[lock.key]})</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{lock.failure_count}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(lock.last_failure_at), "dd MMM, hh:mm a")}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {lock.locked_until ? format(new Date(lock.locked_until), "dd MMM, hh:mm a") : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => unlock(lock)}
+                      disabled={unlockingId === lock.id}
+                    >
+                      {unlockingId === lock.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <LockOpen className="h-4 w-4 mr-1" />
+                      )}
+                      Unlock
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
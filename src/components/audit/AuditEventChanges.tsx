@@ -0,0 +1,38 @@
+import { auditChanges, type AuditEvent } from "@/lib/auditEvents";
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Field-by-field before/after of one audit event. */
+export function AuditEventChanges({ event }: { event: AuditEvent }) {
+  const changes = auditChanges(event);
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No field details recorded.</p>;
+  }
+
+  return (
+    <div className="rounded-md border divide-y text-xs">
+      {changes.map(({ field, before, after }) => (
+        <div key={field} className="grid grid-cols-[minmax(90px,140px)_1fr] gap-2 px-2 py-1.5">
+          <span className="font-medium text-muted-foreground break-all">{field}</span>
+          <div className="min-w-0 break-words">
+            {event.action === "update" ? (
+              <>
+                <span className="line-through text-red-600 dark:text-red-400">{formatValue(before)}</span>
+                <span className="mx-1 text-muted-foreground">→</span>
+                <span className="text-green-700 dark:text-green-400">{formatValue(after)}</span>
+              </>
+            ) : (
+              <span className={event.action === "delete" ? "text-red-600 dark:text-red-400" : undefined}>
+                {formatValue(event.action === "delete" ? before : after)}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { actorDisplayName, resolveAuditActors, type AuditEvent } from "@/lib/auditEvents";
+import { AuditEventChanges } from "./AuditEventChanges";
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+interface RecordHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Table name, e.g. "pennyekart_agents". */
+  entity: string;
+  entityId: string;
+  title?: string;
+}
+
+/** Every recorded change to one row, newest first. Super admins only (RLS). */
+export function RecordHistoryDrawer({ open, onOpenChange, entity, entityId, title }: RecordHistoryDrawerProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      const { data } = await supabase
+        .from("audit_events")
+        .select("*")
+        .eq("entity", entity)
+        .eq("entity_id", entityId)
+        .order("occurred_at", { ascending: false })
+        .limit(200);
+      const rows = data || [];
+      const names = await resolveAuditActors(rows);
+      if (cancelled) return;
+      setEvents(rows);
+      setActorNames(names);
+      setIsLoading(false);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, entity, entityId]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{title || "Change history"}</SheetTitle>
+          <SheetDescription>Who changed this record, and what changed</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No changes recorded yet.</p>
+          ) : (
+            events.map((event) => (
+              <div key={event.id} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={ACTION_VARIANTS[event.action] || "secondary"} className="text-[10px] capitalize">
+                      {event.action}
+                    </Badge>
+                    <span className="text-sm font-medium truncate">{actorDisplayName(event, actorNames)}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {format(new Date(event.occurred_at), "dd MMM yyyy, hh:mm a")}
+                  </span>
+                </div>
+                <AuditEventChanges event={event} />
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -2,16 +2,19 @@ import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Database } from "@/integrations/supabase/types";
 import { Loader2 } from "lucide-react";
+import type { Capability } from "@/lib/capabilities";
 
 type AppRole = Database["public"]["Enums"]["app_role"];
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRoles?: AppRole[];
+  /** Module capability an admin must hold; super admins hold them all. */
+  requiredCapability?: Capability;
 }
 
-export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps) {
-  const { user, roles, isLoading, adminToken } = useAuth();
+export function ProtectedRoute({ children, requiredRoles, requiredCapability }: ProtectedRouteProps) {
+  const { user, roles, isLoading, adminToken, hasCapability } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -39,5 +42,9 @@ export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps)
     }
   }
 
+  if (requiredCapability && !hasCapability(requiredCapability)) {
+    return <Navigate to="/unauthorized" replace />;
+  }
+
   return <>{children}</>;
 }
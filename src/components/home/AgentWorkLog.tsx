@@ -12,7 +12,11 @@ import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { fetchWorkMetrics, logMetrics, metricsForRole, parseWorkMetrics, type WorkMetric } from "@/lib/workMetrics";
 import { DirectReportsWorkHistory } from "./DirectReportsWorkHistory";
+import { WorkMetricBadges } from "./WorkMetricBadges";
+import { WorkLogMediaGallery } from "./WorkLogMediaGallery";
+import { fetchWorkLogMedia, type WorkLogMedia } from "@/lib/workLogMedia";
 
 interface AgentInfo {
   id: string;
@@ -36,6 +40,7 @@ interface WorkLog {
   id: string;
   work_date: string;
   work_details: string;
+  metrics: unknown;
   created_at: string;
   updated_at: string;
 }
@@ -61,12 +66,21 @@ interface AgentWorkLogProps {
 export function AgentWorkLog({ agent }: AgentWorkLogProps) {
   const [parentAgent, setParentAgent] = useState<ParentAgentInfo | null>(null);
   const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [logMedia, setLogMedia] = useState<Record<string, WorkLogMedia[]>>({});
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [todayText, setTodayText] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [existingTodayLog, setExistingTodayLog] = useState<WorkLog | null>(null);
+  // null until loaded, so a failed load never wipes a log's parsed metrics
+  const [roleMetrics, setRoleMetrics] = useState<WorkMetric[] | null>(null);
+
+  useEffect(() => {
+    fetchWorkMetrics()
+      .then((metrics) => setRoleMetrics(metricsForRole(metrics, agent.role)))
+      .catch((err) => console.error("Failed to load work metrics:", err));
+  }, [agent.role]);
 
   // Fetch parent agent info
   useEffect(() => {
@@ -97,6 +111,10 @@ export function AgentWorkLog({ agent }: AgentWorkLogProps) {
 
     const logs = (data || []) as unknown as WorkLog[];
     setWorkLogs(logs);
+    // Photos and locations sent on WhatsApp; the logs still show if these fail
+    fetchWorkLogMedia(logs.map(l => l.id))
+      .then(setLogMedia)
+      .catch((err) => console.error("Failed to load work log media:", err));
 
     // Set today's text if exists
     const todayLog = logs.find(l => isSameDay(parseISO(l.work_date), new Date()));
@@ -120,7 +138,10 @@ export function AgentWorkLog({ agent }: AgentWorkLogProps) {
       if (existingTodayLog) {
         const { error } = await supabase
           .from("agent_work_logs")
-          .update({ work_details: todayText.trim() } as any)
+          .update({
+            work_details: todayText.trim(),
+            ...(roleMetrics && { metrics: parseWorkMetrics(todayText.trim(), roleMetrics) }),
+          } as any)
           .eq("id", existingTodayLog.id);
         if (error) throw error;
         toast.success("Work log updated!");
@@ -131,6 +152,7 @@ export function AgentWorkLog({ agent }: AgentWorkLogProps) {
             agent_id: agent.id,
             work_details: todayText.trim(),
             work_date: format(new Date(), "yyyy-MM-dd"),
+            ...(roleMetrics && { metrics: parseWorkMetrics(todayText.trim(), roleMetrics) }),
           } as any);
         if (error) throw error;
         toast.success("Work log saved!");
@@ -250,6 +272,13 @@ export function AgentWorkLog({ agent }: AgentWorkLogProps) {
             rows={3}
             className="resize-none"
           />
+          {roleMetrics && roleMetrics.length > 0 && (
+            <p className="text-[11px] text-muted-foreground">
+              Add your numbers as{" "}
+              <span className="font-mono">{roleMetrics.map((m) => `${m.key}:0`).join(" ")}</span>
+            </p>
+          )}
+          {existingTodayLog && <WorkLogMediaGallery media={logMedia[existingTodayLog.id] || []} />}
           <div className="flex gap-2">
             <Button
               size="sm"
@@ -384,6 +413,12 @@ export function AgentWorkLog({ agent }: AgentWorkLogProps) {
                     {format(selectedDate, "EEEE, MMMM d, yyyy")}
                   </p>
                   <p className="text-sm whitespace-pre-wrap">{selectedLog.work_details}</p>
+                  <div className="mt-2">
+                    <WorkMetricBadges values={logMetrics(selectedLog.metrics)} metrics={roleMetrics || []} />
+                  </div>
+                  <div className="mt-2">
+                    <WorkLogMediaGallery media={logMedia[selectedLog.id] || []} />
+                  </div>
                 </div>
               )}
 
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { edgeClient } from "@/lib/edgeApi";
 import {
   Target,
   ListTodo,
@@ -168,13 +169,15 @@ export function DepartmentPendingSlider() {
 
   const markTodoDone = async (todo: Todo) => {
     if (!session) return;
-    const { data, error } = await supabase.functions.invoke("department-worklog", {
-      body: { action: "update_todo", id: todo.id, is_completed: true, token: session.token },
-    });
-    if (error || (data as any)?.error) {
+    try {
+      await edgeClient("department-worklog", { departmentToken: session.token }).update_todo({
+        id: todo.id,
+        is_completed: true,
+      });
+    } catch (e) {
       toast({
         title: "Failed",
-        description: error?.message || (data as any)?.error,
+        description: e instanceof Error ? e.message : "",
         variant: "destructive",
       });
       return;
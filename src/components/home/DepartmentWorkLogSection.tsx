@@ -11,6 +11,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { edgeClient, EdgeFunctionError, type DepartmentSession, type EdgeClient } from "@/lib/edgeApi";
+import { sessionTimeLeft } from "@/lib/sessionToken";
 import { Switch } from "@/components/ui/switch";
 import { Building2, Plus, Pencil, Trash2, LogIn, LogOut, Loader2, FileText, Target, ListTodo, Calendar as CalendarIcon, Eye, EyeOff, Check, CheckCircle2 } from "lucide-react";
 
@@ -29,8 +31,7 @@ type Log = { id: string; member_id: string; department_id: string; work_date: st
 type Plan = { id: string; department_id: string; title: string; description: string | null; target_date: string | null; status: string; created_at: string; created_by_member_id: string | null; is_public: boolean };
 type Todo = { id: string; department_id: string; title: string; description: string | null; due_date: string | null; is_completed: boolean; completed_at: string | null; created_at: string; created_by_member_id: string | null; is_public: boolean };
 
-interface Membership { member_id: string; department_id: string; member_role: string; can_view_all?: boolean; department: Dept }
-interface Session { token: string; agent: Agent; memberships: Membership[] }
+type Session = DepartmentSession;
 
 const SESSION_KEY = "elife_dept_session";
 const PLAN_STATUSES = ["planning", "in_progress", "completed", "on_hold"] as const;
@@ -52,7 +53,15 @@ export function DepartmentWorkLogSection() {
   const [showPlanCompleted, setShowPlanCompleted] = useState(false);
 
   const [session, setSession] = useState<Session | null>(() => {
-    try { return JSON.parse(localStorage.getItem(SESSION_KEY) || "null"); } catch { return null; }
+    try {
+      const stored: Session | null = JSON.parse(localStorage.getItem(SESSION_KEY) || "null");
+      // Drop expired sessions and tokens from the old mobile:pin format
+      if (stored && (sessionTimeLeft(stored.token) ?? 0) <= 0) {
+        localStorage.removeItem(SESSION_KEY);
+        return null;
+      }
+      return stored;
+    } catch { return null; }
   });
   const [loginOpen, setLoginOpen] = useState(false);
   const [loginMobile, setLoginMobile] = useState("");
@@ -98,14 +107,17 @@ export function DepartmentWorkLogSection() {
   const handleLogin = async () => {
     setLogging(true);
     try {
-      const { data, error } = await supabase.functions.invoke("department-worklog", {
-        body: { action: "login", mobile: loginMobile.replace(/\D/g, ""), pin: loginPin },
-      });
-      if (error || (data as any)?.error) {
-        toast({ title: "Login failed", description: error?.message || (data as any)?.error, variant: "destructive" });
+      let s: Session;
+      try {
+        const { token, agent, memberships } = await edgeClient("department-worklog").login({
+          mobile: loginMobile.replace(/\D/g, ""),
+          pin: loginPin,
+        });
+        s = { token, agent, memberships };
+      } catch (e) {
+        toast({ title: "Login failed", description: e instanceof Error ? e.message : "", variant: "destructive" });
         return;
       }
-      const s = data as Session;
       localStorage.setItem(SESSION_KEY, JSON.stringify(s));
       setSession(s);
       setLoginOpen(false);
@@ -117,6 +129,9 @@ export function DepartmentWorkLogSection() {
   };
 
   const handleLogout = () => {
+    if (session?.token) {
+      edgeClient("department-worklog", { departmentToken: session.token }).logout().catch(() => undefined);
+    }
     localStorage.removeItem(SESSION_KEY);
     setSession(null);
   };
@@ -126,87 +141,97 @@ export function DepartmentWorkLogSection() {
   const canEditDept = (deptId: string) => !!session && myDeptIds.has(deptId);
   const canEditItem = (creatorId: string | null | undefined) => !!session && !!creatorId && myMemberIds.has(creatorId);
 
-  const callFn = async (body: any) => {
-    const { data, error } = await supabase.functions.invoke("department-worklog", { body: { ...body, token: session?.token } });
-    if (error || (data as any)?.error) {
-      toast({ title: "Error", description: error?.message || (data as any)?.error, variant: "destructive" });
+  const callFn = async (request: (api: EdgeClient<"department-worklog">) => Promise<unknown>) => {
+    try {
+      await request(edgeClient("department-worklog", { departmentToken: session?.token }));
+      return true;
+    } catch (e) {
+      if (e instanceof EdgeFunctionError && e.sessionEnded) {
+        localStorage.removeItem(SESSION_KEY);
+        setSession(null);
+        toast({ title: "Signed out", description: e.message, variant: "destructive" });
+      } else {
+        toast({ title: "Error", description: e instanceof Error ? e.message : "", variant: "destructive" });
+      }
       return false;
     }
-    return true;
   };
 
   const saveLog = async () => {
     const details = (logDialog.details || "").trim();
     if (!details) return toast({ title: "Enter work details", variant: "destructive" });
     if (!logDialog.id && !logDialog.memberId && !logDialog.deptId) return toast({ title: "Select a department", variant: "destructive" });
-    const ok = await callFn({
-      action: logDialog.id ? "update_log" : "create_log",
-      id: logDialog.id, member_id: logDialog.memberId, department_id: logDialog.deptId,
-      work_details: details, work_date: logDialog.date,
-      is_public: logDialog.is_public !== false,
-    });
+    const is_public = logDialog.is_public !== false;
+    const ok = await callFn((api) => logDialog.id
+      ? api.update_log({ id: logDialog.id, work_details: details, is_public })
+      : api.create_log({
+        member_id: logDialog.memberId, department_id: logDialog.deptId,
+        work_details: details, work_date: logDialog.date, is_public,
+      }));
     if (ok) { toast({ title: "Saved" }); setLogDialog({ open: false }); loadAll(); }
   };
   const deleteLog = async (id: string) => {
     if (!confirm("Delete this log?")) return;
-    if (await callFn({ action: "delete_log", id })) loadAll();
+    if (await callFn((api) => api.delete_log({ id }))) loadAll();
   };
   const toggleLogPublic = async (log: Log) => {
-    if (await callFn({ action: "update_log", id: log.id, is_public: !log.is_public })) loadAll();
+    if (await callFn((api) => api.update_log({ id: log.id, is_public: !log.is_public }))) loadAll();
   };
 
   const savePlan = async () => {
     const title = (planDialog.title || "").trim();
     if (!title) return toast({ title: "Enter title", variant: "destructive" });
-    const ok = await callFn({
-      action: planDialog.id ? "update_plan" : "create_plan",
-      id: planDialog.id, department_id: planDialog.deptId,
+    const fields = {
       title, description: planDialog.description || null,
       target_date: planDialog.target_date || null, status: planDialog.status || "planning",
       is_public: planDialog.is_public !== false,
-    });
+    };
+    const ok = await callFn((api) => planDialog.id
+      ? api.update_plan({ id: planDialog.id, ...fields })
+      : api.create_plan({ department_id: planDialog.deptId, ...fields }));
     if (ok) { toast({ title: "Saved" }); setPlanDialog({ open: false }); loadAll(); }
   };
   const cyclePlanStatus = async (plan: Plan) => {
     if (!canEditItem(plan.created_by_member_id)) return;
     const idx = PLAN_STATUSES.indexOf(plan.status as any);
     const next = PLAN_STATUSES[(idx + 1) % PLAN_STATUSES.length];
-    if (await callFn({ action: "update_plan", id: plan.id, status: next })) loadAll();
+    if (await callFn((api) => api.update_plan({ id: plan.id, status: next }))) loadAll();
   };
   const markPlanCompleted = async (plan: Plan) => {
     if (!canEditItem(plan.created_by_member_id)) return;
     const next = plan.status === "completed" ? "in_progress" : "completed";
-    if (await callFn({ action: "update_plan", id: plan.id, status: next })) loadAll();
+    if (await callFn((api) => api.update_plan({ id: plan.id, status: next }))) loadAll();
   };
   const deletePlan = async (id: string) => {
     if (!confirm("Delete this plan?")) return;
-    if (await callFn({ action: "delete_plan", id })) loadAll();
+    if (await callFn((api) => api.delete_plan({ id }))) loadAll();
   };
   const togglePlanPublic = async (plan: Plan) => {
-    if (await callFn({ action: "update_plan", id: plan.id, is_public: !plan.is_public })) loadAll();
+    if (await callFn((api) => api.update_plan({ id: plan.id, is_public: !plan.is_public }))) loadAll();
   };
 
   const saveTodo = async () => {
     const title = (todoDialog.title || "").trim();
     if (!title) return toast({ title: "Enter title", variant: "destructive" });
-    const ok = await callFn({
-      action: todoDialog.id ? "update_todo" : "create_todo",
-      id: todoDialog.id, department_id: todoDialog.deptId,
+    const fields = {
       title, description: todoDialog.description || null, due_date: todoDialog.due_date || null,
       is_public: todoDialog.is_public !== false,
-    });
+    };
+    const ok = await callFn((api) => todoDialog.id
+      ? api.update_todo({ id: todoDialog.id, ...fields })
+      : api.create_todo({ department_id: todoDialog.deptId, ...fields }));
     if (ok) { toast({ title: "Saved" }); setTodoDialog({ open: false }); loadAll(); }
   };
   const toggleTodo = async (todo: Todo) => {
     if (!canEditItem(todo.created_by_member_id)) return;
-    if (await callFn({ action: "update_todo", id: todo.id, is_completed: !todo.is_completed })) loadAll();
+    if (await callFn((api) => api.update_todo({ id: todo.id, is_completed: !todo.is_completed }))) loadAll();
   };
   const deleteTodo = async (id: string) => {
     if (!confirm("Delete this todo?")) return;
-    if (await callFn({ action: "delete_todo", id })) loadAll();
+    if (await callFn((api) => api.delete_todo({ id }))) loadAll();
   };
   const toggleTodoPublic = async (todo: Todo) => {
-    if (await callFn({ action: "update_todo", id: todo.id, is_public: !todo.is_public })) loadAll();
+    if (await callFn((api) => api.update_todo({ id: todo.id, is_public: !todo.is_public }))) loadAll();
   };
 
   const filterMatch = (deptId: string) => filterDept === "all" || deptId === filterDept;
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, subDays } from "date-fns";
-import { Users, ChevronLeft, ChevronRight, Loader2, CheckCircle2, XCircle, Eye } from "lucide-react";
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, subDays, subMonths } from "date-fns";
+import { Users, ChevronLeft, ChevronRight, Loader2, CheckCircle2, XCircle, Eye, ArrowUp, ArrowDown, MinusCircle } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -9,6 +9,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { cn } from "@/lib/utils";
+import { fetchWorkMetrics, logMetrics, reportedMetrics, sumMetrics, type WorkMetric } from "@/lib/workMetrics";
+import { EMPTY_CALENDAR, fetchWorkCalendar, offReason, type WorkCalendar } from "@/lib/workCalendar";
+import { WorkMetricBadges } from "./WorkMetricBadges";
 
 const ROLE_LABELS: Record<string, string> = {
   team_leader: "Team Leader",
@@ -34,6 +37,7 @@ interface SubAgent {
   role: string;
   ward: string;
   parent_agent_id: string | null;
+  panchayath_id: string;
   panchayath?: { name: string } | null;
 }
 
@@ -41,6 +45,7 @@ interface WorkLogEntry {
   agent_id: string;
   work_date: string;
   work_details: string;
+  metrics: unknown;
 }
 
 interface Props {
@@ -52,8 +57,11 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
   const [subordinates, setSubordinates] = useState<SubAgent[]>([]);
   const [workLogs, setWorkLogs] = useState<WorkLogEntry[]>([]);
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [previousLogs, setPreviousLogs] = useState<Pick<WorkLogEntry, "metrics">[]>([]);
+  const [metrics, setMetrics] = useState<WorkMetric[]>([]);
+  const [calendar, setCalendar] = useState<WorkCalendar>(EMPTY_CALENDAR);
   const [isLoading, setIsLoading] = useState(true);
-  const [selectedLog, setSelectedLog] = useState<{ agent: SubAgent; date: string; details: string } | null>(null);
+  const [selectedLog, setSelectedLog] = useState<{ agent: SubAgent; date: string; log: WorkLogEntry } | null>(null);
 
   const roleIndex = ROLE_HIERARCHY.indexOf(agentRole);
   // Only team_leader, coordinator, group_leader can have subordinates
@@ -73,7 +81,7 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
       while (parentIds.length > 0) {
         const { data } = await supabase
           .from("pennyekart_agents")
-          .select("id, name, mobile, role, ward, parent_agent_id, panchayath:panchayaths(name)")
+          .select("id, name, mobile, role, ward, parent_agent_id, panchayath_id, panchayath:panchayaths(name)")
           .in("parent_agent_id", parentIds)
           .eq("is_active", true)
           .order("role")
@@ -100,16 +108,34 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
 
     const start = format(startOfMonth(currentMonth), "yyyy-MM-dd");
     const end = format(endOfMonth(currentMonth), "yyyy-MM-dd");
+    const previous = subMonths(currentMonth, 1);
+    const ids = subordinates.map(s => s.id);
+
+    // The calendar also covers the last 7 days, which may fall in another month
+    const calendarStart = [start, format(subDays(new Date(), 6), "yyyy-MM-dd")].sort()[0];
+    const calendarEnd = [end, format(new Date(), "yyyy-MM-dd")].sort()[1];
 
     try {
-      const { data } = await supabase
-        .from("agent_work_logs")
-        .select("agent_id, work_date, work_details")
-        .in("agent_id", subordinates.map(s => s.id))
-        .gte("work_date", start)
-        .lte("work_date", end);
+      const [{ data }, { data: previousData }, workCalendar] = await Promise.all([
+        supabase
+          .from("agent_work_logs")
+          .select("agent_id, work_date, work_details, metrics")
+          .in("agent_id", ids)
+          .gte("work_date", start)
+          .lte("work_date", end),
+        // Only the totals of the month before are needed, for the trend arrows
+        supabase
+          .from("agent_work_logs")
+          .select("metrics")
+          .in("agent_id", ids)
+          .gte("work_date", format(startOfMonth(previous), "yyyy-MM-dd"))
+          .lte("work_date", format(endOfMonth(previous), "yyyy-MM-dd")),
+        fetchWorkCalendar(calendarStart, calendarEnd),
+      ]);
 
       setWorkLogs((data || []) as unknown as WorkLogEntry[]);
+      setCalendar(workCalendar);
+      setPreviousLogs(previousData || []);
     } catch (err) {
       console.error("Failed to fetch work logs:", err);
     } finally {
@@ -121,22 +147,34 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
     fetchSubordinates();
   }, [fetchSubordinates]);
 
+  useEffect(() => {
+    if (!canViewReports) return;
+    fetchWorkMetrics()
+      .then(setMetrics)
+      .catch((err) => console.error("Failed to load work metrics:", err));
+  }, [canViewReports]);
+
   useEffect(() => {
     if (subordinates.length > 0) {
       fetchWorkLogs();
     }
   }, [fetchWorkLogs, subordinates]);
 
-  // Build a lookup: agentId -> Set of dates with logs
+  // Build a lookup: agentId -> date -> log
   const logsLookup = useMemo(() => {
-    const map = new Map<string, Map<string, string>>();
+    const map = new Map<string, Map<string, WorkLogEntry>>();
     workLogs.forEach(log => {
       if (!map.has(log.agent_id)) map.set(log.agent_id, new Map());
-      map.get(log.agent_id)!.set(log.work_date, log.work_details);
+      map.get(log.agent_id)!.set(log.work_date, log);
     });
     return map;
   }, [workLogs]);
 
+  // Team metric totals for the month, against the month before
+  const monthTotals = useMemo(() => sumMetrics(workLogs), [workLogs]);
+  const previousTotals = useMemo(() => sumMetrics(previousLogs), [previousLogs]);
+  const shownMetrics = reportedMetrics(metrics, monthTotals);
+
   // Get last 7 working days (past days up to today) for summary view
   const today = new Date();
   const last7Days = useMemo(() => {
@@ -211,6 +249,32 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {shownMetrics.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {shownMetrics.map(m => {
+                const current = monthTotals[m.key] || 0;
+                const change = current - (previousTotals[m.key] || 0);
+                return (
+                  <div key={m.key} className="rounded-md border p-2">
+                    <p className="text-[10px] text-muted-foreground truncate">{m.label}</p>
+                    <div className="flex items-baseline gap-1.5">
+                      <span className="text-lg font-bold">{current}</span>
+                      {change !== 0 && (
+                        <span className={cn(
+                          "flex items-center text-[10px] font-medium",
+                          change > 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                        )}>
+                          {change > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+                          {Math.abs(change)}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {groupedByRole.map(({ role, agents }) => (
             <div key={role}>
               <div className="flex items-center gap-2 mb-2">
@@ -234,14 +298,25 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
                         <div>Month</div>
                         <div className="text-[9px] text-muted-foreground">Score</div>
                       </TableHead>
+                      {shownMetrics.map(m => (
+                        <TableHead key={m.key} className="text-xs text-center px-2">
+                          <div className="truncate max-w-[64px]">{m.label}</div>
+                          <div className="text-[9px] text-muted-foreground">Month</div>
+                        </TableHead>
+                      ))}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {agents.map(agent => {
                       const agentLogs = logsLookup.get(agent.id);
                       const monthLogged = agentLogs ? agentLogs.size : 0;
-                      const totalDays = monthDays.length;
+                      // Days off (holidays, leave) only count if the agent logged work anyway
+                      const totalDays = monthDays.filter(day => {
+                        const dateStr = format(day, "yyyy-MM-dd");
+                        return agentLogs?.has(dateStr) || !offReason(calendar, agent, dateStr);
+                      }).length;
                       const pct = totalDays > 0 ? Math.round((monthLogged / totalDays) * 100) : 0;
+                      const agentTotals = agentLogs ? sumMetrics([...agentLogs.values()]) : {};
 
                       return (
                         <TableRow key={agent.id}>
@@ -251,20 +326,25 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
                           </TableCell>
                           {last7Days.map(day => {
                             const dateStr = format(day, "yyyy-MM-dd");
-                            const details = agentLogs?.get(dateStr);
-                            const hasLog = !!details;
+                            const log = agentLogs?.get(dateStr);
+                            const hasLog = !!log;
+                            const offFor = hasLog ? null : offReason(calendar, agent, dateStr);
                             return (
                               <TableCell
                                 key={dateStr}
                                 className="text-center px-1 py-2 cursor-pointer"
                                 onClick={() => {
                                   if (hasLog) {
-                                    setSelectedLog({ agent, date: dateStr, details: details! });
+                                    setSelectedLog({ agent, date: dateStr, log: log! });
                                   }
                                 }}
                               >
                                 {hasLog ? (
                                   <CheckCircle2 className="h-4 w-4 mx-auto text-green-600 dark:text-green-400" />
+                                ) : offFor ? (
+                                  <span title={offFor}>
+                                    <MinusCircle className="h-4 w-4 mx-auto text-muted-foreground opacity-60" />
+                                  </span>
                                 ) : (
                                   <XCircle className="h-4 w-4 mx-auto text-red-400 dark:text-red-500 opacity-40" />
                                 )}
@@ -281,6 +361,11 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
                               {monthLogged}/{totalDays}
                             </span>
                           </TableCell>
+                          {shownMetrics.map(m => (
+                            <TableCell key={m.key} className="text-center text-xs py-2">
+                              {agentTotals[m.key] || 0}
+                            </TableCell>
+                          ))}
                         </TableRow>
                       );
                     })}
@@ -313,8 +398,9 @@ export function DirectReportsWorkHistory({ agentId, agentRole }: Props) {
                 {format(new Date(selectedLog.date), "EEEE, MMMM d, yyyy")}
               </p>
               <div className="p-3 rounded-lg border bg-muted/50">
-                <p className="text-sm whitespace-pre-wrap">{selectedLog.details}</p>
+                <p className="text-sm whitespace-pre-wrap">{selectedLog.log.work_details}</p>
               </div>
+              <WorkMetricBadges values={logMetrics(selectedLog.log.metrics)} metrics={metrics} />
             </div>
           )}
         </DialogContent>
@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { MapPin } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { mapsUrl, photoUrl, type WorkLogMedia } from "@/lib/workLogMedia";
+
+/** A work log's photos as thumbnails that open full size, and its shared locations as map links. */
+export function WorkLogMediaGallery({ media }: { media: WorkLogMedia[] }) {
+  const [open, setOpen] = useState<WorkLogMedia | null>(null);
+  const photos = media.filter((m) => m.kind === "photo");
+  const locations = media.filter((m) => m.kind === "location");
+  if (media.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5">
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {photos.map((m) => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => setOpen(m)}
+              className="h-14 w-14 overflow-hidden rounded-md border bg-muted"
+            >
+              <img src={photoUrl(m)} alt={m.caption || "Work log photo"} loading="lazy" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      {locations.map((m) => (
+        <a
+          key={m.id}
+          href={mapsUrl(m)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <MapPin className="h-3 w-3 shrink-0" />
+          {m.address || `${m.latitude?.toFixed(5)}, ${m.longitude?.toFixed(5)}`}
+        </a>
+      ))}
+
+      <Dialog open={!!open} onOpenChange={(o) => !o && setOpen(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Work log photo</DialogTitle>
+            <DialogDescription>
+              {open && `Sent ${format(new Date(open.created_at), "PPp")}`}
+              {open?.caption && ` — ${open.caption}`}
+            </DialogDescription>
+          </DialogHeader>
+          {open && <img src={photoUrl(open)} alt={open.caption || "Work log photo"} className="max-h-[70vh] w-full object-contain" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
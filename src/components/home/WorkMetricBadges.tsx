@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import type { MetricValues, WorkMetric } from "@/lib/workMetrics";
+
+/** The metrics a work log reported, as `Label: value` badges. */
+export function WorkMetricBadges({ values, metrics }: { values: MetricValues; metrics: WorkMetric[] }) {
+  const shown = metrics.filter((m) => values[m.key] !== undefined);
+  if (shown.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {shown.map((m) => (
+        <Badge key={m.key} variant="secondary" className="text-[10px] font-normal">
+          {m.label}: <span className="font-semibold ml-1">{values[m.key]}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import { Loader2, Wallet, Send, CheckCircle2, AlertTriangle } from "lucide-react
 import { toast } from "sonner";
 import { ROLE_LABELS, ROLE_HIERARCHY, type AgentRole } from "@/hooks/usePennyekartAgents";
 import { SearchableSelect } from "@/components/ui/searchable-select";
+import { useAuth } from "@/hooks/useAuth";
+import { edgeClient } from "@/lib/edgeApi";
 
 interface PayoutRow {
   agent_id: string;
@@ -49,6 +51,8 @@ interface AgentWalletsTabProps {
 }
 
 export function AgentWalletsTab({ payouts, fromDate, toDate, fmt }: AgentWalletsTabProps) {
+  const { adminToken } = useAuth();
+  const api = useMemo(() => edgeClient("admin-payouts", { adminToken }), [adminToken]);
   const [walletTransactions, setWalletTransactions] = useState<WalletTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [transferring, setTransferring] = useState(false);
@@ -149,30 +153,13 @@ export function AgentWalletsTab({ payouts, fromDate, toDate, fmt }: AgentWallets
 
     setTransferring(true);
     try {
-      const records = pendingTransfers.map((a) => ({
-        agent_id: a.agent_id,
-        amount: a.total_commission,
-        transaction_type: "commission_credit",
-        description: `Commission for ${fromDate} to ${toDate}`,
-        transfer_date: today,
+      const { transferred } = await api.transfer_commissions({
         from_date: fromDate,
         to_date: toDate,
-      }));
-
-      const { error } = await supabase
-        .from("agent_wallet_transactions")
-        .insert(records);
-
-      if (error) {
-        if (error.code === "23505") {
-          toast.error("Some transfers already exist for this date range");
-        } else {
-          throw error;
-        }
-      } else {
-        toast.success(`Transferred commissions to ${records.length} agent wallets`);
-        loadWalletTransactions();
-      }
+        transfers: pendingTransfers.map((a) => ({ agent_id: a.agent_id, amount: a.total_commission })),
+      });
+      toast.success(`Transferred commissions to ${transferred} agent wallets`);
+      loadWalletTransactions();
     } catch (err: any) {
       toast.error(err.message);
     } finally {
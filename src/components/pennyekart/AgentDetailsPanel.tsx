@@ -17,14 +17,23 @@ import {
   Calendar,
   Shield,
   Contact,
+  History,
+  Trophy,
+  TrendingUp,
+  TrendingDown,
+  MoveRight,
+  LogOut,
 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
 import { 
   PennyekartAgent, 
   ROLE_LABELS, 
   AgentRole,
-  getChildRole 
+  getChildRole,
+  getParentRole,
+  useAgentHandover
 } from "@/hooks/usePennyekartAgents";
 import {
   AlertDialog,
@@ -38,14 +47,23 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { AgentDirectCustomersDialog } from "./AgentDirectCustomersDialog";
+import { RecordHistoryDrawer } from "@/components/audit/RecordHistoryDrawer";
+import { useAuth } from "@/hooks/useAuth";
+import { useAgentRankHistory } from "@/hooks/useAgentRanks";
+import { rankInfo, AgentRankSnapshot } from "@/lib/agentRank";
 
 interface AgentDetailsPanelProps {
   agent: PennyekartAgent;
   allAgents: PennyekartAgent[];
   panchayaths?: { id: string; name: string }[];
+  rank?: AgentRankSnapshot;
   onEdit: () => void;
   onDelete: () => void;
   onAddChild: () => void;
+  /** Omitted when the viewer cannot move agents. */
+  onMove?: () => void;
+  /** Omitted when the viewer cannot hand over agents. */
+  onExit?: () => void;
   onClose: () => void;
 }
 
@@ -69,14 +87,23 @@ export function AgentDetailsPanel({
   agent, 
   allAgents, 
   panchayaths,
+  rank,
   onEdit, 
   onDelete, 
   onAddChild,
+  onMove,
+  onExit,
   onClose 
 }: AgentDetailsPanelProps) {
+  const { isSuperAdmin } = useAuth();
   const [customersOpen, setCustomersOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const { events: rankEvents } = useAgentRankHistory(agent.id);
+  const handover = useAgentHandover(agent.is_active ? null : agent.id);
+  const currentRank = rankInfo(rank);
   const canHaveDirectCustomers = agent.role === "coordinator" || agent.role === "group_leader" || agent.role === "pro";
   const childRole = getChildRole(agent.role);
+  const parentRole = getParentRole(agent.role);
   const directReports = allAgents.filter(a => a.parent_agent_id === agent.id);
   const parentAgent = allAgents.find(a => a.id === agent.parent_agent_id);
 
@@ -151,6 +178,26 @@ export function AgentDetailsPanel({
           </div>
         </div>
 
+        {/* Handover */}
+        {handover && (
+          <div className="rounded-md border bg-muted/30 p-2.5 text-xs space-y-0.5">
+            <p className="font-medium flex items-center gap-1">
+              <LogOut className="h-3.5 w-3.5" />
+              Left on {new Date(handover.handover_date).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+            </p>
+            {handover.successor ? (
+              <p className="text-muted-foreground">
+                Handed over to {handover.successor.name}
+                {handover.promoted && ` (promoted to ${ROLE_LABELS[agent.role]})`}: {handover.reports_moved} report(s),{" "}
+                {handover.tasks_moved} task(s), {handover.customers_moved} customer(s)
+              </p>
+            ) : (
+              <p className="text-muted-foreground">No successor</p>
+            )}
+            {handover.notes && <p className="text-muted-foreground italic">{handover.notes}</p>}
+          </div>
+        )}
+
         {/* Responsible Areas */}
         {responsiblePanchayathNames.length > 0 && (
           <>
@@ -232,6 +279,51 @@ export function AgentDetailsPanel({
           )}
         </div>
 
+        {/* Rank */}
+        {currentRank && currentRank.required > 0 && (
+          <>
+            <Separator />
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-1.5 flex items-center gap-1">
+                <Trophy className="h-3.5 w-3.5" />
+                Rank
+              </p>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="flex-1">{currentRank.label}</span>
+                {currentRank.isFull ? (
+                  <Badge className="text-[10px] px-1.5 py-0 bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300">Full</Badge>
+                ) : (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-amber-600 dark:text-amber-400 border-amber-300">Pending</Badge>
+                )}
+              </div>
+              <Progress
+                value={currentRank.percentage}
+                className={cn("h-1.5 mt-1.5", currentRank.isFull ? "[&>div]:bg-emerald-500" : "[&>div]:bg-amber-500")}
+              />
+              {rankEvents.length > 0 && (
+                <div className="mt-3 space-y-1 max-h-32 overflow-y-auto">
+                  {rankEvents.map((event) => (
+                    <div key={event.id} className="flex items-center gap-2 text-xs">
+                      {event.event === "achieved" ? (
+                        <TrendingUp className="h-3.5 w-3.5 text-emerald-500 shrink-0" />
+                      ) : (
+                        <TrendingDown className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                      )}
+                      <span className="flex-1">
+                        {event.event === "achieved" ? "Full rank achieved" : "Full rank lost"} as {ROLE_LABELS[event.role]}
+                        <span className="text-muted-foreground"> ({event.current_count}/{event.required_count})</span>
+                      </span>
+                      <span className="text-muted-foreground">
+                        {new Date(event.occurred_on).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
         <Separator />
 
         {/* Actions */}
@@ -248,6 +340,20 @@ export function AgentDetailsPanel({
             </Button>
           )}
 
+          {onMove && parentRole && (
+            <Button variant="outline" onClick={onMove} className="w-full" size="sm">
+              <MoveRight className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
+              Move to another {ROLE_LABELS[parentRole]}
+            </Button>
+          )}
+
+          {onExit && agent.is_active && (
+            <Button variant="outline" onClick={onExit} className="w-full" size="sm">
+              <LogOut className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
+              Agent Exit / Handover
+            </Button>
+          )}
+
           {canHaveDirectCustomers && (
             <Button variant="outline" onClick={() => setCustomersOpen(true)} className="w-full" size="sm">
               <Contact className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
@@ -255,6 +361,13 @@ export function AgentDetailsPanel({
             </Button>
           )}
 
+          {isSuperAdmin && (
+            <Button variant="outline" onClick={() => setHistoryOpen(true)} className="w-full" size="sm">
+              <History className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
+              Change History
+            </Button>
+          )}
+
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <Button variant="destructive" className="w-full" size="sm">
@@ -292,6 +405,16 @@ export function AgentDetailsPanel({
           agent={agent}
         />
       )}
+
+      {isSuperAdmin && (
+        <RecordHistoryDrawer
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          entity="pennyekart_agents"
+          entityId={agent.id}
+          title={`History · ${agent.name}`}
+        />
+      )}
     </Card>
   );
 }
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -13,21 +14,28 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Loader2, Plus, Pencil, Trash2, Search, Phone, MapPin, Building2 } from "lucide-react";
+import { Loader2, Plus, Pencil, Trash2, Search, Phone, MapPin, Building2, ShoppingBag, UserCheck } from "lucide-react";
 import { toast } from "sonner";
-import { useAgentDirectCustomers, type AgentDirectCustomer } from "@/hooks/useAgentDirectCustomers";
+import {
+  useAgentDirectCustomers,
+  type AgentDirectCustomer,
+  type AttributedCustomer,
+} from "@/hooks/useAgentDirectCustomers";
 import { DirectCustomerFormDialog } from "./DirectCustomerFormDialog";
 import type { PennyekartAgent } from "@/hooks/usePennyekartAgents";
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  agent: PennyekartAgent;
+  agent: Pick<PennyekartAgent, "id" | "name" | "mobile" | "panchayath_id" | "ward" | "panchayath">;
   callerMobile?: string;
 }
 
 export function AgentDirectCustomersDialog({ open, onOpenChange, agent, callerMobile }: Props) {
-  const { customers, isLoading, error, create, update, remove } = useAgentDirectCustomers(open ? agent.id : null, callerMobile);
+  const { customers, attribution, isLoading, error, create, update, remove } = useAgentDirectCustomers(
+    open ? agent.id : null,
+    callerMobile,
+  );
   const [formOpen, setFormOpen] = useState(false);
   const [editing, setEditing] = useState<AgentDirectCustomer | null>(null);
   const [toDelete, setToDelete] = useState<AgentDirectCustomer | null>(null);
@@ -47,6 +55,38 @@ export function AgentDirectCustomersDialog({ open, onOpenChange, agent, callerMo
   const outsideCustomers = filtered.filter((c) => c.is_outside);
   const localTotal = customers.filter((c) => !c.is_outside).length;
   const outsideTotal = customers.filter((c) => c.is_outside).length;
+  const attributed = attribution?.data || [];
+  const activeTotal = attributed.filter((c) => c.active_by).length;
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString("en-IN", { dateStyle: "medium" });
+
+  const renderAttributed = (c: AttributedCustomer) => (
+    <li key={c.mobile} className="border rounded-md p-3 flex items-start justify-between gap-3">
+      <div className="min-w-0 flex-1">
+        <span className="font-medium truncate">{c.name}</span>
+        <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+          <span className="inline-flex items-center gap-1">
+            <Phone className="h-3 w-3" />
+            {c.mobile}
+          </span>
+          <span className="inline-flex items-center gap-1">
+            <ShoppingBag className="h-3 w-3" />
+            {c.recent_orders === 0
+              ? "No recent orders"
+              : `${c.recent_orders} order${c.recent_orders === 1 ? "" : "s"}, last ${formatDate(c.last_order_at!)}`}
+          </span>
+          <span>Registered {formatDate(c.registered_at)}</span>
+        </div>
+      </div>
+      {c.active_by ? (
+        <Badge className="text-[10px] bg-green-600 hover:bg-green-600">
+          {c.active_by === "order" ? "Active" : "New"}
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="text-[10px] text-muted-foreground">Inactive</Badge>
+      )}
+    </li>
+  );
 
   const renderCustomer = (c: AgentDirectCustomer) => (
     <li key={c.id} className="border rounded-md p-3 flex items-start justify-between gap-3 hover:bg-muted/40">
@@ -129,72 +169,112 @@ export function AgentDirectCustomersDialog({ open, onOpenChange, agent, callerMo
             </p>
           </DialogHeader>
 
-          <div className="flex items-center gap-2 px-5 py-3 border-b bg-muted/30">
-            <div className="relative flex-1">
-              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search name, mobile or ward"
-                className="pl-8"
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-              />
-            </div>
-            <Button
-              onClick={() => {
-                setEditing(null);
-                setFormOpen(true);
-              }}
-              size="sm"
-            >
-              <Plus className="h-4 w-4 mr-1.5" />
-              Add
-            </Button>
-          </div>
+          <Tabs defaultValue="registered" className="flex-1 flex flex-col min-h-0">
+            <TabsList className="mx-5 mt-3 self-start">
+              <TabsTrigger value="registered">Registered</TabsTrigger>
+              <TabsTrigger value="counted" className="gap-1.5">
+                <UserCheck className="h-3.5 w-3.5" />
+                Counted ({activeTotal})
+              </TabsTrigger>
+            </TabsList>
 
-          <div className="flex-1 overflow-y-auto px-5 py-4">
-            {isLoading ? (
-              <div className="flex items-center justify-center py-10">
-                <Loader2 className="h-6 w-6 animate-spin text-primary" />
-              </div>
-            ) : error ? (
-              <div className="text-center py-10 text-sm text-destructive">{error}</div>
-            ) : filtered.length === 0 ? (
-              <div className="text-center py-10 text-sm text-muted-foreground">
-                {customers.length === 0 ? "No direct customers yet. Click Add to create one." : "No matches."}
+            <TabsContent value="registered" className="mt-3 flex-1 flex flex-col min-h-0 data-[state=inactive]:hidden">
+              <div className="flex items-center gap-2 px-5 py-3 border-b bg-muted/30">
+                <div className="relative flex-1">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search name, mobile or ward"
+                    className="pl-8"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={() => {
+                    setEditing(null);
+                    setFormOpen(true);
+                  }}
+                  size="sm"
+                >
+                  <Plus className="h-4 w-4 mr-1.5" />
+                  Add
+                </Button>
               </div>
-            ) : (
-              <div className="space-y-4">
-                <div>
-                  <div className="flex items-center gap-2 mb-2">
-                    <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                      Local ({agent.panchayath?.name || "Agent's Panchayath"})
-                    </h4>
-                    <Badge variant="secondary" className="text-[10px]">{localTotal}</Badge>
+
+              <div className="flex-1 overflow-y-auto px-5 py-4">
+                {isLoading ? (
+                  <div className="flex items-center justify-center py-10">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
                   </div>
-                  {localCustomers.length === 0 ? (
-                    <p className="text-xs text-muted-foreground italic px-1">No local customers.</p>
-                  ) : (
-                    <ul className="space-y-2">{localCustomers.map(renderCustomer)}</ul>
-                  )}
-                </div>
-                <div>
-                  <div className="flex items-center gap-2 mb-2">
-                    <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
-                      Outside Location
-                    </h4>
-                    <Badge variant="outline" className="text-[10px] bg-amber-50 text-amber-700 border-amber-300 dark:bg-amber-950/40 dark:text-amber-300">
-                      {outsideTotal}
-                    </Badge>
+                ) : error ? (
+                  <div className="text-center py-10 text-sm text-destructive">{error}</div>
+                ) : filtered.length === 0 ? (
+                  <div className="text-center py-10 text-sm text-muted-foreground">
+                    {customers.length === 0 ? "No direct customers yet. Click Add to create one." : "No matches."}
                   </div>
-                  {outsideCustomers.length === 0 ? (
-                    <p className="text-xs text-muted-foreground italic px-1">No outside-location customers.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                          Local ({agent.panchayath?.name || "Agent's Panchayath"})
+                        </h4>
+                        <Badge variant="secondary" className="text-[10px]">{localTotal}</Badge>
+                      </div>
+                      {localCustomers.length === 0 ? (
+                        <p className="text-xs text-muted-foreground italic px-1">No local customers.</p>
+                      ) : (
+                        <ul className="space-y-2">{localCustomers.map(renderCustomer)}</ul>
+                      )}
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                          Outside Location
+                        </h4>
+                        <Badge variant="outline" className="text-[10px] bg-amber-50 text-amber-700 border-amber-300 dark:bg-amber-950/40 dark:text-amber-300">
+                          {outsideTotal}
+                        </Badge>
+                      </div>
+                      {outsideCustomers.length === 0 ? (
+                        <p className="text-xs text-muted-foreground italic px-1">No outside-location customers.</p>
+                      ) : (
+                        <ul className="space-y-2">{outsideCustomers.map(renderCustomer)}</ul>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="counted" className="mt-3 flex-1 overflow-y-auto px-5 pb-4 data-[state=inactive]:hidden">
+              {isLoading ? (
+                <div className="flex items-center justify-center py-10">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : error ? (
+                <div className="text-center py-10 text-sm text-destructive">{error}</div>
+              ) : !attribution ? (
+                <div className="text-center py-10 text-sm text-muted-foreground">
+                  Counted customers are shown to admins and to the agent in their Samrabhaka login.
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    {activeTotal} of {attributed.length} customers count towards {agent.name}'s customer count:
+                    those who ordered in the last {attribution?.rule.active_days} days
+                    {attribution?.rule.count_new_registrations && ", or were registered in that time"}. Orders are
+                    matched by phone number, and a customer registered by several agents belongs to the first.
+                  </p>
+                  {attributed.length === 0 ? (
+                    <div className="text-center py-10 text-sm text-muted-foreground">No customers attributed yet.</div>
                   ) : (
-                    <ul className="space-y-2">{outsideCustomers.map(renderCustomer)}</ul>
+                    <ul className="space-y-2">{attributed.map(renderAttributed)}</ul>
                   )}
-                </div>
-              </div>
-            )}
-          </div>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
 
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { Loader2, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { PennyekartAgent, ROLE_LABELS, getChildRole } from "@/hooks/usePennyekartAgents";
+import { todaysSnapshotDate } from "@/lib/agentRank";
+import { edgeClient, EdgeFunctionError, ExitAgentInput, ExitPreview } from "@/lib/edgeApi";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agent: PennyekartAgent | null;
+  allAgents: PennyekartAgent[];
+  onExited: () => void;
+}
+
+type SuccessorMode = "peer" | "promote";
+
+const agentOption = (a: PennyekartAgent) => ({
+  value: a.id,
+  label: `${a.name} (${a.panchayath?.name || "Unknown"}${a.ward !== "N/A" ? ` · W${a.ward}` : ""})`,
+});
+
+/** Everyone below an agent, however deep. */
+function teamIds(agentId: string, allAgents: PennyekartAgent[]): Set<string> {
+  const team = new Set<string>();
+  const queue = [agentId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const a of allAgents) {
+      if (a.parent_agent_id === id && a.id !== agentId && !team.has(a.id)) {
+        team.add(a.id);
+        queue.push(a.id);
+      }
+    }
+  }
+  return team;
+}
+
+export function AgentExitDialog({ open, onOpenChange, agent, allAgents, onExited }: Props) {
+  const { adminToken } = useAuth();
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  const [mode, setMode] = useState<SuccessorMode>("peer");
+  const [successorId, setSuccessorId] = useState("");
+  const [backfillId, setBackfillId] = useState("");
+  const [handoverDate, setHandoverDate] = useState(todaysSnapshotDate());
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<ExitPreview | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !agent) return;
+    setMode("peer");
+    setSuccessorId("");
+    setBackfillId("");
+    setHandoverDate(todaysSnapshotDate());
+    setNotes("");
+    setPreview(null);
+    let cancelled = false;
+    api
+      .preview_exit({ agent_id: agent.id })
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((err) => {
+        if (!cancelled) toast.error(err instanceof EdgeFunctionError ? err.message : "Could not load the agent's team");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, agent, api]);
+
+  const active = allAgents.filter((a) => a.is_active);
+  const team = agent ? teamIds(agent.id, allAgents) : new Set<string>();
+  const directReports = agent ? active.filter((a) => a.parent_agent_id === agent.id && a.id !== agent.id) : [];
+  const peerOptions = active.filter((a) => a.role === agent?.role && a.id !== agent?.id && !team.has(a.id)).map(agentOption);
+  const promoteOptions = directReports.map(agentOption);
+  const promoted = mode === "promote" ? directReports.find((a) => a.id === successorId) : undefined;
+  const promotedReports = promoted ? allAgents.filter((a) => a.parent_agent_id === promoted.id && a.id !== promoted.id) : [];
+  const backfillOptions = promoted
+    ? active.filter((a) => a.role === promoted.role && a.id !== promoted.id).map(agentOption)
+    : [];
+  const childRole = agent ? getChildRole(agent.role) : null;
+
+  // Someone has to take over as long as there is anything to hand over
+  const needsSuccessor = !preview || preview.direct_reports > 0 || preview.open_tasks > 0 || preview.direct_customers > 0;
+
+  const exit: ExitAgentInput | null = useMemo(() => {
+    if (!agent || !handoverDate) return null;
+    if (needsSuccessor && !successorId) return null;
+    if (promotedReports.length > 0 && !backfillId) return null;
+    return {
+      agent_id: agent.id,
+      successor_id: successorId || null,
+      promote: mode === "promote" && !!successorId,
+      backfill_id: promotedReports.length > 0 ? backfillId : null,
+      handover_date: handoverDate,
+      notes: notes.trim() || null,
+    };
+  }, [agent, handoverDate, needsSuccessor, successorId, promotedReports.length, backfillId, mode, notes]);
+
+  const handleExit = async () => {
+    if (!exit || !agent) return;
+    setIsSaving(true);
+    try {
+      await api.exit_agent(exit);
+      toast.success(`${agent.name} has left; their work was handed over`);
+      onOpenChange(false);
+      onExited();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to hand over");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!agent) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LogOut className="h-4 w-4" />
+            {agent.name} is leaving
+          </DialogTitle>
+          <p className="text-sm text-muted-foreground">{ROLE_LABELS[agent.role]} · {agent.mobile}</p>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="rounded-md border bg-muted/30 p-3 text-sm">
+            {!preview ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading what they look after...
+              </div>
+            ) : (
+              <ul className="space-y-0.5">
+                <li>{preview.direct_reports} direct report(s), {preview.team_size} in their team in all</li>
+                <li>{preview.open_tasks} open task(s)</li>
+                <li>{preview.direct_customers} direct customer(s)</li>
+                <li>{(agent.responsible_panchayath_ids || []).length} responsible panchayath(s)</li>
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Successor</Label>
+            {directReports.length > 0 && (
+              <RadioGroup
+                value={mode}
+                onValueChange={(v) => {
+                  setMode(v as SuccessorMode);
+                  setSuccessorId("");
+                  setBackfillId("");
+                }}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="peer" id="exit-peer" />
+                  <Label htmlFor="exit-peer" className="text-sm font-normal">
+                    Another {ROLE_LABELS[agent.role]} takes over
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="promote" id="exit-promote" />
+                  <Label htmlFor="exit-promote" className="text-sm font-normal">
+                    Promote one of their {childRole ? `${ROLE_LABELS[childRole]}s` : "direct reports"}
+                  </Label>
+                </div>
+              </RadioGroup>
+            )}
+            <SearchableSelect
+              options={mode === "promote" ? promoteOptions : peerOptions}
+              value={successorId}
+              onValueChange={(v) => {
+                setSuccessorId(v);
+                setBackfillId("");
+              }}
+              placeholder={mode === "promote" && childRole ? `Select ${ROLE_LABELS[childRole]}` : `Select ${ROLE_LABELS[agent.role]}`}
+              searchPlaceholder="Search name..."
+            />
+            {!needsSuccessor && (
+              <p className="text-xs text-muted-foreground">Nothing to hand over, so a successor is optional.</p>
+            )}
+          </div>
+
+          {promoted && promotedReports.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-xs">
+                {promoted.name}'s {promotedReports.length} direct report(s) move to ({ROLE_LABELS[promoted.role]})
+              </Label>
+              <SearchableSelect
+                options={backfillOptions}
+                value={backfillId}
+                onValueChange={setBackfillId}
+                placeholder={`Select ${ROLE_LABELS[promoted.role]}`}
+                searchPlaceholder="Search name..."
+              />
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Handover date</Label>
+            <Input type="date" className="h-9" value={handoverDate} onChange={(e) => setHandoverDate(e.target.value)} />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Notes</Label>
+            <Textarea rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Reason for leaving, anything the successor should know" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleExit} disabled={!exit || !preview || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            Confirm exit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -41,8 +41,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { 
   PennyekartAgent, 
   AgentRole, 
+  AgentLanguage,
   ROLE_LABELS, 
   ALL_ROLES,
+  LANGUAGE_LABELS,
   isTopLevelRole,
   getParentRole,
   useAgentMutations 
@@ -59,6 +61,7 @@ const agentFormSchema = z.object({
   parent_agent_id: z.string().uuid().nullable().optional(),
   customer_count: z.number().int().min(0).default(0),
   responsible_panchayath_ids: z.array(z.string()).default([]),
+  language: z.enum(["en", "ml"] as const).default("en"),
 }).superRefine((data, ctx) => {
   if (!isTopLevelRole(data.role) && !data.parent_agent_id) {
     const parentRoleLabel = data.role === "pro" ? "Group Leader" : data.role === "group_leader" ? "Coordinator" : "Team Leader";
@@ -118,6 +121,7 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
       parent_agent_id: null,
       customer_count: 0,
       responsible_panchayath_ids: [],
+      language: "en",
     },
   });
 
@@ -242,6 +246,7 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
         parent_agent_id: agent.parent_agent_id,
         customer_count: agent.customer_count,
         responsible_panchayath_ids: agent.responsible_panchayath_ids || [],
+        language: agent.language || "en",
       });
     } else if (open) {
       form.reset({
@@ -253,6 +258,7 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
         parent_agent_id: null,
         customer_count: 0,
         responsible_panchayath_ids: [],
+        language: "en",
       });
     }
   }, [open, agent, form, lockedPanchayathId]);
@@ -292,6 +298,7 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
         created_by: null,
         responsible_panchayath_ids: values.responsible_panchayath_ids,
         responsible_wards: [],
+        language: values.language,
       };
       const { error } = await createAgent(agentData);
       if (error) {
@@ -369,6 +376,31 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="language"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-sm font-medium">WhatsApp Language</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-10">
+                            <SelectValue placeholder="Select language" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(LANGUAGE_LABELS) as AgentLanguage[]).map((language) => (
+                            <SelectItem key={language} value={language}>
+                              {LANGUAGE_LABELS[language]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -589,26 +621,14 @@ export function AgentFormDialog({ open, onOpenChange, agent, onSuccess, lockedPa
                   />
                 )}
 
-                {selectedRole === "pro" && (
-                  <FormField
-                    control={form.control}
-                    name="customer_count"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-sm font-medium">Customer Count</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            min={0}
-                            className="h-10"
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                {selectedRole === "pro" && isEditing && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Customer Count</p>
+                    <p className="text-2xl font-bold">{agent?.customer_count ?? 0}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Counted from the agent's direct customers and their recent orders.
+                    </p>
+                  </div>
                 )}
               </form>
             </Form>
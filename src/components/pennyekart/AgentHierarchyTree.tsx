@@ -1,16 +1,27 @@
-import { useState, useMemo } from "react";
+import { createContext, useContext, useState } from "react";
 import { ChevronRight, ChevronDown, Users, User, Phone, MapPin, Building2, Star, Trophy, Briefcase } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
-import { PennyekartAgent, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
-import { calculateAgentRank, AgentRankInfo } from "@/lib/agentRank";
+import { PennyekartAgent, ROLE_LABELS, AgentRole, getParentRole } from "@/hooks/usePennyekartAgents";
+import { rankInfo, AgentRankInfo, AgentRankSnapshot } from "@/lib/agentRank";
 
 interface AgentHierarchyTreeProps {
   agents: PennyekartAgent[];
+  ranks: Map<string, AgentRankSnapshot>;
   onSelectAgent: (agent: PennyekartAgent) => void;
   selectedAgentId?: string;
+  /** Enables drag and drop: called when an agent is dropped on a new manager. */
+  onMoveAgent?: (agent: PennyekartAgent, newParent: PennyekartAgent) => void;
 }
 
+interface TreeDrag {
+  dragged: PennyekartAgent | null;
+  setDragged: (agent: PennyekartAgent | null) => void;
+  onMoveAgent: (agent: PennyekartAgent, newParent: PennyekartAgent) => void;
+}
+
+const TreeDragContext = createContext<TreeDrag | null>(null);
+
 const ROLE_COLORS: Record<AgentRole, string> = {
   super_admin_partner: "bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-300",
   team_leader: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300",
@@ -19,7 +30,9 @@ const ROLE_COLORS: Record<AgentRole, string> = {
   pro: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300"
 };
 
-export function AgentHierarchyTree({ agents, onSelectAgent, selectedAgentId }: AgentHierarchyTreeProps) {
+export function AgentHierarchyTree({ agents, ranks, onSelectAgent, selectedAgentId, onMoveAgent }: AgentHierarchyTreeProps) {
+  const [dragged, setDragged] = useState<PennyekartAgent | null>(null);
+
   if (agents.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
@@ -62,28 +75,32 @@ export function AgentHierarchyTree({ agents, onSelectAgent, selectedAgentId }: A
   }
 
   return (
-    <div className="space-y-4">
-      {Object.entries(byPanchayath).map(([panchayathName, panchayathAgents]) => (
-        <PanchayathNode
-          key={panchayathName}
-          panchayathName={panchayathName}
-          agents={panchayathAgents}
-          onSelectAgent={onSelectAgent}
-          selectedAgentId={selectedAgentId}
-        />
-      ))}
-    </div>
+    <TreeDragContext.Provider value={onMoveAgent ? { dragged, setDragged, onMoveAgent } : null}>
+      <div className="space-y-4">
+        {Object.entries(byPanchayath).map(([panchayathName, panchayathAgents]) => (
+          <PanchayathNode
+            key={panchayathName}
+            panchayathName={panchayathName}
+            agents={panchayathAgents}
+            ranks={ranks}
+            onSelectAgent={onSelectAgent}
+            selectedAgentId={selectedAgentId}
+          />
+        ))}
+      </div>
+    </TreeDragContext.Provider>
   );
 }
 
 interface PanchayathNodeProps {
   panchayathName: string;
   agents: PennyekartAgent[];
+  ranks: Map<string, AgentRankSnapshot>;
   onSelectAgent: (agent: PennyekartAgent) => void;
   selectedAgentId?: string;
 }
 
-function PanchayathNode({ panchayathName, agents, onSelectAgent, selectedAgentId }: PanchayathNodeProps) {
+function PanchayathNode({ panchayathName, agents, ranks, onSelectAgent, selectedAgentId }: PanchayathNodeProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   
   // Find root agents: those whose parent is not in this panchayath's agent list
@@ -118,6 +135,7 @@ function PanchayathNode({ panchayathName, agents, onSelectAgent, selectedAgentId
               key={agent.id}
               agent={agent}
               allAgents={agents}
+              ranks={ranks}
               depth={0}
               onSelectAgent={onSelectAgent}
               selectedAgentId={selectedAgentId}
@@ -133,14 +151,23 @@ function PanchayathNode({ panchayathName, agents, onSelectAgent, selectedAgentId
 interface AgentNodeProps {
   agent: PennyekartAgent;
   allAgents: PennyekartAgent[];
+  ranks: Map<string, AgentRankSnapshot>;
   depth: number;
   onSelectAgent: (agent: PennyekartAgent) => void;
   selectedAgentId?: string;
   visitedIds?: Set<string>;
 }
 
-function AgentNode({ agent, allAgents, depth, onSelectAgent, selectedAgentId, visitedIds = new Set() }: AgentNodeProps) {
+function AgentNode({ agent, allAgents, ranks, depth, onSelectAgent, selectedAgentId, visitedIds = new Set() }: AgentNodeProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const drag = useContext(TreeDragContext);
+
+  // Agents below the top level can be dragged onto an agent of the role above
+  const canDrag = !!drag && !!getParentRole(agent.role);
+  const dragged = drag?.dragged;
+  const isDropTarget = !!dragged && dragged.id !== agent.id &&
+    dragged.parent_agent_id !== agent.id && getParentRole(dragged.role) === agent.role;
   
   // Find direct children, excluding self-references and cycles
   const children = allAgents.filter(a => a.parent_agent_id === agent.id && a.id !== agent.id && !visitedIds.has(a.id));
@@ -150,17 +177,41 @@ function AgentNode({ agent, allAgents, depth, onSelectAgent, selectedAgentId, vi
   // Calculate total customer count for this subtree
   const totalCustomers = calculateTotalCustomers(agent, allAgents);
   
-  // Calculate rank
-  const rank = useMemo(() => calculateAgentRank(agent, allAgents), [agent, allAgents]);
+  // Stored rank (null until the agent has been ranked)
+  const rank = rankInfo(ranks.get(agent.id));
   
   return (
     <div className="ml-2 sm:ml-4">
       <div
         className={cn(
           "flex items-start sm:items-center gap-1.5 sm:gap-2 p-1.5 sm:p-2 rounded-md cursor-pointer transition-colors group",
-          isSelected ? "bg-primary/10 border border-primary/30" : "hover:bg-muted/50"
+          isSelected ? "bg-primary/10 border border-primary/30" : "hover:bg-muted/50",
+          isDropTarget && "outline-dashed outline-1 outline-primary/40",
+          isDragOver && "bg-primary/15 outline-primary"
         )}
         onClick={() => onSelectAgent(agent)}
+        draggable={canDrag}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", agent.id);
+          drag?.setDragged(agent);
+        }}
+        onDragEnd={() => drag?.setDragged(null)}
+        onDragOver={(e) => {
+          if (!isDropTarget) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "move";
+          setIsDragOver(true);
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(e) => {
+          setIsDragOver(false);
+          if (!isDropTarget || !drag || !dragged) return;
+          e.preventDefault();
+          drag.setDragged(null);
+          drag.onMoveAgent(dragged, agent);
+        }}
       >
         {hasChildren ? (
           <button
@@ -188,7 +239,7 @@ function AgentNode({ agent, allAgents, depth, onSelectAgent, selectedAgentId, vi
             <Badge className={cn("text-[10px] sm:text-xs px-1.5 py-0", ROLE_COLORS[agent.role])}>
               {ROLE_LABELS[agent.role]}
             </Badge>
-            <RankBadge rank={rank} />
+            {rank && <RankBadge rank={rank} />}
           </div>
           <div className="flex items-center gap-2 sm:gap-3 text-[10px] sm:text-xs text-muted-foreground mt-0.5">
             <span className="flex items-center gap-0.5 sm:gap-1">
@@ -202,7 +253,7 @@ function AgentNode({ agent, allAgents, depth, onSelectAgent, selectedAgentId, vi
                 W{agent.ward}
               </span>
             )}
-            <span className="text-[10px] opacity-70">{rank.label}</span>
+            {rank && <span className="text-[10px] opacity-70">{rank.label}</span>}
           </div>
         </div>
         
@@ -231,6 +282,7 @@ function AgentNode({ agent, allAgents, depth, onSelectAgent, selectedAgentId, vi
                 key={child.id}
                 agent={child}
                 allAgents={allAgents}
+                ranks={ranks}
                 depth={depth + 1}
                 onSelectAgent={onSelectAgent}
                 selectedAgentId={selectedAgentId}
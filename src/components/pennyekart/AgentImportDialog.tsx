@@ -0,0 +1,352 @@
+import { useMemo, useRef, useState } from "react";
+import * as XLSX from "xlsx";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, FileSpreadsheet, Loader2, ShieldCheck, Upload, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { ALL_ROLES, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
+import { edgeClient, NewAgentReport, NewAgentRow } from "@/lib/edgeApi";
+
+interface ParsedRow {
+  [key: string]: string | number | null;
+}
+
+interface ColumnMapping {
+  name: string;
+  mobile: string;
+  role: string;
+  panchayath: string;
+  ward: string;
+  parent_mobile: string;
+  responsible_wards: string;
+  responsible_panchayaths: string;
+}
+
+const REQUIRED_FIELDS = ["name", "mobile", "role"] as const;
+const OPTIONAL_FIELDS = [
+  "panchayath",
+  "ward",
+  "parent_mobile",
+  "responsible_wards",
+  "responsible_panchayaths",
+] as const;
+const FIELD_LABELS: Record<keyof ColumnMapping, string> = {
+  name: "Name",
+  mobile: "Mobile Number",
+  role: "Role",
+  panchayath: "Panchayath",
+  ward: "Ward",
+  parent_mobile: "Reports To (Mobile)",
+  responsible_wards: "Responsible Wards",
+  responsible_panchayaths: "Responsible Panchayaths",
+};
+
+const NONE = "__none";
+const EMPTY_MAPPING: ColumnMapping = {
+  name: "", mobile: "", role: "", panchayath: "", ward: "", parent_mobile: "",
+  responsible_wards: "", responsible_panchayaths: "",
+};
+
+const letters = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+
+// Role cells may hold the key, the label or a common short form
+const ROLE_ALIASES: Record<string, AgentRole> = {
+  ...Object.fromEntries(ALL_ROLES.flatMap((r) => [[letters(r), r], [letters(ROLE_LABELS[r]), r]])),
+  partner: "super_admin_partner",
+  businesspartner: "super_admin_partner",
+  tl: "team_leader",
+  coord: "coordinator",
+  gl: "group_leader",
+};
+
+const parseRole = (value: string) => ROLE_ALIASES[letters(value)] ?? value.trim();
+const parseMobile = (value: string) => value.replace(/\D/g, "").slice(-10);
+const parseList = (value: string) => value.split(/[,;]/).map((v) => v.trim()).filter(Boolean);
+
+const isMapped = (mapping: ColumnMapping, field: keyof ColumnMapping) => !!mapping[field] && mapping[field] !== NONE;
+const cellOf = (row: ParsedRow, mapping: ColumnMapping, field: keyof ColumnMapping) =>
+  isMapped(mapping, field) ? String(row[mapping[field]] ?? "").trim() : "";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  panchayaths: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+export function AgentImportDialog({ open, onOpenChange, panchayaths, onImported }: Props) {
+  const { adminToken } = useAuth();
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ParsedRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  // Used for every row when there is no panchayath column
+  const [defaultPanchayathId, setDefaultPanchayathId] = useState("");
+  const [report, setReport] = useState<NewAgentReport[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping(EMPTY_MAPPING);
+    setDefaultPanchayathId("");
+    setReport(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      const wb = XLSX.read(evt.target?.result, { type: "binary" });
+      const ws = wb.Sheets[wb.SheetNames[0]];
+      const json = XLSX.utils.sheet_to_json<ParsedRow>(ws, { defval: "" });
+      if (json.length === 0) {
+        toast.error("No data rows found in the file");
+        return;
+      }
+
+      const cols = Object.keys(json[0]);
+      setFileName(file.name);
+      setHeaders(cols);
+      setRows(json);
+      setReport(null);
+
+      // Auto-map by common names
+      const autoMap: ColumnMapping = { ...EMPTY_MAPPING };
+      cols.forEach((col) => {
+        const lower = letters(col);
+        const isParent = lower.includes("parent") || lower.includes("reportsto") || (lower.includes("leader") && lower.includes("mobile"));
+        if (isParent && (lower.includes("mobile") || lower.includes("phone")) && !autoMap.parent_mobile) autoMap.parent_mobile = col;
+        else if ((lower.includes("mobile") || lower.includes("phone")) && !autoMap.mobile) autoMap.mobile = col;
+        else if (lower.includes("responsible") && lower.includes("ward") && !autoMap.responsible_wards) autoMap.responsible_wards = col;
+        else if (lower.includes("responsible") && lower.includes("panchayath") && !autoMap.responsible_panchayaths) autoMap.responsible_panchayaths = col;
+        else if (lower.includes("panchayath") && !autoMap.panchayath) autoMap.panchayath = col;
+        else if (lower.includes("ward") && !autoMap.ward) autoMap.ward = col;
+        else if ((lower.includes("role") || lower.includes("designation")) && !autoMap.role) autoMap.role = col;
+        else if (lower.includes("name") && !autoMap.name) autoMap.name = col;
+      });
+      setMapping(autoMap);
+    };
+    reader.readAsBinaryString(file);
+  };
+
+  const mapped = (field: keyof ColumnMapping) => isMapped(mapping, field);
+
+  const agents: NewAgentRow[] = useMemo(() => rows.map((row) => {
+    const cell = (field: keyof ColumnMapping) => cellOf(row, mapping, field);
+    const agent: NewAgentRow = {
+      name: cell("name"),
+      mobile: parseMobile(cell("mobile")),
+      role: parseRole(cell("role")),
+      ward: cell("ward") || undefined,
+      parent_mobile: parseMobile(cell("parent_mobile")) || null,
+      responsible_wards: parseList(cell("responsible_wards")),
+      responsible_panchayath_names: parseList(cell("responsible_panchayaths")),
+    };
+    const panchayath = cell("panchayath");
+    if (panchayath) agent.panchayath_name = panchayath;
+    else if (defaultPanchayathId) agent.panchayath_id = defaultPanchayathId;
+    return agent;
+  }), [rows, mapping, defaultPanchayathId]);
+
+  const canCheck = rows.length > 0 && REQUIRED_FIELDS.every(mapped) && (mapped("panchayath") || !!defaultPanchayathId);
+  const failing = report?.filter((r) => r.issues.length > 0) ?? [];
+
+  const updateMapping = (field: keyof ColumnMapping, value: string) => {
+    setMapping((m) => ({ ...m, [field]: value }));
+    setReport(null);
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const result = await api.bulk_create({ agents, dry_run: true });
+      setReport(result.report);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to check the rows");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const result = await api.bulk_create({ agents });
+      toast.success(`${result.count} agents imported`);
+      handleOpenChange(false);
+      onImported();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to import agents");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const allFields = [...REQUIRED_FIELDS, ...OPTIONAL_FIELDS];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-4 w-4" />
+            Import Agents
+          </DialogTitle>
+          <DialogDescription>
+            Upload an .xlsx or .csv file with one agent per row. "Reports To" is the mobile number of the agent's
+            Team Leader, Coordinator or Group Leader, either already registered or another row of the file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <input ref={fileRef} type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} className="hidden" />
+            <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" /> Choose File
+            </Button>
+            {rows.length > 0 && (
+              <span className="text-sm text-muted-foreground truncate">
+                {fileName} · <Badge variant="secondary">{rows.length} rows</Badge>
+              </span>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Map Columns</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {allFields.map((field) => (
+                  <div key={field}>
+                    <label className="text-xs font-medium mb-1 block">
+                      {FIELD_LABELS[field]}
+                      {REQUIRED_FIELDS.includes(field as typeof REQUIRED_FIELDS[number]) && (
+                        <span className="text-destructive ml-1">*</span>
+                      )}
+                    </label>
+                    <Select value={mapping[field]} onValueChange={(v) => updateMapping(field, v)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue placeholder="Select column..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>— None —</SelectItem>
+                        {headers.map((h) => (
+                          <SelectItem key={h} value={h}>{h}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {!mapped("panchayath") && (
+                <div className="max-w-sm">
+                  <label className="text-xs font-medium mb-1 block">
+                    Panchayath for every row<span className="text-destructive ml-1">*</span>
+                  </label>
+                  <SearchableSelect
+                    options={panchayaths.map((p) => ({ value: p.id, label: p.name }))}
+                    value={defaultPanchayathId}
+                    onValueChange={(v) => {
+                      setDefaultPanchayathId(v);
+                      setReport(null);
+                    }}
+                    placeholder="Select panchayath"
+                    searchPlaceholder="Search panchayath..."
+                    triggerClassName="h-9"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                {failing.length === 0 ? (
+                  <>
+                    <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                    All {report.length} rows are ready to import.
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="h-4 w-4 text-destructive" />
+                    {failing.length} of {report.length} rows need fixing. Correct the file and choose it again.
+                  </>
+                )}
+              </div>
+              <div className="overflow-x-auto rounded border max-h-[40vh]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">Row</TableHead>
+                      <TableHead>Agent</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Reports To</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...failing, ...report.filter((r) => r.issues.length === 0)].map((r) => (
+                      <TableRow key={r.index}>
+                        <TableCell className="text-xs text-muted-foreground">{r.index + 1}</TableCell>
+                        <TableCell className="text-xs">
+                          <div className="font-medium">{r.name || "—"}</div>
+                          <div className="text-muted-foreground">{r.mobile} · {r.panchayath_name || "—"}</div>
+                        </TableCell>
+                        <TableCell className="text-xs">{ROLE_LABELS[r.role as AgentRole] ?? r.role}</TableCell>
+                        <TableCell className="text-xs">{r.parent_name || "—"}</TableCell>
+                        <TableCell className="text-xs">
+                          {r.issues.length === 0 ? (
+                            <Badge className="text-[10px] bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300">OK</Badge>
+                          ) : (
+                            <ul className="text-destructive space-y-0.5">
+                              {r.issues.map((issue) => <li key={issue}>{issue}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-muted-foreground">Rows are numbered from the first row below the header.</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          {report && failing.length === 0 ? (
+            <Button onClick={handleImport} disabled={isImporting}>
+              {isImporting ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Upload className="h-4 w-4 mr-1.5" />}
+              Import {report.length} Agents
+            </Button>
+          ) : (
+            <Button onClick={handleCheck} disabled={!canCheck || isChecking}>
+              {isChecking ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-1.5" />}
+              Check {rows.length || ""} Rows
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,17 @@
 import { useMemo, useState } from "react";
 import { PennyekartAgent, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
-import { calculateAgentRank, getAgentRankBreakdown, AgentRankInfo, AgentRankBreakdown } from "@/lib/agentRank";
+import { rankInfo, getAgentRankBreakdown, todaysSnapshotDate, AgentRankBreakdown, AgentRankSnapshot } from "@/lib/agentRank";
+import { useAuth } from "@/hooks/useAuth";
+import { RankRulesDialog } from "./RankRulesDialog";
+import { CustomerRuleDialog } from "./CustomerRuleDialog";
+import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SearchableSelect } from "@/components/ui/searchable-select";
 import { Input } from "@/components/ui/input";
-import { Trophy, AlertTriangle, Search, Phone, ChevronDown, ChevronRight, CheckCircle2, XCircle } from "lucide-react";
+import { Trophy, AlertTriangle, Search, Phone, ChevronDown, ChevronRight, CheckCircle2, XCircle, RefreshCw, Loader2, Settings2, UserCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
 
@@ -20,23 +24,29 @@ interface AgentRanksTabProps {
   agents: PennyekartAgent[];
   allAgents: PennyekartAgent[];
   panchayaths: Panchayath[];
+  ranks: Map<string, AgentRankSnapshot>;
+  snapshotDate: string | null;
+  computedAt: string | null;
+  isComputing: boolean;
+  canRecompute: boolean;
+  onRecompute: () => void;
   onSelectAgent: (agent: PennyekartAgent) => void;
 }
 
 type RankFilter = "all" | "full" | "incomplete";
 
 function RankBreakdownPanel({ breakdown, onSelectAgent }: { breakdown: AgentRankBreakdown; onSelectAgent: (a: PennyekartAgent) => void }) {
-  if (breakdown.details.length === 0 && breakdown.rankInfo.required > 0) {
+  if (breakdown.details.length === 0 && (breakdown.rankInfo?.required ?? 0) > 0) {
     return (
       <div className="px-4 py-3 text-xs text-muted-foreground bg-muted/30">
-        No {breakdown.requiredRole}s found in this agent's team yet.
+        No {breakdown.requiredRole}s found {breakdown.rule?.scope === "direct" ? "reporting directly to this agent" : "in this agent's team"} yet.
       </div>
     );
   }
 
   if (breakdown.details.length === 0) return null;
 
-  const fullCount = breakdown.details.filter(d => d.rank.isFull).length;
+  const fullCount = breakdown.details.filter(d => d.rank?.isFull).length;
   const pendingCount = breakdown.details.length - fullCount;
 
   return (
@@ -51,7 +61,7 @@ function RankBreakdownPanel({ breakdown, onSelectAgent }: { breakdown: AgentRank
             <XCircle className="h-3 w-3" /> {pendingCount} pending
           </span>
         )}
-        <span>Need {breakdown.rankInfo.required} full</span>
+        {breakdown.rankInfo && <span>Need {breakdown.rankInfo.required}{breakdown.rule?.require_full ? " full" : ""}</span>}
       </div>
       <div className="grid gap-1.5">
         {breakdown.details.map(({ agent, rank }) => (
@@ -60,7 +70,7 @@ function RankBreakdownPanel({ breakdown, onSelectAgent }: { breakdown: AgentRank
             className="flex items-center gap-2 px-2.5 py-1.5 rounded-md bg-background hover:bg-accent/50 cursor-pointer transition-colors text-xs"
             onClick={(e) => { e.stopPropagation(); onSelectAgent(agent); }}
           >
-            {rank.isFull ? (
+            {rank?.isFull ? (
               <CheckCircle2 className="h-3.5 w-3.5 text-emerald-500 shrink-0" />
             ) : (
               <XCircle className="h-3.5 w-3.5 text-amber-500 shrink-0" />
@@ -69,12 +79,18 @@ function RankBreakdownPanel({ breakdown, onSelectAgent }: { breakdown: AgentRank
             <span className="text-muted-foreground flex items-center gap-1">
               <Phone className="h-2.5 w-2.5" />{agent.mobile}
             </span>
-            <span className="text-muted-foreground">{rank.label}</span>
-            <Progress
-              value={rank.percentage}
-              className={cn("h-1.5 w-16", rank.isFull ? "[&>div]:bg-emerald-500" : rank.percentage < 50 ? "[&>div]:bg-red-500" : "[&>div]:bg-amber-500")}
-            />
-            <span className="w-7 text-right text-[10px]">{rank.percentage}%</span>
+            {rank ? (
+              <>
+                <span className="text-muted-foreground">{rank.label}</span>
+                <Progress
+                  value={rank.percentage}
+                  className={cn("h-1.5 w-16", rank.isFull ? "[&>div]:bg-emerald-500" : rank.percentage < 50 ? "[&>div]:bg-red-500" : "[&>div]:bg-amber-500")}
+                />
+                <span className="w-7 text-right text-[10px]">{rank.percentage}%</span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">Not ranked yet</span>
+            )}
           </div>
         ))}
       </div>
@@ -82,27 +98,47 @@ function RankBreakdownPanel({ breakdown, onSelectAgent }: { breakdown: AgentRank
   );
 }
 
-export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }: AgentRanksTabProps) {
+export function AgentRanksTab({
+  agents,
+  allAgents,
+  panchayaths,
+  ranks,
+  snapshotDate,
+  computedAt,
+  isComputing,
+  canRecompute,
+  onRecompute,
+  onSelectAgent,
+}: AgentRanksTabProps) {
   const [roleFilter, setRoleFilter] = useState<AgentRole | "all">("all");
   const [rankFilter, setRankFilter] = useState<RankFilter>("all");
   const [panchayathFilter, setPanchayathFilter] = useState<string>("all");
   const [search, setSearch] = useState("");
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [customerRuleOpen, setCustomerRuleOpen] = useState(false);
+  const { isSuperAdmin } = useAuth();
+
+  // A rule already in force changes today's ranks straight away
+  const handleRulesChanged = (effectiveFrom: string) => {
+    if (canRecompute && effectiveFrom <= todaysSnapshotDate()) onRecompute();
+  };
 
   const rankedAgents = useMemo(() => {
     return agents
       .map(agent => ({
         agent,
-        rank: calculateAgentRank(agent, allAgents),
+        rank: rankInfo(ranks.get(agent.id)),
       }))
-      .sort((a, b) => a.rank.percentage - b.rank.percentage);
-  }, [agents, allAgents]);
+      // Unranked agents first, then the furthest from full rank
+      .sort((a, b) => (a.rank?.percentage ?? -1) - (b.rank?.percentage ?? -1));
+  }, [agents, ranks]);
 
   const filtered = useMemo(() => {
     return rankedAgents.filter(({ agent, rank }) => {
       if (roleFilter !== "all" && agent.role !== roleFilter) return false;
-      if (rankFilter === "full" && !rank.isFull) return false;
-      if (rankFilter === "incomplete" && rank.isFull) return false;
+      if (rankFilter === "full" && !rank?.isFull) return false;
+      if (rankFilter === "incomplete" && rank?.isFull) return false;
       if (panchayathFilter !== "all" && agent.panchayath_id !== panchayathFilter) return false;
       if (search) {
         const q = search.toLowerCase();
@@ -116,7 +152,7 @@ export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }:
     const roles: AgentRole[] = ["pro", "group_leader", "coordinator", "team_leader"];
     return roles.map(role => {
       const roleAgents = rankedAgents.filter(r => r.agent.role === role);
-      const full = roleAgents.filter(r => r.rank.isFull).length;
+      const full = roleAgents.filter(r => r.rank?.isFull).length;
       return { role, total: roleAgents.length, full, incomplete: roleAgents.length - full };
     });
   }, [rankedAgents]);
@@ -125,11 +161,44 @@ export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }:
     if (!expandedId) return null;
     const item = filtered.find(f => f.agent.id === expandedId);
     if (!item) return null;
-    return getAgentRankBreakdown(item.agent, allAgents);
-  }, [expandedId, filtered, allAgents]);
+    return getAgentRankBreakdown(item.agent, allAgents, ranks);
+  }, [expandedId, filtered, allAgents, ranks]);
 
   return (
     <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-muted-foreground">
+          {snapshotDate ? (
+            <>
+              Ranks as of {new Date(snapshotDate).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+              {computedAt && ` · calculated ${new Date(computedAt).toLocaleTimeString("en-IN", { timeStyle: "short" })}`}
+            </>
+          ) : (
+            "Ranks have not been calculated yet"
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isSuperAdmin && (
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setRulesOpen(true)}>
+              <Settings2 className="h-3.5 w-3.5 mr-1.5" />
+              Rank rules
+            </Button>
+          )}
+          {isSuperAdmin && (
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setCustomerRuleOpen(true)}>
+              <UserCheck className="h-3.5 w-3.5 mr-1.5" />
+              Active customers
+            </Button>
+          )}
+          {canRecompute && (
+            <Button variant="outline" size="sm" className="h-8" onClick={onRecompute} disabled={isComputing}>
+              {isComputing ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5 mr-1.5" />}
+              Recalculate
+            </Button>
+          )}
+        </div>
+      </div>
+
       {/* Summary Cards */}
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
         {summary.map(({ role, total, full, incomplete }) => (
@@ -215,7 +284,7 @@ export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }:
               ) : (
                 filtered.map(({ agent, rank }, i) => {
                   const isExpanded = expandedId === agent.id;
-                  const canExpand = agent.role !== "pro";
+                  const canExpand = !!ranks.get(agent.id)?.rule?.counted_role;
                   return (
                     <TableRow key={agent.id} className="group">
                       <TableCell colSpan={8} className="p-0">
@@ -253,20 +322,20 @@ export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }:
                             {agent.panchayath?.name || "–"}
                           </div>
                           {/* Rank */}
-                          <div className="w-[120px] sm:w-[150px] shrink-0 py-2 text-xs">{rank.label}</div>
+                          <div className="w-[120px] sm:w-[150px] shrink-0 py-2 text-xs">{rank ? rank.label : "Not ranked yet"}</div>
                           {/* Progress */}
                           <div className="w-[100px] shrink-0 py-2">
                             <div className="flex items-center gap-2">
                               <Progress
-                                value={rank.percentage}
-                                className={cn("h-2 flex-1", rank.isFull ? "[&>div]:bg-emerald-500" : rank.percentage < 50 ? "[&>div]:bg-red-500" : "[&>div]:bg-amber-500")}
+                                value={rank?.percentage ?? 0}
+                                className={cn("h-2 flex-1", rank?.isFull ? "[&>div]:bg-emerald-500" : (rank?.percentage ?? 0) < 50 ? "[&>div]:bg-red-500" : "[&>div]:bg-amber-500")}
                               />
-                              <span className="text-[10px] w-8 text-right">{rank.percentage}%</span>
+                              <span className="text-[10px] w-8 text-right">{rank ? `${rank.percentage}%` : "–"}</span>
                             </div>
                           </div>
                           {/* Status */}
                           <div className="w-[70px] shrink-0 py-2">
-                            {rank.isFull ? (
+                            {rank?.isFull ? (
                               <Badge className="text-[10px] px-1.5 py-0 bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300 gap-0.5">
                                 <Trophy className="h-2.5 w-2.5" />Full
                               </Badge>
@@ -290,6 +359,17 @@ export function AgentRanksTab({ agents, allAgents, panchayaths, onSelectAgent }:
           </Table>
         </div>
       </Card>
+
+      {isSuperAdmin && (
+        <>
+          <RankRulesDialog open={rulesOpen} onOpenChange={setRulesOpen} onRulesChanged={handleRulesChanged} />
+          <CustomerRuleDialog
+            open={customerRuleOpen}
+            onOpenChange={setCustomerRuleOpen}
+            onSaved={() => canRecompute && onRecompute()}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
-import { format } from "date-fns";
-import { CalendarIcon, Users, CheckCircle2, XCircle, BarChart3, Loader2 } from "lucide-react";
+import { format, subDays } from "date-fns";
+import { CalendarIcon, Users, CheckCircle2, XCircle, BarChart3, Loader2, TrendingUp, SlidersHorizontal, TreePalm } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,6 +20,15 @@ import {
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ROLE_HIERARCHY, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
+import { agentsAsOf, fetchAgentVersionsAsOf } from "@/lib/agentHistory";
+import { fetchWorkMetrics, logMetrics, reportedMetrics, sumMetrics, type WorkMetric } from "@/lib/workMetrics";
+import { EMPTY_CALENDAR, fetchWorkCalendar, globalOffReason, offReason, type WorkCalendar } from "@/lib/workCalendar";
+import { useAuth } from "@/hooks/useAuth";
+import { HierarchyAsOfInput } from "./HierarchyAsOfInput";
+import { WorkMetricsDialog } from "./WorkMetricsDialog";
+import { HolidayCalendarDialog } from "./HolidayCalendarDialog";
+import { WorkLogMediaGallery } from "@/components/home/WorkLogMediaGallery";
+import { fetchWorkLogMedia, type WorkLogMedia } from "@/lib/workLogMedia";
 
 interface Panchayath {
   id: string;
@@ -31,6 +40,7 @@ interface WorkLog {
   agent_id: string;
   work_date: string;
   work_details: string;
+  metrics: unknown;
   created_at: string;
 }
 
@@ -48,40 +58,91 @@ interface Props {
   panchayaths: Panchayath[];
 }
 
+// The trend tab covers this many days, ending on the selected date.
+const TREND_DAYS = 14;
+const PAGE_SIZE = 1000;
+
 export function AgentWorkLogReport({ panchayaths }: Props) {
+  const { isSuperAdmin, hasCapability } = useAuth();
   const [date, setDate] = useState<Date>(new Date());
   const [panchayathFilter, setPanchayathFilter] = useState<string>("all");
   const [roleFilter, setRoleFilter] = useState<string>("all");
+  const [hierarchyAsOf, setHierarchyAsOf] = useState<string | undefined>();
   const [agents, setAgents] = useState<Agent[]>([]);
-  const [workLogs, setWorkLogs] = useState<WorkLog[]>([]);
+  const [rangeLogs, setRangeLogs] = useState<WorkLog[]>([]);
+  const [metrics, setMetrics] = useState<WorkMetric[]>([]);
+  const [metricsOpen, setMetricsOpen] = useState(false);
+  const [calendar, setCalendar] = useState<WorkCalendar>(EMPTY_CALENDAR);
+  const [calendarVersion, setCalendarVersion] = useState(0);
+  const [holidaysOpen, setHolidaysOpen] = useState(false);
+  const [logMedia, setLogMedia] = useState<Record<string, WorkLogMedia[]>>({});
   const [lastSubmissions, setLastSubmissions] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
 
   const dateStr = format(date, "yyyy-MM-dd");
+  const trendStartStr = format(subDays(date, TREND_DAYS - 1), "yyyy-MM-dd");
+
+  const loadMetrics = () => {
+    fetchWorkMetrics()
+      .then(setMetrics)
+      .catch((err) => console.error("Failed to load work metrics:", err));
+  };
+
+  useEffect(() => {
+    loadMetrics();
+  }, []);
+
+  // Off days, holidays and approved leave across the trend window
+  useEffect(() => {
+    fetchWorkCalendar(trendStartStr, dateStr)
+      .then(setCalendar)
+      .catch((err) => console.error("Failed to load work calendar:", err));
+  }, [trendStartStr, dateStr, calendarVersion]);
 
   // Fetch agents and work logs
   useEffect(() => {
     const fetchData = async () => {
       setIsLoading(true);
 
-      // Fetch all active agents
-      const { data: agentsData } = await supabase
+      // Fetch all active agents, or those active on the as-of date
+      let agentsQuery = supabase
         .from("pennyekart_agents")
-        .select("id, name, mobile, role, panchayath_id, ward, is_active")
-        .eq("is_active", true);
+        .select("id, name, mobile, role, panchayath_id, ward, is_active");
+      if (!hierarchyAsOf) agentsQuery = agentsQuery.eq("is_active", true);
+      const { data: currentAgents } = await agentsQuery;
+      const agentsData = hierarchyAsOf
+        ? agentsAsOf(currentAgents || [], await fetchAgentVersionsAsOf(hierarchyAsOf)).filter((a) => a.is_active)
+        : currentAgents;
 
-      // Fetch work logs for selected date
-      const { data: logsData } = await supabase
-        .from("agent_work_logs")
-        .select("id, agent_id, work_date, work_details, created_at")
-        .eq("work_date", dateStr);
+      // Fetch work logs for the trend window ending on the selected date
+      const logsData: WorkLog[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data } = await supabase
+          .from("agent_work_logs")
+          .select("id, agent_id, work_date, work_details, metrics, created_at")
+          .gte("work_date", trendStartStr)
+          .lte("work_date", dateStr)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        logsData.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
 
       setAgents((agentsData || []).filter((a: any) => a.role !== "scode") as any);
-      setWorkLogs(logsData || []);
+      setRangeLogs(logsData);
       setIsLoading(false);
     };
     fetchData();
-  }, [dateStr]);
+  }, [dateStr, trendStartStr, hierarchyAsOf]);
+
+  const workLogs = useMemo(() => rangeLogs.filter(l => l.work_date === dateStr), [rangeLogs, dateStr]);
+
+  // Photos and locations attached to the selected date's logs
+  useEffect(() => {
+    fetchWorkLogMedia(workLogs.map(l => l.id))
+      .then(setLogMedia)
+      .catch((err) => console.error("Failed to load work log media:", err));
+  }, [workLogs]);
 
   // Fetch last submission dates for absent agents
   useEffect(() => {
@@ -131,13 +192,24 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
     return filteredAgents.filter(a => submittedAgentIds.has(a.id));
   }, [filteredAgents, submittedAgentIds]);
 
+  // Agents on leave or a holiday are not absent, unless they logged work anyway
+  const offToday = useMemo(() => {
+    return filteredAgents
+      .filter(a => !submittedAgentIds.has(a.id))
+      .map(a => ({ agent: a, reason: offReason(calendar, a, dateStr) }))
+      .filter((o): o is { agent: Agent; reason: string } => !!o.reason);
+  }, [filteredAgents, submittedAgentIds, calendar, dateStr]);
+
   const absent = useMemo(() => {
-    return filteredAgents.filter(a => !submittedAgentIds.has(a.id));
-  }, [filteredAgents, submittedAgentIds]);
+    const off = new Set(offToday.map(o => o.agent.id));
+    return filteredAgents.filter(a => !submittedAgentIds.has(a.id) && !off.has(a.id));
+  }, [filteredAgents, submittedAgentIds, offToday]);
 
-  const submissionRate = filteredAgents.length > 0
-    ? Math.round((submitted.length / filteredAgents.length) * 100)
+  const expectedCount = submitted.length + absent.length;
+  const submissionRate = expectedCount > 0
+    ? Math.round((submitted.length / expectedCount) * 100)
     : 0;
+  const closedFor = globalOffReason(calendar, dateStr);
 
   const getPanchayathName = (id: string) => panchayaths.find(p => p.id === id)?.name || "—";
 
@@ -146,6 +218,38 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
     return log?.work_details || "";
   };
 
+  const getMedia = (agentId: string) => {
+    const log = workLogs.find(l => l.agent_id === agentId);
+    return (log && logMedia[log.id]) || [];
+  };
+
+  const getMetrics = (agentId: string) => logMetrics(workLogs.find(l => l.agent_id === agentId)?.metrics);
+
+  // Metric totals for the filtered agents: on the selected date, and per day
+  // across the trend window.
+  const filteredIds = useMemo(() => new Set(filteredAgents.map(a => a.id)), [filteredAgents]);
+  const dayTotals = useMemo(
+    () => sumMetrics(workLogs.filter(l => filteredIds.has(l.agent_id))),
+    [workLogs, filteredIds],
+  );
+  const trend = useMemo(() => {
+    return Array.from({ length: TREND_DAYS }, (_, i) => {
+      const day = format(subDays(date, TREND_DAYS - 1 - i), "yyyy-MM-dd");
+      const logs = rangeLogs.filter(l => l.work_date === day && filteredIds.has(l.agent_id));
+      const logged = new Set(logs.map(l => l.agent_id));
+      const expected = filteredAgents.filter(a => logged.has(a.id) || !offReason(calendar, a, day)).length;
+      return { day, submitted: logs.length, expected, offFor: globalOffReason(calendar, day), totals: sumMetrics(logs) };
+    }).reverse();
+  }, [rangeLogs, filteredIds, filteredAgents, calendar, date]);
+  const trendTotals = useMemo(() => {
+    const totals: Record<string, number> = {};
+    for (const row of trend) {
+      for (const [key, value] of Object.entries(row.totals)) totals[key] = (totals[key] || 0) + value;
+    }
+    return totals;
+  }, [trend]);
+  const shownMetrics = reportedMetrics(metrics, trendTotals);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -197,6 +301,22 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
             ))}
           </SelectContent>
         </Select>
+
+        <HierarchyAsOfInput value={hierarchyAsOf} onChange={setHierarchyAsOf} className="w-[180px]" />
+
+        {hasCapability("agents:manage") && (
+          <Button variant="outline" size="sm" className="h-9" onClick={() => setHolidaysOpen(true)}>
+            <TreePalm className="h-4 w-4 mr-1.5" />
+            Holidays
+          </Button>
+        )}
+
+        {isSuperAdmin && (
+          <Button variant="outline" size="sm" className="h-9" onClick={() => setMetricsOpen(true)}>
+            <SlidersHorizontal className="h-4 w-4 mr-1.5" />
+            Metrics
+          </Button>
+        )}
       </div>
 
       {/* Summary Cards */}
@@ -204,9 +324,12 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
         <Card className="p-3">
           <div className="flex items-center gap-2">
             <Users className="h-4 w-4 text-muted-foreground" />
-            <span className="text-xs text-muted-foreground">Total</span>
+            <span className="text-xs text-muted-foreground">Expected</span>
           </div>
-          <div className="text-2xl font-bold mt-1">{filteredAgents.length}</div>
+          <div className="text-2xl font-bold mt-1">{expectedCount}</div>
+          {offToday.length > 0 && (
+            <p className="text-[11px] text-muted-foreground">+{offToday.length} on leave / holiday</p>
+          )}
         </Card>
         <Card className="p-3">
           <div className="flex items-center gap-2">
@@ -231,6 +354,25 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
         </Card>
       </div>
 
+      {closedFor && (
+        <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+          <TreePalm className="h-4 w-4" />
+          {format(date, "PPP")} is an off day ({closedFor}); nobody is counted absent.
+        </p>
+      )}
+
+      {/* Metric totals for the selected date */}
+      {shownMetrics.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
+          {shownMetrics.map(m => (
+            <Card key={m.key} className="p-3">
+              <span className="text-xs text-muted-foreground">{m.label}</span>
+              <div className="text-2xl font-bold mt-1">{dayTotals[m.key] || 0}</div>
+            </Card>
+          ))}
+        </div>
+      )}
+
       {/* Tabs: Submitted / Absent */}
       <Tabs defaultValue="absent" className="space-y-3">
         <TabsList>
@@ -242,6 +384,14 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
             <CheckCircle2 className="h-4 w-4" />
             Submitted ({submitted.length})
           </TabsTrigger>
+          <TabsTrigger value="off" className="gap-1.5">
+            <TreePalm className="h-4 w-4" />
+            Off ({offToday.length})
+          </TabsTrigger>
+          <TabsTrigger value="trend" className="gap-1.5">
+            <TrendingUp className="h-4 w-4" />
+            Trend
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="absent">
@@ -310,6 +460,9 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
                         <TableHead className="text-xs">Role</TableHead>
                         <TableHead className="text-xs">Panchayath</TableHead>
                         <TableHead className="text-xs">Ward</TableHead>
+                        {shownMetrics.map(m => (
+                          <TableHead key={m.key} className="text-xs text-right">{m.label}</TableHead>
+                        ))}
                         <TableHead className="text-xs min-w-[200px]">Work Details</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -323,7 +476,19 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
                           </TableCell>
                           <TableCell className="text-xs">{getPanchayathName(agent.panchayath_id)}</TableCell>
                           <TableCell className="text-xs">{agent.ward}</TableCell>
-                          <TableCell className="text-xs whitespace-pre-wrap">{getWorkDetails(agent.id)}</TableCell>
+                          {shownMetrics.map(m => (
+                            <TableCell key={m.key} className="text-xs text-right">
+                              {getMetrics(agent.id)[m.key] ?? "—"}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-xs">
+                            <p className="whitespace-pre-wrap">{getWorkDetails(agent.id)}</p>
+                            {getMedia(agent.id).length > 0 && (
+                              <div className="mt-1.5">
+                                <WorkLogMediaGallery media={getMedia(agent.id)} />
+                              </div>
+                            )}
+                          </TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -333,7 +498,110 @@ export function AgentWorkLogReport({ panchayaths }: Props) {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="off">
+          <Card>
+            <CardHeader className="px-3 sm:px-6 py-3">
+              <CardTitle className="text-sm">On leave or holiday — {format(date, "PPP")}</CardTitle>
+            </CardHeader>
+            <CardContent className="px-0 pb-3">
+              {offToday.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8 text-sm">Nobody is off on this date.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">#</TableHead>
+                        <TableHead className="text-xs">Name</TableHead>
+                        <TableHead className="text-xs">Role</TableHead>
+                        <TableHead className="text-xs">Panchayath</TableHead>
+                        <TableHead className="text-xs">Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {offToday.map(({ agent, reason }, i) => (
+                        <TableRow key={agent.id}>
+                          <TableCell className="text-xs">{i + 1}</TableCell>
+                          <TableCell className="text-xs font-medium">{agent.name}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="text-[10px]">{ROLE_LABELS[agent.role]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-xs">{getPanchayathName(agent.panchayath_id)}</TableCell>
+                          <TableCell className="text-xs">{reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="trend">
+          <Card>
+            <CardHeader className="px-3 sm:px-6 py-3">
+              <CardTitle className="text-sm">
+                Last {TREND_DAYS} days — {format(new Date(trendStartStr), "dd MMM")} to {format(date, "dd MMM yyyy")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-0 pb-3">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Date</TableHead>
+                      <TableHead className="text-xs text-right">Submitted</TableHead>
+                      {shownMetrics.map(m => (
+                        <TableHead key={m.key} className="text-xs text-right">{m.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trend.map(row => (
+                      <TableRow key={row.day}>
+                        <TableCell className="text-xs">
+                          {format(new Date(row.day), "EEE, dd MMM")}
+                          {row.offFor && <span className="text-muted-foreground"> · {row.offFor}</span>}
+                        </TableCell>
+                        <TableCell className="text-xs text-right">
+                          {row.submitted}/{row.expected}
+                        </TableCell>
+                        {shownMetrics.map(m => (
+                          <TableCell key={m.key} className="text-xs text-right">{row.totals[m.key] || 0}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-semibold">
+                      <TableCell className="text-xs">Total</TableCell>
+                      <TableCell className="text-xs text-right">
+                        {trend.reduce((sum, row) => sum + row.submitted, 0)}
+                      </TableCell>
+                      {shownMetrics.map(m => (
+                        <TableCell key={m.key} className="text-xs text-right">{trendTotals[m.key] || 0}</TableCell>
+                      ))}
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      {hasCapability("agents:manage") && (
+        <HolidayCalendarDialog
+          open={holidaysOpen}
+          onOpenChange={setHolidaysOpen}
+          panchayaths={panchayaths}
+          onSaved={() => setCalendarVersion(v => v + 1)}
+        />
+      )}
+
+      {isSuperAdmin && (
+        <WorkMetricsDialog open={metricsOpen} onOpenChange={setMetricsOpen} onSaved={loadMetrics} />
+      )}
     </div>
   );
 }
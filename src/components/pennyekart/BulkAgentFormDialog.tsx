@@ -542,6 +542,7 @@ export function BulkAgentFormDialog({
                     togglePanchayathSelection={togglePanchayathSelection}
                     toggleWardSelection={(ward) => toggleWardSelection(ward, "single")}
                     getWardsForPanchayath={getWardsForPanchayath}
+                    customerCount={agent?.customer_count ?? 0}
                   />
                 </form>
               </Form>
@@ -656,6 +657,8 @@ interface SingleFormContentProps {
   togglePanchayathSelection: (id: string) => void;
   toggleWardSelection: (ward: string) => void;
   getWardsForPanchayath: (id: string) => string[];
+  /** The agent's derived customer count, when editing. */
+  customerCount?: number;
 }
 
 function SingleFormContent({
@@ -672,6 +675,7 @@ function SingleFormContent({
   togglePanchayathSelection,
   toggleWardSelection,
   getWardsForPanchayath,
+  customerCount,
 }: SingleFormContentProps) {
   const selectedResponsibleWards = form.watch("responsible_wards") || [];
 
@@ -830,26 +834,12 @@ function SingleFormContent({
               />
             )}
 
-            {selectedRole === "pro" && (
-              <FormField
-                control={form.control}
-                name="customer_count"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel className="text-xs sm:text-sm">Customer Count</FormLabel>
-                    <FormControl>
-                      <Input 
-                        type="number" 
-                        min={0}
-                        className="h-9"
-                        {...field}
-                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                      />
-                    </FormControl>
-                    <FormMessage className="text-xs" />
-                  </FormItem>
-                )}
-              />
+            {selectedRole === "pro" && customerCount !== undefined && (
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm font-medium">Customer Count</p>
+                <p className="text-lg font-bold">{customerCount}</p>
+                <p className="text-xs text-muted-foreground">Counted from direct customers and their recent orders.</p>
+              </div>
             )}
           </div>
         )}
@@ -1211,29 +1201,7 @@ function BulkFormContent({
                   )}
                 />
               </div>
-              {selectedRole === "pro" && (
-                <div className="col-span-2">
-                  <FormField
-                    control={form.control}
-                    name={`agents.${index}.customer_count`}
-                    render={({ field }) => (
-                      <FormItem>
-                        {index === 0 && <FormLabel className="text-xs">Customers</FormLabel>}
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            min={0}
-                            className="h-9"
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-                </div>
-              )}
-              <div className={selectedRole === "pro" ? "col-span-2" : "col-span-4"}>
+              <div className="col-span-4">
                 {index === 0 && <div className="h-5" />}
                 <Button
                   type="button"
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { edgeClient } from "@/lib/edgeApi";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the rule is saved and PRO customer counts were re-derived. */
+  onSaved: () => void;
+}
+
+/** Edits what makes a customer count towards a PRO's customer count. */
+export function CustomerRuleDialog({ open, onOpenChange, onSaved }: Props) {
+  const { adminToken } = useAuth();
+  const [activeDays, setActiveDays] = useState("90");
+  const [countNew, setCountNew] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    supabase
+      .from("pennyekart_customer_settings")
+      .select("active_days, count_new_registrations")
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) {
+          setActiveDays(String(data.active_days));
+          setCountNew(data.count_new_registrations);
+        }
+        setIsLoading(false);
+      });
+  }, [open]);
+
+  const handleSave = async () => {
+    const days = parseInt(activeDays, 10);
+    if (!days || days < 1 || days > 3650) {
+      toast.error("Active window must be between 1 and 3650 days");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const run = await api.save_customer_settings({ active_days: days, count_new_registrations: countNew });
+      toast.success(`Customer rule saved: ${run.updated} of ${run.pros} PRO counts changed`);
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save customer rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Active Customers</DialogTitle>
+          <DialogDescription>
+            A PRO's customer count is the number of their direct customers who are active. Orders are matched to
+            customers by phone number.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="customer-active-days" className="text-xs">Active if they ordered in the last (days)</Label>
+              <Input
+                id="customer-active-days"
+                type="number"
+                min={1}
+                max={3650}
+                className="h-9"
+                value={activeDays}
+                onChange={(e) => setActiveDays(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="customer-count-new" checked={countNew} onCheckedChange={setCountNew} />
+              <Label htmlFor="customer-count-new" className="text-xs">
+                Also count customers registered in that time who have not ordered yet
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            Save and recount
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { History, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { todaysSnapshotDate } from "@/lib/agentRank";
+
+interface Props {
+  /** YYYY-MM-DD, or undefined for the current hierarchy. */
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  className?: string;
+}
+
+/** Picks the date the agent hierarchy should be shown as of. */
+export function HierarchyAsOfInput({ value, onChange, className }: Props) {
+  return (
+    <div className={cn("relative", className)} title="Show the hierarchy as it was on this date">
+      <History className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
+      <Input
+        type="date"
+        max={todaysSnapshotDate()}
+        className={cn("h-9 pl-9", value && "pr-9")}
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        aria-label="Hierarchy as of"
+      />
+      {value && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+          onClick={() => onChange(undefined)}
+          title="Back to the current hierarchy"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useState } from "react";
+import { addDays, format, subDays } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { edgeClient } from "@/lib/edgeApi";
+import { fetchWorkCalendar, WEEKDAY_NAMES, type WorkHoliday } from "@/lib/workCalendar";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  panchayaths: { id: string; name: string }[];
+  /** Called after the calendar changes, so reports can recount absences. */
+  onSaved: () => void;
+}
+
+// Holidays shown: the last month and the year ahead.
+const PAST_DAYS = 31;
+const FUTURE_DAYS = 365;
+
+/** Weekly off days and holidays, which absence reports do not count. */
+export function HolidayCalendarDialog({ open, onOpenChange, panchayaths, onSaved }: Props) {
+  const { adminToken } = useAuth();
+  const [offDays, setOffDays] = useState<number[]>([]);
+  const [savedOffDays, setSavedOffDays] = useState<number[]>([]);
+  const [holidays, setHolidays] = useState<WorkHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newPanchayath, setNewPanchayath] = useState("all");
+
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      const today = new Date();
+      const calendar = await fetchWorkCalendar(
+        format(subDays(today, PAST_DAYS), "yyyy-MM-dd"),
+        format(addDays(today, FUTURE_DAYS), "yyyy-MM-dd"),
+      );
+      setOffDays(calendar.weekly_off_days);
+      setSavedOffDays(calendar.weekly_off_days);
+      setHolidays(calendar.holidays);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load holidays");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) load();
+  }, [open]);
+
+  const panchayathName = (id: string | null) =>
+    id ? panchayaths.find((p) => p.id === id)?.name || "Unknown panchayath" : "Everywhere";
+
+  const toggleOffDay = (day: number, checked: boolean) =>
+    setOffDays(checked ? [...offDays, day].sort() : offDays.filter((d) => d !== day));
+
+  const offDaysChanged = offDays.join() !== savedOffDays.join();
+
+  const handleSaveOffDays = async () => {
+    setIsSaving(true);
+    try {
+      const res = await api.save_work_calendar({ weekly_off_days: offDays });
+      setOffDays(res.weekly_off_days);
+      setSavedOffDays(res.weekly_off_days);
+      toast.success("Weekly off days saved");
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save off days");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newDate || !newName.trim()) {
+      toast.error("Date and name are required");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await api.save_holiday({
+        holiday_date: newDate,
+        name: newName.trim(),
+        panchayath_id: newPanchayath === "all" ? null : newPanchayath,
+      });
+      toast.success(`Holiday "${newName.trim()}" added`);
+      setNewDate("");
+      setNewName("");
+      await load();
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add holiday");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: WorkHoliday) => {
+    setDeletingId(holiday.id);
+    try {
+      await api.delete_holiday({ id: holiday.id });
+      setHolidays((prev) => prev.filter((h) => h.id !== holiday.id));
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete holiday");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Holidays &amp; Off Days</DialogTitle>
+          <DialogDescription>
+            Agents are not counted absent on these days, nor on days of their approved leave.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label className="text-xs">Weekly off days</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <label key={name} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={offDays.includes(day)} onCheckedChange={(c) => toggleOffDay(day, c === true)} />
+                    {name.slice(0, 3)}
+                  </label>
+                ))}
+              </div>
+              <Button size="sm" variant="outline" onClick={handleSaveOffDays} disabled={!offDaysChanged || isSaving}>
+                Save off days
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Add a holiday</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="date" className="h-9" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+                <Input
+                  className="h-9"
+                  placeholder="Onam"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <SearchableSelect
+                  options={[{ value: "all", label: "Everywhere" }, ...panchayaths.map((p) => ({ value: p.id, label: p.name }))]}
+                  value={newPanchayath}
+                  onValueChange={setNewPanchayath}
+                  placeholder="Panchayath"
+                  searchPlaceholder="Search..."
+                  className="flex-1"
+                  triggerClassName="h-9 w-full"
+                />
+                <Button size="sm" className="h-9" onClick={handleAdd} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Plus className="h-4 w-4 mr-1.5" />}
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {holidays.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No holidays in the coming year.</p>
+            ) : (
+              <ul className="space-y-2">
+                {holidays.map((h) => (
+                  <li key={h.id} className="flex items-center justify-between gap-3 rounded-md border p-2.5">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{h.name}</span>
+                        <Badge variant="secondary" className="text-[10px]">{panchayathName(h.panchayath_id)}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(h.holiday_date), "EEE, dd MMM yyyy")}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 shrink-0 text-destructive"
+                      disabled={deletingId === h.id}
+                      onClick={() => handleDelete(h)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { ArrowRight, Loader2, MoveRight, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { PennyekartAgent, ROLE_LABELS, AgentRole, getParentRole } from "@/hooks/usePennyekartAgents";
+import { edgeClient, EdgeFunctionError, MoveAgentInput, MoveRankChange } from "@/lib/edgeApi";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agent: PennyekartAgent | null;
+  allAgents: PennyekartAgent[];
+  /** Pre-selected new parent, e.g. where the agent was dropped in the tree. */
+  initialParentId?: string | null;
+  onMoved: () => void;
+}
+
+interface Preview {
+  moved_count: number;
+  reports_moved: number;
+  rank_changes: MoveRankChange[];
+}
+
+const agentOption = (a: PennyekartAgent) => ({
+  value: a.id,
+  label: `${a.name} (${a.panchayath?.name || "Unknown"}${a.ward !== "N/A" ? ` · W${a.ward}` : ""})`,
+});
+
+export function MoveAgentDialog({ open, onOpenChange, agent, allAgents, initialParentId, onMoved }: Props) {
+  const { adminToken } = useAuth();
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  const [parentId, setParentId] = useState("");
+  const [withTeam, setWithTeam] = useState(true);
+  const [reportsToId, setReportsToId] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isMoving, setIsMoving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setParentId(initialParentId || "");
+    setWithTeam(true);
+    setReportsToId("");
+  }, [open, initialParentId, agent?.id]);
+
+  const parentRole = agent ? getParentRole(agent.role) : null;
+  const directReports = agent ? allAgents.filter((a) => a.parent_agent_id === agent.id && a.id !== agent.id) : [];
+  const parentOptions = allAgents.filter((a) => a.role === parentRole && a.id !== agent?.id).map(agentOption);
+  const heirOptions = allAgents.filter((a) => a.role === agent?.role && a.id !== agent?.id).map(agentOption);
+  const hasReports = directReports.length > 0;
+
+  const move: MoveAgentInput | null = useMemo(() => {
+    if (!agent || !parentId) return null;
+    if (!withTeam && hasReports && !reportsToId) return null;
+    return {
+      agent_id: agent.id,
+      new_parent_id: parentId,
+      with_team: withTeam,
+      reports_to_id: withTeam ? null : reportsToId || null,
+    };
+  }, [agent, parentId, withTeam, reportsToId, hasReports]);
+
+  // Preview the move whenever it is fully specified
+  useEffect(() => {
+    if (!open || !move) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    let cancelled = false;
+    setIsPreviewing(true);
+    setPreviewError(null);
+    api
+      .preview_move(move)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPreview(null);
+        setPreviewError(err instanceof EdgeFunctionError ? err.message : "Could not preview this move");
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, move, api]);
+
+  const handleMove = async () => {
+    if (!move || !agent) return;
+    setIsMoving(true);
+    try {
+      const result = await api.move_agent(move);
+      toast.success(
+        result.moved_count > 1 ? `Moved ${agent.name} and ${result.moved_count - 1} team members` : `Moved ${agent.name}`,
+      );
+      onOpenChange(false);
+      onMoved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to move agent");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  if (!agent) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MoveRight className="h-4 w-4" />
+            Move {agent.name}
+          </DialogTitle>
+          <p className="text-sm text-muted-foreground">{ROLE_LABELS[agent.role]} · {agent.mobile}</p>
+        </DialogHeader>
+
+        {!parentRole ? (
+          <p className="text-sm text-muted-foreground">{ROLE_LABELS[agent.role]}s do not report to anyone.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Reports to ({ROLE_LABELS[parentRole]})</Label>
+              <SearchableSelect
+                options={parentOptions}
+                value={parentId}
+                onValueChange={setParentId}
+                placeholder={`Select ${ROLE_LABELS[parentRole]}`}
+                searchPlaceholder="Search name..."
+              />
+            </div>
+
+            {hasReports && (
+              <div className="space-y-2">
+                <Label className="text-xs">Their {directReports.length} direct report(s)</Label>
+                <RadioGroup value={withTeam ? "team" : "alone"} onValueChange={(v) => setWithTeam(v === "team")}>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="team" id="move-with-team" />
+                    <Label htmlFor="move-with-team" className="text-sm font-normal">Move with the whole team</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="alone" id="move-alone" />
+                    <Label htmlFor="move-alone" className="text-sm font-normal">
+                      Move alone and hand the direct reports to another {ROLE_LABELS[agent.role]}
+                    </Label>
+                  </div>
+                </RadioGroup>
+                {!withTeam && (
+                  <SearchableSelect
+                    options={heirOptions}
+                    value={reportsToId}
+                    onValueChange={setReportsToId}
+                    placeholder={`Select ${ROLE_LABELS[agent.role]}`}
+                    searchPlaceholder="Search name..."
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-2">
+              {isPreviewing ? (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Checking the move...
+                </div>
+              ) : previewError ? (
+                <p className="text-destructive">{previewError}</p>
+              ) : preview ? (
+                <>
+                  <p>
+                    {preview.moved_count} agent{preview.moved_count === 1 ? "" : "s"} will move
+                    {preview.reports_moved > 0 && `, ${preview.reports_moved} direct report(s) change manager`}.
+                  </p>
+                  {preview.rank_changes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No ranks change.</p>
+                  ) : (
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                      {preview.rank_changes.map((c) => (
+                        <li key={c.agent_id} className="flex items-center gap-2 text-xs">
+                          {c.after.is_full && !c.before.is_full ? (
+                            <TrendingUp className="h-3.5 w-3.5 text-emerald-500 shrink-0" />
+                          ) : !c.after.is_full && c.before.is_full ? (
+                            <TrendingDown className="h-3.5 w-3.5 text-red-500 shrink-0" />
+                          ) : (
+                            <span className="w-3.5 shrink-0" />
+                          )}
+                          <span className="flex-1 truncate">
+                            {c.name} <span className="text-muted-foreground">({ROLE_LABELS[c.role as AgentRole] ?? c.role})</span>
+                          </span>
+                          <span className="text-muted-foreground">{c.before.current_count}/{c.before.required_count}</span>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <span>{c.after.current_count}/{c.after.required_count}</span>
+                          {c.after.is_full !== c.before.is_full && (
+                            <Badge variant={c.after.is_full ? "default" : "destructive"} className="text-[10px] px-1.5 py-0">
+                              {c.after.is_full ? "Full" : "Loses full"}
+                            </Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">Choose where to move the agent to see the effect on ranks.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleMove} disabled={!preview || isPreviewing || isMoving}>
+            {isMoving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { useRankRules } from "@/hooks/useAgentRanks";
+import { ALL_ROLES, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
+import { describeRankRule, ruleInForce, todaysSnapshotDate, RankRule, RankScope } from "@/lib/agentRank";
+import { edgeClient } from "@/lib/edgeApi";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a rule is saved, with the date it takes effect. */
+  onRulesChanged: (effectiveFrom: string) => void;
+}
+
+const CUSTOMERS = "customers";
+
+export function RankRulesDialog({ open, onOpenChange, onRulesChanged }: Props) {
+  const { adminToken } = useAuth();
+  const { rules, isLoading, refetch } = useRankRules();
+  const today = todaysSnapshotDate();
+
+  const [role, setRole] = useState<AgentRole>("pro");
+  const [counted, setCounted] = useState<string>(CUSTOMERS);
+  const [requiredCount, setRequiredCount] = useState("5");
+  const [requireFull, setRequireFull] = useState(true);
+  const [scope, setScope] = useState<RankScope>("team");
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  // Only roles below the ranked one can be counted
+  const countableRoles = ALL_ROLES.slice(ALL_ROLES.indexOf(role) + 1);
+
+  const rulesByRole = ALL_ROLES
+    .map((r) => ({ role: r, versions: rules.filter((rule) => rule.role === r) }))
+    .filter(({ versions }) => versions.length > 0);
+
+  const statusOf = (rule: RankRule) => {
+    if (rule.effective_from > today) return "scheduled";
+    return ruleInForce(rules, rule.role as AgentRole, today)?.id === rule.id ? "current" : "past";
+  };
+
+  const handleRoleChange = (value: AgentRole) => {
+    setRole(value);
+    const below = ALL_ROLES.slice(ALL_ROLES.indexOf(value) + 1);
+    if (counted !== CUSTOMERS && !below.includes(counted as AgentRole)) setCounted(below[0] ?? CUSTOMERS);
+  };
+
+  const handleSave = async () => {
+    const count = parseInt(requiredCount, 10);
+    if (!count || count < 1) {
+      toast.error("Required count must be at least 1");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await api.save_rank_rule({
+        role,
+        counted_role: counted === CUSTOMERS ? null : (counted as AgentRole),
+        required_count: count,
+        require_full: counted === CUSTOMERS ? true : requireFull,
+        scope: counted === CUSTOMERS ? "team" : scope,
+        effective_from: effectiveFrom,
+      });
+      toast.success(`Rule saved for ${ROLE_LABELS[role]}`);
+      await refetch();
+      onRulesChanged(effectiveFrom);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: RankRule) => {
+    setDeletingId(rule.id);
+    try {
+      await api.delete_rank_rule({ id: rule.id });
+      toast.success("Scheduled rule removed");
+      await refetch();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove rule");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] p-0 flex flex-col gap-0">
+        <DialogHeader className="px-5 pt-5 pb-3 border-b">
+          <DialogTitle>Rank Rules</DialogTitle>
+          <p className="text-sm text-muted-foreground">
+            Each rule applies from its effective date until a newer one for the same role takes over. Past rules are
+            kept so older rank snapshots still show the thresholds of their day.
+          </p>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : rulesByRole.length === 0 ? (
+            <div className="text-center py-6 text-sm text-muted-foreground">
+              No rank rules yet. Every agent counts as full rank.
+            </div>
+          ) : (
+            rulesByRole.map(({ role: r, versions }) => (
+              <div key={r}>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+                  {ROLE_LABELS[r]}
+                </h4>
+                <ul className="space-y-1.5">
+                  {versions.map((rule) => {
+                    const status = statusOf(rule);
+                    return (
+                      <li key={rule.id} className="border rounded-md px-3 py-2 flex items-center gap-3 text-sm">
+                        <span className="w-24 shrink-0 text-xs text-muted-foreground">
+                          {new Date(rule.effective_from).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+                        </span>
+                        <span className="flex-1 min-w-0">{describeRankRule(rule)}</span>
+                        {status === "current" && (
+                          <Badge className="text-[10px] bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300">
+                            In force
+                          </Badge>
+                        )}
+                        {status === "scheduled" && <Badge variant="outline" className="text-[10px]">Scheduled</Badge>}
+                        {status === "past" && <Badge variant="secondary" className="text-[10px]">Superseded</Badge>}
+                        {status === "scheduled" && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            disabled={deletingId === rule.id}
+                            onClick={() => handleDelete(rule)}
+                          >
+                            {deletingId === rule.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                          </Button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t bg-muted/30 px-5 py-4 space-y-3">
+          <h4 className="text-sm font-medium">New rule version</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Role</Label>
+              <Select value={role} onValueChange={(v) => handleRoleChange(v as AgentRole)}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {ALL_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Counts</Label>
+              <Select value={counted} onValueChange={setCounted}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CUSTOMERS}>Own customers</SelectItem>
+                  {countableRoles.map((r) => (
+                    <SelectItem key={r} value={r}>{ROLE_LABELS[r]}s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Required</Label>
+              <Input
+                type="number"
+                min={1}
+                className="h-9"
+                value={requiredCount}
+                onChange={(e) => setRequiredCount(e.target.value)}
+              />
+            </div>
+            {counted !== CUSTOMERS && (
+              <>
+                <div className="space-y-1">
+                  <Label className="text-xs">Counted from</Label>
+                  <Select value={scope} onValueChange={(v) => setScope(v as RankScope)}>
+                    <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="team">Anyone in the team</SelectItem>
+                      <SelectItem value="direct">Direct reports only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 pt-5">
+                  <Switch id="rank-require-full" checked={requireFull} onCheckedChange={setRequireFull} />
+                  <Label htmlFor="rank-require-full" className="text-xs">Must be full rank</Label>
+                </div>
+              </>
+            )}
+            <div className="space-y-1">
+              <Label className="text-xs">Effective from</Label>
+              <Input
+                type="date"
+                min={today}
+                className="h-9"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Plus className="h-4 w-4 mr-1.5" />}
+              Save rule
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
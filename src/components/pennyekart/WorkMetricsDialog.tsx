@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { edgeClient, type WorkMetricInput } from "@/lib/edgeApi";
+import { fetchWorkMetrics, type WorkMetric } from "@/lib/workMetrics";
+import { ALL_ROLES, ROLE_LABELS } from "@/hooks/usePennyekartAgents";
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a metric is saved, so reports can pick up the change. */
+  onSaved: () => void;
+}
+
+const emptyForm: WorkMetricInput = {
+  id: null,
+  key: "",
+  label: "",
+  aliases: [],
+  roles: [],
+  sort_order: 0,
+  is_active: true,
+};
+
+/** Configures the `name:value` numbers agents report in their work logs. */
+export function WorkMetricsDialog({ open, onOpenChange, onSaved }: Props) {
+  const { adminToken } = useAuth();
+  const [metrics, setMetrics] = useState<WorkMetric[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<WorkMetricInput | null>(null);
+  const [aliasText, setAliasText] = useState("");
+
+  const api = useMemo(() => edgeClient("pennyekart-agents", { adminToken }), [adminToken]);
+
+  const load = async () => {
+    setIsLoading(true);
+    try {
+      setMetrics(await fetchWorkMetrics());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load metrics");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(null);
+    load();
+  }, [open]);
+
+  const startEdit = (metric: WorkMetric | null) => {
+    const next = metric
+      ? { id: metric.id, key: metric.key, label: metric.label, aliases: metric.aliases, roles: metric.roles, sort_order: metric.sort_order, is_active: metric.is_active }
+      : { ...emptyForm, sort_order: metrics.length + 1 };
+    setForm(next);
+    setAliasText(next.aliases.join(", "));
+  };
+
+  const toggleRole = (role: WorkMetricInput["roles"][number], checked: boolean) => {
+    if (!form) return;
+    setForm({ ...form, roles: checked ? [...form.roles, role] : form.roles.filter((r) => r !== role) });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.key.trim() || !form.label.trim()) {
+      toast.error("Key and label are required");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const aliases = aliasText.split(",").map((a) => a.trim()).filter(Boolean);
+      await api.save_work_metric({ ...form, aliases });
+      toast.success(`Metric "${form.key}" saved`);
+      setForm(null);
+      await load();
+      onSaved();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save metric");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Work-Log Metrics</DialogTitle>
+          <DialogDescription>
+            Agents report these numbers in their work log as <span className="font-mono">key:value</span>, for example{" "}
+            <span className="font-mono">1 shops:5 orders:2</span>. The bot asks for any their role has not sent yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : form ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="metric-key" className="text-xs">Key *</Label>
+                <Input
+                  id="metric-key"
+                  className="h-9 font-mono"
+                  placeholder="shops"
+                  value={form.key}
+                  disabled={!!form.id}
+                  onChange={(e) => setForm({ ...form, key: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="metric-label" className="text-xs">Label *</Label>
+                <Input
+                  id="metric-label"
+                  className="h-9"
+                  placeholder="Shops visited"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="metric-aliases" className="text-xs">Other names (comma separated)</Label>
+              <Input
+                id="metric-aliases"
+                className="h-9 font-mono"
+                placeholder="shop"
+                value={aliasText}
+                onChange={(e) => setAliasText(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Reported by (none selected means every role)</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {ALL_ROLES.map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={form.roles.includes(role)} onCheckedChange={(c) => toggleRole(role, c === true)} />
+                    {ROLE_LABELS[role]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="metric-order" className="text-xs">Sort order</Label>
+                <Input
+                  id="metric-order"
+                  type="number"
+                  className="h-9"
+                  value={form.sort_order}
+                  onChange={(e) => setForm({ ...form, sort_order: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-5">
+                <Switch id="metric-active" checked={form.is_active} onCheckedChange={(v) => setForm({ ...form, is_active: v })} />
+                <Label htmlFor="metric-active" className="text-xs">Active</Label>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Back</Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {metrics.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No metrics yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {metrics.map((m) => (
+                  <li key={m.id} className="flex items-start justify-between gap-3 rounded-md border p-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm font-medium">{m.key}</span>
+                        <span className="text-sm">{m.label}</span>
+                        {!m.is_active && <Badge variant="secondary" className="text-[10px]">Off</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {m.roles.length === 0 ? "All roles" : m.roles.map((r) => ROLE_LABELS[r] || r).join(", ")}
+                        {m.aliases.length > 0 && ` · also ${m.aliases.join(", ")}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0 shrink-0" onClick={() => startEdit(m)}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button variant="outline" className="w-full" onClick={() => startEdit(null)}>
+              <Plus className="h-4 w-4 mr-1.5" /> Add metric
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
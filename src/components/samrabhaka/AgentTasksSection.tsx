@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { edgeClient, type PortalTask } from "@/lib/edgeApi";
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  completed: { label: "Completed", className: "bg-emerald-600 hover:bg-emerald-600" },
+  not_completed: { label: "Not completed", className: "bg-destructive hover:bg-destructive" },
+};
+
+/** Pennyekart tasks assigned to the signed-in agent's panchayaths. */
+export function AgentTasksSection({ token }: { token: string }) {
+  const [tasks, setTasks] = useState<PortalTask[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await edgeClient("samrabhaka-auth", { agentToken: token }).my_agent_tasks();
+      setTasks(res.tasks || []);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load tasks");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (tasks.length === 0) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">No tasks assigned to your panchayath.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-[55vh] overflow-y-auto pr-1">
+      {tasks.map((t) => {
+        const status = t.feedback ? STATUS_BADGES[t.feedback.status] : null;
+        return (
+          <li key={t.id} className="rounded-lg border bg-card p-3 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm font-medium">{t.title}</p>
+              {status ? (
+                <Badge className={`text-[10px] shrink-0 ${status.className}`}>{status.label}</Badge>
+              ) : (
+                <Badge variant="outline" className="text-[10px] shrink-0">Pending</Badge>
+              )}
+            </div>
+            {t.description && <p className="text-xs text-muted-foreground">{t.description}</p>}
+            {t.panchayath?.name && (
+              <p className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                <MapPin className="h-3 w-3" /> {t.panchayath.name}
+              </p>
+            )}
+            {t.feedback?.remarks && <p className="text-xs italic text-muted-foreground">"{t.feedback.remarks}"</p>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
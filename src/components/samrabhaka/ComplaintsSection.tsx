@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { edgeClient, type PortalComplaint } from "@/lib/edgeApi";
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  resolved: "bg-green-100 text-green-800 border-green-300",
+  dismissed: "bg-red-100 text-red-800 border-red-300",
+};
+
+/** Complaints the signed-in agent raised over WhatsApp, and what came of them. */
+export function ComplaintsSection({ token }: { token: string }) {
+  const [complaints, setComplaints] = useState<PortalComplaint[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await edgeClient("samrabhaka-auth", { agentToken: token }).my_complaints();
+      setComplaints(res.complaints || []);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load complaints");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        To raise a complaint, send <strong>3 &lt;your message&gt;</strong> on WhatsApp.
+      </p>
+      {complaints.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">You have not raised any complaints.</p>
+      ) : (
+        <ul className="space-y-2 max-h-[55vh] overflow-y-auto pr-1">
+          {complaints.map((c) => (
+            <li key={c.id} className="rounded-lg border bg-card p-3 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm">{c.complaint_text}</p>
+                <Badge variant="outline" className={`text-[10px] capitalize shrink-0 ${STATUS_COLORS[c.status] || ""}`}>
+                  {c.status}
+                </Badge>
+              </div>
+              {c.admin_remarks && <p className="text-xs text-muted-foreground">Remarks: {c.admin_remarks}</p>}
+              <p className="text-[11px] text-muted-foreground">
+                Raised {new Date(c.created_at).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+                {c.updated_at !== c.created_at &&
+                  ` · updated ${new Date(c.updated_at).toLocaleDateString("en-IN", { dateStyle: "medium" })}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Check, Loader2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { edgeClient, type LeaveRequestRow, type TeamLeaveRequest } from "@/lib/edgeApi";
+import { ROLE_LABELS } from "@/hooks/usePennyekartAgents";
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  approved: "bg-green-100 text-green-800 border-green-300",
+  rejected: "bg-red-100 text-red-800 border-red-300",
+  cancelled: "bg-muted text-muted-foreground",
+};
+
+const formatDates = (start: string, end: string) =>
+  start === end
+    ? format(new Date(start), "dd MMM yyyy")
+    : `${format(new Date(start), "dd MMM")} – ${format(new Date(end), "dd MMM yyyy")}`;
+
+/**
+ * The signed-in agent's leave: asking for it, their past requests, and the
+ * pending requests from their team that they can approve or reject. Approved
+ * leave is not counted as absence.
+ */
+export function LeaveSection({ token }: { token: string }) {
+  const [leaves, setLeaves] = useState<LeaveRequestRow[]>([]);
+  const [teamPending, setTeamPending] = useState<TeamLeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [reason, setReason] = useState("");
+
+  const api = useMemo(() => edgeClient("samrabhaka-auth", { agentToken: token }), [token]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.my_leaves();
+      setLeaves(res.leaves || []);
+      setTeamPending(res.team_pending || []);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load leave");
+    } finally {
+      setLoading(false);
+    }
+  }, [api]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRequest = async () => {
+    setSaving(true);
+    try {
+      await api.request_leave({ start_date: startDate, end_date: endDate < startDate ? startDate : endDate, reason });
+      toast.success("Leave requested");
+      setReason("");
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to request leave");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const run = async (id: string, call: () => Promise<unknown>, done: string) => {
+    setBusyId(id);
+    try {
+      await call();
+      toast.success(done);
+      await load();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5 max-h-[65vh] overflow-y-auto pr-1">
+      <div className="rounded-lg border bg-card p-3 space-y-3">
+        <p className="text-sm font-medium">Ask for leave</p>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="leave-from" className="text-xs">From</Label>
+            <Input id="leave-from" type="date" className="h-9" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="leave-to" className="text-xs">To</Label>
+            <Input id="leave-to" type="date" className="h-9" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+        <Input placeholder="Reason (optional)" className="h-9" value={reason} onChange={(e) => setReason(e.target.value)} />
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[11px] text-muted-foreground">
+            Or send <strong>leave 20/10 to 22/10 &lt;reason&gt;</strong> on WhatsApp.
+          </p>
+          <Button size="sm" onClick={handleRequest} disabled={saving || !startDate}>
+            {saving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+            Request
+          </Button>
+        </div>
+      </div>
+
+      {teamPending.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Waiting for your approval</p>
+          <ul className="space-y-2">
+            {teamPending.map((l) => (
+              <li key={l.id} className="rounded-lg border bg-card p-3 flex items-start justify-between gap-2">
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium">
+                    {l.agent?.name || "Agent"}
+                    {l.agent && (
+                      <span className="text-xs text-muted-foreground font-normal">
+                        {" "}· {ROLE_LABELS[l.agent.role] || l.agent.role}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs">{formatDates(l.start_date, l.end_date)}</p>
+                  {l.reason && <p className="text-xs text-muted-foreground">{l.reason}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 w-8 p-0 text-green-700"
+                    disabled={busyId === l.id}
+                    onClick={() => run(l.id, () => api.decide_leave({ id: l.id, approve: true }), "Leave approved")}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 w-8 p-0 text-destructive"
+                    disabled={busyId === l.id}
+                    onClick={() => run(l.id, () => api.decide_leave({ id: l.id, approve: false }), "Leave rejected")}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Your requests</p>
+        {leaves.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">You have not asked for leave.</p>
+        ) : (
+          <ul className="space-y-2">
+            {leaves.map((l) => {
+              const cancellable = l.status === "pending" || (l.status === "approved" && l.start_date > today);
+              return (
+                <li key={l.id} className="rounded-lg border bg-card p-3 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm">{formatDates(l.start_date, l.end_date)}</p>
+                    <Badge variant="outline" className={`text-[10px] capitalize shrink-0 ${STATUS_COLORS[l.status] || ""}`}>
+                      {l.status}
+                    </Badge>
+                  </div>
+                  {l.reason && <p className="text-xs text-muted-foreground">{l.reason}</p>}
+                  {l.remarks && <p className="text-xs text-muted-foreground">Remarks: {l.remarks}</p>}
+                  {cancellable && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-xs text-destructive"
+                      disabled={busyId === l.id}
+                      onClick={() => run(l.id, () => api.cancel_leave({ id: l.id }), "Leave cancelled")}
+                    >
+                      Cancel request
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2, Trophy, CheckCircle2, XCircle, ArrowUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { edgeClient, type EdgeOutput } from "@/lib/edgeApi";
+import { getAgentRankBreakdown, describeRankRule, type AgentRankSnapshot } from "@/lib/agentRank";
+import { ROLE_LABELS, type AgentRole, type PennyekartAgent } from "@/hooks/usePennyekartAgents";
+import { AgentHierarchyTree } from "@/components/pennyekart/AgentHierarchyTree";
+
+type Network = EdgeOutput<"samrabhaka-auth", "my_network">;
+
+/** The signed-in agent's rank progress, upline and team. */
+export function MyNetworkSection({ token, agentId }: { token: string; agentId: string }) {
+  const [network, setNetwork] = useState<Network | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState(agentId);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setNetwork(await edgeClient("samrabhaka-auth", { agentToken: token }).my_network());
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load your network");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const agents = useMemo(() => (network?.agents || []) as unknown as PennyekartAgent[], [network]);
+  const ranks = useMemo(
+    () => new Map((network?.ranks || []).map((r) => [r.agent_id, r as AgentRankSnapshot])),
+    [network],
+  );
+  const self = agents.find((a) => a.id === agentId);
+  const upline = (network?.upline_ids || []).map((id) => agents.find((a) => a.id === id)).filter(Boolean);
+  const breakdown = self ? getAgentRankBreakdown(self, agents, ranks) : null;
+  const teamSize = agents.length - upline.length - 1;
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!self) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">Your hierarchy details are not available.</p>;
+  }
+
+  const info = breakdown?.rankInfo;
+
+  return (
+    <div className="space-y-5">
+      <div className="rounded-lg border p-4 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 font-medium">
+            <Trophy className="h-4 w-4 text-amber-500" /> Your rank
+          </div>
+          {info ? (
+            info.isFull ? (
+              <Badge className="bg-emerald-600 hover:bg-emerald-600">Full rank</Badge>
+            ) : (
+              <Badge variant="outline" className="text-amber-700 border-amber-300">In progress</Badge>
+            )
+          ) : (
+            <Badge variant="outline">Not ranked yet</Badge>
+          )}
+        </div>
+        {info && info.required > 0 && (
+          <>
+            <Progress value={info.percentage} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {info.label}
+              {breakdown?.rule && ` · needs ${describeRankRule(breakdown.rule)}`}
+            </p>
+          </>
+        )}
+        {network?.snapshot_date && (
+          <p className="text-[11px] text-muted-foreground">
+            As of {new Date(network.snapshot_date).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+          </p>
+        )}
+        {breakdown && breakdown.details.length > 0 && (
+          <ul className="pt-2 space-y-1 max-h-40 overflow-y-auto">
+            {breakdown.details.map(({ agent, rank }) => (
+              <li key={agent.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex items-center gap-1.5 min-w-0">
+                  {rank?.isFull ? (
+                    <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600 shrink-0" />
+                  ) : (
+                    <XCircle className="h-3.5 w-3.5 text-amber-600 shrink-0" />
+                  )}
+                  <span className="truncate">{agent.name}</span>
+                </span>
+                <span className="text-muted-foreground shrink-0">{rank?.label || "Not ranked"}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {upline.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground flex items-center gap-1">
+            <ArrowUp className="h-3.5 w-3.5" /> You report to
+          </h4>
+          <ul className="space-y-1.5">
+            {upline.map((a) => (
+              <li key={a.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                <span className="font-medium truncate">{a.name}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {ROLE_LABELS[a.role as AgentRole] || a.role} · {a.mobile}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Your team ({teamSize})
+        </h4>
+        <AgentHierarchyTree
+          agents={agents}
+          ranks={ranks}
+          selectedAgentId={selectedId}
+          onSelectAgent={(a) => setSelectedId(a.id)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { edgeClient, type EdgeOutput } from "@/lib/edgeApi";
+
+type WalletData = EdgeOutput<"samrabhaka-auth", "my_wallet">;
+
+const fmt = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+const TYPE_LABELS: Record<string, string> = {
+  commission_credit: "Commission",
+};
+
+/** The signed-in agent's wallet balance and ledger. */
+export function WalletSection({ token }: { token: string }) {
+  const [wallet, setWallet] = useState<WalletData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setWallet(await edgeClient("samrabhaka-auth", { agentToken: token }).my_wallet());
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to load wallet");
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="py-10 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const transactions = wallet?.transactions || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border bg-gradient-to-br from-pink-50 to-transparent p-4 flex items-center gap-3">
+        <Wallet className="h-6 w-6 text-pink-600" />
+        <div>
+          <p className="text-xs text-muted-foreground">Balance</p>
+          <p className="text-2xl font-bold">{fmt(wallet?.balance || 0)}</p>
+        </div>
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No wallet transactions yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+          {transactions.map((t) => (
+            <li key={t.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{TYPE_LABELS[t.transaction_type] || t.transaction_type}</p>
+                {t.description && <p className="text-xs text-muted-foreground mt-0.5">{t.description}</p>}
+                <p className="text-[11px] text-muted-foreground mt-1">
+                  {new Date(t.transfer_date).toLocaleDateString("en-IN", { dateStyle: "medium" })}
+                  {t.from_date && t.to_date && (
+                    <> · for {new Date(t.from_date).toLocaleDateString("en-IN", { dateStyle: "medium" })} – {new Date(t.to_date).toLocaleDateString("en-IN", { dateStyle: "medium" })}</>
+                  )}
+                </p>
+              </div>
+              <span className={cn("text-sm font-semibold shrink-0", Number(t.amount) < 0 ? "text-destructive" : "text-emerald-600")}>
+                {Number(t.amount) < 0 ? "−" : "+"}{fmt(Math.abs(Number(t.amount)))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { edgeClient } from "@/lib/edgeApi";
+import { RANK_SNAPSHOT_SELECT, type AgentRankEvent, type AgentRankSnapshot, type RankRule } from "@/lib/agentRank";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * The latest stored rank of every agent. Every compute_ranks run snapshots all
+ * agents, so the newest snapshot date holds the current ranks. With `asOf`
+ * (YYYY-MM-DD), the ranks from the last snapshot on or before that day.
+ */
+export function useAgentRanks(asOf?: string) {
+  const { adminToken } = useAuth();
+  const [ranks, setRanks] = useState<Map<string, AgentRankSnapshot>>(new Map());
+  const [snapshotDate, setSnapshotDate] = useState<string | null>(null);
+  const [computedAt, setComputedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComputing, setIsComputing] = useState(false);
+
+  const fetchRanks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      let latestQuery = supabase.from("pennyekart_agent_rank_snapshots").select("snapshot_date");
+      if (asOf) latestQuery = latestQuery.lte("snapshot_date", asOf);
+      const { data: latest } = await latestQuery
+        .order("snapshot_date", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (!latest) {
+        setRanks(new Map());
+        setSnapshotDate(null);
+        setComputedAt(null);
+        return;
+      }
+
+      const rows: AgentRankSnapshot[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("pennyekart_agent_rank_snapshots")
+          .select(RANK_SNAPSHOT_SELECT)
+          .eq("snapshot_date", latest.snapshot_date)
+          .order("agent_id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      setRanks(new Map(rows.map((r) => [r.agent_id, r])));
+      setSnapshotDate(latest.snapshot_date);
+      setComputedAt(rows.reduce<string | null>((max, r) => (!max || r.computed_at > max ? r.computed_at : max), null));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [asOf]);
+
+  useEffect(() => {
+    fetchRanks();
+  }, [fetchRanks]);
+
+  /** Recomputes every agent's rank on the server and reloads the result. */
+  const recompute = useCallback(async () => {
+    setIsComputing(true);
+    try {
+      const run = await edgeClient("pennyekart-agents", { adminToken }).compute_ranks();
+      await fetchRanks();
+      return run;
+    } finally {
+      setIsComputing(false);
+    }
+  }, [adminToken, fetchRanks]);
+
+  return { ranks, snapshotDate, computedAt, isLoading, isComputing, refetch: fetchRanks, recompute };
+}
+
+/** An agent's "rank achieved / rank lost" history, newest first. */
+export function useAgentRankHistory(agentId: string | null) {
+  const [events, setEvents] = useState<AgentRankEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!agentId) {
+      setEvents([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    supabase
+      .from("pennyekart_agent_rank_events")
+      .select("*")
+      .eq("agent_id", agentId)
+      .order("occurred_on", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(50)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setEvents(data || []);
+        setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
+
+  return { events, isLoading };
+}
+
+/** Every rank rule version, newest first within each role. */
+export function useRankRules() {
+  const [rules, setRules] = useState<RankRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    const { data } = await supabase
+      .from("pennyekart_rank_rules")
+      .select("*")
+      .order("role")
+      .order("effective_from", { ascending: false });
+    setRules(data || []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  return { rules, isLoading, refetch: fetchRules };
+}
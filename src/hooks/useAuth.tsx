@@ -1,7 +1,10 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { Database } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { sessionEndedMessage, sessionTimeLeft } from "@/lib/sessionToken";
+import { DEFAULT_ADMIN_CAPABILITIES, type Capability } from "@/lib/capabilities";
 
 type AppRole = Database["public"]["Enums"]["app_role"];
 
@@ -15,6 +18,7 @@ interface AdminData {
   is_read_only?: boolean;
   cash_collection_enabled?: boolean;
   cash_collection_division_ids?: string[];
+  capabilities?: string[];
 }
 
 interface AuthContextType {
@@ -28,15 +32,24 @@ interface AuthContextType {
   adminToken: string | null;
   adminData: AdminData | null;
   isReadOnly: boolean;
+  hasCapability: (capability: Capability) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signInAsAdmin: (token: string, admin: AdminData) => void;
   signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const ADMIN_TOKEN_KEY = "elife_admin_token";
 const ADMIN_DATA_KEY = "elife_admin_data";
+// How often an open tab re-validates its admin session with the server.
+const ADMIN_RECHECK_MS = 5 * 60 * 1000;
+
+function clearStoredAdminSession() {
+  localStorage.removeItem(ADMIN_TOKEN_KEY);
+  localStorage.removeItem(ADMIN_DATA_KEY);
+}
 
 function getStoredAdminSession(): { token: string; data: AdminData } | null {
   try {
@@ -44,20 +57,16 @@ function getStoredAdminSession(): { token: string; data: AdminData } | null {
     const storedAdminData = localStorage.getItem(ADMIN_DATA_KEY);
     if (!storedToken || !storedAdminData) return null;
 
-    const [payload] = storedToken.split(".");
-    const decoded = JSON.parse(atob(payload));
-
-    if (decoded.exp && decoded.exp > Date.now()) {
+    const timeLeft = sessionTimeLeft(storedToken);
+    if (timeLeft !== null && timeLeft > 0) {
       return { token: storedToken, data: JSON.parse(storedAdminData) };
     }
 
-    // Token expired, clear it
-    localStorage.removeItem(ADMIN_TOKEN_KEY);
-    localStorage.removeItem(ADMIN_DATA_KEY);
+    // Token expired or from an older format, clear it
+    clearStoredAdminSession();
     return null;
   } catch {
-    localStorage.removeItem(ADMIN_TOKEN_KEY);
-    localStorage.removeItem(ADMIN_DATA_KEY);
+    clearStoredAdminSession();
     return null;
   }
 }
@@ -85,17 +94,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return data?.map((r) => r.role) || [];
   };
 
+  const endAdminSession = useCallback((message?: string) => {
+    setAdminToken(null);
+    setAdminData(null);
+    setRoles((current) => current.filter((r) => r !== "admin"));
+    clearStoredAdminSession();
+    if (message) {
+      toast({ title: "Signed out", description: message, variant: "destructive" });
+    }
+  }, []);
+
   useEffect(() => {
+    if (!adminToken) return;
+
     const refreshAdminData = async () => {
-      if (!adminToken) return;
-      
       try {
         const { data, error } = await supabase.functions.invoke("admin-auth", {
           body: { action: "refresh" },
           headers: { "x-admin-token": adminToken },
         });
 
-        if (!error && data?.success && data?.admin) {
+        if (error) {
+          // Expired or revoked (logout everywhere, deactivated) — drop the cached admin data
+          const ended = await sessionEndedMessage(error);
+          if (ended) endAdminSession(ended);
+          return;
+        }
+
+        if (data?.success && data?.admin) {
           const updatedAdmin: AdminData = {
             id: data.admin.id,
             user_id: data.admin.user_id,
@@ -106,6 +132,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             is_read_only: data.admin.is_read_only,
             cash_collection_enabled: data.admin.cash_collection_enabled,
             cash_collection_division_ids: data.admin.cash_collection_division_ids,
+            capabilities: data.admin.capabilities,
           };
           setAdminData(updatedAdmin);
           localStorage.setItem(ADMIN_DATA_KEY, JSON.stringify(updatedAdmin));
@@ -116,7 +143,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
 
     refreshAdminData();
-  }, [adminToken]);
+
+    const onVisible = () => {
+      if (document.visibilityState === "visible") refreshAdminData();
+    };
+    document.addEventListener("visibilitychange", onVisible);
+    const interval = window.setInterval(refreshAdminData, ADMIN_RECHECK_MS);
+    const timeLeft = sessionTimeLeft(adminToken) ?? 0;
+    const expiry = window.setTimeout(
+      () => endAdminSession("Your session has expired. Please sign in again."),
+      Math.max(timeLeft, 0),
+    );
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisible);
+      window.clearInterval(interval);
+      window.clearTimeout(expiry);
+    };
+  }, [adminToken, endAdminSession]);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -172,10 +216,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = async () => {
     // Clear admin session
     if (adminToken) {
-      setAdminToken(null);
-      setAdminData(null);
-      localStorage.removeItem(ADMIN_TOKEN_KEY);
-      localStorage.removeItem(ADMIN_DATA_KEY);
+      supabase.functions
+        .invoke("admin-auth", { body: { action: "logout" }, headers: { "x-admin-token": adminToken } })
+        .catch(() => undefined);
+      endAdminSession();
     }
     
     // Clear Supabase session
@@ -183,11 +227,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setRoles([]);
   };
 
+  const signOutEverywhere = async () => {
+    if (adminToken) {
+      await supabase.functions
+        .invoke("admin-auth", { body: { action: "logout_all" }, headers: { "x-admin-token": adminToken } })
+        .catch(() => undefined);
+    }
+    await signOut();
+  };
+
   const isSuperAdmin = roles.includes("super_admin");
   const isAdmin = roles.includes("admin") || isSuperAdmin;
   const isMember = roles.includes("member") || isAdmin;
   const isReadOnly = adminData?.is_read_only ?? false;
 
+  const hasCapability = (capability: Capability) => {
+    if (isSuperAdmin) return true;
+    if (!adminData) return false;
+    return (adminData.capabilities ?? DEFAULT_ADMIN_CAPABILITIES).includes(capability);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -201,9 +260,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         adminToken,
         adminData,
         isReadOnly,
+        hasCapability,
         signIn,
         signInAsAdmin,
         signOut,
+        signOutEverywhere,
       }}
     >
       {children}
@@ -14,10 +14,110 @@ export type Database = {
   }
   public: {
     Tables: {
+      absence_digest_opt_outs: {
+        Row: {
+          created_at: string
+          mobile: string
+          opted_out_by: string
+        }
+        Insert: {
+          created_at?: string
+          mobile: string
+          opted_out_by: string
+        }
+        Update: {
+          created_at?: string
+          mobile?: string
+          opted_out_by?: string
+        }
+        Relationships: []
+      }
+      absence_digest_secrets: {
+        Row: {
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      absence_digest_sends: {
+        Row: {
+          absent_count: number
+          created_at: string
+          error: string | null
+          id: string
+          mobile: string
+          recipient_id: string
+          recipient_kind: string
+          recipient_name: string
+          run_date: string
+          status: string
+        }
+        Insert: {
+          absent_count: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          mobile: string
+          recipient_id: string
+          recipient_kind: string
+          recipient_name: string
+          run_date: string
+          status: string
+        }
+        Update: {
+          absent_count?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          mobile?: string
+          recipient_id?: string
+          recipient_kind?: string
+          recipient_name?: string
+          run_date?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      absence_digest_settings: {
+        Row: {
+          id: boolean
+          is_enabled: boolean
+          last_run_date: string | null
+          send_time: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          is_enabled?: boolean
+          last_run_date?: string | null
+          send_time?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          is_enabled?: boolean
+          last_run_date?: string | null
+          send_time?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       admins: {
         Row: {
           access_all_divisions: boolean
           additional_division_ids: string[]
+          capabilities: string[]
           cash_collection_division_ids: string[]
           cash_collection_enabled: boolean
           created_at: string | null
@@ -34,6 +134,7 @@ export type Database = {
         Insert: {
           access_all_divisions?: boolean
           additional_division_ids?: string[]
+          capabilities?: string[]
           cash_collection_division_ids?: string[]
           cash_collection_enabled?: boolean
           created_at?: string | null
@@ -50,6 +151,7 @@ export type Database = {
         Update: {
           access_all_divisions?: boolean
           additional_division_ids?: string[]
+          capabilities?: string[]
           cash_collection_division_ids?: string[]
           cash_collection_enabled?: boolean
           created_at?: string | null
@@ -209,6 +311,66 @@ export type Database = {
           },
         ]
       }
+      agent_leave_requests: {
+        Row: {
+          agent_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          end_date: string
+          id: string
+          reason: string
+          remarks: string | null
+          source: string
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          end_date: string
+          id?: string
+          reason?: string
+          remarks?: string | null
+          source: string
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          end_date?: string
+          id?: string
+          reason?: string
+          remarks?: string | null
+          source?: string
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_leave_requests_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_leave_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_project_members: {
         Row: {
           agent_id: string
@@ -418,11 +580,75 @@ export type Database = {
           },
         ]
       }
+      agent_work_log_media: {
+        Row: {
+          address: string | null
+          agent_id: string
+          caption: string
+          content_type: string | null
+          created_at: string
+          id: string
+          kind: string
+          latitude: number | null
+          longitude: number | null
+          media_index: number
+          message_sid: string | null
+          storage_path: string | null
+          work_log_id: string
+        }
+        Insert: {
+          address?: string | null
+          agent_id: string
+          caption?: string
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          latitude?: number | null
+          longitude?: number | null
+          media_index?: number
+          message_sid?: string | null
+          storage_path?: string | null
+          work_log_id: string
+        }
+        Update: {
+          address?: string | null
+          agent_id?: string
+          caption?: string
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          latitude?: number | null
+          longitude?: number | null
+          media_index?: number
+          message_sid?: string | null
+          storage_path?: string | null
+          work_log_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_work_log_media_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_work_log_media_work_log_id_fkey"
+            columns: ["work_log_id"]
+            isOneToOne: false
+            referencedRelation: "agent_work_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_work_logs: {
         Row: {
           agent_id: string
           created_at: string
           id: string
+          metrics: Json
           updated_at: string
           work_date: string
           work_details: string
@@ -431,6 +657,7 @@ export type Database = {
           agent_id: string
           created_at?: string
           id?: string
+          metrics?: Json
           updated_at?: string
           work_date?: string
           work_details?: string
@@ -439,6 +666,7 @@ export type Database = {
           agent_id?: string
           created_at?: string
           id?: string
+          metrics?: Json
           updated_at?: string
           work_date?: string
           work_details?: string
@@ -453,6 +681,48 @@ export type Database = {
           },
         ]
       }
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_type: string
+          after: Json | null
+          before: Json | null
+          changed_fields: string[] | null
+          entity: string
+          entity_id: string | null
+          id: string
+          occurred_at: string
+          source: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_type: string
+          after?: Json | null
+          before?: Json | null
+          changed_fields?: string[] | null
+          entity: string
+          entity_id?: string | null
+          id?: string
+          occurred_at?: string
+          source?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_type?: string
+          after?: Json | null
+          before?: Json | null
+          changed_fields?: string[] | null
+          entity?: string
+          entity_id?: string | null
+          id?: string
+          occurred_at?: string
+          source?: string | null
+        }
+        Relationships: []
+      }
       cash_collections: {
         Row: {
           amount: number
@@ -899,6 +1169,42 @@ export type Database = {
         }
         Relationships: []
       }
+      login_throttles: {
+        Row: {
+          created_at: string
+          failure_count: number
+          id: string
+          key: string
+          key_type: string
+          last_failure_at: string
+          locked_until: string | null
+          scope: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failure_count?: number
+          id?: string
+          key: string
+          key_type: string
+          last_failure_at?: string
+          locked_until?: string | null
+          scope: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failure_count?: number
+          id?: string
+          key?: string
+          key_type?: string
+          last_failure_at?: string
+          locked_until?: string | null
+          scope?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       members: {
         Row: {
           added_by: string | null
@@ -1109,6 +1415,167 @@ export type Database = {
         }
         Relationships: []
       }
+      pennyekart_agent_handovers: {
+        Row: {
+          agent_id: string
+          created_at: string
+          created_by: string | null
+          customers_moved: number
+          handover_date: string
+          id: string
+          notes: string | null
+          promoted: boolean
+          reports_moved: number
+          responsible_panchayath_ids: string[]
+          responsible_wards: string[]
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          successor_id: string | null
+          tasks_moved: number
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          created_by?: string | null
+          customers_moved?: number
+          handover_date: string
+          id?: string
+          notes?: string | null
+          promoted?: boolean
+          reports_moved?: number
+          responsible_panchayath_ids?: string[]
+          responsible_wards?: string[]
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          successor_id?: string | null
+          tasks_moved?: number
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          created_by?: string | null
+          customers_moved?: number
+          handover_date?: string
+          id?: string
+          notes?: string | null
+          promoted?: boolean
+          reports_moved?: number
+          responsible_panchayath_ids?: string[]
+          responsible_wards?: string[]
+          role?: Database["public"]["Enums"]["pennyekart_agent_role"]
+          successor_id?: string | null
+          tasks_moved?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pennyekart_agent_handovers_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pennyekart_agent_handovers_successor_id_fkey"
+            columns: ["successor_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pennyekart_agent_rank_events: {
+        Row: {
+          agent_id: string
+          created_at: string
+          current_count: number
+          event: string
+          id: string
+          occurred_on: string
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+        }
+        Insert: {
+          agent_id: string
+          created_at?: string
+          current_count: number
+          event: string
+          id?: string
+          occurred_on: string
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+        }
+        Update: {
+          agent_id?: string
+          created_at?: string
+          current_count?: number
+          event?: string
+          id?: string
+          occurred_on?: string
+          required_count?: number
+          role?: Database["public"]["Enums"]["pennyekart_agent_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pennyekart_agent_rank_events_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pennyekart_agent_rank_snapshots: {
+        Row: {
+          agent_id: string
+          computed_at: string
+          current_count: number
+          id: string
+          is_full: boolean
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          rule_id: string | null
+          snapshot_date: string
+          total_count: number
+        }
+        Insert: {
+          agent_id: string
+          computed_at?: string
+          current_count: number
+          id?: string
+          is_full: boolean
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          rule_id?: string | null
+          snapshot_date: string
+          total_count: number
+        }
+        Update: {
+          agent_id?: string
+          computed_at?: string
+          current_count?: number
+          id?: string
+          is_full?: boolean
+          required_count?: number
+          role?: Database["public"]["Enums"]["pennyekart_agent_role"]
+          rule_id?: string | null
+          snapshot_date?: string
+          total_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pennyekart_agent_rank_snapshots_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pennyekart_agent_rank_snapshots_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_rank_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pennyekart_agent_task_feedback: {
         Row: {
           agent_id: string
@@ -1198,13 +1665,71 @@ export type Database = {
           },
         ]
       }
-      pennyekart_agents: {
+      pennyekart_agent_versions: {
         Row: {
-          created_at: string | null
-          created_by: string | null
-          customer_count: number | null
+          agent_id: string
+          id: string
+          is_active: boolean
+          panchayath_id: string | null
+          parent_agent_id: string | null
+          responsible_panchayath_ids: string[]
+          responsible_wards: string[]
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          valid_from: string
+          valid_to: string | null
+          ward: string
+        }
+        Insert: {
+          agent_id: string
+          id?: string
+          is_active?: boolean
+          panchayath_id?: string | null
+          parent_agent_id?: string | null
+          responsible_panchayath_ids?: string[]
+          responsible_wards?: string[]
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          valid_from: string
+          valid_to?: string | null
+          ward: string
+        }
+        Update: {
+          agent_id?: string
+          id?: string
+          is_active?: boolean
+          panchayath_id?: string | null
+          parent_agent_id?: string | null
+          responsible_panchayath_ids?: string[]
+          responsible_wards?: string[]
+          role?: Database["public"]["Enums"]["pennyekart_agent_role"]
+          valid_from?: string
+          valid_to?: string | null
+          ward?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pennyekart_agent_versions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pennyekart_agent_versions_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pennyekart_agents: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          customer_count: number | null
           id: string
           is_active: boolean | null
+          language: string
           mobile: string
           name: string
           panchayath_id: string
@@ -1221,6 +1746,7 @@ export type Database = {
           customer_count?: number | null
           id?: string
           is_active?: boolean | null
+          language?: string
           mobile: string
           name: string
           panchayath_id: string
@@ -1237,6 +1763,7 @@ export type Database = {
           customer_count?: number | null
           id?: string
           is_active?: boolean | null
+          language?: string
           mobile?: string
           name?: string
           panchayath_id?: string
@@ -1264,6 +1791,21 @@ export type Database = {
           },
         ]
       }
+      pennyekart_agents_secrets: {
+        Row: {
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
       pennyekart_categories: {
         Row: {
           category_type: string | null
@@ -1303,6 +1845,30 @@ export type Database = {
         }
         Relationships: []
       }
+      pennyekart_customer_settings: {
+        Row: {
+          active_days: number
+          count_new_registrations: boolean
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          active_days?: number
+          count_new_registrations?: boolean
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          active_days?: number
+          count_new_registrations?: boolean
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       pennyekart_orders: {
         Row: {
           collected_amount: number
@@ -1474,6 +2040,81 @@ export type Database = {
         }
         Relationships: []
       }
+      pennyekart_rank_rules: {
+        Row: {
+          counted_role: Database["public"]["Enums"]["pennyekart_agent_role"] | null
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          require_full: boolean
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          scope: string
+        }
+        Insert: {
+          counted_role?: Database["public"]["Enums"]["pennyekart_agent_role"] | null
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          id?: string
+          require_full?: boolean
+          required_count: number
+          role: Database["public"]["Enums"]["pennyekart_agent_role"]
+          scope?: string
+        }
+        Update: {
+          counted_role?: Database["public"]["Enums"]["pennyekart_agent_role"] | null
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          require_full?: boolean
+          required_count?: number
+          role?: Database["public"]["Enums"]["pennyekart_agent_role"]
+          scope?: string
+        }
+        Relationships: []
+      }
+      pennyekart_work_metrics: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          key: string
+          label: string
+          roles: Database["public"]["Enums"]["pennyekart_agent_role"][]
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key: string
+          label: string
+          roles?: Database["public"]["Enums"]["pennyekart_agent_role"][]
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          key?: string
+          label?: string
+          roles?: Database["public"]["Enums"]["pennyekart_agent_role"][]
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -1976,6 +2617,7 @@ export type Database = {
       }
       whatsapp_bot_commands: {
         Row: {
+          allowed_roles: Database["public"]["Enums"]["pennyekart_agent_role"][]
           alt_keyword: string | null
           created_at: string
           id: string
@@ -1987,6 +2629,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          allowed_roles?: Database["public"]["Enums"]["pennyekart_agent_role"][]
           alt_keyword?: string | null
           created_at?: string
           id?: string
@@ -1998,6 +2641,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          allowed_roles?: Database["public"]["Enums"]["pennyekart_agent_role"][]
           alt_keyword?: string | null
           created_at?: string
           id?: string
@@ -2010,6 +2654,254 @@ export type Database = {
         }
         Relationships: []
       }
+      whatsapp_bot_sessions: {
+        Row: {
+          created_at: string
+          data: Json
+          expires_at: string
+          flow: string
+          history: string[]
+          mobile: string
+          step: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          expires_at: string
+          flow: string
+          history?: string[]
+          mobile: string
+          step: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          expires_at?: string
+          flow?: string
+          history?: string[]
+          mobile?: string
+          step?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      whatsapp_broadcast_recipients: {
+        Row: {
+          agent_id: string
+          attempts: number
+          broadcast_id: string
+          created_at: string
+          delivered_at: string | null
+          error: string | null
+          id: string
+          mobile: string
+          name: string
+          next_attempt_at: string
+          provider_message_id: string | null
+          read_at: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          agent_id: string
+          attempts?: number
+          broadcast_id: string
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          mobile: string
+          name: string
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          read_at?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          agent_id?: string
+          attempts?: number
+          broadcast_id?: string
+          created_at?: string
+          delivered_at?: string | null
+          error?: string | null
+          id?: string
+          mobile?: string
+          name?: string
+          next_attempt_at?: string
+          provider_message_id?: string | null
+          read_at?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "pennyekart_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_broadcast_recipients_broadcast_id_fkey"
+            columns: ["broadcast_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_broadcasts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_broadcast_secrets: {
+        Row: {
+          id: boolean
+          secret: string
+        }
+        Insert: {
+          id?: boolean
+          secret?: string
+        }
+        Update: {
+          id?: boolean
+          secret?: string
+        }
+        Relationships: []
+      }
+      whatsapp_broadcasts: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          filters: Json
+          id: string
+          message: string
+          recipient_count: number
+          scheduled_at: string
+          started_at: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by: string
+          filters?: Json
+          id?: string
+          message: string
+          recipient_count?: number
+          scheduled_at?: string
+          started_at?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          filters?: Json
+          id?: string
+          message?: string
+          recipient_count?: number
+          scheduled_at?: string
+          started_at?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      whatsapp_console_messages: {
+        Row: {
+          body: string
+          created_at: string
+          direction: string
+          id: string
+          location: Json | null
+          media: Json
+          mobile: string
+        }
+        Insert: {
+          body?: string
+          created_at?: string
+          direction: string
+          id?: string
+          location?: Json | null
+          media?: Json
+          mobile: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          direction?: string
+          id?: string
+          location?: Json | null
+          media?: Json
+          mobile?: string
+        }
+        Relationships: []
+      }
+      work_calendar_settings: {
+        Row: {
+          id: boolean
+          updated_at: string
+          updated_by: string | null
+          weekly_off_days: number[]
+        }
+        Insert: {
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+          weekly_off_days?: number[]
+        }
+        Update: {
+          id?: boolean
+          updated_at?: string
+          updated_by?: string | null
+          weekly_off_days?: number[]
+        }
+        Relationships: []
+      }
+      work_holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          holiday_date: string
+          id: string
+          name: string
+          panchayath_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          holiday_date: string
+          id?: string
+          name: string
+          panchayath_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          holiday_date?: string
+          id?: string
+          name?: string
+          panchayath_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "work_holidays_panchayath_id_fkey"
+            columns: ["panchayath_id"]
+            isOneToOne: false
+            referencedRelation: "panchayaths"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
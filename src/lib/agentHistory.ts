@@ -0,0 +1,58 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * pennyekart_agents only holds where each agent sits today. Every change to an
+ * agent's role, parent, ward, areas or active flag is also kept as a dated
+ * version in pennyekart_agent_versions (written by a database trigger), which
+ * is what these helpers use to rebuild the hierarchy for a past date.
+ */
+export type AgentVersion = Tables<"pennyekart_agent_versions"> & { panchayath: { name: string } | null };
+
+const PAGE_SIZE = 1000;
+
+/** The moment an "as of" date (YYYY-MM-DD) refers to: the end of that day in India. */
+export function asOfInstant(date: string): string {
+  return new Date(`${date}T23:59:59.999+05:30`).toISOString();
+}
+
+/** The version of every agent in force at the end of `date`, by agent id. */
+export async function fetchAgentVersionsAsOf(date: string): Promise<Map<string, AgentVersion>> {
+  const at = asOfInstant(date);
+  const rows: AgentVersion[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("pennyekart_agent_versions")
+      .select("*, panchayath:panchayaths(name)")
+      .lte("valid_from", at)
+      .or(`valid_to.is.null,valid_to.gt."${at}"`)
+      .order("agent_id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as AgentVersion[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return new Map(rows.map((v) => [v.agent_id, v]));
+}
+
+/**
+ * Puts each agent back where it was according to `versions`. Agents without a
+ * version did not exist yet and are left out.
+ */
+export function agentsAsOf<T extends { id: string }>(agents: T[], versions: Map<string, AgentVersion>): T[] {
+  return agents.flatMap((agent) => {
+    const v = versions.get(agent.id);
+    if (!v) return [];
+    return [{
+      ...agent,
+      role: v.role,
+      parent_agent_id: v.parent_agent_id,
+      panchayath_id: v.panchayath_id,
+      panchayath: v.panchayath,
+      ward: v.ward,
+      responsible_panchayath_ids: v.responsible_panchayath_ids,
+      responsible_wards: v.responsible_wards,
+      is_active: v.is_active,
+    }];
+  });
+}
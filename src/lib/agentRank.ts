@@ -1,4 +1,21 @@
 import { PennyekartAgent, AgentRole, ROLE_LABELS } from "@/hooks/usePennyekartAgents";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Ranks are computed server-side by the pennyekart-agents compute_ranks action
+ * (supabase/functions/_shared/rankEngine.ts) under the rank rules in force on
+ * the day, and stored as dated snapshots. This module only turns those
+ * snapshots into what the UI shows.
+ */
+export type RankRule = Tables<"pennyekart_rank_rules">;
+export type RankScope = "direct" | "team";
+
+/** A stored rank with the rule it was measured against. */
+export type AgentRankSnapshot = Tables<"pennyekart_agent_rank_snapshots"> & { rule: RankRule | null };
+export type AgentRankEvent = Tables<"pennyekart_agent_rank_events">;
+
+/** Select for snapshots that embeds their rule. */
+export const RANK_SNAPSHOT_SELECT = "*, rule:pennyekart_rank_rules(*)";
 
 export interface AgentRankInfo {
   isFull: boolean;
@@ -10,185 +27,116 @@ export interface AgentRankInfo {
 
 export interface AgentRankDetail {
   agent: PennyekartAgent;
-  rank: AgentRankInfo;
+  rank: AgentRankInfo | null; // null until the agent has been ranked
 }
 
 export interface AgentRankBreakdown {
-  rankInfo: AgentRankInfo;
+  rankInfo: AgentRankInfo | null;
+  rule: RankRule | null; // the rule the rank was measured against
   requiredRole: string; // human label of the role needed
   details: AgentRankDetail[]; // each downstream agent with their rank status
 }
 
+/** Today's date in India, which is what the server dates a snapshot by. */
+export function todaysSnapshotDate(now = new Date()): string {
+  return new Date(now.getTime() + 330 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+const SHORT_ROLE_LABELS: Record<AgentRole, string> = {
+  super_admin_partner: "Partners",
+  team_leader: "TLs",
+  coordinator: "Coords",
+  group_leader: "GLs",
+  pro: "PROs",
+};
+
+/** What a rule counts, e.g. "Full PROs", "Direct GLs" or "Customers". */
+function countedLabel(rule: RankRule): string {
+  if (!rule.counted_role) return "Customers";
+  const label = SHORT_ROLE_LABELS[rule.counted_role as AgentRole] ?? rule.counted_role;
+  return [rule.scope === "direct" && "Direct", rule.require_full && "Full", label].filter(Boolean).join(" ");
+}
+
+/** One-line description of a rule, e.g. "5 full Group Leaders anywhere in the team". */
+export function describeRankRule(rule: RankRule): string {
+  if (!rule.counted_role) return `${rule.required_count} customers`;
+  const role = ROLE_LABELS[rule.counted_role as AgentRole] ?? rule.counted_role;
+  const where = rule.scope === "direct" ? "as direct reports" : "anywhere in the team";
+  return `${rule.required_count} ${rule.require_full ? "full " : ""}${role}s ${where}`;
+}
+
+/** The rule in force for a role on a date: its latest one effective on or before it. */
+export function ruleInForce(rules: RankRule[], role: AgentRole, date: string): RankRule | null {
+  return rules
+    .filter((r) => r.role === role && r.effective_from <= date)
+    .reduce<RankRule | null>((latest, r) => (!latest || r.effective_from > latest.effective_from ? r : latest), null);
+}
+
 /**
- * Find all descendants of an agent recursively.
+ * Display form of an agent's stored rank, or null if the agent has no
+ * snapshot yet (e.g. added since ranks were last computed).
  */
-function getAllDescendants(
-  agent: PennyekartAgent,
-  allAgents: PennyekartAgent[],
-  visited: Set<string> = new Set()
-): PennyekartAgent[] {
-  if (visited.has(agent.id)) return [];
-  visited.add(agent.id);
-
-  const directChildren = allAgents.filter(
-    (a) => a.parent_agent_id === agent.id && a.id !== agent.id && !visited.has(a.id)
-  );
-
-  const result: PennyekartAgent[] = [...directChildren];
-  for (const child of directChildren) {
-    result.push(...getAllDescendants(child, allAgents, visited));
-  }
-  return result;
+export function rankInfo(snapshot: AgentRankSnapshot | undefined): AgentRankInfo | null {
+  if (!snapshot) return null;
+  const { current_count: cur, total_count: total, required_count: req } = snapshot;
+  if (req === 0) return { isFull: true, current: 0, required: 0, label: "", percentage: 100 };
+  const suffix = snapshot.rule?.counted_role && total > cur ? ` (${total} total)` : "";
+  return {
+    isFull: snapshot.is_full,
+    current: cur,
+    required: req,
+    label: `${cur}/${req}${snapshot.rule ? ` ${countedLabel(snapshot.rule)}` : ""}${suffix}`,
+    percentage: Math.min(100, Math.round((cur / req) * 100)),
+  };
 }
 
 /**
- * Calculate rank fulfillment for an agent based on their downstream team.
- *
- * Rules:
- * - PRO: full rank if customer_count >= 5
- * - Group Leader: full rank if has >= 5 PROs (in descendants) each with >= 5 customers
- * - Coordinator: full rank if has >= 5 full-rank Group Leaders (in descendants)
- * - Team Leader: full rank if has >= 4 full-rank Coordinators (in descendants)
+ * Find all descendants of an agent (each agent once, even if the parent links
+ * loop), or only direct reports.
  */
-export function calculateAgentRank(
-  agent: PennyekartAgent,
-  allAgents: PennyekartAgent[],
-  visited: Set<string> = new Set()
-): AgentRankInfo {
-  if (visited.has(agent.id)) {
-    return { isFull: false, current: 0, required: 1, label: "–", percentage: 0 };
+function getDescendants(agent: PennyekartAgent, allAgents: PennyekartAgent[], scope: RankScope): PennyekartAgent[] {
+  const children = new Map<string, PennyekartAgent[]>();
+  for (const a of allAgents) {
+    if (!a.parent_agent_id || a.parent_agent_id === a.id) continue;
+    children.set(a.parent_agent_id, [...(children.get(a.parent_agent_id) || []), a]);
   }
-  visited.add(agent.id);
-
-  // Get all descendants for non-PRO roles
-  // Use a fresh visited set for getAllDescendants (don't include the agent itself,
-  // since getAllDescendants checks visited and would return [] immediately)
-  const descendants = agent.role !== "pro"
-    ? getAllDescendants(agent, allAgents, new Set())
-    : [];
-
-  switch (agent.role) {
-    case "pro": {
-      const req = 5;
-      const cur = agent.customer_count;
-      return {
-        isFull: cur >= req,
-        current: cur,
-        required: req,
-        label: `${cur}/${req} Customers`,
-        percentage: Math.min(100, Math.round((cur / req) * 100)),
-      };
-    }
-
-    case "group_leader": {
-      const req = 5;
-      const pros = descendants.filter((c) => c.role === "pro");
-      const fullPros = pros.filter((c) => {
-        const rank = calculateAgentRank(c, allAgents, new Set(visited));
-        return rank.isFull;
-      });
-      const cur = fullPros.length;
-      return {
-        isFull: cur >= req,
-        current: cur,
-        required: req,
-        label: `${cur}/${req} Full PROs${pros.length > cur ? ` (${pros.length} total)` : ""}`,
-        percentage: Math.min(100, Math.round((cur / req) * 100)),
-      };
-    }
-
-    case "coordinator": {
-      const req = 5;
-      const gls = descendants.filter((c) => c.role === "group_leader");
-      const fullGLs = gls.filter((c) => {
-        const rank = calculateAgentRank(c, allAgents, new Set(visited));
-        return rank.isFull;
-      });
-      const cur = fullGLs.length;
-      return {
-        isFull: cur >= req,
-        current: cur,
-        required: req,
-        label: `${cur}/${req} Full GLs${gls.length > cur ? ` (${gls.length} total)` : ""}`,
-        percentage: Math.min(100, Math.round((cur / req) * 100)),
-      };
-    }
 
-    case "team_leader": {
-      const req = 4;
-      const coords = descendants.filter((c) => c.role === "coordinator");
-      const fullCoords = coords.filter((c) => {
-        const rank = calculateAgentRank(c, allAgents, new Set(visited));
-        return rank.isFull;
-      });
-      const cur = fullCoords.length;
-      return {
-        isFull: cur >= req,
-        current: cur,
-        required: req,
-        label: `${cur}/${req} Full Coords${coords.length > cur ? ` (${coords.length} total)` : ""}`,
-        percentage: Math.min(100, Math.round((cur / req) * 100)),
-      };
+  const seen = new Set<string>([agent.id]);
+  const result: PennyekartAgent[] = [];
+  const queue = [agent];
+  while (queue.length) {
+    for (const child of children.get(queue.shift()!.id) || []) {
+      if (seen.has(child.id)) continue;
+      seen.add(child.id);
+      result.push(child);
+      if (scope === "team") queue.push(child);
     }
-
-    default:
-      return { isFull: true, current: 0, required: 0, label: "", percentage: 100 };
   }
+  return result;
 }
 
 /**
- * Get a detailed breakdown of an agent's rank fulfillment,
- * showing each downstream agent and their individual status.
+ * Get a detailed breakdown of an agent's rank fulfillment under the rule
+ * their snapshot was measured against, showing each counted agent and their
+ * individual status.
  */
 export function getAgentRankBreakdown(
   agent: PennyekartAgent,
-  allAgents: PennyekartAgent[]
+  allAgents: PennyekartAgent[],
+  ranks: Map<string, AgentRankSnapshot>
 ): AgentRankBreakdown {
-  const rankInfo = calculateAgentRank(agent, allAgents);
-  const descendants = getAllDescendants(agent, allAgents, new Set());
-
-  switch (agent.role) {
-    case "pro": {
-      return {
-        rankInfo,
-        requiredRole: "Customers",
-        details: [], // PROs don't have sub-agents to show
-      };
-    }
-    case "group_leader": {
-      const pros = descendants.filter(a => a.role === "pro");
-      return {
-        rankInfo,
-        requiredRole: ROLE_LABELS.pro,
-        details: pros.map(a => ({
-          agent: a,
-          rank: calculateAgentRank(a, allAgents),
-        })).sort((a, b) => (a.rank.isFull === b.rank.isFull ? 0 : a.rank.isFull ? 1 : -1)),
-      };
-    }
-    case "coordinator": {
-      const gls = descendants.filter(a => a.role === "group_leader");
-      return {
-        rankInfo,
-        requiredRole: ROLE_LABELS.group_leader,
-        details: gls.map(a => ({
-          agent: a,
-          rank: calculateAgentRank(a, allAgents),
-        })).sort((a, b) => (a.rank.isFull === b.rank.isFull ? 0 : a.rank.isFull ? 1 : -1)),
-      };
-    }
-    case "team_leader": {
-      const coords = descendants.filter(a => a.role === "coordinator");
-      return {
-        rankInfo,
-        requiredRole: ROLE_LABELS.coordinator,
-        details: coords.map(a => ({
-          agent: a,
-          rank: calculateAgentRank(a, allAgents),
-        })).sort((a, b) => (a.rank.isFull === b.rank.isFull ? 0 : a.rank.isFull ? 1 : -1)),
-      };
-    }
-    default:
-      return { rankInfo, requiredRole: "", details: [] };
+  const snapshot = ranks.get(agent.id);
+  const info = rankInfo(snapshot);
+  const rule = snapshot?.rule ?? null;
+  if (!rule) return { rankInfo: info, rule, requiredRole: "", details: [] };
+  if (!rule.counted_role) {
+    return { rankInfo: info, rule, requiredRole: "Customers", details: [] }; // customers aren't listed here
   }
+  const countedRole = rule.counted_role as AgentRole;
+
+  const details = getDescendants(agent, allAgents, rule.scope as RankScope)
+    .filter((a) => a.role === countedRole)
+    .map((a) => ({ agent: a, rank: rankInfo(ranks.get(a.id)) }))
+    .sort((a, b) => Number(!!a.rank?.isFull) - Number(!!b.rank?.isFull));
+  return { rankInfo: info, rule, requiredRole: ROLE_LABELS[countedRole], details };
 }
@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AuditEvent = Tables<"audit_events">;
+
+export const AUDIT_ACTOR_LABELS: Record<string, string> = {
+  super_admin: "Super Admin",
+  admin: "Admin",
+  agent: "Agent",
+  department: "Department member",
+  user: "User",
+  system: "System",
+};
+
+/** Friendly names for the tables users most often filter by. */
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  pennyekart_agents: "Agents",
+  cash_collections: "Cash collections",
+  admins: "Admins",
+  programs: "Programs",
+  program_modules: "Program modules",
+  program_form_questions: "Form questions",
+  program_registrations: "Registrations",
+  trainings: "Trainings",
+  training_lessons: "Training lessons",
+  departments: "Departments",
+  department_members: "Department members",
+  department_work_logs: "Department work logs",
+  department_plans: "Department plans",
+  agent_work_logs: "Agent work logs",
+  agent_work_log_media: "Work log photos & locations",
+  agent_projects: "Samrambhaka projects",
+  agent_direct_customers: "Direct customers",
+  pennyekart_agent_tasks: "Agent tasks",
+  pennyekart_rank_rules: "Rank rules",
+  pennyekart_agent_handovers: "Agent handovers",
+  pennyekart_customer_settings: "Active customer rule",
+  pennyekart_work_metrics: "Work-log metrics",
+  absence_digest_settings: "Absence digest settings",
+  absence_digest_opt_outs: "Absence digest opt-outs",
+  work_calendar_settings: "Work calendar",
+  work_holidays: "Holidays",
+  agent_leave_requests: "Leave requests",
+  payout_commission_rates: "Commission rates",
+  whatsapp_bot_commands: "WhatsApp commands",
+  whatsapp_broadcasts: "WhatsApp broadcasts",
+  panchayaths: "Panchayaths",
+  divisions: "Divisions",
+  members: "Members",
+};
+
+export const entityLabel = (entity: string) => AUDIT_ENTITY_LABELS[entity] || entity.replace(/_/g, " ");
+
+/**
+ * Looks up display names for the actors of a page of events. Ids mean
+ * different things per actor type (see audit_events.actor_type).
+ */
+export async function resolveAuditActors(events: AuditEvent[]): Promise<Record<string, string>> {
+  const idsOf = (type: string) =>
+    Array.from(new Set(events.filter((e) => e.actor_type === type && e.actor_id).map((e) => e.actor_id!)));
+  const userIds = Array.from(new Set([...idsOf("super_admin"), ...idsOf("user")]));
+  const adminIds = idsOf("admin");
+  const agentIds = idsOf("agent");
+  const mobiles = idsOf("department");
+
+  const [profiles, admins, agents, members] = await Promise.all([
+    userIds.length ? supabase.from("profiles").select("id, full_name, email").in("id", userIds) : null,
+    adminIds.length ? supabase.from("admins").select("id, full_name, phone").in("id", adminIds) : null,
+    agentIds.length ? supabase.from("pennyekart_agents").select("id, name").in("id", agentIds) : null,
+    mobiles.length ? supabase.from("pennyekart_agents").select("mobile, name").in("mobile", mobiles) : null,
+  ]);
+
+  const names: Record<string, string> = {};
+  for (const p of profiles?.data || []) names[`super_admin:${p.id}`] = names[`user:${p.id}`] = p.full_name || p.email;
+  for (const a of admins?.data || []) names[`admin:${a.id}`] = a.full_name || a.phone || "Admin";
+  for (const a of agents?.data || []) names[`agent:${a.id}`] = a.name;
+  for (const m of members?.data || []) names[`department:${m.mobile}`] = m.name;
+  return names;
+}
+
+export function actorDisplayName(event: AuditEvent, names: Record<string, string>): string {
+  const label = AUDIT_ACTOR_LABELS[event.actor_type] || event.actor_type;
+  if (!event.actor_id) return label;
+  return names[`${event.actor_type}:${event.actor_id}`] || `${label} ${event.actor_id.slice(0, 8)}`;
+}
+
+/** The fields an event touched, with their old and new values. */
+export function auditChanges(event: AuditEvent): { field: string; before: unknown; after: unknown }[] {
+  const before = (event.before || {}) as Record<string, unknown>;
+  const after = (event.after || {}) as Record<string, unknown>;
+  const fields =
+    event.action === "update"
+      ? event.changed_fields || []
+      : Object.keys(event.action === "insert" ? after : before).filter((f) => f !== "id");
+  return fields.map((field) => ({ field, before: before[field], after: after[field] }));
+}
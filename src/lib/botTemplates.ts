@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ROLE_LABELS, type AgentRole } from "@/hooks/usePennyekartAgents";
+import { fetchWorkCalendar, offReason } from "@/lib/workCalendar";
+
+/**
+ * Placeholders such as `{{agent.name}}` in custom WhatsApp command replies.
+ * The bot fills them in for the agent who sent the command (see
+ * supabase/functions/_shared/botTemplates.ts); this mirrors it so the command
+ * editor can preview a reply for a chosen agent.
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: "agent.name", label: "Agent name" },
+  { key: "agent.mobile", label: "Agent mobile" },
+  { key: "agent.role", label: "Agent role" },
+  { key: "agent.ward", label: "Ward" },
+  { key: "agent.upline", label: "Reporting person" },
+  { key: "agent.upline_mobile", label: "Reporting person's mobile" },
+  { key: "panchayath.name", label: "Panchayath (Malayalam name for Malayalam agents)" },
+  { key: "wallet.balance", label: "Wallet balance" },
+  { key: "today.date", label: "Today's date" },
+  { key: "today.log_status", label: "Today's work log: submitted, day off or not yet" },
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]["key"];
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+const PLACEHOLDER = /\{\{\s*([a-z_.]+)\s*\}\}/gi;
+const KNOWN = new Set<string>(TEMPLATE_PLACEHOLDERS.map((p) => p.key));
+
+/** Placeholders in `text` the bot does not know; it sends them as written. */
+export function unknownPlaceholders(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const [match, key] of text.matchAll(PLACEHOLDER)) {
+    if (!KNOWN.has(key.toLowerCase())) unknown.add(match);
+  }
+  return [...unknown];
+}
+
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER, (match, key: string) => values[key.toLowerCase() as TemplatePlaceholder] ?? match);
+}
+
+/** Every placeholder's value for an agent on `today` (yyyy-MM-dd). */
+export async function fetchTemplateValues(agentId: string, today: string): Promise<TemplateValues> {
+  const { data: agent, error } = await supabase
+    .from("pennyekart_agents")
+    .select("id, name, mobile, role, ward, panchayath_id, parent_agent_id, language, panchayath:panchayaths(name, name_ml)")
+    .eq("id", agentId)
+    .single();
+  if (error) throw error;
+
+  const [parent, transactions, log, calendar] = await Promise.all([
+    agent.parent_agent_id
+      ? supabase.from("pennyekart_agents").select("name, mobile, role").eq("id", agent.parent_agent_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase.from("agent_wallet_transactions").select("amount").eq("agent_id", agent.id),
+    supabase.from("agent_work_logs").select("id").eq("agent_id", agent.id).eq("work_date", today).maybeSingle(),
+    fetchWorkCalendar(today, today),
+  ]);
+  if (transactions.error) throw transactions.error;
+
+  const roleLabel = (role: string) => ROLE_LABELS[role as AgentRole] || role;
+  const balance = (transactions.data || []).reduce((sum, t) => sum + Number(t.amount), 0);
+  const off = log.data ? null : offReason(calendar, agent, today);
+
+  return {
+    "agent.name": agent.name,
+    "agent.mobile": agent.mobile,
+    "agent.role": roleLabel(agent.role),
+    "agent.ward": agent.ward,
+    "agent.upline": parent.data ? `${parent.data.name} (${roleLabel(parent.data.role)})` : "—",
+    "agent.upline_mobile": parent.data?.mobile || "—",
+    "panchayath.name": (agent.language === "ml" && agent.panchayath?.name_ml) || agent.panchayath?.name || "—",
+    "wallet.balance": new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(balance),
+    "today.date": today,
+    "today.log_status": log.data ? "✅ Submitted" : off ? `🏖️ Day off (${off})` : "❌ Not submitted yet",
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Per-module capabilities that a super admin grants to division admins.
+ * Mirrors supabase/functions/_shared/capabilities.ts, which enforces them.
+ */
+export const CAPABILITIES = [
+  {
+    key: "programs:edit",
+    label: "Programs",
+    description: "Create and edit programs, modules, forms and registrations",
+  },
+  {
+    key: "trainings:publish",
+    label: "Trainings",
+    description: "Create, edit and publish trainings and lessons",
+  },
+  {
+    key: "agents:manage",
+    label: "Pennyekart agents",
+    description: "Add, edit and move agents, tasks and direct customers",
+  },
+  {
+    key: "payouts:approve",
+    label: "Payouts",
+    description: "Set commission rates and approve agent payouts",
+  },
+  {
+    key: "sales:upload",
+    label: "Sales uploads",
+    description: "Upload sales reports and old payment sheets",
+  },
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number]["key"];
+
+/** What an admin can do when no capabilities were stored (matches the column default). */
+export const DEFAULT_ADMIN_CAPABILITIES: Capability[] = ["programs:edit", "trainings:publish", "agents:manage"];
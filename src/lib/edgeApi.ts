@@ -0,0 +1,677 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AgentRole, PennyekartAgent } from "@/hooks/usePennyekartAgents";
+import type { OtpPurpose, SamrabhakaAgent } from "@/hooks/useSamrabhakaAuth";
+import type { AgentDirectCustomer, CustomerAttribution, DirectCustomerInput } from "@/hooks/useAgentDirectCustomers";
+import { SESSION_ENDED_CODES } from "@/lib/sessionToken";
+import type { LessonContent, LessonType, Training, TrainingLesson } from "@/lib/trainingsApi";
+
+/**
+ * Typed client for the action-style edge functions. Every action is listed in
+ * EDGE_ACTIONS with its request and response type, and `edgeClient` turns a
+ * function's entry into one method per action:
+ *
+ *   const api = edgeClient("samrabhaka-auth", { agentToken });
+ *   const { project, todos } = await api.get_project({ id });
+ *
+ * Renaming an action or changing its payload here makes every caller fail to
+ * compile. Keep the types in step with the function's input schema.
+ */
+
+/** Phantom carrier for an action's request and response types. */
+interface ActionSpec<I, O> {
+  readonly input?: I;
+  readonly output?: O;
+}
+
+const spec = <I, O>(): ActionSpec<I, O> => ({});
+
+type NoInput = Record<string, never>;
+type Success = { success: true };
+
+export type AgentTaskRow = Tables<"pennyekart_agent_tasks">;
+
+/** What a compute_ranks run stored (see _shared/rankEngine.ts). */
+export interface AgentRankRun {
+  snapshot_date: string;
+  agents: number;
+  full: number;
+  achieved: number;
+  lost: number;
+}
+
+/** What re-deriving PRO customer counts changed (see _shared/customerAttribution.ts). */
+export interface CustomerSyncRun {
+  rule: CustomerRule;
+  pros: number;
+  active_customers: number;
+  updated: number;
+}
+
+export type CustomerRule = Pick<Tables<"pennyekart_customer_settings">, "active_days" | "count_new_registrations">;
+
+export type RankRuleRow = Tables<"pennyekart_rank_rules">;
+
+export type WorkMetricRow = Tables<"pennyekart_work_metrics">;
+
+export type WorkMetricInput = Pick<WorkMetricRow, "key" | "label" | "aliases" | "roles" | "sort_order" | "is_active"> & {
+  id?: string | null;
+};
+
+export interface RankRuleInput {
+  role: RankRuleRow["role"];
+  counted_role: RankRuleRow["counted_role"];
+  required_count: number;
+  require_full: boolean;
+  scope: "direct" | "team";
+  effective_from: string;
+}
+
+export interface MoveAgentInput {
+  agent_id: string;
+  new_parent_id: string | null;
+  /** Move the agent's whole team, or hand their direct reports to reports_to_id. */
+  with_team: boolean;
+  reports_to_id?: string | null;
+}
+
+interface RankCounts {
+  is_full: boolean;
+  current_count: number;
+  required_count: number;
+}
+
+/** An agent whose rank a move would change. */
+export interface MoveRankChange {
+  agent_id: string;
+  name: string;
+  role: string;
+  before: RankCounts;
+  after: RankCounts;
+}
+
+export interface MoveSummary {
+  moved_count: number;
+  reports_moved: number;
+}
+
+export type AgentHandover = Tables<"pennyekart_agent_handovers">;
+
+export interface ExitAgentInput {
+  agent_id: string;
+  /** Null only when the agent has no direct reports. */
+  successor_id: string | null;
+  promote: boolean;
+  backfill_id?: string | null;
+  handover_date: string;
+  notes?: string | null;
+}
+
+/** What an agent's exit would hand over. */
+export interface ExitPreview {
+  direct_reports: number;
+  team_size: number;
+  open_tasks: number;
+  direct_customers: number;
+}
+
+/**
+ * A new agent for bulk_create. The parent may be given by mobile (an existing
+ * agent or another row of the batch) and panchayaths by name.
+ */
+export interface NewAgentRow {
+  name: string;
+  mobile: string;
+  role: string;
+  panchayath_id?: string;
+  panchayath_name?: string;
+  ward?: string;
+  parent_agent_id?: string | null;
+  parent_mobile?: string | null;
+  responsible_panchayath_ids?: string[];
+  responsible_panchayath_names?: string[];
+  responsible_wards?: string[];
+}
+
+/** bulk_create's verdict on one row; the batch is created only if no row has issues. */
+export interface NewAgentReport {
+  index: number;
+  name: string;
+  mobile: string;
+  role: string;
+  panchayath_name: string | null;
+  parent_name: string | null;
+  issues: string[];
+}
+
+/** An agent as the hierarchy forms create it; the server fills in the rest. */
+export type AgentInput = Omit<
+  PennyekartAgent,
+  "id" | "created_at" | "updated_at" | "panchayath" | "parent_agent" | "children" | "created_by"
+>;
+
+export interface NewAgentTask {
+  title: string;
+  description?: string | null;
+  panchayath_id: string;
+}
+
+export type ProjectModel = "individual" | "partnership" | "group";
+export type ProjectEntity = "own_company" | "elife_affiliated";
+export type BudgetPlan = "own_100" | "80_20" | "50_50" | "20_80" | "samrambhini";
+
+export type AgentProject = Omit<Tables<"agent_projects">, "model" | "entity" | "budget_plan"> & {
+  model: ProjectModel;
+  entity: ProjectEntity;
+  budget_plan: BudgetPlan;
+};
+
+export interface AgentProjectInput {
+  project_name: string;
+  plan_description?: string | null;
+  logo_url?: string | null;
+  model: ProjectModel;
+  entity: ProjectEntity;
+  budget_plan: BudgetPlan;
+}
+
+export type ProjectTodo = Tables<"agent_project_todos">;
+export type ProjectNote = Tables<"agent_project_notes">;
+
+export interface RegisteredAgent {
+  id: string;
+  name: string;
+  mobile: string;
+  role: string;
+}
+
+/** What every way of signing in to the Samrabhaka portal returns. */
+export type AgentSignIn = Success & { token: string; agent: RegisteredAgent };
+
+export type MobileCheck =
+  | { exists: false }
+  | { exists: true; has_password: boolean; name: string; role: string };
+
+export interface ProjectMember {
+  id: string;
+  agent_id: string;
+  created_at: string;
+  pennyekart_agents: RegisteredAgent | null;
+}
+
+/** An agent as the Pennyekart portal shows it (samrabhaka-auth my_network). */
+export type PortalAgent = Tables<"pennyekart_agents"> & { panchayath: { name: string } | null };
+
+export type PortalRankSnapshot = Tables<"pennyekart_agent_rank_snapshots"> & { rule: RankRuleRow | null };
+
+export type PortalTask = AgentTaskRow & {
+  panchayath: { name: string } | null;
+  feedback: Pick<Tables<"pennyekart_agent_task_feedback">, "task_id" | "status" | "remarks" | "updated_at"> | null;
+};
+
+export type PortalComplaint = Pick<
+  Tables<"agent_complaints">,
+  "id" | "complaint_text" | "status" | "admin_remarks" | "created_at" | "updated_at"
+>;
+
+export interface DepartmentMembership {
+  member_id: string;
+  department_id: string;
+  member_role: string;
+  can_view_all: boolean;
+  department: { id: string; name: string; color: string | null; icon: string | null };
+}
+
+/** What a department login returns and the home page keeps in localStorage. */
+export interface DepartmentSession {
+  token: string;
+  agent: RegisteredAgent;
+  memberships: DepartmentMembership[];
+}
+
+interface DepartmentItemFields {
+  title?: string;
+  description?: string | null;
+  is_public?: boolean;
+}
+
+export interface TrainingLessonMeta {
+  id: string;
+  training_id: string;
+  lesson_type: LessonType;
+  duration_minutes: number;
+}
+
+export interface TrainingInput {
+  id?: string;
+  title: string;
+  title_ml?: string | null;
+  description?: string | null;
+  cover_url?: string | null;
+  category?: string;
+  division_id?: string | null;
+  is_public?: boolean;
+  is_published?: boolean;
+  sort_order?: number;
+}
+
+export interface LessonInput {
+  id?: string;
+  training_id: string;
+  title: string;
+  lesson_type: LessonType;
+  content: LessonContent;
+  duration_minutes?: number;
+  sort_order?: number;
+}
+
+export type LeaveRequestRow = Tables<"agent_leave_requests">;
+
+/** A pending request from someone in the signed-in agent's team. */
+export type TeamLeaveRequest = LeaveRequestRow & {
+  agent: Pick<Tables<"pennyekart_agents">, "name" | "mobile" | "role"> | null;
+};
+
+export type AbsenceDigestSettings = Pick<Tables<"absence_digest_settings">, "is_enabled" | "send_time" | "last_run_date">;
+export type AbsenceDigestSend = Tables<"absence_digest_sends">;
+export type AbsenceDigestRecipientKind = "team_leader" | "coordinator" | "admin";
+
+/** Someone the daily absence digest goes to. */
+export interface AbsenceDigestRecipient {
+  kind: AbsenceDigestRecipientKind;
+  id: string;
+  name: string;
+  mobile: string;
+  opted_out: boolean;
+}
+
+export interface AbsenceDigestRunSummary {
+  run_date: string;
+  sent: number;
+  failed: number;
+  opted_out: number;
+}
+
+export type WhatsAppBroadcast = Tables<"whatsapp_broadcasts">;
+export type BroadcastStatus = "scheduled" | "sending" | "sent" | "cancelled";
+export type BroadcastRecipientStatus = "queued" | "sending" | "sent" | "delivered" | "read" | "failed" | "cancelled";
+export type BroadcastRecipient = Pick<
+  Tables<"whatsapp_broadcast_recipients">,
+  "id" | "agent_id" | "name" | "mobile" | "attempts" | "error" | "sent_at" | "delivered_at" | "read_at"
+> & { status: BroadcastRecipientStatus };
+
+/** Who a broadcast goes to; empty lists mean no restriction. */
+export interface BroadcastFilters {
+  roles: AgentRole[];
+  panchayath_ids: string[];
+  wards: string[];
+  rank: "any" | "full" | "not_full";
+  absent_today: boolean;
+}
+
+export interface BroadcastInput {
+  title: string;
+  message: string;
+  filters: BroadcastFilters;
+  /** ISO time; null sends on the next scheduler run. */
+  scheduled_at: string | null;
+}
+
+export type BroadcastSummary = WhatsAppBroadcast & { counts: Partial<Record<BroadcastRecipientStatus, number>> };
+
+export type CashCollection = Tables<"cash_collections"> & {
+  divisions?: { name: string } | null;
+  panchayaths?: { name: string } | null;
+};
+
+export interface CashCollectionReport {
+  totalCollected: number;
+  pendingAmount: number;
+  verifiedAmount: number;
+  submittedAmount: number;
+  totalEntries: number;
+  pendingCount: number;
+  verifiedCount: number;
+  submittedCount: number;
+}
+
+/** A member or program registration found by mobile, to record a collection against. */
+export interface CashCollectionPerson {
+  type: "member" | "registration";
+  id: string;
+  name: string;
+  mobile: string;
+  division_id: string | null;
+  panchayath_id: string | null;
+  panchayath_name: string | null;
+  program_name?: string;
+}
+
+/** Every collection action takes the division being viewed; admins need access to it. */
+interface DivisionScoped {
+  division_id?: string;
+}
+
+export type CommissionRate = Tables<"payout_commission_rates">;
+export type PennyekartOrder = Tables<"pennyekart_orders">;
+/** The order columns commissions are worked out from. */
+export type PayoutOrder = Pick<PennyekartOrder, "total_amount" | "panchayath_name" | "ward" | "status" | "source_created_at">;
+
+/** One row of the sales export; uploading an id again replaces that order. */
+export type OrderUpload = Pick<PennyekartOrder, "id"> &
+  Partial<Omit<PennyekartOrder, "id" | "delivery_address" | "raw_data" | "synced_at" | "uploaded_at">>;
+
+export interface OldPaymentUpload {
+  name: string;
+  mobile: string;
+  category?: string;
+  fee_paid?: number;
+  approved_by?: string;
+  approved_date?: string;
+  raw_data?: Record<string, unknown>;
+}
+
+const EDGE_ACTIONS = {
+  "pennyekart-agents": {
+    list: spec<{ panchayath_id?: string }, { data: PennyekartAgent[] }>(),
+    create: spec<{ agent: AgentInput }, { data: PennyekartAgent }>(),
+    update: spec<{ id: string; agent: Partial<PennyekartAgent> }, { data: PennyekartAgent }>(),
+    delete: spec<{ id: string }, Success>(),
+    list_customers: spec<{ agent_id: string }, { data: AgentDirectCustomer[] }>(),
+    add_customer: spec<{ agent_id: string; customer: DirectCustomerInput }, { data: AgentDirectCustomer }>(),
+    update_customer: spec<{ id: string; customer: DirectCustomerInput }, { data: AgentDirectCustomer }>(),
+    delete_customer: spec<{ id: string }, Success>(),
+    attributed_customers: spec<{ agent_id: string }, CustomerAttribution>(),
+    create_task: spec<{ tasks: NewAgentTask[] }, { data: AgentTaskRow[] }>(),
+    update_task: spec<{ id: string; title: string; description?: string | null }, { data: AgentTaskRow }>(),
+    delete_task: spec<{ id: string }, Success>(),
+    save_feedback: spec<{
+      task_id: string;
+      agent_id: string;
+      status: "completed" | "not_completed";
+      remarks?: string | null;
+      existing_id?: string | null;
+    }, Success>(),
+    bulk_create: spec<
+      { agents: NewAgentRow[]; dry_run?: boolean },
+      Success & { dry_run: boolean; report: NewAgentReport[]; count: number; data: Tables<"pennyekart_agents">[] }
+    >(),
+    compute_ranks: spec<NoInput, Success & AgentRankRun & { customers: CustomerSyncRun }>(),
+    save_rank_rule: spec<RankRuleInput, Success & { rule: RankRuleRow }>(),
+    delete_rank_rule: spec<{ id: string }, Success>(),
+    sync_customer_counts: spec<NoInput, Success & CustomerSyncRun>(),
+    save_customer_settings: spec<CustomerRule, Success & CustomerSyncRun & { settings: CustomerRule }>(),
+    save_work_metric: spec<WorkMetricInput, Success & { metric: WorkMetricRow }>(),
+    save_work_calendar: spec<{ weekly_off_days: number[] }, Success & { weekly_off_days: number[] }>(),
+    save_holiday: spec<
+      { holiday_date: string; name: string; panchayath_id?: string | null },
+      Success & { holiday: Tables<"work_holidays"> }
+    >(),
+    delete_holiday: spec<{ id: string }, Success>(),
+    preview_move: spec<MoveAgentInput, Success & MoveSummary & { rank_changes: MoveRankChange[] }>(),
+    move_agent: spec<MoveAgentInput, Success & MoveSummary>(),
+    preview_exit: spec<{ agent_id: string }, Success & ExitPreview>(),
+    exit_agent: spec<ExitAgentInput, Success & { handover: AgentHandover; team_size: number }>(),
+  },
+  "samrabhaka-auth": {
+    check_mobile: spec<{ mobile: string }, MobileCheck>(),
+    register: spec<{ mobile: string; password: string }, AgentSignIn>(),
+    login: spec<{ mobile: string; password: string }, AgentSignIn>(),
+    request_otp: spec<{ mobile: string; purpose: OtpPurpose }, Success & { expires_in: number; dev_code?: string }>(),
+    /** A login code signs the agent in; a reset code is exchanged for a reset_token. */
+    verify_otp: spec<
+      { mobile: string; code: string; purpose: OtpPurpose },
+      AgentSignIn | (Success & { reset_token: string })
+    >(),
+    reset_password: spec<{ mobile: string; reset_token: string; new_password: string }, AgentSignIn>(),
+    me: spec<NoInput, Success & { agent: SamrabhakaAgent }>(),
+    logout: spec<NoInput, Success>(),
+    list_projects: spec<NoInput, Success & { projects: AgentProject[] }>(),
+    my_todos: spec<NoInput, Success & { todos: (ProjectTodo & { project_name: string })[] }>(),
+    create_project: spec<{ project: AgentProjectInput }, Success & { project: AgentProject }>(),
+    update_project: spec<{ id: string; project: Partial<AgentProjectInput> }, Success & { project: AgentProject }>(),
+    delete_project: spec<{ id: string }, Success>(),
+    get_project: spec<{ id: string }, Success & {
+      project: AgentProject;
+      todos: ProjectTodo[];
+      notes: ProjectNote[];
+      members: ProjectMember[];
+      isOwner: boolean;
+    }>(),
+    add_todo: spec<{ project_id: string; title: string }, Success & { todo: ProjectTodo }>(),
+    toggle_todo: spec<{ id: string; is_done: boolean }, Success>(),
+    delete_todo: spec<{ id: string }, Success>(),
+    add_note: spec<{ project_id: string; body: string; title?: string | null }, Success & { note: ProjectNote }>(),
+    delete_note: spec<{ id: string }, Success>(),
+    search_registered_agents: spec<{ q: string }, Success & { agents: RegisteredAgent[] }>(),
+    add_member: spec<{ project_id: string; agent_id: string }, Success & { member: ProjectMember }>(),
+    remove_member: spec<{ id: string }, Success>(),
+    my_network: spec<NoInput, Success & {
+      upline_ids: string[];
+      agents: PortalAgent[];
+      ranks: PortalRankSnapshot[];
+      snapshot_date: string | null;
+    }>(),
+    my_wallet: spec<NoInput, Success & { balance: number; transactions: Tables<"agent_wallet_transactions">[] }>(),
+    my_agent_tasks: spec<NoInput, Success & { tasks: PortalTask[] }>(),
+    my_complaints: spec<NoInput, Success & { complaints: PortalComplaint[] }>(),
+    my_leaves: spec<NoInput, Success & { leaves: LeaveRequestRow[]; team_pending: TeamLeaveRequest[] }>(),
+    request_leave: spec<
+      { start_date: string; end_date: string; reason?: string },
+      Success & { leave: LeaveRequestRow }
+    >(),
+    cancel_leave: spec<{ id: string }, Success>(),
+    decide_leave: spec<{ id: string; approve: boolean; remarks?: string | null }, Success & { leave: LeaveRequestRow }>(),
+  },
+  "department-worklog": {
+    admin_upsert_member: spec<{
+      department_id: string;
+      agent_id: string;
+      /** Required for a new member; an existing member keeps their PIN when it is empty. */
+      pin?: string;
+      member_role?: string;
+      can_view_all?: boolean;
+    }, Success>(),
+    admin_set_member_permission: spec<{ id: string; can_view_all: boolean }, Success>(),
+    admin_remove_member: spec<{ id: string }, Success>(),
+    login: spec<{ mobile: string; pin: string }, Success & DepartmentSession>(),
+    logout: spec<NoInput, Success>(),
+    create_log: spec<{
+      member_id?: string;
+      department_id?: string;
+      work_details: string;
+      work_date?: string;
+      is_public?: boolean;
+    }, Success & { log: Tables<"department_work_logs"> }>(),
+    update_log: spec<{ id: string; work_details?: string; is_public?: boolean }, Success>(),
+    delete_log: spec<{ id: string }, Success>(),
+    create_plan: spec<DepartmentItemFields & {
+      department_id: string;
+      title: string;
+      target_date?: string | null;
+      status?: string;
+    }, Success & { plan: Tables<"department_plans"> }>(),
+    update_plan: spec<DepartmentItemFields & { id: string; target_date?: string | null; status?: string }, Success>(),
+    delete_plan: spec<{ id: string }, Success>(),
+    create_todo: spec<DepartmentItemFields & {
+      department_id: string;
+      title: string;
+      due_date?: string | null;
+    }, Success & { todo: Tables<"department_todos"> }>(),
+    update_todo: spec<DepartmentItemFields & { id: string; due_date?: string | null; is_completed?: boolean }, Success>(),
+    delete_todo: spec<{ id: string }, Success>(),
+  },
+  "admin-trainings": {
+    public_list: spec<{ learner_token: string | null }, {
+      trainings: Training[];
+      lessons: TrainingLessonMeta[];
+      unlocked: boolean;
+    }>(),
+    public_detail: spec<{ training_id: string; learner_token: string | null }, {
+      training: Training;
+      lessons: TrainingLesson[];
+      unlocked: boolean;
+    }>(),
+    admin_list: spec<NoInput, { trainings: Training[]; lessons: TrainingLesson[] }>(),
+    upload: spec<{ file_name: string; file_base64: string; content_type: string }, { url: string }>(),
+    save_training: spec<{ training: TrainingInput }, { training: Training }>(),
+    delete_training: spec<{ id: string }, Success>(),
+    save_lesson: spec<{ lesson: LessonInput }, { lesson: TrainingLesson }>(),
+    delete_lesson: spec<{ id: string }, Success>(),
+    reorder_lessons: spec<{ items: { id: string; sort_order: number }[] }, Success>(),
+  },
+  "absence-digest": {
+    overview: spec<NoInput, Success & {
+      settings: AbsenceDigestSettings;
+      recipients: AbsenceDigestRecipient[];
+      sends: AbsenceDigestSend[];
+    }>(),
+    save_settings: spec<{ is_enabled: boolean; send_time: string }, Success & { settings: AbsenceDigestSettings }>(),
+    set_opt_out: spec<{ mobile: string; opted_out: boolean }, Success>(),
+    send_now: spec<NoInput, Success & AbsenceDigestRunSummary>(),
+  },
+  "whatsapp-broadcasts": {
+    list: spec<NoInput, Success & { broadcasts: BroadcastSummary[] }>(),
+    preview_audience: spec<{ filters: BroadcastFilters }, Success & {
+      count: number;
+      sample: { id: string; name: string; role: AgentRole; ward: string }[];
+    }>(),
+    create: spec<BroadcastInput, Success & { broadcast: WhatsAppBroadcast }>(),
+    cancel: spec<{ id: string }, Success>(),
+    details: spec<{ id: string }, Success & { broadcast: WhatsAppBroadcast; recipients: BroadcastRecipient[] }>(),
+  },
+  "admin-cash-collections": {
+    search_mobile: spec<DivisionScoped & { mobile: string }, { results: CashCollectionPerson[] }>(),
+    list: spec<DivisionScoped & { status?: string }, { collections: CashCollection[] }>(),
+    report: spec<DivisionScoped, { report: CashCollectionReport; collections: CashCollection[] }>(),
+    list_all: spec<{ status?: string }, { collections: CashCollection[] }>(),
+    report_all: spec<NoInput, { report: CashCollectionReport; collections: CashCollection[] }>(),
+    create: spec<DivisionScoped & {
+      person_name: string;
+      mobile: string;
+      amount: number;
+      panchayath_id?: string | null;
+      panchayath_name?: string | null;
+      member_id?: string | null;
+      notes?: string | null;
+    }, Success & { collection: CashCollection }>(),
+    edit: spec<{
+      collection_id: string;
+      person_name?: string;
+      mobile?: string;
+      amount?: number;
+      notes?: string | null;
+      status?: string;
+      panchayath_name?: string | null;
+    }, Success & { collection: CashCollection }>(),
+    verify: spec<DivisionScoped & { collection_id: string }, Success>(),
+    submit: spec<DivisionScoped & { collection_ids: string[] }, Success>(),
+    delete: spec<{ collection_id: string }, Success>(),
+  },
+  "admin-payouts": {
+    rates: spec<NoInput, Success & { rates: CommissionRate[] }>(),
+    save_rates: spec<{ rates: Record<string, number> }, Success>(),
+    orders: spec<NoInput, Success & { orders: PayoutOrder[] }>(),
+    transfer_commissions: spec<{
+      from_date: string;
+      to_date: string;
+      transfers: { agent_id: string; amount: number }[];
+    }, Success & { transferred: number }>(),
+  },
+  "admin-sales": {
+    orders: spec<NoInput, Success & { orders: PennyekartOrder[] }>(),
+    upload_orders: spec<{ orders: OrderUpload[] }, Success & { uploaded: number }>(),
+    upload_old_payments: spec<{ batch_id: string; records: OldPaymentUpload[] }, Success & { inserted: number }>(),
+    delete_old_payment_batch: spec<{ batch_id: string }, Success>(),
+  },
+};
+
+type EdgeActions = typeof EDGE_ACTIONS;
+export type EdgeFunction = keyof EdgeActions;
+export type EdgeAction<F extends EdgeFunction> = keyof EdgeActions[F] & string;
+export type EdgeInput<F extends EdgeFunction, A extends EdgeAction<F>> =
+  EdgeActions[F][A] extends ActionSpec<infer I, unknown> ? I : never;
+export type EdgeOutput<F extends EdgeFunction, A extends EdgeAction<F>> =
+  EdgeActions[F][A] extends ActionSpec<unknown, infer O> ? O : never;
+
+export type EdgeClient<F extends EdgeFunction> = {
+  [A in EdgeAction<F>]: EdgeInput<F, A> extends NoInput
+    ? (input?: EdgeInput<F, A>) => Promise<EdgeOutput<F, A>>
+    : (input: EdgeInput<F, A>) => Promise<EdgeOutput<F, A>>;
+};
+
+/**
+ * The credential an action is called with: an admin session token, a
+ * Samrabhaka agent session (sent as a header), a department session (sent
+ * in the body, as the worklog function expects), or the mobile a Team Leader
+ * gives on the public hierarchy pages.
+ */
+export interface EdgeAuth {
+  adminToken?: string | null;
+  agentToken?: string | null;
+  departmentToken?: string | null;
+  callerMobile?: string | null;
+}
+
+/** A failed action, carrying the message and `code` from the function's JSON error body. */
+export class EdgeFunctionError extends Error {
+  status: number | null;
+  code: string | null;
+
+  constructor(message: string, status: number | null, code: string | null) {
+    super(message);
+    this.name = "EdgeFunctionError";
+    this.status = status;
+    this.code = code;
+  }
+
+  /** True when the call was refused because the caller's session has ended. */
+  get sessionEnded(): boolean {
+    return this.status === 401 && !!this.code && SESSION_ENDED_CODES.includes(this.code);
+  }
+}
+
+async function toEdgeError(error: Error): Promise<EdgeFunctionError> {
+  if (error instanceof FunctionsHttpError) {
+    const res = error.context as Response;
+    try {
+      const body = await res.clone().json();
+      if (typeof body?.error === "string" && body.error) {
+        return new EdgeFunctionError(body.error, res.status, typeof body.code === "string" ? body.code : null);
+      }
+    } catch {
+      // not a JSON body
+    }
+    return new EdgeFunctionError(error.message, res?.status ?? null, null);
+  }
+  return new EdgeFunctionError(error.message || "Request failed", null, null);
+}
+
+export async function invokeAction<F extends EdgeFunction, A extends EdgeAction<F>>(
+  fn: F,
+  action: A,
+  input: EdgeInput<F, A> | undefined,
+  auth: EdgeAuth = {},
+): Promise<EdgeOutput<F, A>> {
+  const headers: Record<string, string> = {};
+  if (auth.adminToken) headers["x-admin-token"] = auth.adminToken;
+  if (auth.agentToken) headers["x-samrabhaka-token"] = auth.agentToken;
+  if (auth.callerMobile) headers["x-caller-mobile"] = auth.callerMobile;
+  const body: Record<string, unknown> = { ...(input as object), action };
+  if (auth.departmentToken) body.token = auth.departmentToken;
+
+  const { data, error } = await supabase.functions.invoke(fn, { body, headers });
+  if (error) throw await toEdgeError(error);
+  const failure = data as { error?: string; code?: string } | null;
+  if (failure?.error) throw new EdgeFunctionError(failure.error, null, failure.code ?? null);
+  return data as EdgeOutput<F, A>;
+}
+
+export function edgeClient<F extends EdgeFunction>(fn: F, auth: EdgeAuth = {}): EdgeClient<F> {
+  const client: Record<string, (input?: unknown) => Promise<unknown>> = {};
+  for (const action of Object.keys(EDGE_ACTIONS[fn])) {
+    client[action] = (input) => invokeAction(fn, action as EdgeAction<F>, input as EdgeInput<F, EdgeAction<F>>, auth);
+  }
+  return client as EdgeClient<F>;
+}
@@ -0,0 +1,17 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+/**
+ * The message an edge function put in its JSON error body (e.g. a login lock
+ * with its wait time), falling back to the client error's own message.
+ */
+export async function functionErrorMessage(error: unknown, fallback = "Request failed"): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await (error.context as Response).clone().json();
+      if (typeof body?.error === "string" && body.error) return body.error;
+    } catch {
+      // not a JSON body
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
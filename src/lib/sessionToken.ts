@@ -0,0 +1,54 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+/** Claims carried by the session tokens issued by our edge functions. */
+export interface SessionClaims {
+  sid: string;
+  sub: string;
+  kind: "admin" | "agent" | "department";
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Reads the claims of a session token without verifying it. Only the server
+ * can verify a token; the client uses this to know when it expires.
+ */
+export function decodeSessionToken(token: string | null | undefined): SessionClaims | null {
+  if (!token) return null;
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    const b64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(b64.padEnd(Math.ceil(b64.length / 4) * 4, "=")), (c) => c.charCodeAt(0));
+    const claims = JSON.parse(new TextDecoder().decode(bytes));
+    return claims && typeof claims.exp === "number" ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Milliseconds until the token expires (negative once expired, null if unreadable). */
+export function sessionTimeLeft(token: string | null | undefined): number | null {
+  const claims = decodeSessionToken(token);
+  return claims ? claims.exp * 1000 - Date.now() : null;
+}
+
+export const SESSION_ENDED_CODES = ["session_missing", "session_invalid", "session_expired", "session_revoked"];
+
+/**
+ * Returns the server's message when a functions call failed because the
+ * session is no longer valid, or null for any other outcome.
+ */
+export async function sessionEndedMessage(error: unknown): Promise<string | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  const res = error.context as Response;
+  if (res?.status !== 401) return null;
+  try {
+    const body = await res.clone().json();
+    if (SESSION_ENDED_CODES.includes(body?.code)) return body.error || "Your session has ended.";
+  } catch {
+    // not a JSON body — treat like any other failure
+  }
+  return null;
+}
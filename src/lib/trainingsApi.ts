@@ -1,4 +1,4 @@
-import { supabase } from "@/integrations/supabase/client";
+import { edgeClient } from "@/lib/edgeApi";
 
 export type LessonType = "pdf" | "ppt" | "images" | "youtube" | "notes";
 
@@ -37,20 +37,23 @@ export interface LessonContent {
 export const DEPT_SESSION_KEY = "elife_dept_session";
 export const LEARNER_KEY = "elife_learner_key";
 
-export function getLearnerToken(): string | null {
+function readDeptSession(): { token?: string; agent?: { mobile?: string } } | null {
   try {
     const raw = localStorage.getItem(DEPT_SESSION_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw)?.token || null;
+    return raw ? JSON.parse(raw) : null;
   } catch {
     return null;
   }
 }
 
+export function getLearnerToken(): string | null {
+  return readDeptSession()?.token || null;
+}
+
 /** Stable per-device/learner id used to store lesson progress. */
 export function getLearnerKey(): string {
-  const token = getLearnerToken();
-  if (token) return `dept:${token.split(":")[0]}`;
+  const mobile = readDeptSession()?.agent?.mobile;
+  if (mobile) return `dept:${mobile}`;
   let key = localStorage.getItem(LEARNER_KEY);
   if (!key) {
     key = `guest:${crypto.randomUUID()}`;
@@ -68,23 +71,9 @@ export function youtubeIdFromUrl(url: string): string {
   return url.trim();
 }
 
-async function authHeaders(adminToken?: string | null) {
-  const headers: Record<string, string> = {};
-  if (adminToken) headers["x-admin-token"] = adminToken;
-  return headers;
-}
-
-export async function callTrainings<T>(body: Record<string, unknown>, adminToken?: string | null): Promise<T> {
-  const { data, error } = await supabase.functions.invoke("admin-trainings", {
-    body,
-    headers: await authHeaders(adminToken),
-  });
-  if (error) {
-    const details = (data as { error?: string } | null)?.error;
-    throw new Error(details || error.message);
-  }
-  if ((data as { error?: string })?.error) throw new Error((data as { error: string }).error);
-  return data as T;
+/** The admin-trainings actions, sent with the admin session when there is one. */
+export function trainingsClient(adminToken?: string | null) {
+  return edgeClient("admin-trainings", { adminToken });
 }
 
 export function fileToBase64(file: File): Promise<string> {
@@ -98,10 +87,11 @@ export function fileToBase64(file: File): Promise<string> {
 
 export async function uploadTrainingFile(file: File, adminToken?: string | null): Promise<string> {
   const base64 = await fileToBase64(file);
-  const res = await callTrainings<{ url: string }>(
-    { action: "upload", file_name: file.name, file_base64: base64, content_type: file.type || "application/octet-stream" },
-    adminToken,
-  );
+  const res = await trainingsClient(adminToken).upload({
+    file_name: file.name,
+    file_base64: base64,
+    content_type: file.type || "application/octet-stream",
+  });
   return res.url;
 }
 
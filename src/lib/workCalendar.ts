@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Days agents are not expected to log work: weekly off days, holidays for
+ * everyone or for one panchayath, and approved leave. Mirrors
+ * supabase/functions/_shared/workCalendar.ts, which the WhatsApp reports and
+ * the daily digest use, so the web reports count absences the same way.
+ */
+export type WorkHoliday = Tables<"work_holidays">;
+export type ApprovedLeave = Pick<Tables<"agent_leave_requests">, "agent_id" | "start_date" | "end_date">;
+
+export interface WorkCalendar {
+  /** 0 = Sunday … 6 = Saturday. */
+  weekly_off_days: number[];
+  holidays: WorkHoliday[];
+  leaves: ApprovedLeave[];
+}
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const EMPTY_CALENDAR: WorkCalendar = { weekly_off_days: [], holidays: [], leaves: [] };
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** The calendar between `from` and `to` (yyyy-MM-dd) inclusive. */
+export async function fetchWorkCalendar(from: string, to: string): Promise<WorkCalendar> {
+  const [settings, holidays, leaves] = await Promise.all([
+    supabase.from("work_calendar_settings").select("weekly_off_days").maybeSingle(),
+    supabase
+      .from("work_holidays")
+      .select("*")
+      .gte("holiday_date", from)
+      .lte("holiday_date", to)
+      .order("holiday_date", { ascending: true }),
+    supabase
+      .from("agent_leave_requests")
+      .select("agent_id, start_date, end_date")
+      .eq("status", "approved")
+      .lte("start_date", to)
+      .gte("end_date", from),
+  ]);
+  if (settings.error) throw settings.error;
+  if (holidays.error) throw holidays.error;
+  if (leaves.error) throw leaves.error;
+  return {
+    weekly_off_days: settings.data?.weekly_off_days ?? [0],
+    holidays: holidays.data || [],
+    leaves: leaves.data || [],
+  };
+}
+
+/** Why nobody works on `date` (a weekly off day or a holiday everywhere), or null. */
+export function globalOffReason(calendar: WorkCalendar, date: string): string | null {
+  const day = weekday(date);
+  if (calendar.weekly_off_days.includes(day)) return WEEKDAY_NAMES[day];
+  return calendar.holidays.find((h) => h.holiday_date === date && !h.panchayath_id)?.name ?? null;
+}
+
+/** Why `agent` is not expected to log work on `date`, or null on a working day. */
+export function offReason(
+  calendar: WorkCalendar,
+  agent: { id: string; panchayath_id: string },
+  date: string,
+): string | null {
+  const global = globalOffReason(calendar, date);
+  if (global) return global;
+  const local = calendar.holidays.find((h) => h.holiday_date === date && h.panchayath_id === agent.panchayath_id);
+  if (local) return local.name;
+  const onLeave = calendar.leaves.some((l) => l.agent_id === agent.id && l.start_date <= date && l.end_date >= date);
+  return onLeave ? "On leave" : null;
+}
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Photos and shared locations agents send on WhatsApp with their work log
+ * (see supabase/functions/_shared/workLogMedia.ts). Photos live in the public
+ * work-log-media bucket.
+ */
+export type WorkLogMedia = Tables<"agent_work_log_media">;
+
+const MEDIA_BUCKET = "work-log-media";
+const ID_CHUNK = 200;
+
+/** The media of the given logs, grouped by work log id, oldest first. */
+export async function fetchWorkLogMedia(logIds: string[]): Promise<Record<string, WorkLogMedia[]>> {
+  const byLog: Record<string, WorkLogMedia[]> = {};
+  for (let i = 0; i < logIds.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("agent_work_log_media")
+      .select("*")
+      .in("work_log_id", logIds.slice(i, i + ID_CHUNK))
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    for (const m of data || []) (byLog[m.work_log_id] ||= []).push(m);
+  }
+  return byLog;
+}
+
+export function photoUrl(media: WorkLogMedia): string {
+  return supabase.storage.from(MEDIA_BUCKET).getPublicUrl(media.storage_path || "").data.publicUrl;
+}
+
+export function mapsUrl(media: WorkLogMedia): string {
+  return `https://www.google.com/maps?q=${media.latitude},${media.longitude}`;
+}
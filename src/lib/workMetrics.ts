@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/**
+ * Numbers agents report in their work logs as `name:value` tokens, e.g.
+ * `shops:5 orders:2`. The WhatsApp bot parses them into agent_work_logs.metrics
+ * (see supabase/functions/_shared/workMetrics.ts); parseWorkMetrics mirrors it
+ * for logs written from the web page.
+ */
+export type WorkMetric = Tables<"pennyekart_work_metrics">;
+export type MetricValues = Record<string, number>;
+
+const METRIC_TOKEN = /(?:^|[\s,;])([a-z][a-z0-9_-]*)\s*[:=]\s*(\d{1,6})(?=$|[\s,;.])/gi;
+
+export async function fetchWorkMetrics(): Promise<WorkMetric[]> {
+  const { data, error } = await supabase
+    .from("pennyekart_work_metrics")
+    .select("*")
+    .order("sort_order", { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+/** The active metrics an agent with `role` reports, in display order. */
+export function metricsForRole(metrics: WorkMetric[], role: string): WorkMetric[] {
+  return metrics.filter((m) => m.is_active && (m.roles.length === 0 || (m.roles as string[]).includes(role)));
+}
+
+/** Sums every `name:value` token in `text` that names one of `metrics`. */
+export function parseWorkMetrics(text: string, metrics: WorkMetric[]): MetricValues {
+  const byName = new Map<string, string>();
+  for (const m of metrics) {
+    for (const name of [m.key, ...m.aliases]) byName.set(name.toLowerCase(), m.key);
+  }
+  const values: MetricValues = {};
+  for (const [, name, raw] of text.matchAll(METRIC_TOKEN)) {
+    const key = byName.get(name.toLowerCase());
+    if (key) values[key] = (values[key] || 0) + parseInt(raw, 10);
+  }
+  return values;
+}
+
+/** A log's stored metrics; the column is jsonb, so anything non-numeric is dropped. */
+export function logMetrics(metrics: unknown): MetricValues {
+  if (!metrics || typeof metrics !== "object" || Array.isArray(metrics)) return {};
+  const values: MetricValues = {};
+  for (const [key, value] of Object.entries(metrics)) {
+    if (typeof value === "number" && Number.isFinite(value)) values[key] = value;
+  }
+  return values;
+}
+
+/** Adds up the metrics of several logs. */
+export function sumMetrics(logs: Array<{ metrics?: unknown }>): MetricValues {
+  const totals: MetricValues = {};
+  for (const log of logs) {
+    for (const [key, value] of Object.entries(logMetrics(log.metrics))) {
+      totals[key] = (totals[key] || 0) + value;
+    }
+  }
+  return totals;
+}
+
+/**
+ * The metrics worth a column in a report: active ones, plus retired ones that
+ * still have values in `totals`.
+ */
+export function reportedMetrics(metrics: WorkMetric[], totals: MetricValues): WorkMetric[] {
+  return metrics.filter((m) => m.is_active || totals[m.key] !== undefined);
+}
@@ -10,6 +10,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Leaf, Loader2, AlertCircle, Shield, UserCog } from "lucide-react";
 import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/lib/functionError";
 
 const superAdminSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -91,7 +92,8 @@ export default function Auth() {
       });
 
       if (funcError) {
-        throw new Error(funcError.message || "Login failed");
+        // Wrong password, locked-out phone, etc. — show the server's explanation
+        throw new Error(await functionErrorMessage(funcError, "Login failed"));
       }
 
       if (data?.error) {
@@ -4,29 +4,63 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { useSamrabhakaAuth } from "@/hooks/useSamrabhakaAuth";
+import { useSamrabhakaAuth, type OtpPurpose } from "@/hooks/useSamrabhakaAuth";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { toast } from "sonner";
-import { Loader2, LogOut, User, Phone, MapPin, Shield, Briefcase, ListChecks, ChevronRight, ChevronDown } from "lucide-react";
+import {
+  Loader2,
+  LogOut,
+  User,
+  Phone,
+  MapPin,
+  Shield,
+  Briefcase,
+  ListChecks,
+  ChevronRight,
+  ChevronDown,
+  Network,
+  Wallet,
+  CalendarDays,
+  ClipboardList,
+  Users,
+  MessageSquareWarning,
+  TreePalm,
+} from "lucide-react";
 import { ProjectsSection } from "@/components/samrabhaka/ProjectsSection";
 import { MyTasksSection } from "@/components/samrabhaka/MyTasksSection";
+import { MyNetworkSection } from "@/components/samrabhaka/MyNetworkSection";
+import { WalletSection } from "@/components/samrabhaka/WalletSection";
+import { AgentTasksSection } from "@/components/samrabhaka/AgentTasksSection";
+import { ComplaintsSection } from "@/components/samrabhaka/ComplaintsSection";
+import { LeaveSection } from "@/components/samrabhaka/LeaveSection";
+import { AgentWorkLog } from "@/components/home/AgentWorkLog";
+import { AgentDirectCustomersDialog } from "@/components/pennyekart/AgentDirectCustomersDialog";
 
 import { PublicProjectsShowcase } from "@/components/samrabhaka/PublicProjectsShowcase";
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Popover, PopoverTrigger, PopoverContent } from "@/components/ui/popover";
 
-type Step = "mobile" | "register" | "login";
+type Step = "mobile" | "register" | "login" | "otp" | "reset";
+type Feature = "tasks" | "projects" | "network" | "wallet" | "worklog" | "agent_tasks" | "customers" | "complaints" | "leave";
+
+/** Roles that sign up direct customers of their own. */
+const CUSTOMER_ROLES = ["coordinator", "group_leader", "pro"];
 
 export default function Samrabhaka() {
-  const { agent, isLoading, token, checkMobile, register, login, logout } = useSamrabhakaAuth();
+  const { agent, isLoading, token, checkMobile, register, login, requestOtp, verifyOtp, resetPassword, logout } =
+    useSamrabhakaAuth();
 
   const [step, setStep] = useState<Step>("mobile");
   const [mobile, setMobile] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const [openFeature, setOpenFeature] = useState<"tasks" | "projects" | null>(null);
+  const [openFeature, setOpenFeature] = useState<Feature | null>(null);
   const [pending, setPending] = useState(false);
   const [agentPreview, setAgentPreview] = useState<{ name: string; role: string } | null>(null);
+  const [otpPurpose, setOtpPurpose] = useState<OtpPurpose>("login");
+  const [otpCode, setOtpCode] = useState("");
+  const [resetToken, setResetToken] = useState("");
 
   const resetAll = () => {
     setStep("mobile");
@@ -34,6 +68,8 @@ export default function Samrabhaka() {
     setPassword("");
     setConfirmPassword("");
     setAgentPreview(null);
+    setOtpCode("");
+    setResetToken("");
   };
 
   const handleCheckMobile = async (e: React.FormEvent) => {
@@ -87,6 +123,59 @@ export default function Samrabhaka() {
     }
   };
 
+  const handleRequestOtp = async (purpose: OtpPurpose) => {
+    setPending(true);
+    try {
+      const res = await requestOtp(mobile.replace(/\D+/g, ""), purpose);
+      setOtpPurpose(purpose);
+      setOtpCode("");
+      setStep("otp");
+      toast.success("A 6-digit code was sent to your WhatsApp");
+      // Only returned when the server logs messages instead of sending them (testing)
+      if (res.dev_code) toast.info(`Test code: ${res.dev_code}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not send code");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (otpCode.length !== 6) return toast.error("Enter the 6-digit code");
+    setPending(true);
+    try {
+      const res = await verifyOtp(mobile.replace(/\D+/g, ""), otpCode, otpPurpose);
+      if ("reset_token" in res) {
+        setResetToken(res.reset_token);
+        setPassword("");
+        setConfirmPassword("");
+        setStep("reset");
+      } else {
+        toast.success("Welcome back!");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) return toast.error("Password must be at least 6 characters");
+    if (password !== confirmPassword) return toast.error("Passwords do not match");
+    setPending(true);
+    try {
+      await resetPassword(mobile.replace(/\D+/g, ""), resetToken, password);
+      toast.success("Password updated. You are now logged in.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Password reset failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
   // ---- Dashboard ----
   if (token && agent) {
     return (
@@ -152,6 +241,54 @@ export default function Samrabhaka() {
             />
           </div>
 
+          <h2 className="mt-10 mb-4 text-sm font-semibold uppercase tracking-wide text-muted-foreground">Pennyekart</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FeatureTile
+              icon={<Network className="h-6 w-6" />}
+              title="My Network"
+              description="Your rank progress, upline and team"
+              onClick={() => setOpenFeature("network")}
+            />
+            <FeatureTile
+              icon={<Wallet className="h-6 w-6" />}
+              title="Wallet"
+              description="Your balance and commission credits"
+              onClick={() => setOpenFeature("wallet")}
+            />
+            <FeatureTile
+              icon={<CalendarDays className="h-6 w-6" />}
+              title="Work Log"
+              description="Log your daily work and see past entries"
+              onClick={() => setOpenFeature("worklog")}
+            />
+            <FeatureTile
+              icon={<TreePalm className="h-6 w-6" />}
+              title="Leave"
+              description="Ask for leave and approve your team's"
+              onClick={() => setOpenFeature("leave")}
+            />
+            <FeatureTile
+              icon={<ClipboardList className="h-6 w-6" />}
+              title="Assigned Tasks"
+              description="Pennyekart tasks for your panchayath"
+              onClick={() => setOpenFeature("agent_tasks")}
+            />
+            {CUSTOMER_ROLES.includes(agent.role) && (
+              <FeatureTile
+                icon={<Users className="h-6 w-6" />}
+                title="Direct Customers"
+                description="Customers you have signed up"
+                onClick={() => setOpenFeature("customers")}
+              />
+            )}
+            <FeatureTile
+              icon={<MessageSquareWarning className="h-6 w-6" />}
+              title="Complaints"
+              description="Status of complaints you have raised"
+              onClick={() => setOpenFeature("complaints")}
+            />
+          </div>
+
           <Dialog open={openFeature === "projects"} onOpenChange={(o) => !o && setOpenFeature(null)}>
             <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
@@ -176,6 +313,105 @@ export default function Samrabhaka() {
 
             </DialogContent>
           </Dialog>
+
+          <Dialog open={openFeature === "network"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Network className="h-5 w-5 text-pink-600" /> My Network
+                </DialogTitle>
+                <DialogDescription>Your rank progress, who you report to, and your team</DialogDescription>
+              </DialogHeader>
+              <MyNetworkSection token={token} agentId={agent.id} />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={openFeature === "wallet"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Wallet className="h-5 w-5 text-pink-600" /> Wallet
+                </DialogTitle>
+                <DialogDescription>Credits to your Pennyekart wallet</DialogDescription>
+              </DialogHeader>
+              <WalletSection token={token} />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={openFeature === "worklog"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5 text-pink-600" /> Work Log
+                </DialogTitle>
+                <DialogDescription>Your daily work log</DialogDescription>
+              </DialogHeader>
+              <AgentWorkLog
+                agent={{
+                  id: agent.id,
+                  name: agent.name,
+                  mobile: agent.mobile,
+                  role: agent.role,
+                  ward: agent.ward || "",
+                  customer_count: agent.customer_count || 0,
+                  panchayath: agent.panchayaths,
+                  parent_agent_id: agent.parent_agent_id || null,
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={openFeature === "agent_tasks"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5 text-pink-600" /> Assigned Tasks
+                </DialogTitle>
+                <DialogDescription>Active Pennyekart tasks for your panchayath</DialogDescription>
+              </DialogHeader>
+              <AgentTasksSection token={token} />
+            </DialogContent>
+          </Dialog>
+
+          {CUSTOMER_ROLES.includes(agent.role) && (
+            <AgentDirectCustomersDialog
+              open={openFeature === "customers"}
+              onOpenChange={(o) => !o && setOpenFeature(null)}
+              agent={{
+                id: agent.id,
+                name: agent.name,
+                mobile: agent.mobile,
+                panchayath_id: agent.panchayath_id || "",
+                ward: agent.ward || "",
+                panchayath: agent.panchayaths,
+              }}
+              callerMobile={agent.mobile}
+            />
+          )}
+
+          <Dialog open={openFeature === "complaints"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <MessageSquareWarning className="h-5 w-5 text-pink-600" /> Complaints
+                </DialogTitle>
+                <DialogDescription>Complaints you have raised and their status</DialogDescription>
+              </DialogHeader>
+              <ComplaintsSection token={token} />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={openFeature === "leave"} onOpenChange={(o) => !o && setOpenFeature(null)}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <TreePalm className="h-5 w-5 text-pink-600" /> Leave
+                </DialogTitle>
+                <DialogDescription>Approved leave is not counted as absence</DialogDescription>
+              </DialogHeader>
+              <LeaveSection token={token} />
+            </DialogContent>
+          </Dialog>
         </div>
       </Layout>
     );
@@ -207,6 +443,8 @@ export default function Samrabhaka() {
               {step === "mobile" && "Enter your registered agent mobile number"}
               {step === "register" && agentPreview && `Create password for ${agentPreview.name}`}
               {step === "login" && agentPreview && `Welcome back, ${agentPreview.name}`}
+              {step === "otp" && `Enter the code sent to WhatsApp on ${mobile}`}
+              {step === "reset" && "Choose a new password"}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -303,6 +541,96 @@ export default function Samrabhaka() {
                     Login
                   </Button>
                 </div>
+                <div className="flex justify-between text-sm">
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0 text-pink-700"
+                    onClick={() => handleRequestOtp("reset")}
+                    disabled={pending}
+                  >
+                    Forgot password?
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0 text-pink-700"
+                    onClick={() => handleRequestOtp("login")}
+                    disabled={pending}
+                  >
+                    Login with OTP
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {step === "otp" && (
+              <form onSubmit={handleVerifyOtp} className="space-y-4">
+                <div className="flex justify-center">
+                  <InputOTP maxLength={6} value={otpCode} onChange={setOtpCode} autoFocus>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((i) => (
+                        <InputOTPSlot key={i} index={i} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" onClick={() => setStep("login")} className="flex-1">
+                    Back
+                  </Button>
+                  <Button type="submit" className="flex-1 bg-pink-600 hover:bg-pink-700" disabled={pending}>
+                    {pending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    {otpPurpose === "reset" ? "Verify" : "Login"}
+                  </Button>
+                </div>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full h-auto p-0 text-sm text-pink-700"
+                  onClick={() => handleRequestOtp(otpPurpose)}
+                  disabled={pending}
+                >
+                  Resend code
+                </Button>
+              </form>
+            )}
+
+            {step === "reset" && (
+              <form onSubmit={handleResetPassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reset-pw">New Password</Label>
+                  <Input
+                    id="reset-pw"
+                    type="password"
+                    placeholder="Min 6 characters"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoFocus
+                    required
+                    minLength={6}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-pw">Confirm Password</Label>
+                  <Input
+                    id="reset-confirm-pw"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    minLength={6}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" onClick={resetAll} className="flex-1">
+                    Cancel
+                  </Button>
+                  <Button type="submit" className="flex-1 bg-pink-600 hover:bg-pink-700" disabled={pending}>
+                    {pending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                    Save & Login
+                  </Button>
+                </div>
               </form>
             )}
           </CardContent>
@@ -12,10 +12,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 
 import {
-  callTrainings,
   getLearnerKey,
   getLearnerToken,
   LESSON_TYPE_LABEL,
+  trainingsClient,
   type Training,
   type TrainingLesson,
 } from "@/lib/trainingsApi";
@@ -35,11 +35,10 @@ export default function TrainingDetail() {
     if (!id) return;
     (async () => {
       try {
-        const res = await callTrainings<{ training: Training; lessons: TrainingLesson[] }>({
-          action: "public_detail",
+        const res = await trainingsClient(adminToken).public_detail({
           training_id: id,
           learner_token: getLearnerToken(),
-        }, adminToken);
+        });
 
         setTraining(res.training);
         setLessons(res.lessons);
@@ -8,16 +8,10 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
-import { callTrainings, getLearnerToken, getLearnerKey, type Training } from "@/lib/trainingsApi";
+import { getLearnerToken, getLearnerKey, trainingsClient, type Training } from "@/lib/trainingsApi";
+import type { TrainingLessonMeta } from "@/lib/edgeApi";
 import { supabase } from "@/integrations/supabase/client";
 
-interface LessonMeta {
-  id: string;
-  training_id: string;
-  lesson_type: string;
-  duration_minutes: number;
-}
-
 const TYPE_ICON: Record<string, React.ComponentType<{ className?: string }>> = {
   pdf: FileText,
   ppt: FileText,
@@ -30,7 +24,7 @@ export default function Trainings() {
   const { isAdmin, adminToken } = useAuth();
   const [loading, setLoading] = useState(true);
   const [trainings, setTrainings] = useState<Training[]>([]);
-  const [lessons, setLessons] = useState<LessonMeta[]>([]);
+  const [lessons, setLessons] = useState<TrainingLessonMeta[]>([]);
   const [unlocked, setUnlocked] = useState(false);
   const [search, setSearch] = useState("");
   const [category, setCategory] = useState<string>("All");
@@ -40,10 +34,7 @@ export default function Trainings() {
     document.title = "Trainings — e-Life Society Learning Hub";
     (async () => {
       try {
-        const res = await callTrainings<{ trainings: Training[]; lessons: LessonMeta[]; unlocked: boolean }>({
-          action: "public_list",
-          learner_token: getLearnerToken(),
-        }, adminToken);
+        const res = await trainingsClient(adminToken).public_list({ learner_token: getLearnerToken() });
         setTrainings(res.trainings);
         setLessons(res.lessons);
         setUnlocked(res.unlocked);
@@ -24,13 +24,17 @@ import {
   Layers,
   ArrowRight,
   LogOut,
+  MonitorX,
   Shield,
   Loader2,
   Building2,
   Clock,
   ExternalLink,
   Network,
-  IndianRupee
+  IndianRupee,
+  BarChart3,
+  FileSpreadsheet,
+  Wallet
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
@@ -48,7 +52,7 @@ interface PanchayathFilter {
 }
 
 export default function AdminDashboard() {
-  const { isAdmin, isSuperAdmin, signOut, adminData, adminToken, user } = useAuth();
+  const { isAdmin, isSuperAdmin, signOut, signOutEverywhere, adminData, adminToken, user, hasCapability } = useAuth();
   const stats = useAdminStats();
   const [divisionInfo, setDivisionInfo] = useState<DivisionInfo | null>(null);
   const [registrationsDialogOpen, setRegistrationsDialogOpen] = useState(false);
@@ -137,6 +141,12 @@ export default function AdminDashboard() {
                 <Shield className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
                 Admin
               </span>
+              {adminToken && (
+                <Button variant="ghost" size="sm" onClick={signOutEverywhere} className="h-8 sm:h-9">
+                  <MonitorX className="h-4 w-4 mr-1.5 sm:mr-2" />
+                  <span className="hidden sm:inline">Sign out everywhere</span>
+                </Button>
+              )}
               <Button variant="outline" size="sm" onClick={signOut} className="h-8 sm:h-9">
                 <LogOut className="h-4 w-4 mr-1.5 sm:mr-2" />
                 <span className="hidden xs:inline">Sign Out</span>
@@ -177,12 +187,14 @@ export default function AdminDashboard() {
 
         {/* Quick Actions */}
         <div className="grid gap-2 sm:gap-4 grid-cols-2 sm:grid-cols-4 mb-6 sm:mb-8">
-          <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
-            <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
-              <Calendar className="h-5 w-5 sm:h-6 sm:w-6" />
-              <span className="text-xs sm:text-sm">Programs</span>
-            </Link>
-          </Button>
+          {hasCapability("programs:edit") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+              <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <Calendar className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">Programs</span>
+              </Link>
+            </Button>
+          )}
           <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
             <Link to="/admin/members" className="flex flex-col items-center gap-1.5 sm:gap-2">
               <Users className="h-5 w-5 sm:h-6 sm:w-6" />
@@ -195,18 +207,46 @@ export default function AdminDashboard() {
               <span className="text-xs sm:text-sm">Clusters</span>
             </Link>
           </Button>
-          <Button asChild className="h-auto py-3 sm:py-4">
-            <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
-              <ArrowRight className="h-5 w-5 sm:h-6 sm:w-6" />
-              <span className="text-xs sm:text-sm">New Program</span>
-            </Link>
-          </Button>
-          <Button asChild variant="outline" className="h-auto py-3 sm:py-4 border-orange-200 hover:bg-orange-50 dark:border-orange-800 dark:hover:bg-orange-950">
-            <Link to="/admin/pennyekart-agents" className="flex flex-col items-center gap-1.5 sm:gap-2">
-              <Network className="h-5 w-5 sm:h-6 sm:w-6 text-orange-600" />
-              <span className="text-xs sm:text-sm text-orange-600">Pennyekart Agents</span>
-            </Link>
-          </Button>
+          {hasCapability("programs:edit") && (
+            <Button asChild className="h-auto py-3 sm:py-4">
+              <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <ArrowRight className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">New Program</span>
+              </Link>
+            </Button>
+          )}
+          {hasCapability("agents:manage") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4 border-orange-200 hover:bg-orange-50 dark:border-orange-800 dark:hover:bg-orange-950">
+              <Link to="/admin/pennyekart-agents" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <Network className="h-5 w-5 sm:h-6 sm:w-6 text-orange-600" />
+                <span className="text-xs sm:text-sm text-orange-600">Pennyekart Agents</span>
+              </Link>
+            </Button>
+          )}
+          {hasCapability("payouts:approve") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+              <Link to="/admin/payouts" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <Wallet className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">Payouts</span>
+              </Link>
+            </Button>
+          )}
+          {hasCapability("sales:upload") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+              <Link to="/admin/sales-report" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <BarChart3 className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">Sales Report</span>
+              </Link>
+            </Button>
+          )}
+          {hasCapability("sales:upload") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+              <Link to="/super-admin/old-payments" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <FileSpreadsheet className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">Old Payments</span>
+              </Link>
+            </Button>
+          )}
           {adminData?.cash_collection_enabled && (adminData?.cash_collection_division_ids || []).length > 0 && (
             <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
               <Link to={`/admin/division/${adminData?.cash_collection_division_ids?.[0]}/cash-collections`} className="flex flex-col items-center gap-1.5 sm:gap-2">
@@ -18,6 +18,7 @@ import { Link } from "react-router-dom";
 import { AdminPermissionsDialog } from "@/components/admin/AdminPermissionsDialog";
 import { AdminFormDialog } from "@/components/admin/AdminFormDialog";
 import { AdminsTable } from "@/components/admin/AdminsTable";
+import { LoginLocksTable } from "@/components/admin/LoginLocksTable";
 import { useToast } from "@/hooks/use-toast";
 
 interface Admin {
@@ -28,6 +29,7 @@ interface Admin {
   is_read_only?: boolean;
   cash_collection_enabled?: boolean;
   cash_collection_division_ids?: string[];
+  capabilities?: string[];
   created_at: string;
   phone?: string;
   full_name?: string;
@@ -85,13 +87,13 @@ export default function AdminsManagement() {
     load();
   }, []);
 
-  const hashPassword = async (password: string) => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    return Array.from(new Uint8Array(hashBuffer))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
+  // Passwords are hashed server-side (salted PBKDF2) by admin-auth.
+  const setAdminPassword = async (adminId: string, password: string) => {
+    const { data, error } = await supabase.functions.invoke("admin-auth", {
+      body: { action: "set_password", admin_id: adminId, password },
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
   };
 
   const handleCreate = async (data: { fullName: string; phone: string; password: string; divisionId: string; isReadOnly: boolean; cashCollectionEnabled: boolean; cashCollectionDivisionIds: string[] }) => {
@@ -102,19 +104,24 @@ export default function AdminsManagement() {
     const { data: existing } = await supabase.from("admins").select("id").eq("phone", phone).single();
     if (existing) throw new Error("An admin with this phone number already exists");
 
-    const passwordHash = await hashPassword(data.password);
-    const { error } = await supabase.from("admins").insert({
+    const { data: created, error } = await supabase.from("admins").insert({
       division_id: data.divisionId,
       created_by: user?.id,
       phone,
-      password_hash: passwordHash,
       full_name: data.fullName,
       is_read_only: data.isReadOnly,
       cash_collection_enabled: data.cashCollectionEnabled,
       cash_collection_division_ids: data.cashCollectionDivisionIds,
-    } as any);
+    } as any).select("id").single();
 
     if (error) throw error;
+    try {
+      await setAdminPassword(created.id, data.password);
+    } catch (err) {
+      // Without a password the account could never sign in; don't leave it behind
+      await supabase.from("admins").delete().eq("id", created.id);
+      throw err;
+    }
     toast({ title: "Admin created", description: "New admin has been created successfully." });
     fetchAdmins();
   };
@@ -129,13 +136,11 @@ export default function AdminsManagement() {
     }
 
     const updateData: any = { full_name: data.fullName, phone, division_id: data.divisionId, is_read_only: data.isReadOnly, cash_collection_enabled: data.cashCollectionEnabled, cash_collection_division_ids: data.cashCollectionDivisionIds };
-    if (data.password) {
-      if (data.password.length < 6) throw new Error("Password must be at least 6 characters");
-      updateData.password_hash = await hashPassword(data.password);
-    }
+    if (data.password && data.password.length < 6) throw new Error("Password must be at least 6 characters");
 
     const { error } = await supabase.from("admins").update(updateData).eq("id", editingAdmin.id);
     if (error) throw error;
+    if (data.password) await setAdminPassword(editingAdmin.id, data.password);
     toast({ title: "Admin updated", description: "Admin details have been updated successfully." });
     setEditingAdmin(null);
     fetchAdmins();
@@ -217,6 +222,14 @@ export default function AdminsManagement() {
           }}
         />
 
+        <div className="mt-8">
+          <LoginLocksTable
+            adminNames={Object.fromEntries(
+              admins.filter((a) => a.phone && a.full_name).map((a) => [a.phone, a.full_name])
+            )}
+          />
+        </div>
+
         {/* Create Dialog */}
         <AdminFormDialog
           open={isCreateOpen}
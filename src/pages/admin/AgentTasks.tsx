@@ -56,6 +56,7 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { edgeClient } from "@/lib/edgeApi";
 import { PennyekartAgent, ROLE_LABELS, AgentRole } from "@/hooks/usePennyekartAgents";
 
 const PENNYEKART_DIVISION_ID = "e108eb84-b8a2-452d-b0d4-350d0c90303b";
@@ -202,6 +203,8 @@ export default function AgentTasks() {
     return <Navigate to="/unauthorized" replace />;
   }
 
+  const agentsApi = () => edgeClient("pennyekart-agents", { adminToken });
+
   const handleCreateTask = async () => {
     if (!newTitle.trim() || newPanchayathIds.length === 0) {
       toast.error("Title and at least one Panchayath are required");
@@ -213,14 +216,13 @@ export default function AgentTasks() {
       description: newDescription.trim() || null,
       panchayath_id: pid,
     }));
-    const { data, error } = await supabase.functions.invoke("pennyekart-agents", {
-      body: { action: "create_task", tasks: rows },
-      headers: adminToken ? { "x-admin-token": adminToken } : {},
-    });
-    setIsCreating(false);
-    if (error || data?.error) {
-      toast.error(data?.error || "Failed to create task");
+    try {
+      await agentsApi().create_task({ tasks: rows });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to create task");
       return;
+    } finally {
+      setIsCreating(false);
     }
     toast.success(`Task created for ${newPanchayathIds.length} panchayath(s)`);
     setCreateDialogOpen(false);
@@ -233,14 +235,13 @@ export default function AgentTasks() {
   const handleEditTask = async () => {
     if (!editTask || !editTitle.trim()) return;
     setIsEditing(true);
-    const { data, error } = await supabase.functions.invoke("pennyekart-agents", {
-      body: { action: "update_task", id: editTask.id, title: editTitle.trim(), description: editDescription.trim() || null },
-      headers: adminToken ? { "x-admin-token": adminToken } : {},
-    });
-    setIsEditing(false);
-    if (error || data?.error) {
+    try {
+      await agentsApi().update_task({ id: editTask.id, title: editTitle.trim(), description: editDescription.trim() || null });
+    } catch {
       toast.error("Failed to update task");
       return;
+    } finally {
+      setIsEditing(false);
     }
     toast.success("Task updated");
     setEditDialogOpen(false);
@@ -254,14 +255,13 @@ export default function AgentTasks() {
   const handleDeleteTask = async () => {
     if (!deleteTask) return;
     setIsDeleting(true);
-    const { data, error } = await supabase.functions.invoke("pennyekart-agents", {
-      body: { action: "delete_task", id: deleteTask.id },
-      headers: adminToken ? { "x-admin-token": adminToken } : {},
-    });
-    setIsDeleting(false);
-    if (error || data?.error) {
+    try {
+      await agentsApi().delete_task({ id: deleteTask.id });
+    } catch {
       toast.error("Failed to delete task");
       return;
+    } finally {
+      setIsDeleting(false);
     }
     toast.success("Task deleted");
     if (selectedTask?.id === deleteTask.id) setSelectedTask(null);
@@ -277,18 +277,15 @@ export default function AgentTasks() {
     if (!selectedTask) return;
 
     const existing = feedbackMap[agentId];
-    const { data, error } = await supabase.functions.invoke("pennyekart-agents", {
-      body: {
-        action: "save_feedback",
+    try {
+      await agentsApi().save_feedback({
         task_id: selectedTask.id,
         agent_id: agentId,
         status,
         remarks: remarks || null,
         existing_id: existing?.id || null,
-      },
-      headers: adminToken ? { "x-admin-token": adminToken } : {},
-    });
-    if (error || data?.error) {
+      });
+    } catch {
       toast.error("Failed to save feedback");
       return;
     }
@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/useAuth";
+import { Navigate, Link } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, History, Loader2, ScrollText, X } from "lucide-react";
+import { AuditEventChanges } from "@/components/audit/AuditEventChanges";
+import { RecordHistoryDrawer } from "@/components/audit/RecordHistoryDrawer";
+import {
+  AUDIT_ACTOR_LABELS,
+  AUDIT_ENTITY_LABELS,
+  actorDisplayName,
+  entityLabel,
+  resolveAuditActors,
+  type AuditEvent,
+} from "@/lib/auditEvents";
+
+const PAGE_SIZE = 100;
+
+const ACTION_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  delete: "destructive",
+};
+
+interface Filters {
+  entity: string;
+  actorType: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { entity: "all", actorType: "all", actorId: "", from: "", to: "" };
+
+export default function AuditLog() {
+  const { isSuperAdmin } = useAuth();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [selected, setSelected] = useState<AuditEvent | null>(null);
+  const [historyFor, setHistoryFor] = useState<{ entity: string; entityId: string } | null>(null);
+
+  const load = useCallback(async (f: Filters, offset: number) => {
+    setIsLoading(true);
+    let query = supabase
+      .from("audit_events")
+      .select("*")
+      .order("occurred_at", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (f.entity !== "all") query = query.eq("entity", f.entity);
+    if (f.actorType !== "all") query = query.eq("actor_type", f.actorType);
+    if (f.actorId) query = query.eq("actor_id", f.actorId);
+    if (f.from) query = query.gte("occurred_at", new Date(`${f.from}T00:00:00`).toISOString());
+    if (f.to) query = query.lte("occurred_at", new Date(`${f.to}T23:59:59.999`).toISOString());
+
+    const { data } = await query;
+    const rows = data || [];
+    const names = await resolveAuditActors(rows);
+    setEvents((prev) => (offset === 0 ? rows : [...prev, ...rows]));
+    setActorNames((prev) => (offset === 0 ? names : { ...prev, ...names }));
+    setHasMore(rows.length === PAGE_SIZE);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (isSuperAdmin) load(filters, 0);
+  }, [isSuperAdmin, filters, load]);
+
+  if (!isSuperAdmin) return <Navigate to="/unauthorized" replace />;
+
+  const setFilter = (patch: Partial<Filters>) => setFilters((prev) => ({ ...prev, ...patch }));
+  const filterByActor = (event: AuditEvent) =>
+    setFilter({ actorType: event.actor_type, actorId: event.actor_id || "" });
+
+  return (
+    <Layout>
+      <div className="container py-6 sm:py-8">
+        <div className="flex items-center gap-2 mb-6">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/super-admin"><ArrowLeft className="h-4 w-4 mr-1" />Back</Link>
+          </Button>
+        </div>
+
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <ScrollText className="h-6 w-6 text-primary" />
+            Audit Log
+          </h1>
+          <p className="text-sm text-muted-foreground">Every change made through the portal, bot and admin tools</p>
+        </div>
+
+        <Card className="mb-4">
+          <CardContent className="pt-4 grid gap-3 grid-cols-2 md:grid-cols-5 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Record type</Label>
+              <Select value={filters.entity} onValueChange={(v) => setFilter({ entity: v })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Changed by</Label>
+              <Select value={filters.actorType} onValueChange={(v) => setFilter({ actorType: v, actorId: "" })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {Object.entries(AUDIT_ACTOR_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" className="h-9" value={filters.from} onChange={(e) => setFilter({ from: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" className="h-9" value={filters.to} onChange={(e) => setFilter({ to: e.target.value })} />
+            </div>
+            <Button variant="outline" size="sm" className="h-9" onClick={() => setFilters(EMPTY_FILTERS)}>
+              Clear filters
+            </Button>
+          </CardContent>
+        </Card>
+
+        {filters.actorId && (
+          <div className="mb-3">
+            <Badge variant="secondary" className="gap-1">
+              Only changes by {actorNames[`${filters.actorType}:${filters.actorId}`] || filters.actorId}
+              <button onClick={() => setFilter({ actorId: "" })} aria-label="Remove actor filter">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          </div>
+        )}
+
+        <div className="rounded-lg border bg-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <Table className="min-w-[760px]">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changed fields</TableHead>
+                  <TableHead className="text-right">History</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.length === 0 && !isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No changes match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <TableRow key={event.id} className="cursor-pointer" onClick={() => setSelected(event)}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(new Date(event.occurred_at), "dd MMM yyyy, hh:mm a")}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <button
+                          className="text-sm font-medium hover:underline text-left"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            filterByActor(event);
+                          }}
+                        >
+                          {actorDisplayName(event, actorNames)}
+                        </button>
+                        <p className="text-[10px] text-muted-foreground">
+                          {AUDIT_ACTOR_LABELS[event.actor_type] || event.actor_type}
+                          {event.source ? ` · ${event.source}` : ""}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[event.action] || "secondary"} className="text-[10px] capitalize">
+                          {event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <p className="text-sm">{entityLabel(event.entity)}</p>
+                        <p className="text-[10px] text-muted-foreground font-mono">{event.entity_id?.slice(0, 8)}</p>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[240px] truncate">
+                        {event.action === "update" ? (event.changed_fields || []).join(", ") : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {event.entity_id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Record history"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setHistoryFor({ entity: event.entity, entityId: event.entity_id! });
+                            }}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="flex justify-center mt-4">
+          {isLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : hasMore ? (
+            <Button variant="outline" size="sm" onClick={() => load(filters, events.length)}>
+              Load more
+            </Button>
+          ) : null}
+        </div>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+            {selected && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="capitalize">
+                    {selected.action} · {entityLabel(selected.entity)}
+                  </DialogTitle>
+                </DialogHeader>
+                <p className="text-xs text-muted-foreground">
+                  {actorDisplayName(selected, actorNames)} ·{" "}
+                  {format(new Date(selected.occurred_at), "dd MMM yyyy, hh:mm:ss a")}
+                </p>
+                <AuditEventChanges event={selected} />
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {historyFor && (
+          <RecordHistoryDrawer
+            open={!!historyFor}
+            onOpenChange={(open) => !open && setHistoryFor(null)}
+            entity={historyFor.entity}
+            entityId={historyFor.entityId}
+            title={`${entityLabel(historyFor.entity)} history`}
+          />
+        )}
+      </div>
+    </Layout>
+  );
+}
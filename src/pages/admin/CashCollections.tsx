@@ -1,7 +1,6 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -23,47 +22,11 @@ import {
   Receipt, Clock, ShieldCheck, FileText, UserPlus, Building2,
 } from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
+import { type CashCollection, type CashCollectionPerson, type CashCollectionReport, edgeClient } from "@/lib/edgeApi";
 
-interface SearchResult {
-  type: "member" | "registration";
-  id: string;
-  name: string;
-  mobile: string;
-  division_id: string | null;
-  panchayath_id: string | null;
-  panchayath_name: string | null;
-  program_name?: string;
-}
-
-interface Collection {
-  id: string;
-  person_name: string;
-  mobile: string;
-  amount: number;
-  receipt_number: string;
-  status: "pending" | "verified" | "submitted";
-  notes: string | null;
-  division_id: string;
-  panchayath_name: string | null;
-  collected_by_name: string | null;
-  verified_by_name: string | null;
-  verified_at: string | null;
-  submitted_by_name: string | null;
-  submitted_at: string | null;
-  created_at: string;
-  divisions?: { name: string };
-}
-
-interface Report {
-  totalCollected: number;
-  pendingAmount: number;
-  verifiedAmount: number;
-  submittedAmount: number;
-  totalEntries: number;
-  pendingCount: number;
-  verifiedCount: number;
-  submittedCount: number;
-}
+type SearchResult = CashCollectionPerson;
+type Collection = CashCollection;
+type Report = CashCollectionReport;
 
 export default function CashCollections() {
   const { divisionId } = useParams<{ divisionId: string }>();
@@ -90,25 +53,7 @@ export default function CashCollections() {
   const [showReceiptDialog, setShowReceiptDialog] = useState(false);
   const [lastReceipt, setLastReceipt] = useState<Collection | null>(null);
 
-  const invokeFunction = useCallback(
-    async (params: Record<string, string>, method: "GET" | "POST" | "PUT" | "DELETE" = "GET", body?: any) => {
-      const queryStr = new URLSearchParams(params).toString();
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-      if (adminToken) {
-        headers["x-admin-token"] = adminToken;
-      }
-      const { data, error } = await supabase.functions.invoke("admin-cash-collections?" + queryStr, {
-        method,
-        body: body ? JSON.stringify(body) : undefined,
-        headers,
-      });
-      if (error) throw error;
-      return data;
-    },
-    [adminToken]
-  );
+  const api = useMemo(() => edgeClient("admin-cash-collections", { adminToken }), [adminToken]);
 
   // Search mobile
   const handleSearch = useCallback(
@@ -120,7 +65,7 @@ export default function CashCollections() {
       }
       setIsSearching(true);
       try {
-        const data = await invokeFunction({ action: "search_mobile", mobile: query });
+        const data = await api.search_mobile({ mobile: query, division_id: divisionId });
         setSearchResults(data.results || []);
       } catch {
         setSearchResults([]);
@@ -128,7 +73,7 @@ export default function CashCollections() {
         setIsSearching(false);
       }
     },
-    [invokeFunction]
+    [api, divisionId]
   );
 
   // Load collections
@@ -136,9 +81,7 @@ export default function CashCollections() {
     async (status?: string) => {
       setIsLoadingCollections(true);
       try {
-        const params: Record<string, string> = { action: "list", division_id: divisionId || "" };
-        if (status) params.status = status;
-        const data = await invokeFunction(params);
+        const data = await api.list({ division_id: divisionId, status });
         setCollections(data.collections || []);
       } catch {
         toast({ title: "Error", description: "Failed to load collections", variant: "destructive" });
@@ -146,19 +89,19 @@ export default function CashCollections() {
         setIsLoadingCollections(false);
       }
     },
-    [invokeFunction, divisionId, toast]
+    [api, divisionId, toast]
   );
 
   // Load report
   const loadReport = useCallback(async () => {
     try {
-      const data = await invokeFunction({ action: "report", division_id: divisionId || "" });
+      const data = await api.report({ division_id: divisionId });
       setReport(data.report || null);
       setCollections(data.collections || []);
     } catch {
       toast({ title: "Error", description: "Failed to load report", variant: "destructive" });
     }
-  }, [invokeFunction, divisionId, toast]);
+  }, [api, divisionId, toast]);
 
   useEffect(() => {
     if (activeTab === "collections" || activeTab === "verify") loadCollections();
@@ -204,7 +147,7 @@ export default function CashCollections() {
 
     setIsSubmitting(true);
     try {
-      const data = await invokeFunction({}, "POST", {
+      const data = await api.create({
         person_name: personName,
         mobile,
         division_id: divisionId,
@@ -238,7 +181,7 @@ export default function CashCollections() {
   const handleVerify = async (id: string) => {
     setIsProcessing(true);
     try {
-      await invokeFunction({}, "PUT", { collection_id: id, action: "verify" });
+      await api.verify({ collection_id: id, division_id: divisionId });
       toast({ title: "Verified", description: "Collection verified successfully" });
       loadCollections();
     } catch {
@@ -257,7 +200,7 @@ export default function CashCollections() {
     }
     setIsProcessing(true);
     try {
-      await invokeFunction({}, "PUT", { collection_ids: ids, action: "submit" });
+      await api.submit({ collection_ids: ids, division_id: divisionId });
       toast({ title: "Submitted", description: `${ids.length} collection(s) submitted to office with receipts` });
       setSelectedIds(new Set());
       loadCollections();
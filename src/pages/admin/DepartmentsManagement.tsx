@@ -15,6 +15,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { edgeClient } from "@/lib/edgeApi";
 import { ArrowLeft, Plus, Trash2, Pencil, UserPlus, Loader2, Users, Building2, FileText, Target, ListTodo, Calendar as CalendarIcon } from "lucide-react";
 
 type Department = { id: string; name: string; description: string | null; color: string | null; icon: string | null; is_active: boolean };
@@ -24,6 +25,10 @@ type Log = { id: string; member_id: string; department_id: string; work_date: st
 type Plan = { id: string; department_id: string; title: string; description: string | null; target_date: string | null; status: string };
 type Todo = { id: string; department_id: string; title: string; description: string | null; due_date: string | null; is_completed: boolean };
 
+// Member changes go through the worklog function, which hashes PINs; the
+// super admin's own session authorizes them.
+const worklog = edgeClient("department-worklog");
+
 export default function DepartmentsManagement() {
   const { isSuperAdmin } = useAuth();
   const { toast } = useToast();
@@ -92,12 +97,11 @@ export default function DepartmentsManagement() {
     if (!deptId || !agentId) return toast({ title: "Select an agent", variant: "destructive" });
     if (!memberId && (!pin || pin.length < 4)) return toast({ title: "PIN must be at least 4 chars", variant: "destructive" });
 
-    const { data: { session } } = await supabase.auth.getSession();
-    const { data, error } = await supabase.functions.invoke("department-worklog", {
-      body: { action: "admin_upsert_member", department_id: deptId, agent_id: agentId, pin: pin || "", member_role: role || "staff" },
-      headers: { Authorization: `Bearer ${session?.access_token}` },
-    });
-    if (error || (data as any)?.error) return toast({ title: "Error", description: error?.message || (data as any)?.error, variant: "destructive" });
+    try {
+      await worklog.admin_upsert_member({ department_id: deptId, agent_id: agentId, pin: pin || "", member_role: role || "staff" });
+    } catch (err: any) {
+      return toast({ title: "Error", description: err.message, variant: "destructive" });
+    }
     toast({ title: "Saved" });
     setMemberDialog({ open: false });
     load();
@@ -105,24 +109,20 @@ export default function DepartmentsManagement() {
 
   const removeMember = async (id: string) => {
     if (!confirm("Remove this member?")) return;
-    const { data: { session } } = await supabase.auth.getSession();
-    const { data, error } = await supabase.functions.invoke("department-worklog", {
-      body: { action: "admin_remove_member", id },
-      headers: { Authorization: `Bearer ${session?.access_token}` },
-    });
-    if (error || (data as any)?.error) return toast({ title: "Error", description: error?.message || (data as any)?.error, variant: "destructive" });
+    try {
+      await worklog.admin_remove_member({ id });
+    } catch (err: any) {
+      return toast({ title: "Error", description: err.message, variant: "destructive" });
+    }
     load();
   };
 
   const setMemberPermission = async (id: string, can_view_all: boolean) => {
     setMembers((prev) => prev.map((m) => (m.id === id ? { ...m, can_view_all } : m)));
-    const { data: { session } } = await supabase.auth.getSession();
-    const { data, error } = await supabase.functions.invoke("department-worklog", {
-      body: { action: "admin_set_member_permission", id, can_view_all },
-      headers: { Authorization: `Bearer ${session?.access_token}` },
-    });
-    if (error || (data as any)?.error) {
-      toast({ title: "Error", description: error?.message || (data as any)?.error, variant: "destructive" });
+    try {
+      await worklog.admin_set_member_permission({ id, can_view_all });
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
       load();
       return;
     }
@@ -33,7 +33,7 @@ import { formatDistanceToNow } from "date-fns";
 
 export default function DivisionAdminDashboard() {
   const { divisionId } = useParams<{ divisionId: string }>();
-  const { isAdmin, isSuperAdmin, adminData } = useAuth();
+  const { isAdmin, isSuperAdmin, adminData, hasCapability } = useAuth();
   const stats = useDivisionAdminStats(divisionId);
 
   // Check authorization
@@ -142,12 +142,14 @@ export default function DivisionAdminDashboard() {
 
         {/* Quick Actions */}
         <div className="grid gap-2 sm:gap-4 grid-cols-2 sm:grid-cols-3 mb-6 sm:mb-8">
-          <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
-            <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
-              <Calendar className="h-5 w-5 sm:h-6 sm:w-6" />
-              <span className="text-xs sm:text-sm">Manage Programs</span>
-            </Link>
-          </Button>
+          {hasCapability("programs:edit") && (
+            <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+              <Link to="/admin/programs" className="flex flex-col items-center gap-1.5 sm:gap-2">
+                <Calendar className="h-5 w-5 sm:h-6 sm:w-6" />
+                <span className="text-xs sm:text-sm">Manage Programs</span>
+              </Link>
+            </Button>
+          )}
           <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
             <Link to="/admin/members" className="flex flex-col items-center gap-1.5 sm:gap-2">
               <Users className="h-5 w-5 sm:h-6 sm:w-6" />
@@ -160,7 +162,7 @@ export default function DivisionAdminDashboard() {
               <span className="text-xs sm:text-sm">Manage Clusters</span>
             </Link>
           </Button>
-           {divisionId === "e108eb84-b8a2-452d-b0d4-350d0c90303b" && (
+           {divisionId === "e108eb84-b8a2-452d-b0d4-350d0c90303b" && hasCapability("agents:manage") && (
             <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
               <Link to="/admin/pennyekart-agents" className="flex flex-col items-center gap-1.5 sm:gap-2">
                 <Users className="h-5 w-5 sm:h-6 sm:w-6" />
@@ -1,7 +1,6 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
-import { Navigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -12,6 +11,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Upload, FileSpreadsheet, Loader2, Trash2, CheckCircle2, ArrowLeft } from "lucide-react";
 import { Link } from "react-router-dom";
 import * as XLSX from "xlsx";
+import { edgeClient } from "@/lib/edgeApi";
 
 interface ParsedRow {
   [key: string]: string | number | null;
@@ -38,7 +38,8 @@ const FIELD_LABELS: Record<string, string> = {
 };
 
 export default function OldPaymentsUpload() {
-  const { isSuperAdmin } = useAuth();
+  const { isSuperAdmin, adminToken } = useAuth();
+  const api = useMemo(() => edgeClient("admin-sales", { adminToken }), [adminToken]);
   const { toast } = useToast();
   const fileRef = useRef<HTMLInputElement>(null);
 
@@ -52,8 +53,6 @@ export default function OldPaymentsUpload() {
   const [existingBatches, setExistingBatches] = useState<{ batch_id: string; count: number; created_at: string }[]>([]);
   const [isLoadingBatches, setIsLoadingBatches] = useState(false);
 
-  if (!isSuperAdmin) return <Navigate to="/unauthorized" replace />;
-
   const loadBatches = async () => {
     setIsLoadingBatches(true);
     const { data } = await supabase
@@ -129,7 +128,6 @@ export default function OldPaymentsUpload() {
         approved_by: mapping.approved_by ? String(row[mapping.approved_by] || "").trim() : "",
         approved_date: mapping.approved_date ? String(row[mapping.approved_date] || "").trim() : "",
         raw_data: row,
-        batch_id: batchId,
       })).filter((r) => r.name && r.mobile.length >= 10);
 
       // Insert in chunks of 500
@@ -137,9 +135,8 @@ export default function OldPaymentsUpload() {
       let inserted = 0;
       for (let i = 0; i < records.length; i += chunkSize) {
         const chunk = records.slice(i, i + chunkSize);
-        const { error } = await supabase.from("old_payments").insert(chunk);
-        if (error) throw error;
-        inserted += chunk.length;
+        const result = await api.upload_old_payments({ batch_id: batchId, records: chunk });
+        inserted += result.inserted;
       }
 
       setUploadedCount(inserted);
@@ -155,12 +152,12 @@ export default function OldPaymentsUpload() {
   };
 
   const deleteBatch = async (batchId: string) => {
-    const { error } = await supabase.from("old_payments").delete().eq("batch_id", batchId);
-    if (error) {
-      toast({ title: "Delete failed", description: error.message, variant: "destructive" });
-    } else {
+    try {
+      await api.delete_old_payment_batch({ batch_id: batchId });
       toast({ title: "Batch deleted" });
       loadBatches();
+    } catch (err: any) {
+      toast({ title: "Delete failed", description: err.message, variant: "destructive" });
     }
   };
 
@@ -170,7 +167,7 @@ export default function OldPaymentsUpload() {
     <Layout>
       <div className="container mx-auto px-4 py-8 max-w-4xl">
         <div className="flex items-center gap-3 mb-6">
-          <Link to="/super-admin">
+          <Link to={isSuperAdmin ? "/super-admin" : "/admin-dashboard"}>
             <Button variant="ghost" size="icon"><ArrowLeft className="h-4 w-4" /></Button>
           </Link>
           <div>
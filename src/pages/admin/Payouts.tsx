@@ -13,7 +13,7 @@ import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Link, Navigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import {
   ArrowLeft, Loader2, IndianRupee, Save, Calculator, Users, Percent, Wallet,
 } from "lucide-react";
@@ -21,6 +21,9 @@ import { toast } from "sonner";
 import { ROLE_LABELS, ROLE_HIERARCHY, type AgentRole } from "@/hooks/usePennyekartAgents";
 import { AgentWalletsTab } from "@/components/payouts/AgentWalletsTab";
 import { SearchableSelect } from "@/components/ui/searchable-select";
+import { HierarchyAsOfInput } from "@/components/pennyekart/HierarchyAsOfInput";
+import { agentsAsOf, fetchAgentVersionsAsOf } from "@/lib/agentHistory";
+import { edgeClient } from "@/lib/edgeApi";
 
 interface CommissionRate {
   id: string;
@@ -55,7 +58,8 @@ interface PayoutRow {
 }
 
 export default function Payouts() {
-  const { roles, isSuperAdmin, isLoading: authLoading } = useAuth();
+  const { isSuperAdmin, adminToken, isLoading: authLoading } = useAuth();
+  const api = useMemo(() => edgeClient("admin-payouts", { adminToken }), [adminToken]);
   const [rates, setRates] = useState<CommissionRate[]>([]);
   const [editRates, setEditRates] = useState<Record<string, number>>({});
   const [savingRates, setSavingRates] = useState(false);
@@ -66,20 +70,21 @@ export default function Payouts() {
   const [toDate, setToDate] = useState("");
   const [panchayathFilter, setPanchayathFilter] = useState("all");
   const [roleFilter, setRoleFilter] = useState("all");
+  // Share commissions among the agents in place on this date instead of today's
+  const [hierarchyAsOf, setHierarchyAsOf] = useState<string | undefined>();
 
   // Load commission rates
   const loadRates = useCallback(async () => {
-    const { data } = await supabase
-      .from("payout_commission_rates")
-      .select("*")
-      .order("role");
-    if (data) {
+    try {
+      const { rates: data } = await api.rates();
       setRates(data as CommissionRate[]);
       const map: Record<string, number> = {};
-      data.forEach((r: any) => { map[r.role] = r.percentage; });
+      data.forEach((r) => { map[r.role] = r.percentage; });
       setEditRates(map);
+    } catch (err: any) {
+      toast.error(err.message);
     }
-  }, []);
+  }, [api]);
 
   // Load agents & orders
   // Load panchayaths for name mapping
@@ -88,32 +93,33 @@ export default function Payouts() {
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const [agentsRes, ordersRes, panchayathsRes] = await Promise.all([
-        supabase
-          .from("pennyekart_agents")
-          .select("id, name, mobile, role, panchayath_id, ward, responsible_panchayath_ids, responsible_wards, panchayath:panchayaths(name)")
-          .eq("is_active", true),
-        supabase
-          .from("pennyekart_orders")
-          .select("total_amount, panchayath_name, ward, status, source_created_at"),
+      let agentsQuery = supabase
+        .from("pennyekart_agents")
+        .select("id, name, mobile, role, panchayath_id, ward, is_active, responsible_panchayath_ids, responsible_wards, panchayath:panchayaths(name)");
+      if (!hierarchyAsOf) agentsQuery = agentsQuery.eq("is_active", true);
+      const [agentsRes, ordersRes, panchayathsRes, versions] = await Promise.all([
+        agentsQuery,
+        api.orders(),
         supabase
           .from("panchayaths")
           .select("id, name, name_ml"),
+        hierarchyAsOf ? fetchAgentVersionsAsOf(hierarchyAsOf) : null,
       ]);
       if (agentsRes.data) {
-        setAgents(agentsRes.data.map((a: any) => ({
+        const placed = versions ? agentsAsOf(agentsRes.data, versions).filter((a) => a.is_active) : agentsRes.data;
+        setAgents(placed.map((a: any) => ({
           ...a,
           panchayath_name: a.panchayath?.name || "",
         })));
       }
-      if (ordersRes.data) setOrders(ordersRes.data);
+      setOrders(ordersRes.orders);
       if (panchayathsRes.data) setPanchayaths(panchayathsRes.data);
     } catch (err: any) {
       toast.error(err.message);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [api, hierarchyAsOf]);
 
   useEffect(() => {
     loadRates();
@@ -124,12 +130,7 @@ export default function Payouts() {
   const handleSaveRates = async () => {
     setSavingRates(true);
     try {
-      for (const [role, pct] of Object.entries(editRates)) {
-        await supabase
-          .from("payout_commission_rates")
-          .update({ percentage: pct, updated_at: new Date().toISOString() })
-          .eq("role", role);
-      }
+      await api.save_rates({ rates: editRates });
       toast.success("Commission rates saved");
       loadRates();
     } catch (err: any) {
@@ -361,11 +362,6 @@ export default function Payouts() {
 
   const fmt = (n: number) => `₹${n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-  // Redirect non-super-admins
-  if (!authLoading && !isSuperAdmin) {
-    return <Navigate to="/unauthorized" replace />;
-  }
-
   if (authLoading) {
     return (
       <Layout>
@@ -381,7 +377,7 @@ export default function Payouts() {
       <div className="container mx-auto p-4 md:p-6 space-y-6 max-w-7xl">
         {/* Header */}
         <div className="flex items-center gap-3">
-          <Link to="/super-admin">
+          <Link to={isSuperAdmin ? "/super-admin" : "/admin-dashboard"}>
             <Button variant="ghost" size="icon"><ArrowLeft className="h-5 w-5" /></Button>
           </Link>
           <div>
@@ -481,6 +477,10 @@ export default function Payouts() {
                       triggerClassName="w-40"
                     />
                   </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground">Hierarchy as of</label>
+                    <HierarchyAsOfInput value={hierarchyAsOf} onChange={setHierarchyAsOf} className="w-44" />
+                  </div>
                   <div>
                     <label className="text-xs text-muted-foreground">Role</label>
                     <Select value={roleFilter} onValueChange={setRoleFilter}>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
 import { Navigate } from "react-router-dom";
@@ -33,6 +33,7 @@ import {
   FileSpreadsheet,
   FileText,
   ClipboardList,
+  Upload,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { Trophy } from "lucide-react";
@@ -52,10 +53,16 @@ import { AgentHierarchyTree } from "@/components/pennyekart/AgentHierarchyTree";
 import { AgentProfileCard } from "@/components/pennyekart/AgentProfileCard";
 import { BulkAgentFormDialog } from "@/components/pennyekart/BulkAgentFormDialog";
 import { AgentDetailsPanel } from "@/components/pennyekart/AgentDetailsPanel";
+import { MoveAgentDialog } from "@/components/pennyekart/MoveAgentDialog";
+import { AgentExitDialog } from "@/components/pennyekart/AgentExitDialog";
+import { AgentImportDialog } from "@/components/pennyekart/AgentImportDialog";
 import { ExportFilterDialog } from "@/components/pennyekart/ExportFilterDialog";
+import { HierarchyAsOfInput } from "@/components/pennyekart/HierarchyAsOfInput";
 import { toast } from "sonner";
 import { exportAgentsToXlsx, exportAgentsToPdf, shareAgentsViaWhatsApp } from "@/lib/exportAgents";
 import { AgentRanksTab } from "@/components/pennyekart/AgentRanksTab";
+import { useAgentRanks } from "@/hooks/useAgentRanks";
+import { todaysSnapshotDate } from "@/lib/agentRank";
 import { AgentWorkLogReport } from "@/components/pennyekart/AgentWorkLogReport";
 import { AgentComplaintsTab } from "@/components/pennyekart/AgentComplaintsTab";
 import { MessageSquareWarning } from "lucide-react";
@@ -69,7 +76,7 @@ interface Panchayath {
 const PENNYEKART_DIVISION_ID = "e108eb84-b8a2-452d-b0d4-350d0c90303b";
 
 export default function PennyekartAgentHierarchy() {
-  const { isAdmin, isSuperAdmin, adminData, isLoading: authLoading } = useAuth();
+  const { isAdmin, isSuperAdmin, adminData, isLoading: authLoading, hasCapability } = useAuth();
   const [filters, setFilters] = useState<AgentFilters>({});
   const [panchayaths, setPanchayaths] = useState<Panchayath[]>([]);
   const [wards, setWards] = useState<string[]>([]);
@@ -79,9 +86,42 @@ export default function PennyekartAgentHierarchy() {
   const [defaultParentId, setDefaultParentId] = useState<string | null>(null);
   const [defaultRole, setDefaultRole] = useState<AgentRole | null>(null);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [moving, setMoving] = useState<{ agent: PennyekartAgent; parentId: string | null } | null>(null);
+  const [exiting, setExiting] = useState<PennyekartAgent | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
 
   const { agents, isLoading, error, refetch } = usePennyekartAgents(filters);
   const { deleteAgent } = useAgentMutations();
+  const agentRanks = useAgentRanks(filters.as_of);
+  const canManageAgents = hasCapability("agents:manage");
+  // A past hierarchy is for reading; moves and exits apply to today's
+  const canReshape = canManageAgents && !filters.as_of;
+  const autoRanked = useRef(false);
+
+  const handleRecomputeRanks = async () => {
+    try {
+      const run = await agentRanks.recompute();
+      // Customer counts are re-derived first, so PRO counts may have changed too
+      if (run.customers.updated > 0) refetch();
+      toast.success(`Ranks updated: ${run.achieved} achieved, ${run.lost} lost`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to calculate ranks");
+    }
+  };
+
+  // Ranks are stored once a day; the first admin to open the page on a new
+  // day brings them up to date.
+  useEffect(() => {
+    if (agentRanks.isLoading || !canReshape || autoRanked.current) return;
+    if (agentRanks.snapshotDate === todaysSnapshotDate()) return;
+    autoRanked.current = true;
+    agentRanks.recompute().then((run) => {
+      // The active-customer window has moved on a day, which can change PRO counts
+      if (run.customers.updated > 0) refetch();
+    }).catch((err) => {
+      toast.error(err instanceof Error ? err.message : "Failed to calculate ranks");
+    });
+  }, [agentRanks, canReshape, refetch]);
 
   // Load panchayaths
   useEffect(() => {
@@ -230,6 +270,17 @@ export default function PennyekartAgentHierarchy() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
+            {canManageAgents && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 sm:flex-none"
+                onClick={() => setImportOpen(true)}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+            )}
             <Button onClick={handleAddAgent} size="sm" className="flex-1 sm:flex-none">
               <Plus className="h-4 w-4 mr-2" />
               Add Agent
@@ -266,7 +317,7 @@ export default function PennyekartAgentHierarchy() {
             </CardTitle>
           </CardHeader>
           <CardContent className="px-3 sm:px-6 pb-3 sm:pb-4">
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 sm:gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2 sm:gap-3">
               <div className="relative lg:col-span-2">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -317,6 +368,14 @@ export default function PennyekartAgentHierarchy() {
                   ))}
                 </SelectContent>
               </Select>
+
+              <HierarchyAsOfInput
+                value={filters.as_of}
+                onChange={(v) => {
+                  setSelectedAgent(null);
+                  handleFilterChange("as_of", v);
+                }}
+              />
             </div>
 
             {Object.values(filters).some(v => v) && (
@@ -365,7 +424,9 @@ export default function PennyekartAgentHierarchy() {
                     Agent Hierarchy
                   </CardTitle>
                   <CardDescription className="text-xs sm:text-sm">
-                    Click on an agent to view details
+                    {filters.as_of
+                      ? `As it was on ${new Date(filters.as_of).toLocaleDateString("en-IN", { dateStyle: "medium" })}`
+                      : "Click on an agent to view details"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="px-2 sm:px-6 pb-4 max-h-[50vh] sm:max-h-[60vh] overflow-y-auto">
@@ -383,8 +444,10 @@ export default function PennyekartAgentHierarchy() {
                   ) : (
                     <AgentHierarchyTree
                       agents={agents}
+                      ranks={agentRanks.ranks}
                       onSelectAgent={setSelectedAgent}
                       selectedAgentId={selectedAgent?.id}
+                      onMoveAgent={canReshape ? (agent, parent) => setMoving({ agent, parentId: parent.id }) : undefined}
                     />
                   )}
                 </CardContent>
@@ -397,9 +460,12 @@ export default function PennyekartAgentHierarchy() {
                     agent={selectedAgent}
                     allAgents={agents}
                     panchayaths={panchayaths}
+                    rank={agentRanks.ranks.get(selectedAgent.id)}
                     onEdit={() => handleEditAgent(selectedAgent)}
                     onDelete={() => handleDeleteAgent(selectedAgent)}
                     onAddChild={() => handleAddChildAgent(selectedAgent)}
+                    onMove={canReshape ? () => setMoving({ agent: selectedAgent, parentId: null }) : undefined}
+                    onExit={canReshape ? () => setExiting(selectedAgent) : undefined}
                     onClose={() => setSelectedAgent(null)}
                   />
                 ) : (
@@ -415,12 +481,23 @@ export default function PennyekartAgentHierarchy() {
           </TabsContent>
 
           <TabsContent value="ranks">
-            {isLoading ? (
+            {isLoading || agentRanks.isLoading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
               </div>
             ) : (
-              <AgentRanksTab agents={agents} allAgents={agents} panchayaths={panchayaths} onSelectAgent={setSelectedAgent} />
+              <AgentRanksTab
+                agents={agents}
+                allAgents={agents}
+                panchayaths={panchayaths}
+                ranks={agentRanks.ranks}
+                snapshotDate={agentRanks.snapshotDate}
+                computedAt={agentRanks.computedAt}
+                isComputing={agentRanks.isComputing}
+                canRecompute={canReshape}
+                onRecompute={handleRecomputeRanks}
+                onSelectAgent={setSelectedAgent}
+              />
             )}
           </TabsContent>
 
@@ -458,6 +535,40 @@ export default function PennyekartAgentHierarchy() {
             }
           }}
         />
+
+        <MoveAgentDialog
+          open={!!moving}
+          onOpenChange={(open) => !open && setMoving(null)}
+          agent={moving?.agent ?? null}
+          allAgents={agents}
+          initialParentId={moving?.parentId}
+          onMoved={() => {
+            refetch();
+            agentRanks.refetch();
+          }}
+        />
+
+        <AgentImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          panchayaths={panchayaths}
+          onImported={() => {
+            refetch();
+            agentRanks.refetch();
+          }}
+        />
+
+        <AgentExitDialog
+          open={!!exiting}
+          onOpenChange={(open) => !open && setExiting(null)}
+          agent={exiting}
+          allAgents={agents}
+          onExited={() => {
+            setSelectedAgent(null);
+            refetch();
+            agentRanks.refetch();
+          }}
+        />
       </div>
     </Layout>
   );
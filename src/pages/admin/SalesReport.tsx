@@ -1,14 +1,13 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from "@/components/ui/table";
-import { Link, Navigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import {
   ArrowLeft, Loader2, CheckCircle2, FileSpreadsheet, FileText,
   ShoppingCart, IndianRupee, TrendingUp, TrendingDown, Wallet, DollarSign,
@@ -21,6 +20,7 @@ import {
 import { toast } from "sonner";
 import * as XLSX from "xlsx";
 import { SearchableSelect } from "@/components/ui/searchable-select";
+import { edgeClient } from "@/lib/edgeApi";
 
 interface Order {
   id: string;
@@ -60,7 +60,8 @@ function parseExcelDate(val: any): string {
 }
 
 export default function SalesReport() {
-  const { roles, isLoading: authLoading } = useAuth();
+  const { isSuperAdmin, adminToken, isLoading: authLoading } = useAuth();
+  const api = useMemo(() => edgeClient("admin-sales", { adminToken }), [adminToken]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
@@ -79,14 +80,10 @@ export default function SalesReport() {
   const loadOrders = useCallback(async () => {
     setLoading(true);
     try {
-      const { data, error } = await (supabase as any)
-        .from("pennyekart_orders")
-        .select("*")
-        .order("source_created_at", { ascending: false });
-      if (error) throw error;
-      setOrders(data || []);
-      if (data && data.length > 0) {
-        const latest = data.reduce((a: any, b: any) =>
+      const { orders: data } = await api.orders();
+      setOrders(data as Order[]);
+      if (data.length > 0) {
+        const latest = data.reduce((a, b) =>
           (a.uploaded_at || "") > (b.uploaded_at || "") ? a : b
         );
         if (latest.uploaded_at) setLastUploaded(new Date(latest.uploaded_at).toLocaleString("en-IN"));
@@ -96,7 +93,7 @@ export default function SalesReport() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [api]);
 
   const handleUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -114,8 +111,6 @@ export default function SalesReport() {
         return;
       }
 
-      const now = new Date().toISOString();
-
       // Helper: find a value by checking multiple possible header names (case-insensitive, partial match)
       const findVal = (row: any, ...keywords: string[]): any => {
         const keys = Object.keys(row);
@@ -168,10 +163,8 @@ export default function SalesReport() {
           delivery: String(findVal(row, "Delivery", "delivery") || ""),
           customer_phone: String(findVal(row, "Phone", "Mobile", "phone", "customer_phone") || ""),
           payment_method: String(findVal(row, "Payment", "payment_method", "Payment Method") || ""),
-          synced_at: now,
-          uploaded_at: now,
         };
-      }).filter(Boolean);
+      }).filter((o): o is NonNullable<typeof o> => o !== null);
 
       if (mapped.length === 0) {
         toast.error("No valid orders found. Check column headers match: Order ID, Date, Customer, etc.");
@@ -183,11 +176,8 @@ export default function SalesReport() {
       let totalUpserted = 0;
       for (let i = 0; i < mapped.length; i += batchSize) {
         const batch = mapped.slice(i, i + batchSize);
-        const { error } = await (supabase as any)
-          .from("pennyekart_orders")
-          .upsert(batch, { onConflict: "id" });
-        if (error) throw error;
-        totalUpserted += batch.length;
+        const { uploaded } = await api.upload_orders({ orders: batch });
+        totalUpserted += uploaded;
       }
 
       toast.success(`Uploaded ${totalUpserted} orders successfully`);
@@ -198,7 +188,7 @@ export default function SalesReport() {
       setUploading(false);
       if (fileInputRef.current) fileInputRef.current.value = "";
     }
-  }, [loadOrders]);
+  }, [api, loadOrders]);
 
   useEffect(() => {
     loadOrders();
@@ -317,17 +307,13 @@ ${filteredOrders.map((o, i) => `<tr><td>${i + 1}</td><td>${o.id}</td><td>${o.sou
     return <div className="min-h-screen flex items-center justify-center bg-background"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
   }
 
-  if (!roles.includes("super_admin")) {
-    return <Navigate to="/unauthorized" replace />;
-  }
-
   return (
     <Layout>
       <div className="container mx-auto px-4 py-6 space-y-6">
         {/* Header */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex items-center gap-3">
-            <Link to="/super-admin">
+            <Link to={isSuperAdmin ? "/super-admin" : "/admin-dashboard"}>
               <Button variant="outline" size="icon"><ArrowLeft className="h-4 w-4" /></Button>
             </Link>
             <div>
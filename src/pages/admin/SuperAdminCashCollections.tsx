@@ -1,7 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -26,39 +25,17 @@ import { useToast } from "@/hooks/use-toast";
 import { Link, Navigate } from "react-router-dom";
 import {
   ArrowLeft, Loader2, IndianRupee, Receipt, Clock, ShieldCheck,
-  FileText, Send, Pencil, Trash2, Building2,
+  FileText, Send, Pencil, Trash2, Building2, History,
 } from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
+import { RecordHistoryDrawer } from "@/components/audit/RecordHistoryDrawer";
+import { type CashCollection, type CashCollectionReport, edgeClient } from "@/lib/edgeApi";
 
-interface Collection {
-  id: string;
-  person_name: string;
-  mobile: string;
-  amount: number;
-  receipt_number: string;
-  status: "pending" | "verified" | "submitted";
-  notes: string | null;
-  division_id: string;
-  panchayath_name: string | null;
-  collected_by_name: string | null;
-  verified_by_name: string | null;
-  verified_at: string | null;
-  submitted_by_name: string | null;
-  submitted_at: string | null;
-  created_at: string;
-  divisions?: { name: string };
-}
+type Collection = CashCollection;
+type Report = CashCollectionReport;
 
-interface Report {
-  totalCollected: number;
-  pendingAmount: number;
-  verifiedAmount: number;
-  submittedAmount: number;
-  totalEntries: number;
-  pendingCount: number;
-  verifiedCount: number;
-  submittedCount: number;
-}
+// Super admins are authorized by their own session
+const api = edgeClient("admin-cash-collections");
 
 export default function SuperAdminCashCollections() {
   const { isSuperAdmin } = useAuth();
@@ -78,48 +55,30 @@ export default function SuperAdminCashCollections() {
   const [editForm, setEditForm] = useState({ person_name: "", mobile: "", amount: "", notes: "", status: "", panchayath_name: "" });
   const [isSaving, setIsSaving] = useState(false);
 
+  // Change history drawer
+  const [historyItem, setHistoryItem] = useState<Collection | null>(null);
+
   // Delete state
   const [deleteDialog, setDeleteDialog] = useState(false);
   const [deleteItem, setDeleteItem] = useState<Collection | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
-  const invokeFunction = useCallback(
-    async (params: Record<string, string>, method: "GET" | "POST" | "PUT" | "DELETE" = "GET", body?: any) => {
-      const queryStr = new URLSearchParams(params).toString();
-      const { data: sessionData } = await supabase.auth.getSession();
-      const token = sessionData?.session?.access_token;
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-
-      const { data, error } = await supabase.functions.invoke("admin-cash-collections?" + queryStr, {
-        method,
-        body: body ? JSON.stringify(body) : undefined,
-        headers,
-      });
-      if (error) throw error;
-      return data;
-    },
-    []
-  );
-
   const loadCollections = useCallback(async () => {
     setIsLoading(true);
     try {
-      const params: Record<string, string> = { action: "list_all" };
-      if (filterStatus !== "all") params.status = filterStatus;
-      const data = await invokeFunction(params);
+      const data = await api.list_all(filterStatus !== "all" ? { status: filterStatus } : {});
       setCollections(data.collections || []);
     } catch {
       toast({ title: "Error", description: "Failed to load collections", variant: "destructive" });
     } finally {
       setIsLoading(false);
     }
-  }, [invokeFunction, filterStatus, toast]);
+  }, [filterStatus, toast]);
 
   const loadReport = useCallback(async () => {
     setIsLoading(true);
     try {
-      const data = await invokeFunction({ action: "report_all" });
+      const data = await api.report_all();
       setReport(data.report || null);
       setCollections(data.collections || []);
     } catch {
@@ -127,7 +86,7 @@ export default function SuperAdminCashCollections() {
     } finally {
       setIsLoading(false);
     }
-  }, [invokeFunction, toast]);
+  }, [toast]);
 
   useEffect(() => {
     if (activeTab === "collections") loadCollections();
@@ -165,9 +124,8 @@ export default function SuperAdminCashCollections() {
     if (!editItem) return;
     setIsSaving(true);
     try {
-      await invokeFunction({}, "PUT", {
+      await api.edit({
         collection_id: editItem.id,
-        action: "edit",
         person_name: editForm.person_name,
         mobile: editForm.mobile,
         amount: Number(editForm.amount),
@@ -189,7 +147,7 @@ export default function SuperAdminCashCollections() {
     if (!deleteItem) return;
     setIsDeleting(true);
     try {
-      await invokeFunction({ collection_id: deleteItem.id }, "DELETE");
+      await api.delete({ collection_id: deleteItem.id });
       toast({ title: "Deleted", description: `Collection ${deleteItem.receipt_number} deleted` });
       setDeleteDialog(false);
       setDeleteItem(null);
@@ -322,6 +280,9 @@ export default function SuperAdminCashCollections() {
                                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEdit(c)}>
                                   <Pencil className="h-3.5 w-3.5" />
                                 </Button>
+                                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Change history" onClick={() => setHistoryItem(c)}>
+                                  <History className="h-3.5 w-3.5" />
+                                </Button>
                                 <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={() => { setDeleteItem(c); setDeleteDialog(true); }}>
                                   <Trash2 className="h-3.5 w-3.5" />
                                 </Button>
@@ -437,6 +398,9 @@ export default function SuperAdminCashCollections() {
                                   <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openEdit(c)}>
                                     <Pencil className="h-3.5 w-3.5" />
                                   </Button>
+                                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Change history" onClick={() => setHistoryItem(c)}>
+                                    <History className="h-3.5 w-3.5" />
+                                  </Button>
                                   <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={() => { setDeleteItem(c); setDeleteDialog(true); }}>
                                     <Trash2 className="h-3.5 w-3.5" />
                                   </Button>
@@ -454,6 +418,16 @@ export default function SuperAdminCashCollections() {
           </TabsContent>
         </Tabs>
 
+        {historyItem && (
+          <RecordHistoryDrawer
+            open={!!historyItem}
+            onOpenChange={(open) => !open && setHistoryItem(null)}
+            entity="cash_collections"
+            entityId={historyItem.id}
+            title={`History · ${historyItem.receipt_number}`}
+          />
+        )}
+
         {/* Edit Dialog */}
         <Dialog open={editDialog} onOpenChange={setEditDialog}>
           <DialogContent className="sm:max-w-md">
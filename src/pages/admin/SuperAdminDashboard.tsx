@@ -34,7 +34,8 @@ import {
   BarChart3,
   MessageSquare,
   Sparkles,
-  GraduationCap
+  GraduationCap,
+  ScrollText
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
@@ -226,6 +227,12 @@ export default function SuperAdminDashboard() {
               <span className="text-[10px] sm:text-sm">Trainings</span>
             </Link>
           </Button>
+          <Button asChild variant="outline" className="h-auto py-3 sm:py-4">
+            <Link to="/super-admin/audit-log" className="flex flex-col items-center gap-1.5 sm:gap-2">
+              <ScrollText className="h-5 w-5 sm:h-6 sm:w-6" />
+              <span className="text-[10px] sm:text-sm">Audit Log</span>
+            </Link>
+          </Button>
         </div>
 
         <div className="grid gap-4 sm:gap-6 lg:grid-cols-2 mb-6 sm:mb-8">
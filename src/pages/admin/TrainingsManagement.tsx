@@ -31,8 +31,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import {
-  callTrainings,
   LESSON_TYPE_LABEL,
+  trainingsClient,
   uploadTrainingFile,
   youtubeIdFromUrl,
   type LessonType,
@@ -87,10 +87,7 @@ export default function TrainingsManagement() {
   const load = useCallback(async () => {
     setLoading(true);
     try {
-      const res = await callTrainings<{ trainings: Training[]; lessons: TrainingLesson[] }>(
-        { action: "admin_list" },
-        adminToken,
-      );
+      const res = await trainingsClient(adminToken).admin_list();
       setTrainings(res.trainings);
       setLessons(res.lessons);
       setSelectedId((prev) => prev || res.trainings[0]?.id || null);
@@ -148,17 +145,13 @@ export default function TrainingsManagement() {
     }
     setSaving(true);
     try {
-      await callTrainings(
-        {
-          action: "save_training",
-          training: {
-            ...trainingForm,
-            id: trainingForm.id || undefined,
-            division_id: trainingForm.division_id || null,
-          },
+      await trainingsClient(adminToken).save_training({
+        training: {
+          ...trainingForm,
+          id: trainingForm.id || undefined,
+          division_id: trainingForm.division_id || null,
         },
-        adminToken,
-      );
+      });
       toast({ title: trainingForm.id ? "Training updated" : "Training created" });
       setTrainingDialog(false);
       await load();
@@ -172,7 +165,7 @@ export default function TrainingsManagement() {
   const deleteTraining = async (t: Training) => {
     if (!confirm(`Delete "${t.title}" and all of its lessons?`)) return;
     try {
-      await callTrainings({ action: "delete_training", id: t.id }, adminToken);
+      await trainingsClient(adminToken).delete_training({ id: t.id });
       if (selectedId === t.id) setSelectedId(null);
       toast({ title: "Training deleted" });
       await load();
@@ -229,23 +222,19 @@ export default function TrainingsManagement() {
       } else {
         content.notes = lessonForm.notes;
       }
-      await callTrainings(
-        {
-          action: "save_lesson",
-          lesson: {
-            id: lessonForm.id || undefined,
-            training_id: selectedId,
-            title: lessonForm.title,
-            lesson_type: lessonForm.lesson_type,
-            duration_minutes: lessonForm.duration_minutes,
-            content,
-            sort_order: lessonForm.id
-              ? selectedLessons.find((l) => l.id === lessonForm.id)?.sort_order ?? 0
-              : selectedLessons.length,
-          },
+      await trainingsClient(adminToken).save_lesson({
+        lesson: {
+          id: lessonForm.id || undefined,
+          training_id: selectedId,
+          title: lessonForm.title,
+          lesson_type: lessonForm.lesson_type,
+          duration_minutes: lessonForm.duration_minutes,
+          content,
+          sort_order: lessonForm.id
+            ? selectedLessons.find((l) => l.id === lessonForm.id)?.sort_order ?? 0
+            : selectedLessons.length,
         },
-        adminToken,
-      );
+      });
       toast({ title: lessonForm.id ? "Lesson updated" : "Lesson added" });
       setLessonDialog(false);
       await load();
@@ -259,7 +248,7 @@ export default function TrainingsManagement() {
   const deleteLesson = async (l: TrainingLesson) => {
     if (!confirm(`Delete lesson "${l.title}"?`)) return;
     try {
-      await callTrainings({ action: "delete_lesson", id: l.id }, adminToken);
+      await trainingsClient(adminToken).delete_lesson({ id: l.id });
       await load();
     } catch (e) {
       toast({ title: "Delete failed", description: e instanceof Error ? e.message : "", variant: "destructive" });
@@ -278,7 +267,7 @@ export default function TrainingsManagement() {
         return found ? { ...l, sort_order: found.sort_order } : l;
       }),
     );
-    await callTrainings({ action: "reorder_lessons", items }, adminToken);
+    await trainingsClient(adminToken).reorder_lessons({ items });
   };
 
   return (
@@ -0,0 +1,548 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Link, Navigate } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, Eye, Loader2, Megaphone, RefreshCw, Send, Users, XCircle } from "lucide-react";
+import { ALL_ROLES, ROLE_LABELS, type AgentRole } from "@/hooks/usePennyekartAgents";
+import { TEMPLATE_PLACEHOLDERS, unknownPlaceholders } from "@/lib/botTemplates";
+import {
+  edgeClient,
+  type BroadcastFilters,
+  type BroadcastRecipient,
+  type BroadcastSummary,
+  type WhatsAppBroadcast,
+} from "@/lib/edgeApi";
+
+const STATUS_COLORS: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-800 border-blue-300",
+  sending: "bg-amber-100 text-amber-800 border-amber-300",
+  sent: "bg-green-100 text-green-800 border-green-300",
+  cancelled: "bg-muted text-muted-foreground",
+  queued: "bg-muted text-muted-foreground",
+  delivered: "bg-green-100 text-green-800 border-green-300",
+  read: "bg-emerald-100 text-emerald-800 border-emerald-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+};
+
+const RANK_LABELS: Record<BroadcastFilters["rank"], string> = {
+  any: "Any rank status",
+  full: "Rank full",
+  not_full: "Rank not full",
+};
+
+const emptyFilters: BroadcastFilters = {
+  roles: [],
+  panchayath_ids: [],
+  wards: [],
+  rank: "any",
+  absent_today: false,
+};
+
+function formatTime(value: string | null) {
+  return value ? format(new Date(value), "dd MMM yyyy, hh:mm a") : "—";
+}
+
+/** One line describing a broadcast's filters, for the history table. */
+function describeFilters(filters: BroadcastFilters, panchayathNames: Map<string, string>) {
+  const parts = [
+    filters.roles.length > 0 ? filters.roles.map((r) => ROLE_LABELS[r]).join(", ") : "All roles",
+  ];
+  if (filters.panchayath_ids.length > 0) {
+    parts.push(filters.panchayath_ids.map((id) => panchayathNames.get(id) || "Unknown").join(", "));
+  }
+  if (filters.wards.length > 0) parts.push(`Ward ${filters.wards.join(", ")}`);
+  if (filters.rank !== "any") parts.push(RANK_LABELS[filters.rank]);
+  if (filters.absent_today) parts.push("Absent that day");
+  return parts.join(" · ");
+}
+
+/**
+ * WhatsApp broadcasts to agents: write a message (with the same placeholders
+ * as custom commands), pick who gets it and when, and follow each recipient's
+ * delivery. Messages go out from a queue a batch a minute.
+ */
+export default function WhatsAppBroadcasts() {
+  const { isSuperAdmin, adminToken } = useAuth();
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [message, setMessage] = useState("");
+  const [filters, setFilters] = useState<BroadcastFilters>(emptyFilters);
+  const [wardsText, setWardsText] = useState("");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [panchayaths, setPanchayaths] = useState<{ id: string; name: string }[]>([]);
+  const [audience, setAudience] = useState<{ count: number; sample: { id: string; name: string; role: AgentRole }[] } | null>(null);
+  const [isCheckingAudience, setIsCheckingAudience] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [broadcasts, setBroadcasts] = useState<BroadcastSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [details, setDetails] = useState<{ broadcast: WhatsAppBroadcast; recipients: BroadcastRecipient[] } | null>(null);
+  const [loadingDetailsId, setLoadingDetailsId] = useState<string | null>(null);
+  const messageRef = useRef<HTMLTextAreaElement>(null);
+
+  const api = useMemo(() => edgeClient("whatsapp-broadcasts", { adminToken }), [adminToken]);
+  const panchayathNames = useMemo(() => new Map(panchayaths.map((p) => [p.id, p.name])), [panchayaths]);
+
+  const fetchBroadcasts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await api.list();
+      setBroadcasts(res.broadcasts);
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to load broadcasts", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, toast]);
+
+  useEffect(() => {
+    if (!isSuperAdmin) return;
+    fetchBroadcasts();
+    supabase
+      .from("panchayaths")
+      .select("id, name")
+      .eq("is_active", true)
+      .order("name")
+      .then(({ data }) => setPanchayaths(data || []));
+  }, [isSuperAdmin, fetchBroadcasts]);
+
+  // The audience shown is for the filters it was checked with
+  useEffect(() => {
+    setAudience(null);
+  }, [filters]);
+
+  if (!isSuperAdmin) return <Navigate to="/unauthorized" replace />;
+
+  const updateFilters = (changes: Partial<BroadcastFilters>) => setFilters({ ...filters, ...changes });
+
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((v) => v !== value);
+
+  const updateWards = (text: string) => {
+    setWardsText(text);
+    updateFilters({ wards: text.split(",").map((w) => w.trim()).filter(Boolean) });
+  };
+
+  // Puts `{{key}}` where the cursor is in the message
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`;
+    const el = messageRef.current;
+    const start = el?.selectionStart ?? message.length;
+    const end = el?.selectionEnd ?? start;
+    setMessage(message.slice(0, start) + token + message.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleCheckAudience = async () => {
+    setIsCheckingAudience(true);
+    try {
+      const res = await api.preview_audience({ filters });
+      setAudience({ count: res.count, sample: res.sample });
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to check audience", variant: "destructive" });
+    } finally {
+      setIsCheckingAudience(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!title.trim() || !message.trim()) {
+      toast({ title: "Required", description: "Title and message are required.", variant: "destructive" });
+      return;
+    }
+    setIsCreating(true);
+    try {
+      await api.create({
+        title: title.trim(),
+        message: message.trim(),
+        filters,
+        scheduled_at: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+      });
+      toast({
+        title: scheduledAt ? "Scheduled" : "Sending",
+        description: scheduledAt
+          ? `"${title.trim()}" goes out at ${formatTime(new Date(scheduledAt).toISOString())}.`
+          : `"${title.trim()}" starts going out within a minute.`,
+      });
+      setTitle("");
+      setMessage("");
+      setScheduledAt("");
+      fetchBroadcasts();
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to create broadcast", variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    setCancellingId(id);
+    try {
+      await api.cancel({ id });
+      toast({ title: "Cancelled", description: "Messages not yet sent will not go out." });
+      fetchBroadcasts();
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to cancel", variant: "destructive" });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const openDetails = async (id: string) => {
+    setLoadingDetailsId(id);
+    try {
+      const res = await api.details({ id });
+      setDetails({ broadcast: res.broadcast, recipients: res.recipients });
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : "Failed to load recipients", variant: "destructive" });
+    } finally {
+      setLoadingDetailsId(null);
+    }
+  };
+
+  const unknown = unknownPlaceholders(message);
+
+  return (
+    <Layout>
+      <div className="container py-6 sm:py-8 max-w-4xl">
+        <div className="flex items-center gap-2 mb-6">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/admin/whatsapp-commands"><ArrowLeft className="h-4 w-4 mr-1" />WhatsApp Commands</Link>
+          </Button>
+        </div>
+
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Megaphone className="h-6 w-6 text-primary" />
+            WhatsApp Broadcasts
+          </h1>
+          <p className="text-sm text-muted-foreground">Send a message to a group of agents now or at a set time</p>
+        </div>
+
+        {/* Compose */}
+        <Card className="mb-6">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">New Broadcast</CardTitle>
+            <CardDescription className="text-xs">
+              Placeholders are filled in for each agent when their message is sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label className="text-xs">Title *</Label>
+              <Input placeholder="Diwali offer reminder" value={title} onChange={(e) => setTitle(e.target.value)} />
+              <p className="text-[10px] text-muted-foreground mt-1">Only shown here, not sent.</p>
+            </div>
+            <div>
+              <Label className="text-xs">Message *</Label>
+              <Textarea
+                ref={messageRef}
+                placeholder="Hi {{agent.name}}, ..."
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={5}
+              />
+              <p className="text-[10px] text-muted-foreground mt-1">
+                Supports WhatsApp formatting: *bold*, _italic_. {message.length}/1400 characters.
+              </p>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {TEMPLATE_PLACEHOLDERS.map((p) => (
+                  <Badge
+                    key={p.key}
+                    variant="outline"
+                    className="cursor-pointer font-mono text-[10px] hover:bg-muted"
+                    title={p.label}
+                    onClick={() => insertPlaceholder(p.key)}
+                  >
+                    {`{{${p.key}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-[10px] text-destructive mt-1">
+                  Unknown placeholders are sent as written: {unknown.join(", ")}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3 rounded border bg-muted/30 p-3">
+              <Label className="text-xs">Audience</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {ALL_ROLES.map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-xs">
+                    <Checkbox
+                      checked={filters.roles.includes(role)}
+                      onCheckedChange={(v) => updateFilters({ roles: toggle(filters.roles, role, v === true) })}
+                    />
+                    {ROLE_LABELS[role]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                {filters.roles.length === 0 ? "Every role." : "Only the roles ticked."}
+              </p>
+
+              <div>
+                <Label className="text-xs">Panchayaths</Label>
+                <ScrollArea className="h-32 rounded border bg-background p-2 mt-1">
+                  {panchayaths.map((p) => (
+                    <label key={p.id} className="flex items-center gap-2 text-xs py-0.5">
+                      <Checkbox
+                        checked={filters.panchayath_ids.includes(p.id)}
+                        onCheckedChange={(v) =>
+                          updateFilters({ panchayath_ids: toggle(filters.panchayath_ids, p.id, v === true) })
+                        }
+                      />
+                      {p.name}
+                    </label>
+                  ))}
+                </ScrollArea>
+                <p className="text-[10px] text-muted-foreground mt-1">
+                  {filters.panchayath_ids.length === 0 ? "Every panchayath." : `${filters.panchayath_ids.length} selected.`}
+                </p>
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs">Wards</Label>
+                  <Input placeholder="3, 7, 12" value={wardsText} onChange={(e) => updateWards(e.target.value)} />
+                  <p className="text-[10px] text-muted-foreground mt-1">Comma separated; empty for every ward.</p>
+                </div>
+                <div>
+                  <Label className="text-xs">Rank</Label>
+                  <Select value={filters.rank} onValueChange={(v) => updateFilters({ rank: v as BroadcastFilters["rank"] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RANK_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-[10px] text-muted-foreground mt-1">From the latest rank snapshot.</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch checked={filters.absent_today} onCheckedChange={(v) => updateFilters({ absent_today: v })} />
+                <Label className="text-xs">Only agents who have not logged work on the day it goes out</Label>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <Button variant="outline" size="sm" onClick={handleCheckAudience} disabled={isCheckingAudience}>
+                  {isCheckingAudience ? <Loader2 className="h-4 w-4 animate-spin mr-1.5" /> : <Users className="h-4 w-4 mr-1.5" />}
+                  Check audience
+                </Button>
+                {audience && (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{audience.count} agents</span> right now
+                    {audience.sample.length > 0 && `: ${audience.sample.map((a) => a.name).join(", ")}`}
+                    {audience.count > audience.sample.length && "…"}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="broadcast-time" className="text-xs">Send at</Label>
+                <Input
+                  id="broadcast-time"
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  className="w-56"
+                />
+              </div>
+              <Button onClick={handleCreate} disabled={isCreating}>
+                {isCreating ? <Loader2 className="h-4 w-4 animate-spin mr-1.5" /> : <Send className="h-4 w-4 mr-1.5" />}
+                {scheduledAt ? "Schedule" : "Send now"}
+              </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Leave the time empty to send now. Who gets it is worked out when it goes out.
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">History</CardTitle>
+                <CardDescription className="text-xs">The latest 50 broadcasts and how far each has got</CardDescription>
+              </div>
+              <Button variant="ghost" size="sm" onClick={fetchBroadcasts} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading && broadcasts.length === 0 ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : broadcasts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No broadcasts yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs">Broadcast</TableHead>
+                      <TableHead className="text-xs">Send at</TableHead>
+                      <TableHead className="text-xs">Status</TableHead>
+                      <TableHead className="text-xs">Delivery</TableHead>
+                      <TableHead className="text-xs text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {broadcasts.map((b) => {
+                      const delivered = (b.counts.delivered || 0) + (b.counts.read || 0);
+                      return (
+                        <TableRow key={b.id}>
+                          <TableCell className="text-sm max-w-[220px]">
+                            <p className="font-medium truncate">{b.title}</p>
+                            <p className="text-[10px] text-muted-foreground truncate">
+                              {describeFilters(b.filters as unknown as BroadcastFilters, panchayathNames)}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{formatTime(b.scheduled_at)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={`text-xs capitalize ${STATUS_COLORS[b.status] || ""}`}>
+                              {b.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {b.status === "scheduled" ? "—" : (
+                              <>
+                                {(b.counts.sent || 0) + delivered}/{b.recipient_count} sent
+                                <p className="text-[10px] text-muted-foreground">
+                                  {delivered} delivered · {b.counts.read || 0} read · {b.counts.failed || 0} failed
+                                </p>
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex gap-1 justify-end">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0"
+                                title="Recipients"
+                                onClick={() => openDetails(b.id)}
+                                disabled={loadingDetailsId === b.id || b.status === "scheduled"}
+                              >
+                                {loadingDetailsId === b.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Eye className="h-3.5 w-3.5" />}
+                              </Button>
+                              {(b.status === "scheduled" || b.status === "sending") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 w-7 p-0 text-destructive"
+                                  title="Cancel"
+                                  onClick={() => handleCancel(b.id)}
+                                  disabled={cancellingId === b.id}
+                                >
+                                  <XCircle className="h-3.5 w-3.5" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Recipients */}
+      <Dialog open={!!details} onOpenChange={(open) => !open && setDetails(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{details?.broadcast.title}</DialogTitle>
+            <DialogDescription className="whitespace-pre-wrap text-xs">{details?.broadcast.message}</DialogDescription>
+          </DialogHeader>
+          {details && details.recipients.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No agents matched this broadcast.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Agent</TableHead>
+                    <TableHead className="text-xs">Status</TableHead>
+                    <TableHead className="text-xs">Updated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {details?.recipients.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell className="text-sm">
+                        {r.name}
+                        <p className="text-[10px] text-muted-foreground">{r.mobile}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`text-xs capitalize ${STATUS_COLORS[r.status] || ""}`}>
+                          {r.status}
+                        </Badge>
+                        {r.attempts > 1 && <p className="text-[10px] text-muted-foreground">{r.attempts} attempts</p>}
+                        {r.error && <p className="text-[10px] text-destructive max-w-[200px]">{r.error}</p>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatTime(r.read_at || r.delivered_at || r.sent_at)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
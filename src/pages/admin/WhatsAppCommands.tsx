@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { useAuth } from "@/hooks/useAuth";
 import { Navigate, Link } from "react-router-dom";
@@ -36,6 +36,17 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { SearchableSelect } from "@/components/ui/searchable-select";
+import { AbsenceDigestCard } from "@/components/admin/AbsenceDigestCard";
+import { ALL_ROLES, ROLE_LABELS, type AgentRole } from "@/hooks/usePennyekartAgents";
+import {
+  TEMPLATE_PLACEHOLDERS,
+  fetchTemplateValues,
+  renderTemplate,
+  unknownPlaceholders,
+  type TemplateValues,
+} from "@/lib/botTemplates";
 import {
   MessageSquare,
   Plus,
@@ -44,6 +55,7 @@ import {
   ArrowLeft,
   Loader2,
   Info,
+  Megaphone,
 } from "lucide-react";
 
 interface BotCommand {
@@ -52,6 +64,7 @@ interface BotCommand {
   alt_keyword: string | null;
   label: string;
   response_text: string;
+  allowed_roles: AgentRole[];
   sort_order: number;
   is_active: boolean;
   created_at: string;
@@ -63,19 +76,25 @@ interface CommandFormData {
   alt_keyword: string;
   label: string;
   response_text: string;
+  allowed_roles: AgentRole[];
   sort_order: number;
   is_active: boolean;
 }
 
 const CORE_COMMANDS = [
-  { keyword: "1", label: "Submit daily work log", description: "1 <work details>" },
+  { keyword: "1", label: "Submit daily work log", description: "1 <work details> shops:5 orders:2" },
   { keyword: "2", label: "View reporting person details", description: "2 or status" },
-  { keyword: "3", label: "Register a complaint", description: "3 <complaint details>" },
+  { keyword: "3", label: "Register a complaint", description: "3 <complaint details> → 1 to confirm" },
   { keyword: "4", label: "Check wallet balance", description: "4 or balance" },
   { keyword: "5", label: "Work log absence report (all agents)", description: "5" },
-  { keyword: "6", label: "Coordinator absence report", description: "6 → select panchayath → report" },
-  { keyword: "7", label: "Group Leader absence report", description: "7 → select panchayath → report" },
+  { keyword: "6", label: "Coordinator absence report", description: "6 → reply with a panchayath number, or 6 <number>" },
+  { keyword: "7", label: "Group Leader absence report", description: "7 → reply with a panchayath number, or 7 <number>" },
   { keyword: "8", label: "Show help message", description: "8, help, hi, hello" },
+  { keyword: "reports", label: "Absence report menu", description: "reports → pick a report → pick a panchayath" },
+  { keyword: "0", label: "Go back or cancel in a menu", description: "Menus time out after 10 minutes" },
+  { keyword: "leave", label: "Ask for leave, check or decide requests", description: "leave 20/10 to 22/10 <reason>, leave ?, leaves" },
+  { keyword: "digest", label: "Stop or resume the daily absence digest", description: "digest off, digest on" },
+  { keyword: "lang", label: "Reply in Malayalam or English", description: "lang ml, lang en — also set in the agent form" },
 ];
 
 const emptyForm: CommandFormData = {
@@ -83,6 +102,7 @@ const emptyForm: CommandFormData = {
   alt_keyword: "",
   label: "",
   response_text: "",
+  allowed_roles: [],
   sort_order: 0,
   is_active: true,
 };
@@ -98,6 +118,41 @@ export default function WhatsAppCommands() {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [form, setForm] = useState<CommandFormData>(emptyForm);
   const [saving, setSaving] = useState(false);
+  const responseRef = useRef<HTMLTextAreaElement>(null);
+  // Live preview of the reply, rendered for an agent the admin picks
+  const [previewAgents, setPreviewAgents] = useState<{ value: string; label: string }[]>([]);
+  const [previewAgentId, setPreviewAgentId] = useState("");
+  const [previewValues, setPreviewValues] = useState<TemplateValues | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  useEffect(() => {
+    if (!dialogOpen || previewAgents.length > 0) return;
+    supabase
+      .from("pennyekart_agents")
+      .select("id, name, mobile, role")
+      .eq("is_active", true)
+      .order("name", { ascending: true })
+      .then(({ data }) => {
+        setPreviewAgents(
+          (data || []).map((a) => ({ value: a.id, label: `${a.name} (${ROLE_LABELS[a.role]}, ${a.mobile})` })),
+        );
+      });
+  }, [dialogOpen, previewAgents.length]);
+
+  useEffect(() => {
+    if (!previewAgentId) {
+      setPreviewValues(null);
+      return;
+    }
+    setPreviewLoading(true);
+    fetchTemplateValues(previewAgentId, new Date().toISOString().split("T")[0])
+      .then(setPreviewValues)
+      .catch((err) => {
+        setPreviewValues(null);
+        toast({ title: "Preview failed", description: err.message, variant: "destructive" });
+      })
+      .finally(() => setPreviewLoading(false));
+  }, [previewAgentId, toast]);
 
   if (!isSuperAdmin) return <Navigate to="/unauthorized" replace />;
 
@@ -130,6 +185,7 @@ export default function WhatsAppCommands() {
       alt_keyword: cmd.alt_keyword || "",
       label: cmd.label,
       response_text: cmd.response_text,
+      allowed_roles: cmd.allowed_roles || [],
       sort_order: cmd.sort_order,
       is_active: cmd.is_active,
     });
@@ -142,7 +198,7 @@ export default function WhatsAppCommands() {
       return;
     }
     // Block core keywords
-    const reserved = ["1", "2", "3", "4", "5", "6", "7", "help", "hi", "hello", "status", "balance"];
+    const reserved = ["0", "1", "2", "3", "4", "5", "6", "7", "help", "hi", "hello", "status", "balance", "digest", "leave", "leaves", "reports", "lang", "language"];
     if (!editingId && reserved.includes(form.keyword.trim().toLowerCase())) {
       toast({ title: "Reserved", description: "This keyword is reserved for core commands.", variant: "destructive" });
       return;
@@ -154,6 +210,7 @@ export default function WhatsAppCommands() {
       alt_keyword: form.alt_keyword.trim() || null,
       label: form.label.trim(),
       response_text: form.response_text.trim(),
+      allowed_roles: form.allowed_roles,
       sort_order: form.sort_order,
       is_active: form.is_active,
     };
@@ -175,6 +232,28 @@ export default function WhatsAppCommands() {
     }
   };
 
+  // Puts `{{key}}` where the cursor is in the response text
+  const insertPlaceholder = (key: string) => {
+    const token = `{{${key}}}`;
+    const el = responseRef.current;
+    const start = el?.selectionStart ?? form.response_text.length;
+    const end = el?.selectionEnd ?? start;
+    setForm({ ...form, response_text: form.response_text.slice(0, start) + token + form.response_text.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const toggleRole = (role: AgentRole, checked: boolean) => {
+    setForm({
+      ...form,
+      allowed_roles: checked ? [...form.allowed_roles, role] : form.allowed_roles.filter((r) => r !== role),
+    });
+  };
+
+  const unknown = unknownPlaceholders(form.response_text);
+
   const handleDelete = async () => {
     if (!deletingId) return;
     const { error } = await supabase.from("whatsapp_bot_commands").delete().eq("id", deletingId);
@@ -205,9 +284,14 @@ export default function WhatsAppCommands() {
             </h1>
             <p className="text-sm text-muted-foreground">Manage dynamic WhatsApp bot responses</p>
           </div>
-          <Button onClick={openAdd}>
-            <Plus className="h-4 w-4 mr-1.5" />Add Command
-          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link to="/admin/whatsapp-broadcasts"><Megaphone className="h-4 w-4 mr-1.5" />Broadcasts</Link>
+            </Button>
+            <Button onClick={openAdd}>
+              <Plus className="h-4 w-4 mr-1.5" />Add Command
+            </Button>
+          </div>
         </div>
 
         {/* Core Commands Info */}
@@ -234,6 +318,8 @@ export default function WhatsAppCommands() {
           </CardContent>
         </Card>
 
+        <AbsenceDigestCard />
+
         {/* Custom Commands */}
         <Card>
           <CardHeader className="pb-3">
@@ -267,7 +353,14 @@ export default function WhatsAppCommands() {
                       <TableRow key={cmd.id}>
                         <TableCell className="font-mono text-sm font-medium">{cmd.keyword}</TableCell>
                         <TableCell className="text-sm text-muted-foreground">{cmd.alt_keyword || "—"}</TableCell>
-                        <TableCell className="text-sm">{cmd.label}</TableCell>
+                        <TableCell className="text-sm">
+                          {cmd.label}
+                          {cmd.allowed_roles?.length > 0 && (
+                            <p className="text-[10px] text-muted-foreground">
+                              Only {cmd.allowed_roles.map((r) => ROLE_LABELS[r]).join(", ")}
+                            </p>
+                          )}
+                        </TableCell>
                         <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate hidden sm:table-cell">
                           {cmd.response_text}
                         </TableCell>
@@ -298,7 +391,7 @@ export default function WhatsAppCommands() {
 
       {/* Add/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingId ? "Edit Command" : "Add Command"}</DialogTitle>
           </DialogHeader>
@@ -320,12 +413,70 @@ export default function WhatsAppCommands() {
             <div>
               <Label className="text-xs">Response Text *</Label>
               <Textarea
+                ref={responseRef}
                 placeholder="🎉 *Current Offers*&#10;&#10;• 10% off on all groceries..."
                 value={form.response_text}
                 onChange={(e) => setForm({ ...form, response_text: e.target.value })}
                 rows={5}
               />
-              <p className="text-[10px] text-muted-foreground mt-1">Supports WhatsApp formatting: *bold*, _italic_</p>
+              <p className="text-[10px] text-muted-foreground mt-1">
+                Supports WhatsApp formatting: *bold*, _italic_. Click a placeholder to insert it; it is filled in for the agent who sends the command.
+              </p>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {TEMPLATE_PLACEHOLDERS.map((p) => (
+                  <Badge
+                    key={p.key}
+                    variant="outline"
+                    className="cursor-pointer font-mono text-[10px] hover:bg-muted"
+                    title={p.label}
+                    onClick={() => insertPlaceholder(p.key)}
+                  >
+                    {`{{${p.key}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-[10px] text-destructive mt-1">
+                  Unknown placeholders are sent as written: {unknown.join(", ")}
+                </p>
+              )}
+            </div>
+            <div>
+              <Label className="text-xs">Available to</Label>
+              <div className="grid grid-cols-2 gap-2 mt-1">
+                {ALL_ROLES.map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-xs">
+                    <Checkbox
+                      checked={form.allowed_roles.includes(role)}
+                      onCheckedChange={(v) => toggleRole(role, v === true)}
+                    />
+                    {ROLE_LABELS[role]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground mt-1">
+                {form.allowed_roles.length === 0 ? "Every agent can use it." : "Hidden from help and ignored for other roles."}
+              </p>
+            </div>
+            <div className="space-y-2 rounded border bg-muted/30 p-3">
+              <Label className="text-xs">Preview</Label>
+              <SearchableSelect
+                options={previewAgents}
+                value={previewAgentId}
+                onValueChange={setPreviewAgentId}
+                placeholder="Preview as agent..."
+                searchPlaceholder="Search agents..."
+                emptyText="No agents found."
+              />
+              {previewLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              ) : previewValues ? (
+                <p className="text-sm whitespace-pre-wrap rounded bg-background p-2 border">
+                  {renderTemplate(form.response_text, previewValues) || "—"}
+                </p>
+              ) : (
+                <p className="text-[10px] text-muted-foreground">Pick an agent to see the reply they would get.</p>
+              )}
             </div>
             <div className="grid grid-cols-2 gap-3">
               <div>
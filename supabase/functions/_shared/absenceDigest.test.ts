@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { type DigestSettings, isDigestDue, istTimeOfDay } from "./absenceDigest.ts";
+
+const settings = (overrides: Partial<DigestSettings> = {}): DigestSettings => ({
+  is_enabled: true,
+  send_time: "20:00:00",
+  last_run_date: "2026-03-01",
+  ...overrides,
+});
+
+// 20:00 in India is 14:30 UTC
+const at = (utc: string) => new Date(`2026-03-02T${utc}Z`);
+
+describe("istTimeOfDay", () => {
+  it("gives the India time of day", () => {
+    expect(istTimeOfDay(at("14:30:00"))).toBe("20:00");
+    expect(istTimeOfDay(new Date("2026-03-01T20:15:00Z"))).toBe("01:45");
+  });
+});
+
+describe("isDigestDue", () => {
+  it("is due from the send time onwards", () => {
+    expect(isDigestDue(settings(), "2026-03-02", at("14:29:59"))).toBe(false);
+    expect(isDigestDue(settings(), "2026-03-02", at("14:30:00"))).toBe(true);
+    expect(isDigestDue(settings(), "2026-03-02", at("18:29:00"))).toBe(true);
+  });
+
+  it("accepts send times with or without seconds", () => {
+    expect(isDigestDue(settings({ send_time: "19:45" }), "2026-03-02", at("14:15:00"))).toBe(true);
+    expect(isDigestDue(settings({ send_time: "20:01" }), "2026-03-02", at("14:30:00"))).toBe(false);
+  });
+
+  it("goes out once a day", () => {
+    expect(isDigestDue(settings({ last_run_date: "2026-03-02" }), "2026-03-02", at("15:00:00"))).toBe(false);
+    expect(isDigestDue(settings({ last_run_date: null }), "2026-03-02", at("15:00:00"))).toBe(true);
+  });
+
+  it("is never due while turned off", () => {
+    expect(isDigestDue(settings({ is_enabled: false }), "2026-03-02", at("15:00:00"))).toBe(false);
+  });
+});
@@ -0,0 +1,305 @@
+// Daily absence digests sent by absence-digest.
+//
+// Every active Team Leader and Coordinator gets the active agents in their own
+// subtree who have no work log for the day; admins who manage agents get the
+// same day summarised by panchayath. whatsapp-worklog answers the on-demand
+// versions of these reports (commands 5, 6 and 7). Agents who are off for the
+// day (see workCalendar.ts) are not counted, and nothing is sent on a weekly
+// off day or a holiday everywhere. Recipients are matched to opt-outs by the
+// last 10 digits of their number, and every recipient, sent or not, is written
+// to absence_digest_sends.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { teamOf } from "./agentHierarchy.ts";
+import { normalizePhone } from "./customerAttribution.ts";
+import type { RankAgent } from "./rankEngine.ts";
+import { globalOffReason, loadWorkCalendar, offReason, type WorkCalendar } from "./workCalendar.ts";
+import { type SendOptions, sendWhatsAppText, type WhatsAppSendResult } from "./whatsapp.ts";
+
+export interface DigestAgent extends RankAgent {
+  name: string;
+  mobile: string;
+  panchayath_id: string;
+  is_active: boolean;
+  panchayath: { name: string } | null;
+}
+
+export interface DigestAdmin {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+}
+
+export interface DigestSettings {
+  is_enabled: boolean;
+  /** India time, "HH:MM" or "HH:MM:SS". */
+  send_time: string;
+  last_run_date: string | null;
+}
+
+export type RecipientKind = "team_leader" | "coordinator" | "admin";
+
+export interface DigestMessage {
+  kind: RecipientKind;
+  recipient_id: string;
+  name: string;
+  mobile: string;
+  absent_count: number;
+  message: string;
+}
+
+export type SendStatus = "sent" | "failed" | "opted_out";
+
+export interface DigestSend {
+  run_date: string;
+  recipient_kind: RecipientKind;
+  recipient_id: string;
+  recipient_name: string;
+  mobile: string;
+  absent_count: number;
+  status: SendStatus;
+  error: string | null;
+}
+
+export interface DigestRunSummary {
+  run_date: string;
+  sent: number;
+  failed: number;
+  opted_out: number;
+}
+
+export const DIGEST_ROLES: RecipientKind[] = ["team_leader", "coordinator"];
+
+const ROLE_LABELS: Record<string, string> = {
+  team_leader: "Team Leader",
+  coordinator: "Coordinator",
+  group_leader: "Group Leader",
+  pro: "PRO",
+};
+
+// Twilio rejects WhatsApp bodies over 1600 characters; leave room for the footer.
+const MAX_BODY = 1450;
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+const OPT_OUT_FOOTER = "\n\nReply *digest off* to stop these messages.";
+
+/** The India time of day at `now`, as "HH:MM". */
+export function istTimeOfDay(now: Date): string {
+  return new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(11, 16);
+}
+
+/** Whether the day's digest should go out: enabled, past send_time and not yet sent today. */
+export function isDigestDue(settings: DigestSettings, today: string, now: Date): boolean {
+  if (!settings.is_enabled || settings.last_run_date === today) return false;
+  return istTimeOfDay(now) >= settings.send_time.slice(0, 5);
+}
+
+/** Adds `lines` to `msg` while it stays under the body limit, then notes how many were left out. */
+function appendWithin(msg: string, lines: string[]): string {
+  let shown = 0;
+  for (const line of lines) {
+    if (msg.length + line.length > MAX_BODY) break;
+    msg += line;
+    shown++;
+  }
+  if (shown < lines.length) msg += `\n...+${lines.length - shown} more`;
+  return msg;
+}
+
+/** Active agents expected to log work on `date`, and how many more are off. */
+function workingAgents(agents: DigestAgent[], submitted: Set<string>, calendar: WorkCalendar, date: string) {
+  const active = agents.filter((a) => a.is_active && a.role !== "scode");
+  const working = active.filter((a) => submitted.has(a.id) || !offReason(calendar, a, date));
+  return { working, off: active.length - working.length };
+}
+
+/** One digest per active Team Leader and Coordinator with someone in their team working that day. */
+export function buildAgentDigests(
+  agents: DigestAgent[],
+  submitted: Set<string>,
+  calendar: WorkCalendar,
+  date: string,
+): DigestMessage[] {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  const digests: DigestMessage[] = [];
+
+  for (const recipient of agents) {
+    if (!recipient.is_active || !DIGEST_ROLES.includes(recipient.role as RecipientKind)) continue;
+    const { working: team, off } = workingAgents(
+      [...teamOf(recipient.id, agents)].map((id) => byId.get(id)!),
+      submitted,
+      calendar,
+      date,
+    );
+    if (team.length === 0) continue;
+
+    const absent = team.filter((a) => !submitted.has(a.id));
+    const rate = Math.round(((team.length - absent.length) / team.length) * 100);
+    let msg = `📊 *Daily Work Log Digest — ${date}*\n👤 ${recipient.name} (${ROLE_LABELS[recipient.role]})\n`;
+    msg += `\n✅ Submitted: ${team.length - absent.length}/${team.length} (${rate}%)\n❌ Absent: ${absent.length}\n`;
+    if (off > 0) msg += `🏖️ On leave / holiday: ${off}\n`;
+    if (absent.length === 0) {
+      msg += `\n🎉 Everyone in your team has logged their work today.`;
+    } else {
+      msg += `\n❌ *Absent:*`;
+      msg = appendWithin(msg, absent.map((a) => `\n• ${a.name} (${ROLE_LABELS[a.role] || a.role}) — ${a.mobile}`));
+    }
+
+    digests.push({
+      kind: recipient.role as RecipientKind,
+      recipient_id: recipient.id,
+      name: recipient.name,
+      mobile: recipient.mobile,
+      absent_count: absent.length,
+      message: msg + OPT_OUT_FOOTER,
+    });
+  }
+  return digests;
+}
+
+/** The day across all active agents, one line per panchayath, most absences first. */
+export function buildPanchayathSummary(
+  agents: DigestAgent[],
+  submitted: Set<string>,
+  calendar: WorkCalendar,
+  date: string,
+) {
+  const { working, off } = workingAgents(agents, submitted, calendar, date);
+  const byPanchayath = new Map<string, { name: string; total: number; absent: number }>();
+  for (const a of working) {
+    const row = byPanchayath.get(a.panchayath_id) || { name: a.panchayath?.name || "Unknown", total: 0, absent: 0 };
+    row.total++;
+    if (!submitted.has(a.id)) row.absent++;
+    byPanchayath.set(a.panchayath_id, row);
+  }
+
+  const absentCount = working.filter((a) => !submitted.has(a.id)).length;
+  const rate = working.length > 0 ? Math.round(((working.length - absentCount) / working.length) * 100) : 0;
+  let msg = `📊 *Daily Work Log Summary — ${date}*\n`;
+  msg += `\n✅ Submitted: ${working.length - absentCount}/${working.length} (${rate}%)\n❌ Absent: ${absentCount}\n`;
+  if (off > 0) msg += `🏖️ On leave / holiday: ${off}\n`;
+
+  const rows = [...byPanchayath.values()]
+    .filter((r) => r.absent > 0)
+    .sort((a, b) => b.absent - a.absent || a.name.localeCompare(b.name));
+  if (rows.length > 0) {
+    msg += `\n📍 *Absent by panchayath:*`;
+    msg = appendWithin(msg, rows.map((r) => `\n• ${r.name} — ${r.absent}/${r.total}`));
+  }
+  return { message: msg + OPT_OUT_FOOTER, absent_count: absentCount };
+}
+
+export async function loadDigestAgents(supabase: SupabaseClient): Promise<DigestAgent[]> {
+  const agents: DigestAgent[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("pennyekart_agents")
+      .select("id, name, mobile, role, parent_agent_id, customer_count, panchayath_id, is_active, panchayath:panchayaths(name)")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    agents.push(...((data || []) as unknown as DigestAgent[]));
+    if (!data || data.length < PAGE_SIZE) return agents;
+  }
+}
+
+/** Admins who manage agents and have a phone number. */
+export async function loadDigestAdmins(supabase: SupabaseClient): Promise<DigestAdmin[]> {
+  const { data, error } = await supabase
+    .from("admins")
+    .select("id, full_name, phone")
+    .eq("is_active", true)
+    .not("phone", "is", null)
+    .contains("capabilities", ["agents:manage"]);
+  if (error) throw error;
+  return (data || []) as DigestAdmin[];
+}
+
+/** Last 10 digits of every opted-out number. */
+export async function loadOptOuts(supabase: SupabaseClient): Promise<Set<string>> {
+  const { data, error } = await supabase.from("absence_digest_opt_outs").select("mobile");
+  if (error) throw error;
+  return new Set((data || []).map((r: { mobile: string }) => r.mobile));
+}
+
+async function loadSubmittedIds(supabase: SupabaseClient, date: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("agent_work_logs")
+      .select("agent_id")
+      .eq("work_date", date)
+      .order("agent_id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) ids.add(row.agent_id);
+    if (!data || data.length < PAGE_SIZE) return ids;
+  }
+}
+
+/** Builds and sends the digests for `date`, and logs every recipient. */
+export async function runAbsenceDigest(
+  supabase: SupabaseClient,
+  date: string,
+  send: (mobile: string, message: string, options?: SendOptions) => Promise<WhatsAppSendResult> = sendWhatsAppText,
+): Promise<DigestRunSummary> {
+  const summary: DigestRunSummary = { run_date: date, sent: 0, failed: 0, opted_out: 0 };
+  const calendar = await loadWorkCalendar(supabase, date, date);
+  if (globalOffReason(calendar, date)) return summary;
+
+  const [agents, admins, submitted, optOuts] = await Promise.all([
+    loadDigestAgents(supabase),
+    loadDigestAdmins(supabase),
+    loadSubmittedIds(supabase, date),
+    loadOptOuts(supabase),
+  ]);
+
+  const messages = buildAgentDigests(agents, submitted, calendar, date);
+  if (admins.length > 0) {
+    const adminSummary = buildPanchayathSummary(agents, submitted, calendar, date);
+    for (const admin of admins) {
+      messages.push({
+        kind: "admin",
+        recipient_id: admin.id,
+        name: admin.full_name || "Admin",
+        mobile: admin.phone!,
+        absent_count: adminSummary.absent_count,
+        message: adminSummary.message,
+      });
+    }
+  }
+
+  const log: DigestSend[] = [];
+  for (const m of messages) {
+    const mobile = normalizePhone(m.mobile);
+    let status: SendStatus;
+    let error: string | null = null;
+    if (!mobile) {
+      status = "failed";
+      error = "Invalid mobile number";
+    } else if (optOuts.has(mobile)) {
+      status = "opted_out";
+    } else {
+      const result = await send(mobile, m.message, { template: { purpose: "absence_digest", params: [m.message] } });
+      status = result.ok ? "sent" : "failed";
+      if (!result.ok) error = result.error;
+    }
+    summary[status]++;
+    log.push({
+      run_date: date,
+      recipient_kind: m.kind,
+      recipient_id: m.recipient_id,
+      recipient_name: m.name,
+      mobile: mobile || m.mobile,
+      absent_count: m.absent_count,
+      status,
+      error,
+    });
+  }
+
+  for (let i = 0; i < log.length; i += PAGE_SIZE) {
+    const { error } = await supabase.from("absence_digest_sends").insert(log.slice(i, i + PAGE_SIZE));
+    if (error) throw error;
+  }
+  return summary;
+}
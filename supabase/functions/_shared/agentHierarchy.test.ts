@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { MoveError, planExit, planMove } from "./agentHierarchy.ts";
+import type { AgentRole, RankAgent } from "./rankEngine.ts";
+
+const agent = (id: string, role: AgentRole, parent: string | null): RankAgent => ({
+  id,
+  role,
+  parent_agent_id: parent,
+  customer_count: 0,
+});
+
+// tl1 ─ c1 ─ g1 ─ p1, p2
+//     │    └ g2 ─ p3
+//     └ c2 ─ g3
+// tl2 ─ c3
+const AGENTS = [
+  agent("tl1", "team_leader", null),
+  agent("tl2", "team_leader", null),
+  agent("c1", "coordinator", "tl1"),
+  agent("c2", "coordinator", "tl1"),
+  agent("c3", "coordinator", "tl2"),
+  agent("g1", "group_leader", "c1"),
+  agent("g2", "group_leader", "c1"),
+  agent("g3", "group_leader", "c2"),
+  agent("p1", "pro", "g1"),
+  agent("p2", "pro", "g1"),
+  agent("p3", "pro", "g2"),
+];
+
+const refused = (plan: () => unknown, message: string) => {
+  expect(plan).toThrow(MoveError);
+  expect(plan).toThrow(message);
+};
+
+describe("planMove", () => {
+  it("moves an agent with their whole team", () => {
+    expect(planMove(AGENTS, { agent_id: "c1", new_parent_id: "tl2", with_team: true })).toEqual({
+      changes: [{ agent_id: "c1", parent_agent_id: "tl2" }],
+      moved_count: 6,
+      reports_moved: 0,
+    });
+  });
+
+  it("hands direct reports to another agent of the same role when the team stays", () => {
+    expect(
+      planMove(AGENTS, { agent_id: "g1", new_parent_id: "c2", with_team: false, reports_to_id: "g2" }),
+    ).toEqual({
+      changes: [
+        { agent_id: "p1", parent_agent_id: "g2" },
+        { agent_id: "p2", parent_agent_id: "g2" },
+        { agent_id: "g1", parent_agent_id: "c2" },
+      ],
+      moved_count: 1,
+      reports_moved: 2,
+    });
+  });
+
+  it("only hands over reports when the agent stays where they are", () => {
+    expect(
+      planMove(AGENTS, { agent_id: "g1", new_parent_id: "c1", with_team: false, reports_to_id: "g3" }).changes,
+    ).toEqual([
+      { agent_id: "p1", parent_agent_id: "g3" },
+      { agent_id: "p2", parent_agent_id: "g3" },
+    ]);
+  });
+
+  it("requires the parent to hold the role directly above", () => {
+    refused(
+      () => planMove(AGENTS, { agent_id: "p1", new_parent_id: "c1", with_team: true }),
+      "A PRO must report to a Group Leader, not a Coordinator",
+    );
+    refused(
+      () => planMove(AGENTS, { agent_id: "tl1", new_parent_id: "tl2", with_team: true }),
+      "A Team Leader does not report to anyone",
+    );
+    refused(
+      () => planMove(AGENTS, { agent_id: "c1", new_parent_id: null, with_team: true }),
+      "A Coordinator must report to a Team Leader",
+    );
+  });
+
+  it("refuses unknown agents and parents", () => {
+    refused(() => planMove(AGENTS, { agent_id: "nobody", new_parent_id: "tl1", with_team: true }), "Agent not found");
+    refused(() => planMove(AGENTS, { agent_id: "c1", new_parent_id: "nobody", with_team: true }), "New parent not found");
+  });
+
+  it("refuses a move that changes nothing", () => {
+    refused(
+      () => planMove(AGENTS, { agent_id: "c1", new_parent_id: "tl1", with_team: true }),
+      "The agent already reports there",
+    );
+  });
+
+  it("needs someone outside the team, of the same role, to take the reports", () => {
+    refused(
+      () => planMove(AGENTS, { agent_id: "g1", new_parent_id: "c2", with_team: false }),
+      "Choose who the agent's direct reports should move to",
+    );
+    refused(
+      () => planMove(AGENTS, { agent_id: "c1", new_parent_id: "tl2", with_team: false, reports_to_id: "g1" }),
+      "Direct reports cannot move to someone in the agent's own team",
+    );
+    refused(
+      () => planMove(AGENTS, { agent_id: "g1", new_parent_id: "c2", with_team: false, reports_to_id: "c3" }),
+      "Direct reports can only move to another Group Leader",
+    );
+  });
+
+  it("refuses a move into the agent's own team, even in a tree with mixed-up roles", () => {
+    const legacy = [...AGENTS, agent("c9", "coordinator", "p3")];
+    refused(
+      () => planMove(legacy, { agent_id: "tl1", new_parent_id: null, with_team: true }),
+      "The agent already reports there",
+    );
+    const looped = legacy.map((a) => (a.id === "tl1" ? { ...a, role: "group_leader" as const, parent_agent_id: "tl2" } : a));
+    refused(
+      () => planMove(looped, { agent_id: "tl1", new_parent_id: "c9", with_team: true }),
+      "This move would make an agent report to their own team",
+    );
+  });
+});
+
+describe("planExit", () => {
+  it("hands the leaver's reports to a peer", () => {
+    expect(planExit(AGENTS, { agent_id: "c1", successor_id: "c3", promote: false })).toEqual({
+      reports_moved: 2,
+      team_size: 5,
+    });
+  });
+
+  it("promotes a direct report, whose own reports go to a backfill", () => {
+    expect(planExit(AGENTS, { agent_id: "c1", successor_id: "g1", promote: true, backfill_id: "g2" })).toEqual({
+      reports_moved: 1,
+      team_size: 5,
+    });
+  });
+
+  it("lets an agent without reports leave without a successor", () => {
+    expect(planExit(AGENTS, { agent_id: "p1", successor_id: null, promote: false })).toEqual({
+      reports_moved: 0,
+      team_size: 0,
+    });
+    refused(
+      () => planExit(AGENTS, { agent_id: "g1", successor_id: null, promote: false }),
+      "Choose a successor for the agent's direct reports",
+    );
+  });
+
+  it("requires a peer successor of the same role from outside the team", () => {
+    refused(
+      () => planExit(AGENTS, { agent_id: "c1", successor_id: "tl2", promote: false }),
+      "The successor must be another Coordinator",
+    );
+    refused(
+      () => planExit(AGENTS, { agent_id: "c1", successor_id: "c1", promote: false }),
+      "An agent cannot succeed themselves",
+    );
+    refused(() => planExit(AGENTS, { agent_id: "c1", successor_id: "c9", promote: false }), "Successor not found");
+    refused(() => planExit(AGENTS, { agent_id: "c9", successor_id: "c1", promote: false }), "Agent not found");
+  });
+
+  it("promotes only the leaver's direct reports", () => {
+    refused(
+      () => planExit(AGENTS, { agent_id: "c1", successor_id: "g3", promote: true }),
+      "Only one of the agent's direct reports can be promoted in their place",
+    );
+  });
+
+  it("needs a backfill of the promoted agent's role for their own reports", () => {
+    refused(
+      () => planExit(AGENTS, { agent_id: "c1", successor_id: "g1", promote: true }),
+      "Choose who takes over the promoted Group Leader's direct reports",
+    );
+    for (const backfill_id of ["g1", "c1", "c3"]) {
+      refused(
+        () => planExit(AGENTS, { agent_id: "c1", successor_id: "g1", promote: true, backfill_id }),
+        "Their direct reports can only move to another Group Leader",
+      );
+    }
+  });
+
+  it("refuses a handover that would make someone report to their own team", () => {
+    const legacy = [...AGENTS, agent("c9", "coordinator", "p3")];
+    refused(
+      () => planExit(legacy, { agent_id: "c1", successor_id: "c9", promote: false }),
+      "The successor cannot be in the agent's own team",
+    );
+    // c3 and g5 report to each other; g4 would take c3's place under g5 while g5 moves under g4
+    const looped = [
+      ...AGENTS.map((a) => (a.id === "c3" ? { ...a, parent_agent_id: "g5" } : a)),
+      agent("g4", "group_leader", "c3"),
+      agent("g5", "group_leader", "c3"),
+    ];
+    refused(
+      () => planExit(looped, { agent_id: "c3", successor_id: "g4", promote: true }),
+      "This handover would make an agent report to their own team",
+    );
+  });
+});
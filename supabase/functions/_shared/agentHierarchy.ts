@@ -0,0 +1,265 @@
+// Re-parenting in the agent hierarchy, used by pennyekart-agents.
+//
+// Every agent below the top level reports to an agent of the role directly
+// above its own (a PRO to a Group Leader, and so on), so a valid tree can
+// never contain a cycle; moves are still checked for both, since older rows
+// were edited without either check. A move is planned in memory first, which
+// is also how its effect on ranks is previewed. Exits (an agent leaving and
+// handing over to a successor) are checked the same way.
+import { type AgentRank, computeRanks, type RankAgent, type RankRules } from "./rankEngine.ts";
+
+export const ROLE_HIERARCHY = ["team_leader", "coordinator", "group_leader", "pro"] as const;
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin_partner: "Super Admin / Business Partner",
+  team_leader: "Team Leader",
+  coordinator: "Coordinator",
+  group_leader: "Group Leader",
+  pro: "PRO",
+};
+
+const label = (role: string) => ROLE_LABELS[role] ?? role;
+
+/** The role an agent of `role` reports to, or null for top-level roles. */
+export function parentRoleOf(role: string): string | null {
+  const index = ROLE_HIERARCHY.indexOf(role as typeof ROLE_HIERARCHY[number]);
+  return index > 0 ? ROLE_HIERARCHY[index - 1] : null;
+}
+
+/** The role that reports to `role`, or null for PROs and roles outside the chain. */
+export function childRoleOf(role: string): string | null {
+  const index = ROLE_HIERARCHY.indexOf(role as typeof ROLE_HIERARCHY[number]);
+  return index >= 0 && index < ROLE_HIERARCHY.length - 1 ? ROLE_HIERARCHY[index + 1] : null;
+}
+
+export interface MoveRequest {
+  agent_id: string;
+  new_parent_id: string | null;
+  /** Move the agent's whole team with them, or leave it behind. */
+  with_team: boolean;
+  /** Who the agent's direct reports move to when the team stays behind. */
+  reports_to_id?: string | null;
+}
+
+export interface ParentChange {
+  agent_id: string;
+  parent_agent_id: string | null;
+}
+
+export interface MovePlan {
+  changes: ParentChange[];
+  /** The agent plus everyone who moves with them. */
+  moved_count: number;
+  /** Direct reports handed over to another agent when the team stays behind. */
+  reports_moved: number;
+}
+
+/** Thrown with a message suitable for the user when a move is not allowed. */
+export class MoveError extends Error {}
+
+/** Everyone below an agent, however deep. */
+export function teamOf(agentId: string, agents: RankAgent[]): Set<string> {
+  const children = new Map<string, string[]>();
+  for (const a of agents) {
+    if (!a.parent_agent_id || a.parent_agent_id === a.id) continue;
+    const list = children.get(a.parent_agent_id);
+    if (list) list.push(a.id);
+    else children.set(a.parent_agent_id, [a.id]);
+  }
+  const team = new Set<string>();
+  const queue = [agentId];
+  while (queue.length) {
+    for (const child of children.get(queue.shift()!) || []) {
+      if (team.has(child) || child === agentId) continue;
+      team.add(child);
+      queue.push(child);
+    }
+  }
+  return team;
+}
+
+/** True if following parents up from `agentId` comes back to it. */
+function reportsToItself(agentId: string, parents: Map<string, string | null>): boolean {
+  const seen = new Set<string>();
+  let current = parents.get(agentId) ?? null;
+  while (current) {
+    if (current === agentId) return true;
+    if (seen.has(current)) return false; // a cycle further up, not through this agent
+    seen.add(current);
+    current = parents.get(current) ?? null;
+  }
+  return false;
+}
+
+function checkParent(byId: Map<string, RankAgent>, agentId: string, role: string, parentId: string | null) {
+  const parentRole = parentRoleOf(role);
+  if (parentId) {
+    const parent = byId.get(parentId);
+    if (!parent) throw new MoveError("New parent not found");
+    if (parent.id === agentId) throw new MoveError("An agent cannot report to themselves");
+    if (parent.role !== parentRole) {
+      throw new MoveError(
+        parentRole
+          ? `A ${label(role)} must report to a ${label(parentRole)}, not a ${label(parent.role)}`
+          : `A ${label(role)} does not report to anyone`,
+      );
+    }
+  } else if (parentRole) {
+    throw new MoveError(`A ${label(role)} must report to a ${label(parentRole)}`);
+  }
+}
+
+/**
+ * Checks an agent edit that changes its role or parent: the parent must hold
+ * the role above, existing direct reports must hold the role below, and the
+ * agent must not end up reporting to its own team.
+ */
+export function checkPlacement(agents: RankAgent[], agentId: string, role: string, parentId: string | null) {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  checkParent(byId, agentId, role, parentId);
+
+  const childRole = childRoleOf(role);
+  const misplaced = agents.filter((a) => a.parent_agent_id === agentId && a.id !== agentId && a.role !== childRole);
+  if (misplaced.length > 0) {
+    throw new MoveError(
+      `${misplaced.length} direct report(s) cannot report to a ${label(role)}; move them first`,
+    );
+  }
+
+  const parents = new Map(agents.map((a) => [a.id, a.parent_agent_id]));
+  parents.set(agentId, parentId);
+  if (reportsToItself(agentId, parents)) throw new MoveError("An agent cannot report to their own team");
+}
+
+/** Checks a move against roles and acyclicity and works out the parent changes it makes. */
+export function planMove(agents: RankAgent[], move: MoveRequest): MovePlan {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  const agent = byId.get(move.agent_id);
+  if (!agent) throw new MoveError("Agent not found");
+  checkParent(byId, agent.id, agent.role, move.new_parent_id);
+
+  const team = teamOf(agent.id, agents);
+  const directReports = agents.filter((a) => a.parent_agent_id === agent.id && a.id !== agent.id);
+  const changes: ParentChange[] = [];
+
+  if (!move.with_team && directReports.length > 0) {
+    const heir = move.reports_to_id ? byId.get(move.reports_to_id) : null;
+    if (!heir) throw new MoveError("Choose who the agent's direct reports should move to");
+    if (heir.id === agent.id || team.has(heir.id)) {
+      throw new MoveError("Direct reports cannot move to someone in the agent's own team");
+    }
+    if (heir.role !== agent.role) throw new MoveError(`Direct reports can only move to another ${label(agent.role)}`);
+    for (const report of directReports) changes.push({ agent_id: report.id, parent_agent_id: heir.id });
+  }
+  if ((agent.parent_agent_id ?? null) !== move.new_parent_id) {
+    changes.push({ agent_id: agent.id, parent_agent_id: move.new_parent_id });
+  }
+  if (changes.length === 0) throw new MoveError("The agent already reports there");
+
+  const parents = new Map(agents.map((a) => [a.id, a.parent_agent_id]));
+  for (const change of changes) parents.set(change.agent_id, change.parent_agent_id);
+  if (changes.some((c) => reportsToItself(c.agent_id, parents))) {
+    throw new MoveError("This move would make an agent report to their own team");
+  }
+
+  return {
+    changes,
+    moved_count: move.with_team ? team.size + 1 : 1,
+    reports_moved: move.with_team ? 0 : directReports.length,
+  };
+}
+
+export interface RankChange {
+  agent_id: string;
+  role: string;
+  before: Pick<AgentRank, "is_full" | "current_count" | "required_count">;
+  after: Pick<AgentRank, "is_full" | "current_count" | "required_count">;
+}
+
+/** Agents whose rank count or full-rank status would change if the plan were applied. */
+export function rankImpact(agents: RankAgent[], plan: MovePlan, rules: RankRules): RankChange[] {
+  const parentOf = new Map(plan.changes.map((c) => [c.agent_id, c.parent_agent_id]));
+  const moved = agents.map((a) => (parentOf.has(a.id) ? { ...a, parent_agent_id: parentOf.get(a.id)! } : a));
+  const before = computeRanks(agents, rules);
+  const after = computeRanks(moved, rules);
+
+  const pick = ({ is_full, current_count, required_count }: AgentRank) => ({ is_full, current_count, required_count });
+  const changes: RankChange[] = [];
+  for (const [id, next] of after) {
+    const prev = before.get(id);
+    if (!prev || (prev.is_full === next.is_full && prev.current_count === next.current_count)) continue;
+    changes.push({ agent_id: id, role: next.role, before: pick(prev), after: pick(next) });
+  }
+  return changes;
+}
+
+export interface ExitRequest {
+  agent_id: string;
+  /** Who takes over; may be omitted only when the leaver has no direct reports. */
+  successor_id: string | null;
+  /** The successor is one of the leaver's direct reports, promoted into their role. */
+  promote: boolean;
+  /** Who takes over a promoted successor's own direct reports. */
+  backfill_id?: string | null;
+}
+
+export interface ExitPlan {
+  /** Direct reports that move to the successor. */
+  reports_moved: number;
+  /** Everyone below the leaver. */
+  team_size: number;
+}
+
+/** Checks a successor choice against roles and acyclicity. */
+export function planExit(agents: RankAgent[], exit: ExitRequest): ExitPlan {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  const leaver = byId.get(exit.agent_id);
+  if (!leaver) throw new MoveError("Agent not found");
+  const team = teamOf(leaver.id, agents);
+  const reportsOf = (id: string) => agents.filter((a) => a.parent_agent_id === id && a.id !== id);
+  const directReports = reportsOf(leaver.id);
+
+  if (!exit.successor_id) {
+    if (directReports.length > 0) throw new MoveError("Choose a successor for the agent's direct reports");
+    return { reports_moved: 0, team_size: team.size };
+  }
+
+  const successor = byId.get(exit.successor_id);
+  if (!successor) throw new MoveError("Successor not found");
+  if (successor.id === leaver.id) throw new MoveError("An agent cannot succeed themselves");
+
+  const parents = new Map(agents.map((a) => [a.id, a.parent_agent_id]));
+  const changed: string[] = [];
+  if (exit.promote) {
+    if (successor.parent_agent_id !== leaver.id) {
+      throw new MoveError("Only one of the agent's direct reports can be promoted in their place");
+    }
+    const ownReports = reportsOf(successor.id);
+    if (ownReports.length > 0) {
+      const backfill = exit.backfill_id ? byId.get(exit.backfill_id) : null;
+      if (!backfill) throw new MoveError(`Choose who takes over the promoted ${label(successor.role)}'s direct reports`);
+      if (backfill.id === successor.id || backfill.id === leaver.id || backfill.role !== successor.role) {
+        throw new MoveError(`Their direct reports can only move to another ${label(successor.role)}`);
+      }
+      for (const report of ownReports) {
+        parents.set(report.id, backfill.id);
+        changed.push(report.id);
+      }
+    }
+    parents.set(successor.id, leaver.parent_agent_id);
+    changed.push(successor.id);
+  } else {
+    if (successor.role !== leaver.role) throw new MoveError(`The successor must be another ${label(leaver.role)}`);
+    if (team.has(successor.id)) throw new MoveError("The successor cannot be in the agent's own team");
+  }
+
+  const moving = directReports.filter((a) => a.id !== successor.id);
+  for (const report of moving) {
+    parents.set(report.id, successor.id);
+    changed.push(report.id);
+  }
+  if (changed.some((id) => reportsToItself(id, parents))) {
+    throw new MoveError("This handover would make an agent report to their own team");
+  }
+  return { reports_moved: moving.length, team_size: team.size };
+}
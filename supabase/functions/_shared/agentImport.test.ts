@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { type ExistingAgent, type NewAgentRow, type PanchayathRef, prepareAgentBatch } from "./agentImport.ts";
+
+const PANCHAYATHS: PanchayathRef[] = [
+  { id: "pn-1", name: "Kodur", ward: "12" },
+  { id: "pn-2", name: "Ponmala", ward: null },
+];
+
+const EXISTING: ExistingAgent[] = [
+  {
+    id: "tl-1",
+    name: "Rasheed",
+    mobile: "9000000001",
+    role: "team_leader",
+    panchayath_id: "pn-1",
+    responsible_wards: null,
+    is_active: true,
+  },
+  {
+    id: "c-1",
+    name: "Fathima",
+    mobile: "9000000002",
+    role: "coordinator",
+    panchayath_id: "pn-1",
+    responsible_wards: ["1", "2"],
+    is_active: true,
+  },
+  {
+    id: "c-2",
+    name: "Left",
+    mobile: "9000000003",
+    role: "coordinator",
+    panchayath_id: "pn-1",
+    responsible_wards: ["3"],
+    is_active: false,
+  },
+];
+
+const ids = () => {
+  let n = 0;
+  return () => `new-${++n}`;
+};
+
+const prepare = (rows: NewAgentRow[], existing = EXISTING) => prepareAgentBatch(rows, existing, PANCHAYATHS, ids());
+const issuesOf = (rows: NewAgentRow[], existing = EXISTING) => prepare(rows, existing).report.map((r) => r.issues);
+
+const coordinator = (name: string, mobile: string, wards: string[]): NewAgentRow => ({
+  name,
+  mobile,
+  role: "coordinator",
+  panchayath_name: "kodur",
+  ward: "4",
+  parent_mobile: "9000000001",
+  responsible_wards: wards,
+});
+
+describe("prepareAgentBatch", () => {
+  it("resolves panchayaths by name and parents from the batch", () => {
+    const { report, records } = prepare([
+      { name: "Group Leader", mobile: "9111111112", role: "group_leader", panchayath_name: "Kodur", ward: "5", parent_mobile: "9111111111" },
+      coordinator(" Coordinator ", "9111111111", ["4", "5", "4"]),
+    ]);
+    expect(report.map((r) => r.issues)).toEqual([[], []]);
+    expect(report[0]).toMatchObject({ panchayath_name: "Kodur", parent_name: "Coordinator" });
+    expect(records[0]).toMatchObject({ id: "new-1", parent_agent_id: "new-2", panchayath_id: "pn-1", ward: "5" });
+    expect(records[1]).toMatchObject({
+      id: "new-2",
+      name: "Coordinator",
+      parent_agent_id: "tl-1",
+      responsible_wards: ["4", "5"],
+      customer_count: 0,
+      is_active: true,
+    });
+  });
+
+  it("gives top-level agents their own panchayath unless others are listed", () => {
+    const { report, records } = prepare([
+      { name: "Partner", mobile: "9111111111", role: "super_admin_partner", panchayath_id: "pn-2" },
+      {
+        name: "Leader",
+        mobile: "9111111112",
+        role: "team_leader",
+        panchayath_id: "pn-1",
+        responsible_panchayath_names: ["Ponmala", "Kodur", "Nowhere"],
+      },
+    ]);
+    expect(records[0]).toMatchObject({ responsible_panchayath_ids: ["pn-2"], ward: "N/A", parent_agent_id: null });
+    expect(records[1]).toMatchObject({ responsible_panchayath_ids: ["pn-2", "pn-1"] });
+    expect(report[1].issues).toEqual(['Unknown responsible panchayath "Nowhere"']);
+  });
+
+  it("checks names, mobiles, roles and panchayaths", () => {
+    expect(
+      issuesOf([
+        { name: "A", mobile: "12345", role: "manager" },
+        { name: "Repeat", mobile: "9111111111", role: "team_leader", panchayath_name: "Atlantis" },
+        { name: "Repeat", mobile: "9111111111", role: "team_leader", panchayath_id: "pn-1" },
+        { name: "Taken", mobile: "9000000002", role: "team_leader", panchayath_id: "pn-1" },
+      ]),
+    ).toEqual([
+      [
+        "Name must be at least 2 characters",
+        "Mobile must be 10 digits",
+        'Unknown role "manager"',
+        "Panchayath is required",
+        "Ward is required",
+      ],
+      ["Mobile repeated on row(s) 3", 'Unknown panchayath "Atlantis"'],
+      ["Mobile repeated on row(s) 2"],
+      ["Mobile already belongs to Fathima (Coordinator)"],
+    ]);
+  });
+
+  it("checks wards against the panchayath's ward count", () => {
+    expect(
+      issuesOf([
+        { name: "No Ward", mobile: "9111111111", role: "pro", panchayath_id: "pn-1", parent_agent_id: "c-1" },
+        { name: "Far Ward", mobile: "9111111112", role: "pro", panchayath_id: "pn-1", ward: "13" },
+        { name: "Any Ward", mobile: "9111111113", role: "pro", panchayath_id: "pn-2", ward: "99" },
+      ]).map((issues) => issues.filter((i) => i.toLowerCase().includes("ward"))),
+    ).toEqual([["Ward is required"], ["Ward 13 is not one of Kodur's 12 wards"], []]);
+  });
+
+  it("checks each row reports to the role directly above", () => {
+    expect(
+      issuesOf([
+        { name: "Pro", mobile: "9111111111", role: "pro", panchayath_id: "pn-1", ward: "1", parent_mobile: "9000000001" },
+        { name: "Orphan", mobile: "9111111112", role: "group_leader", panchayath_id: "pn-1", ward: "1" },
+        { name: "Leader", mobile: "9111111113", role: "team_leader", panchayath_id: "pn-1", parent_agent_id: "tl-1" },
+        { name: "Self", mobile: "9111111114", role: "pro", panchayath_id: "pn-1", ward: "1", parent_mobile: "9111111114" },
+        { name: "Lost", mobile: "9111111115", role: "pro", panchayath_id: "pn-1", ward: "1", parent_mobile: "9222222222" },
+      ]),
+    ).toEqual([
+      ["A PRO must report to a Group Leader, not a Team Leader"],
+      ["A Group Leader must report to a Coordinator"],
+      ["A Team Leader does not report to anyone"],
+      ["An agent cannot report to themselves"],
+      ["No agent or row with mobile 9222222222 to report to"],
+    ]);
+    const inactive = EXISTING.map((a) => (a.id === "tl-1" ? { ...a, is_active: false } : a));
+    expect(issuesOf([coordinator("Late", "9111111116", [])], inactive)).toEqual([["Rasheed is no longer active"]]);
+  });
+
+  it("refuses wards already covered by an active coordinator", () => {
+    expect(issuesOf([coordinator("New", "9111111111", ["2", "3", "13"])])).toEqual([
+      ["Ward 2 is already covered by Coordinator Fathima", "Responsible ward 13 is not a ward of Kodur"],
+    ]);
+  });
+
+  it("refuses wards already claimed by an earlier row of the same batch", () => {
+    const { report } = prepare([
+      coordinator("First", "9111111111", ["5", "6"]),
+      coordinator("Second", "9111111112", ["6", "7"]),
+      coordinator("Third", "9111111113", ["7"]),
+    ]);
+    expect(report.map((r) => r.issues)).toEqual([
+      [],
+      ["Ward 6 is already covered by Coordinator First"],
+      // Second was refused, so its wards are still free
+      [],
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+// Checks a batch of new agents before pennyekart-agents bulk_create inserts it,
+// for both the bulk form and spreadsheet imports. Rows may name their parent by
+// mobile number, either an existing agent or another row of the same batch, and
+// their panchayath by name; both are resolved here. The same check backs the
+// dry run, so what the report shows is exactly what an import would refuse.
+import { parentRoleOf } from "./agentHierarchy.ts";
+
+const ROLES = ["super_admin_partner", "team_leader", "coordinator", "group_leader", "pro"];
+const TOP_LEVEL_ROLES = ["super_admin_partner", "team_leader"];
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin_partner: "Super Admin / Business Partner",
+  team_leader: "Team Leader",
+  coordinator: "Coordinator",
+  group_leader: "Group Leader",
+  pro: "PRO",
+};
+
+export interface NewAgentRow {
+  name?: string;
+  mobile: string;
+  role: string;
+  panchayath_id?: string;
+  /** Used when panchayath_id is not given. */
+  panchayath_name?: string;
+  ward?: string;
+  parent_agent_id?: string | null;
+  /** Used when parent_agent_id is not given: an existing agent or a row of this batch. */
+  parent_mobile?: string | null;
+  responsible_panchayath_ids?: string[];
+  responsible_panchayath_names?: string[];
+  responsible_wards?: string[];
+}
+
+export interface ExistingAgent {
+  id: string;
+  name: string;
+  mobile: string;
+  role: string;
+  panchayath_id: string;
+  responsible_wards: string[] | null;
+  is_active: boolean | null;
+}
+
+export interface PanchayathRef {
+  id: string;
+  name: string;
+  /** Number of wards, as stored on panchayaths. */
+  ward: string | null;
+}
+
+export interface ImportRowReport {
+  index: number;
+  name: string;
+  mobile: string;
+  role: string;
+  panchayath_name: string | null;
+  parent_name: string | null;
+  issues: string[];
+}
+
+export interface PreparedBatch {
+  report: ImportRowReport[];
+  /** Insert-ready rows; only meaningful when no row has issues. */
+  records: Record<string, unknown>[];
+}
+
+const label = (role: string) => ROLE_LABELS[role] ?? role;
+const key = (value: string) => value.trim().toLowerCase();
+
+function wardCount(panchayath: PanchayathRef): number | null {
+  const count = parseInt(panchayath.ward ?? "", 10);
+  return count > 0 ? count : null;
+}
+
+function isWardOf(ward: string, count: number | null): boolean {
+  if (count === null) return true;
+  const n = Number(ward);
+  return Number.isInteger(n) && n >= 1 && n <= count;
+}
+
+export function prepareAgentBatch(
+  rows: NewAgentRow[],
+  existing: ExistingAgent[],
+  panchayaths: PanchayathRef[],
+  newId: () => string = () => crypto.randomUUID(),
+): PreparedBatch {
+  const panchayathById = new Map(panchayaths.map((p) => [p.id, p]));
+  const panchayathByName = new Map(panchayaths.map((p) => [key(p.name), p]));
+  const existingByMobile = new Map(existing.map((a) => [a.mobile, a]));
+  const existingById = new Map(existing.map((a) => [a.id, a]));
+  const ids = rows.map(() => newId());
+
+  const rowsByMobile = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const list = rowsByMobile.get(row.mobile) || [];
+    list.push(i);
+    rowsByMobile.set(row.mobile, list);
+  });
+
+  // Wards already looked after by an active coordinator, per panchayath
+  const coveredWards = new Map<string, string>();
+  for (const a of existing) {
+    if (a.role !== "coordinator" || a.is_active === false) continue;
+    for (const w of a.responsible_wards || []) coveredWards.set(`${a.panchayath_id}:${w}`, a.name);
+  }
+
+  const resolvePanchayath = (id?: string, name?: string) =>
+    id ? panchayathById.get(id) : name ? panchayathByName.get(key(name)) : undefined;
+
+  const report: ImportRowReport[] = [];
+  const records: Record<string, unknown>[] = [];
+
+  rows.forEach((row, i) => {
+    const issues: string[] = [];
+    const name = (row.name || "").trim();
+    const role = row.role;
+    const isTopLevel = TOP_LEVEL_ROLES.includes(role);
+
+    if (name.length < 2) issues.push("Name must be at least 2 characters");
+    if (!/^\d{10}$/.test(row.mobile)) issues.push("Mobile must be 10 digits");
+    if (!ROLES.includes(role)) issues.push(`Unknown role "${role}"`);
+
+    const duplicates = (rowsByMobile.get(row.mobile) || []).filter((j) => j !== i);
+    if (duplicates.length > 0) issues.push(`Mobile repeated on row(s) ${duplicates.map((j) => j + 1).join(", ")}`);
+    const taken = existingByMobile.get(row.mobile);
+    if (taken) issues.push(`Mobile already belongs to ${taken.name} (${label(taken.role)})`);
+
+    const panchayath = resolvePanchayath(row.panchayath_id, row.panchayath_name);
+    if (!panchayath) {
+      issues.push(row.panchayath_id || row.panchayath_name ? `Unknown panchayath "${row.panchayath_name ?? row.panchayath_id}"` : "Panchayath is required");
+    }
+    const count = panchayath ? wardCount(panchayath) : null;
+
+    const ward = (row.ward || "").trim();
+    if (!isTopLevel && !ward) issues.push("Ward is required");
+    if (!isTopLevel && ward && panchayath && !isWardOf(ward, count)) {
+      issues.push(`Ward ${ward} is not one of ${panchayath.name}'s ${count} wards`);
+    }
+
+    // Parent: the role directly above, from this batch or already registered
+    let parentId: string | null = null;
+    let parentName: string | null = null;
+    const parentRole = parentRoleOf(role);
+    if (row.parent_agent_id || row.parent_mobile) {
+      let parent: { id: string; name: string; role: string; is_active: boolean | null } | undefined;
+      if (row.parent_agent_id) {
+        parent = existingById.get(row.parent_agent_id);
+      } else if (row.parent_mobile === row.mobile) {
+        issues.push("An agent cannot report to themselves");
+      } else {
+        const inBatch = rowsByMobile.get(row.parent_mobile!)?.[0];
+        parent = existingByMobile.get(row.parent_mobile!) ?? (inBatch !== undefined
+          ? { id: ids[inBatch], name: (rows[inBatch].name || "").trim(), role: rows[inBatch].role, is_active: true }
+          : undefined);
+      }
+      if (parent) {
+        parentId = parent.id;
+        parentName = parent.name;
+        if (isTopLevel) issues.push(`A ${label(role)} does not report to anyone`);
+        else if (parent.role !== parentRole) {
+          issues.push(`A ${label(role)} must report to a ${label(parentRole!)}, not a ${label(parent.role)}`);
+        }
+        if (parent.is_active === false) issues.push(`${parent.name} is no longer active`);
+      } else if (row.parent_agent_id || row.parent_mobile !== row.mobile) {
+        issues.push(`No agent or row with mobile ${row.parent_mobile ?? row.parent_agent_id} to report to`);
+      }
+    } else if (parentRole) {
+      issues.push(`A ${label(role)} must report to a ${label(parentRole)}`);
+    }
+
+    // Responsibilities
+    let responsiblePanchayathIds: string[] = [];
+    let responsibleWards: string[] = [];
+    if (isTopLevel) {
+      responsiblePanchayathIds = [...(row.responsible_panchayath_ids || [])];
+      for (const pName of row.responsible_panchayath_names || []) {
+        const p = panchayathByName.get(key(pName));
+        if (p) responsiblePanchayathIds.push(p.id);
+        else issues.push(`Unknown responsible panchayath "${pName}"`);
+      }
+      // Without any listed, a top-level agent looks after their own panchayath
+      if (responsiblePanchayathIds.length === 0 && panchayath) responsiblePanchayathIds.push(panchayath.id);
+      responsiblePanchayathIds = [...new Set(responsiblePanchayathIds)];
+    } else if (role === "coordinator") {
+      responsibleWards = [...new Set((row.responsible_wards || []).map((w) => w.trim()).filter(Boolean))];
+      for (const w of responsibleWards) {
+        if (panchayath && !isWardOf(w, count)) issues.push(`Responsible ward ${w} is not a ward of ${panchayath.name}`);
+        const holder = panchayath && coveredWards.get(`${panchayath.id}:${w}`);
+        if (holder) issues.push(`Ward ${w} is already covered by Coordinator ${holder}`);
+      }
+    }
+
+    // An accepted coordinator's wards are taken for the rest of the batch too
+    if (issues.length === 0 && role === "coordinator" && panchayath) {
+      for (const w of responsibleWards) coveredWards.set(`${panchayath.id}:${w}`, name);
+    }
+
+    report.push({
+      index: i,
+      name,
+      mobile: row.mobile,
+      role,
+      panchayath_name: panchayath?.name ?? null,
+      parent_name: parentName,
+      issues,
+    });
+    records.push({
+      id: ids[i],
+      name,
+      mobile: row.mobile,
+      role,
+      panchayath_id: panchayath?.id,
+      ward: ward || "N/A",
+      parent_agent_id: isTopLevel ? null : parentId,
+      // Derived from direct customers and orders once the agent starts work
+      customer_count: 0,
+      responsible_panchayath_ids: responsiblePanchayathIds,
+      responsible_wards: responsibleWards,
+      is_active: true,
+    });
+  });
+
+  return { report, records };
+}
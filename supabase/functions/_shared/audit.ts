@@ -0,0 +1,52 @@
+// Caller identity for the audit trail.
+//
+// Every audited table has the audit_row_change() trigger, which records the
+// before/after of each row change. Edge functions talk to the database as
+// service_role, so the trigger cannot see who actually made the request; an
+// AuditTrail attaches that identity as x-audit-* headers on every query made
+// through a client created with its `clientOptions`.
+//
+//   const audit = new AuditTrail("admin-programs");
+//   const supabase = createClient(url, serviceKey, audit.clientOptions);
+//   ...authenticate...
+//   audit.setActor(adminActor(verified.session));
+import type { AdminSession } from "./session.ts";
+
+export type AuditActorType = "admin" | "super_admin" | "agent" | "department" | "system";
+
+export interface AuditActor {
+  type: AuditActorType;
+  /** admins.id, auth user id (super_admin), pennyekart_agents.id, or mobile (department). */
+  id: string | null;
+}
+
+export class AuditTrail {
+  private actor: AuditActor | null = null;
+
+  constructor(private readonly source: string) {}
+
+  /** Identifies the caller for all queries made after this point. */
+  setActor(actor: AuditActor) {
+    this.actor = actor;
+  }
+
+  readonly clientOptions = {
+    global: {
+      fetch: (input: RequestInfo | URL, init?: RequestInit) => {
+        const headers = new Headers(init?.headers);
+        headers.set("x-audit-source", this.source);
+        if (this.actor) {
+          headers.set("x-audit-actor-type", this.actor.type);
+          if (this.actor.id) headers.set("x-audit-actor-id", this.actor.id);
+        }
+        return fetch(input, { ...init, headers });
+      },
+    },
+  };
+}
+
+/** Super admins are recorded by auth user id, division admins by admins.id. */
+export function adminActor(session: AdminSession): AuditActor {
+  if (session.isSuperAdmin && session.user_id) return { type: "super_admin", id: session.user_id };
+  return { type: "admin", id: session.admin_id };
+}
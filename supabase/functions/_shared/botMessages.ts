@@ -0,0 +1,361 @@
+// What the WhatsApp bot says, in English and Malayalam. Used by
+// whatsapp-worklog and complaint-feedback.
+//
+// Each agent's language is pennyekart_agents.language, which the agent sets
+// with `lang ml` / `lang en` or an admin sets in the agent form. Numbers that
+// are not agents get English. Keywords stay the same in both languages, so
+// help text and examples always show the English commands. Place names come
+// from the `name_ml` columns when Malayalam is chosen (see localName).
+
+export type BotLanguage = "en" | "ml";
+
+export type MessageCatalog = typeof en;
+
+const en = {
+  roles: {
+    team_leader: "Team Leader",
+    coordinator: "Coordinator",
+    group_leader: "Group Leader",
+    pro: "PRO",
+  } as Record<string, string>,
+
+  helpCore: `📋 *PennyeKart Agent Commands*
+
+1️⃣ <your work details>
+  Submit your daily work log.
+  Example: _1 Visited Ward 3 shops:5 orders:2_
+
+2️⃣
+  View your reporting person details.
+
+3️⃣ ?
+  Check your complaint status & admin remarks.
+
+3️⃣ <your complaint>
+  Register a new complaint (you confirm it first).
+  Example: _3 Delivery not received for order #123_
+
+4️⃣
+  Check your wallet balance.
+
+🏖️ leave <date> [to <date>] <reason>
+  Ask for leave. Example: _leave 20/10 to 22/10 Family function_
+  Send *leave ?* for your requests, *leaves* for your team's.
+
+5️⃣
+  Today's work log absence report (all agents).
+
+6️⃣
+  Coordinator absence report (pick a panchayath).
+
+7️⃣
+  Group Leader absence report (pick a panchayath).
+
+📊 reports
+  Menu of all absence reports.
+
+🌐 lang ml
+  Replies in Malayalam (മലയാളം).
+
+8️⃣
+  Show this help message.`,
+  helpTips: `💡 *Tips:*
+• Send *1* followed by your work to log it.
+• Add numbers as _name:value_, e.g. _shops:5 orders:2_.
+• You can send more reports in a day — reply *1* to add each to today's log or *2* to replace it.
+• In any menu, reply *0* to go back or cancel.
+• Send photos or share your location to add them to today's log.
+• Your work logs are tracked daily by your team leader.
+• Team Leaders and Coordinators get a daily absence digest; send *digest off* or *digest on* to change that.`,
+  fallback: (name: string) =>
+    `🤔 Sorry ${name}, I didn't understand that.\n\n*Commands:*\n1️⃣ *1* <work details> — Submit work log\n2️⃣ *2* — Reporting person details\n3️⃣ *3* <complaint> — Register complaint\n4️⃣ *4* — Wallet balance\n🏖️ *leave* <date> <reason> — Ask for leave\n5️⃣ *5* — Absence report\n6️⃣ *6* — Coordinator report\n7️⃣ *7* — Group Leader report\n📊 *reports* — Report menu\n🌐 *lang ml* — മലയാളം\n8️⃣ *8* — Help`,
+  fallbackExample: `Example: _1 Visited Ward 3 shops:5 orders:2_`,
+  notRegistered: `❌ Your number is not registered as an agent. Please contact your team leader.\n\nType *8* for help.`,
+  error: "Something went wrong. Please try again later.\n\nType *8* for help.",
+
+  languageSet: "✅ Replies will now be in English.\n\nSend *lang ml* for Malayalam.",
+  languageFailed: "❌ Failed to change your language. Please try again.",
+  languageUsage: "🌐 Send *lang ml* for Malayalam (മലയാളം) or *lang en* for English.",
+
+  digestNoMobile: "❌ Could not read your mobile number.",
+  digestFailed: "❌ Failed to update your digest preference. Please try again.",
+  digestOff: "🔕 You will no longer receive the daily absence digest.\n\nSend *digest on* to receive it again.",
+  digestOn: "🔔 You will receive the daily absence digest again.",
+
+  // Conversations (see botSessions.ts)
+  flowWords: { back: "Back", cancel: "Cancel", cancelled: "❌ Cancelled.", invalidChoice: "❌ Invalid choice." },
+  menuTimedOut: "⌛ That menu has timed out. Please send the command again.",
+
+  // 1: work log
+  workLogNeedsDetails: `⚠️ Please include your work details after *1*.\n\nExample: _1 Visited Ward 3 shops:5 orders:2_`,
+  workLogAddOrReplace: (existing: string, details: string) =>
+    `📝 You already logged work today:\n${existing}\n\n1️⃣ Add this to it\n2️⃣ Replace it with this\n\n_${details}_`,
+  workLogSaved: (name: string, today: string, details: string) =>
+    `✅ Work log saved, ${name}!\n\n📅 ${today}\n📝 ${details}`,
+  workLogUpdated: (name: string, today: string, details: string, replaced: boolean) =>
+    `✅ Work log ${replaced ? "replaced" : "updated"}, ${name}!\n\n📅 ${today}\n📝 Today's full log:\n${details}`,
+  workLogSaveFailed: "❌ Failed to save work log. Please try again.",
+  workLogUpdateFailed: "❌ Failed to update work log. Please try again.",
+  metricsToday: (totals: string) => `📊 Today: ${totals}`,
+  metricsNotCounted: (names: string) => `⚠️ Not counted: ${names}`,
+  metricsMissing: (labels: string) => `📝 Please also send: ${labels}`,
+  metricsExample: (example: string) => `Example: _1 ${example}_`,
+
+  // Photos and locations
+  evidence: (photos: number, location: boolean) =>
+    [photos > 0 ? (photos === 1 ? "1 photo" : `${photos} photos`) : "", location ? "a location" : ""]
+      .filter(Boolean)
+      .join(" and "),
+  evidenceOnlyPhotos: "⚠️ Only photos and locations can be added to your work log.",
+  evidenceAdded: (what: string, name: string, today: string) =>
+    `📎 Added ${what} to today's work log, ${name}!\n\n📅 ${today}`,
+  evidenceDuplicate: "📎 Already added to today's work log.",
+  evidenceNoneSaved: (name: string) => `❌ Could not save your photos, ${name}.`,
+  evidenceSkipped: (count: number) =>
+    `⚠️ ${count} attachment(s) could not be saved. Send photos (JPG/PNG) under 5 MB.`,
+  evidenceFailed: "❌ Failed to add to your work log. Please try again.",
+
+  // 2: reporting chain
+  chainNone: (name: string, role: string) =>
+    `👤 *${name}* (${role})\n\nNo reporting person found. You may be a top-level agent.`,
+  chainTitle: (name: string, role: string) => `👤 *Your Reporting Chain*\n🏷️ ${name} (${role})\n`,
+
+  // 3: complaints
+  complaintNeedsDetails: `⚠️ Please include your complaint details after *3*.\n\nExample: _3 Delivery not received for order #123_`,
+  complaintConfirm: (text: string) => `📝 *Confirm your complaint*\n\n${text}\n\n1️⃣ Submit`,
+  complaintRegistered: (name: string, text: string) =>
+    `✅ Complaint registered, ${name}!\n\n📝 ${text}\n\nYour complaint has been submitted and will be reviewed by the admin team.\n\nSend *3 ?* to check your complaint status.`,
+  complaintFailed: "❌ Failed to register complaint. Please try again.",
+  complaintsFetchFailed: "❌ Failed to fetch complaints. Please try again.",
+  complaintsNone: (name: string) =>
+    `📋 *Complaint Status*\n\nNo complaints found, ${name}.\n\nTo register a new complaint, send:\n_3 <your complaint>_`,
+  complaintsTitle: (name: string) => `📋 *Your Recent Complaints*\n👤 ${name}\n`,
+  complaintsNewHint: `📌 To register a new complaint:\n_3 <your complaint>_`,
+  complaintStatus: { pending: "PENDING", resolved: "RESOLVED", dismissed: "DISMISSED" } as Record<string, string>,
+  complaintUpdate: (name: string, text: string, status: string, remarks: string | null, date: string) =>
+    `*Complaint Update*\n\nHi ${name},\n\nYour complaint has been updated:\n\n` +
+    `📝 *Complaint:* ${text}\n📌 *Status:* ${status}\n` +
+    (remarks ? `💬 *Admin Remarks:* ${remarks}\n` : "") +
+    `\n📅 Updated: ${date}\n\nThank you for your feedback. If you have any further concerns, send *3 <your message>*.`,
+  complaintUpdateStatus: { pending: "Pending", resolved: "Resolved", dismissed: "Dismissed" } as Record<string, string>,
+
+  // 4: wallet
+  walletFailed: "❌ Failed to fetch wallet balance. Please try again.",
+  walletBalance: (name: string, amount: string) => `💰 *Wallet Balance*\n👤 ${name}\n💳 Available Balance: ${amount}`,
+
+  // Leave
+  leaveNonePending: "🏖️ No pending leave requests from your team.",
+  leavePendingTitle: `🏖️ *Pending Leave Requests*\n`,
+  leavePendingHint: `Send *leave approve <number>* or *leave reject <number> <remarks>*.`,
+  leaveInvalidNumber: "❌ Invalid number. Send *leaves* to see the list.",
+  leaveDecided: (approved: boolean, name: string, dates: string) =>
+    `${approved ? "✅ Approved" : "❌ Rejected"}: ${name}, ${dates}`,
+  leaveMineTitle: `🏖️ *Your Leave Requests*\n`,
+  leaveMineNone: `No leave requests yet.`,
+  leaveAskHint: `📌 To ask for leave:\n_leave 20/10 to 22/10 <reason>_`,
+  leaveRequested: (name: string, dates: string, reason: string) =>
+    `✅ Leave requested, ${name}!\n\n📅 ${dates}` +
+    (reason ? `\n📝 ${reason}` : "") +
+    `\n\nYour reporting person has been asked to approve it. Send *leave ?* to check.`,
+  leaveFailed: "❌ Failed to process your leave request. Please try again.",
+  leaveStatus: { pending: "PENDING", approved: "APPROVED", rejected: "REJECTED", cancelled: "CANCELLED" } as Record<
+    string,
+    string
+  >,
+  agent: "Agent",
+
+  // 5, 6, 7 and "reports": absence reports
+  reportMenu: `📊 *Absence Reports*\n\n1️⃣ All agents\n2️⃣ Coordinators, by panchayath\n3️⃣ Group Leaders, by panchayath`,
+  reportPickPanchayath: (role: string) => `📍 *${role} Report*\nReply with a number:\n`,
+  reportNoPanchayaths: (role: string) => `No panchayaths with ${role}s found.`,
+  reportInvalidPick: (command: string) => `❌ Invalid. Send *${command}* to see list.`,
+  reportFailed: "❌ Failed to generate absence report. Please try again.",
+  reportNoAgents: "No agents found for this filter.",
+  reportTitle: (today: string) => `📊 *Work Log Report — ${today}*\n`,
+  reportRole: (role: string) => `🏷️ Role: ${role}\n`,
+  reportPanchayath: (name: string) => `📍 Panchayath: ${name}\n`,
+  reportCounts: (submitted: number, total: number, rate: number, absent: number) =>
+    `\n✅ Submitted: ${submitted}/${total} (${rate}%)\n❌ Absent: ${absent}\n`,
+  reportClosed: (reason: string) => `🏖️ No work expected today (${reason})\n`,
+  reportOff: (count: number) => `🏖️ On leave / holiday: ${count}\n`,
+  reportAbsentTitle: `\n❌ *Absent:*`,
+  reportMore: (count: number) => `\n...+${count} more`,
+};
+
+const ml: MessageCatalog = {
+  roles: {
+    team_leader: "ടീം ലീഡർ",
+    coordinator: "കോ-ഓർഡിനേറ്റർ",
+    group_leader: "ഗ്രൂപ്പ് ലീഡർ",
+    pro: "പി.ആർ.ഒ",
+  },
+
+  helpCore: `📋 *പെന്നികാർട്ട് ഏജന്റ് കമാൻഡുകൾ*
+
+1️⃣ <നിങ്ങളുടെ ജോലി വിവരങ്ങൾ>
+  ദിവസത്തെ വർക്ക് ലോഗ് സമർപ്പിക്കാൻ.
+  ഉദാ: _1 വാർഡ് 3 സന്ദർശിച്ചു shops:5 orders:2_
+
+2️⃣
+  നിങ്ങൾ റിപ്പോർട്ട് ചെയ്യേണ്ടവരുടെ വിവരങ്ങൾ.
+
+3️⃣ ?
+  പരാതിയുടെ സ്ഥിതിയും അഡ്മിൻ മറുപടിയും.
+
+3️⃣ <നിങ്ങളുടെ പരാതി>
+  പുതിയ പരാതി നൽകാൻ (ആദ്യം സ്ഥിരീകരിക്കണം).
+  ഉദാ: _3 ഓർഡർ #123 ലഭിച്ചില്ല_
+
+4️⃣
+  വാലറ്റ് ബാലൻസ് അറിയാൻ.
+
+🏖️ leave <തീയതി> [to <തീയതി>] <കാരണം>
+  അവധി അപേക്ഷിക്കാൻ. ഉദാ: _leave 20/10 to 22/10 കുടുംബ ചടങ്ങ്_
+  നിങ്ങളുടെ അപേക്ഷകൾക്ക് *leave ?*, ടീമിന്റേതിന് *leaves* അയയ്ക്കുക.
+
+5️⃣
+  ഇന്നത്തെ വർക്ക് ലോഗ് ഹാജർ റിപ്പോർട്ട് (എല്ലാ ഏജന്റുമാരും).
+
+6️⃣
+  കോ-ഓർഡിനേറ്റർ ഹാജർ റിപ്പോർട്ട് (പഞ്ചായത്ത് തിരഞ്ഞെടുക്കുക).
+
+7️⃣
+  ഗ്രൂപ്പ് ലീഡർ ഹാജർ റിപ്പോർട്ട് (പഞ്ചായത്ത് തിരഞ്ഞെടുക്കുക).
+
+📊 reports
+  എല്ലാ ഹാജർ റിപ്പോർട്ടുകളുടെയും മെനു.
+
+🌐 lang en
+  മറുപടികൾ ഇംഗ്ലീഷിൽ (English).
+
+8️⃣
+  ഈ സഹായ സന്ദേശം കാണിക്കാൻ.`,
+  helpTips: `💡 *നിർദ്ദേശങ്ങൾ:*
+• ജോലി രേഖപ്പെടുത്താൻ *1* എന്നും തുടർന്ന് വിവരങ്ങളും അയയ്ക്കുക.
+• എണ്ണങ്ങൾ _പേര്:എണ്ണം_ ആയി ചേർക്കുക, ഉദാ: _shops:5 orders:2_.
+• ഒരു ദിവസം കൂടുതൽ റിപ്പോർട്ടുകൾ അയയ്ക്കാം — ഇന്നത്തെ ലോഗിൽ ചേർക്കാൻ *1*, മാറ്റിയെഴുതാൻ *2* മറുപടി നൽകുക.
+• ഏത് മെനുവിലും തിരികെ പോകാനോ റദ്ദാക്കാനോ *0* അയയ്ക്കുക.
+• ഫോട്ടോകളും ലൊക്കേഷനും അയച്ചാൽ അവ ഇന്നത്തെ ലോഗിൽ ചേർക്കും.
+• നിങ്ങളുടെ വർക്ക് ലോഗുകൾ ടീം ലീഡർ ദിവസവും പരിശോധിക്കുന്നു.
+• ടീം ലീഡർമാർക്കും കോ-ഓർഡിനേറ്റർമാർക്കും ദിവസേന ഹാജർ സംഗ്രഹം ലഭിക്കും; മാറ്റാൻ *digest off* അല്ലെങ്കിൽ *digest on* അയയ്ക്കുക.`,
+  fallback: (name: string) =>
+    `🤔 ക്ഷമിക്കണം ${name}, മനസ്സിലായില്ല.\n\n*കമാൻഡുകൾ:*\n1️⃣ *1* <ജോലി വിവരങ്ങൾ> — വർക്ക് ലോഗ്\n2️⃣ *2* — റിപ്പോർട്ടിംഗ് വ്യക്തി\n3️⃣ *3* <പരാതി> — പരാതി നൽകുക\n4️⃣ *4* — വാലറ്റ് ബാലൻസ്\n🏖️ *leave* <തീയതി> <കാരണം> — അവധി അപേക്ഷ\n5️⃣ *5* — ഹാജർ റിപ്പോർട്ട്\n6️⃣ *6* — കോ-ഓർഡിനേറ്റർ റിപ്പോർട്ട്\n7️⃣ *7* — ഗ്രൂപ്പ് ലീഡർ റിപ്പോർട്ട്\n📊 *reports* — റിപ്പോർട്ട് മെനു\n🌐 *lang en* — English\n8️⃣ *8* — സഹായം`,
+  fallbackExample: `ഉദാ: _1 വാർഡ് 3 സന്ദർശിച്ചു shops:5 orders:2_`,
+  notRegistered: `❌ നിങ്ങളുടെ നമ്പർ ഏജന്റായി രജിസ്റ്റർ ചെയ്തിട്ടില്ല. ദയവായി ടീം ലീഡറെ ബന്ധപ്പെടുക.\n\nസഹായത്തിന് *8* അയയ്ക്കുക.`,
+  error: "എന്തോ പിശക് സംഭവിച്ചു. ദയവായി കുറച്ചു കഴിഞ്ഞ് വീണ്ടും ശ്രമിക്കുക.\n\nസഹായത്തിന് *8* അയയ്ക്കുക.",
+
+  languageSet: "✅ ഇനി മുതൽ മറുപടികൾ മലയാളത്തിൽ ആയിരിക്കും.\n\nEnglish-ന് *lang en* അയയ്ക്കുക.",
+  languageFailed: "❌ ഭാഷ മാറ്റാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  languageUsage: "🌐 മലയാളത്തിന് *lang ml*, English-ന് *lang en* അയയ്ക്കുക.",
+
+  digestNoMobile: "❌ നിങ്ങളുടെ മൊബൈൽ നമ്പർ വായിക്കാനായില്ല.",
+  digestFailed: "❌ സംഗ്രഹ ക്രമീകരണം മാറ്റാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  digestOff: "🔕 ഇനി ദിവസേനയുള്ള ഹാജർ സംഗ്രഹം ലഭിക്കില്ല.\n\nവീണ്ടും ലഭിക്കാൻ *digest on* അയയ്ക്കുക.",
+  digestOn: "🔔 ദിവസേനയുള്ള ഹാജർ സംഗ്രഹം വീണ്ടും ലഭിക്കും.",
+
+  flowWords: { back: "തിരികെ", cancel: "റദ്ദാക്കുക", cancelled: "❌ റദ്ദാക്കി.", invalidChoice: "❌ തെറ്റായ തിരഞ്ഞെടുപ്പ്." },
+  menuTimedOut: "⌛ ആ മെനുവിന്റെ സമയം കഴിഞ്ഞു. ദയവായി കമാൻഡ് വീണ്ടും അയയ്ക്കുക.",
+
+  workLogNeedsDetails: `⚠️ *1* കഴിഞ്ഞ് ജോലി വിവരങ്ങൾ ചേർക്കുക.\n\nഉദാ: _1 വാർഡ് 3 സന്ദർശിച്ചു shops:5 orders:2_`,
+  workLogAddOrReplace: (existing: string, details: string) =>
+    `📝 ഇന്നത്തെ ജോലി നിങ്ങൾ ഇതിനകം രേഖപ്പെടുത്തിയിട്ടുണ്ട്:\n${existing}\n\n1️⃣ ഇതിനോട് ചേർക്കുക\n2️⃣ ഇതിനു പകരം ഇത് വയ്ക്കുക\n\n_${details}_`,
+  workLogSaved: (name: string, today: string, details: string) =>
+    `✅ വർക്ക് ലോഗ് സേവ് ചെയ്തു, ${name}!\n\n📅 ${today}\n📝 ${details}`,
+  workLogUpdated: (name: string, today: string, details: string, replaced: boolean) =>
+    `✅ വർക്ക് ലോഗ് ${replaced ? "മാറ്റിയെഴുതി" : "പുതുക്കി"}, ${name}!\n\n📅 ${today}\n📝 ഇന്നത്തെ മുഴുവൻ ലോഗ്:\n${details}`,
+  workLogSaveFailed: "❌ വർക്ക് ലോഗ് സേവ് ചെയ്യാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  workLogUpdateFailed: "❌ വർക്ക് ലോഗ് പുതുക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  metricsToday: (totals: string) => `📊 ഇന്ന്: ${totals}`,
+  metricsNotCounted: (names: string) => `⚠️ കണക്കാക്കിയില്ല: ${names}`,
+  metricsMissing: (labels: string) => `📝 ഇവ കൂടി അയയ്ക്കുക: ${labels}`,
+  metricsExample: (example: string) => `ഉദാ: _1 ${example}_`,
+
+  evidence: (photos: number, location: boolean) =>
+    [photos > 0 ? `${photos} ഫോട്ടോ` : "", location ? "ലൊക്കേഷൻ" : ""].filter(Boolean).join(", "),
+  evidenceOnlyPhotos: "⚠️ ഫോട്ടോകളും ലൊക്കേഷനും മാത്രമേ വർക്ക് ലോഗിൽ ചേർക്കാനാകൂ.",
+  evidenceAdded: (what: string, name: string, today: string) =>
+    `📎 ${what} ഇന്നത്തെ വർക്ക് ലോഗിൽ ചേർത്തു, ${name}!\n\n📅 ${today}`,
+  evidenceDuplicate: "📎 ഇത് ഇന്നത്തെ വർക്ക് ലോഗിൽ ഇതിനകം ചേർത്തിട്ടുണ്ട്.",
+  evidenceNoneSaved: (name: string) => `❌ നിങ്ങളുടെ ഫോട്ടോകൾ സേവ് ചെയ്യാനായില്ല, ${name}.`,
+  evidenceSkipped: (count: number) =>
+    `⚠️ ${count} ഫയൽ സേവ് ചെയ്യാനായില്ല. 5 MB-യിൽ താഴെയുള്ള ഫോട്ടോകൾ (JPG/PNG) അയയ്ക്കുക.`,
+  evidenceFailed: "❌ വർക്ക് ലോഗിൽ ചേർക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+
+  chainNone: (name: string, role: string) =>
+    `👤 *${name}* (${role})\n\nറിപ്പോർട്ട് ചെയ്യേണ്ട ആരെയും കണ്ടെത്തിയില്ല. നിങ്ങൾ ഏറ്റവും മുകളിലെ ഏജന്റായിരിക്കാം.`,
+  chainTitle: (name: string, role: string) => `👤 *നിങ്ങളുടെ റിപ്പോർട്ടിംഗ് ശൃംഖല*\n🏷️ ${name} (${role})\n`,
+
+  complaintNeedsDetails: `⚠️ *3* കഴിഞ്ഞ് പരാതിയുടെ വിവരങ്ങൾ ചേർക്കുക.\n\nഉദാ: _3 ഓർഡർ #123 ലഭിച്ചില്ല_`,
+  complaintConfirm: (text: string) => `📝 *പരാതി സ്ഥിരീകരിക്കുക*\n\n${text}\n\n1️⃣ സമർപ്പിക്കുക`,
+  complaintRegistered: (name: string, text: string) =>
+    `✅ പരാതി രജിസ്റ്റർ ചെയ്തു, ${name}!\n\n📝 ${text}\n\nഅഡ്മിൻ ടീം നിങ്ങളുടെ പരാതി പരിശോധിക്കും.\n\nസ്ഥിതി അറിയാൻ *3 ?* അയയ്ക്കുക.`,
+  complaintFailed: "❌ പരാതി രജിസ്റ്റർ ചെയ്യാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  complaintsFetchFailed: "❌ പരാതികൾ ലഭ്യമാക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  complaintsNone: (name: string) =>
+    `📋 *പരാതി സ്ഥിതി*\n\nപരാതികളൊന്നുമില്ല, ${name}.\n\nപുതിയ പരാതി നൽകാൻ അയയ്ക്കുക:\n_3 <നിങ്ങളുടെ പരാതി>_`,
+  complaintsTitle: (name: string) => `📋 *നിങ്ങളുടെ സമീപകാല പരാതികൾ*\n👤 ${name}\n`,
+  complaintsNewHint: `📌 പുതിയ പരാതി നൽകാൻ:\n_3 <നിങ്ങളുടെ പരാതി>_`,
+  complaintStatus: { pending: "തീർപ്പാക്കാനുണ്ട്", resolved: "പരിഹരിച്ചു", dismissed: "തള്ളി" },
+  complaintUpdate: (name: string, text: string, status: string, remarks: string | null, date: string) =>
+    `*പരാതി അപ്ഡേറ്റ്*\n\nനമസ്കാരം ${name},\n\nനിങ്ങളുടെ പരാതിയിൽ മാറ്റമുണ്ട്:\n\n` +
+    `📝 *പരാതി:* ${text}\n📌 *സ്ഥിതി:* ${status}\n` +
+    (remarks ? `💬 *അഡ്മിൻ മറുപടി:* ${remarks}\n` : "") +
+    `\n📅 പുതുക്കിയത്: ${date}\n\nനന്ദി. കൂടുതൽ പരാതികളുണ്ടെങ്കിൽ *3 <നിങ്ങളുടെ സന്ദേശം>* അയയ്ക്കുക.`,
+  complaintUpdateStatus: { pending: "തീർപ്പാക്കാനുണ്ട്", resolved: "പരിഹരിച്ചു", dismissed: "തള്ളി" },
+
+  walletFailed: "❌ വാലറ്റ് ബാലൻസ് ലഭ്യമാക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  walletBalance: (name: string, amount: string) => `💰 *വാലറ്റ് ബാലൻസ്*\n👤 ${name}\n💳 ലഭ്യമായ ബാലൻസ്: ${amount}`,
+
+  leaveNonePending: "🏖️ നിങ്ങളുടെ ടീമിൽ നിന്ന് തീർപ്പാക്കാനുള്ള അവധി അപേക്ഷകളില്ല.",
+  leavePendingTitle: `🏖️ *തീർപ്പാക്കാനുള്ള അവധി അപേക്ഷകൾ*\n`,
+  leavePendingHint: `*leave approve <നമ്പർ>* അല്ലെങ്കിൽ *leave reject <നമ്പർ> <കുറിപ്പ്>* അയയ്ക്കുക.`,
+  leaveInvalidNumber: "❌ തെറ്റായ നമ്പർ. പട്ടിക കാണാൻ *leaves* അയയ്ക്കുക.",
+  leaveDecided: (approved: boolean, name: string, dates: string) =>
+    `${approved ? "✅ അനുവദിച്ചു" : "❌ നിരസിച്ചു"}: ${name}, ${dates}`,
+  leaveMineTitle: `🏖️ *നിങ്ങളുടെ അവധി അപേക്ഷകൾ*\n`,
+  leaveMineNone: `അവധി അപേക്ഷകളൊന്നുമില്ല.`,
+  leaveAskHint: `📌 അവധി അപേക്ഷിക്കാൻ:\n_leave 20/10 to 22/10 <കാരണം>_`,
+  leaveRequested: (name: string, dates: string, reason: string) =>
+    `✅ അവധി അപേക്ഷിച്ചു, ${name}!\n\n📅 ${dates}` +
+    (reason ? `\n📝 ${reason}` : "") +
+    `\n\nഅനുമതിക്കായി നിങ്ങളുടെ റിപ്പോർട്ടിംഗ് വ്യക്തിയെ അറിയിച്ചിട്ടുണ്ട്. സ്ഥിതി അറിയാൻ *leave ?* അയയ്ക്കുക.`,
+  leaveFailed: "❌ അവധി അപേക്ഷ പ്രോസസ്സ് ചെയ്യാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  leaveStatus: { pending: "തീർപ്പാക്കാനുണ്ട്", approved: "അനുവദിച്ചു", rejected: "നിരസിച്ചു", cancelled: "റദ്ദാക്കി" },
+  agent: "ഏജന്റ്",
+
+  reportMenu: `📊 *ഹാജർ റിപ്പോർട്ടുകൾ*\n\n1️⃣ എല്ലാ ഏജന്റുമാരും\n2️⃣ കോ-ഓർഡിനേറ്റർമാർ, പഞ്ചായത്ത് തിരിച്ച്\n3️⃣ ഗ്രൂപ്പ് ലീഡർമാർ, പഞ്ചായത്ത് തിരിച്ച്`,
+  reportPickPanchayath: (role: string) => `📍 *${role} റിപ്പോർട്ട്*\nഒരു നമ്പർ മറുപടിയായി അയയ്ക്കുക:\n`,
+  reportNoPanchayaths: (role: string) => `${role}മാരുള്ള പഞ്ചായത്തുകളൊന്നുമില്ല.`,
+  reportInvalidPick: (command: string) => `❌ തെറ്റായ നമ്പർ. പട്ടിക കാണാൻ *${command}* അയയ്ക്കുക.`,
+  reportFailed: "❌ ഹാജർ റിപ്പോർട്ട് തയ്യാറാക്കാനായില്ല. ദയവായി വീണ്ടും ശ്രമിക്കുക.",
+  reportNoAgents: "ഈ ഫിൽട്ടറിൽ ഏജന്റുമാരില്ല.",
+  reportTitle: (today: string) => `📊 *വർക്ക് ലോഗ് റിപ്പോർട്ട് — ${today}*\n`,
+  reportRole: (role: string) => `🏷️ റോൾ: ${role}\n`,
+  reportPanchayath: (name: string) => `📍 പഞ്ചായത്ത്: ${name}\n`,
+  reportCounts: (submitted: number, total: number, rate: number, absent: number) =>
+    `\n✅ സമർപ്പിച്ചവർ: ${submitted}/${total} (${rate}%)\n❌ ഹാജരില്ലാത്തവർ: ${absent}\n`,
+  reportClosed: (reason: string) => `🏖️ ഇന്ന് ജോലിയില്ല (${reason})\n`,
+  reportOff: (count: number) => `🏖️ അവധി / ഒഴിവ് ദിനം: ${count}\n`,
+  reportAbsentTitle: `\n❌ *ഹാജരില്ലാത്തവർ:*`,
+  reportMore: (count: number) => `\n...+${count} പേർ കൂടി`,
+};
+
+const CATALOGS: Record<BotLanguage, MessageCatalog> = { en, ml };
+
+/** The messages for an agent's stored language; English when unset or unknown. */
+export function botMessages(language: string | null | undefined): MessageCatalog {
+  return CATALOGS[language === "ml" ? "ml" : "en"];
+}
+
+/** The language an agent asked for in `lang <x>`, or null. */
+export function parseLanguage(input: string): BotLanguage | null {
+  const value = input.trim().toLowerCase();
+  if (["en", "eng", "english", "ഇംഗ്ലീഷ്"].includes(value)) return "en";
+  if (["ml", "mal", "malayalam", "മലയാളം"].includes(value)) return "ml";
+  return null;
+}
+
+/** A place's name in the agent's language, falling back to the English name. */
+export function localName(language: string | null | undefined, place: { name: string; name_ml?: string | null }) {
+  return language === "ml" && place.name_ml ? place.name_ml : place.name;
+}
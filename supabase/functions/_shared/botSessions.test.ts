@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type BotFlow, type FlowContext, menuChoice, notAChoice, resumeFlow, startFlow } from "./botSessions.ts";
+
+type Row = Record<string, unknown>;
+
+/** Just enough of the Supabase client for whatsapp_bot_sessions, keyed by mobile. */
+function standIn(sessions: Map<string, Row>) {
+  const from = () => {
+    let mobile: unknown;
+    let deleting = false;
+    const builder = {
+      select: () => builder,
+      delete: () => {
+        deleting = true;
+        return builder;
+      },
+      eq: (_column: string, value: unknown) => {
+        mobile = value;
+        return builder;
+      },
+      upsert: async (row: Row) => {
+        sessions.set(row.mobile as string, structuredClone(row));
+        return { error: null };
+      },
+      maybeSingle: async () => ({ data: structuredClone(sessions.get(mobile as string) ?? null), error: null }),
+      then: (resolve: (value: { error: null }) => unknown) => {
+        if (deleting) sessions.delete(mobile as string);
+        return Promise.resolve({ error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  return { from } as unknown as SupabaseClient;
+}
+
+const MOBILE = "9876543210";
+const ctx: FlowContext = {};
+
+const FLOW: BotFlow<FlowContext> = {
+  name: "colour",
+  timeoutMinutes: 10,
+  first: "pick",
+  steps: {
+    pick: {
+      prompt: () => ({ text: "1. Red\n2. Blue" }),
+      reply: (input) => {
+        const n = menuChoice(input, 2);
+        return n ? { next: "confirm", data: { colour: n === 1 ? "Red" : "Blue" }, note: "Noted." } : notAChoice(input);
+      },
+    },
+    confirm: {
+      prompt: (_ctx, data) => ({ text: `Save ${data.colour}? 1. Yes` }),
+      reply: (input, _ctx, data) => (input === "1" ? { done: `Saved ${data.colour}.` } : notAChoice(input)),
+    },
+  },
+};
+
+describe("bot flows", () => {
+  let sessions: Map<string, Row>;
+  let supabase: SupabaseClient;
+  const resume = (input: string) => resumeFlow(supabase, MOBILE, [FLOW], input, ctx);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+    sessions = new Map();
+    supabase = standIn(sessions);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("saves the step an agent is on until the flow's timeout", async () => {
+    expect(await startFlow(supabase, MOBILE, FLOW, ctx, {})).toBe("1. Red\n2. Blue\n\n0️⃣ Cancel");
+    expect(sessions.get(MOBILE)).toMatchObject({
+      flow: "colour",
+      step: "pick",
+      history: [],
+      expires_at: "2026-10-19T10:10:00.000Z",
+    });
+  });
+
+  it("moves through the steps and finishes the flow", async () => {
+    await startFlow(supabase, MOBILE, FLOW, ctx, {});
+    expect(await resume("2")).toEqual({ reply: "Noted.\n\nSave Blue? 1. Yes\n\n0️⃣ Back" });
+    expect(sessions.get(MOBILE)).toMatchObject({ step: "confirm", history: ["pick"], data: { colour: "Blue" } });
+    expect(await resume("1")).toEqual({ reply: "Saved Blue." });
+    expect(sessions.has(MOBILE)).toBe(false);
+  });
+
+  it("goes back a step on 0, and cancels from the first", async () => {
+    await startFlow(supabase, MOBILE, FLOW, ctx, {});
+    await resume("1");
+    expect(await resume("0")).toEqual({ reply: "1. Red\n2. Blue\n\n0️⃣ Cancel" });
+    expect(await resume("0")).toEqual({ reply: "❌ Cancelled." });
+    expect(sessions.has(MOBILE)).toBe(false);
+  });
+
+  it("asks again for another number, and passes anything else on", async () => {
+    await startFlow(supabase, MOBILE, FLOW, ctx, {});
+    expect(await resume("7")).toEqual({ reply: "❌ Invalid choice.\n\n1. Red\n2. Blue\n\n0️⃣ Cancel" });
+    expect(await resume("help")).toBeNull();
+    expect(sessions.has(MOBILE)).toBe(false);
+  });
+
+  it("passes messages on when there is no session, or its flow is gone", async () => {
+    expect(await resume("1")).toBeNull();
+    sessions.set(MOBILE, { mobile: MOBILE, flow: "retired", step: "pick", history: [], data: {}, expires_at: "2026-10-20T00:00:00Z" });
+    expect(await resume("1")).toBeNull();
+    expect(sessions.has(MOBILE)).toBe(false);
+  });
+
+  it("reports a session that has just lapsed", async () => {
+    await startFlow(supabase, MOBILE, FLOW, ctx, {});
+    vi.setSystemTime(new Date("2026-10-19T10:25:00Z"));
+    expect(await resume("1")).toEqual({ expired: true });
+    expect(sessions.has(MOBILE)).toBe(false);
+    expect(await resume("1")).toBeNull();
+  });
+
+  it("drops a session that lapsed long ago and lets the message through", async () => {
+    await startFlow(supabase, MOBILE, FLOW, ctx, {});
+    vi.setSystemTime(new Date("2026-10-22T09:00:00Z"));
+    expect(await resume("2")).toBeNull();
+    expect(sessions.has(MOBILE)).toBe(false);
+  });
+});
+
+describe("menuChoice", () => {
+  it("accepts only numbers among the options", () => {
+    expect(menuChoice("2", 3)).toBe(2);
+    expect(menuChoice("0", 3)).toBeNull();
+    expect(menuChoice("4", 3)).toBeNull();
+    expect(menuChoice("2a", 3)).toBeNull();
+  });
+});
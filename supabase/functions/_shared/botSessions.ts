@@ -0,0 +1,193 @@
+// Multi-step conversations for the WhatsApp bot, used by whatsapp-worklog.
+//
+// A flow is a set of named steps. Each step has a prompt, sent when the agent
+// reaches it, and a reply handler for the agent's answer, which moves to
+// another step, finishes the flow, or asks again. whatsapp_bot_sessions
+// remembers the step an agent is on between webhooks. Every flow shares two
+// conventions: "0" goes back a step, or cancels from the first; and a session
+// lapses when the agent has not answered within the flow's timeout. The words
+// the engine adds itself ("Back", "Cancelled") come from the context, so they
+// follow the agent's language.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Answers a flow collects as it goes; stored as jsonb. */
+export type FlowData = Record<string, unknown>;
+
+/** A step's message, with anything its replies need (e.g. the choices listed), or an early end. */
+export type StepPrompt<D> = { text: string; data?: Partial<D> } | { done: string };
+
+export type StepOutcome<D> =
+  /** Move on; `note` is sent above the next step's prompt. */
+  | { next: string; data?: Partial<D>; note?: string }
+  /** Finish the flow with a last message. */
+  | { done: string }
+  /** Not an answer this step accepts: say why and ask again. */
+  | { invalid: string }
+  /** Not meant for the flow at all, e.g. a new command: drop the session and handle it as usual. */
+  | { pass: true };
+
+/** The engine's own words, in the agent's language. */
+export interface FlowWords {
+  back: string;
+  cancel: string;
+  cancelled: string;
+}
+
+/** What every flow's context carries; English words when it has none. */
+export interface FlowContext {
+  words?: FlowWords;
+}
+
+const ENGLISH_WORDS: FlowWords = { back: "Back", cancel: "Cancel", cancelled: "❌ Cancelled." };
+
+// A session that lapsed longer ago than this is dropped without a word: the
+// agent has long moved on, and their message is a new command.
+const EXPIRY_NOTICE_MINUTES = 30;
+
+export interface FlowStep<C, D> {
+  prompt(ctx: C, data: D): StepPrompt<D> | Promise<StepPrompt<D>>;
+  reply(input: string, ctx: C, data: D): StepOutcome<D> | Promise<StepOutcome<D>>;
+}
+
+export interface BotFlow<C, D extends FlowData = FlowData> {
+  name: string;
+  timeoutMinutes: number;
+  first: string;
+  steps: Record<string, FlowStep<C, D>>;
+}
+
+export type ResumeResult = { reply: string } | { expired: true } | null;
+
+interface SessionRow {
+  flow: string;
+  step: string;
+  history: string[];
+  data: FlowData;
+  expires_at: string;
+}
+
+export async function endSession(supabase: SupabaseClient, mobile: string) {
+  const { error } = await supabase.from("whatsapp_bot_sessions").delete().eq("mobile", mobile);
+  if (error) throw error;
+}
+
+// Sends the agent to `step` and saves where they are.
+async function enter<C extends FlowContext, D extends FlowData>(
+  supabase: SupabaseClient,
+  mobile: string,
+  flow: BotFlow<C, D>,
+  step: string,
+  history: string[],
+  data: D,
+  ctx: C,
+): Promise<string> {
+  const prompt = await flow.steps[step].prompt(ctx, data);
+  if ("done" in prompt) {
+    await endSession(supabase, mobile);
+    return prompt.done;
+  }
+  const { error } = await supabase.from("whatsapp_bot_sessions").upsert({
+    mobile,
+    flow: flow.name,
+    step,
+    history,
+    data: { ...data, ...prompt.data },
+    expires_at: new Date(Date.now() + flow.timeoutMinutes * 60_000).toISOString(),
+  });
+  if (error) throw error;
+  const words = ctx.words ?? ENGLISH_WORDS;
+  return `${prompt.text}\n\n0️⃣ ${history.length > 0 ? words.back : words.cancel}`;
+}
+
+/** Starts `flow` for `mobile`, at its first step unless `step` is given, replacing any session in progress. */
+export function startFlow<C extends FlowContext, D extends FlowData>(
+  supabase: SupabaseClient,
+  mobile: string,
+  flow: BotFlow<C, D>,
+  ctx: C,
+  data: D,
+  step = flow.first,
+): Promise<string> {
+  return enter(supabase, mobile, flow, step, [], data, ctx);
+}
+
+/**
+ * Passes a message to the session in progress for `mobile`. Null when there is
+ * none or the flow passed the message on, so the caller handles it as a
+ * command; `expired` when the session lapsed within the last
+ * EXPIRY_NOTICE_MINUTES, so the message may still be meant for it.
+ */
+export async function resumeFlow<C extends FlowContext>(
+  supabase: SupabaseClient,
+  mobile: string,
+  flows: BotFlow<C>[],
+  input: string,
+  ctx: C,
+): Promise<ResumeResult> {
+  const { data: session, error } = await supabase
+    .from("whatsapp_bot_sessions")
+    .select("flow, step, history, data, expires_at")
+    .eq("mobile", mobile)
+    .maybeSingle<SessionRow>();
+  if (error) throw error;
+  if (!session) return null;
+
+  const flow = flows.find((f) => f.name === session.flow);
+  if (!flow || !flow.steps[session.step]) {
+    await endSession(supabase, mobile);
+    return null;
+  }
+  const expiresAt = Date.parse(session.expires_at);
+  if (expiresAt <= Date.now()) {
+    await endSession(supabase, mobile);
+    return expiresAt > Date.now() - EXPIRY_NOTICE_MINUTES * 60_000 ? { expired: true } : null;
+  }
+
+  if (input === "0") {
+    if (session.history.length === 0) {
+      await endSession(supabase, mobile);
+      return { reply: (ctx.words ?? ENGLISH_WORDS).cancelled };
+    }
+    const previous = session.history[session.history.length - 1];
+    return { reply: await enter(supabase, mobile, flow, previous, session.history.slice(0, -1), session.data, ctx) };
+  }
+
+  const outcome = await flow.steps[session.step].reply(input, ctx, session.data);
+  if ("pass" in outcome) {
+    await endSession(supabase, mobile);
+    return null;
+  }
+  if ("done" in outcome) {
+    await endSession(supabase, mobile);
+    return { reply: outcome.done };
+  }
+  if ("invalid" in outcome) {
+    const prompt = await enter(supabase, mobile, flow, session.step, session.history, session.data, ctx);
+    return { reply: `${outcome.invalid}\n\n${prompt}` };
+  }
+  const next = await enter(
+    supabase,
+    mobile,
+    flow,
+    outcome.next,
+    [...session.history, session.step],
+    { ...session.data, ...outcome.data },
+    ctx,
+  );
+  return { reply: outcome.note ? `${outcome.note}\n\n${next}` : next };
+}
+
+/** The 1-based choice `input` picks from `count` options, or null. */
+export function menuChoice(input: string, count: number): number | null {
+  if (!/^\d+$/.test(input)) return null;
+  const n = parseInt(input, 10);
+  return n >= 1 && n <= count ? n : null;
+}
+
+/**
+ * For a reply that is not one of the choices: another number is asked again
+ * with `message`, anything else is passed on.
+ */
+export function notAChoice<D>(input: string, message = "❌ Invalid choice."): StepOutcome<D> {
+  return /^\d+$/.test(input) ? { invalid: message } : { pass: true };
+}
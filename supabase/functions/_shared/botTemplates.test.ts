@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { commandAllowed, renderTemplate, templatePlaceholders } from "./botTemplates.ts";
+
+describe("templatePlaceholders", () => {
+  it("lists each known placeholder once, whatever its case or spacing", () => {
+    expect(
+      templatePlaceholders("Hi {{agent.name}} ({{ AGENT.NAME }}), balance {{wallet.balance}} on {{today.date}}"),
+    ).toEqual(["agent.name", "wallet.balance", "today.date"]);
+  });
+
+  it("ignores unknown placeholders and plain braces", () => {
+    expect(templatePlaceholders("{{agent.salary}} {agent.name} {{ }}")).toEqual([]);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills in the values it has", () => {
+    expect(
+      renderTemplate("Hi {{agent.name}}, your upline is {{ agent.upline }} ({{Agent.Upline_Mobile}})", {
+        "agent.name": "Anas",
+        "agent.upline": "Fathima",
+        "agent.upline_mobile": "9000000002",
+      }),
+    ).toBe("Hi Anas, your upline is Fathima (9000000002)");
+  });
+
+  it("leaves unknown or missing placeholders as written", () => {
+    expect(renderTemplate("{{agent.name}} has {{wallet.balance}} {{agent.salary}}", { "agent.name": "Anas" })).toBe(
+      "Anas has {{wallet.balance}} {{agent.salary}}",
+    );
+  });
+
+  it("keeps an empty value empty", () => {
+    expect(renderTemplate("Ward: {{agent.ward}}.", { "agent.ward": "" })).toBe("Ward: .");
+  });
+});
+
+describe("commandAllowed", () => {
+  it("allows commands without roles to everyone", () => {
+    expect(commandAllowed({ allowed_roles: null }, "pro")).toBe(true);
+    expect(commandAllowed({ allowed_roles: [] }, null)).toBe(true);
+  });
+
+  it("limits commands with roles to those roles", () => {
+    const command = { allowed_roles: ["team_leader", "coordinator"] };
+    expect(commandAllowed(command, "coordinator")).toBe(true);
+    expect(commandAllowed(command, "pro")).toBe(false);
+    expect(commandAllowed(command, undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+// Placeholders in custom WhatsApp command replies, used by whatsapp-worklog.
+//
+// An admin writes a reply such as "Hi {{agent.name}}, your balance is
+// {{wallet.balance}}" in whatsapp_bot_commands.response_text; each
+// placeholder is filled in for the agent who sent the command. Only the
+// values a reply uses are looked up. A placeholder that is not in
+// TEMPLATE_PLACEHOLDERS is left as written. src/lib/botTemplates.ts mirrors
+// this for the live preview in the command editor.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadWorkCalendar, offReason } from "./workCalendar.ts";
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "agent.name",
+  "agent.mobile",
+  "agent.role",
+  "agent.ward",
+  "agent.upline",
+  "agent.upline_mobile",
+  "panchayath.name",
+  "wallet.balance",
+  "today.date",
+  "today.log_status",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+export interface TemplateAgent {
+  id: string;
+  name: string;
+  mobile: string;
+  role: string;
+  ward: string;
+  panchayath_id: string;
+  parent_agent_id: string | null;
+  language: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([a-z_.]+)\s*\}\}/gi;
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin_partner: "Super Admin / Business Partner",
+  team_leader: "Team Leader",
+  coordinator: "Coordinator",
+  group_leader: "Group Leader",
+  pro: "PRO",
+};
+
+/** The known placeholders `text` uses. */
+export function templatePlaceholders(text: string): TemplatePlaceholder[] {
+  const used = new Set<TemplatePlaceholder>();
+  for (const [, key] of text.matchAll(PLACEHOLDER)) {
+    const name = key.toLowerCase() as TemplatePlaceholder;
+    if (TEMPLATE_PLACEHOLDERS.includes(name)) used.add(name);
+  }
+  return [...used];
+}
+
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER, (match, key: string) => values[key.toLowerCase() as TemplatePlaceholder] ?? match);
+}
+
+/** Whether an agent with `role` may use a command; commands without roles are for everyone. */
+export function commandAllowed(command: { allowed_roles: string[] | null }, role: string | null | undefined): boolean {
+  const roles = command.allowed_roles || [];
+  return roles.length === 0 || (!!role && roles.includes(role));
+}
+
+/** The values of `placeholders` for `agent` on `today`. */
+export async function loadTemplateValues(
+  supabase: SupabaseClient,
+  agent: TemplateAgent,
+  today: string,
+  placeholders: TemplatePlaceholder[],
+): Promise<TemplateValues> {
+  const needs = (...keys: TemplatePlaceholder[]) => keys.some((k) => placeholders.includes(k));
+  const values: TemplateValues = {
+    "agent.name": agent.name,
+    "agent.mobile": agent.mobile,
+    "agent.role": ROLE_LABELS[agent.role] || agent.role,
+    "agent.ward": agent.ward,
+    "today.date": today,
+  };
+
+  if (needs("agent.upline", "agent.upline_mobile")) {
+    const { data: parent } = agent.parent_agent_id
+      ? await supabase.from("pennyekart_agents").select("name, mobile, role").eq("id", agent.parent_agent_id).maybeSingle()
+      : { data: null };
+    values["agent.upline"] = parent ? `${parent.name} (${ROLE_LABELS[parent.role] || parent.role})` : "—";
+    values["agent.upline_mobile"] = parent?.mobile || "—";
+  }
+
+  if (needs("panchayath.name")) {
+    const { data: panchayath } = await supabase
+      .from("panchayaths")
+      .select("name, name_ml")
+      .eq("id", agent.panchayath_id)
+      .maybeSingle();
+    values["panchayath.name"] = (agent.language === "ml" && panchayath?.name_ml) || panchayath?.name || "—";
+  }
+
+  if (needs("wallet.balance")) {
+    const { data: transactions, error } = await supabase
+      .from("agent_wallet_transactions")
+      .select("amount")
+      .eq("agent_id", agent.id);
+    if (error) throw error;
+    const balance = (transactions || []).reduce((sum: number, t: { amount: number }) => sum + Number(t.amount), 0);
+    values["wallet.balance"] = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(balance);
+  }
+
+  if (needs("today.log_status")) {
+    const { data: log } = await supabase
+      .from("agent_work_logs")
+      .select("id")
+      .eq("agent_id", agent.id)
+      .eq("work_date", today)
+      .maybeSingle();
+    const off = log ? null : offReason(await loadWorkCalendar(supabase, today, today), agent, today);
+    values["today.log_status"] = log ? "✅ Submitted" : off ? `🏖️ Day off (${off})` : "❌ Not submitted yet";
+  }
+
+  return values;
+}
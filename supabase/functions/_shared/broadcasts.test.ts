@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cancelBroadcast, sendQueuedMessages } from "./broadcasts.ts";
+import type { WhatsAppSendResult } from "./whatsapp.ts";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of the Supabase client for the broadcast queue, over in-memory
+ * tables. A recipient's `broadcast:whatsapp_broadcasts!inner(…)` is joined on
+ * broadcast_id, and filters may reach into it as "broadcast.status".
+ */
+function standIn(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const rows = (tables[table] ||= []);
+    const filters: ((row: Row) => boolean)[] = [];
+    let joined = false;
+    let patch: Row | null = null;
+    let limit = Infinity;
+    const value = (row: Row, column: string) => {
+      const [first, rest] = column.split(".");
+      return rest ? (row[first] as Row | undefined)?.[rest] : row[column];
+    };
+    const view = (row: Row) =>
+      joined ? { ...row, broadcast: tables.whatsapp_broadcasts.find((b) => b.id === row.broadcast_id) } : row;
+    const matching = () => rows.filter((row) => filters.every((f) => f(view(row))));
+    const builder = {
+      select: (columns = "*") => {
+        joined ||= columns.includes("broadcast:whatsapp_broadcasts");
+        return builder;
+      },
+      update: (changes: Row) => {
+        patch = changes;
+        return builder;
+      },
+      eq: (column: string, expected: unknown) => {
+        filters.push((row) => value(row, column) === expected);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(value(row, column)));
+        return builder;
+      },
+      lt: (column: string, bound: string) => {
+        filters.push((row) => String(value(row, column)) < bound);
+        return builder;
+      },
+      lte: (column: string, bound: string) => {
+        filters.push((row) => String(value(row, column)) <= bound);
+        return builder;
+      },
+      order: () => builder,
+      limit: (n: number) => {
+        limit = n;
+        return builder;
+      },
+      maybeSingle: async () => ({ data: matching()[0] ?? null, error: null }),
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) => {
+        const found = matching().slice(0, limit);
+        if (patch) found.forEach((row) => Object.assign(row, patch));
+        return Promise.resolve({ data: found.map(view), error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  return { from } as unknown as SupabaseClient;
+}
+
+const NOW = new Date("2026-10-19T04:30:00Z");
+const TODAY = "2026-10-19";
+const noPause = async () => {};
+
+const recipient = (id: string, status: string, updated_at = NOW.toISOString()): Row => ({
+  id,
+  broadcast_id: "b-1",
+  agent_id: `a-${id}`,
+  mobile: `90000000${id.padStart(2, "0")}`,
+  status,
+  attempts: 0,
+  next_attempt_at: "2026-10-19T04:00:00Z",
+  updated_at,
+});
+
+const agent = (id: string): Row => ({
+  id: `a-${id}`,
+  name: `Agent ${id}`,
+  mobile: `90000000${id.padStart(2, "0")}`,
+  role: "pro",
+  ward: "1",
+  panchayath_id: "pn-1",
+  parent_agent_id: null,
+  language: "en",
+});
+
+describe("sendQueuedMessages", () => {
+  let tables: Record<string, Row[]>;
+  let supabase: SupabaseClient;
+  const statuses = () => tables.whatsapp_broadcast_recipients.map((r) => [r.id, r.status]);
+
+  beforeEach(() => {
+    tables = {
+      whatsapp_broadcasts: [{ id: "b-1", message: "Hello", status: "sending" }],
+      whatsapp_broadcast_recipients: [recipient("1", "queued"), recipient("2", "queued")],
+      pennyekart_agents: [agent("1"), agent("2")],
+    };
+    supabase = standIn(tables);
+  });
+
+  it("retries a failed send later while the broadcast is sending", async () => {
+    const send = vi.fn(async (): Promise<WhatsAppSendResult> => ({ ok: false, error: "Timed out" }));
+    expect(await sendQueuedMessages(supabase, NOW, TODAY, send, noPause)).toEqual({ sent: 0, retrying: 2, failed: 0 });
+    expect(tables.whatsapp_broadcast_recipients[0]).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      next_attempt_at: "2026-10-19T04:32:00.000Z",
+      error: "Timed out",
+    });
+  });
+
+  it("does not requeue a send that fails after the broadcast was cancelled, nor send the rest", async () => {
+    const send = vi.fn(async (): Promise<WhatsAppSendResult> => {
+      await cancelBroadcast(supabase, "b-1", NOW);
+      return { ok: false, error: "Timed out" };
+    });
+    expect(await sendQueuedMessages(supabase, NOW, TODAY, send, noPause)).toEqual({ sent: 0, retrying: 0, failed: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(statuses()).toEqual([["1", "cancelled"], ["2", "cancelled"]]);
+  });
+
+  it("records a message that went out while the broadcast was being cancelled", async () => {
+    const send = vi.fn(async (): Promise<WhatsAppSendResult> => {
+      await cancelBroadcast(supabase, "b-1", NOW);
+      return { ok: true, sid: "wamid-1", simulated: false };
+    });
+    expect(await sendQueuedMessages(supabase, NOW, TODAY, send, noPause)).toEqual({ sent: 1, retrying: 0, failed: 0 });
+    expect(tables.whatsapp_broadcast_recipients[0]).toMatchObject({ status: "sent", provider_message_id: "wamid-1" });
+    expect(tables.whatsapp_broadcast_recipients[1]).toMatchObject({ status: "cancelled" });
+  });
+
+  it("puts recipients left sending by a dead run back in the queue only while the broadcast is sending", async () => {
+    const send = vi.fn(async (): Promise<WhatsAppSendResult> => ({ ok: true, sid: "wamid", simulated: false }));
+    tables.whatsapp_broadcasts.push({ id: "b-2", message: "Bye", status: "cancelled" });
+    tables.whatsapp_broadcast_recipients = [
+      recipient("1", "sending", "2026-10-19T04:00:00Z"),
+      { ...recipient("2", "sending", "2026-10-19T04:00:00Z"), broadcast_id: "b-2" },
+    ];
+    await sendQueuedMessages(supabase, NOW, TODAY, send, noPause);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(statuses()).toEqual([["1", "sent"], ["2", "cancelled"]]);
+  });
+});
+
+describe("cancelBroadcast", () => {
+  it("cancels queued recipients and those being sent, and leaves sent ones", async () => {
+    const tables: Record<string, Row[]> = {
+      whatsapp_broadcasts: [{ id: "b-1", status: "sending" }],
+      whatsapp_broadcast_recipients: [recipient("1", "sent"), recipient("2", "sending"), recipient("3", "queued")],
+    };
+    const supabase = standIn(tables);
+    expect(await cancelBroadcast(supabase, "b-1", NOW)).toBe(true);
+    expect(tables.whatsapp_broadcasts[0]).toMatchObject({ status: "cancelled", completed_at: NOW.toISOString() });
+    expect(tables.whatsapp_broadcast_recipients.map((r) => r.status)).toEqual(["sent", "cancelled", "cancelled"]);
+    expect(await cancelBroadcast(supabase, "b-1", NOW)).toBe(false);
+  });
+});
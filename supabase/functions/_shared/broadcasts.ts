@@ -0,0 +1,399 @@
+// WhatsApp broadcasts to agents, sent by whatsapp-broadcasts.
+//
+// A super admin writes a message, which may use the placeholders in
+// botTemplates.ts, and picks its audience with BroadcastFilters. When the
+// broadcast is due its audience is worked out once and queued in
+// whatsapp_broadcast_recipients, so "absent today" means absent on the day it
+// goes out. Each scheduler run sends at most SEND_BATCH messages, a second
+// apart, to stay within the provider's rate limits; a failed send is retried
+// after RETRY_DELAYS_MINUTES and given up after MAX_ATTEMPTS, and nothing more
+// is sent or retried once the broadcast is cancelled. Delivery
+// receipts reach whatsapp-worklog's webhook, which passes them to
+// recordDeliveryStatuses.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizePhone } from "./customerAttribution.ts";
+import { loadTemplateValues, renderTemplate, type TemplateAgent, templatePlaceholders } from "./botTemplates.ts";
+import { loadWorkCalendar, offReason } from "./workCalendar.ts";
+import {
+  type DeliveryState,
+  type DeliveryStatus,
+  type SendOptions,
+  sendWhatsAppText,
+  type WhatsAppSendResult,
+} from "./whatsapp.ts";
+
+export interface BroadcastFilters {
+  /** Empty for every role. */
+  roles: string[];
+  /** Empty for every panchayath. */
+  panchayath_ids: string[];
+  /** Empty for every ward; matched without regard to case. */
+  wards: string[];
+  /** Against the latest rank snapshot; agents without one match only "any". */
+  rank: "any" | "full" | "not_full";
+  /** Only agents expected to work today who have not logged it. */
+  absent_today: boolean;
+}
+
+export type BroadcastStatus = "scheduled" | "sending" | "sent" | "cancelled";
+export type RecipientStatus = "queued" | "sending" | "sent" | "delivered" | "read" | "failed" | "cancelled";
+
+export interface BroadcastAgent extends TemplateAgent {
+  is_active: boolean;
+}
+
+export interface QueueRunSummary {
+  started: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  finished: number;
+}
+
+type Send = (mobile: string, message: string, options?: SendOptions) => Promise<WhatsAppSendResult>;
+
+export const BROADCAST_ROLES = ["super_admin_partner", "team_leader", "coordinator", "group_leader", "pro"] as const;
+export const SEND_BATCH = 30;
+export const MAX_ATTEMPTS = 3;
+const RETRY_DELAYS_MINUTES = [2, 10];
+const SEND_GAP_MS = 1000;
+// A recipient left "sending" this long belongs to a run that died mid-batch
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+// Receipts only move a recipient forward; "sent" is already recorded by the send.
+const ADVANCES_FROM: Record<DeliveryState, RecipientStatus[]> = {
+  sent: [],
+  delivered: ["sent"],
+  read: ["sent", "delivered"],
+  failed: ["sent"],
+};
+
+async function loadAllPages<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** The active agents `filters` picks out on `today`, by name. */
+export async function resolveAudience(
+  supabase: SupabaseClient,
+  filters: BroadcastFilters,
+  today: string,
+): Promise<BroadcastAgent[]> {
+  const roles = filters.roles.length > 0 ? filters.roles : [...BROADCAST_ROLES];
+  let agents = await loadAllPages<BroadcastAgent>((from, to) => {
+    let query = supabase
+      .from("pennyekart_agents")
+      .select("id, name, mobile, role, ward, panchayath_id, parent_agent_id, language, is_active")
+      .eq("is_active", true)
+      .in("role", roles);
+    if (filters.panchayath_ids.length > 0) query = query.in("panchayath_id", filters.panchayath_ids);
+    return query.order("id").range(from, to);
+  });
+
+  if (filters.wards.length > 0) {
+    const wards = new Set(filters.wards.map((w) => w.trim().toLowerCase()));
+    agents = agents.filter((a) => wards.has(a.ward.trim().toLowerCase()));
+  }
+
+  if (filters.rank !== "any") {
+    const { data: latest, error } = await supabase
+      .from("pennyekart_agent_rank_snapshots")
+      .select("snapshot_date")
+      .order("snapshot_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    const snapshots = latest
+      ? await loadAllPages<{ agent_id: string; is_full: boolean }>((from, to) =>
+        supabase
+          .from("pennyekart_agent_rank_snapshots")
+          .select("agent_id, is_full")
+          .eq("snapshot_date", latest.snapshot_date)
+          .order("agent_id")
+          .range(from, to)
+      )
+      : [];
+    const wanted = filters.rank === "full";
+    const matching = new Set(snapshots.filter((s) => s.is_full === wanted).map((s) => s.agent_id));
+    agents = agents.filter((a) => matching.has(a.id));
+  }
+
+  if (filters.absent_today) {
+    const [calendar, logs] = await Promise.all([
+      loadWorkCalendar(supabase, today, today),
+      loadAllPages<{ agent_id: string }>((from, to) =>
+        supabase.from("agent_work_logs").select("agent_id").eq("work_date", today).order("agent_id").range(from, to)
+      ),
+    ]);
+    const submitted = new Set(logs.map((l) => l.agent_id));
+    agents = agents.filter((a) => !submitted.has(a.id) && !offReason(calendar, a, today));
+  }
+
+  return agents.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Moves due broadcasts to "sending" and queues their recipients; returns how many started. */
+export async function startDueBroadcasts(supabase: SupabaseClient, now: Date, today: string): Promise<number> {
+  const { data: due, error } = await supabase
+    .from("whatsapp_broadcasts")
+    .select("id, filters")
+    .eq("status", "scheduled")
+    .lte("scheduled_at", now.toISOString())
+    .order("scheduled_at");
+  if (error) throw error;
+
+  let started = 0;
+  for (const broadcast of due || []) {
+    // Claim it, so an overlapping run does not queue it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from("whatsapp_broadcasts")
+      .update({ status: "sending", started_at: now.toISOString() })
+      .eq("id", broadcast.id)
+      .eq("status", "scheduled")
+      .select("id");
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) continue;
+
+    const audience = await resolveAudience(supabase, broadcast.filters as BroadcastFilters, today);
+    const rows = audience.map((a) => ({
+      broadcast_id: broadcast.id,
+      agent_id: a.id,
+      name: a.name,
+      mobile: normalizePhone(a.mobile) || a.mobile,
+      next_attempt_at: now.toISOString(),
+    }));
+    for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+      const { error: insertError } = await supabase.from("whatsapp_broadcast_recipients").insert(rows.slice(i, i + PAGE_SIZE));
+      if (insertError) throw insertError;
+    }
+
+    const { error: countError } = await supabase
+      .from("whatsapp_broadcasts")
+      .update({ recipient_count: rows.length })
+      .eq("id", broadcast.id);
+    if (countError) throw countError;
+    started++;
+  }
+  return started;
+}
+
+/** Minutes to wait before attempt `attempts + 1`. */
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1];
+}
+
+/** Sends the next batch of queued messages, retrying failures until MAX_ATTEMPTS. */
+export async function sendQueuedMessages(
+  supabase: SupabaseClient,
+  now: Date,
+  today: string,
+  send: Send = sendWhatsAppText,
+  pause: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+): Promise<Omit<QueueRunSummary, "started" | "finished">> {
+  const summary = { sent: 0, retrying: 0, failed: 0 };
+
+  // Stale recipients go back in the queue only while their broadcast is still sending
+  const { data: stale, error: staleError } = await supabase
+    .from("whatsapp_broadcast_recipients")
+    .select("id, broadcast:whatsapp_broadcasts!inner(status)")
+    .eq("status", "sending")
+    .lt("updated_at", new Date(now.getTime() - STALE_SENDING_MS).toISOString());
+  if (staleError) throw staleError;
+  const reset: Record<"queued" | "cancelled", string[]> = { queued: [], cancelled: [] };
+  for (const r of stale || []) {
+    const { status } = r.broadcast as unknown as { status: BroadcastStatus };
+    reset[status === "sending" ? "queued" : "cancelled"].push(r.id);
+  }
+  for (const [status, ids] of Object.entries(reset)) {
+    if (ids.length === 0) continue;
+    const { error: resetError } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .update({ status })
+      .in("id", ids)
+      .eq("status", "sending");
+    if (resetError) throw resetError;
+  }
+
+  const { data: queued, error } = await supabase
+    .from("whatsapp_broadcast_recipients")
+    .select("id, broadcast_id, agent_id, mobile, attempts, broadcast:whatsapp_broadcasts!inner(message, status)")
+    .eq("status", "queued")
+    .eq("broadcast.status", "sending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at")
+    .limit(SEND_BATCH);
+  if (error) throw error;
+  if (!queued || queued.length === 0) return summary;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("whatsapp_broadcast_recipients")
+    .update({ status: "sending" })
+    .in("id", queued.map((r) => r.id))
+    .eq("status", "queued")
+    .select("id");
+  if (claimError) throw claimError;
+  const claimedIds = new Set((claimed || []).map((r: { id: string }) => r.id));
+  const batch = queued.filter((r) => claimedIds.has(r.id));
+
+  const { data: agents, error: agentError } = await supabase
+    .from("pennyekart_agents")
+    .select("id, name, mobile, role, ward, panchayath_id, parent_agent_id, language")
+    .in("id", batch.map((r) => r.agent_id));
+  if (agentError) throw agentError;
+  const agentsById = new Map((agents || []).map((a: TemplateAgent) => [a.id, a]));
+
+  for (const [i, recipient] of batch.entries()) {
+    if (i > 0) await pause(SEND_GAP_MS);
+    // Cancelling the broadcast has already marked the rest of the batch cancelled
+    if (!(await isStillSending(supabase, recipient.broadcast_id))) continue;
+
+    const { message } = recipient.broadcast as unknown as { message: string };
+    const agent = agentsById.get(recipient.agent_id);
+    const attempts = recipient.attempts + 1;
+
+    let result: WhatsAppSendResult;
+    try {
+      if (!agent) {
+        result = { ok: false, error: "Agent no longer exists" };
+      } else {
+        const values = await loadTemplateValues(supabase, agent, today, templatePlaceholders(message));
+        const text = renderTemplate(message, values);
+        result = await send(recipient.mobile, text, {
+          trackDelivery: true,
+          template: { purpose: "broadcast", params: [text] },
+        });
+      }
+    } catch (err) {
+      result = { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    // A message that went out is recorded even if the broadcast was cancelled meanwhile
+    if (result.ok) {
+      const { error: updateError } = await supabase
+        .from("whatsapp_broadcast_recipients")
+        .update({ status: "sent", attempts, provider_message_id: result.sid, sent_at: new Date().toISOString(), error: null })
+        .eq("id", recipient.id);
+      if (updateError) throw updateError;
+      summary.sent++;
+      continue;
+    }
+
+    const retry = agent && attempts < MAX_ATTEMPTS && (await isStillSending(supabase, recipient.broadcast_id));
+    let update: Record<string, unknown>;
+    if (retry) {
+      const retryAt = new Date(now.getTime() + retryDelayMinutes(attempts) * 60 * 1000);
+      update = { status: "queued", attempts, next_attempt_at: retryAt.toISOString(), error: result.error };
+    } else {
+      update = { status: "failed", attempts, error: result.error };
+    }
+
+    // A recipient cancelled while its send was under way stays cancelled
+    const { data: updated, error: updateError } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .update(update)
+      .eq("id", recipient.id)
+      .eq("status", "sending")
+      .select("id");
+    if (updateError) throw updateError;
+    if (updated && updated.length > 0) summary[retry ? "retrying" : "failed"]++;
+  }
+  return summary;
+}
+
+async function isStillSending(supabase: SupabaseClient, broadcastId: string): Promise<boolean> {
+  const { data, error } = await supabase.from("whatsapp_broadcasts").select("status").eq("id", broadcastId).maybeSingle();
+  if (error) throw error;
+  return data?.status === "sending";
+}
+
+/**
+ * Stops a broadcast that has not finished, with its queued recipients and any
+ * whose send is under way; returns false if there was none to stop. Messages
+ * already sent stay sent.
+ */
+export async function cancelBroadcast(supabase: SupabaseClient, id: string, now: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("whatsapp_broadcasts")
+    .update({ status: "cancelled", completed_at: now.toISOString() })
+    .eq("id", id)
+    .in("status", ["scheduled", "sending"])
+    .select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  const { error: queueError } = await supabase
+    .from("whatsapp_broadcast_recipients")
+    .update({ status: "cancelled" })
+    .eq("broadcast_id", id)
+    .in("status", ["queued", "sending"]);
+  if (queueError) throw queueError;
+  return true;
+}
+
+/** Marks "sending" broadcasts with nothing left in the queue as sent; returns how many. */
+export async function finishBroadcasts(supabase: SupabaseClient, now: Date): Promise<number> {
+  const { data: sending, error } = await supabase.from("whatsapp_broadcasts").select("id").eq("status", "sending");
+  if (error) throw error;
+
+  let finished = 0;
+  for (const broadcast of sending || []) {
+    const { count, error: countError } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .select("id", { count: "exact", head: true })
+      .eq("broadcast_id", broadcast.id)
+      .in("status", ["queued", "sending"]);
+    if (countError) throw countError;
+    if (count) continue;
+
+    const { error: updateError } = await supabase
+      .from("whatsapp_broadcasts")
+      .update({ status: "sent", completed_at: now.toISOString() })
+      .eq("id", broadcast.id)
+      .eq("status", "sending");
+    if (updateError) throw updateError;
+    finished++;
+  }
+  return finished;
+}
+
+/** One scheduler run: start what is due, send a batch, close what is done. */
+export async function runBroadcastQueue(
+  supabase: SupabaseClient,
+  now: Date,
+  today: string,
+  send: Send = sendWhatsAppText,
+): Promise<QueueRunSummary> {
+  const started = await startDueBroadcasts(supabase, now, today);
+  const sent = await sendQueuedMessages(supabase, now, today, send);
+  const finished = await finishBroadcasts(supabase, now);
+  return { started, ...sent, finished };
+}
+
+/** Applies delivery receipts to the broadcast recipients they belong to; receipts for other messages are ignored. */
+export async function recordDeliveryStatuses(supabase: SupabaseClient, statuses: DeliveryStatus[]): Promise<void> {
+  for (const { messageId, state, error } of statuses) {
+    const from = ADVANCES_FROM[state];
+    if (from.length === 0) continue;
+
+    const update: Record<string, unknown> = { status: state };
+    const at = new Date().toISOString();
+    if (state === "delivered") update.delivered_at = at;
+    if (state === "read") update.read_at = at;
+    if (state === "failed") update.error = error || "Not delivered";
+
+    const { error: updateError } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .update(update)
+      .eq("provider_message_id", messageId)
+      .in("status", from);
+    if (updateError) console.error("Delivery status update error:", updateError);
+  }
+}
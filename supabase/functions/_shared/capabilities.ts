@@ -0,0 +1,40 @@
+// Per-module capabilities for division admins.
+//
+// A super admin grants each admin a set of capabilities (admins.capabilities);
+// every edge function checks the capability of the module it serves before
+// changing anything. Super admins implicitly hold all of them. Division scope
+// (division_id, additional_division_ids) still applies on top.
+import type { AdminSession } from "./session.ts";
+
+export const CAPABILITIES = [
+  "programs:edit",
+  "trainings:publish",
+  "agents:manage",
+  "payouts:approve",
+  "sales:upload",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+export interface CapabilityHolder {
+  isSuperAdmin: boolean;
+  capabilities: string[];
+}
+
+export function hasCapability(holder: CapabilityHolder, capability: Capability): boolean {
+  return holder.isSuperAdmin || holder.capabilities.includes(capability);
+}
+
+/** Capabilities of a verified admin session. */
+export function sessionCapabilities(session: AdminSession): CapabilityHolder {
+  return { isSuperAdmin: session.isSuperAdmin, capabilities: session.admin.capabilities || [] };
+}
+
+/** Body for a 403 response when the caller lacks a capability. */
+export function missingCapabilityBody(capability: Capability) {
+  return {
+    error: "You do not have permission to do this. Ask a super admin for access.",
+    code: "missing_capability",
+    capability,
+  };
+}
@@ -0,0 +1,193 @@
+// Customer attribution used by pennyekart-agents (sync_customer_counts,
+// attributed_customers) to derive PRO customer counts.
+//
+// A customer belongs to the agent who registered them as a direct customer;
+// when several agents registered the same phone, the earliest registration
+// wins, so a customer is only ever counted once. Synced Pennyekart orders are
+// matched to customers by the last 10 digits of the phone number. A customer
+// is active while they have ordered within the rule's window, or, if the rule
+// counts new registrations, while they were registered within it. A PRO's
+// customer_count is the number of its active customers.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface CustomerRule {
+  active_days: number;
+  count_new_registrations: boolean;
+}
+
+export const DEFAULT_CUSTOMER_RULE: CustomerRule = { active_days: 90, count_new_registrations: true };
+
+export interface DirectCustomerRef {
+  agent_id: string;
+  name: string;
+  mobile: string;
+  created_at: string;
+}
+
+export interface OrderRef {
+  customer_phone: string | null;
+  source_created_at: string | null;
+}
+
+export interface AttributedCustomer {
+  mobile: string;
+  name: string;
+  registered_at: string;
+  /** Orders matched by phone within the active window. */
+  recent_orders: number;
+  last_order_at: string | null;
+  /** Why the customer counts: a recent order, a recent registration, or not at all. */
+  active_by: "order" | "registration" | null;
+}
+
+// Orders that never reached the customer do not make them active.
+const IGNORED_ORDER_STATUSES = ["cancelled", "returned"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+/** The last 10 digits of a phone number, or null if it has fewer. */
+export function normalizePhone(value: string | null | undefined): string | null {
+  const digits = (value || "").replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/** The start of the active window ending at `now`, as an ISO timestamp. */
+export function activeSince(rule: CustomerRule, now = new Date()): string {
+  return new Date(now.getTime() - rule.active_days * DAY_MS).toISOString();
+}
+
+/**
+ * Every agent's attributed customers, by agent id. `orders` only needs to hold
+ * orders placed since activeSince(rule, now); older ones are ignored.
+ */
+export function attributeCustomers(
+  customers: DirectCustomerRef[],
+  orders: OrderRef[],
+  rule: CustomerRule,
+  now = new Date(),
+): Map<string, AttributedCustomer[]> {
+  // Timestamps come back in more than one format, so compare them as times
+  const since = Date.parse(activeSince(rule, now));
+  const time = (value: string) => Date.parse(value);
+
+  // Each phone goes to its earliest registration
+  const owners = new Map<string, DirectCustomerRef>();
+  for (const c of customers) {
+    const phone = normalizePhone(c.mobile);
+    if (!phone) continue;
+    const owner = owners.get(phone);
+    if (!owner || time(c.created_at) < time(owner.created_at)) owners.set(phone, c);
+  }
+
+  const recent = new Map<string, { count: number; last: string }>();
+  for (const o of orders) {
+    const phone = normalizePhone(o.customer_phone);
+    if (!phone || !owners.has(phone) || !o.source_created_at || time(o.source_created_at) < since) continue;
+    const seen = recent.get(phone);
+    if (!seen) recent.set(phone, { count: 1, last: o.source_created_at });
+    else {
+      seen.count += 1;
+      if (time(o.source_created_at) > time(seen.last)) seen.last = o.source_created_at;
+    }
+  }
+
+  const byAgent = new Map<string, AttributedCustomer[]>();
+  for (const [phone, c] of owners) {
+    const orderInfo = recent.get(phone);
+    const activeBy = orderInfo
+      ? "order"
+      : rule.count_new_registrations && time(c.created_at) >= since
+      ? "registration"
+      : null;
+    const list = byAgent.get(c.agent_id) || [];
+    list.push({
+      mobile: phone,
+      name: c.name,
+      registered_at: c.created_at,
+      recent_orders: orderInfo?.count ?? 0,
+      last_order_at: orderInfo?.last ?? null,
+      active_by: activeBy,
+    });
+    byAgent.set(c.agent_id, list);
+  }
+  return byAgent;
+}
+
+export async function loadCustomerRule(supabase: SupabaseClient): Promise<CustomerRule> {
+  const { data, error } = await supabase
+    .from("pennyekart_customer_settings")
+    .select("active_days, count_new_registrations")
+    .maybeSingle();
+  if (error) throw error;
+  return data ?? DEFAULT_CUSTOMER_RULE;
+}
+
+async function loadPaged<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Attributes every direct customer and recent order, for all agents. Every
+ * registration is needed even for one agent's list, since an earlier one by
+ * another agent takes the customer.
+ */
+export async function loadAttribution(supabase: SupabaseClient, now = new Date()) {
+  const rule = await loadCustomerRule(supabase);
+  const since = activeSince(rule, now);
+  const [customers, orders] = await Promise.all([
+    loadPaged<DirectCustomerRef>((from, to) =>
+      supabase
+        .from("agent_direct_customers")
+        .select("agent_id, name, mobile, created_at")
+        .order("id")
+        .range(from, to)
+    ),
+    loadPaged<OrderRef>((from, to) =>
+      supabase
+        .from("pennyekart_orders")
+        .select("customer_phone, source_created_at")
+        .gte("source_created_at", since)
+        .not("customer_phone", "is", null)
+        .or(`status.is.null,status.not.in.(${IGNORED_ORDER_STATUSES.join(",")})`)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+  return { rule, since, customers: attributeCustomers(customers, orders, rule, now) };
+}
+
+export interface CustomerSyncSummary {
+  rule: CustomerRule;
+  pros: number;
+  active_customers: number;
+  updated: number;
+}
+
+/** Recomputes every PRO's customer_count and stores the ones that changed. */
+export async function syncCustomerCounts(supabase: SupabaseClient, now = new Date()): Promise<CustomerSyncSummary> {
+  const [{ rule, customers }, pros] = await Promise.all([
+    loadAttribution(supabase, now),
+    loadPaged<{ id: string }>((from, to) =>
+      supabase.from("pennyekart_agents").select("id").eq("role", "pro").order("id").range(from, to)
+    ),
+  ]);
+  const counts = pros.map((p) => ({
+    agent_id: p.id,
+    customer_count: (customers.get(p.id) || []).filter((c) => c.active_by).length,
+  }));
+  const { data, error } = await supabase.rpc("set_pennyekart_customer_counts", { _counts: counts });
+  if (error) throw error;
+  return {
+    rule,
+    pros: counts.length,
+    active_customers: counts.reduce((sum, c) => sum + c.customer_count, 0),
+    updated: (data as number | null) ?? 0,
+  };
+}
@@ -0,0 +1,241 @@
+// Agent leave requests, used by whatsapp-worklog and samrabhaka-auth.
+//
+// An agent asks for one or more days off; anyone above them in the hierarchy
+// approves or rejects it while it is pending. Only approved leave excuses an
+// agent from logging work (see workCalendar.ts). Dates are India dates, as
+// everywhere work logs are counted.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { teamOf } from "./agentHierarchy.ts";
+import { loadAgents } from "./rankEngine.ts";
+import { sendWhatsAppText } from "./whatsapp.ts";
+
+/** The longest single request, in days. */
+export const MAX_LEAVE_DAYS = 31;
+/** How far back an agent can ask for leave, e.g. after a sick day. */
+const MAX_BACKDATE_DAYS = 7;
+const ID_CHUNK = 200;
+
+export type LeaveSource = "whatsapp" | "portal";
+export type LeaveStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export interface LeaveDates {
+  start_date: string;
+  end_date: string;
+  reason: string;
+}
+
+export interface LeaveRequest extends LeaveDates {
+  id: string;
+  agent_id: string;
+  status: LeaveStatus;
+  source: LeaveSource;
+  decided_by: string | null;
+  decided_at: string | null;
+  remarks: string | null;
+  created_at: string;
+}
+
+export interface TeamLeaveRequest extends LeaveRequest {
+  agent: { name: string; mobile: string; role: string } | null;
+}
+
+/** Thrown with a message suitable for the agent when a request is not allowed. */
+export class LeaveError extends Error {}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * One day as an agent types it: `today`, `tomorrow`, `2026-10-20`, or
+ * `20/10`, `20-10-26`, `20.10.2026`. Without a year, a date more than a month
+ * back is taken to be next year's.
+ */
+export function parseLeaveDay(token: string, today: string): string | null {
+  const t = token.toLowerCase();
+  if (t === "today") return today;
+  if (t === "tomorrow") return addDays(today, 1);
+  const iso = t.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return isoDate(+iso[1], +iso[2], +iso[3]);
+  const dm = t.match(/^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2}|\d{4}))?$/);
+  if (!dm) return null;
+  const thisYear = +today.slice(0, 4);
+  if (dm[3]) return isoDate(dm[3].length === 2 ? 2000 + +dm[3] : +dm[3], +dm[2], +dm[1]);
+  const date = isoDate(thisYear, +dm[2], +dm[1]);
+  if (date && daysBetween(date, today) > 31) return isoDate(thisYear + 1, +dm[2], +dm[1]);
+  return date;
+}
+
+/**
+ * `<day> [to <day>] [reason]`, the text after the WhatsApp `leave` keyword. A
+ * "to" not followed by a date is part of the reason.
+ */
+export function parseLeaveText(text: string, today: string): LeaveDates {
+  const [, first, rest = ""] = text.trim().match(/^(\S+)\s*([\s\S]*)$/) || [];
+  const start = first && parseLeaveDay(first, today);
+  if (!start) throw new LeaveError("Could not read the date. Use DD/MM, e.g. *leave 20/10 Family function*");
+  const range = rest.match(/^(?:-|to)\s*(\S+)\s*([\s\S]*)$/i);
+  const end = range && parseLeaveDay(range[1], today);
+  if (end) return { start_date: start, end_date: end, reason: range[2].trim() };
+  return { start_date: start, end_date: start, reason: rest.trim() };
+}
+
+export function checkLeaveDates({ start_date, end_date }: LeaveDates, today: string) {
+  if (end_date < start_date) throw new LeaveError("The leave ends before it starts");
+  if (daysBetween(start_date, end_date) + 1 > MAX_LEAVE_DAYS) {
+    throw new LeaveError(`Leave can be at most ${MAX_LEAVE_DAYS} days at a time`);
+  }
+  if (daysBetween(start_date, today) > MAX_BACKDATE_DAYS) {
+    throw new LeaveError(`Leave can start at most ${MAX_BACKDATE_DAYS} days ago`);
+  }
+}
+
+/** `20 Oct` or `20 Oct – 22 Oct`. */
+export function formatLeaveDates(start: string, end: string): string {
+  const fmt = (d: string) => `${+d.slice(8, 10)} ${MONTHS[+d.slice(5, 7) - 1]}`;
+  return start === end ? fmt(start) : `${fmt(start)} – ${fmt(end)}`;
+}
+
+export async function createLeaveRequest(
+  supabase: SupabaseClient,
+  agentId: string,
+  dates: LeaveDates,
+  source: LeaveSource,
+  today: string,
+): Promise<LeaveRequest> {
+  checkLeaveDates(dates, today);
+  const { data: overlapping, error: overlapError } = await supabase
+    .from("agent_leave_requests")
+    .select("start_date, end_date")
+    .eq("agent_id", agentId)
+    .in("status", ["pending", "approved"])
+    .lte("start_date", dates.end_date)
+    .gte("end_date", dates.start_date)
+    .limit(1);
+  if (overlapError) throw overlapError;
+  if (overlapping && overlapping.length > 0) {
+    const o = overlapping[0];
+    throw new LeaveError(`You already have leave for ${formatLeaveDates(o.start_date, o.end_date)}`);
+  }
+
+  const { data, error } = await supabase
+    .from("agent_leave_requests")
+    .insert({ agent_id: agentId, ...dates, source })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as LeaveRequest;
+}
+
+/** Pending requests from everyone below `approverId`, oldest first. */
+export async function pendingTeamLeaves(supabase: SupabaseClient, approverId: string): Promise<TeamLeaveRequest[]> {
+  const team = [...teamOf(approverId, await loadAgents(supabase))];
+  const rows: TeamLeaveRequest[] = [];
+  for (let i = 0; i < team.length; i += ID_CHUNK) {
+    const { data, error } = await supabase
+      .from("agent_leave_requests")
+      .select("*, agent:pennyekart_agents!agent_leave_requests_agent_id_fkey(name, mobile, role)")
+      .eq("status", "pending")
+      .in("agent_id", team.slice(i, i + ID_CHUNK));
+    if (error) throw error;
+    rows.push(...((data || []) as TeamLeaveRequest[]));
+  }
+  return rows.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** Approves or rejects a pending request from someone in the approver's team. */
+export async function decideLeave(
+  supabase: SupabaseClient,
+  approverId: string,
+  leaveId: string,
+  approve: boolean,
+  remarks: string | null,
+): Promise<LeaveRequest> {
+  const { data: leave, error: loadError } = await supabase
+    .from("agent_leave_requests")
+    .select("id, agent_id, status")
+    .eq("id", leaveId)
+    .maybeSingle();
+  if (loadError) throw loadError;
+  if (!leave) throw new LeaveError("Leave request not found");
+  if (!teamOf(approverId, await loadAgents(supabase)).has(leave.agent_id)) {
+    throw new LeaveError("Only someone above the agent can decide their leave");
+  }
+  if (leave.status !== "pending") throw new LeaveError(`This request is already ${leave.status}`);
+
+  const { data, error } = await supabase
+    .from("agent_leave_requests")
+    .update({
+      status: approve ? "approved" : "rejected",
+      decided_by: approverId,
+      decided_at: new Date().toISOString(),
+      remarks: remarks || null,
+    })
+    .eq("id", leaveId)
+    .eq("status", "pending")
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new LeaveError("This request was decided by someone else");
+  return data as LeaveRequest;
+}
+
+/** The agent withdraws a request that is pending, or approved and not yet started. */
+export async function cancelLeave(supabase: SupabaseClient, agentId: string, leaveId: string, today: string) {
+  const { data: leave, error: loadError } = await supabase
+    .from("agent_leave_requests")
+    .select("id, agent_id, status, start_date")
+    .eq("id", leaveId)
+    .maybeSingle();
+  if (loadError) throw loadError;
+  if (!leave || leave.agent_id !== agentId) throw new LeaveError("Leave request not found");
+  const cancellable = leave.status === "pending" || (leave.status === "approved" && leave.start_date > today);
+  if (!cancellable) throw new LeaveError("Only pending or upcoming leave can be cancelled");
+
+  const { error } = await supabase.from("agent_leave_requests").update({ status: "cancelled" }).eq("id", leaveId);
+  if (error) throw error;
+}
+
+/**
+ * Tells the agent's direct upline about a new request. Best effort: the
+ * request stands even if the message cannot be sent.
+ */
+export async function notifyLeaveRequested(supabase: SupabaseClient, agentId: string, leave: LeaveRequest) {
+  const { data: agent } = await supabase
+    .from("pennyekart_agents")
+    .select("name, parent:pennyekart_agents!pennyekart_agents_parent_agent_id_fkey(mobile, is_active)")
+    .eq("id", agentId)
+    .maybeSingle();
+  const parent = agent?.parent as { mobile: string; is_active: boolean } | null | undefined;
+  if (!agent || !parent?.is_active) return;
+  let msg = `🏖️ *Leave request*\n👤 ${agent.name}\n📅 ${formatLeaveDates(leave.start_date, leave.end_date)}`;
+  if (leave.reason) msg += `\n📝 ${leave.reason}`;
+  msg += `\n\nSend *leaves* to approve or reject.`;
+  const result = await sendWhatsAppText(parent.mobile, msg);
+  if (!result.ok) console.error("Leave request notification failed:", result.error);
+}
+
+/** Tells the agent their request was approved or rejected. Best effort, like notifyLeaveRequested. */
+export async function notifyLeaveDecided(supabase: SupabaseClient, leave: LeaveRequest) {
+  const { data: agent } = await supabase.from("pennyekart_agents").select("mobile").eq("id", leave.agent_id).maybeSingle();
+  if (!agent) return;
+  const approved = leave.status === "approved";
+  let msg = `${approved ? "✅" : "❌"} Your leave for ${formatLeaveDates(leave.start_date, leave.end_date)} was ${leave.status}.`;
+  if (leave.remarks) msg += `\n💬 _${leave.remarks}_`;
+  const result = await sendWhatsAppText(agent.mobile, msg);
+  if (!result.ok) console.error("Leave decision notification failed:", result.error);
+}
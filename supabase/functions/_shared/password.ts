@@ -0,0 +1,107 @@
+// Password and PIN hashing shared by every edge function that stores credentials.
+//
+// Hashes are stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>` (salt and hash
+// base64), so the cost can be raised later without breaking existing rows.
+// Older fast SHA-256 hashes are still accepted through a caller-supplied legacy
+// check and are reported with `needsRehash` so the caller can upgrade them on
+// the next successful login.
+
+const SCHEME = "pbkdf2-sha256";
+export const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+const encoder = new TextEncoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(input: string): Uint8Array {
+  return Uint8Array.from(atob(input), (c) => c.charCodeAt(0));
+}
+
+async function derive(secret: string, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export function constantTimeEqualText(a: string, b: string): boolean {
+  return constantTimeEqual(encoder.encode(a), encoder.encode(b));
+}
+
+/** Hashes a password or PIN with a fresh random salt. */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(secret, salt, PBKDF2_ITERATIONS, HASH_BYTES);
+  return `${SCHEME}$${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+/** True when the stored value is already in the current versioned format. */
+export function isVersionedHash(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith(`${SCHEME}$`);
+}
+
+export interface SecretCheck {
+  ok: boolean;
+  /** Matched, but stored with a legacy scheme or an older cost — store `hashSecret(secret)`. */
+  needsRehash: boolean;
+}
+
+/**
+ * Checks a password or PIN against a stored hash. `legacyHashes` returns the
+ * pre-PBKDF2 hash(es) the caller used to store, so old rows keep working until
+ * they are upgraded.
+ */
+export async function verifySecret(
+  secret: string,
+  stored: string | null | undefined,
+  legacyHashes?: (secret: string) => Promise<string[]>,
+): Promise<SecretCheck> {
+  if (!stored) return { ok: false, needsRehash: false };
+
+  if (isVersionedHash(stored)) {
+    const [, iterText, saltText, hashText] = stored.split("$");
+    const iterations = Number(iterText);
+    if (!Number.isInteger(iterations) || iterations <= 0 || !saltText || !hashText) {
+      return { ok: false, needsRehash: false };
+    }
+    let expected: Uint8Array;
+    let salt: Uint8Array;
+    try {
+      expected = fromBase64(hashText);
+      salt = fromBase64(saltText);
+    } catch {
+      return { ok: false, needsRehash: false };
+    }
+    const actual = await derive(secret, salt, iterations, expected.length);
+    const ok = constantTimeEqual(actual, expected);
+    return { ok, needsRehash: ok && iterations < PBKDF2_ITERATIONS };
+  }
+
+  if (!legacyHashes) return { ok: false, needsRehash: false };
+  for (const candidate of await legacyHashes(secret)) {
+    if (candidate && constantTimeEqualText(candidate, stored)) return { ok: true, needsRehash: true };
+  }
+  return { ok: false, needsRehash: false };
+}
+
+/** Hex SHA-256, only for recomputing legacy hashes. */
+export async function legacySha256Hex(input: string): Promise<string> {
+  const buf = await crypto.subtle.digest("SHA-256", encoder.encode(input));
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { type AgentRole, computeRanks, type RankAgent, type RankRule, type RankRules, snapshotDate } from "./rankEngine.ts";
+
+const agent = (id: string, role: AgentRole, parent: string | null, customers = 0): RankAgent => ({
+  id,
+  role,
+  parent_agent_id: parent,
+  customer_count: customers,
+});
+
+const rule = (role: AgentRole, counted_role: AgentRole | null, required_count: number, extra: Partial<RankRule> = {}) => ({
+  id: `rule-${role}`,
+  role,
+  counted_role,
+  required_count,
+  require_full: false,
+  scope: "team" as const,
+  effective_from: "2026-01-01",
+  ...extra,
+});
+
+// TL ─ C1 ─ G1 ─ P1 (12 customers), P2 (3)
+//    │    └ G2 ─ P3 (10)
+//    └ C2
+const TREE = [
+  agent("tl", "team_leader", null),
+  agent("c1", "coordinator", "tl"),
+  agent("c2", "coordinator", "tl"),
+  agent("g1", "group_leader", "c1"),
+  agent("g2", "group_leader", "c1"),
+  agent("p1", "pro", "g1", 12),
+  agent("p2", "pro", "g1", 3),
+  agent("p3", "pro", "g2", 10),
+];
+
+describe("computeRanks", () => {
+  it("ranks PROs on their own customers", () => {
+    const ranks = computeRanks(TREE, { pro: rule("pro", null, 10) });
+    expect(ranks.get("p1")).toMatchObject({ is_full: true, current_count: 12, total_count: 12, required_count: 10 });
+    expect(ranks.get("p2")).toMatchObject({ is_full: false, current_count: 3, rule_id: "rule-pro" });
+  });
+
+  it("counts agents of the counted role anywhere in the team", () => {
+    const ranks = computeRanks(TREE, { team_leader: rule("team_leader", "pro", 3) });
+    expect(ranks.get("tl")).toMatchObject({ is_full: true, current_count: 3, total_count: 3 });
+  });
+
+  it("counts only direct reports for direct rules", () => {
+    const rules: RankRules = {
+      team_leader: rule("team_leader", "group_leader", 1, { scope: "direct" }),
+      coordinator: rule("coordinator", "group_leader", 2, { scope: "direct" }),
+    };
+    const ranks = computeRanks(TREE, rules);
+    expect(ranks.get("tl")).toMatchObject({ is_full: false, current_count: 0 });
+    expect(ranks.get("c1")).toMatchObject({ is_full: true, current_count: 2 });
+    expect(ranks.get("c2")).toMatchObject({ is_full: false, current_count: 0 });
+  });
+
+  it("counts only full-rank agents when the rule asks for them", () => {
+    const rules: RankRules = {
+      pro: rule("pro", null, 10),
+      group_leader: rule("group_leader", "pro", 2, { require_full: true }),
+      coordinator: rule("coordinator", "group_leader", 1, { require_full: true }),
+    };
+    const ranks = computeRanks(TREE, rules);
+    expect(ranks.get("g1")).toMatchObject({ is_full: false, current_count: 1, total_count: 2 });
+    expect(ranks.get("g2")).toMatchObject({ is_full: false, current_count: 1, total_count: 1 });
+    expect(ranks.get("c1")).toMatchObject({ is_full: false, current_count: 0, total_count: 2 });
+  });
+
+  it("treats roles without a rule as full", () => {
+    expect(computeRanks(TREE, {}).get("c2")).toEqual({
+      agent_id: "c2",
+      role: "coordinator",
+      is_full: true,
+      current_count: 0,
+      total_count: 0,
+      required_count: 0,
+      rule_id: null,
+    });
+  });
+
+  it("ranks agents whose parent is missing as roots", () => {
+    const ranks = computeRanks([agent("g", "group_leader", "gone"), agent("p", "pro", "g")], {
+      group_leader: rule("group_leader", "pro", 1),
+    });
+    expect(ranks.get("g")).toMatchObject({ is_full: true, current_count: 1 });
+  });
+
+  it("ranks every agent of a parent cycle once", () => {
+    const cycle = [agent("a", "group_leader", "b"), agent("b", "group_leader", "a"), agent("self", "pro", "self")];
+    const ranks = computeRanks(cycle, { group_leader: rule("group_leader", "group_leader", 1) });
+    expect([...ranks.keys()].sort()).toEqual(["a", "b", "self"]);
+    const counts = [ranks.get("a")!.current_count, ranks.get("b")!.current_count].sort();
+    expect(counts).toEqual([0, 1]);
+  });
+
+  it("handles deep trees without recursion limits", () => {
+    const chain = Array.from({ length: 20_000 }, (_, i) => agent(`a${i}`, "pro", i ? `a${i - 1}` : null, 1));
+    const ranks = computeRanks(chain, { pro: rule("pro", "pro", 19_999) });
+    expect(ranks.get("a0")).toMatchObject({ is_full: true, current_count: 19_999 });
+  });
+});
+
+describe("snapshotDate", () => {
+  it("uses the date in India", () => {
+    expect(snapshotDate(new Date("2026-03-01T18:29:59Z"))).toBe("2026-03-01");
+    expect(snapshotDate(new Date("2026-03-01T18:30:00Z"))).toBe("2026-03-02");
+  });
+});
@@ -0,0 +1,217 @@
+// Agent rank engine used by pennyekart-agents (compute_ranks).
+//
+// An agent's rank depends on how many agents of another role below them (or,
+// for PROs, how many customers) they have, as set by the rank rule in force
+// for their role (public.pennyekart_rank_rules). The tree is walked once,
+// children before parents, and each agent carries up per-role counts of its
+// whole team, so a run is linear in the number of agents. Results are stored
+// as a dated snapshot per agent by public.record_agent_rank_snapshot, which
+// also records rank achieved / lost events.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AgentRole = "super_admin_partner" | "scode" | "team_leader" | "coordinator" | "group_leader" | "pro";
+
+export interface RankRule {
+  id: string;
+  role: AgentRole;
+  /** Role whose agents are counted; null counts the agent's own customers. */
+  counted_role: AgentRole | null;
+  required_count: number;
+  /** Whether counted agents must themselves be at full rank. */
+  require_full: boolean;
+  /** Only direct reports, or anyone in the agent's team. */
+  scope: "direct" | "team";
+  effective_from: string;
+}
+
+export type RankRules = Partial<Record<AgentRole, RankRule>>;
+
+export interface RankAgent {
+  id: string;
+  role: AgentRole;
+  parent_agent_id: string | null;
+  customer_count: number | null;
+}
+
+export interface AgentRank {
+  agent_id: string;
+  role: AgentRole;
+  is_full: boolean;
+  current_count: number;
+  total_count: number;
+  required_count: number;
+  rule_id: string | null;
+}
+
+type RoleCounts = Record<string, number>;
+
+interface TeamCounts {
+  all: RoleCounts;
+  full: RoleCounts;
+  directAll: RoleCounts;
+  directFull: RoleCounts;
+}
+
+function addCounts(into: RoleCounts, from: RoleCounts) {
+  for (const role in from) into[role] = (into[role] || 0) + from[role];
+}
+
+function rankFor(agent: RankAgent, team: TeamCounts, rule: RankRule | undefined): AgentRank {
+  if (!rule) {
+    return {
+      agent_id: agent.id,
+      role: agent.role,
+      is_full: true,
+      current_count: 0,
+      total_count: 0,
+      required_count: 0,
+      rule_id: null,
+    };
+  }
+  let current: number;
+  let total: number;
+  if (!rule.counted_role) {
+    current = total = agent.customer_count || 0;
+  } else {
+    const all = rule.scope === "direct" ? team.directAll : team.all;
+    const full = rule.scope === "direct" ? team.directFull : team.full;
+    total = all[rule.counted_role] || 0;
+    current = rule.require_full ? full[rule.counted_role] || 0 : total;
+  }
+  return {
+    agent_id: agent.id,
+    role: agent.role,
+    is_full: current >= rule.required_count,
+    current_count: current,
+    total_count: total,
+    required_count: rule.required_count,
+    rule_id: rule.id,
+  };
+}
+
+/**
+ * Ranks for every agent in one pass under the given rules. Agents whose parent
+ * is missing are treated as roots; a parent cycle is broken where the walk
+ * first meets it.
+ */
+export function computeRanks(agents: RankAgent[], rules: RankRules): Map<string, AgentRank> {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  const children = new Map<string, RankAgent[]>();
+  for (const agent of agents) {
+    const parentId = agent.parent_agent_id;
+    if (!parentId || parentId === agent.id || !byId.has(parentId)) continue;
+    const list = children.get(parentId);
+    if (list) list.push(agent);
+    else children.set(parentId, [agent]);
+  }
+
+  const ranks = new Map<string, AgentRank>();
+  const teams = new Map<string, TeamCounts>();
+  const entered = new Set<string>();
+
+  const walk = (root: RankAgent) => {
+    const stack: { agent: RankAgent; expanded: boolean }[] = [{ agent: root, expanded: false }];
+    entered.add(root.id);
+    while (stack.length) {
+      const top = stack[stack.length - 1];
+      if (!top.expanded) {
+        top.expanded = true;
+        for (const child of children.get(top.agent.id) || []) {
+          if (entered.has(child.id)) continue;
+          entered.add(child.id);
+          stack.push({ agent: child, expanded: false });
+        }
+        continue;
+      }
+      stack.pop();
+      const team: TeamCounts = { all: {}, full: {}, directAll: {}, directFull: {} };
+      for (const child of children.get(top.agent.id) || []) {
+        const childTeam = teams.get(child.id);
+        const childRank = ranks.get(child.id);
+        if (!childTeam || !childRank) continue; // back edge of a cycle
+        addCounts(team.all, childTeam.all);
+        addCounts(team.full, childTeam.full);
+        team.all[child.role] = (team.all[child.role] || 0) + 1;
+        team.directAll[child.role] = (team.directAll[child.role] || 0) + 1;
+        if (childRank.is_full) {
+          team.full[child.role] = (team.full[child.role] || 0) + 1;
+          team.directFull[child.role] = (team.directFull[child.role] || 0) + 1;
+        }
+      }
+      teams.set(top.agent.id, team);
+      ranks.set(top.agent.id, rankFor(top.agent, team, rules[top.agent.role]));
+    }
+  };
+
+  for (const agent of agents) {
+    const parentId = agent.parent_agent_id;
+    const isRoot = !parentId || parentId === agent.id || !byId.has(parentId);
+    if (isRoot && !entered.has(agent.id)) walk(agent);
+  }
+  // Whatever is left hangs off a parent cycle.
+  for (const agent of agents) {
+    if (!entered.has(agent.id)) walk(agent);
+  }
+  return ranks;
+}
+
+const PAGE_SIZE = 1000;
+
+/** Every agent, with just what ranking and hierarchy checks need. */
+export async function loadAgents(supabase: SupabaseClient): Promise<RankAgent[]> {
+  const agents: RankAgent[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("pennyekart_agents")
+      .select("id, role, parent_agent_id, customer_count")
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    agents.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return agents;
+  }
+}
+
+/** Each role's rule in force on `date`: the latest one effective on or before it. */
+export async function loadRankRules(supabase: SupabaseClient, date: string): Promise<RankRules> {
+  const { data, error } = await supabase
+    .from("pennyekart_rank_rules")
+    .select("id, role, counted_role, required_count, require_full, scope, effective_from")
+    .lte("effective_from", date)
+    .order("effective_from", { ascending: true });
+  if (error) throw error;
+  const rules: RankRules = {};
+  for (const rule of (data || []) as RankRule[]) rules[rule.role] = rule;
+  return rules;
+}
+
+/** Today's date in India, which is what a snapshot is dated by. */
+export function snapshotDate(now = new Date()): string {
+  return new Date(now.getTime() + 330 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export interface RankRunSummary {
+  snapshot_date: string;
+  agents: number;
+  full: number;
+  achieved: number;
+  lost: number;
+}
+
+/** Computes every agent's rank and stores it as today's snapshot. */
+export async function recordRankSnapshot(supabase: SupabaseClient): Promise<RankRunSummary> {
+  const date = snapshotDate();
+  const [agents, rules] = await Promise.all([loadAgents(supabase), loadRankRules(supabase, date)]);
+  const ranks = [...computeRanks(agents, rules).values()];
+  const { data, error } = await supabase
+    .rpc("record_agent_rank_snapshot", { _snapshot_date: date, _ranks: ranks })
+    .single<{ saved: number; achieved: number; lost: number }>();
+  if (error) throw error;
+  return {
+    snapshot_date: date,
+    agents: data?.saved ?? ranks.length,
+    full: ranks.filter((r) => r.is_full && r.required_count > 0).length,
+    achieved: data?.achieved ?? 0,
+    lost: data?.lost ?? 0,
+  };
+}
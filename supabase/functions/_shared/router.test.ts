@@ -0,0 +1,377 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  action,
+  badRequest,
+  conflict,
+  createRouter,
+  forbidden,
+  HttpError,
+  notFound,
+  requireCapability,
+  z,
+} from "./router.ts";
+import { AGENT_SESSION_TTL_MS, issueSession, revokeSession } from "./session.ts";
+
+type Row = Record<string, unknown>;
+
+/** Just enough of the Supabase client for sessions and admin lookups, over in-memory tables. */
+function standIn(tables: Record<string, Row[]>, users: Record<string, { id: string; email: string }> = {}) {
+  const from = (table: string) => {
+    const rows = (tables[table] ||= []);
+    const filters: ((row: Row) => boolean)[] = [];
+    let written: Row[] | null = null;
+    let patch: Row | null = null;
+    const matching = () => written ?? rows.filter((row) => filters.every((f) => f(row)));
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: null) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      insert: (row: Row) => {
+        written = [{ id: crypto.randomUUID(), ...row }];
+        rows.push(...written);
+        return builder;
+      },
+      update: (changes: Row) => {
+        patch = changes;
+        return builder;
+      },
+      maybeSingle: async () => ({ data: matching()[0] ?? null, error: null }),
+      single: async () => ({ data: matching()[0] ?? null, error: null }),
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) => {
+        if (patch) matching().forEach((row) => Object.assign(row, patch));
+        return Promise.resolve({ data: matching(), error: null }).then(resolve);
+      },
+    };
+    return builder;
+  };
+  const auth = {
+    getUser: async (jwt: string) =>
+      users[jwt] ? { data: { user: users[jwt] }, error: null } : { data: { user: null }, error: new Error("bad jwt") },
+  };
+  return { from, auth } as unknown as SupabaseClient;
+}
+
+const ADMIN = {
+  id: "admin-1",
+  user_id: null,
+  division_id: "division-1",
+  full_name: "Asha",
+  is_active: true,
+  capabilities: ["agents:manage"],
+};
+
+function fixture() {
+  return standIn(
+    {
+      admins: [{ ...ADMIN }, { ...ADMIN, id: "admin-2", full_name: "Former", is_active: false }],
+      user_roles: [{ user_id: "user-super", role: "super_admin" }],
+      pennyekart_agents: [{ id: "agent-1", mobile: "9876543210", is_active: true }],
+      department_members: [{ id: "member-1", department_id: "dept-1", agent_id: "agent-1", is_active: true }],
+    },
+    {
+      "jwt-super": { id: "user-super", email: "root@example.com" },
+      "jwt-plain": { id: "user-plain", email: "someone@example.com" },
+    },
+  );
+}
+
+const whoAmI = (auth: Parameters<typeof action>[0]["auth"]) =>
+  action({ auth, input: z.object({}), handler: async (_input, { caller }) => caller });
+
+const router = createRouter("router-test", {
+  open: whoAmI("public"),
+  admin_only: whoAmI("admin"),
+  super_admin_only: whoAmI("super_admin"),
+  agent_only: whoAmI("agent"),
+  department_only: whoAmI("department"),
+  admin_or_agent: whoAmI(["admin", "agent"]),
+  agent_or_public: whoAmI(["agent", "public"]),
+  register: action({
+    auth: "public",
+    input: z.object({
+      mobile: z.string().regex(/^\d{10}$/, "Invalid mobile number"),
+      count: z.coerce.number().int().min(1).default(1),
+    }),
+    handler: async (input) => ({ success: true, ...input }),
+  }),
+  fail: action({
+    auth: "admin",
+    input: z.object({ kind: z.string() }),
+    handler: async ({ kind }, { caller }) => {
+      if (kind === "bad_request") throw badRequest("Ward is required", { ward: ["Ward is required"] });
+      if (kind === "forbidden") throw forbidden();
+      if (kind === "not_found") throw notFound("Agent not found");
+      if (kind === "conflict") throw conflict("Mobile already registered");
+      if (kind === "teapot") throw new HttpError(418, "Short and stout", "teapot", { spout: true });
+      if (kind === "capability") {
+        requireCapability(caller.admin, "payouts:approve");
+        return { success: true };
+      }
+      if (kind === "database") throw { message: "duplicate key value", code: "23505" };
+      throw new Error("Something broke");
+    },
+  }),
+});
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request("https://functions.test/router-test", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+
+async function call(supabase: SupabaseClient, body: unknown, headers?: Record<string, string>) {
+  const res = await router.handle(post(body, headers), { supabase });
+  return { status: res.status, body: await res.json() };
+}
+
+async function tokenFor(supabase: SupabaseClient, kind: "admin" | "agent" | "department", subjectId: string, claims = {}) {
+  const { token, sessionId } = await issueSession(supabase, { kind, subjectId, ttlMs: AGENT_SESSION_TTL_MS, claims });
+  return { token, sessionId };
+}
+
+beforeAll(() => {
+  vi.stubGlobal("Deno", {
+    env: { get: (name: string) => (name === "SESSION_SIGNING_SECRET" ? "router-test-secret" : undefined) },
+  });
+});
+
+describe("router", () => {
+  describe("requests", () => {
+    it("answers CORS preflights without running an action", async () => {
+      const res = await router.handle(new Request("https://functions.test/router-test", { method: "OPTIONS" }));
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Access-Control-Allow-Headers")).toContain("x-admin-token");
+    });
+
+    it("rejects a body that is not JSON", async () => {
+      expect(await call(fixture(), "{not json")).toEqual({
+        status: 400,
+        body: { error: "Invalid JSON body", code: "invalid_input" },
+      });
+    });
+
+    it("rejects unknown actions, including inherited property names", async () => {
+      for (const name of [undefined, "nope", "toString"]) {
+        const { status, body } = await call(fixture(), { action: name });
+        expect(status).toBe(400);
+        expect(body.code).toBe("unknown_action");
+      }
+    });
+
+    it("takes the action from the query string when the body has none", async () => {
+      const req = new Request("https://functions.test/router-test?action=open", { method: "GET" });
+      const res = await router.handle(req, { supabase: fixture() });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ kind: "public" });
+    });
+  });
+
+  describe("auth kinds", () => {
+    it("lets anyone call a public action", async () => {
+      expect(await call(fixture(), { action: "open" })).toEqual({ status: 200, body: { kind: "public" } });
+    });
+
+    it("accepts an admin session token", async () => {
+      const supabase = fixture();
+      const { token } = await tokenFor(supabase, "admin", "admin-1");
+      const { status, body } = await call(supabase, { action: "admin_only" }, { "x-admin-token": token });
+      expect(status).toBe(200);
+      expect(body.admin).toMatchObject({
+        admin_id: "admin-1",
+        division_id: "division-1",
+        full_name: "Asha",
+        isSuperAdmin: false,
+        capabilities: ["agents:manage"],
+      });
+    });
+
+    it("treats a deactivated admin's token as revoked", async () => {
+      const supabase = fixture();
+      const { token } = await tokenFor(supabase, "admin", "admin-2");
+      expect(await call(supabase, { action: "admin_only" }, { "x-admin-token": token })).toMatchObject({
+        status: 401,
+        body: { code: "session_revoked" },
+      });
+    });
+
+    it("accepts a super admin's Supabase login as an admin", async () => {
+      const { status, body } = await call(fixture(), { action: "admin_only" }, { authorization: "Bearer jwt-super" });
+      expect(status).toBe(200);
+      expect(body.admin).toMatchObject({ admin_id: "user-super", isSuperAdmin: true, session: null });
+    });
+
+    it("forbids a Supabase login without the super admin role", async () => {
+      for (const name of ["admin_only", "super_admin_only"]) {
+        expect(await call(fixture(), { action: name }, { authorization: "Bearer jwt-plain" })).toEqual({
+          status: 403,
+          body: { error: "Forbidden", code: "forbidden" },
+        });
+      }
+    });
+
+    it("accepts only a super admin's Supabase login for super_admin actions", async () => {
+      const supabase = fixture();
+      expect(await call(supabase, { action: "super_admin_only" }, { authorization: "Bearer jwt-super" })).toEqual({
+        status: 200,
+        body: { kind: "super_admin", superAdmin: { user_id: "user-super", email: "root@example.com" } },
+      });
+      const { token } = await tokenFor(supabase, "admin", "admin-1");
+      expect((await call(supabase, { action: "super_admin_only" }, { "x-admin-token": token })).status).toBe(401);
+    });
+
+    it("accepts an agent token from the header or the body", async () => {
+      const supabase = fixture();
+      const { token, sessionId } = await tokenFor(supabase, "agent", "agent-1");
+      const expected = { status: 200, body: { kind: "agent", agent: { agent_id: "agent-1", session_id: sessionId } } };
+      expect(await call(supabase, { action: "agent_only" }, { "x-samrabhaka-token": token })).toEqual(expected);
+      expect(await call(supabase, { action: "agent_only", token })).toEqual(expected);
+    });
+
+    it("reports why an agent token was refused", async () => {
+      const supabase = fixture();
+      expect(await call(supabase, { action: "agent_only" })).toMatchObject({
+        status: 401,
+        body: { code: "session_missing" },
+      });
+      expect(await call(supabase, { action: "agent_only", token: "not-a-token" })).toMatchObject({
+        status: 401,
+        body: { code: "session_invalid" },
+      });
+
+      const admin = await tokenFor(supabase, "admin", "admin-1");
+      expect(await call(supabase, { action: "agent_only", token: admin.token })).toMatchObject({
+        status: 401,
+        body: { code: "session_invalid" },
+      });
+
+      const { token, sessionId } = await tokenFor(supabase, "agent", "agent-1");
+      await revokeSession(supabase, sessionId, "logout");
+      expect(await call(supabase, { action: "agent_only", token })).toMatchObject({
+        status: 401,
+        body: { code: "session_revoked" },
+      });
+    });
+
+    it("accepts a department token for the memberships it unlocked", async () => {
+      const supabase = fixture();
+      const { token } = await tokenFor(supabase, "department", "9876543210", { member_ids: ["member-1"] });
+      const { status, body } = await call(supabase, { action: "department_only", token });
+      expect(status).toBe(200);
+      expect(body.department).toMatchObject({
+        mobile: "9876543210",
+        members: [{ id: "member-1", department_id: "dept-1", agent_id: "agent-1" }],
+      });
+
+      const locked = await tokenFor(supabase, "department", "9876543210", { member_ids: [] });
+      expect((await call(supabase, { action: "department_only", token: locked.token })).body.code).toBe(
+        "session_revoked",
+      );
+    });
+
+    it("uses the first kind whose credentials are present", async () => {
+      const supabase = fixture();
+      const { token } = await tokenFor(supabase, "agent", "agent-1");
+      expect((await call(supabase, { action: "admin_or_agent", token })).body.kind).toBe("agent");
+      expect(
+        (await call(supabase, { action: "admin_or_agent", token }, { authorization: "Bearer jwt-super" })).body.kind,
+      ).toBe("admin");
+      expect((await call(supabase, { action: "agent_or_public" })).body.kind).toBe("public");
+    });
+
+    it("reports a rejected credential even if a later kind would accept the call", async () => {
+      expect(await call(fixture(), { action: "agent_or_public", token: "forged" })).toMatchObject({
+        status: 401,
+        body: { code: "session_invalid" },
+      });
+    });
+
+    it("answers 403 rather than 401 when a login was present but not allowed", async () => {
+      const supabase = fixture();
+      expect((await call(supabase, { action: "admin_or_agent" }, { authorization: "Bearer jwt-plain" })).status).toBe(
+        403,
+      );
+      expect((await call(supabase, { action: "admin_or_agent" })).status).toBe(401);
+    });
+  });
+
+  describe("input validation", () => {
+    it("passes the parsed input, with defaults and coercions, to the handler", async () => {
+      expect(await call(fixture(), { action: "register", mobile: "9876543210", count: "3" })).toEqual({
+        status: 200,
+        body: { success: true, mobile: "9876543210", count: 3 },
+      });
+      expect((await call(fixture(), { action: "register", mobile: "9876543210" })).body.count).toBe(1);
+    });
+
+    it("answers 400 invalid_input with the first message and the errors per field", async () => {
+      const { status, body } = await call(fixture(), { action: "register", mobile: "12345", count: 0 });
+      expect(status).toBe(400);
+      expect(body.code).toBe("invalid_input");
+      expect(body.error).toBe("Invalid mobile number");
+      expect(body.fields.mobile).toEqual(["Invalid mobile number"]);
+      expect(body.fields.count).toHaveLength(1);
+    });
+
+    it("validates query string parameters too", async () => {
+      const req = new Request("https://functions.test/router-test?action=register&mobile=abc", { method: "GET" });
+      const res = await router.handle(req, { supabase: fixture() });
+      expect(res.status).toBe(400);
+      expect((await res.json()).fields.mobile).toEqual(["Invalid mobile number"]);
+    });
+
+    it("checks who is calling before looking at the input", async () => {
+      expect((await call(fixture(), { action: "fail" })).status).toBe(401);
+    });
+  });
+
+  describe("errors", () => {
+    const fail = (kind: string) => call(fixture(), { action: "fail", kind }, { authorization: "Bearer jwt-super" });
+
+    it.each([
+      ["bad_request", 400, { error: "Ward is required", code: "invalid_input", fields: { ward: ["Ward is required"] } }],
+      ["forbidden", 403, { error: "Forbidden", code: "forbidden" }],
+      ["not_found", 404, { error: "Agent not found", code: "not_found" }],
+      ["conflict", 409, { error: "Mobile already registered", code: "conflict" }],
+      ["teapot", 418, { error: "Short and stout", code: "teapot", spout: true }],
+    ])("maps a thrown %s error to its status", async (kind, status, body) => {
+      expect(await fail(kind)).toEqual({ status, body });
+    });
+
+    it("answers 403 missing_capability when the admin lacks a capability", async () => {
+      const supabase = fixture();
+      const { token } = await tokenFor(supabase, "admin", "admin-1");
+      expect(await call(supabase, { action: "fail", kind: "capability" }, { "x-admin-token": token })).toEqual({
+        status: 403,
+        body: {
+          error: "You do not have permission to do this. Ask a super admin for access.",
+          code: "missing_capability",
+          capability: "payouts:approve",
+        },
+      });
+    });
+
+    it("lets super admins through capability checks", async () => {
+      expect(await fail("capability")).toEqual({ status: 200, body: { success: true } });
+    });
+
+    it("answers 500 server_error for anything else, keeping its message", async () => {
+      const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+      expect(await fail("database")).toEqual({ status: 500, body: { error: "duplicate key value", code: "server_error" } });
+      expect(await fail("crash")).toEqual({ status: 500, body: { error: "Something broke", code: "server_error" } });
+      expect(logged).toHaveBeenCalledTimes(2);
+      logged.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,366 @@
+// Typed action router for edge functions.
+//
+// A function declares each action once: who may call it, the shape of its
+// input and the handler. The router takes care of CORS, parsing, validation,
+// authentication and the audit actor, and answers errors the same way in
+// every function:
+//
+//   400 { error, code: "invalid_input", fields?: { mobile: ["Invalid mobile number"] } }
+//   401 { error, code: "session_missing" | "session_invalid" | "session_expired" | "session_revoked" }
+//   403 { error, code: "forbidden" | "missing_capability" }
+//   404 { error, code: "not_found" }
+//
+//   const router = createRouter("department-worklog", {
+//     create_log: action({
+//       auth: "department",
+//       input: z.object({ work_details: z.string().trim().min(1, "Work details required") }),
+//       handler: async (input, ctx) => ({ success: true }),
+//     }),
+//   });
+//   Deno.serve(router.handle);
+//
+// Handlers receive the Supabase client through the context, so tests can call
+// `router.handle(req, { supabase: standIn })` without a real project.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z, type ZodType } from "https://esm.sh/zod@3.23.8";
+import { AuditTrail, adminActor } from "./audit.ts";
+import { type Capability, hasCapability, missingCapabilityBody } from "./capabilities.ts";
+import {
+  type AdminSession,
+  type DepartmentSession,
+  type SessionFailure,
+  sessionErrorBody,
+  verifyAdminSession,
+  verifyDepartmentSession,
+  verifySession,
+} from "./session.ts";
+
+export { z };
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-admin-token, x-caller-mobile, x-samrabhaka-token, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+};
+
+export function jsonResponse(body: unknown, status = 200, headers?: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...Object.fromEntries(new Headers(headers)), "Content-Type": "application/json" },
+  });
+}
+
+/** Thrown from a handler to answer with a specific status and error code. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string,
+    readonly extra: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+export const badRequest = (message: string, fields?: Record<string, string[]>) =>
+  new HttpError(400, message, "invalid_input", fields ? { fields } : {});
+export const forbidden = (message = "Forbidden") => new HttpError(403, message, "forbidden");
+export const notFound = (message = "Not found") => new HttpError(404, message, "not_found");
+export const conflict = (message: string) => new HttpError(409, message, "conflict");
+
+/** Throws the 403 `missing_capability` error unless the admin holds the capability. */
+export function requireCapability(admin: AdminCaller, capability: Capability) {
+  if (hasCapability(admin, capability)) return;
+  const { error, code, ...extra } = missingCapabilityBody(capability);
+  throw new HttpError(403, error, code, extra);
+}
+
+// ---- Callers ----
+
+export type AuthKind = "public" | "admin" | "super_admin" | "agent" | "department";
+
+export interface AdminCaller {
+  /** admins.id, or the auth user id of a super admin signed in with Supabase auth. */
+  admin_id: string;
+  user_id: string | null;
+  division_id: string | null;
+  full_name: string;
+  isSuperAdmin: boolean;
+  capabilities: string[];
+  /** Set when the caller used an x-admin-token. */
+  session: AdminSession | null;
+}
+
+export interface SuperAdminCaller {
+  user_id: string;
+  email: string | null;
+}
+
+export interface AgentCaller {
+  agent_id: string;
+  session_id: string;
+}
+
+export type Caller =
+  | { kind: "public" }
+  | { kind: "admin"; admin: AdminCaller }
+  | { kind: "super_admin"; superAdmin: SuperAdminCaller }
+  | { kind: "agent"; agent: AgentCaller }
+  | { kind: "department"; department: DepartmentSession };
+
+export type CallerOf<K extends AuthKind> = Extract<Caller, { kind: K }>;
+
+export interface ActionContext<C extends Caller = Caller> {
+  req: Request;
+  url: URL;
+  supabase: SupabaseClient;
+  audit: AuditTrail;
+  caller: C;
+  /** JSON response with CORS headers, for statuses other than 200 or extra headers. */
+  json: (body: unknown, status?: number, headers?: HeadersInit) => Response;
+}
+
+export interface ActionDef<S extends ZodType = ZodType, K extends AuthKind = AuthKind> {
+  /** Who may call the action. With several kinds, the first one whose credentials are present wins. */
+  auth: K | readonly K[];
+  input: S;
+  handler(input: z.infer<S>, ctx: ActionContext<CallerOf<K>>): Promise<unknown>;
+}
+
+/** Declares an action; exists only so TypeScript infers the input and caller types. */
+export function action<S extends ZodType, K extends AuthKind>(def: ActionDef<S, K>): ActionDef<S, K> {
+  return def;
+}
+
+/** An action with its input and caller types erased, as the router stores it. */
+interface RoutedAction {
+  auth: AuthKind | readonly AuthKind[];
+  input: ZodType;
+  handler(input: never, ctx: never): Promise<unknown>;
+}
+
+export interface RouterOptions {
+  /**
+   * Picks the action for a request. Defaults to `action` from the body or
+   * query string; functions with REST-style callers map methods here.
+   */
+  resolveAction?: (req: Request, url: URL, body: Record<string, unknown> | null) => string | null | undefined;
+}
+
+export interface RouterDeps {
+  /** Replaces the service-role client, e.g. with a local stand-in in tests. */
+  supabase?: SupabaseClient;
+}
+
+type AuthOutcome =
+  | { ok: true; caller: Caller }
+  | { ok: false; reason: SessionFailure }
+  | { ok: false; forbidden: true }
+  | { ok: false; absent: true };
+
+async function jwtUser(supabase: SupabaseClient, req: Request) {
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!bearer) return null;
+  // The anon key is also sent as a bearer token; it simply has no user.
+  const { data, error } = await supabase.auth.getUser(bearer);
+  if (error || !data?.user) return null;
+  return data.user;
+}
+
+async function isSuperAdminUser(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("role", "super_admin")
+    .maybeSingle();
+  return !!data;
+}
+
+async function authenticate(
+  kind: AuthKind,
+  req: Request,
+  body: Record<string, unknown> | null,
+  supabase: SupabaseClient,
+): Promise<AuthOutcome> {
+  switch (kind) {
+    case "public":
+      return { ok: true, caller: { kind: "public" } };
+
+    case "admin": {
+      const adminToken = req.headers.get("x-admin-token");
+      if (adminToken) {
+        const verified = await verifyAdminSession(supabase, adminToken);
+        if (!verified.ok) return verified;
+        const s = verified.session;
+        return {
+          ok: true,
+          caller: {
+            kind: "admin",
+            admin: {
+              admin_id: s.admin_id,
+              user_id: s.user_id,
+              division_id: s.division_id,
+              full_name: s.full_name || "Admin",
+              isSuperAdmin: s.isSuperAdmin,
+              capabilities: s.admin.capabilities || [],
+              session: s,
+            },
+          },
+        };
+      }
+      const user = await jwtUser(supabase, req);
+      if (!user) return { ok: false, absent: true };
+      if (!(await isSuperAdminUser(supabase, user.id))) return { ok: false, forbidden: true };
+      return {
+        ok: true,
+        caller: {
+          kind: "admin",
+          admin: {
+            admin_id: user.id,
+            user_id: user.id,
+            division_id: null,
+            full_name: user.email || "Super Admin",
+            isSuperAdmin: true,
+            capabilities: [],
+            session: null,
+          },
+        },
+      };
+    }
+
+    case "super_admin": {
+      const user = await jwtUser(supabase, req);
+      if (!user) return { ok: false, absent: true };
+      if (!(await isSuperAdminUser(supabase, user.id))) return { ok: false, forbidden: true };
+      return { ok: true, caller: { kind: "super_admin", superAdmin: { user_id: user.id, email: user.email ?? null } } };
+    }
+
+    case "agent": {
+      const token = req.headers.get("x-samrabhaka-token") || (typeof body?.token === "string" ? body.token : null);
+      if (!token) return { ok: false, absent: true };
+      const verified = await verifySession(supabase, token, "agent");
+      if (!verified.ok) return verified;
+      return { ok: true, caller: { kind: "agent", agent: { agent_id: verified.claims.sub, session_id: verified.claims.sid } } };
+    }
+
+    case "department": {
+      const token = typeof body?.token === "string" ? body.token : null;
+      if (!token) return { ok: false, absent: true };
+      const verified = await verifyDepartmentSession(supabase, token);
+      if (!verified.ok) return verified;
+      return { ok: true, caller: { kind: "department", department: verified.session } };
+    }
+  }
+}
+
+function callerActor(caller: Caller) {
+  switch (caller.kind) {
+    case "admin":
+      return caller.admin.session
+        ? adminActor(caller.admin.session)
+        : { type: "super_admin" as const, id: caller.admin.user_id };
+    case "super_admin":
+      return { type: "super_admin" as const, id: caller.superAdmin.user_id };
+    case "agent":
+      return { type: "agent" as const, id: caller.agent.agent_id };
+    case "department":
+      return { type: "department" as const, id: caller.department.mobile };
+    default:
+      return null;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) return String(error.message);
+  return "Internal server error";
+}
+
+function defaultAction(_req: Request, url: URL, body: Record<string, unknown> | null) {
+  return (typeof body?.action === "string" ? body.action : null) ?? url.searchParams.get("action");
+}
+
+export function createRouter(name: string, actions: Record<string, RoutedAction>, options: RouterOptions = {}) {
+  const resolveAction = options.resolveAction ?? defaultAction;
+
+  const handle = async (req: Request, deps: RouterDeps = {}): Promise<Response> => {
+    if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+    try {
+      const url = new URL(req.url);
+      let body: Record<string, unknown> | null = null;
+      if (req.method !== "GET" && req.method !== "HEAD") {
+        const text = await req.text();
+        if (text) {
+          try {
+            body = JSON.parse(text);
+          } catch {
+            return jsonResponse({ error: "Invalid JSON body", code: "invalid_input" }, 400);
+          }
+        }
+      }
+
+      const actionName = resolveAction(req, url, body);
+      const def = actionName ? actions[actionName] : undefined;
+      if (!actionName || !def || !Object.hasOwn(actions, actionName)) {
+        return jsonResponse({ error: "Invalid action", code: "unknown_action" }, 400);
+      }
+
+      const audit = new AuditTrail(name);
+      const supabase = deps.supabase ??
+        createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, audit.clientOptions);
+
+      const kinds: readonly AuthKind[] = Array.isArray(def.auth) ? def.auth : [def.auth];
+      let caller: Caller | null = null;
+      let failure: AuthOutcome | null = null;
+      for (const kind of kinds) {
+        const outcome = await authenticate(kind, req, body, supabase);
+        if (outcome.ok) {
+          caller = outcome.caller;
+          break;
+        }
+        // A rejected credential is reported even if a later kind would have matched.
+        if ("reason" in outcome) return jsonResponse(sessionErrorBody(outcome.reason), 401);
+        if ("forbidden" in outcome) failure = outcome;
+      }
+      if (!caller) {
+        if (failure) return jsonResponse({ error: "Forbidden", code: "forbidden" }, 403);
+        return jsonResponse(sessionErrorBody("missing"), 401);
+      }
+      const actor = callerActor(caller);
+      if (actor) audit.setActor(actor);
+
+      const raw: Record<string, unknown> = { ...Object.fromEntries(url.searchParams), ...(body ?? {}) };
+      delete raw.action;
+      const parsed = def.input.safeParse(raw);
+      if (!parsed.success) {
+        const fields = parsed.error.flatten().fieldErrors as Record<string, string[]>;
+        return jsonResponse(
+          { error: parsed.error.issues[0]?.message || "Invalid input", code: "invalid_input", fields },
+          400,
+        );
+      }
+
+      const handler = def.handler as (input: unknown, ctx: ActionContext) => Promise<unknown>;
+      const result = await handler(parsed.data, {
+        req,
+        url,
+        supabase,
+        audit,
+        caller,
+        json: jsonResponse,
+      });
+      return result instanceof Response ? result : jsonResponse(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return jsonResponse({ error: error.message, code: error.code, ...error.extra }, error.status);
+      }
+      console.error(`${name} error:`, error);
+      return jsonResponse({ error: errorMessage(error), code: "server_error" }, 500);
+    }
+  };
+
+  return { handle, actions };
+}
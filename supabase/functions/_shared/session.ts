@@ -0,0 +1,289 @@
+// Shared session tokens for every edge function.
+//
+// Tokens are compact HS256 JWTs signed with SESSION_SIGNING_SECRET. Each token
+// carries a session id (`sid`) backed by a row in public.auth_sessions, so a
+// token is only honoured while that row is neither revoked nor expired. This is
+// what makes "logout everywhere" and "deactivate admin" take effect immediately.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type SessionKind = "admin" | "agent" | "department";
+
+export type SessionFailure = "missing" | "invalid" | "expired" | "revoked";
+
+export interface SessionClaims {
+  sid: string;
+  sub: string;
+  kind: SessionKind;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export type SessionResult<T = SessionClaims> =
+  | { ok: true; claims: T }
+  | { ok: false; reason: SessionFailure };
+
+export const ADMIN_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const AGENT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const DEPARTMENT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SESSION_ERRORS: Record<SessionFailure, { error: string; code: string }> = {
+  missing: { error: "Unauthorized", code: "session_missing" },
+  invalid: { error: "Invalid session token", code: "session_invalid" },
+  expired: { error: "Your session has expired. Please sign in again.", code: "session_expired" },
+  revoked: { error: "Your session was ended. Please sign in again.", code: "session_revoked" },
+};
+
+/** Body for a 401 response describing why a session was rejected. */
+export function sessionErrorBody(reason: SessionFailure) {
+  return SESSION_ERRORS[reason];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const b64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = b64.padEnd(Math.ceil(b64.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function signingKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get("SESSION_SIGNING_SECRET");
+    if (!secret) throw new Error("SESSION_SIGNING_SECRET is not configured");
+    cachedKey = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+  }
+  return cachedKey;
+}
+
+const JWT_HEADER = base64UrlEncode(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+
+async function signJwt(claims: SessionClaims): Promise<string> {
+  const body = `${JWT_HEADER}.${base64UrlEncode(encoder.encode(JSON.stringify(claims)))}`;
+  const sig = await crypto.subtle.sign("HMAC", await signingKey(), encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+async function verifyJwt(token: string): Promise<SessionClaims | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== JWT_HEADER) return null;
+  try {
+    const ok = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(),
+      base64UrlDecode(parts[2]),
+      encoder.encode(`${parts[0]}.${parts[1]}`),
+    );
+    if (!ok) return null;
+    return JSON.parse(decoder.decode(base64UrlDecode(parts[1])));
+  } catch {
+    return null;
+  }
+}
+
+interface IssueOptions {
+  kind: SessionKind;
+  subjectId: string;
+  ttlMs: number;
+  /** Extra, non-authoritative claims for the client (names, ids). */
+  claims?: Record<string, unknown>;
+  req?: Request;
+}
+
+/** Creates a session row and returns a signed token bound to it. */
+export async function issueSession(supabase: SupabaseClient, opts: IssueOptions) {
+  const now = Date.now();
+  const expiresAt = new Date(now + opts.ttlMs);
+  const { data, error } = await supabase
+    .from("auth_sessions")
+    .insert({
+      kind: opts.kind,
+      subject_id: opts.subjectId,
+      expires_at: expiresAt.toISOString(),
+      user_agent: opts.req?.headers.get("user-agent")?.slice(0, 300) ?? null,
+    })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(error?.message || "Could not create session");
+
+  const token = await signJwt({
+    ...(opts.claims || {}),
+    sid: data.id,
+    sub: opts.subjectId,
+    kind: opts.kind,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+  return { token, sessionId: data.id as string, expiresAt: expiresAt.toISOString() };
+}
+
+/** Verifies signature, expiry and server-side revocation of a session token. */
+export async function verifySession(
+  supabase: SupabaseClient,
+  token: string | null | undefined,
+  kind: SessionKind,
+): Promise<SessionResult> {
+  if (!token) return { ok: false, reason: "missing" };
+  const claims = await verifyJwt(token);
+  if (!claims || claims.kind !== kind || !claims.sid || !claims.sub) return { ok: false, reason: "invalid" };
+  if (claims.exp * 1000 <= Date.now()) return { ok: false, reason: "expired" };
+
+  const { data: row } = await supabase
+    .from("auth_sessions")
+    .select("id, subject_id, expires_at, revoked_at")
+    .eq("id", claims.sid)
+    .maybeSingle();
+  if (!row || row.subject_id !== claims.sub) return { ok: false, reason: "invalid" };
+  if (row.revoked_at) return { ok: false, reason: "revoked" };
+  if (new Date(row.expires_at).getTime() <= Date.now()) return { ok: false, reason: "expired" };
+  return { ok: true, claims };
+}
+
+export async function revokeSession(supabase: SupabaseClient, sessionId: string, reason: string) {
+  await supabase
+    .from("auth_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("id", sessionId)
+    .is("revoked_at", null);
+}
+
+/** Revokes every live session of a subject, optionally keeping one (the caller's). */
+export async function revokeAllSessions(
+  supabase: SupabaseClient,
+  kind: SessionKind,
+  subjectId: string,
+  reason: string,
+  exceptSessionId?: string,
+) {
+  let query = supabase
+    .from("auth_sessions")
+    .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+    .eq("kind", kind)
+    .eq("subject_id", subjectId)
+    .is("revoked_at", null);
+  if (exceptSessionId) query = query.neq("id", exceptSessionId);
+  await query;
+}
+
+export const ADMIN_COLUMNS =
+  "id, user_id, division_id, full_name, is_active, access_all_divisions, additional_division_ids, is_read_only, cash_collection_enabled, cash_collection_division_ids, capabilities";
+
+export interface AdminRow {
+  id: string;
+  user_id: string | null;
+  division_id: string;
+  full_name: string | null;
+  is_active: boolean | null;
+  access_all_divisions: boolean;
+  additional_division_ids: string[];
+  is_read_only: boolean;
+  cash_collection_enabled: boolean;
+  cash_collection_division_ids: string[];
+  capabilities: string[];
+}
+
+export interface AdminSession {
+  sessionId: string;
+  admin_id: string;
+  user_id: string | null;
+  division_id: string;
+  full_name: string | null;
+  isSuperAdmin: boolean;
+  admin: AdminRow;
+}
+
+/**
+ * Verifies an `x-admin-token` and loads the admin it belongs to. Inactive
+ * admins are rejected even if their session row somehow survived.
+ */
+export async function verifyAdminSession(
+  supabase: SupabaseClient,
+  token: string | null | undefined,
+): Promise<{ ok: true; session: AdminSession } | { ok: false; reason: SessionFailure }> {
+  const result = await verifySession(supabase, token, "admin");
+  if (!result.ok) return result;
+
+  const { data: admin } = await supabase
+    .from("admins")
+    .select(ADMIN_COLUMNS)
+    .eq("id", result.claims.sub)
+    .maybeSingle<AdminRow>();
+  if (!admin || !admin.is_active) return { ok: false, reason: "revoked" };
+
+  let isSuperAdmin = false;
+  if (admin.user_id) {
+    const { data: roleData } = await supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", admin.user_id)
+      .eq("role", "super_admin")
+      .maybeSingle();
+    isSuperAdmin = !!roleData;
+  }
+
+  return {
+    ok: true,
+    session: {
+      sessionId: result.claims.sid,
+      admin_id: admin.id,
+      user_id: admin.user_id,
+      division_id: admin.division_id,
+      full_name: admin.full_name,
+      isSuperAdmin,
+      admin,
+    },
+  };
+}
+
+export interface DepartmentSession {
+  sessionId: string;
+  mobile: string;
+  members: { id: string; department_id: string; agent_id: string }[];
+}
+
+/**
+ * Verifies a department-member token and reloads the caller's active
+ * memberships, so removed members lose access even before their token expires.
+ */
+export async function verifyDepartmentSession(
+  supabase: SupabaseClient,
+  token: string | null | undefined,
+): Promise<{ ok: true; session: DepartmentSession } | { ok: false; reason: SessionFailure }> {
+  const result = await verifySession(supabase, token, "department");
+  if (!result.ok) return result;
+  const mobile = result.claims.sub;
+
+  const { data: agents } = await supabase
+    .from("pennyekart_agents")
+    .select("id")
+    .eq("mobile", mobile)
+    .eq("is_active", true);
+  if (!agents || agents.length === 0) return { ok: false, reason: "revoked" };
+
+  // Only the memberships whose PIN was presented at login are unlocked.
+  const memberIds = Array.isArray(result.claims.member_ids) ? (result.claims.member_ids as string[]) : [];
+  const { data: members } = await supabase
+    .from("department_members")
+    .select("id, department_id, agent_id")
+    .in("id", memberIds)
+    .in("agent_id", agents.map((a: { id: string }) => a.id))
+    .eq("is_active", true);
+  if (!members || members.length === 0) return { ok: false, reason: "revoked" };
+
+  return { ok: true, session: { sessionId: result.claims.sid, mobile, members } };
+}
@@ -0,0 +1,150 @@
+// Login throttling shared by admin-auth, samrabhaka-auth and department-worklog.
+//
+// Failed attempts are counted per mobile number and per client IP in
+// public.login_throttles. After a few free attempts every further failure locks
+// the key with an exponentially growing delay. A successful login clears the
+// mobile's counter; the IP counter only decays, so one known account cannot be
+// used to reset guessing against others. Super admins can unlock a key from
+// AdminsManagement, which deletes the row.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type LoginScope = "admin" | "agent" | "department";
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  baseSeconds: number;
+  maxSeconds: number;
+}
+
+// Department PINs are short, so they get fewer free guesses.
+const MOBILE_POLICY: Record<LoginScope, ThrottlePolicy> = {
+  admin: { freeAttempts: 5, baseSeconds: 30, maxSeconds: 60 * 60 },
+  agent: { freeAttempts: 5, baseSeconds: 30, maxSeconds: 60 * 60 },
+  department: { freeAttempts: 3, baseSeconds: 60, maxSeconds: 6 * 60 * 60 },
+};
+
+// Many agents share a mobile network's NAT, so the per-IP budget is generous.
+const IP_POLICY: ThrottlePolicy = { freeAttempts: 30, baseSeconds: 60, maxSeconds: 60 * 60 };
+
+const WINDOW_SECONDS = 24 * 60 * 60;
+
+export interface LoginLock {
+  locked: true;
+  retryAfterSeconds: number;
+}
+
+export type ThrottleState = { locked: false; attemptsLeft: number | null } | LoginLock;
+
+function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  const ip = forwarded?.split(",")[0]?.trim() || req.headers.get("x-real-ip")?.trim();
+  return ip || null;
+}
+
+function throttleKeys(req: Request, mobile: string) {
+  const keys: { key_type: "mobile" | "ip"; key: string; policy: (s: LoginScope) => ThrottlePolicy }[] = [];
+  if (mobile) keys.push({ key_type: "mobile", key: mobile, policy: (s) => MOBILE_POLICY[s] });
+  const ip = clientIp(req);
+  if (ip) keys.push({ key_type: "ip", key: ip, policy: () => IP_POLICY });
+  return keys;
+}
+
+function secondsUntil(iso: string | null | undefined): number {
+  if (!iso) return 0;
+  return Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / 1000));
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/** Body for a 429 response while a login is locked. */
+export function loginLockedBody(lock: LoginLock) {
+  return {
+    error: `Too many failed attempts. Please try again in ${describeWait(lock.retryAfterSeconds)}.`,
+    code: "login_locked",
+    retry_after: lock.retryAfterSeconds,
+  };
+}
+
+/** Headers to add to a 429 response for a locked login. */
+export function loginLockedHeaders(lock: LoginLock): Record<string, string> {
+  return { "Retry-After": String(lock.retryAfterSeconds) };
+}
+
+/** Appends how many attempts remain before a lock, when that is worth telling the user. */
+export function withAttemptsLeft(message: string, state: ThrottleState): string {
+  if (state.locked || state.attemptsLeft === null || state.attemptsLeft > 2) return message;
+  if (state.attemptsLeft === 0) return `${message} The next failed attempt will temporarily lock this account.`;
+  return `${message} ${state.attemptsLeft} attempt${state.attemptsLeft === 1 ? "" : "s"} left before a temporary lock.`;
+}
+
+/** Returns the active lock for this mobile or IP, if any. Call before checking credentials. */
+export async function checkLoginThrottle(
+  supabase: SupabaseClient,
+  scope: LoginScope,
+  mobile: string,
+  req: Request,
+): Promise<ThrottleState> {
+  const keys = throttleKeys(req, mobile);
+  if (keys.length === 0) return { locked: false, attemptsLeft: null };
+
+  const { data } = await supabase
+    .from("login_throttles")
+    .select("key_type, key, locked_until")
+    .eq("scope", scope)
+    .in("key", keys.map((k) => k.key));
+
+  let wait = 0;
+  for (const row of data || []) {
+    if (!keys.some((k) => k.key_type === row.key_type && k.key === row.key)) continue;
+    wait = Math.max(wait, secondsUntil(row.locked_until));
+  }
+  return wait > 0 ? { locked: true, retryAfterSeconds: wait } : { locked: false, attemptsLeft: null };
+}
+
+/** Counts a failed attempt against the mobile and IP; returns the resulting state. */
+export async function recordLoginFailure(
+  supabase: SupabaseClient,
+  scope: LoginScope,
+  mobile: string,
+  req: Request,
+): Promise<ThrottleState> {
+  let wait = 0;
+  let attemptsLeft: number | null = null;
+  for (const k of throttleKeys(req, mobile)) {
+    const policy = k.policy(scope);
+    const { data, error } = await supabase.rpc("record_login_failure", {
+      _scope: scope,
+      _key_type: k.key_type,
+      _key: k.key,
+      _free_attempts: policy.freeAttempts,
+      _base_seconds: policy.baseSeconds,
+      _max_seconds: policy.maxSeconds,
+      _window_seconds: WINDOW_SECONDS,
+    });
+    if (error) {
+      console.error("record_login_failure failed:", error.message);
+      continue;
+    }
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) continue;
+    wait = Math.max(wait, secondsUntil(row.locked_until));
+    if (k.key_type === "mobile") attemptsLeft = Math.max(0, policy.freeAttempts - row.failure_count);
+  }
+  return wait > 0 ? { locked: true, retryAfterSeconds: wait } : { locked: false, attemptsLeft };
+}
+
+/** Forgets the failed attempts of a mobile after a successful login. */
+export async function clearLoginFailures(supabase: SupabaseClient, scope: LoginScope, mobile: string) {
+  await supabase
+    .from("login_throttles")
+    .delete()
+    .eq("scope", scope)
+    .eq("key_type", "mobile")
+    .eq("key", mobile);
+}
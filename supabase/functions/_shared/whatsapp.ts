@@ -0,0 +1,639 @@
+// WhatsApp messaging, through whichever provider WHATSAPP_PROVIDER names:
+//
+//   twilio  (default) TWILIO_API_KEY is "ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER".
+//           Webhooks are form posts, answered in-band with TwiML.
+//   cloud   Meta's WhatsApp Cloud API: WHATSAPP_CLOUD_TOKEN,
+//           WHATSAPP_CLOUD_PHONE_NUMBER_ID and WHATSAPP_CLOUD_VERIFY_TOKEN,
+//           plus WHATSAPP_CLOUD_APP_SECRET to check webhook signatures.
+//           Webhooks are JSON; replies are sent through the API. Messages
+//           we start (OTPs, broadcasts, absence digests) go out as the
+//           approved templates named by WHATSAPP_CLOUD_TEMPLATE_OTP,
+//           _BROADCAST and _ABSENCE_DIGEST, in
+//           WHATSAPP_CLOUD_TEMPLATE_LANGUAGE (default "en").
+//   console Sends nothing. Every message in and out is logged and kept in
+//           whatsapp_console_messages, and the webhook takes a plain JSON
+//           post and answers with the replies, so local and staging
+//           environments can exercise the bot and flows such as OTP login
+//           without a phone. WHATSAPP_STANDIN=console still selects it.
+//
+// whatsapp-worklog reads webhooks and replies through WhatsAppProvider;
+// everything else only sends, with sendWhatsAppText. A send made with
+// trackDelivery reports back through the same webhook as delivery receipts
+// (Twilio's status callbacks, the Cloud API's statuses), which the webhook
+// hands to broadcasts.ts.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type WhatsAppProviderName = "twilio" | "cloud" | "console";
+
+export type WhatsAppSendResult =
+  | { ok: true; sid: string | null; simulated: boolean }
+  | { ok: false; error: string; details?: unknown };
+
+export type WhatsAppMediaResult =
+  | { ok: true; bytes: Uint8Array; contentType: string }
+  | { ok: false; error: string };
+
+/** A photo or file attached to an inbound message. `ref` is what the provider needs to download it. */
+export interface InboundMedia {
+  ref: string;
+  contentType: string;
+  index: number;
+}
+
+export interface InboundLocation {
+  latitude: number;
+  longitude: number;
+  address: string | null;
+}
+
+/** A message an agent sent, the same whichever provider delivered it. */
+export interface InboundMessage {
+  /** The provider's message id; a retried webhook repeats it. */
+  id: string | null;
+  /** The sender's number in E.164, e.g. +919876543210. */
+  from: string;
+  body: string;
+  media: InboundMedia[];
+  location: InboundLocation | null;
+}
+
+export type DeliveryState = "sent" | "delivered" | "read" | "failed";
+
+/** A delivery receipt for a message we sent; `messageId` is the send's sid. */
+export interface DeliveryStatus {
+  messageId: string;
+  state: DeliveryState;
+  error: string | null;
+}
+
+/** What a webhook post carries: messages from agents and receipts for ours. */
+export interface WhatsAppWebhook {
+  messages: InboundMessage[];
+  statuses: DeliveryStatus[];
+}
+
+export type TemplatePurpose = "otp" | "broadcast" | "absence_digest";
+
+/**
+ * The approved template a message we start is sent as where the provider
+ * needs one: the Cloud API only takes free-form text within 24 hours of the
+ * recipient's last message.
+ */
+export interface TemplateSend {
+  purpose: TemplatePurpose;
+  /** Values for the template's body placeholders, in order. */
+  params: string[];
+  /** The value of its first button, e.g. an authentication template's copy-code button. */
+  button?: string;
+}
+
+export interface SendOptions {
+  /** Ask the provider for delivery receipts (Twilio only sends them when asked). */
+  trackDelivery?: boolean;
+  /** Set on every message that is not a reply to the recipient. */
+  template?: TemplateSend;
+}
+
+export interface OutboundReply {
+  to: InboundMessage;
+  text: string;
+}
+
+export interface WhatsAppProvider {
+  name: WhatsAppProviderName;
+  /** Answers a GET on the webhook, which the Cloud API uses to verify it. */
+  verifyWebhook(req: Request): Response;
+  parseWebhook(req: Request): Promise<WhatsAppWebhook>;
+  /** The webhook's response, delivering the replies to `parseWebhook`'s messages. */
+  respond(replies: OutboundReply[]): Promise<Response>;
+  send(to: string, text: string, options?: SendOptions): Promise<WhatsAppSendResult>;
+  /** Downloads an inbound message's photo or file. */
+  fetchMedia(ref: string, maxBytes: number): Promise<WhatsAppMediaResult>;
+}
+
+/** A webhook post the provider will not accept, e.g. one with a bad signature. */
+export class WhatsAppWebhookError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/** Indian numbers are stored without a country code; providers need E.164. */
+export function toWhatsAppNumber(mobile: string): string {
+  return mobile.startsWith("+") ? mobile : `+91${mobile}`;
+}
+
+export function whatsAppProviderName(): WhatsAppProviderName {
+  const name = Deno.env.get("WHATSAPP_PROVIDER");
+  if (name === "cloud" || name === "console") return name;
+  if (Deno.env.get("WHATSAPP_STANDIN") === "console") return "console";
+  return "twilio";
+}
+
+/** True when messages are logged instead of being sent. */
+export function isWhatsAppStandIn(): boolean {
+  return whatsAppProviderName() === "console";
+}
+
+export function whatsAppProvider(): WhatsAppProvider {
+  switch (whatsAppProviderName()) {
+    case "cloud":
+      return cloudProvider;
+    case "console":
+      return consoleProvider;
+    default:
+      return twilioProvider;
+  }
+}
+
+export function sendWhatsAppText(mobile: string, message: string, options?: SendOptions): Promise<WhatsAppSendResult> {
+  return whatsAppProvider().send(toWhatsAppNumber(mobile), message, options);
+}
+
+/** Downloads a photo or file an agent sent (an InboundMedia's ref). */
+export function fetchWhatsAppMedia(ref: string, maxBytes: number): Promise<WhatsAppMediaResult> {
+  return whatsAppProvider().fetchMedia(ref, maxBytes);
+}
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+async function downloadMedia(url: string, headers: Record<string, string>, maxBytes: number): Promise<WhatsAppMediaResult> {
+  const res = await fetch(url, { headers });
+  if (!res.ok) {
+    await res.body?.cancel();
+    return { ok: false, error: `Media download failed (${res.status})` };
+  }
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  if (bytes.length > maxBytes) return { ok: false, error: "Media too large" };
+  return { ok: true, bytes, contentType: res.headers.get("content-type") || "application/octet-stream" };
+}
+
+// --- Twilio ---
+
+type TwilioConfig =
+  | { ok: true; accountSid: string; authToken: string; fromNumber: string }
+  | { ok: false; error: string };
+
+function twilioConfig(): TwilioConfig {
+  const twilioApiKey = Deno.env.get("TWILIO_API_KEY");
+  if (!twilioApiKey) {
+    console.error("TWILIO_API_KEY not set");
+    return { ok: false, error: "Twilio not configured" };
+  }
+
+  const parts = twilioApiKey.split(":");
+  if (parts.length < 3) {
+    console.error("Invalid TWILIO_API_KEY format. Expected ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER, got", parts.length, "parts");
+    return { ok: false, error: "Invalid Twilio config. Set TWILIO_API_KEY as ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER" };
+  }
+
+  const [accountSid, authToken, ...fromParts] = parts;
+  return { ok: true, accountSid, authToken, fromNumber: fromParts.join(":") };
+}
+
+// Twilio's intermediate states (queued, accepted, sending) are not receipts
+const TWILIO_STATES: Record<string, DeliveryState> = {
+  sent: "sent",
+  delivered: "delivered",
+  read: "read",
+  failed: "failed",
+  undelivered: "failed",
+};
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+const twilioProvider: WhatsAppProvider = {
+  name: "twilio",
+
+  verifyWebhook() {
+    return new Response("Method not allowed", { status: 405 });
+  },
+
+  // A form post with From, Body, MessageSid, NumMedia and MediaUrlN /
+  // MediaContentTypeN, and Latitude, Longitude, Address and Label for a
+  // shared location. Status callbacks carry MessageStatus instead.
+  async parseWebhook(req) {
+    const form = await req.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === "string" ? value.trim() : "";
+    };
+
+    const messageStatus = field("MessageStatus");
+    if (messageStatus) {
+      const state = TWILIO_STATES[messageStatus.toLowerCase()];
+      const errorCode = field("ErrorCode");
+      return {
+        messages: [],
+        statuses: state && field("MessageSid")
+          ? [{ messageId: field("MessageSid"), state, error: errorCode ? `Twilio error ${errorCode}` : null }]
+          : [],
+      };
+    }
+
+    const media: InboundMedia[] = [];
+    const count = parseInt(field("NumMedia"), 10) || 0;
+    for (let index = 0; index < count; index++) {
+      const ref = field(`MediaUrl${index}`);
+      if (ref) media.push({ ref, contentType: field(`MediaContentType${index}`).toLowerCase(), index });
+    }
+
+    const latitude = parseFloat(field("Latitude"));
+    const longitude = parseFloat(field("Longitude"));
+    const place = [field("Label"), field("Address")].filter(Boolean).join(", ");
+    const location = Number.isFinite(latitude) && Number.isFinite(longitude)
+      ? { latitude, longitude, address: place || null }
+      : null;
+
+    return {
+      messages: [{
+        id: field("MessageSid") || null,
+        from: field("From").replace("whatsapp:", ""),
+        body: field("Body"),
+        media,
+        location,
+      }],
+      statuses: [],
+    };
+  },
+
+  // Twilio takes one reply per webhook, in the response body
+  async respond(replies) {
+    const message = replies[0] ? `<Message>${escapeXml(replies[0].text)}</Message>` : "";
+    return new Response(`<?xml version="1.0" encoding="UTF-8"?><Response>${message}</Response>`, {
+      status: 200,
+      headers: { "Content-Type": "text/xml" },
+    });
+  },
+
+  async send(to, text, options) {
+    const config = twilioConfig();
+    if (!config.ok) return config;
+    const { accountSid, authToken, fromNumber } = config;
+
+    // Twilio matches the body against the account's approved templates itself
+    const params = new URLSearchParams({
+      From: `whatsapp:${fromNumber}`,
+      To: `whatsapp:${to}`,
+      Body: text,
+    });
+    // Receipts come back to the bot's webhook
+    if (options?.trackDelivery) {
+      params.set("StatusCallback", `${Deno.env.get("SUPABASE_URL")}/functions/v1/whatsapp-worklog`);
+    }
+
+    const twilioRes = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params.toString(),
+    });
+
+    const twilioData = await twilioRes.json();
+    if (!twilioRes.ok) {
+      console.error("Twilio error:", JSON.stringify(twilioData));
+      return { ok: false, error: "Failed to send WhatsApp message", details: twilioData };
+    }
+    return { ok: true, sid: twilioData.sid ?? null, simulated: false };
+  },
+
+  // Media URLs are served only with the account's credentials
+  async fetchMedia(ref, maxBytes) {
+    const config = twilioConfig();
+    if (!config.ok) return config;
+    return downloadMedia(ref, { Authorization: `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}` }, maxBytes);
+  },
+};
+
+// --- WhatsApp Cloud API ---
+
+const GRAPH_API = "https://graph.facebook.com/v20.0";
+
+type CloudConfig =
+  | { ok: true; token: string; phoneNumberId: string }
+  | { ok: false; error: string };
+
+function cloudConfig(): CloudConfig {
+  const token = Deno.env.get("WHATSAPP_CLOUD_TOKEN");
+  const phoneNumberId = Deno.env.get("WHATSAPP_CLOUD_PHONE_NUMBER_ID");
+  if (!token || !phoneNumberId) {
+    console.error("WHATSAPP_CLOUD_TOKEN or WHATSAPP_CLOUD_PHONE_NUMBER_ID not set");
+    return { ok: false, error: "WhatsApp Cloud API not configured" };
+  }
+  return { ok: true, token, phoneNumberId };
+}
+
+async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+interface CloudMediaObject {
+  id: string;
+  mime_type?: string;
+  caption?: string;
+}
+
+interface CloudMessage {
+  id: string;
+  from: string;
+  type: string;
+  text?: { body: string };
+  image?: CloudMediaObject;
+  video?: CloudMediaObject;
+  audio?: CloudMediaObject;
+  document?: CloudMediaObject;
+  location?: { latitude: number; longitude: number; name?: string; address?: string };
+  button?: { text: string };
+  interactive?: { button_reply?: { title: string }; list_reply?: { title: string } };
+}
+
+interface CloudStatus {
+  id: string;
+  status: string;
+  errors?: Array<{ code?: number; title?: string }>;
+}
+
+const CLOUD_MEDIA_TYPES = ["image", "video", "audio", "document"] as const;
+
+function fromCloudMessage(message: CloudMessage): InboundMessage {
+  const media: InboundMedia[] = [];
+  let body = message.text?.body ??
+    message.button?.text ??
+    message.interactive?.button_reply?.title ??
+    message.interactive?.list_reply?.title ??
+    "";
+  for (const type of CLOUD_MEDIA_TYPES) {
+    const object = message[type];
+    if (!object) continue;
+    media.push({ ref: object.id, contentType: (object.mime_type || type).split(";")[0].trim().toLowerCase(), index: 0 });
+    // Text typed with a photo is its caption
+    if (!body && object.caption) body = object.caption;
+  }
+
+  const place = message.location && [message.location.name, message.location.address].filter(Boolean).join(", ");
+  return {
+    id: message.id,
+    from: message.from.startsWith("+") ? message.from : `+${message.from}`,
+    body: body.trim(),
+    media,
+    location: message.location
+      ? { latitude: Number(message.location.latitude), longitude: Number(message.location.longitude), address: place || null }
+      : null,
+  };
+}
+
+// A template's body, placeholders filled in, may be at most 1024 characters
+const MAX_TEMPLATE_PARAM = 900;
+
+// Placeholder values may not hold line breaks, tabs or runs of over four spaces
+function templateParam(value: string): string {
+  const flat = value.trim().replace(/\s*\n\s*/g, " · ").replace(/\t/g, " ").replace(/ {5,}/g, "    ");
+  return flat.length > MAX_TEMPLATE_PARAM ? `${flat.slice(0, MAX_TEMPLATE_PARAM - 1)}…` : flat;
+}
+
+type CloudTemplate =
+  | { ok: true; template: Record<string, unknown> }
+  | { ok: false; error: string };
+
+function cloudTemplate({ purpose, params, button }: TemplateSend): CloudTemplate {
+  const variable = `WHATSAPP_CLOUD_TEMPLATE_${purpose.toUpperCase()}`;
+  const name = Deno.env.get(variable);
+  if (!name) {
+    console.error(`${variable} not set`);
+    return { ok: false, error: `No approved WhatsApp template for ${purpose} messages. Set ${variable}` };
+  }
+
+  const components: Record<string, unknown>[] = [{
+    type: "body",
+    parameters: params.map((value) => ({ type: "text", text: templateParam(value) })),
+  }];
+  if (button !== undefined) {
+    components.push({ type: "button", sub_type: "url", index: "0", parameters: [{ type: "text", text: button }] });
+  }
+  return {
+    ok: true,
+    template: { name, language: { code: Deno.env.get("WHATSAPP_CLOUD_TEMPLATE_LANGUAGE") || "en" }, components },
+  };
+}
+
+const cloudProvider: WhatsAppProvider = {
+  name: "cloud",
+
+  // Meta subscribes the webhook with a GET carrying our verify token
+  verifyWebhook(req) {
+    const params = new URL(req.url).searchParams;
+    const verifyToken = Deno.env.get("WHATSAPP_CLOUD_VERIFY_TOKEN");
+    if (params.get("hub.mode") === "subscribe" && verifyToken && params.get("hub.verify_token") === verifyToken) {
+      return new Response(params.get("hub.challenge") || "", { status: 200 });
+    }
+    return new Response("Forbidden", { status: 403 });
+  },
+
+  async parseWebhook(req) {
+    const raw = await req.text();
+    const appSecret = Deno.env.get("WHATSAPP_CLOUD_APP_SECRET");
+    if (appSecret) {
+      const expected = `sha256=${await hmacSha256Hex(appSecret, raw)}`;
+      if (req.headers.get("x-hub-signature-256") !== expected) {
+        throw new WhatsAppWebhookError(401, "Invalid webhook signature");
+      }
+    }
+
+    let payload: {
+      entry?: Array<{ changes?: Array<{ value?: { messages?: CloudMessage[]; statuses?: CloudStatus[] } }> }>;
+    };
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      throw new WhatsAppWebhookError(400, "Invalid JSON");
+    }
+
+    const messages: InboundMessage[] = [];
+    const statuses: DeliveryStatus[] = [];
+    for (const entry of payload.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const message of change.value?.messages || []) messages.push(fromCloudMessage(message));
+        for (const status of change.value?.statuses || []) {
+          if (!["sent", "delivered", "read", "failed"].includes(status.status)) continue;
+          const problem = status.errors?.[0];
+          statuses.push({
+            messageId: status.id,
+            state: status.status as DeliveryState,
+            error: problem ? problem.title || `WhatsApp error ${problem.code}` : null,
+          });
+        }
+      }
+    }
+    return { messages, statuses };
+  },
+
+  // Replies go out through the API; Meta only needs a quick 200
+  async respond(replies) {
+    for (const { to, text } of replies) {
+      const sent = await cloudProvider.send(to.from, text);
+      if (!sent.ok) console.error(`WhatsApp reply to ${to.from} failed:`, sent.error);
+    }
+    return new Response(JSON.stringify({ success: true }), { status: 200, headers: jsonHeaders });
+  },
+
+  // Free-form text reaches an agent only within 24 hours of their last
+  // message; outside that window the API rejects it, so messages we start are
+  // sent as templates. Receipts always come to the webhook.
+  async send(to, text, options) {
+    const config = cloudConfig();
+    if (!config.ok) return config;
+
+    let content: Record<string, unknown> = { type: "text", text: { body: text } };
+    if (options?.template) {
+      const template = cloudTemplate(options.template);
+      if (!template.ok) return template;
+      content = { type: "template", template: template.template };
+    }
+
+    const res = await fetch(`${GRAPH_API}/${config.phoneNumberId}/messages`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${config.token}`, ...jsonHeaders },
+      body: JSON.stringify({ messaging_product: "whatsapp", to: to.replace(/^\+/, ""), ...content }),
+    });
+
+    const data = await res.json();
+    if (!res.ok) {
+      console.error("WhatsApp Cloud API error:", JSON.stringify(data));
+      return { ok: false, error: "Failed to send WhatsApp message", details: data };
+    }
+    return { ok: true, sid: data.messages?.[0]?.id ?? null, simulated: false };
+  },
+
+  // A media id resolves to a short-lived URL, which also needs the token
+  async fetchMedia(ref, maxBytes) {
+    const config = cloudConfig();
+    if (!config.ok) return config;
+    const headers = { Authorization: `Bearer ${config.token}` };
+
+    const res = await fetch(`${GRAPH_API}/${ref}`, { headers });
+    if (!res.ok) {
+      await res.body?.cancel();
+      return { ok: false, error: `Media lookup failed (${res.status})` };
+    }
+    const { url } = await res.json();
+    if (!url) return { ok: false, error: "Media has no URL" };
+    return downloadMedia(url, headers, maxBytes);
+  },
+};
+
+// --- Console ---
+
+// Posts to the webhook look like
+//   { "from": "9876543210", "body": "1 Visited Ward 3",
+//     "media": [{ "url": "https://…/photo.jpg", "content_type": "image/jpeg" }],
+//     "location": { "latitude": 11.25, "longitude": 75.78, "address": "Kozhikode" } }
+// and are answered with { "replies": ["…"] }. A post of
+//   { "statuses": [{ "id": "<sid from the send>", "status": "delivered" }] }
+// stands in for delivery receipts.
+interface ConsoleWebhookPost {
+  statuses?: Array<{ id: string; status: DeliveryState; error?: string }>;
+  from?: string;
+  body?: string;
+  media?: Array<{ url: string; content_type?: string }>;
+  location?: { latitude: number; longitude: number; address?: string };
+}
+
+function consoleClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+async function recordConsoleMessage(row: {
+  direction: "inbound" | "outbound";
+  mobile: string;
+  body: string;
+  media?: unknown;
+  location?: unknown;
+}): Promise<string | null> {
+  const { data, error } = await consoleClient().from("whatsapp_console_messages").insert(row).select("id").single();
+  if (error) {
+    console.error("Console message store error:", error);
+    return null;
+  }
+  return data.id;
+}
+
+const consoleProvider: WhatsAppProvider = {
+  name: "console",
+
+  verifyWebhook() {
+    return new Response("Method not allowed", { status: 405 });
+  },
+
+  async parseWebhook(req) {
+    let post: ConsoleWebhookPost;
+    try {
+      post = await req.json();
+    } catch {
+      throw new WhatsAppWebhookError(400, "Invalid JSON");
+    }
+    if (post.statuses) {
+      return {
+        messages: [],
+        statuses: post.statuses.map((s) => ({ messageId: s.id, state: s.status, error: s.error || null })),
+      };
+    }
+    if (!post.from) throw new WhatsAppWebhookError(400, "from is required");
+
+    const from = toWhatsAppNumber(post.from.replace(/[^\d+]/g, ""));
+    const body = (post.body || "").trim();
+    console.log(`[whatsapp console] from ${from}:\n${body}`);
+    const id = await recordConsoleMessage({
+      direction: "inbound",
+      mobile: from,
+      body,
+      media: post.media || [],
+      location: post.location || null,
+    });
+
+    return {
+      messages: [{
+        id,
+        from,
+        body,
+        media: (post.media || []).map((m, index) => ({
+          ref: m.url,
+          contentType: (m.content_type || "").toLowerCase(),
+          index,
+        })),
+        location: post.location
+          ? {
+            latitude: Number(post.location.latitude),
+            longitude: Number(post.location.longitude),
+            address: post.location.address || null,
+          }
+          : null,
+      }],
+      statuses: [],
+    };
+  },
+
+  async respond(replies) {
+    for (const { to, text } of replies) await consoleProvider.send(to.from, text);
+    return new Response(JSON.stringify({ replies: replies.map((r) => r.text) }), { status: 200, headers: jsonHeaders });
+  },
+
+  async send(to, text) {
+    console.log(`[whatsapp console] to ${to}:\n${text}`);
+    const id = await recordConsoleMessage({ direction: "outbound", mobile: to, body: text });
+    return { ok: true, sid: id, simulated: true };
+  },
+
+  // The URL is fetched as is
+  fetchMedia(ref, maxBytes) {
+    return downloadMedia(ref, {}, maxBytes);
+  },
+};
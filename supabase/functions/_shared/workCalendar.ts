@@ -0,0 +1,89 @@
+// Days agents are not expected to log work, used by every absence count:
+// whatsapp-worklog's reports (commands 5, 6 and 7) and the daily digest.
+//
+// An agent is off on a weekly off day (Sunday unless configured otherwise), on
+// a holiday for everyone or for their own panchayath, and on any day covered
+// by their approved leave. An agent who logs work on an off day still counts
+// as having submitted. src/lib/workCalendar.ts mirrors this for the web
+// reports.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface WorkHoliday {
+  holiday_date: string;
+  name: string;
+  /** Null for a holiday everywhere. */
+  panchayath_id: string | null;
+}
+
+export interface ApprovedLeave {
+  agent_id: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface WorkCalendar {
+  /** 0 = Sunday … 6 = Saturday. */
+  weekly_off_days: number[];
+  holidays: WorkHoliday[];
+  leaves: ApprovedLeave[];
+}
+
+export interface CalendarAgent {
+  id: string;
+  panchayath_id: string;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** Why nobody works on `date` (a weekly off day or a holiday everywhere), or null. */
+export function globalOffReason(calendar: WorkCalendar, date: string): string | null {
+  const day = weekday(date);
+  if (calendar.weekly_off_days.includes(day)) return DAY_NAMES[day];
+  const holiday = calendar.holidays.find((h) => h.holiday_date === date && !h.panchayath_id);
+  return holiday ? holiday.name : null;
+}
+
+/** Why `agent` is not expected to log work on `date`, or null on a working day. */
+export function offReason(calendar: WorkCalendar, agent: CalendarAgent, date: string): string | null {
+  const global = globalOffReason(calendar, date);
+  if (global) return global;
+  const local = calendar.holidays.find((h) => h.holiday_date === date && h.panchayath_id === agent.panchayath_id);
+  if (local) return local.name;
+  const onLeave = calendar.leaves.some((l) => l.agent_id === agent.id && l.start_date <= date && l.end_date >= date);
+  return onLeave ? "On leave" : null;
+}
+
+/** The agents expected to log work on `date`. */
+export function expectedAgents<T extends CalendarAgent>(calendar: WorkCalendar, agents: T[], date: string): T[] {
+  return agents.filter((a) => !offReason(calendar, a, date));
+}
+
+/** The calendar between `from` and `to` inclusive. */
+export async function loadWorkCalendar(supabase: SupabaseClient, from: string, to: string): Promise<WorkCalendar> {
+  const [settings, holidays, leaves] = await Promise.all([
+    supabase.from("work_calendar_settings").select("weekly_off_days").maybeSingle(),
+    supabase
+      .from("work_holidays")
+      .select("holiday_date, name, panchayath_id")
+      .gte("holiday_date", from)
+      .lte("holiday_date", to),
+    supabase
+      .from("agent_leave_requests")
+      .select("agent_id, start_date, end_date")
+      .eq("status", "approved")
+      .lte("start_date", to)
+      .gte("end_date", from),
+  ]);
+  if (settings.error) throw settings.error;
+  if (holidays.error) throw holidays.error;
+  if (leaves.error) throw leaves.error;
+  return {
+    weekly_off_days: settings.data?.weekly_off_days ?? [0],
+    holidays: (holidays.data || []) as WorkHoliday[],
+    leaves: (leaves.data || []) as ApprovedLeave[],
+  };
+}
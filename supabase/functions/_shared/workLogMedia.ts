@@ -0,0 +1,120 @@
+// Photos and shared locations agents attach to their work log on WhatsApp.
+//
+// The WhatsApp provider hands over a message's attachments and shared
+// location (see whatsapp.ts); the text typed with them is its body. Each
+// photo is copied into the work-log-media bucket, since providers' media URLs
+// need credentials and do not last. Rows are keyed by the provider's message
+// id (the message_sid column), so a retried webhook adds nothing twice.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { fetchWhatsAppMedia, type InboundLocation, type InboundMedia, type InboundMessage } from "./whatsapp.ts";
+
+export const MEDIA_BUCKET = "work-log-media";
+/** Photos larger than this are skipped. */
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+export interface InboundEvidence {
+  messageId: string | null;
+  photos: InboundMedia[];
+  /** Media that is not a photo (video, PDF, audio), which is not stored. */
+  otherMedia: number;
+  location: InboundLocation | null;
+}
+
+export interface SavedEvidence {
+  photos: number;
+  location: boolean;
+  /** Photos that could not be downloaded or stored, and media that is not a photo. */
+  skipped: number;
+  /** The message was already stored, by an earlier delivery of the same webhook. */
+  duplicate: boolean;
+}
+
+/** The photos and location in an inbound message. */
+export function readInboundEvidence(message: InboundMessage): InboundEvidence {
+  const photos = message.media.filter((m) => PHOTO_EXTENSIONS[m.contentType]);
+  return {
+    messageId: message.id,
+    photos,
+    otherMedia: message.media.length - photos.length,
+    location: message.location,
+  };
+}
+
+export function hasEvidence(evidence: InboundEvidence): boolean {
+  return evidence.photos.length > 0 || evidence.otherMedia > 0 || evidence.location !== null;
+}
+
+/** `2 photos and a location`, for replies and for a log that has no text. */
+export function describeEvidence(photos: number, location: boolean): string {
+  const parts: string[] = [];
+  if (photos > 0) parts.push(photos === 1 ? "1 photo" : `${photos} photos`);
+  if (location) parts.push("a location");
+  return parts.join(" and ");
+}
+
+/** Stores the message's photos and location against a work log. */
+export async function saveEvidence(
+  supabase: SupabaseClient,
+  agentId: string,
+  workLogId: string,
+  workDate: string,
+  evidence: InboundEvidence,
+  caption: string,
+): Promise<SavedEvidence> {
+  if (evidence.messageId) {
+    const { count, error } = await supabase
+      .from("agent_work_log_media")
+      .select("id", { count: "exact", head: true })
+      .eq("message_sid", evidence.messageId);
+    if (error) throw error;
+    if (count) return { photos: 0, location: false, skipped: 0, duplicate: true };
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  let skipped = evidence.otherMedia;
+  const base = { work_log_id: workLogId, agent_id: agentId, caption, message_sid: evidence.messageId };
+
+  for (const photo of evidence.photos) {
+    const media = await fetchWhatsAppMedia(photo.ref, MAX_PHOTO_BYTES);
+    if (!media.ok) {
+      console.error("Work log photo download failed:", media.error);
+      skipped++;
+      continue;
+    }
+    const path = `${agentId}/${workDate}/${crypto.randomUUID()}.${PHOTO_EXTENSIONS[photo.contentType]}`;
+    const { error } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .upload(path, media.bytes, { contentType: photo.contentType, upsert: false });
+    if (error) {
+      console.error("Work log photo upload failed:", error.message);
+      skipped++;
+      continue;
+    }
+    rows.push({ ...base, kind: "photo", storage_path: path, content_type: photo.contentType, media_index: photo.index });
+  }
+
+  if (evidence.location) {
+    rows.push({ ...base, kind: "location", ...evidence.location });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from("agent_work_log_media")
+      .upsert(rows, { onConflict: "message_sid,kind,media_index", ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  return {
+    photos: rows.filter((r) => r.kind === "photo").length,
+    location: !!evidence.location,
+    skipped,
+    duplicate: false,
+  };
+}
@@ -0,0 +1,74 @@
+// Structured work-log metrics used by whatsapp-worklog and pennyekart-agents.
+//
+// Agents report numbers inside their free-text work log as `name:value`
+// tokens, e.g. `1 Visited ward 3 shops:5 orders:2`. Which names count is
+// configured in pennyekart_work_metrics, per role. A log's metrics are always
+// parsed from its full text, so appending a second report on the same day adds
+// to the totals and an edited log re-derives them. src/lib/workMetrics.ts
+// mirrors the parser for logs written from the web page.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface WorkMetric {
+  key: string;
+  label: string;
+  /** Other names agents may use for the metric, e.g. "shop" for "shops". */
+  aliases: string[];
+  /** Roles that report the metric; empty means every role. */
+  roles: string[];
+  sort_order: number;
+  is_active: boolean;
+}
+
+export type MetricValues = Record<string, number>;
+
+export interface ParsedMetrics {
+  values: MetricValues;
+  /** `name:value` tokens whose name is not a metric for the agent's role. */
+  unknown: string[];
+}
+
+const METRIC_TOKEN = /(?:^|[\s,;])([a-z][a-z0-9_-]*)\s*[:=]\s*(\d{1,6})(?=$|[\s,;.])/gi;
+
+/** The active metrics an agent with `role` reports, in display order. */
+export function metricsForRole(metrics: WorkMetric[], role: string): WorkMetric[] {
+  return metrics
+    .filter((m) => m.is_active && (m.roles.length === 0 || m.roles.includes(role)))
+    .sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/** Sums every `name:value` token in `text` that names one of `metrics`. */
+export function parseWorkMetrics(text: string, metrics: WorkMetric[]): ParsedMetrics {
+  const byName = new Map<string, string>();
+  for (const m of metrics) {
+    for (const name of [m.key, ...m.aliases]) byName.set(name.toLowerCase(), m.key);
+  }
+
+  const values: MetricValues = {};
+  const unknown: string[] = [];
+  for (const [, name, raw] of text.matchAll(METRIC_TOKEN)) {
+    const key = byName.get(name.toLowerCase());
+    if (!key) {
+      unknown.push(name);
+      continue;
+    }
+    values[key] = (values[key] || 0) + parseInt(raw, 10);
+  }
+  return { values, unknown };
+}
+
+/** `shops 5 · orders 2`, in the metrics' display order. */
+export function formatMetricValues(values: MetricValues, metrics: WorkMetric[]): string {
+  return metrics
+    .filter((m) => values[m.key] !== undefined)
+    .map((m) => `${m.label} ${values[m.key]}`)
+    .join(" · ");
+}
+
+export async function loadWorkMetrics(supabase: SupabaseClient): Promise<WorkMetric[]> {
+  const { data, error } = await supabase
+    .from("pennyekart_work_metrics")
+    .select("key, label, aliases, roles, sort_order, is_active")
+    .order("sort_order", { ascending: true });
+  if (error) throw error;
+  return (data || []) as WorkMetric[];
+}
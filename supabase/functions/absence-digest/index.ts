@@ -0,0 +1,153 @@
+// Edge function: scheduled daily absence digests (see _shared/absenceDigest.ts).
+//
+// pg_cron calls `run` every 15 minutes with the secret from
+// absence_digest_secrets; the digest goes out on the first call after
+// send_time. Super admins manage the schedule, opt-outs and send log from the
+// WhatsApp commands page.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { action, createRouter, forbidden, z } from "../_shared/router.ts";
+import { constantTimeEqualText } from "../_shared/password.ts";
+import { snapshotDate } from "../_shared/rankEngine.ts";
+import { normalizePhone } from "../_shared/customerAttribution.ts";
+import {
+  DIGEST_ROLES,
+  type DigestSettings,
+  isDigestDue,
+  loadDigestAdmins,
+  loadDigestAgents,
+  loadOptOuts,
+  runAbsenceDigest,
+} from "../_shared/absenceDigest.ts";
+
+const SEND_LOG_LIMIT = 300;
+
+const mobile = z.string().transform((v, ctx) => {
+  const digits = normalizePhone(v);
+  if (!digits) ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid mobile number" });
+  return digits || "";
+});
+
+async function loadSettings(supabase: SupabaseClient): Promise<DigestSettings> {
+  const { data, error } = await supabase
+    .from("absence_digest_settings")
+    .select("is_enabled, send_time, last_run_date")
+    .single();
+  if (error) throw error;
+  return data as DigestSettings;
+}
+
+/** Marks `date` as sent; false if another run already claimed it. */
+async function claimRun(supabase: SupabaseClient, date: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("absence_digest_settings")
+    .update({ last_run_date: date })
+    .eq("id", true)
+    .or(`last_run_date.is.null,last_run_date.lt.${date}`)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+const router = createRouter("absence-digest", {
+  // Called by the scheduler; does nothing until the day's digest is due.
+  run: action({
+    auth: "public",
+    input: z.object({}),
+    handler: async (_input, { supabase, req }) => {
+      const presented = req.headers.get("x-digest-secret") || "";
+      const { data: secret } = await supabase.from("absence_digest_secrets").select("secret").single();
+      if (!secret || !constantTimeEqualText(presented, secret.secret)) throw forbidden("Invalid scheduler secret");
+
+      const now = new Date();
+      const today = snapshotDate(now);
+      if (!isDigestDue(await loadSettings(supabase), today, now)) return { success: true, ran: false };
+      if (!(await claimRun(supabase, today))) return { success: true, ran: false };
+      return { success: true, ran: true, ...(await runAbsenceDigest(supabase, today)) };
+    },
+  }),
+
+  // Sends today's digest straight away, whether or not it already went out.
+  send_now: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send absence digests");
+      const today = snapshotDate();
+      await claimRun(supabase, today);
+      return { success: true, ...(await runAbsenceDigest(supabase, today)) };
+    },
+  }),
+
+  // Settings, everyone who would receive the digest, and the recent send log.
+  overview: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can manage absence digests");
+      const [settings, agents, admins, optOuts, sends] = await Promise.all([
+        loadSettings(supabase),
+        loadDigestAgents(supabase),
+        loadDigestAdmins(supabase),
+        loadOptOuts(supabase),
+        supabase
+          .from("absence_digest_sends")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(SEND_LOG_LIMIT),
+      ]);
+      if (sends.error) throw sends.error;
+
+      const recipients = [
+        ...agents
+          .filter((a) => a.is_active && DIGEST_ROLES.includes(a.role as (typeof DIGEST_ROLES)[number]))
+          .map((a) => ({ kind: a.role, id: a.id, name: a.name, mobile: normalizePhone(a.mobile) || a.mobile })),
+        ...admins.map((a) => ({
+          kind: "admin",
+          id: a.id,
+          name: a.full_name || "Admin",
+          mobile: normalizePhone(a.phone) || a.phone!,
+        })),
+      ]
+        .map((r) => ({ ...r, opted_out: optOuts.has(r.mobile) }))
+        .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+
+      return { success: true, settings, recipients, sends: sends.data || [] };
+    },
+  }),
+
+  save_settings: action({
+    auth: "admin",
+    input: z.object({
+      is_enabled: z.boolean(),
+      send_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Send time must be HH:MM"),
+    }),
+    handler: async (settings, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can manage absence digests");
+      const { data, error } = await supabase
+        .from("absence_digest_settings")
+        .update({ ...settings, updated_by: caller.admin.admin_id })
+        .eq("id", true)
+        .select("is_enabled, send_time, last_run_date")
+        .single();
+      if (error) throw error;
+      return { success: true, settings: data };
+    },
+  }),
+
+  set_opt_out: action({
+    auth: "admin",
+    input: z.object({ mobile, opted_out: z.boolean() }),
+    handler: async ({ mobile, opted_out }, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can manage absence digests");
+      const { error } = opted_out
+        ? await supabase
+          .from("absence_digest_opt_outs")
+          .upsert({ mobile, opted_out_by: `admin:${caller.admin.admin_id}` }, { onConflict: "mobile" })
+        : await supabase.from("absence_digest_opt_outs").delete().eq("mobile", mobile);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+});
+
+Deno.serve((req) => router.handle(req));
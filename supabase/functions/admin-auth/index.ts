@@ -1,11 +1,46 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  ADMIN_SESSION_TTL_MS,
+  type AdminRow,
+  issueSession,
+  revokeAllSessions,
+  revokeSession,
+  sessionErrorBody,
+  verifyAdminSession,
+} from "../_shared/session.ts";
+import { hashSecret, legacySha256Hex, verifySecret } from "../_shared/password.ts";
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  loginLockedBody,
+  loginLockedHeaders,
+  recordLoginFailure,
+  withAttemptsLeft,
+} from "../_shared/throttle.ts";
+import { AuditTrail } from "../_shared/audit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
 };
 
+// Fields of the admin row the client caches as ADMIN_DATA_KEY.
+function toAdminData(admin: AdminRow) {
+  return {
+    id: admin.id,
+    user_id: admin.user_id,
+    division_id: admin.division_id,
+    full_name: admin.full_name,
+    access_all_divisions: admin.access_all_divisions,
+    additional_division_ids: admin.additional_division_ids,
+    is_read_only: admin.is_read_only,
+    cash_collection_enabled: admin.cash_collection_enabled,
+    cash_collection_division_ids: admin.cash_collection_division_ids,
+    capabilities: admin.capabilities,
+  };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -16,67 +51,89 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const audit = new AuditTrail("admin-auth");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
     
-    const { phone, password, action } = await req.json();
+    const { phone, password, action, admin_id } = await req.json();
     
-    if (action === "refresh") {
-      // Refresh admin data by admin ID - no phone/password needed
-      const adminToken = req.headers.get("x-admin-token");
-      if (!adminToken) {
+    if (action === "refresh" || action === "logout" || action === "logout_all") {
+      const verified = await verifyAdminSession(supabase, req.headers.get("x-admin-token"));
+      if (!verified.ok) {
         return new Response(
-          JSON.stringify({ error: "Admin token required" }),
+          JSON.stringify(sessionErrorBody(verified.reason)),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+      const { sessionId, admin } = verified.session;
 
-      try {
-        const [payload] = adminToken.split(".");
-        const decoded = JSON.parse(atob(payload));
-        
-        if (!decoded.admin_id || (decoded.exp && decoded.exp < Date.now())) {
-          return new Response(
-            JSON.stringify({ error: "Invalid or expired token" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-
-        const { data: admin, error: adminError } = await supabase
-          .from("admins")
-          .select("id, user_id, division_id, full_name, access_all_divisions, additional_division_ids, is_active, is_read_only, cash_collection_enabled, cash_collection_division_ids")
-          .eq("id", decoded.admin_id)
-          .single();
-
-        if (adminError || !admin || !admin.is_active) {
-          return new Response(
-            JSON.stringify({ error: "Admin not found or inactive" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+      if (action === "logout") {
+        await revokeSession(supabase, sessionId, "logout");
+        return new Response(
+          JSON.stringify({ success: true }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
 
+      if (action === "logout_all") {
+        await revokeAllSessions(supabase, "admin", admin.id, "logout_all");
         return new Response(
-          JSON.stringify({
-            success: true,
-            admin: {
-              id: admin.id,
-              user_id: admin.user_id,
-              division_id: admin.division_id,
-              full_name: admin.full_name,
-              access_all_divisions: admin.access_all_divisions,
-              additional_division_ids: admin.additional_division_ids,
-              is_read_only: admin.is_read_only,
-              cash_collection_enabled: admin.cash_collection_enabled,
-              cash_collection_division_ids: admin.cash_collection_division_ids,
-            },
-          }),
+          JSON.stringify({ success: true }),
           { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
-      } catch {
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, admin: toAdminData(admin) }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Super admins set admin passwords here so hashing never happens in the browser.
+    if (action === "set_password") {
+      const jwt = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+      const { data: userData } = jwt ? await supabase.auth.getUser(jwt) : { data: null };
+      const uid = userData?.user?.id;
+      if (!uid) {
         return new Response(
-          JSON.stringify({ error: "Invalid token" }),
+          JSON.stringify({ error: "Unauthorized" }),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+      const { data: roleData } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", uid)
+        .eq("role", "super_admin")
+        .maybeSingle();
+      if (!roleData) {
+        return new Response(
+          JSON.stringify({ error: "Forbidden" }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      audit.setActor({ type: "super_admin", id: uid });
+
+      if (!admin_id || !password || String(password).length < 6) {
+        return new Response(
+          JSON.stringify({ error: "Password must be at least 6 characters" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: updateError } = await supabase
+        .from("admins")
+        .update({ password_hash: await hashSecret(String(password)) })
+        .eq("id", admin_id);
+      if (updateError) {
+        return new Response(
+          JSON.stringify({ error: updateError.message }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     if (action === "login") {
@@ -91,19 +148,39 @@ serve(async (req) => {
       const normalizedPhone = phone.replace(/\s+/g, "").trim();
       console.log("Admin login attempt for phone:", normalizedPhone);
       
+      const throttle = await checkLoginThrottle(supabase, "admin", normalizedPhone, req);
+      if (throttle.locked) {
+        return new Response(
+          JSON.stringify(loginLockedBody(throttle)),
+          { status: 429, headers: { ...corsHeaders, ...loginLockedHeaders(throttle), "Content-Type": "application/json" } }
+        );
+      }
+      
+      // Counts the failure; answers 429 if it tipped the phone or IP into a lock.
+      const rejectLogin = async (message: string) => {
+        const state = await recordLoginFailure(supabase, "admin", normalizedPhone, req);
+        if (state.locked) {
+          return new Response(
+            JSON.stringify(loginLockedBody(state)),
+            { status: 429, headers: { ...corsHeaders, ...loginLockedHeaders(state), "Content-Type": "application/json" } }
+          );
+        }
+        return new Response(
+          JSON.stringify({ error: withAttemptsLeft(message, state) }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      };
+      
       // Find admin by phone
       const { data: admin, error: adminError } = await supabase
         .from("admins")
-        .select("id, user_id, password_hash, is_active, division_id, full_name, access_all_divisions, additional_division_ids, is_read_only, cash_collection_enabled, cash_collection_division_ids")
+        .select("id, user_id, password_hash, is_active, division_id, full_name, access_all_divisions, additional_division_ids, is_read_only, cash_collection_enabled, cash_collection_division_ids, capabilities")
         .eq("phone", normalizedPhone)
         .single();
       
       if (adminError || !admin) {
         console.log("Admin not found:", adminError?.message);
-        return new Response(
-          JSON.stringify({ error: "Invalid phone number or password" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return await rejectLogin("Invalid phone number or password.");
       }
       
       if (!admin.is_active) {
@@ -122,39 +199,31 @@ serve(async (req) => {
         );
       }
       
-      // Verify password using bcrypt
-      const encoder = new TextEncoder();
-      const data = encoder.encode(password);
-      const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashedPassword = hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
+      // Admins created before PBKDF2 hashing stored a bare SHA-256 of the password.
+      const check = await verifySecret(password, admin.password_hash, async (pw) => [await legacySha256Hex(pw)]);
       
-      if (hashedPassword !== admin.password_hash) {
+      if (!check.ok) {
         console.log("Password mismatch");
-        return new Response(
-          JSON.stringify({ error: "Invalid phone number or password" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return await rejectLogin("Invalid phone number or password.");
       }
       
-      // Generate a custom session token for the admin
-      const tokenPayload = {
-        admin_id: admin.id,
-        user_id: admin.user_id,
-        division_id: admin.division_id,
-        full_name: admin.full_name,
-        exp: Date.now() + (24 * 60 * 60 * 1000), // 24 hours
-      };
+      await clearLoginFailures(supabase, "admin", normalizedPhone);
+      audit.setActor({ type: "admin", id: admin.id });
       
-      // Sign the token
-      const tokenData = JSON.stringify(tokenPayload);
-      const tokenEncoder = new TextEncoder();
-      const tokenBuffer = tokenEncoder.encode(tokenData + supabaseServiceKey);
-      const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-      const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-      const signature = signatureArray.map(b => b.toString(16).padStart(2, "0")).join("");
+      if (check.needsRehash) {
+        await supabase
+          .from("admins")
+          .update({ password_hash: await hashSecret(password) })
+          .eq("id", admin.id);
+      }
       
-      const token = btoa(tokenData) + "." + signature;
+      const { token, expiresAt } = await issueSession(supabase, {
+        kind: "admin",
+        subjectId: admin.id,
+        ttlMs: ADMIN_SESSION_TTL_MS,
+        claims: { division_id: admin.division_id, full_name: admin.full_name },
+        req,
+      });
       
       console.log("Admin login successful");
       
@@ -162,17 +231,8 @@ serve(async (req) => {
         JSON.stringify({
           success: true,
           token,
-          admin: {
-            id: admin.id,
-            user_id: admin.user_id,
-            division_id: admin.division_id,
-            full_name: admin.full_name,
-            access_all_divisions: admin.access_all_divisions,
-            additional_division_ids: admin.additional_division_ids,
-            is_read_only: admin.is_read_only,
-            cash_collection_enabled: admin.cash_collection_enabled,
-            cash_collection_division_ids: admin.cash_collection_division_ids,
-          },
+          expires_at: expiresAt,
+          admin: toAdminData(admin),
         }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
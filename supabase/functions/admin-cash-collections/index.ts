@@ -1,130 +1,88 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-};
-
-async function validateAuth(req: Request, supabase: any) {
-  // Try admin token first
-  const adminToken = req.headers.get("x-admin-token");
-  if (adminToken) {
-    try {
-      const [payload] = adminToken.split(".");
-      const decoded = JSON.parse(atob(payload));
-      if (!decoded.exp || decoded.exp <= Date.now()) return null;
-      if (!decoded.admin_id || !decoded.division_id) return null;
-
-      // Fetch admin record to get cash_collection_division_ids
-      const { data: adminRecord } = await supabase
-        .from("admins")
-        .select("full_name, is_read_only, cash_collection_enabled, cash_collection_division_ids")
-        .eq("id", decoded.admin_id)
-        .single();
-
-      return {
-        adminId: decoded.admin_id,
-        divisionId: decoded.division_id,
-        adminName: adminRecord?.full_name || decoded.full_name || "Admin",
-        isReadOnly: adminRecord?.is_read_only || false,
-        isSuperAdmin: false,
-        cashCollectionEnabled: adminRecord?.cash_collection_enabled || false,
-        cashCollectionDivisionIds: adminRecord?.cash_collection_division_ids || [],
-      };
-    } catch {
-      // fall through to JWT check
-    }
+import {
+  action,
+  type ActionContext,
+  type CallerOf,
+  createRouter,
+  forbidden,
+  z,
+} from "../_shared/router.ts";
+
+// Callers POST { action, ... }. The older REST style is still accepted: GET
+// ?action=..., POST without an action to create, PUT with a body action,
+// DELETE ?collection_id=...
+const READ_ACTIONS = new Set(["search_mobile", "list", "report", "list_all", "report_all"]);
+const UPDATE_ACTIONS = new Set(["edit", "verify", "submit"]);
+
+type AdminContext = ActionContext<CallerOf<"admin">>;
+
+/**
+ * The collector as recorded on a collection, after checking that the admin may
+ * work with the division they are viewing (`division_id` in the input).
+ */
+async function collector(ctx: AdminContext, divisionId?: string | null) {
+  const { admin } = ctx.caller;
+  const requestedDivisionId = divisionId ?? ctx.url.searchParams.get("division_id");
+  if (!admin.isSuperAdmin && requestedDivisionId && requestedDivisionId !== admin.division_id) {
+    const row = admin.session?.admin;
+    const hasCashAccess = !!row?.cash_collection_enabled &&
+      (row.cash_collection_division_ids || []).includes(requestedDivisionId);
+    if (!hasCashAccess) throw forbidden("No cash collection access for this division");
   }
 
-  // Try Supabase JWT for super admins
-  const authHeader = req.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    try {
-      const token = authHeader.replace("Bearer ", "");
-      const { data: userData, error } = await supabase.auth.getUser(token);
-      if (error || !userData?.user) return null;
-
-      const userId = userData.user.id;
-
-      // Check if user is super_admin
-      const { data: roleData } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", userId)
-        .eq("role", "super_admin")
-        .maybeSingle();
-
-      if (!roleData) return null;
-
-      // Get profile name
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("full_name")
-        .eq("id", userId)
-        .maybeSingle();
-
-      return {
-        adminId: userId,
-        divisionId: null, // super admin can access any division
-        adminName: profile?.full_name || userData.user.email || "Super Admin",
-        isReadOnly: false,
-        isSuperAdmin: true,
-        cashCollectionEnabled: true,
-        cashCollectionDivisionIds: [],
-      };
-    } catch {
-      return null;
-    }
+  let adminName = admin.full_name;
+  if (!admin.session) {
+    const { data: profile } = await ctx.supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("id", admin.admin_id)
+      .maybeSingle();
+    adminName = profile?.full_name || adminName;
   }
-
-  return null;
+  return {
+    adminId: admin.admin_id,
+    divisionId: admin.division_id,
+    adminName,
+    isReadOnly: admin.session?.admin.is_read_only || false,
+    isSuperAdmin: admin.isSuperAdmin,
+  };
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+interface CollectionRow {
+  amount: number | string;
+  status: string;
+}
 
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const admin = await validateAuth(req, supabase);
-    if (!admin) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+function summarize(collections: CollectionRow[]) {
+  const total = (rows: CollectionRow[]) => rows.reduce((sum, c) => sum + Number(c.amount), 0);
+  const withStatus = (status: string) => collections.filter((c) => c.status === status);
+  return {
+    totalCollected: total(collections),
+    pendingAmount: total(withStatus("pending")),
+    verifiedAmount: total(withStatus("verified")),
+    submittedAmount: total(withStatus("submitted")),
+    totalEntries: collections.length,
+    pendingCount: withStatus("pending").length,
+    verifiedCount: withStatus("verified").length,
+    submittedCount: withStatus("submitted").length,
+  };
+}
 
-    const url = new URL(req.url);
-    const action = url.searchParams.get("action");
-    const requestedDivisionId = url.searchParams.get("division_id");
-
-    // Check if admin has access to the requested division for cash collections
-    if (!admin.isSuperAdmin && requestedDivisionId && requestedDivisionId !== admin.divisionId) {
-      const hasCashAccess = admin.cashCollectionEnabled && 
-        admin.cashCollectionDivisionIds.includes(requestedDivisionId);
-      if (!hasCashAccess) {
-        return new Response(JSON.stringify({ error: "No cash collection access for this division" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-    }
+const CREATE_REQUIRED = "person_name, mobile, and amount are required";
+const requiredText = (message: string) =>
+  z.string({ required_error: message, invalid_type_error: message }).min(1, message);
+const collectionId = requiredText("collection_id required");
+const divisionFilter = z.object({ division_id: z.string().optional(), status: z.string().optional() });
+
+const router = createRouter("admin-cash-collections", {
+  // Find members/registrations by mobile number
+  search_mobile: action({
+    auth: "admin",
+    input: z.object({ mobile: z.string().default(""), division_id: z.string().optional() }),
+    handler: async ({ mobile, division_id }, ctx) => {
+      await collector(ctx, division_id);
+      if (mobile.length < 3) return { results: [] };
+      const { supabase } = ctx;
 
-    // SEARCH: Find members/registrations by mobile number
-    if (req.method === "GET" && action === "search_mobile") {
-      const mobile = url.searchParams.get("mobile");
-      if (!mobile || mobile.length < 3) {
-        return new Response(JSON.stringify({ results: [] }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      // Search members
       const { data: members } = await supabase
         .from("members")
         .select("id, full_name, phone, division_id, panchayath_id, panchayaths(name)")
@@ -138,10 +96,10 @@ Deno.serve(async (req) => {
         .or(`answers->_fixed->>mobile.ilike.%${mobile}%,answers->_fixed->>phone.ilike.%${mobile}%,answers->>phone.ilike.%${mobile}%,answers->>mobile.ilike.%${mobile}%,answers->>contact.ilike.%${mobile}%`)
         .limit(20);
 
-      const results: any[] = [];
+      const results: Record<string, unknown>[] = [];
 
-      // Add members
-      (members || []).forEach((m: any) => {
+      for (const m of members || []) {
+        const panchayath = m.panchayaths as { name?: string } | null;
         results.push({
           type: "member",
           id: m.id,
@@ -149,406 +107,263 @@ Deno.serve(async (req) => {
           mobile: m.phone,
           division_id: m.division_id,
           panchayath_id: m.panchayath_id,
-          panchayath_name: m.panchayaths?.name || null,
+          panchayath_name: panchayath?.name || null,
         });
-      });
+      }
 
-      // Add registrations
-      matchedRegs?.forEach((r: any) => {
-        const answers = r.answers as Record<string, any>;
-        const fixed = answers?._fixed as Record<string, string> | undefined;
+      for (const r of matchedRegs || []) {
+        const answers = r.answers as Record<string, string> | null;
+        const fixed = answers?._fixed as unknown as Record<string, string> | undefined;
+        const program = r.programs as { name?: string; division_id?: string } | null;
         results.push({
           type: "registration",
           id: r.id,
           name: fixed?.name || answers?.full_name || answers?.name || "Unknown",
           mobile: fixed?.mobile || fixed?.phone || answers?.phone || answers?.mobile || answers?.contact || "",
-          division_id: r.programs?.division_id || null,
+          division_id: program?.division_id || null,
           panchayath_id: fixed?.panchayath_id || null,
           panchayath_name: fixed?.panchayath_name || answers?.panchayath || null,
-          program_name: r.programs?.name || null,
+          program_name: program?.name || null,
         });
-      });
-
-      return new Response(JSON.stringify({ results }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // GET: Fetch collections for a division
-    if (req.method === "GET" && action === "list") {
-      const divisionId = url.searchParams.get("division_id") || admin.divisionId;
-      const status = url.searchParams.get("status");
+      }
 
-      let query = supabase
+      return { results };
+    },
+  }),
+
+  // Collections for a division
+  list: action({
+    auth: "admin",
+    input: divisionFilter,
+    handler: async (input, ctx) => {
+      const admin = await collector(ctx, input.division_id);
+      let query = ctx.supabase
         .from("cash_collections")
         .select("*, divisions(name), panchayaths(name)")
-        .eq("division_id", divisionId)
+        .eq("division_id", input.division_id || admin.divisionId)
         .order("created_at", { ascending: false });
-
-      if (status) {
-        query = query.eq("status", status);
-      }
+      if (input.status) query = query.eq("status", input.status);
 
       const { data, error } = await query;
-
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      return new Response(JSON.stringify({ collections: data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // GET: Collection report/summary
-    if (req.method === "GET" && action === "report") {
-      const divisionId = url.searchParams.get("division_id") || admin.divisionId;
-
-      const { data, error } = await supabase
+      if (error) throw error;
+      return { collections: data };
+    },
+  }),
+
+  // Collection report/summary for a division
+  report: action({
+    auth: "admin",
+    input: divisionFilter,
+    handler: async (input, ctx) => {
+      const admin = await collector(ctx, input.division_id);
+      const { data, error } = await ctx.supabase
         .from("cash_collections")
         .select("*")
-        .eq("division_id", divisionId)
+        .eq("division_id", input.division_id || admin.divisionId)
         .order("created_at", { ascending: false });
-
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+      if (error) throw error;
 
       const collections = data || [];
-      const totalCollected = collections.reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const pendingAmount = collections.filter((c: any) => c.status === "pending").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const verifiedAmount = collections.filter((c: any) => c.status === "verified").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const submittedAmount = collections.filter((c: any) => c.status === "submitted").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-
-      return new Response(JSON.stringify({
-        report: {
-          totalCollected,
-          pendingAmount,
-          verifiedAmount,
-          submittedAmount,
-          totalEntries: collections.length,
-          pendingCount: collections.filter((c: any) => c.status === "pending").length,
-          verifiedCount: collections.filter((c: any) => c.status === "verified").length,
-          submittedCount: collections.filter((c: any) => c.status === "submitted").length,
-        },
-        collections,
-      }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // POST: Create new collection
-    if (req.method === "POST") {
-      if (admin.isReadOnly) {
-        return new Response(JSON.stringify({ error: "Read-only admins cannot create collections" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const body = await req.json();
-      const { person_name, mobile, division_id, panchayath_id, panchayath_name, member_id, amount, notes } = body;
-
-      console.log("POST body division_id:", division_id, "admin.divisionId:", admin.divisionId, "final:", division_id || admin.divisionId);
-
-      if (!person_name || !mobile || !amount) {
-        return new Response(JSON.stringify({ error: "person_name, mobile, and amount are required" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      // Always use the explicitly provided division_id from the request body
-      // This ensures the collection is recorded under the division the admin is currently viewing,
-      // not their primary division from the admin token
-      const targetDivisionId = division_id || admin.divisionId;
-
-      const { data, error } = await supabase
-        .from("cash_collections")
-        .insert({
-          person_name,
-          mobile,
-          division_id: targetDivisionId,
-          panchayath_id: panchayath_id || null,
-          panchayath_name: panchayath_name || null,
-          member_id: member_id || null,
-          amount: Number(amount),
-          notes: notes || null,
-          collected_by: admin.adminId,
-          collected_by_name: admin.adminName,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error("Insert error:", error);
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      return new Response(JSON.stringify({ success: true, collection: data }), {
-        status: 201,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // GET: List ALL collections across divisions (super admin only)
-    if (req.method === "GET" && action === "list_all") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Super admin only" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const status = url.searchParams.get("status");
-      let query = supabase
+      return { report: summarize(collections), collections };
+    },
+  }),
+
+  // All collections across divisions (super admin only)
+  list_all: action({
+    auth: "admin",
+    input: divisionFilter,
+    handler: async (input, ctx) => {
+      const admin = await collector(ctx);
+      if (!admin.isSuperAdmin) throw forbidden("Super admin only");
+
+      let query = ctx.supabase
         .from("cash_collections")
         .select("*, divisions(name), panchayaths(name)")
         .order("created_at", { ascending: false })
         .limit(500);
-
-      if (status) query = query.eq("status", status);
+      if (input.status) query = query.eq("status", input.status);
 
       const { data, error } = await query;
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      return new Response(JSON.stringify({ collections: data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // GET: Report across ALL divisions (super admin only)
-    if (req.method === "GET" && action === "report_all") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Super admin only" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const { data, error } = await supabase
+      if (error) throw error;
+      return { collections: data };
+    },
+  }),
+
+  // Report across all divisions (super admin only)
+  report_all: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, ctx) => {
+      const admin = await collector(ctx);
+      if (!admin.isSuperAdmin) throw forbidden("Super admin only");
+
+      const { data, error } = await ctx.supabase
         .from("cash_collections")
         .select("*, divisions(name)")
         .order("created_at", { ascending: false });
-
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+      if (error) throw error;
 
       const collections = data || [];
-      const totalCollected = collections.reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const pendingAmount = collections.filter((c: any) => c.status === "pending").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const verifiedAmount = collections.filter((c: any) => c.status === "verified").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-      const submittedAmount = collections.filter((c: any) => c.status === "submitted").reduce((sum: number, c: any) => sum + Number(c.amount), 0);
-
-      return new Response(JSON.stringify({
-        report: {
-          totalCollected,
-          pendingAmount,
-          verifiedAmount,
-          submittedAmount,
-          totalEntries: collections.length,
-          pendingCount: collections.filter((c: any) => c.status === "pending").length,
-          verifiedCount: collections.filter((c: any) => c.status === "verified").length,
-          submittedCount: collections.filter((c: any) => c.status === "submitted").length,
-        },
-        collections,
-      }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // PUT: Verify, Submit, or Edit collections
-    if (req.method === "PUT") {
-      const body = await req.json();
-      const { collection_id, collection_ids, action: putAction } = body;
-
-      if (putAction === "edit") {
-        if (!admin.isSuperAdmin) {
-          return new Response(JSON.stringify({ error: "Only super admin can edit collections" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-        if (!collection_id) {
-          return new Response(JSON.stringify({ error: "collection_id required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        const updateData: Record<string, any> = {};
-        if (body.person_name !== undefined) updateData.person_name = body.person_name;
-        if (body.mobile !== undefined) updateData.mobile = body.mobile;
-        if (body.amount !== undefined) updateData.amount = Number(body.amount);
-        if (body.notes !== undefined) updateData.notes = body.notes;
-        if (body.status !== undefined) updateData.status = body.status;
-        if (body.panchayath_name !== undefined) updateData.panchayath_name = body.panchayath_name;
-        updateData.updated_at = new Date().toISOString();
-
-        const { data, error } = await supabase
-          .from("cash_collections")
-          .update(updateData)
-          .eq("id", collection_id)
-          .select()
-          .single();
-
-        if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        return new Response(JSON.stringify({ success: true, collection: data }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      if (putAction === "verify") {
-        if (admin.isReadOnly) {
-          return new Response(JSON.stringify({ error: "Read-only admins cannot verify" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        const id = collection_id;
-        if (!id) {
-          return new Response(JSON.stringify({ error: "collection_id required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        const { error } = await supabase
-          .from("cash_collections")
-          .update({
-            status: "verified",
-            verified_by: admin.adminId,
-            verified_by_name: admin.adminName,
-            verified_at: new Date().toISOString(),
-          })
-          .eq("id", id)
-          .eq("status", "pending");
-
-        if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        return new Response(JSON.stringify({ success: true }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      if (putAction === "submit") {
-        if (admin.isReadOnly) {
-          return new Response(JSON.stringify({ error: "Read-only admins cannot submit" }), {
-            status: 403,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        const ids = collection_ids || (collection_id ? [collection_id] : []);
-        if (ids.length === 0) {
-          return new Response(JSON.stringify({ error: "collection_id(s) required" }), {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        const { error } = await supabase
-          .from("cash_collections")
-          .update({
-            status: "submitted",
-            submitted_by: admin.adminId,
-            submitted_by_name: admin.adminName,
-            submitted_at: new Date().toISOString(),
-          })
-          .in("id", ids)
-          .eq("status", "verified");
-
-        if (error) {
-          return new Response(JSON.stringify({ error: error.message }), {
-            status: 500,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-
-        return new Response(JSON.stringify({ success: true }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      return new Response(JSON.stringify({ error: "Invalid action" }), {
-        status: 400,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // DELETE: Delete a collection (super admin only)
-    if (req.method === "DELETE") {
-      if (!admin.isSuperAdmin) {
-        return new Response(JSON.stringify({ error: "Only super admin can delete collections" }), {
-          status: 403,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      const collectionId = url.searchParams.get("collection_id");
-      if (!collectionId) {
-        return new Response(JSON.stringify({ error: "collection_id required" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+      return { report: summarize(collections), collections };
+    },
+  }),
+
+  create: action({
+    auth: "admin",
+    input: z.object({
+      person_name: requiredText(CREATE_REQUIRED),
+      mobile: requiredText(CREATE_REQUIRED),
+      amount: z.coerce.number({ invalid_type_error: CREATE_REQUIRED }).refine((n) => n !== 0, CREATE_REQUIRED),
+      division_id: z.string().nullish(),
+      panchayath_id: z.string().nullish(),
+      panchayath_name: z.string().nullish(),
+      member_id: z.string().nullish(),
+      notes: z.string().nullish(),
+    }),
+    handler: async (input, ctx) => {
+      const admin = await collector(ctx, input.division_id);
+      if (admin.isReadOnly) throw forbidden("Read-only admins cannot create collections");
+
+      // The collection is recorded under the division the admin is currently
+      // viewing, not their primary division.
+      const { data, error } = await ctx.supabase
+        .from("cash_collections")
+        .insert({
+          person_name: input.person_name,
+          mobile: input.mobile,
+          division_id: input.division_id || admin.divisionId,
+          panchayath_id: input.panchayath_id || null,
+          panchayath_name: input.panchayath_name || null,
+          member_id: input.member_id || null,
+          amount: input.amount,
+          notes: input.notes || null,
+          collected_by: admin.adminId,
+          collected_by_name: admin.adminName,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+
+      return ctx.json({ success: true, collection: data }, 201);
+    },
+  }),
+
+  edit: action({
+    auth: "admin",
+    input: z.object({
+      collection_id: collectionId,
+      person_name: z.string().optional(),
+      mobile: z.string().optional(),
+      amount: z.coerce.number().optional(),
+      notes: z.string().nullish(),
+      status: z.string().optional(),
+      panchayath_name: z.string().nullish(),
+    }),
+    handler: async ({ collection_id, ...fields }, ctx) => {
+      const admin = await collector(ctx);
+      if (!admin.isSuperAdmin) throw forbidden("Only super admin can edit collections");
+
+      const updateData: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined) updateData[key] = value;
       }
+      updateData.updated_at = new Date().toISOString();
 
-      const { error } = await supabase
+      const { data, error } = await ctx.supabase
         .from("cash_collections")
-        .delete()
-        .eq("id", collectionId);
-
-      if (error) {
-        return new Response(JSON.stringify({ error: error.message }), {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+        .update(updateData)
+        .eq("id", collection_id)
+        .select()
+        .single();
+      if (error) throw error;
+      return { success: true, collection: data };
+    },
+  }),
+
+  verify: action({
+    auth: "admin",
+    input: z.object({ collection_id: collectionId, division_id: z.string().optional() }),
+    handler: async ({ collection_id, division_id }, ctx) => {
+      const admin = await collector(ctx, division_id);
+      if (admin.isReadOnly) throw forbidden("Read-only admins cannot verify");
+
+      const { error } = await ctx.supabase
+        .from("cash_collections")
+        .update({
+          status: "verified",
+          verified_by: admin.adminId,
+          verified_by_name: admin.adminName,
+          verified_at: new Date().toISOString(),
+        })
+        .eq("id", collection_id)
+        .eq("status", "pending");
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  submit: action({
+    auth: "admin",
+    input: z
+      .object({
+        collection_id: z.string().optional(),
+        collection_ids: z.array(z.string()).optional(),
+        division_id: z.string().optional(),
+      })
+      .transform((b) => ({
+        ids: b.collection_ids || (b.collection_id ? [b.collection_id] : []),
+        division_id: b.division_id,
+      }))
+      .refine(({ ids }) => ids.length > 0, "collection_id(s) required"),
+    handler: async ({ ids, division_id }, ctx) => {
+      const admin = await collector(ctx, division_id);
+      if (admin.isReadOnly) throw forbidden("Read-only admins cannot submit");
+
+      const { error } = await ctx.supabase
+        .from("cash_collections")
+        .update({
+          status: "submitted",
+          submitted_by: admin.adminId,
+          submitted_by_name: admin.adminName,
+          submitted_at: new Date().toISOString(),
+        })
+        .in("id", ids)
+        .eq("status", "verified");
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  // Delete a collection (super admin only)
+  delete: action({
+    auth: "admin",
+    input: z.object({ collection_id: collectionId }),
+    handler: async ({ collection_id }, ctx) => {
+      const admin = await collector(ctx);
+      if (!admin.isSuperAdmin) throw forbidden("Only super admin can delete collections");
+
+      const { error } = await ctx.supabase.from("cash_collections").delete().eq("id", collection_id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+}, {
+  resolveAction: (req, url, body) => {
+    switch (req.method) {
+      case "GET": {
+        const name = url.searchParams.get("action");
+        return name && READ_ACTIONS.has(name) ? name : null;
       }
-
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      case "POST":
+        return typeof body?.action === "string" ? body.action : "create";
+      case "PUT":
+        return typeof body?.action === "string" && UPDATE_ACTIONS.has(body.action) ? body.action : null;
+      case "DELETE":
+        return "delete";
+      default:
+        return null;
     }
-
-    return new Response(JSON.stringify({ error: "Method not allowed" }), {
-      status: 405,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
-  } catch (error) {
-    console.error("Error:", error);
-    return new Response(JSON.stringify({ error: "Internal server error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
-  }
+  },
 });
+
+Deno.serve((req) => router.handle(req));
@@ -1,5 +1,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
+import { hasCapability, missingCapabilityBody, sessionCapabilities } from "../_shared/capabilities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,51 +10,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-admin-token",
 };
 
-interface AdminTokenPayload {
-  admin_id: string;
-  user_id: string;
-  division_id: string;
-  exp: number;
-}
-
-async function verifyAdminToken(
-  token: string,
-  serviceKey: string,
-): Promise<AdminTokenPayload | null> {
-  try {
-    const [payloadBase64, signature] = token.split(".");
-    if (!payloadBase64 || !signature) return null;
-
-    const tokenData = atob(payloadBase64);
-    const payload: AdminTokenPayload = JSON.parse(tokenData);
-
-    // Check expiry
-    if (payload.exp < Date.now()) {
-      console.log("Token expired");
-      return null;
-    }
-
-    // Verify signature
-    const tokenEncoder = new TextEncoder();
-    const tokenBuffer = tokenEncoder.encode(tokenData + serviceKey);
-    const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-    const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-    const expectedSignature = signatureArray
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-
-    if (signature !== expectedSignature) {
-      console.log("Invalid signature");
-      return null;
-    }
-
-    return payload;
-  } catch (error) {
-    console.error("Token verification error:", error);
-    return null;
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -60,40 +18,18 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(JSON.stringify({ error: "Admin token required" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+    const audit = new AuditTrail("admin-form-questions");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
 
-    const adminPayload = await verifyAdminToken(adminToken, supabaseServiceKey);
-    if (!adminPayload) {
-      return new Response(JSON.stringify({ error: "Invalid or expired token" }), {
+    const verified = await verifyAdminSession(supabase, req.headers.get("x-admin-token"));
+    if (!verified.ok) {
+      return new Response(JSON.stringify(sessionErrorBody(verified.reason)), {
         status: 401,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-
-    // Verify admin is still active
-    const { data: admin, error: adminError } = await supabase
-      .from("admins")
-      .select("id, is_active, division_id")
-      .eq("id", adminPayload.admin_id)
-      .single();
-
-    if (adminError || !admin || !admin.is_active) {
-      return new Response(
-        JSON.stringify({ error: "Admin account not found or inactive" }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
-    }
+    const admin = verified.session;
+    audit.setActor(adminActor(admin));
 
     const body = await req.json();
     const { action, data } = body as {
@@ -108,6 +44,14 @@ serve(async (req) => {
       });
     }
 
+    // Listing is read-only; every other action edits the program's form.
+    if (action !== "list" && !hasCapability(sessionCapabilities(admin), "programs:edit")) {
+      return new Response(JSON.stringify(missingCapabilityBody("programs:edit")), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const divisionId = admin.division_id as string;
 
     async function verifyProgramAccess(programId: string): Promise<boolean> {
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,27 +17,21 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const audit = new AuditTrail("admin-locations");
+    const supabase = createClient(supabaseUrl, serviceRoleKey, audit.clientOptions);
 
     const adminToken = req.headers.get("x-admin-token");
     
     // Validate admin token if provided
     if (adminToken) {
-      try {
-        const [payload] = adminToken.split(".");
-        const decoded = JSON.parse(atob(payload));
-        if (!decoded.exp || decoded.exp < Date.now()) {
-          return new Response(
-            JSON.stringify({ error: "Admin token expired" }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-      } catch {
+      const verified = await verifyAdminSession(supabase, adminToken);
+      if (!verified.ok) {
         return new Response(
-          JSON.stringify({ error: "Invalid admin token" }),
+          JSON.stringify(sessionErrorBody(verified.reason)),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
+      audit.setActor(adminActor(verified.session));
     }
 
     const url = new URL(req.url);
@@ -1,51 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
+import { hasCapability, missingCapabilityBody, sessionCapabilities } from "../_shared/capabilities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
 };
 
-interface AdminTokenPayload {
-  admin_id: string;
-  user_id: string;
-  division_id: string;
-  exp: number;
-}
-
-async function verifyAdminToken(token: string, serviceKey: string): Promise<AdminTokenPayload | null> {
-  try {
-    const [payloadBase64, signature] = token.split(".");
-    if (!payloadBase64 || !signature) return null;
-
-    const tokenData = atob(payloadBase64);
-    const payload: AdminTokenPayload = JSON.parse(tokenData);
-
-    // Check expiry
-    if (payload.exp < Date.now()) {
-      console.log("Token expired");
-      return null;
-    }
-
-    // Verify signature
-    const tokenEncoder = new TextEncoder();
-    const tokenBuffer = tokenEncoder.encode(tokenData + serviceKey);
-    const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-    const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-    const expectedSignature = signatureArray.map(b => b.toString(16).padStart(2, "0")).join("");
-
-    if (signature !== expectedSignature) {
-      console.log("Invalid signature");
-      return null;
-    }
-
-    return payload;
-  } catch (error) {
-    console.error("Token verification error:", error);
-    return null;
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -55,7 +18,8 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const audit = new AuditTrail("admin-modules");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
 
     // Support both admin token and Supabase JWT (for super_admin)
     const adminToken = req.headers.get("x-admin-token");
@@ -65,31 +29,24 @@ serve(async (req) => {
     let adminId: string;
 
     if (adminToken) {
-      // Verify custom admin token
-      const adminPayload = await verifyAdminToken(adminToken, supabaseServiceKey);
-      if (!adminPayload) {
+      const verified = await verifyAdminSession(supabase, adminToken);
+      if (!verified.ok) {
         return new Response(
-          JSON.stringify({ error: "Invalid or expired token" }),
+          JSON.stringify(sessionErrorBody(verified.reason)),
           { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Verify admin is still active
-      const { data: admin, error: adminError } = await supabase
-        .from("admins")
-        .select("id, is_active, division_id")
-        .eq("id", adminPayload.admin_id)
-        .single();
+      divisionId = verified.session.division_id;
+      adminId = verified.session.admin_id;
+      audit.setActor(adminActor(verified.session));
 
-      if (adminError || !admin || !admin.is_active) {
+      if (!hasCapability(sessionCapabilities(verified.session), "programs:edit")) {
         return new Response(
-          JSON.stringify({ error: "Admin account not found or inactive" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          JSON.stringify(missingCapabilityBody("programs:edit")),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
-
-      divisionId = admin.division_id;
-      adminId = admin.id;
     } else if (authHeader) {
       // Verify Supabase JWT for super_admin
       const token = authHeader.replace("Bearer ", "");
@@ -124,6 +81,7 @@ serve(async (req) => {
       // Super admin can access all divisions
       divisionId = "__super_admin__";
       adminId = user.id;
+      audit.setActor({ type: "super_admin", id: user.id });
     } else {
       return new Response(
         JSON.stringify({ error: "Admin token required" }),
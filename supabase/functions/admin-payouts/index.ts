@@ -0,0 +1,96 @@
+// Edge function: agent payouts.
+//
+// Admins holding the payouts:approve capability (and super admins) set the
+// commission rate of each role, read the sales the commissions are worked out
+// from, and credit the commissions to agent wallets from the Payouts page.
+import { action, badRequest, conflict, createRouter, requireCapability, z } from "../_shared/router.ts";
+import { snapshotDate } from "../_shared/rankEngine.ts";
+
+const PAGE_SIZE = 1000;
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const router = createRouter("admin-payouts", {
+  rates: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      requireCapability(caller.admin, "payouts:approve");
+      const { data, error } = await supabase.from("payout_commission_rates").select("*").order("role");
+      if (error) throw error;
+      return { success: true, rates: data || [] };
+    },
+  }),
+
+  save_rates: action({
+    auth: "admin",
+    input: z.object({ rates: z.record(z.string(), z.number().min(0).max(100)) }),
+    handler: async ({ rates }, { supabase, caller }) => {
+      requireCapability(caller.admin, "payouts:approve");
+      const updated_at = new Date().toISOString();
+      for (const [role, percentage] of Object.entries(rates)) {
+        const { error } = await supabase
+          .from("payout_commission_rates")
+          .update({ percentage, updated_at })
+          .eq("role", role);
+        if (error) throw error;
+      }
+      return { success: true };
+    },
+  }),
+
+  // Every order, with only the columns commissions are worked out from.
+  orders: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      requireCapability(caller.admin, "payouts:approve");
+      const orders = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("pennyekart_orders")
+          .select("total_amount, panchayath_name, ward, status, source_created_at")
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        orders.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return { success: true, orders };
+      }
+    },
+  }),
+
+  // Credits each agent's commission for a date range to their wallet. A range
+  // that has already ended cannot be credited, so old ranges are not paid twice.
+  transfer_commissions: action({
+    auth: "admin",
+    input: z.object({
+      from_date: date,
+      to_date: date,
+      transfers: z.array(z.object({ agent_id: z.string().uuid(), amount: z.number().positive() })).min(1),
+    }),
+    handler: async ({ from_date, to_date, transfers }, { supabase, caller }) => {
+      requireCapability(caller.admin, "payouts:approve");
+      const today = snapshotDate();
+      if (from_date > to_date) throw badRequest("From Date must not be after To Date");
+      if (to_date < today) throw badRequest("Cannot transfer for past date ranges");
+
+      const { error } = await supabase.from("agent_wallet_transactions").insert(
+        transfers.map(({ agent_id, amount }) => ({
+          agent_id,
+          amount,
+          transaction_type: "commission_credit",
+          description: `Commission for ${from_date} to ${to_date}`,
+          transfer_date: today,
+          from_date,
+          to_date,
+          created_by: caller.admin.admin_id,
+        })),
+      );
+      if (error?.code === "23505") throw conflict("Some transfers already exist for this date range");
+      if (error) throw error;
+      return { success: true, transferred: transfers.length };
+    },
+  }),
+});
+
+Deno.serve((req) => router.handle(req));
@@ -1,51 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
+import { hasCapability, missingCapabilityBody, sessionCapabilities } from "../_shared/capabilities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token",
 };
 
-interface AdminTokenPayload {
-  admin_id: string;
-  user_id: string;
-  division_id: string;
-  exp: number;
-}
-
-async function verifyAdminToken(token: string, serviceKey: string): Promise<AdminTokenPayload | null> {
-  try {
-    const [payloadBase64, signature] = token.split(".");
-    if (!payloadBase64 || !signature) return null;
-
-    const tokenData = atob(payloadBase64);
-    const payload: AdminTokenPayload = JSON.parse(tokenData);
-
-    // Check expiry
-    if (payload.exp < Date.now()) {
-      console.log("Token expired");
-      return null;
-    }
-
-    // Verify signature
-    const tokenEncoder = new TextEncoder();
-    const tokenBuffer = tokenEncoder.encode(tokenData + serviceKey);
-    const signatureBuffer = await crypto.subtle.digest("SHA-256", tokenBuffer);
-    const signatureArray = Array.from(new Uint8Array(signatureBuffer));
-    const expectedSignature = signatureArray.map(b => b.toString(16).padStart(2, "0")).join("");
-
-    if (signature !== expectedSignature) {
-      console.log("Invalid signature");
-      return null;
-    }
-
-    return payload;
-  } catch (error) {
-    console.error("Token verification error:", error);
-    return null;
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -55,37 +18,23 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const audit = new AuditTrail("admin-programs");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
 
-    // Get admin token from header
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
+    const verified = await verifyAdminSession(supabase, req.headers.get("x-admin-token"));
+    if (!verified.ok) {
       return new Response(
-        JSON.stringify({ error: "Admin token required" }),
+        JSON.stringify(sessionErrorBody(verified.reason)),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const admin = verified.session;
+    audit.setActor(adminActor(admin));
 
-    // Verify token
-    const adminPayload = await verifyAdminToken(adminToken, supabaseServiceKey);
-    if (!adminPayload) {
+    if (!hasCapability(sessionCapabilities(admin), "programs:edit")) {
       return new Response(
-        JSON.stringify({ error: "Invalid or expired token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Verify admin is still active
-    const { data: admin, error: adminError } = await supabase
-      .from("admins")
-      .select("id, is_active, division_id")
-      .eq("id", adminPayload.admin_id)
-      .single();
-
-    if (adminError || !admin || !admin.is_active) {
-      return new Response(
-        JSON.stringify({ error: "Admin account not found or inactive" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify(missingCapabilityBody("programs:edit")),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
@@ -94,7 +43,7 @@ serve(async (req) => {
 
     switch (action) {
       case "create": {
-        console.log("Creating program for admin:", adminPayload.admin_id);
+        console.log("Creating program for admin:", admin.admin_id);
         
         // Validate division access - admin can only create for their division
         if (data.division_id !== admin.division_id) {
@@ -114,7 +63,7 @@ serve(async (req) => {
             all_panchayaths: data.all_panchayaths || false,
             start_date: data.start_date || null,
             end_date: data.end_date || null,
-            created_by: adminPayload.user_id,
+            created_by: admin.user_id,
           })
           .select()
           .single();
@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
+import { hasCapability, missingCapabilityBody, sessionCapabilities } from "../_shared/capabilities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,38 +15,22 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const adminToken = req.headers.get("x-admin-token");
-    if (!adminToken) {
-      return new Response(
-        JSON.stringify({ error: "Admin token required" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Validate admin token
-    const [payload] = adminToken.split(".");
-    const decoded = JSON.parse(atob(payload));
-    
-    if (!decoded.exp || decoded.exp <= Date.now()) {
-      return new Response(
-        JSON.stringify({ error: "Token expired" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const adminId = decoded.admin_id;
-    const divisionId = decoded.division_id;
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const audit = new AuditTrail("admin-registrations");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
 
-    if (!adminId || !divisionId) {
+    const verified = await verifyAdminSession(supabase, req.headers.get("x-admin-token"));
+    if (!verified.ok) {
       return new Response(
-        JSON.stringify({ error: "Invalid token" }),
+        JSON.stringify(sessionErrorBody(verified.reason)),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    audit.setActor(adminActor(verified.session));
+    const adminId = verified.session.admin_id;
+    const divisionId = verified.session.division_id;
 
     // Fetch admin record to check multi-division access
     const { data: adminRecord } = await supabase
@@ -66,6 +53,13 @@ Deno.serve(async (req) => {
 
     // Handle PUT for verification updates or rank updates
     if (req.method === "PUT") {
+      if (!hasCapability(sessionCapabilities(verified.session), "programs:edit")) {
+        return new Response(
+          JSON.stringify(missingCapabilityBody("programs:edit")),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       const body = await req.json();
       const { registration_id, verification_scores, total_score, max_score, percentage, rank } = body;
 
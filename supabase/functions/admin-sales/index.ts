@@ -0,0 +1,108 @@
+// Edge function: sales and old payment uploads.
+//
+// Admins holding the sales:upload capability (and super admins) upload the
+// Pennyekart sales export on the Sales report page and historical payment
+// records on the Old payments page. The browser parses the Excel files and
+// sends the rows here in batches.
+import { action, createRouter, requireCapability, z } from "../_shared/router.ts";
+
+const PAGE_SIZE = 1000;
+const MAX_BATCH = 500;
+
+const text = z.string().default("");
+const amount = z.number().default(0);
+
+const order = z.object({
+  id: z.string().trim().min(1),
+  source_created_at: z.string().nullable().default(null),
+  customer_name: text,
+  items: z.unknown().default(null),
+  total_amount: amount,
+  collected_amount: amount,
+  cost_amount: amount,
+  profit_amount: amount,
+  net_profit: amount,
+  status: text,
+  godown: text,
+  godown_type: text,
+  panchayath_name: text,
+  district: text,
+  ward: text,
+  self_pickup: text,
+  delivery: text,
+  customer_phone: text,
+  payment_method: text,
+});
+
+const oldPayment = z.object({
+  name: z.string().trim().min(1),
+  mobile: z.string().regex(/^\d{10}$/, "Mobile must be 10 digits"),
+  category: text,
+  fee_paid: amount,
+  approved_by: text,
+  approved_date: text,
+  raw_data: z.record(z.string(), z.unknown()).default({}),
+});
+
+const router = createRouter("admin-sales", {
+  // Every uploaded order, newest first.
+  orders: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      requireCapability(caller.admin, "sales:upload");
+      const orders = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("pennyekart_orders")
+          .select("*")
+          .order("source_created_at", { ascending: false })
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        orders.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return { success: true, orders };
+      }
+    },
+  }),
+
+  // Orders already uploaded are replaced by the new row of the same id.
+  upload_orders: action({
+    auth: "admin",
+    input: z.object({ orders: z.array(order).min(1).max(MAX_BATCH) }),
+    handler: async ({ orders }, { supabase, caller }) => {
+      requireCapability(caller.admin, "sales:upload");
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from("pennyekart_orders")
+        .upsert(orders.map((o) => ({ ...o, synced_at: now, uploaded_at: now })), { onConflict: "id" });
+      if (error) throw error;
+      return { success: true, uploaded: orders.length };
+    },
+  }),
+
+  // One upload is sent as several batches sharing the batch_id the browser picked.
+  upload_old_payments: action({
+    auth: "admin",
+    input: z.object({ batch_id: z.string().uuid(), records: z.array(oldPayment).min(1).max(MAX_BATCH) }),
+    handler: async ({ batch_id, records }, { supabase, caller }) => {
+      requireCapability(caller.admin, "sales:upload");
+      const { error } = await supabase.from("old_payments").insert(records.map((r) => ({ ...r, batch_id })));
+      if (error) throw error;
+      return { success: true, inserted: records.length };
+    },
+  }),
+
+  delete_old_payment_batch: action({
+    auth: "admin",
+    input: z.object({ batch_id: z.string().uuid() }),
+    handler: async ({ batch_id }, { supabase, caller }) => {
+      requireCapability(caller.admin, "sales:upload");
+      const { error } = await supabase.from("old_payments").delete().eq("batch_id", batch_id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+});
+
+Deno.serve((req) => router.handle(req));
@@ -1,5 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { sessionErrorBody, verifyAdminSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor } from "../_shared/audit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,46 +14,42 @@ const json = (body: unknown, status = 200) =>
     headers: { ...corsHeaders, "Content-Type": "application/json" },
   });
 
-function verifyAdminToken(token: string | null): boolean {
-  if (!token) return false;
-  try {
-    const [payload] = token.split(".");
-    const decoded = JSON.parse(atob(payload));
-    if (!decoded.exp || decoded.exp < Date.now()) return false;
-    return true;
-  } catch {
-    return false;
-  }
-}
-
-async function verifySupabaseSuperAdmin(supabase: any, authHeader: string | null): Promise<boolean> {
+// Returns the super admin's user id, or null if the caller is not a super admin.
+async function verifySupabaseSuperAdmin(supabase: any, authHeader: string | null): Promise<string | null> {
   const bearer = authHeader?.replace(/^Bearer\s+/i, "");
-  if (!bearer) return false;
+  if (!bearer) return null;
   const { data: userData } = await supabase.auth.getUser(bearer);
   const user = userData?.user;
-  if (!user) return false;
+  if (!user) return null;
   const { data: role } = await supabase
     .from("user_roles")
     .select("role")
     .eq("user_id", user.id)
     .eq("role", "super_admin")
     .maybeSingle();
-  return !!role;
+  return role ? user.id : null;
 }
 
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
+    const audit = new AuditTrail("admin-samrambhaka");
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      audit.clientOptions,
     );
 
-    const hasAdminToken = verifyAdminToken(req.headers.get("x-admin-token"));
-    const hasSupabaseAuth = hasAdminToken ? false : await verifySupabaseSuperAdmin(supabase, req.headers.get("Authorization"));
-    if (!hasAdminToken && !hasSupabaseAuth) {
-      return json({ error: "Unauthorized" }, 401);
+    const adminToken = req.headers.get("x-admin-token");
+    if (adminToken) {
+      const verified = await verifyAdminSession(supabase, adminToken);
+      if (!verified.ok) return json(sessionErrorBody(verified.reason), 401);
+      audit.setActor(adminActor(verified.session));
+    } else {
+      const superAdminId = await verifySupabaseSuperAdmin(supabase, req.headers.get("Authorization"));
+      if (!superAdminId) return json({ error: "Unauthorized" }, 401);
+      audit.setActor({ type: "super_admin", id: superAdminId });
     }
 
     const body = await req.json().catch(() => ({}));
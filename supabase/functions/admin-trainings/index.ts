@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { verifyAdminSession, verifyDepartmentSession } from "../_shared/session.ts";
+import { AuditTrail, adminActor, type AuditActor } from "../_shared/audit.ts";
+import { hasCapability, missingCapabilityBody } from "../_shared/capabilities.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,8 +14,6 @@ const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 const BUCKET = "program-media";
 
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-
 function json(body: unknown, status = 200) {
   return new Response(JSON.stringify(body), {
     status,
@@ -25,41 +26,27 @@ interface AdminCtx {
   user_id: string | null;
   division_id: string;
   isSuperAdmin: boolean;
+  capabilities: string[];
+  actor: AuditActor;
 }
 
-function parseAdminToken(token: string): { admin_id: string; user_id: string | null; division_id: string; exp: number } | null {
-  try {
-    const [payloadB64] = token.split(".");
-    const payload = JSON.parse(atob(payloadB64));
-    if (!payload?.exp || payload.exp < Date.now()) return null;
-    return payload;
-  } catch {
-    return null;
-  }
-}
-
-async function verifyAdmin(adminToken: string | null, authHeader: string | null): Promise<AdminCtx | null> {
+async function verifyAdmin(
+  supabase: SupabaseClient,
+  adminToken: string | null,
+  authHeader: string | null,
+): Promise<AdminCtx | null> {
   if (adminToken) {
-    const parsed = parseAdminToken(adminToken);
-    if (!parsed) return null;
-    const { data: admin } = await supabase
-      .from("admins")
-      .select("id, division_id, is_active")
-      .eq("id", parsed.admin_id)
-      .eq("is_active", true)
-      .maybeSingle();
-    if (!admin) return null;
-    let isSuperAdmin = false;
-    if (parsed.user_id) {
-      const { data: roleData } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", parsed.user_id)
-        .eq("role", "super_admin")
-        .maybeSingle();
-      isSuperAdmin = !!roleData;
-    }
-    return { admin_id: admin.id, user_id: parsed.user_id, division_id: admin.division_id, isSuperAdmin };
+    const verified = await verifyAdminSession(supabase, adminToken);
+    if (!verified.ok) return null;
+    const { admin_id, user_id, division_id, isSuperAdmin, admin } = verified.session;
+    return {
+      admin_id,
+      user_id,
+      division_id,
+      isSuperAdmin,
+      capabilities: admin.capabilities || [],
+      actor: adminActor(verified.session),
+    };
   }
 
   const bearer = authHeader?.replace(/^Bearer\s+/i, "");
@@ -72,7 +59,7 @@ async function verifyAdmin(adminToken: string | null, authHeader: string | null)
     if (!roleList.includes("super_admin") && !roleList.includes("admin")) return null;
     const { data: adminRow } = await supabase
       .from("admins")
-      .select("id, division_id")
+      .select("id, division_id, capabilities")
       .eq("user_id", user.id)
       .eq("is_active", true)
       .maybeSingle();
@@ -81,26 +68,18 @@ async function verifyAdmin(adminToken: string | null, authHeader: string | null)
       user_id: user.id,
       division_id: adminRow?.division_id || "",
       isSuperAdmin: roleList.includes("super_admin"),
+      capabilities: adminRow?.capabilities || [],
+      actor: adminRow ? { type: "admin", id: adminRow.id } : { type: "super_admin", id: user.id },
     };
   }
   return null;
 }
 
-// A learner is a department member (mobile:pinHash token) — used to unlock private trainings.
-async function isValidLearner(token: string | null | undefined): Promise<boolean> {
+// A learner is a signed-in department member — used to unlock private trainings.
+async function isValidLearner(supabase: SupabaseClient, token: string | null | undefined): Promise<boolean> {
   if (!token) return false;
-  const [mobile, hash] = String(token).split(":");
-  if (!mobile || !hash) return false;
-  const { data: agents } = await supabase.from("pennyekart_agents").select("id").eq("mobile", mobile);
-  if (!agents || agents.length === 0) return false;
-  const { data: members } = await supabase
-    .from("department_members")
-    .select("id")
-    .in("agent_id", agents.map((a) => a.id))
-    .eq("pin_hash", hash)
-    .eq("is_active", true)
-    .limit(1);
-  return !!members && members.length > 0;
+  const verified = await verifyDepartmentSession(supabase, String(token));
+  return verified.ok;
 }
 
 function canManage(ctx: AdminCtx, divisionId: string | null): boolean {
@@ -109,7 +88,7 @@ function canManage(ctx: AdminCtx, divisionId: string | null): boolean {
   return divisionId === ctx.division_id;
 }
 
-async function uploadFile(fileName: string, base64: string, contentType: string) {
+async function uploadFile(supabase: SupabaseClient, fileName: string, base64: string, contentType: string) {
   const clean = base64.includes(",") ? base64.split(",")[1] : base64;
   const bytes = Uint8Array.from(atob(clean), (c) => c.charCodeAt(0));
   const safe = fileName.replace(/[^\w.\-]/g, "_");
@@ -123,14 +102,17 @@ async function uploadFile(fileName: string, base64: string, contentType: string)
 serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
+  const audit = new AuditTrail("admin-trainings");
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, audit.clientOptions);
+
   try {
     const body = await req.json().catch(() => ({}));
     const action = String(body.action || "");
 
     // ---------- Public actions ----------
     if (action === "public_list" || action === "public_detail") {
-      const adminCtx = await verifyAdmin(req.headers.get("x-admin-token"), req.headers.get("authorization"));
-      const unlocked = !!adminCtx || (await isValidLearner(body.learner_token));
+      const adminCtx = await verifyAdmin(supabase, req.headers.get("x-admin-token"), req.headers.get("authorization"));
+      const unlocked = !!adminCtx || (await isValidLearner(supabase, body.learner_token));
       let query = supabase
         .from("trainings")
         .select("*")
@@ -166,8 +148,13 @@ serve(async (req) => {
     }
 
     // ---------- Admin actions ----------
-    const ctx = await verifyAdmin(req.headers.get("x-admin-token"), req.headers.get("authorization"));
+    const ctx = await verifyAdmin(supabase, req.headers.get("x-admin-token"), req.headers.get("authorization"));
     if (!ctx) return json({ error: "Unauthorized" }, 401);
+    audit.setActor(ctx.actor);
+
+    if (action !== "admin_list" && !hasCapability(ctx, "trainings:publish")) {
+      return json(missingCapabilityBody("trainings:publish"), 403);
+    }
 
     switch (action) {
       case "admin_list": {
@@ -183,7 +170,7 @@ serve(async (req) => {
       }
 
       case "upload": {
-        const url = await uploadFile(String(body.file_name || "file"), String(body.file_base64 || ""), String(body.content_type || "application/octet-stream"));
+        const url = await uploadFile(supabase, String(body.file_name || "file"), String(body.file_base64 || ""), String(body.content_type || "application/octet-stream"));
         return json({ url });
       }
 
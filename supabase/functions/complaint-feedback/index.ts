@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { sendWhatsAppText, toWhatsAppNumber } from "../_shared/whatsapp.ts";
+import { botMessages } from "../_shared/botMessages.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -27,7 +29,7 @@ Deno.serve(async (req) => {
 
     const { data: complaint, error: cErr } = await supabase
       .from("agent_complaints")
-      .select("*, agent:pennyekart_agents(name, mobile)")
+      .select("*, agent:pennyekart_agents(name, mobile, language)")
       .eq("id", complaint_id)
       .maybeSingle();
 
@@ -40,73 +42,31 @@ Deno.serve(async (req) => {
 
     const agentMobile = complaint.agent.mobile;
     const agentName = complaint.agent.name;
+    const m = botMessages(complaint.agent.language);
 
     const statusEmoji = status === "resolved" ? "✅" : status === "dismissed" ? "❌" : "⏳";
-    const statusLabel = status === "resolved" ? "Resolved" : status === "dismissed" ? "Dismissed" : "Pending";
-
-    let message = `${statusEmoji} *Complaint Update*\n\nHi ${agentName},\n\nYour complaint has been updated:\n\n`;
-    message += `📝 *Complaint:* ${complaint.complaint_text}\n`;
-    message += `📌 *Status:* ${statusLabel}\n`;
-
-    if (admin_remarks) {
-      message += `💬 *Admin Remarks:* ${admin_remarks}\n`;
-    }
-
-    message += `\n📅 Updated: ${new Date().toLocaleDateString("en-IN")}\n`;
-    message += `\nThank you for your feedback. If you have any further concerns, send *3 <your message>*.`;
-
-    // Parse TWILIO_API_KEY in format ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER
-    const twilioApiKey = Deno.env.get("TWILIO_API_KEY");
-    if (!twilioApiKey) {
-      console.error("TWILIO_API_KEY not set");
-      return new Response(
-        JSON.stringify({ error: "Twilio not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const parts = twilioApiKey.split(":");
-    if (parts.length < 3) {
-      console.error("Invalid TWILIO_API_KEY format. Expected ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER, got", parts.length, "parts");
-      return new Response(
-        JSON.stringify({ error: "Invalid Twilio config. Set TWILIO_API_KEY as ACCOUNT_SID:AUTH_TOKEN:FROM_NUMBER" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const [accountSid, authToken, ...fromParts] = parts;
-    const fromNumber = fromParts.join(":");
-    const toNumber = agentMobile.startsWith("+") ? agentMobile : `+91${agentMobile}`;
-
-    const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
-
-    const twilioRes = await fetch(twilioUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        From: `whatsapp:${fromNumber}`,
-        To: `whatsapp:${toNumber}`,
-        Body: message,
-      }).toString(),
-    });
-
-    const twilioData = await twilioRes.json();
+    const statusLabel = m.complaintUpdateStatus[status] || m.complaintUpdateStatus.pending;
+
+    const message = `${statusEmoji} ` + m.complaintUpdate(
+      agentName,
+      complaint.complaint_text,
+      statusLabel,
+      admin_remarks || null,
+      new Date().toLocaleDateString("en-IN"),
+    );
 
-    if (!twilioRes.ok) {
-      console.error("Twilio error:", JSON.stringify(twilioData));
+    const sent = await sendWhatsAppText(agentMobile, message);
+    if (!sent.ok) {
       return new Response(
-        JSON.stringify({ error: "Failed to send WhatsApp message", details: twilioData }),
+        JSON.stringify({ error: sent.error, details: sent.details }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    console.log(`Complaint feedback sent to ${toNumber} for complaint ${complaint_id}`);
+    console.log(`Complaint feedback sent to ${toWhatsAppNumber(agentMobile)} for complaint ${complaint_id}`);
 
     return new Response(
-      JSON.stringify({ success: true, message_sid: twilioData.sid }),
+      JSON.stringify({ success: true, message_sid: sent.sid }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (err) {
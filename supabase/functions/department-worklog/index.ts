@@ -1,330 +1,419 @@
 // Edge function: department member login + work log CRUD
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  DEPARTMENT_SESSION_TTL_MS,
+  type DepartmentSession,
+  issueSession,
+  revokeSession,
+} from "../_shared/session.ts";
+import { hashSecret, legacySha256Hex, verifySecret } from "../_shared/password.ts";
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  type LoginLock,
+  loginLockedBody,
+  loginLockedHeaders,
+  recordLoginFailure,
+  withAttemptsLeft,
+} from "../_shared/throttle.ts";
+import {
+  action,
+  type ActionContext,
+  badRequest,
+  type CallerOf,
+  createRouter,
+  forbidden,
+  HttpError,
+  notFound,
+  z,
+} from "../_shared/router.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
+// PINs stored before PBKDF2 hashing were SHA-256("elife-dept-" + pin).
+async function legacyPinHashes(pin: string): Promise<string[]> {
+  return [await legacySha256Hex(`elife-dept-${pin}`)];
+}
 
-const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-const SERVICE_ROLE = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const id = z.string().min(1, "Missing id");
+const optionalText = z.string().nullish();
 
-async function hashPin(pin: string): Promise<string> {
-  const data = new TextEncoder().encode(`elife-dept-${pin}`);
-  const hash = await crypto.subtle.digest("SHA-256", data);
-  return Array.from(new Uint8Array(hash))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
+function lockedResponse(ctx: ActionContext, lock: LoginLock) {
+  return ctx.json(loginLockedBody(lock), 429, loginLockedHeaders(lock));
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+/** Creator checks and membership lookups for the signed-in department member. */
+function memberScope(session: DepartmentSession) {
+  const members = session.members;
+  const memberIds = new Set(members.map((m) => m.id));
+  return {
+    members,
+    deptIds: new Set(members.map((m) => m.department_id)),
+    isCreator: (creatorId: string | null | undefined) => !!creatorId && memberIds.has(creatorId),
+    hasMember: (memberId: string) => memberIds.has(memberId),
+    memberFor: (departmentId: string) => members.find((m) => m.department_id === departmentId) || members[0],
+  };
+}
 
-  const supabase = createClient(SUPABASE_URL, SERVICE_ROLE);
+type DepartmentContext = ActionContext<CallerOf<"department">>;
 
-  try {
-    const body = await req.json();
-    const action = body.action as string;
+/** Loads a log, plan or todo and checks that the caller created it. */
+async function loadOwned(
+  ctx: DepartmentContext,
+  table: "department_work_logs" | "department_plans" | "department_todos",
+  rowId: string,
+  verb: "edit" | "delete",
+) {
+  const columns = table === "department_work_logs"
+    ? "id, department_id, member_id, created_by_member_id"
+    : "id, department_id, created_by_member_id";
+  const { data: existing } = await ctx.supabase
+    .from(table)
+    .select(columns)
+    .eq("id", rowId)
+    .maybeSingle<{ id: string; department_id: string; member_id?: string; created_by_member_id: string | null }>();
+  if (!existing) throw notFound();
+  const creatorId = existing.created_by_member_id || existing.member_id;
+  if (!memberScope(ctx.caller.department).isCreator(creatorId)) {
+    throw new HttpError(403, `Only the creator can ${verb}`, "forbidden");
+  }
+  return existing;
+}
 
-    // ---- Admin actions: require super_admin (validated via Authorization header)
-    if (action === "admin_upsert_member" || action === "admin_remove_member" || action === "admin_set_member_permission") {
-      const authHeader = req.headers.get("Authorization") || "";
-      const jwt = authHeader.replace("Bearer ", "");
-      if (!jwt) return json({ error: "Unauthorized" }, 401);
-      const { data: userData } = await supabase.auth.getUser(jwt);
-      const uid = userData?.user?.id;
-      if (!uid) return json({ error: "Unauthorized" }, 401);
-      const { data: roles } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", uid);
-      const isSuper = roles?.some((r: any) => r.role === "super_admin");
-      if (!isSuper) return json({ error: "Forbidden" }, 403);
+const router = createRouter("department-worklog", {
+  // ---- Admin actions ----
+  admin_upsert_member: action({
+    auth: "super_admin",
+    input: z.object({
+      department_id: z.string().min(1, "Missing fields"),
+      agent_id: z.string().min(1, "Missing fields"),
+      pin: z.string().trim().optional(),
+      member_role: z.string().default("staff"),
+      can_view_all: z.boolean().optional(),
+    }),
+    handler: async ({ department_id, agent_id, pin, member_role, can_view_all }, { supabase }) => {
+      const { data: existing } = await supabase
+        .from("department_members")
+        .select("id, pin_hash")
+        .eq("department_id", department_id)
+        .eq("agent_id", agent_id)
+        .maybeSingle();
 
-      if (action === "admin_upsert_member") {
-        const department_id = String(body.department_id || "");
-        const agent_id = String(body.agent_id || "");
-        const pin = String(body.pin || "").trim();
-        const member_role = String(body.member_role || "staff");
-        if (!department_id || !agent_id) return json({ error: "Missing fields" }, 400);
+      let pin_hash = existing?.pin_hash;
+      if (pin) pin_hash = await hashSecret(pin);
+      if (!pin_hash) throw badRequest("PIN required for new member");
 
-        const { data: existing } = await supabase
+      if (existing) {
+        const patch: Record<string, unknown> = { pin_hash, member_role, is_active: true };
+        if (can_view_all !== undefined) patch.can_view_all = can_view_all;
+        const { error } = await supabase.from("department_members").update(patch).eq("id", existing.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
           .from("department_members")
-          .select("id, pin_hash")
-          .eq("department_id", department_id)
-          .eq("agent_id", agent_id)
-          .maybeSingle();
-
-        let pin_hash = existing?.pin_hash;
-        if (pin) pin_hash = await hashPin(pin);
-        if (!pin_hash) return json({ error: "PIN required for new member" }, 400);
+          .insert({ department_id, agent_id, pin_hash, member_role, can_view_all: can_view_all ?? false });
+        if (error) throw error;
+      }
+      return { success: true };
+    },
+  }),
 
-        const can_view_all = body.can_view_all === undefined ? undefined : !!body.can_view_all;
+  admin_set_member_permission: action({
+    auth: "super_admin",
+    input: z.object({ id, can_view_all: z.boolean().default(false) }),
+    handler: async (input, { supabase }) => {
+      const { error } = await supabase
+        .from("department_members")
+        .update({ can_view_all: input.can_view_all })
+        .eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-        if (existing) {
-          const patch: any = { pin_hash, member_role, is_active: true };
-          if (can_view_all !== undefined) patch.can_view_all = can_view_all;
-          const { error } = await supabase
-            .from("department_members")
-            .update(patch)
-            .eq("id", existing.id);
-          if (error) return json({ error: error.message }, 500);
-        } else {
-          const { error } = await supabase
-            .from("department_members")
-            .insert({ department_id, agent_id, pin_hash, member_role, can_view_all: can_view_all ?? false });
-          if (error) return json({ error: error.message }, 500);
-        }
-        return json({ success: true });
-      }
+  admin_remove_member: action({
+    auth: "super_admin",
+    input: z.object({ id }),
+    handler: async (input, { supabase }) => {
+      const { error } = await supabase.from("department_members").delete().eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-      if (action === "admin_set_member_permission") {
-        const id = String(body.id || "");
-        if (!id) return json({ error: "Missing id" }, 400);
-        const { error } = await supabase
-          .from("department_members")
-          .update({ can_view_all: !!body.can_view_all })
-          .eq("id", id);
-        if (error) return json({ error: error.message }, 500);
-        return json({ success: true });
-      }
+  // ---- Login: returns matching department memberships if mobile+pin valid ----
+  login: action({
+    auth: "public",
+    input: z.object({
+      mobile: z.coerce.string().transform((v) => v.replace(/\D/g, "")).pipe(z.string().min(10, "Invalid mobile or PIN")),
+      pin: z.string({ required_error: "Invalid mobile or PIN" }).trim().min(4, "Invalid mobile or PIN"),
+    }),
+    handler: async ({ mobile, pin }, ctx) => {
+      const { supabase, req, audit } = ctx;
+      const throttle = await checkLoginThrottle(supabase, "department", mobile, req);
+      if (throttle.locked) return lockedResponse(ctx, throttle);
+      audit.setActor({ type: "department", id: mobile });
 
-      if (action === "admin_remove_member") {
-        const id = String(body.id || "");
-        const { error } = await supabase.from("department_members").delete().eq("id", id);
-        if (error) return json({ error: error.message }, 500);
-        return json({ success: true });
-      }
-    }
+      // An unknown mobile, a non-member and a wrong PIN fail alike, so the
+      // answer does not tell which mobiles belong to members.
+      const reject = async () => {
+        const state = await recordLoginFailure(supabase, "department", mobile, req);
+        if (state.locked) return lockedResponse(ctx, state);
+        throw new HttpError(401, withAttemptsLeft("Invalid mobile or PIN.", state), "invalid_credentials");
+      };
 
-    // ---- Login: returns matching department memberships if mobile+pin valid
-    if (action === "login") {
-      const mobile = String(body.mobile || "").replace(/\D/g, "");
-      const pin = String(body.pin || "").trim();
-      if (mobile.length < 10 || pin.length < 4) {
-        return json({ error: "Invalid mobile or PIN" }, 400);
-      }
-      const { data: agents } = await supabase
+      const { data: agents, error: agentError } = await supabase
         .from("pennyekart_agents")
         .select("id, name, mobile, role")
         .eq("mobile", mobile)
         .eq("is_active", true);
-      if (!agents || agents.length === 0) return json({ error: "Agent not found" }, 404);
+      if (agentError) throw agentError;
+      if (!agents || agents.length === 0) return reject();
 
       const agentIds = agents.map((a) => a.id);
-      const { data: members } = await supabase
+      const { data: members, error: memberError } = await supabase
         .from("department_members")
         .select("id, department_id, agent_id, member_role, can_view_all, pin_hash, is_active, departments(id, name, color, icon)")
         .in("agent_id", agentIds)
         .eq("is_active", true);
+      if (memberError) throw memberError;
+      if (!members || members.length === 0) return reject();
 
-      if (!members || members.length === 0) return json({ error: "Not a department member" }, 403);
-
-      const pinHash = await hashPin(pin);
-      const valid = members.filter((m: any) => m.pin_hash === pinHash);
-      if (valid.length === 0) return json({ error: "Invalid PIN" }, 401);
+      // Each membership has its own salt, so the PIN is checked per row.
+      const valid: typeof members = [];
+      for (const m of members) {
+        const check = await verifySecret(pin, m.pin_hash, legacyPinHashes);
+        if (!check.ok) continue;
+        valid.push(m);
+        if (check.needsRehash) {
+          await supabase.from("department_members").update({ pin_hash: await hashSecret(pin) }).eq("id", m.id);
+        }
+      }
+      if (valid.length === 0) return reject();
+      await clearLoginFailures(supabase, "department", mobile);
 
-      // Issue session token (simple): mobile + pin hash, validated on each call
-      return json({
+      const { token } = await issueSession(supabase, {
+        kind: "department",
+        subjectId: mobile,
+        ttlMs: DEPARTMENT_SESSION_TTL_MS,
+        claims: { member_ids: valid.map((m) => m.id) },
+        req,
+      });
+      return {
         success: true,
         agent: agents[0],
-        memberships: valid.map((m: any) => ({
+        memberships: valid.map((m) => ({
           member_id: m.id,
           department_id: m.department_id,
           department: m.departments,
           member_role: m.member_role,
           can_view_all: !!m.can_view_all,
         })),
-        token: `${mobile}:${pinHash}`,
-      });
-    }
-
-    // For mutating actions, validate token
-    const token = String(body.token || "");
-    const [tMobile, tHash] = token.split(":");
-    if (!tMobile || !tHash) return json({ error: "Unauthorized" }, 401);
+        token,
+      };
+    },
+  }),
 
-    const { data: tokenAgents } = await supabase
-      .from("pennyekart_agents")
-      .select("id, role")
-      .eq("mobile", tMobile)
-      .eq("is_active", true);
-    if (!tokenAgents || tokenAgents.length === 0) return json({ error: "Unauthorized" }, 401);
-    const agentIds = tokenAgents.map((a) => a.id);
+  logout: action({
+    auth: "department",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      await revokeSession(supabase, caller.department.sessionId, "logout");
+      return { success: true };
+    },
+  }),
 
-    const { data: myMembers } = await supabase
-      .from("department_members")
-      .select("id, department_id, agent_id")
-      .in("agent_id", agentIds)
-      .eq("pin_hash", tHash)
-      .eq("is_active", true);
-    if (!myMembers || myMembers.length === 0) return json({ error: "Unauthorized" }, 401);
-
-    const myMemberIds = new Set(myMembers.map((m) => m.id));
-    const myDeptIds = new Set(myMembers.map((m) => m.department_id));
-    const canEditAny = (creatorId: string | null | undefined) =>
-      !!creatorId && myMemberIds.has(creatorId);
-
-    if (action === "create_log") {
-      let memberId = String(body.member_id || "");
-      const department_id = String(body.department_id || "");
-      const work_details = String(body.work_details || "").trim();
-      const work_date = String(body.work_date || new Date().toISOString().slice(0, 10));
-      if (!work_details) return json({ error: "Work details required" }, 400);
-      let deptId = department_id;
-      if (memberId && myMemberIds.has(memberId)) {
-        const m = myMembers.find((m) => m.id === memberId)!;
-        deptId = deptId || m.department_id;
+  // ---- Work logs ----
+  create_log: action({
+    auth: "department",
+    input: z.object({
+      member_id: z.string().optional(),
+      department_id: z.string().optional(),
+      work_details: z.string().trim().min(1, "Work details required"),
+      work_date: z.string().optional(),
+      is_public: z.boolean().optional(),
+    }),
+    handler: async (input, { supabase, caller }) => {
+      const scope = memberScope(caller.department);
+      let memberId = input.member_id || "";
+      let deptId = input.department_id || "";
+      if (memberId && scope.hasMember(memberId)) {
+        deptId = deptId || scope.members.find((m) => m.id === memberId)!.department_id;
       } else if (deptId) {
-        const m = myMembers.find((m) => m.department_id === deptId);
-        if (!m) return json({ error: "Forbidden" }, 403);
+        const m = scope.members.find((m) => m.department_id === deptId);
+        if (!m) throw forbidden();
         memberId = m.id;
       } else {
-        return json({ error: "Department required" }, 400);
+        throw badRequest("Department required");
       }
       const { data, error } = await supabase
         .from("department_work_logs")
-        .insert({ member_id: memberId, department_id: deptId, work_date, work_details, created_by_member_id: memberId, is_public: body.is_public !== false })
+        .insert({
+          member_id: memberId,
+          department_id: deptId,
+          work_date: input.work_date || new Date().toISOString().slice(0, 10),
+          work_details: input.work_details,
+          created_by_member_id: memberId,
+          is_public: input.is_public !== false,
+        })
         .select()
         .single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, log: data });
-    }
+      if (error) throw error;
+      return { success: true, log: data };
+    },
+  }),
 
-    if (action === "update_log") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase
-        .from("department_work_logs")
-        .select("id, member_id, department_id, created_by_member_id")
-        .eq("id", id)
-        .single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      const creatorId = existing.created_by_member_id || existing.member_id;
-      if (!canEditAny(creatorId)) return json({ error: "Only the creator can edit" }, 403);
-      const patch: any = {};
-      if (body.work_details !== undefined) patch.work_details = String(body.work_details).trim();
-      if (body.is_public !== undefined) patch.is_public = !!body.is_public;
-      const { error } = await supabase.from("department_work_logs").update(patch).eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
+  update_log: action({
+    auth: "department",
+    input: z.object({ id, work_details: z.string().trim().optional(), is_public: z.boolean().optional() }),
+    handler: async (input, ctx) => {
+      await loadOwned(ctx, "department_work_logs", input.id, "edit");
+      const patch: Record<string, unknown> = {};
+      if (input.work_details !== undefined) patch.work_details = input.work_details;
+      if (input.is_public !== undefined) patch.is_public = input.is_public;
+      const { error } = await ctx.supabase.from("department_work_logs").update(patch).eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-    if (action === "delete_log") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase
-        .from("department_work_logs")
-        .select("id, department_id, member_id, created_by_member_id")
-        .eq("id", id)
-        .single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      const creatorId = existing.created_by_member_id || existing.member_id;
-      if (!canEditAny(creatorId)) return json({ error: "Only the creator can delete" }, 403);
-      const { error } = await supabase.from("department_work_logs").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
+  delete_log: action({
+    auth: "department",
+    input: z.object({ id }),
+    handler: async (input, ctx) => {
+      await loadOwned(ctx, "department_work_logs", input.id, "delete");
+      const { error } = await ctx.supabase.from("department_work_logs").delete().eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-    // ---- Plans ----
-    const firstMember = myMembers[0];
-    if (action === "create_plan") {
-      const department_id = String(body.department_id || "");
-      if (!myDeptIds.has(department_id)) return json({ error: "Forbidden" }, 403);
-      const title = String(body.title || "").trim();
-      if (!title) return json({ error: "Title required" }, 400);
-      const member = myMembers.find((m) => m.department_id === department_id) || firstMember;
+  // ---- Plans ----
+  create_plan: action({
+    auth: "department",
+    input: z.object({
+      department_id: z.string(),
+      title: z.string().trim().min(1, "Title required"),
+      description: optionalText,
+      target_date: optionalText,
+      status: z.string().optional(),
+      is_public: z.boolean().optional(),
+    }),
+    handler: async (input, { supabase, caller }) => {
+      const scope = memberScope(caller.department);
+      if (!scope.deptIds.has(input.department_id)) throw forbidden();
       const { data, error } = await supabase.from("department_plans").insert({
-        department_id, title,
-        description: body.description || null,
-        target_date: body.target_date || null,
-        status: body.status || "planning",
-        created_by_member_id: member.id,
-        is_public: body.is_public !== false,
+        department_id: input.department_id,
+        title: input.title,
+        description: input.description || null,
+        target_date: input.target_date || null,
+        status: input.status || "planning",
+        created_by_member_id: scope.memberFor(input.department_id).id,
+        is_public: input.is_public !== false,
       }).select().single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, plan: data });
-    }
-    if (action === "update_plan") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase.from("department_plans").select("id, department_id, created_by_member_id").eq("id", id).single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      if (!canEditAny(existing.created_by_member_id)) return json({ error: "Only the creator can edit" }, 403);
-      const patch: any = { updated_at: new Date().toISOString() };
-      if (body.title !== undefined) patch.title = String(body.title).trim();
-      if (body.description !== undefined) patch.description = body.description || null;
-      if (body.target_date !== undefined) patch.target_date = body.target_date || null;
-      if (body.status !== undefined) patch.status = body.status;
-      if (body.is_public !== undefined) patch.is_public = !!body.is_public;
-      const { error } = await supabase.from("department_plans").update(patch).eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-    if (action === "delete_plan") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase.from("department_plans").select("id, department_id, created_by_member_id").eq("id", id).single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      if (!canEditAny(existing.created_by_member_id)) return json({ error: "Only the creator can delete" }, 403);
-      const { error } = await supabase.from("department_plans").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
+      if (error) throw error;
+      return { success: true, plan: data };
+    },
+  }),
+
+  update_plan: action({
+    auth: "department",
+    input: z.object({
+      id,
+      title: z.string().trim().optional(),
+      description: optionalText,
+      target_date: optionalText,
+      status: z.string().optional(),
+      is_public: z.boolean().optional(),
+    }),
+    handler: async (input, ctx) => {
+      await loadOwned(ctx, "department_plans", input.id, "edit");
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (input.title !== undefined) patch.title = input.title;
+      if (input.description !== undefined) patch.description = input.description || null;
+      if (input.target_date !== undefined) patch.target_date = input.target_date || null;
+      if (input.status !== undefined) patch.status = input.status;
+      if (input.is_public !== undefined) patch.is_public = input.is_public;
+      const { error } = await ctx.supabase.from("department_plans").update(patch).eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-    // ---- Todos ----
-    if (action === "create_todo") {
-      const department_id = String(body.department_id || "");
-      if (!myDeptIds.has(department_id)) return json({ error: "Forbidden" }, 403);
-      const title = String(body.title || "").trim();
-      if (!title) return json({ error: "Title required" }, 400);
-      const member = myMembers.find((m) => m.department_id === department_id) || firstMember;
+  delete_plan: action({
+    auth: "department",
+    input: z.object({ id }),
+    handler: async (input, ctx) => {
+      await loadOwned(ctx, "department_plans", input.id, "delete");
+      const { error } = await ctx.supabase.from("department_plans").delete().eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  // ---- Todos ----
+  create_todo: action({
+    auth: "department",
+    input: z.object({
+      department_id: z.string(),
+      title: z.string().trim().min(1, "Title required"),
+      description: optionalText,
+      due_date: optionalText,
+      is_public: z.boolean().optional(),
+    }),
+    handler: async (input, { supabase, caller }) => {
+      const scope = memberScope(caller.department);
+      if (!scope.deptIds.has(input.department_id)) throw forbidden();
       const { data, error } = await supabase.from("department_todos").insert({
-        department_id, title,
-        description: body.description || null,
-        due_date: body.due_date || null,
-        created_by_member_id: member.id,
-        is_public: body.is_public !== false,
+        department_id: input.department_id,
+        title: input.title,
+        description: input.description || null,
+        due_date: input.due_date || null,
+        created_by_member_id: scope.memberFor(input.department_id).id,
+        is_public: input.is_public !== false,
       }).select().single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, todo: data });
-    }
-    if (action === "update_todo") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase.from("department_todos").select("id, department_id, created_by_member_id").eq("id", id).single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      if (!canEditAny(existing.created_by_member_id)) return json({ error: "Only the creator can edit" }, 403);
-      const patch: any = { updated_at: new Date().toISOString() };
-      if (body.title !== undefined) patch.title = String(body.title).trim();
-      if (body.description !== undefined) patch.description = body.description || null;
-      if (body.due_date !== undefined) patch.due_date = body.due_date || null;
-      if (body.is_public !== undefined) patch.is_public = !!body.is_public;
-      if (body.is_completed !== undefined) {
-        patch.is_completed = !!body.is_completed;
-        patch.completed_at = body.is_completed ? new Date().toISOString() : null;
-        const member = myMembers.find((m) => m.department_id === existing.department_id) || firstMember;
-        patch.completed_by_member_id = body.is_completed ? member.id : null;
+      if (error) throw error;
+      return { success: true, todo: data };
+    },
+  }),
+
+  update_todo: action({
+    auth: "department",
+    input: z.object({
+      id,
+      title: z.string().trim().optional(),
+      description: optionalText,
+      due_date: optionalText,
+      is_public: z.boolean().optional(),
+      is_completed: z.boolean().optional(),
+    }),
+    handler: async (input, ctx) => {
+      const existing = await loadOwned(ctx, "department_todos", input.id, "edit");
+      const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (input.title !== undefined) patch.title = input.title;
+      if (input.description !== undefined) patch.description = input.description || null;
+      if (input.due_date !== undefined) patch.due_date = input.due_date || null;
+      if (input.is_public !== undefined) patch.is_public = input.is_public;
+      if (input.is_completed !== undefined) {
+        patch.is_completed = input.is_completed;
+        patch.completed_at = input.is_completed ? new Date().toISOString() : null;
+        patch.completed_by_member_id = input.is_completed
+          ? memberScope(ctx.caller.department).memberFor(existing.department_id).id
+          : null;
       }
-      const { error } = await supabase.from("department_todos").update(patch).eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-    if (action === "delete_todo") {
-      const id = String(body.id || "");
-      const { data: existing } = await supabase.from("department_todos").select("id, department_id, created_by_member_id").eq("id", id).single();
-      if (!existing) return json({ error: "Not found" }, 404);
-      if (!canEditAny(existing.created_by_member_id)) return json({ error: "Only the creator can delete" }, 403);
-      const { error } = await supabase.from("department_todos").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
+      const { error } = await ctx.supabase.from("department_todos").update(patch).eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 
-    return json({ error: "Unknown action" }, 400);
-  } catch (e: any) {
-    return json({ error: e.message || "Server error" }, 500);
-  }
+  delete_todo: action({
+    auth: "department",
+    input: z.object({ id }),
+    handler: async (input, ctx) => {
+      await loadOwned(ctx, "department_todos", input.id, "delete");
+      const { error } = await ctx.supabase.from("department_todos").delete().eq("id", input.id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
 });
 
-function json(b: unknown, status = 200) {
-  return new Response(JSON.stringify(b), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-  });
-}
+Deno.serve((req) => router.handle(req));
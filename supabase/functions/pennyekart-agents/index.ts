@@ -1,121 +1,36 @@
-import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-token, x-caller-mobile",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-};
-
-const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
-const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const ADMIN_SECRET = Deno.env.get("ADMIN_SECRET") || "elife_admin_secret_2024";
-
-interface AdminToken {
-  admin_id: string;
-  user_id: string | null;
-  division_id: string;
-  full_name: string;
-  exp: number;
-}
-
-function parseAdminToken(token: string): AdminToken | null {
-  try {
-    const [payloadB64, signature] = token.split(".");
-    const payload = JSON.parse(atob(payloadB64));
-    
-    // Verify expiration
-    if (payload.exp < Date.now()) {
-      return null;
-    }
-    
-    // Verify signature
-    const encoder = new TextEncoder();
-    const data = encoder.encode(payloadB64 + ADMIN_SECRET);
-    const hashBuffer = new Uint8Array(32);
-    const dataArray = new Uint8Array(data);
-    for (let i = 0; i < dataArray.length; i++) {
-      hashBuffer[i % 32] ^= dataArray[i];
-    }
-    const expectedSig = Array.from(hashBuffer).map(b => b.toString(16).padStart(2, "0")).join("");
-    
-    if (signature !== expectedSig) {
-      // For now, allow the token if payload is valid (matching admin-auth logic)
-    }
-    
-    return payload;
-  } catch {
-    return null;
-  }
-}
-
-async function verifyAdmin(adminToken: string | null, authHeader: string | null): Promise<{ valid: boolean; admin?: AdminToken; isSuperAdmin?: boolean }> {
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-
-  if (adminToken) {
-    const parsed = parseAdminToken(adminToken);
-    if (!parsed) {
-      return { valid: false };
-    }
-    
-    // Check if admin exists and is active
-    const { data: admin } = await supabase
-      .from("admins")
-      .select("id, division_id, full_name")
-      .eq("id", parsed.admin_id)
-      .eq("is_active", true)
-      .single();
-    
-    if (!admin) {
-      return { valid: false };
-    }
-    
-    // Check for super_admin role via user_id
-    let isSuperAdmin = false;
-    if (parsed.user_id) {
-      const { data: roleData } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", parsed.user_id)
-        .eq("role", "super_admin")
-        .single();
-      
-      isSuperAdmin = !!roleData;
-    }
-    
-    return { valid: true, admin: parsed, isSuperAdmin };
-  }
-
-  const bearerToken = authHeader?.replace(/^Bearer\s+/i, "");
-  if (bearerToken) {
-    const { data: userData } = await supabase.auth.getUser(bearerToken);
-    const user = userData?.user;
-    if (!user) return { valid: false };
-
-    const { data: roleData } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", user.id)
-      .eq("role", "super_admin")
-      .single();
-
-    if (!roleData) return { valid: false };
-
-    return {
-      valid: true,
-      isSuperAdmin: true,
-      admin: {
-        admin_id: user.id,
-        user_id: user.id,
-        division_id: "",
-        full_name: user.email || "Super Admin",
-        exp: Date.now() + 60 * 60 * 1000,
-      },
-    };
-  }
-
-  return { valid: false };
-}
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  action,
+  type ActionContext,
+  badRequest,
+  type CallerOf,
+  createRouter,
+  forbidden,
+  HttpError,
+  notFound,
+  requireCapability,
+  z,
+} from "../_shared/router.ts";
+import { loadAgents, loadRankRules, recordRankSnapshot, snapshotDate } from "../_shared/rankEngine.ts";
+import {
+  checkPlacement,
+  type ExitRequest,
+  type MoveRequest,
+  MoveError,
+  planExit,
+  planMove,
+  rankImpact,
+  teamOf,
+} from "../_shared/agentHierarchy.ts";
+import { type ExistingAgent, type NewAgentRow, type PanchayathRef, prepareAgentBatch } from "../_shared/agentImport.ts";
+import { loadAttribution, syncCustomerCounts } from "../_shared/customerAttribution.ts";
+import { constantTimeEqualText } from "../_shared/password.ts";
+
+// Admins sign in with x-admin-token (or a super admin's Supabase session).
+// Team Leaders and Super Admin/Business Partners using the public hierarchy
+// pages identify themselves with x-caller-mobile and are limited to the
+// panchayaths they are responsible for.
+type AgentsContext = ActionContext<CallerOf<"admin" | "public">>;
 
 interface CallerAgent {
   id: string;
@@ -124,8 +39,12 @@ interface CallerAgent {
   responsible_panchayath_ids: string[];
 }
 
-async function getCallerAgent(mobile: string): Promise<CallerAgent | null> {
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+function callerMobile(req: Request): string | null {
+  const mobile = req.headers.get("x-caller-mobile");
+  return mobile ? mobile.replace(/\D/g, "") : null;
+}
+
+async function getCallerAgent(supabase: SupabaseClient, mobile: string): Promise<CallerAgent | null> {
   const { data } = await supabase
     .from("pennyekart_agents")
     .select("id, role, panchayath_id, responsible_panchayath_ids, is_active")
@@ -148,275 +67,277 @@ function callerHasPanchayathScope(caller: CallerAgent, panchayathId: string): bo
   return (caller.responsible_panchayath_ids || []).includes(panchayathId);
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+/** The Team Leader or Super Admin/Business Partner named by x-caller-mobile. */
+async function requireCallerAgent(ctx: AgentsContext): Promise<CallerAgent> {
+  const mobile = callerMobile(ctx.req);
+  if (!mobile) throw new HttpError(401, "Unauthorized - No admin session", "session_missing");
+  const caller = await getCallerAgent(ctx.supabase, mobile);
+  if (!caller) {
+    throw new HttpError(
+      401,
+      "Unauthorized - Caller is not a Team Leader or Super Admin/Business Partner",
+      "caller_not_allowed",
+    );
   }
+  ctx.audit.setActor({ type: "agent", id: caller.id });
+  return caller;
+}
 
-  try {
-    const adminToken = req.headers.get("x-admin-token");
-    const authHeader = req.headers.get("authorization");
-    const callerMobile = req.headers.get("x-caller-mobile");
-
-    let admin: AdminToken | null = null;
-    let isSuperAdmin = false;
-    let caller: CallerAgent | null = null;
-
-    // Peek body early so we can route direct-customer actions with their own auth.
-    const rawBody = req.method !== "GET" && req.method !== "DELETE" ? await req.text() : "";
-    const parsedBody = rawBody ? JSON.parse(rawBody) : null;
-    const peekAction = parsedBody?.action as string | undefined;
-    const isDirectCustomerAction = peekAction === "list_customers" ||
-      peekAction === "add_customer" ||
-      peekAction === "update_customer" ||
-      peekAction === "delete_customer";
-
-    if (adminToken || authHeader) {
-      const result = await verifyAdmin(adminToken, authHeader);
-      if (!result.valid || !result.admin) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized - Invalid admin token" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      admin = result.admin;
-      isSuperAdmin = !!result.isSuperAdmin;
-    } else if (isDirectCustomerAction) {
-      // Direct-customer actions: list_customers is public read; mutations validated inside the action handler.
-    } else if (callerMobile) {
-      caller = await getCallerAgent(callerMobile.replace(/\D/g, ""));
-      if (!caller) {
-        return new Response(
-          JSON.stringify({ error: "Unauthorized - Caller is not a Team Leader or Super Admin/Business Partner" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-    } else {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized - No admin session" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+/**
+ * Who may change the hierarchy: an admin with agents:manage, or a scoped
+ * caller agent (returned so the action can check panchayath scope).
+ */
+async function hierarchyEditor(ctx: AgentsContext): Promise<{ adminId: string | null; caller: CallerAgent | null }> {
+  if (ctx.caller.kind === "admin") {
+    requireCapability(ctx.caller.admin, "agents:manage");
+    return { adminId: ctx.caller.admin.admin_id, caller: null };
+  }
+  return { adminId: null, caller: await requireCallerAgent(ctx) };
+}
 
-    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-    const url = new URL(req.url);
-    const body = parsedBody;
-    const { action } = body || {};
-    const agentId = url.searchParams.get("id");
+const TEAM_LEADER_BLOCKED_ROLES = ["super_admin_partner", "team_leader"];
+
+/**
+ * A scoped caller may only move or hand over agents within their panchayaths,
+ * and only to other agents there.
+ */
+async function requireHierarchyScope(
+  supabase: SupabaseClient,
+  caller: CallerAgent,
+  agentId: string,
+  relatedIds: (string | null | undefined)[],
+) {
+  const ids = [agentId, ...relatedIds].filter((v): v is string => !!v);
+  const { data } = await supabase.from("pennyekart_agents").select("id, panchayath_id, role").in("id", ids);
+  const rows = data || [];
+  const agent = rows.find((r) => r.id === agentId);
+  if (!agent) throw notFound("Agent not found");
+  if (rows.some((r) => !callerHasPanchayathScope(caller, r.panchayath_id))) {
+    throw forbidden("Forbidden - Agent is outside your allocated panchayath");
+  }
+  if (caller.role === "team_leader" && TEAM_LEADER_BLOCKED_ROLES.includes(agent.role)) {
+    throw forbidden("Forbidden - Team Leaders cannot change this role");
+  }
+}
 
-    // ── Direct customers (coordinator / group_leader / pro) ──
-    if (isDirectCustomerAction) {
-      const ALLOWED_ROLES = ["coordinator", "group_leader", "pro"];
-      const normalizedCaller = callerMobile ? callerMobile.replace(/\D/g, "") : null;
+/**
+ * What a batch of new agents is checked against: agents its mobiles or parents
+ * refer to, coordinators of its panchayaths, and every panchayath.
+ */
+async function loadBatchContext(supabase: SupabaseClient, rows: NewAgentRow[]) {
+  const { data: panchayaths, error } = await supabase.from("panchayaths").select("id, name, ward");
+  if (error) throw error;
+  const byName = new Map((panchayaths || []).map((p) => [p.name.trim().toLowerCase(), p.id]));
+  const panchayathIds = [
+    ...new Set(rows.map((r) => r.panchayath_id || byName.get((r.panchayath_name || "").trim().toLowerCase())).filter(Boolean)),
+  ] as string[];
+  const mobiles = [...new Set(rows.flatMap((r) => [r.mobile, r.parent_mobile]).filter(Boolean))] as string[];
+  const parentIds = [...new Set(rows.map((r) => r.parent_agent_id).filter(Boolean))] as string[];
+
+  const columns = "id, name, mobile, role, panchayath_id, responsible_wards, is_active";
+  const results = await Promise.all([
+    mobiles.length ? supabase.from("pennyekart_agents").select(columns).in("mobile", mobiles) : null,
+    parentIds.length ? supabase.from("pennyekart_agents").select(columns).in("id", parentIds) : null,
+    panchayathIds.length
+      ? supabase.from("pennyekart_agents").select(columns).eq("role", "coordinator").in("panchayath_id", panchayathIds)
+      : null,
+  ]);
+  const existing = new Map<string, ExistingAgent>();
+  for (const result of results) {
+    if (result?.error) throw result.error;
+    for (const a of (result?.data || []) as ExistingAgent[]) existing.set(a.id, a);
+  }
+  return { existing: [...existing.values()], panchayaths: (panchayaths || []) as PanchayathRef[] };
+}
 
-      async function fetchAgentForCustomer(targetAgentId: string) {
-        const { data } = await supabase
-          .from("pennyekart_agents")
-          .select("id, role, mobile, is_active, panchayath_id, responsible_panchayath_ids")
-          .eq("id", targetAgentId)
-          .maybeSingle();
-        return data;
-      }
+/** Runs a hierarchy check, turning a refused move into a 400. */
+function checked<T>(check: () => T): T {
+  try {
+    return check();
+  } catch (err) {
+    if (err instanceof MoveError) throw badRequest(err.message);
+    throw err;
+  }
+}
 
-      async function assertAuthorized(targetAgentRow: { mobile: string; role: string; is_active: boolean; panchayath_id: string; responsible_panchayath_ids: string[] | null } | null) {
-        if (!targetAgentRow) return { ok: false, status: 404, error: "Agent not found" };
-        if (!ALLOWED_ROLES.includes(targetAgentRow.role)) {
-          return { ok: false, status: 400, error: "Direct customers are only available for Coordinator, Group Leader, or PRO agents" };
-        }
-        if (admin) return { ok: true };
-        if (normalizedCaller && normalizedCaller === targetAgentRow.mobile && targetAgentRow.is_active) {
-          return { ok: true };
-        }
-        // Team Leaders and Super Admin / Business Partners with scope over the target agent's panchayath
-        if (normalizedCaller) {
-          const { data: callerRow } = await supabase
-            .from("pennyekart_agents")
-            .select("role, panchayath_id, responsible_panchayath_ids, is_active")
-            .eq("mobile", normalizedCaller)
-            .in("role", ["team_leader", "super_admin_partner"])
-            .eq("is_active", true)
-            .maybeSingle();
-          if (callerRow) {
-            const scope = new Set<string>([
-              callerRow.panchayath_id,
-              ...((callerRow.responsible_panchayath_ids as string[] | null) || []),
-            ].filter(Boolean));
-            if (scope.has(targetAgentRow.panchayath_id)) return { ok: true };
-          }
-        }
-        return { ok: false, status: 403, error: "Forbidden" };
-      }
+async function planAgentMove(ctx: AgentsContext, move: MoveRequest) {
+  const { caller } = await hierarchyEditor(ctx);
+  if (caller) await requireHierarchyScope(ctx.supabase, caller, move.agent_id, [move.new_parent_id, move.reports_to_id]);
+  const agents = await loadAgents(ctx.supabase);
+  return { agents, plan: checked(() => planMove(agents, move)) };
+}
 
-      function validateCustomer(c: any): { ok: true; value: { name: string; mobile: string; ward: string | null; address: string | null; notes: string | null; panchayath_id: string | null; is_outside: boolean } } | { ok: false; error: string } {
-        if (!c || typeof c !== "object") return { ok: false, error: "Missing customer" };
-        const name = String(c.name || "").trim();
-        const mobile = String(c.mobile || "").replace(/\D/g, "");
-        const ward = c.ward != null ? String(c.ward).trim() : "";
-        const address = c.address != null ? String(c.address).trim() : "";
-        const notes = c.notes != null ? String(c.notes).trim() : "";
-        const panchayath_id = c.panchayath_id != null && String(c.panchayath_id).trim() !== ""
-          ? String(c.panchayath_id).trim()
-          : null;
-        const is_outside = c.is_outside === true;
-        if (name.length < 1 || name.length > 100) return { ok: false, error: "Name must be 1-100 characters" };
-        if (mobile.length !== 10) return { ok: false, error: "Mobile must be 10 digits" };
-        if (ward.length > 50) return { ok: false, error: "Ward must be ≤ 50 characters" };
-        if (address.length > 300) return { ok: false, error: "Address must be ≤ 300 characters" };
-        if (notes.length > 500) return { ok: false, error: "Notes must be ≤ 500 characters" };
-        return { ok: true, value: { name, mobile, ward: ward || null, address: address || null, notes: notes || null, panchayath_id, is_outside } };
-      }
+/** Refreshes today's ranks after a hierarchy change; the change stands if this fails. */
+async function refreshRanks(supabase: SupabaseClient) {
+  try {
+    await recordRankSnapshot(supabase);
+  } catch (err) {
+    console.error("pennyekart-agents rank refresh error:", err);
+  }
+}
 
-      function jsonResp(payload: unknown, status = 200) {
-        return new Response(JSON.stringify(payload), {
-          status,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+/** Re-derives PRO customer counts after a customer change; the change stands if this fails. */
+async function refreshCustomerCounts(supabase: SupabaseClient) {
+  try {
+    await syncCustomerCounts(supabase);
+  } catch (err) {
+    console.error("pennyekart-agents customer count sync error:", err);
+  }
+}
 
-      if (action === "list_customers") {
-        const targetAgentId = body?.agent_id;
-        if (!targetAgentId) return jsonResp({ error: "Missing agent_id" }, 400);
-        // List is public read; still verify agent exists and role allowed.
-        const targetAgent = await fetchAgentForCustomer(targetAgentId);
-        if (!targetAgent) return jsonResp({ error: "Agent not found" }, 404);
-        if (!ALLOWED_ROLES.includes(targetAgent.role)) {
-          return jsonResp({ data: [] });
-        }
-        const { data, error } = await supabase
-          .from("agent_direct_customers")
-          .select("*, panchayath:panchayaths(id, name)")
-          .eq("agent_id", targetAgentId)
-          .order("created_at", { ascending: false });
-        if (error) throw error;
-        return jsonResp({ data });
-      }
+// ── Direct customers (coordinator / group_leader / pro) ──
+const DIRECT_CUSTOMER_ROLES = ["coordinator", "group_leader", "pro"];
 
-      if (action === "add_customer") {
-        const targetAgentId = body?.agent_id;
-        if (!targetAgentId) return jsonResp({ error: "Missing agent_id" }, 400);
-        const targetAgent = await fetchAgentForCustomer(targetAgentId);
-        const authz = await assertAuthorized(targetAgent as any);
-        if (!authz.ok) return jsonResp({ error: authz.error }, authz.status);
-        const v = validateCustomer(body?.customer);
-        if (!v.ok) return jsonResp({ error: v.error }, 400);
-        const { data, error } = await supabase
-          .from("agent_direct_customers")
-          .insert({ agent_id: targetAgentId, ...v.value })
-          .select()
-          .single();
-        if (error) {
-          if (error.code === "23505") return jsonResp({ error: "This mobile is already in your customer list" }, 400);
-          throw error;
-        }
-        return jsonResp({ data });
-      }
+interface CustomerOwner {
+  id: string;
+  role: string;
+  mobile: string;
+  is_active: boolean;
+  panchayath_id: string;
+  responsible_panchayath_ids: string[] | null;
+}
 
-      if (action === "update_customer") {
-        const id = body?.id;
-        if (!id) return jsonResp({ error: "Missing id" }, 400);
-        const { data: existing } = await supabase
-          .from("agent_direct_customers")
-          .select("agent_id")
-          .eq("id", id)
-          .maybeSingle();
-        if (!existing) return jsonResp({ error: "Customer not found" }, 404);
-        const targetAgent = await fetchAgentForCustomer(existing.agent_id);
-        const authz = await assertAuthorized(targetAgent as any);
-        if (!authz.ok) return jsonResp({ error: authz.error }, authz.status);
-        const v = validateCustomer(body?.customer);
-        if (!v.ok) return jsonResp({ error: v.error }, 400);
-        const { data, error } = await supabase
-          .from("agent_direct_customers")
-          .update(v.value)
-          .eq("id", id)
-          .select()
-          .single();
-        if (error) {
-          if (error.code === "23505") return jsonResp({ error: "This mobile is already in your customer list" }, 400);
-          throw error;
-        }
-        return jsonResp({ data });
-      }
+async function fetchAgentForCustomer(supabase: SupabaseClient, targetAgentId: string) {
+  const { data } = await supabase
+    .from("pennyekart_agents")
+    .select("id, role, mobile, is_active, panchayath_id, responsible_panchayath_ids")
+    .eq("id", targetAgentId)
+    .maybeSingle<CustomerOwner>();
+  return data;
+}
 
-      if (action === "delete_customer") {
-        const id = body?.id;
-        if (!id) return jsonResp({ error: "Missing id" }, 400);
-        const { data: existing } = await supabase
-          .from("agent_direct_customers")
-          .select("agent_id")
-          .eq("id", id)
-          .maybeSingle();
-        if (!existing) return jsonResp({ error: "Customer not found" }, 404);
-        const targetAgent = await fetchAgentForCustomer(existing.agent_id);
-        const authz = await assertAuthorized(targetAgent as any);
-        if (!authz.ok) return jsonResp({ error: authz.error }, authz.status);
-        const { error } = await supabase
-          .from("agent_direct_customers")
-          .delete()
-          .eq("id", id);
-        if (error) throw error;
-        return jsonResp({ success: true });
-      }
+/**
+ * Customers can be changed by admins, by the agent themselves, and by Team
+ * Leaders or Super Admin/Business Partners with scope over the agent's panchayath.
+ */
+async function assertCustomerAccess(ctx: AgentsContext, targetAgentId: string) {
+  const target = await fetchAgentForCustomer(ctx.supabase, targetAgentId);
+  if (!target) throw notFound("Agent not found");
+  if (!DIRECT_CUSTOMER_ROLES.includes(target.role)) {
+    throw badRequest("Direct customers are only available for Coordinator, Group Leader, or PRO agents");
+  }
+  if (ctx.caller.kind === "admin") {
+    requireCapability(ctx.caller.admin, "agents:manage");
+    return;
+  }
+
+  const mobile = callerMobile(ctx.req);
+  if (mobile) {
+    const { data: callerRow } = await ctx.supabase
+      .from("pennyekart_agents")
+      .select("id")
+      .eq("mobile", mobile)
+      .limit(1)
+      .maybeSingle();
+    ctx.audit.setActor({ type: "agent", id: callerRow?.id ?? null });
+  }
+  if (mobile && mobile === target.mobile && target.is_active) return;
+  if (mobile) {
+    const { data: callerRow } = await ctx.supabase
+      .from("pennyekart_agents")
+      .select("role, panchayath_id, responsible_panchayath_ids, is_active")
+      .eq("mobile", mobile)
+      .in("role", ["team_leader", "super_admin_partner"])
+      .eq("is_active", true)
+      .maybeSingle();
+    if (callerRow) {
+      const scope = new Set<string>([
+        callerRow.panchayath_id,
+        ...((callerRow.responsible_panchayath_ids as string[] | null) || []),
+      ].filter(Boolean));
+      if (scope.has(target.panchayath_id)) return;
     }
+  }
+  throw forbidden();
+}
+
+const optionalText = (max: number, label: string) =>
+  z.string().nullish().transform((v) => v?.trim() || "").pipe(
+    z.string().max(max, `${label} must be ≤ ${max} characters`).transform((v) => v || null),
+  );
+
+const customerInput = z.object({
+  name: z.string({ required_error: "Name must be 1-100 characters" })
+    .trim()
+    .min(1, "Name must be 1-100 characters")
+    .max(100, "Name must be 1-100 characters"),
+  mobile: z.coerce.string().transform((v) => v.replace(/\D/g, "")).pipe(z.string().length(10, "Mobile must be 10 digits")),
+  ward: optionalText(50, "Ward"),
+  address: optionalText(300, "Address"),
+  notes: optionalText(500, "Notes"),
+  panchayath_id: z.string().nullish().transform((v) => v?.trim() || null),
+  is_outside: z.unknown().transform((v) => v === true),
+}, { required_error: "Missing customer", invalid_type_error: "Missing customer" });
+
+const DUPLICATE_CUSTOMER = "This mobile is already in your customer list";
+
+// Agent rows are passed through as the admin UI sends them.
+const agentInput = z.object({ mobile: z.string(), panchayath_id: z.string(), role: z.string() }).passthrough();
+const agentId = z.string({ required_error: "Missing agent_id" }).min(1, "Missing agent_id");
+const id = z.string({ required_error: "Missing id" }).min(1, "Missing id");
+
+// Highest first; a rank rule may only count roles below the ranked one.
+const RANKED_ROLE_ORDER = ["super_admin_partner", "team_leader", "coordinator", "group_leader", "pro"] as const;
+const agentRole = z.enum(RANKED_ROLE_ORDER, { errorMap: () => ({ message: "Invalid role" }) });
+
+const metricName = z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and _");
+const workMetricInput = z.object({
+  id: z.string().nullish(),
+  key: metricName,
+  label: z.string().trim().min(1, "Label is required"),
+  aliases: z.array(metricName).default([]),
+  roles: z.array(agentRole).default([]),
+  sort_order: z.number().int().default(0),
+  is_active: z.boolean().default(true),
+});
+
+const moveInput = z.object({
+  agent_id: agentId,
+  new_parent_id: z.string().nullable(),
+  with_team: z.boolean(),
+  reports_to_id: z.string().nullish(),
+});
 
-    // GET - List agents
-    if (req.method === "GET") {
-      const panchayathFilter = url.searchParams.get("panchayath_id");
-      
-      let query = supabase
+const router = createRouter("pennyekart-agents", {
+  // GET - List agents
+  list: action({
+    auth: ["admin", "public"],
+    input: z.object({ panchayath_id: z.string().optional() }),
+    handler: async ({ panchayath_id }, ctx) => {
+      if (ctx.caller.kind === "public") await requireCallerAgent(ctx);
+
+      let query = ctx.supabase
         .from("pennyekart_agents")
         .select("*, panchayath:panchayaths(name)")
         .order("role", { ascending: true })
         .order("name", { ascending: true });
 
-      if (panchayathFilter) {
+      if (panchayath_id) {
         // Match agents by home panchayath OR by responsible_panchayath_ids
-        query = query.or(`panchayath_id.eq.${panchayathFilter},responsible_panchayath_ids.cs.{${panchayathFilter}}`);
+        query = query.or(`panchayath_id.eq.${panchayath_id},responsible_panchayath_ids.cs.{${panchayath_id}}`);
       }
 
       const { data, error } = await query;
-
       if (error) throw error;
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // Caller-mobile sessions may create / update / delete agents in their scope
-    if (caller && !admin) {
-      const allowed = (req.method === "POST" && action === "create") || req.method === "PUT" || req.method === "DELETE";
-
-      if (!allowed) {
-        return new Response(
-          JSON.stringify({ error: "Forbidden - This action requires an admin session" }),
-          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-    }
-
-
-    // POST - Create agent
-    if (req.method === "POST" && action === "create") {
-      const { agent } = body;
-
-      // Caller-mobile (public TL/Super Admin) scope checks
+      return { data };
+    },
+  }),
+
+  create: action({
+    auth: ["admin", "public"],
+    input: z.object({ agent: agentInput }),
+    handler: async ({ agent }, ctx) => {
+      const { adminId, caller } = await hierarchyEditor(ctx);
       if (caller) {
         if (!callerHasPanchayathScope(caller, agent.panchayath_id)) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - You can only add agents within your allocated panchayath" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          throw forbidden("Forbidden - You can only add agents within your allocated panchayath");
         }
-        // Team Leaders cannot create Super Admin/Business Partners or other Team Leaders
-        if (caller.role === "team_leader" && (agent.role === "super_admin_partner" || agent.role === "team_leader")) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - Team Leaders cannot create this role" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+        if (caller.role === "team_leader" && TEAM_LEADER_BLOCKED_ROLES.includes(agent.role)) {
+          throw forbidden("Forbidden - Team Leaders cannot create this role");
         }
       }
-      
-      // Duplicate check: look for existing agent with same mobile in same panchayath
+
+      const { supabase } = ctx;
       const { data: existing } = await supabase
         .from("pennyekart_agents")
         .select("id, name, role, mobile, panchayath_id")
@@ -424,224 +345,315 @@ serve(async (req) => {
 
       if (existing && existing.length > 0) {
         const dup = existing[0];
-        // Get panchayath name for better error message
         const { data: panchData } = await supabase
           .from("panchayaths")
           .select("name")
           .eq("id", dup.panchayath_id)
           .single();
         const panchName = panchData?.name || "unknown";
-        return new Response(
-          JSON.stringify({ error: `Duplicate: Mobile ${agent.mobile} already exists for agent "${dup.name}" (${dup.role}) in ${panchName}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        throw badRequest(`Duplicate: Mobile ${agent.mobile} already exists for agent "${dup.name}" (${dup.role}) in ${panchName}`);
       }
 
       const { data, error } = await supabase
         .from("pennyekart_agents")
-        .insert({
-          ...agent,
-          created_by: admin?.admin_id ?? null,
-        })
+        // Customer counts are derived (see sync_customer_counts), never typed in
+        .insert({ ...agent, customer_count: 0, created_by: adminId })
         .select()
         .single();
-
       if (error) {
-        if (error.code === "23505") {
-          return new Response(
-            JSON.stringify({ error: "Mobile number already exists" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+        if (error.code === "23505") throw badRequest("Mobile number already exists");
         throw error;
       }
-
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // POST - Bulk create agents
-    if (req.method === "POST" && action === "bulk_create") {
-      const { agents } = body;
-      
-      // Duplicate check: check all mobiles in this batch against existing agents
-      const mobiles = agents.map((a: any) => a.mobile);
-      
-      // Also check for duplicates within the batch itself
-      const batchDuplicates = mobiles.filter((m: string, i: number) => mobiles.indexOf(m) !== i);
-      if (batchDuplicates.length > 0) {
-        return new Response(
-          JSON.stringify({ error: `Duplicate mobiles within batch: ${[...new Set(batchDuplicates)].join(", ")}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+      return { data };
+    },
+  }),
+
+  bulk_create: action({
+    auth: "admin",
+    input: z.object({
+      agents: z.array(agentInput).min(1, "No agents to create"),
+      // Check every row and report, without creating anything
+      dry_run: z.boolean().optional(),
+    }),
+    handler: async ({ agents, dry_run }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+
+      const rows = agents as unknown as NewAgentRow[];
+      const { existing, panchayaths } = await loadBatchContext(supabase, rows);
+      const { report, records } = prepareAgentBatch(rows, existing, panchayaths);
+      const failing = report.filter((r) => r.issues.length > 0);
+
+      if (dry_run) {
+        return { success: true, dry_run: true, report, count: report.length - failing.length, data: [] };
       }
-
-      const { data: existingAgents } = await supabase
-        .from("pennyekart_agents")
-        .select("mobile, name, role")
-        .in("mobile", mobiles);
-
-      if (existingAgents && existingAgents.length > 0) {
-        const dupDetails = existingAgents.map((a: any) => `${a.mobile} (${a.name}, ${a.role})`).join("; ");
-        return new Response(
-          JSON.stringify({ error: `Duplicate mobile numbers already exist: ${dupDetails}` }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      if (failing.length > 0) {
+        const first = failing[0];
+        throw badRequest(
+          failing.length === 1
+            ? `Row ${first.index + 1} (${first.mobile}): ${first.issues.join("; ")}`
+            : `${failing.length} rows cannot be created. Row ${first.index + 1} (${first.mobile}): ${first.issues.join("; ")}`,
+          Object.fromEntries(failing.map((r) => [`agents.${r.index}`, r.issues])),
         );
       }
 
-      const agentsWithCreator = agents.map((a: any) => ({
-        ...a,
-        created_by: admin.admin_id,
-      }));
-
       const { data, error } = await supabase
         .from("pennyekart_agents")
-        .insert(agentsWithCreator)
+        .insert(records.map((r) => ({ ...r, created_by: caller.admin.admin_id })))
         .select();
-
       if (error) {
-        if (error.code === "23505") {
-          return new Response(
-            JSON.stringify({ error: "One or more mobile numbers already exist" }),
-            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+        if (error.code === "23505") throw badRequest("One or more mobile numbers already exist");
         throw error;
       }
-
-      return new Response(JSON.stringify({ data, count: data?.length || 0 }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // PUT - Update agent
-    if (req.method === "PUT") {
-      const { agent, id } = body;
-      
-      if (!id || !agent) {
-        return new Response(
-          JSON.stringify({ error: "Missing id or agent data" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      // Caller-mobile scope checks (public TL / Super Admin)
+      return { success: true, dry_run: false, report, data, count: data?.length || 0 };
+    },
+  }),
+
+  // PUT - Update agent
+  update: action({
+    auth: ["admin", "public"],
+    input: z.object({
+      id: z.string({ required_error: "Missing id or agent data" }).min(1, "Missing id or agent data"),
+      agent: z.record(z.unknown(), { required_error: "Missing id or agent data" }),
+    }),
+    handler: async ({ id, agent }, ctx) => {
+      const { caller } = await hierarchyEditor(ctx);
+      const { supabase } = ctx;
       if (caller) {
         const { data: target } = await supabase
           .from("pennyekart_agents")
           .select("panchayath_id, role")
           .eq("id", id)
-          .single();
-        if (!target) {
-          return new Response(
-            JSON.stringify({ error: "Agent not found" }),
-            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+          .maybeSingle();
+        if (!target) throw notFound("Agent not found");
         if (!callerHasPanchayathScope(caller, target.panchayath_id) ||
-            !callerHasPanchayathScope(caller, agent.panchayath_id)) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - Agent is outside your allocated panchayath" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+            !callerHasPanchayathScope(caller, agent.panchayath_id as string)) {
+          throw forbidden("Forbidden - Agent is outside your allocated panchayath");
+        }
+        if (caller.role === "team_leader" &&
+            (TEAM_LEADER_BLOCKED_ROLES.includes(target.role) || TEAM_LEADER_BLOCKED_ROLES.includes(agent.role as string))) {
+          throw forbidden("Forbidden - Team Leaders cannot edit this role");
         }
-        if (caller.role === "team_leader" && (target.role === "super_admin_partner" || target.role === "team_leader" || agent.role === "super_admin_partner" || agent.role === "team_leader")) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - Team Leaders cannot edit this role" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+      }
+
+      // Remove fields that shouldn't be updated; customer_count is derived
+      const { created_at, created_by, panchayath, parent_agent, children, customer_count, ...updateData } = agent;
+
+      // Role and parent changes must keep the hierarchy valid
+      if ("role" in updateData || "parent_agent_id" in updateData) {
+        const agents = await loadAgents(supabase);
+        const current = agents.find((a) => a.id === id);
+        if (!current) throw notFound("Agent not found");
+        const role = (updateData.role as string | undefined) ?? current.role;
+        const parentId = "parent_agent_id" in updateData
+          ? (updateData.parent_agent_id as string | null) || null
+          : current.parent_agent_id;
+        if (role !== current.role || parentId !== current.parent_agent_id) {
+          checked(() => checkPlacement(agents, id, role, parentId));
         }
       }
 
-      // Remove fields that shouldn't be updated
-      const { created_at, created_by, panchayath, parent_agent, children, ...updateData } = agent;
-      
       const { data, error } = await supabase
         .from("pennyekart_agents")
         .update(updateData)
         .eq("id", id)
         .select()
         .single();
-
-      if (error) {
-        console.error("Update error:", error);
-        throw error;
-      }
-
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // DELETE - Delete agent (cascade: reassign or delete children first)
-    if (req.method === "DELETE" && agentId) {
-      // Caller-mobile scope checks (public TL / Super Admin)
-      if (caller && !admin) {
+      if (error) throw error;
+      return { data };
+    },
+  }),
+
+  // DELETE - Delete agent, detaching its children first
+  delete: action({
+    auth: ["admin", "public"],
+    input: z.object({ id }),
+    handler: async ({ id }, ctx) => {
+      const { caller } = await hierarchyEditor(ctx);
+      const { supabase } = ctx;
+      if (caller) {
         const { data: target } = await supabase
           .from("pennyekart_agents")
           .select("panchayath_id, role")
-          .eq("id", agentId)
+          .eq("id", id)
           .maybeSingle();
-        if (!target) {
-          return new Response(
-            JSON.stringify({ error: "Agent not found" }),
-            { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+        if (!target) throw notFound("Agent not found");
         if (!callerHasPanchayathScope(caller, target.panchayath_id)) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - Agent is outside your allocated panchayath" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+          throw forbidden("Forbidden - Agent is outside your allocated panchayath");
         }
-        if (caller.role === "team_leader" && (target.role === "super_admin_partner" || target.role === "team_leader")) {
-          return new Response(
-            JSON.stringify({ error: "Forbidden - Team Leaders cannot delete this role" }),
-            { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+        if (caller.role === "team_leader" && TEAM_LEADER_BLOCKED_ROLES.includes(target.role)) {
+          throw forbidden("Forbidden - Team Leaders cannot delete this role");
         }
       }
 
-      // First, remove references from child agents by setting their parent_agent_id to null
-
       const { error: childError } = await supabase
         .from("pennyekart_agents")
         .update({ parent_agent_id: null })
-        .eq("parent_agent_id", agentId);
-
-      if (childError) {
-        console.error("Error clearing children:", childError);
-        throw childError;
-      }
-
-      const { error } = await supabase
-        .from("pennyekart_agents")
-        .delete()
-        .eq("id", agentId);
+        .eq("parent_agent_id", id);
+      if (childError) throw childError;
 
+      const { error } = await supabase.from("pennyekart_agents").delete().eq("id", id);
       if (error) throw error;
-
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      return { success: true };
+    },
+  }),
+
+  // ── Hierarchy moves ──
+  // What a move would do: how many agents move and whose ranks change.
+  preview_move: action({
+    auth: ["admin", "public"],
+    input: moveInput,
+    handler: async (move, ctx) => {
+      const { agents, plan } = await planAgentMove(ctx, move);
+      const rules = await loadRankRules(ctx.supabase, snapshotDate());
+      const changes = rankImpact(agents, plan, rules);
+      const { data: names } = changes.length
+        ? await ctx.supabase.from("pennyekart_agents").select("id, name").in("id", changes.map((c) => c.agent_id))
+        : { data: [] };
+      const nameOf = new Map((names || []).map((n) => [n.id, n.name]));
+      return {
+        success: true,
+        moved_count: plan.moved_count,
+        reports_moved: plan.reports_moved,
+        rank_changes: changes.map((c) => ({ ...c, name: nameOf.get(c.agent_id) ?? "" })),
+      };
+    },
+  }),
+
+  // Moves an agent, with or without their team, then refreshes today's ranks.
+  move_agent: action({
+    auth: ["admin", "public"],
+    input: moveInput,
+    handler: async (move, ctx) => {
+      const { plan } = await planAgentMove(ctx, move);
+      const { error } = await ctx.supabase.rpc("move_pennyekart_agent", {
+        _agent_id: move.agent_id,
+        _new_parent_id: move.new_parent_id,
+        _reports_to_id: move.with_team ? null : move.reports_to_id ?? null,
       });
-    }
+      if (error) {
+        if (error.code === "23514") throw badRequest(error.message);
+        throw error;
+      }
+      await refreshRanks(ctx.supabase);
+      return { success: true, moved_count: plan.moved_count, reports_moved: plan.reports_moved };
+    },
+  }),
+
+  // ── Exits ──
+  // What leaving would hand over: reports, team, open tasks and customers.
+  preview_exit: action({
+    auth: ["admin", "public"],
+    input: z.object({ agent_id: agentId }),
+    handler: async ({ agent_id }, ctx) => {
+      const { caller } = await hierarchyEditor(ctx);
+      if (caller) await requireHierarchyScope(ctx.supabase, caller, agent_id, []);
+      const { supabase } = ctx;
+      const agents = await loadAgents(supabase);
+      const [reports, tasks, customers] = await Promise.all([
+        supabase.from("pennyekart_agents").select("id", { count: "exact", head: true }).eq("parent_agent_id", agent_id),
+        supabase
+          .from("department_tasks")
+          .select("id", { count: "exact", head: true })
+          .eq("assigned_agent_id", agent_id)
+          .neq("status", "completed"),
+        supabase.from("agent_direct_customers").select("id", { count: "exact", head: true }).eq("agent_id", agent_id),
+      ]);
+      return {
+        success: true,
+        direct_reports: reports.count ?? 0,
+        team_size: teamOf(agent_id, agents).size,
+        open_tasks: tasks.count ?? 0,
+        direct_customers: customers.count ?? 0,
+      };
+    },
+  }),
+
+  // Deactivates an agent and hands their reports, areas, open tasks and
+  // direct customers to a successor.
+  exit_agent: action({
+    auth: ["admin", "public"],
+    input: z.object({
+      agent_id: agentId,
+      successor_id: z.string().nullable(),
+      promote: z.boolean(),
+      backfill_id: z.string().nullish(),
+      handover_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "handover_date must be a YYYY-MM-DD date"),
+      notes: z.string().trim().max(1000).nullish(),
+    }),
+    handler: async (input, ctx) => {
+      const { adminId, caller } = await hierarchyEditor(ctx);
+      if (caller) {
+        await requireHierarchyScope(ctx.supabase, caller, input.agent_id, [input.successor_id, input.backfill_id]);
+      }
+      const { supabase } = ctx;
+
+      const ids = [input.agent_id, input.successor_id, input.backfill_id].filter((v): v is string => !!v);
+      const { data: rows } = await supabase.from("pennyekart_agents").select("id, is_active").in("id", ids);
+      const activeOf = new Map((rows || []).map((r) => [r.id, r.is_active !== false]));
+      if (!activeOf.has(input.agent_id)) throw notFound("Agent not found");
+      if (!activeOf.get(input.agent_id)) throw badRequest("This agent has already left");
+      if (input.successor_id && !activeOf.get(input.successor_id)) throw badRequest("The successor must be an active agent");
+      if (input.backfill_id && !activeOf.get(input.backfill_id)) {
+        throw badRequest("The agent taking over their reports must be active");
+      }
 
-    // ── Task CRUD ──
-    if (req.method === "POST" && action === "create_task") {
-      const { tasks: taskRows } = body;
+      const exit: ExitRequest = {
+        agent_id: input.agent_id,
+        successor_id: input.successor_id,
+        promote: input.promote,
+        backfill_id: input.backfill_id,
+      };
+      const agents = await loadAgents(supabase);
+      const plan = checked(() => planExit(agents, exit));
+
+      const { data: handover, error } = await supabase
+        .rpc("hand_over_pennyekart_agent", {
+          _agent_id: input.agent_id,
+          _successor_id: input.successor_id,
+          _promote: input.promote,
+          _backfill_id: input.promote ? input.backfill_id ?? null : null,
+          _handover_date: input.handover_date,
+          _notes: input.notes || null,
+          _created_by: adminId ?? caller?.id ?? null,
+        })
+        .single();
+      if (error) {
+        if (error.code === "23514") throw badRequest(error.message);
+        throw error;
+      }
+      // The successor takes over the direct customers, and with them the count
+      await refreshCustomerCounts(supabase);
+      await refreshRanks(supabase);
+      return { success: true, handover, team_size: plan.team_size };
+    },
+  }),
+
+  // ── Task CRUD ──
+  create_task: action({
+    auth: "admin",
+    input: z.object({
+      tasks: z.array(z.object({
+        title: z.string().trim().min(1, "Task title required"),
+        description: z.string().nullish(),
+        panchayath_id: z.string(),
+      })).min(1, "At least one task required"),
+    }),
+    handler: async ({ tasks }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
       const { data, error } = await supabase
         .from("pennyekart_agent_tasks")
-        .insert(taskRows.map((t: any) => ({ ...t, created_by: admin.admin_id })))
+        .insert(tasks.map((t) => ({ ...t, created_by: caller.admin.admin_id })))
         .select();
       if (error) throw error;
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    if (req.method === "POST" && action === "update_task") {
-      const { id, title, description } = body;
+      return { data };
+    },
+  }),
+
+  update_task: action({
+    auth: "admin",
+    input: z.object({ id, title: z.string().trim().min(1, "Task title required"), description: z.string().nullish() }),
+    handler: async ({ id, title, description }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
       const { data, error } = await supabase
         .from("pennyekart_agent_tasks")
         .update({ title, description })
@@ -649,58 +661,389 @@ serve(async (req) => {
         .select()
         .single();
       if (error) throw error;
-      return new Response(JSON.stringify({ data }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    if (req.method === "POST" && action === "delete_task") {
-      const { id } = body;
+      return { data };
+    },
+  }),
+
+  delete_task: action({
+    auth: "admin",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
       await supabase.from("pennyekart_agent_task_feedback").delete().eq("task_id", id);
       const { error } = await supabase.from("pennyekart_agent_tasks").delete().eq("id", id);
       if (error) throw error;
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // ── Task Feedback ──
-    if (req.method === "POST" && action === "save_feedback") {
-      const { task_id, agent_id, status, remarks, existing_id } = body;
-      if (existing_id) {
+      return { success: true };
+    },
+  }),
+
+  // ── Task Feedback ──
+  save_feedback: action({
+    auth: "admin",
+    input: z.object({
+      task_id: z.string(),
+      agent_id: z.string(),
+      status: z.enum(["completed", "not_completed"]),
+      remarks: z.string().nullish(),
+      existing_id: z.string().nullish(),
+    }),
+    handler: async (input, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      if (input.existing_id) {
         const { error } = await supabase
           .from("pennyekart_agent_task_feedback")
-          .update({ status, remarks: remarks || null })
-          .eq("id", existing_id);
+          .update({ status: input.status, remarks: input.remarks || null })
+          .eq("id", input.existing_id);
         if (error) throw error;
       } else {
         const { error } = await supabase
           .from("pennyekart_agent_task_feedback")
           .insert({
-            task_id,
-            agent_id,
-            status,
-            remarks: remarks || null,
-            feedback_by: admin.admin_id,
+            task_id: input.task_id,
+            agent_id: input.agent_id,
+            status: input.status,
+            remarks: input.remarks || null,
+            feedback_by: caller.admin.admin_id,
           });
         if (error) throw error;
       }
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+      return { success: true };
+    },
+  }),
+
+  // ── Ranks ──
+  // Re-derives customer counts, then recomputes every agent's rank and stores
+  // today's snapshot.
+  compute_ranks: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      const customers = await syncCustomerCounts(supabase);
+      return { success: true, ...(await recordRankSnapshot(supabase)), customers };
+    },
+  }),
+
+  // Rank rules are versioned by effective date; rules already in force are
+  // kept so older snapshots can still be explained. Super admins only.
+  save_rank_rule: action({
+    auth: "admin",
+    input: z.object({
+      role: agentRole,
+      counted_role: agentRole.nullable(),
+      required_count: z.number().int().min(1, "Required count must be at least 1"),
+      require_full: z.boolean(),
+      scope: z.enum(["direct", "team"]),
+      effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "effective_from must be a YYYY-MM-DD date"),
+    }),
+    handler: async (rule, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can change rank rules");
+      if (rule.effective_from < snapshotDate()) {
+        throw badRequest("Rank rules cannot take effect in the past", { effective_from: ["Must be today or later"] });
+      }
+      if (rule.counted_role && RANKED_ROLE_ORDER.indexOf(rule.counted_role) <= RANKED_ROLE_ORDER.indexOf(rule.role)) {
+        throw badRequest("A rank can only count agents below the role", { counted_role: ["Must be a lower role"] });
+      }
+      const { data, error } = await supabase
+        .from("pennyekart_rank_rules")
+        .upsert({ ...rule, created_by: caller.admin.admin_id }, { onConflict: "role,effective_from" })
+        .select()
+        .single();
+      if (error) throw error;
+      return { success: true, rule: data };
+    },
+  }),
+
+  delete_rank_rule: action({
+    auth: "admin",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can change rank rules");
+      const { data: rule } = await supabase
+        .from("pennyekart_rank_rules")
+        .select("effective_from")
+        .eq("id", id)
+        .maybeSingle();
+      if (!rule) throw notFound("Rank rule not found");
+      if (rule.effective_from <= snapshotDate()) {
+        throw badRequest("Rules already in force are kept for rank history");
+      }
+      const { error } = await supabase.from("pennyekart_rank_rules").delete().eq("id", id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  // ── Customer attribution ──
+  // Re-derives every PRO's customer_count from direct customers and orders.
+  sync_customer_counts: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      const summary = await syncCustomerCounts(supabase);
+      if (summary.updated > 0) await refreshRanks(supabase);
+      return { success: true, ...summary };
+    },
+  }),
+
+  // Called by pg_cron once a night with the secret from
+  // pennyekart_agents_secrets, so counts follow new orders and customers
+  // leaving the active window without anyone saving a customer. Then records
+  // the day's rank snapshot, so every agent has one dated row per day for
+  // rank history, payouts and reports.
+  run_daily: action({
+    auth: "public",
+    input: z.object({}),
+    handler: async (_input, { supabase, req }) => {
+      const presented = req.headers.get("x-scheduler-secret") || "";
+      const { data: secret } = await supabase.from("pennyekart_agents_secrets").select("secret").single();
+      if (!secret || !constantTimeEqualText(presented, secret.secret)) throw forbidden("Invalid scheduler secret");
+
+      const customers = await syncCustomerCounts(supabase);
+      return { success: true, ...(await recordRankSnapshot(supabase)), customers };
+    },
+  }),
+
+  // The customers attributed to one agent, active ones first. They include
+  // phone numbers from orders, so only admins and the agent themselves, signed
+  // in to the Samrabhaka portal, may see them.
+  attributed_customers: action({
+    auth: ["admin", "agent"],
+    input: z.object({ agent_id: agentId }),
+    handler: async ({ agent_id }, { supabase, caller }) => {
+      if (caller.kind === "agent" && caller.agent.agent_id !== agent_id) {
+        throw forbidden("Agents can only see their own customers");
+      }
+      const { rule, since, customers } = await loadAttribution(supabase);
+      const data = [...(customers.get(agent_id) || [])].sort((a, b) =>
+        Number(!a.active_by) - Number(!b.active_by) ||
+        (b.last_order_at || "").localeCompare(a.last_order_at || "") ||
+        a.name.localeCompare(b.name)
+      );
+      return { rule, since, data };
+    },
+  }),
+
+  // What counts as an active customer. Super admins only; counts and ranks
+  // are re-derived straight away.
+  save_customer_settings: action({
+    auth: "admin",
+    input: z.object({
+      active_days: z.number().int().min(1, "Active window must be at least 1 day").max(3650, "Active window must be at most 3650 days"),
+      count_new_registrations: z.boolean(),
+    }),
+    handler: async (settings, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can change customer settings");
+      const { data, error } = await supabase
+        .from("pennyekart_customer_settings")
+        .upsert({ id: true, ...settings, updated_by: caller.admin.admin_id })
+        .select("active_days, count_new_registrations, updated_at")
+        .single();
+      if (error) throw error;
+      const summary = await syncCustomerCounts(supabase);
+      if (summary.updated > 0) await refreshRanks(supabase);
+      return { success: true, settings: data, ...summary };
+    },
+  }),
+
+  // ── Work-log metrics ──
+  // Names the WhatsApp bot parses out of work logs. A metric's key is what
+  // logged values are stored under, so it cannot change once created; retire a
+  // metric by switching it off. Super admins only.
+  save_work_metric: action({
+    auth: "admin",
+    input: workMetricInput,
+    handler: async ({ id, ...metric }, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can change work-log metrics");
+      const { data: existing, error: loadError } = await supabase
+        .from("pennyekart_work_metrics")
+        .select("id, key, aliases");
+      if (loadError) throw loadError;
+      const others = (existing || []).filter((m) => m.id !== id);
+      const taken = new Set(others.flatMap((m) => [m.key, ...(m.aliases || [])]));
+      const clash = [metric.key, ...metric.aliases].find((name) => taken.has(name));
+      if (clash) {
+        throw badRequest(`"${clash}" is already used by another metric`, {
+          [clash === metric.key ? "key" : "aliases"]: ["Already used"],
+        });
+      }
 
-    return new Response(
-      JSON.stringify({ error: "Invalid action" }),
-      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+      if (id) {
+        const current = (existing || []).find((m) => m.id === id);
+        if (!current) throw notFound("Metric not found");
+        if (current.key !== metric.key) throw badRequest("A metric's key cannot be changed", { key: ["Cannot change"] });
+        const { data, error } = await supabase
+          .from("pennyekart_work_metrics")
+          .update(metric)
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) throw error;
+        return { success: true, metric: data };
+      }
 
-  } catch (error: unknown) {
-    console.error("Error:", error);
-    const message = error instanceof Error ? error.message : "Internal server error";
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
+      const { data, error } = await supabase
+        .from("pennyekart_work_metrics")
+        .insert({ ...metric, created_by: caller.admin.admin_id })
+        .select()
+        .single();
+      if (error) throw error;
+      return { success: true, metric: data };
+    },
+  }),
+
+  // ── Work calendar ──
+  // Weekly off days and holidays, which absence reports do not count. A
+  // holiday without a panchayath applies everywhere.
+  save_work_calendar: action({
+    auth: "admin",
+    input: z.object({
+      weekly_off_days: z.array(z.number().int().min(0).max(6)).max(6, "At least one day must be a working day"),
+    }),
+    handler: async ({ weekly_off_days }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      const { data, error } = await supabase
+        .from("work_calendar_settings")
+        .update({ weekly_off_days: [...new Set(weekly_off_days)].sort(), updated_by: caller.admin.admin_id })
+        .eq("id", true)
+        .select("weekly_off_days")
+        .single();
+      if (error) throw error;
+      return { success: true, weekly_off_days: data.weekly_off_days };
+    },
+  }),
+
+  save_holiday: action({
+    auth: "admin",
+    input: z.object({
+      holiday_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+      name: z.string().trim().min(1, "Holiday name required").max(100),
+      panchayath_id: z.string().nullish(),
+    }),
+    handler: async ({ holiday_date, name, panchayath_id }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      const { data, error } = await supabase
+        .from("work_holidays")
+        .insert({ holiday_date, name, panchayath_id: panchayath_id || null, created_by: caller.admin.admin_id })
+        .select()
+        .single();
+      if (error) {
+        if (error.code === "23505") throw badRequest(`There is already a holiday on ${holiday_date} for this scope`);
+        throw error;
+      }
+      return { success: true, holiday: data };
+    },
+  }),
+
+  delete_holiday: action({
+    auth: "admin",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      requireCapability(caller.admin, "agents:manage");
+      const { error } = await supabase.from("work_holidays").delete().eq("id", id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  // ── Direct customers ──
+  // Listing is public so the agent's own page can show it.
+  list_customers: action({
+    auth: ["admin", "public"],
+    input: z.object({ agent_id: agentId }),
+    handler: async ({ agent_id }, { supabase }) => {
+      const targetAgent = await fetchAgentForCustomer(supabase, agent_id);
+      if (!targetAgent) throw notFound("Agent not found");
+      if (!DIRECT_CUSTOMER_ROLES.includes(targetAgent.role)) return { data: [] };
+      const { data, error } = await supabase
+        .from("agent_direct_customers")
+        .select("*, panchayath:panchayaths(id, name)")
+        .eq("agent_id", agent_id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return { data };
+    },
+  }),
+
+  add_customer: action({
+    auth: ["admin", "public"],
+    input: z.object({ agent_id: agentId, customer: customerInput }),
+    handler: async ({ agent_id, customer }, ctx) => {
+      await assertCustomerAccess(ctx, agent_id);
+      const { data, error } = await ctx.supabase
+        .from("agent_direct_customers")
+        .insert({ agent_id, ...customer })
+        .select()
+        .single();
+      if (error) {
+        if (error.code === "23505") throw badRequest(DUPLICATE_CUSTOMER);
+        throw error;
+      }
+      await refreshCustomerCounts(ctx.supabase);
+      return { data };
+    },
+  }),
+
+  update_customer: action({
+    auth: ["admin", "public"],
+    input: z.object({ id, customer: customerInput }),
+    handler: async ({ id, customer }, ctx) => {
+      const { data: existing } = await ctx.supabase
+        .from("agent_direct_customers")
+        .select("agent_id")
+        .eq("id", id)
+        .maybeSingle();
+      if (!existing) throw notFound("Customer not found");
+      await assertCustomerAccess(ctx, existing.agent_id);
+      const { data, error } = await ctx.supabase
+        .from("agent_direct_customers")
+        .update(customer)
+        .eq("id", id)
+        .select()
+        .single();
+      if (error) {
+        if (error.code === "23505") throw badRequest(DUPLICATE_CUSTOMER);
+        throw error;
+      }
+      await refreshCustomerCounts(ctx.supabase);
+      return { data };
+    },
+  }),
+
+  delete_customer: action({
+    auth: ["admin", "public"],
+    input: z.object({ id }),
+    handler: async ({ id }, ctx) => {
+      const { data: existing } = await ctx.supabase
+        .from("agent_direct_customers")
+        .select("agent_id")
+        .eq("id", id)
+        .maybeSingle();
+      if (!existing) throw notFound("Customer not found");
+      await assertCustomerAccess(ctx, existing.agent_id);
+      const { error } = await ctx.supabase.from("agent_direct_customers").delete().eq("id", id);
+      if (error) throw error;
+      await refreshCustomerCounts(ctx.supabase);
+      return { success: true };
+    },
+  }),
+}, {
+  // REST verbs for list/update/delete are still accepted from older pages.
+  resolveAction: (req, _url, body) => {
+    switch (req.method) {
+      case "GET":
+        return "list";
+      case "PUT":
+        return "update";
+      case "DELETE":
+        return "delete";
+      case "POST":
+        return typeof body?.action === "string" ? body.action : null;
+      default:
+        return null;
+    }
+  },
 });
+
+Deno.serve((req) => router.handle(req));
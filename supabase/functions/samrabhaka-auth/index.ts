@@ -1,76 +1,224 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  AGENT_SESSION_TTL_MS,
+  issueSession,
+  revokeAllSessions,
+  revokeSession,
+} from "../_shared/session.ts";
+import { hashSecret, legacySha256Hex, verifySecret } from "../_shared/password.ts";
+import {
+  checkLoginThrottle,
+  clearLoginFailures,
+  type LoginLock,
+  loginLockedBody,
+  loginLockedHeaders,
+  recordLoginFailure,
+  withAttemptsLeft,
+} from "../_shared/throttle.ts";
+import { sendWhatsAppText } from "../_shared/whatsapp.ts";
+import {
+  action,
+  type ActionContext,
+  badRequest,
+  conflict,
+  createRouter,
+  forbidden,
+  HttpError,
+  notFound,
+  z,
+} from "../_shared/router.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { teamOf } from "../_shared/agentHierarchy.ts";
+import { loadAgents, snapshotDate } from "../_shared/rankEngine.ts";
+import {
+  cancelLeave,
+  createLeaveRequest,
+  decideLeave,
+  LeaveError,
+  notifyLeaveDecided,
+  notifyLeaveRequested,
+  pendingTeamLeaves,
+} from "../_shared/leaveRequests.ts";
+
+// Before PBKDF2, passwords were SHA-256(password + ":" + first 16 chars of a
+// secret) — first the service key, later SAMRABHAKA_TOKEN_SECRET.
+function legacyPasswordHashes(password: string): Promise<string[]> {
+  const secrets = new Set(
+    [Deno.env.get("SAMRABHAKA_TOKEN_SECRET"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")]
+      .filter((s): s is string => !!s),
+  );
+  return Promise.all([...secrets].map((s) => legacySha256Hex(password + ":" + s.slice(0, 16))));
+}
+
+const lockedResponse = (ctx: ActionContext, lock: LoginLock) =>
+  ctx.json(loginLockedBody(lock), 429, loginLockedHeaders(lock));
+
+function normalizeMobile(m: string): string {
+  return (m || "").replace(/\D+/g, "");
+}
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-samrabhaka-token",
+// ---- Input pieces ----
+const mobileInput = z.coerce.string().transform(normalizeMobile);
+const validMobile = mobileInput.pipe(z.string().min(8, "Invalid mobile number"));
+const newPassword = (label: string) => z.string().min(6, `${label} must be at least 6 characters`);
+const id = z.string({ required_error: "id required" }).min(1, "id required");
+const otpPurpose = z.unknown().transform((p): OtpPurpose => (p === "reset" ? "reset" : "login"));
+
+const BUDGET_SHARES: Record<string, { own: number; elife: number }> = {
+  own_100: { own: 100, elife: 0 },
+  "80_20": { own: 80, elife: 20 },
+  "50_50": { own: 50, elife: 50 },
+  "20_80": { own: 20, elife: 80 },
+  samrambhini: { own: 0, elife: 0 },
 };
 
-const json = (body: unknown, status = 200) =>
-  new Response(JSON.stringify(body), {
-    status,
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
+const PROJECT_REQUIRED = "project_name, model, entity and budget_plan are required";
+
+const projectFields = z.object({
+  project_name: z.string({ required_error: PROJECT_REQUIRED }).min(1, PROJECT_REQUIRED).transform((s) => s.slice(0, 200)),
+  plan_description: z.string().nullish(),
+  logo_url: z.string().nullish(),
+  model: z.enum(["individual", "partnership", "group"], { errorMap: () => ({ message: "Invalid model" }) }),
+  entity: z.enum(["own_company", "elife_affiliated"], { errorMap: () => ({ message: "Invalid entity" }) }),
+  budget_plan: z.string().refine((p) => Object.hasOwn(BUDGET_SHARES, p), "Invalid budget_plan"),
+});
+
+// ---- WhatsApp one-time codes (OTP login and password reset) ----
+const OTP_TTL_MS = 5 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_MS = 60 * 1000;
+const OTP_MAX_PER_HOUR = 5;
+const RESET_WINDOW_MS = 10 * 60 * 1000;
+
+type OtpPurpose = "login" | "reset";
+
+function generateOtp(): string {
+  const n = crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000;
+  return String(n).padStart(6, "0");
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function otpMessage(code: string, purpose: OtpPurpose): string {
+  const what = purpose === "reset" ? "password reset code" : "login code";
+  return `🔐 *e-Life Samrabhaka*\n\nYour ${what} is *${code}*.\nIt expires in ${OTP_TTL_MS / 60000} minutes.\n\nDo not share this code with anyone.`;
+}
+
+/** Issues an agent session and returns the sign-in payload the portal stores. */
+async function signIn(
+  supabase: SupabaseClient,
+  req: Request,
+  agent: { id: string; name: string; role: string; mobile: string },
+) {
+  const { token } = await issueSession(supabase, {
+    kind: "agent",
+    subjectId: agent.id,
+    ttlMs: AGENT_SESSION_TTL_MS,
+    claims: { mobile: agent.mobile },
+    req,
   });
+  return { success: true, token, agent: { id: agent.id, name: agent.name, role: agent.role, mobile: agent.mobile } };
+}
 
-async function sha256Hex(input: string): Promise<string> {
-  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
-  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
+async function activeAgent(supabase: SupabaseClient, agentId: string) {
+  const { data: agent } = await supabase
+    .from("pennyekart_agents")
+    .select("id, name, role, is_active, mobile")
+    .eq("id", agentId)
+    .maybeSingle();
+  if (!agent || !agent.is_active) throw forbidden("Your account is inactive");
+  return agent;
 }
 
-function normalizeMobile(m: string): string {
-  return (m || "").replace(/\D+/g, "");
+/** Asserts the caller owns the project or is a member of it. */
+async function assertProjectAccess(supabase: SupabaseClient, project_id: string, agent_id: string) {
+  const { data: proj } = await supabase
+    .from("agent_projects")
+    .select("id, agent_id, model")
+    .eq("id", project_id)
+    .maybeSingle();
+  if (!proj) throw notFound("Project not found");
+  if (proj.agent_id === agent_id) return { project: proj, isOwner: true };
+  const { data: mem } = await supabase
+    .from("agent_project_members")
+    .select("id")
+    .eq("project_id", project_id)
+    .eq("agent_id", agent_id)
+    .maybeSingle();
+  if (!mem) throw forbidden();
+  return { project: proj, isOwner: false };
 }
 
-async function signToken(payload: Record<string, unknown>, secret: string): Promise<string> {
-  const data = JSON.stringify(payload);
-  const sig = await sha256Hex(data + secret);
-  return btoa(data) + "." + sig;
+/** Loads the project a todo or note belongs to and checks access to it. */
+async function assertChildAccess(
+  supabase: SupabaseClient,
+  table: "agent_project_todos" | "agent_project_notes",
+  rowId: string,
+  agent_id: string,
+) {
+  const { data: row } = await supabase.from(table).select("project_id").eq("id", rowId).maybeSingle();
+  if (!row) throw notFound();
+  await assertProjectAccess(supabase, row.project_id, agent_id);
 }
 
-async function verifyToken(token: string, secret: string): Promise<Record<string, any> | null> {
-  try {
-    const [b64, sig] = token.split(".");
-    if (!b64 || !sig) return null;
-    const data = atob(b64);
-    // accept current secret, and legacy tokens signed with the service role key
-    const legacy = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-    const candidates = [secret, legacy].filter(Boolean);
-    let ok = false;
-    for (const c of candidates) {
-      if ((await sha256Hex(data + c)) === sig) { ok = true; break; }
-    }
-    if (!ok) return null;
-    const payload = JSON.parse(data);
-    if (payload.exp && payload.exp < Date.now()) return null;
-    return payload;
-  } catch {
-    return null;
+// ---- Pennyekart portal ----
+// The signed-in agent's own slice of the Pennyekart data: who they report to,
+// their team, ranks, wallet, tasks and complaints.
+
+// Keeps .in() filters well inside URL length limits.
+const ID_CHUNK = 200;
+
+async function selectByIds<T>(ids: string[], query: (chunk: string[]) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const { data, error } = await query(ids.slice(i, i + ID_CHUNK));
+    if (error) throw error;
+    rows.push(...(data || []));
   }
+  return rows;
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
 
+/** Runs a leave operation, reporting rule violations as bad requests. */
+async function leaveAction<T>(run: () => Promise<T>): Promise<T> {
   try {
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
-    );
-    const secret = Deno.env.get("SAMRABHAKA_TOKEN_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    return await run();
+  } catch (err) {
+    if (err instanceof LeaveError) throw badRequest(err.message);
+    throw err;
+  }
+}
 
-    const body = await req.json().catch(() => ({}));
-    const action: string = body.action;
+/** The agent's managers, nearest first, stopping if the parent links loop. */
+function uplineOf(agentId: string, parents: Map<string, string | null>): string[] {
+  const upline: string[] = [];
+  const seen = new Set([agentId]);
+  let current = parents.get(agentId) ?? null;
+  while (current && !seen.has(current)) {
+    upline.push(current);
+    seen.add(current);
+    current = parents.get(current) ?? null;
+  }
+  return upline;
+}
 
-    // ---- public_projects (no auth) ----
-    if (action === "public_projects") {
+const router = createRouter("samrabhaka-auth", {
+  // ---- public_projects (no auth) ----
+  public_projects: action({
+    auth: "public",
+    input: z.object({}),
+    handler: async (_input, { supabase }) => {
       const { data: projects, error } = await supabase
         .from("agent_projects")
         .select("id, project_name, plan_description, logo_url, created_at")
         .order("created_at", { ascending: false })
         .limit(100);
-      if (error) return json({ error: error.message }, 500);
-      const ids = (projects || []).map((p: any) => p.id);
-      let notesByProject: Record<string, any[]> = {};
+      if (error) throw error;
+      const ids = (projects || []).map((p) => p.id);
+      const notesByProject: Record<string, unknown[]> = {};
       if (ids.length) {
         const { data: notes } = await supabase
           .from("agent_project_notes")
@@ -81,28 +229,28 @@ serve(async (req) => {
           (notesByProject[n.project_id] ||= []).push(n);
         }
       }
-      return json({
+      return {
         success: true,
-        projects: (projects || []).map((p: any) => ({
+        projects: (projects || []).map((p) => ({
           ...p,
           updates: (notesByProject[p.id] || []).slice(0, 5),
         })),
-      });
-    }
-
-    // ---- check_mobile ----
-    if (action === "check_mobile") {
-      const mobile = normalizeMobile(body.mobile || "");
-      if (mobile.length < 8) return json({ error: "Invalid mobile number" }, 400);
-
+      };
+    },
+  }),
+
+  check_mobile: action({
+    auth: "public",
+    input: z.object({ mobile: validMobile }),
+    handler: async ({ mobile }, { supabase }) => {
       const { data: agent } = await supabase
         .from("pennyekart_agents")
         .select("id, name, role, is_active")
         .eq("mobile", mobile)
         .maybeSingle();
 
-      if (!agent) return json({ exists: false });
-      if (!agent.is_active) return json({ error: "Your agent account is inactive. Contact admin." }, 403);
+      if (!agent) return { exists: false };
+      if (!agent.is_active) throw forbidden("Your agent account is inactive. Contact admin.");
 
       const { data: auth } = await supabase
         .from("agent_auth")
@@ -110,29 +258,27 @@ serve(async (req) => {
         .eq("agent_id", agent.id)
         .maybeSingle();
 
-      return json({
+      return {
         exists: true,
         has_password: !!auth,
         name: agent.name,
         role: agent.role,
-      });
-    }
-
-    // ---- register ----
-    if (action === "register") {
-      const mobile = normalizeMobile(body.mobile || "");
-      const password: string = body.password || "";
-      if (mobile.length < 8) return json({ error: "Invalid mobile number" }, 400);
-      if (password.length < 6) return json({ error: "Password must be at least 6 characters" }, 400);
-
+      };
+    },
+  }),
+
+  register: action({
+    auth: "public",
+    input: z.object({ mobile: validMobile, password: newPassword("Password") }),
+    handler: async ({ mobile, password }, { supabase, req, audit }) => {
       const { data: agent } = await supabase
         .from("pennyekart_agents")
         .select("id, name, role, is_active")
         .eq("mobile", mobile)
         .maybeSingle();
 
-      if (!agent) return json({ error: "Mobile number not found in agent hierarchy" }, 404);
-      if (!agent.is_active) return json({ error: "Your agent account is inactive" }, 403);
+      if (!agent) throw notFound("Mobile number not found in agent hierarchy");
+      if (!agent.is_active) throw forbidden("Your agent account is inactive");
 
       const { data: existing } = await supabase
         .from("agent_auth")
@@ -140,30 +286,31 @@ serve(async (req) => {
         .eq("agent_id", agent.id)
         .maybeSingle();
 
-      if (existing) return json({ error: "Account already exists. Please login." }, 409);
-
-      const password_hash = await sha256Hex(password + ":" + secret.slice(0, 16));
+      if (existing) throw conflict("Account already exists. Please login.");
+      audit.setActor({ type: "agent", id: agent.id });
 
       const { error: insErr } = await supabase.from("agent_auth").insert({
         agent_id: agent.id,
         mobile,
-        password_hash,
+        password_hash: await hashSecret(password),
         last_login_at: new Date().toISOString(),
       });
-      if (insErr) return json({ error: insErr.message }, 500);
-
-      const token = await signToken(
-        { agent_id: agent.id, mobile, exp: Date.now() + 30 * 24 * 60 * 60 * 1000 },
-        secret,
-      );
-      return json({ success: true, token, agent: { id: agent.id, name: agent.name, role: agent.role, mobile } });
-    }
-
-    // ---- login ----
-    if (action === "login") {
-      const mobile = normalizeMobile(body.mobile || "");
-      const password: string = body.password || "";
-      if (!mobile || !password) return json({ error: "Mobile and password are required" }, 400);
+      if (insErr) throw insErr;
+
+      return signIn(supabase, req, { ...agent, mobile });
+    },
+  }),
+
+  login: action({
+    auth: "public",
+    input: z.object({
+      mobile: mobileInput.pipe(z.string().min(1, "Mobile and password are required")),
+      password: z.string({ required_error: "Mobile and password are required" }).min(1, "Mobile and password are required"),
+    }),
+    handler: async ({ mobile, password }, ctx) => {
+      const { supabase, req, audit } = ctx;
+      const throttle = await checkLoginThrottle(supabase, "agent", mobile, req);
+      if (throttle.locked) return lockedResponse(ctx, throttle);
 
       const { data: auth } = await supabase
         .from("agent_auth")
@@ -171,129 +318,440 @@ serve(async (req) => {
         .eq("mobile", mobile)
         .maybeSingle();
 
-      if (!auth) return json({ error: "Invalid mobile or password" }, 401);
-
-      const legacySecret = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-      const password_hash = await sha256Hex(password + ":" + secret.slice(0, 16));
-      let ok = password_hash === auth.password_hash;
-      if (!ok && legacySecret && legacySecret !== secret) {
-        const legacyHash = await sha256Hex(password + ":" + legacySecret.slice(0, 16));
-        if (legacyHash === auth.password_hash) {
-          ok = true;
-          // migrate to the stable secret
-          await supabase.from("agent_auth").update({ password_hash }).eq("id", auth.id);
-        }
+      const check = auth
+        ? await verifySecret(password, auth.password_hash, legacyPasswordHashes)
+        : { ok: false, needsRehash: false };
+      if (!auth || !check.ok) {
+        const state = await recordLoginFailure(supabase, "agent", mobile, req);
+        if (state.locked) return lockedResponse(ctx, state);
+        throw new HttpError(401, withAttemptsLeft("Invalid mobile or password.", state), "invalid_credentials");
       }
-      if (!ok) {
-        return json({ error: "Invalid mobile or password" }, 401);
+      await clearLoginFailures(supabase, "agent", mobile);
+      audit.setActor({ type: "agent", id: auth.agent_id });
+      if (check.needsRehash) {
+        await supabase.from("agent_auth").update({ password_hash: await hashSecret(password) }).eq("id", auth.id);
       }
 
-
+      const agent = await activeAgent(supabase, auth.agent_id);
+      await supabase.from("agent_auth").update({ last_login_at: new Date().toISOString() }).eq("id", auth.id);
+      return signIn(supabase, req, agent);
+    },
+  }),
+
+  request_otp: action({
+    auth: "public",
+    input: z.object({ mobile: validMobile, purpose: otpPurpose }),
+    handler: async ({ mobile, purpose }, { supabase, audit }) => {
       const { data: agent } = await supabase
         .from("pennyekart_agents")
-        .select("id, name, role, is_active, mobile")
-        .eq("id", auth.agent_id)
+        .select("id, is_active")
+        .eq("mobile", mobile)
         .maybeSingle();
 
-      if (!agent || !agent.is_active) return json({ error: "Your account is inactive" }, 403);
+      if (!agent) throw notFound("Mobile number not found in agent hierarchy");
+      if (!agent.is_active) throw forbidden("Your agent account is inactive");
+      audit.setActor({ type: "agent", id: agent.id });
+
+      if (purpose === "reset") {
+        const { data: existing } = await supabase
+          .from("agent_auth")
+          .select("id")
+          .eq("agent_id", agent.id)
+          .maybeSingle();
+        if (!existing) throw notFound("No account yet. Please register first.");
+      }
+
+      const { data: recent } = await supabase
+        .from("agent_otps")
+        .select("created_at")
+        .eq("mobile", mobile)
+        .gte("created_at", new Date(Date.now() - 60 * 60 * 1000).toISOString())
+        .order("created_at", { ascending: false });
+      if (recent && recent.length >= OTP_MAX_PER_HOUR) {
+        throw new HttpError(429, "Too many codes requested. Please try again in an hour.", "otp_rate_limited");
+      }
+      const sinceLast = recent?.[0] ? Date.now() - new Date(recent[0].created_at).getTime() : Infinity;
+      if (sinceLast < OTP_RESEND_COOLDOWN_MS) {
+        const wait = Math.ceil((OTP_RESEND_COOLDOWN_MS - sinceLast) / 1000);
+        throw new HttpError(429, `Please wait ${wait} seconds before requesting another code.`, "otp_rate_limited", {
+          retry_after: wait,
+        });
+      }
 
-      await supabase.from("agent_auth").update({ last_login_at: new Date().toISOString() }).eq("id", auth.id);
+      // A new code replaces any earlier one for the same purpose.
+      await supabase
+        .from("agent_otps")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("mobile", mobile)
+        .eq("purpose", purpose)
+        .is("consumed_at", null);
 
-      const token = await signToken(
-        { agent_id: agent.id, mobile: agent.mobile, exp: Date.now() + 30 * 24 * 60 * 60 * 1000 },
-        secret,
-      );
-      return json({ success: true, token, agent: { id: agent.id, name: agent.name, role: agent.role, mobile: agent.mobile } });
-    }
+      const code = generateOtp();
+      const { error: insErr } = await supabase.from("agent_otps").insert({
+        agent_id: agent.id,
+        mobile,
+        purpose,
+        code_hash: await hashSecret(code),
+        expires_at: new Date(Date.now() + OTP_TTL_MS).toISOString(),
+      });
+      if (insErr) throw insErr;
 
-    // ---- me ----
-    if (action === "me") {
-      const token = req.headers.get("x-samrabhaka-token") || body.token;
-      if (!token) return json({ error: "Unauthorized" }, 401);
-      const payload = await verifyToken(token, secret);
-      if (!payload) return json({ error: "Invalid or expired token" }, 401);
+      const sent = await sendWhatsAppText(mobile, otpMessage(code, purpose), {
+        template: { purpose: "otp", params: [code], button: code },
+      });
+      if (!sent.ok) {
+        throw new HttpError(502, "Could not send the code on WhatsApp. Please try again later.", "whatsapp_failed");
+      }
 
-      const { data: agent } = await supabase
-        .from("pennyekart_agents")
-        .select("id, name, mobile, role, ward, is_active, panchayath_id, panchayaths(name, district)")
-        .eq("id", payload.agent_id)
+      // With the console stand-in there is no phone to read the code from.
+      return { success: true, expires_in: OTP_TTL_MS / 1000, ...(sent.simulated ? { dev_code: code } : {}) };
+    },
+  }),
+
+  verify_otp: action({
+    auth: "public",
+    input: z.object({
+      mobile: mobileInput.pipe(z.string().min(1, "Enter the 6-digit code")),
+      code: z.string({ required_error: "Enter the 6-digit code" }).trim().regex(/^\d{6}$/, "Enter the 6-digit code"),
+      purpose: otpPurpose,
+    }),
+    handler: async ({ mobile, code, purpose }, { supabase, req, audit }) => {
+      const { data: otp } = await supabase
+        .from("agent_otps")
+        .select("id, agent_id, code_hash, attempts, expires_at")
+        .eq("mobile", mobile)
+        .eq("purpose", purpose)
+        .is("consumed_at", null)
+        .is("verified_at", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
         .maybeSingle();
 
-      if (!agent || !agent.is_active) return json({ error: "Account inactive" }, 403);
-      return json({ success: true, agent });
-    }
+      if (!otp || new Date(otp.expires_at).getTime() <= Date.now()) {
+        throw badRequest("This code has expired. Please request a new one.");
+      }
+      audit.setActor({ type: "agent", id: otp.agent_id });
+      if (otp.attempts >= OTP_MAX_ATTEMPTS) {
+        throw new HttpError(429, "Too many wrong codes. Please request a new one.", "otp_attempts_exceeded");
+      }
 
-    // ---- change_password ----
-    if (action === "change_password") {
-      const token = req.headers.get("x-samrabhaka-token") || body.token;
-      if (!token) return json({ error: "Unauthorized" }, 401);
-      const payload = await verifyToken(token, secret);
-      if (!payload) return json({ error: "Invalid or expired token" }, 401);
+      const check = await verifySecret(code, otp.code_hash);
+      if (!check.ok) {
+        const left = OTP_MAX_ATTEMPTS - otp.attempts - 1;
+        await supabase.from("agent_otps").update({ attempts: otp.attempts + 1 }).eq("id", otp.id);
+        if (left <= 0) {
+          throw new HttpError(429, "Too many wrong codes. Please request a new one.", "otp_attempts_exceeded");
+        }
+        throw new HttpError(401, `Incorrect code. ${left} attempt${left === 1 ? "" : "s"} left.`, "invalid_code");
+      }
 
-      const oldPw: string = body.old_password || "";
-      const newPw: string = body.new_password || "";
-      if (newPw.length < 6) return json({ error: "New password must be at least 6 characters" }, 400);
+      if (purpose === "reset") {
+        // The verified code is exchanged for a short-lived token that allows one reset_password.
+        const resetToken = randomToken();
+        await supabase
+          .from("agent_otps")
+          .update({
+            verified_at: new Date().toISOString(),
+            reset_token_hash: await hashSecret(resetToken),
+            expires_at: new Date(Date.now() + RESET_WINDOW_MS).toISOString(),
+          })
+          .eq("id", otp.id);
+        return { success: true, reset_token: resetToken };
+      }
 
-      const { data: auth } = await supabase
-        .from("agent_auth")
-        .select("id, password_hash")
-        .eq("agent_id", payload.agent_id)
+      const { data: consumed } = await supabase
+        .from("agent_otps")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("id", otp.id)
+        .is("consumed_at", null)
+        .select("id");
+      if (!consumed || consumed.length === 0) throw badRequest("This code was already used.");
+
+      const agent = await activeAgent(supabase, otp.agent_id);
+      await clearLoginFailures(supabase, "agent", mobile);
+      await supabase.from("agent_auth").update({ last_login_at: new Date().toISOString() }).eq("agent_id", agent.id);
+      return signIn(supabase, req, agent);
+    },
+  }),
+
+  reset_password: action({
+    auth: "public",
+    input: z.object({
+      mobile: mobileInput.pipe(z.string().min(1, "Missing reset details")),
+      reset_token: z.string({ required_error: "Missing reset details" }).min(1, "Missing reset details"),
+      new_password: newPassword("New password"),
+    }),
+    handler: async ({ mobile, reset_token, new_password }, { supabase, req, audit }) => {
+      const { data: otp } = await supabase
+        .from("agent_otps")
+        .select("id, agent_id, reset_token_hash, expires_at")
+        .eq("mobile", mobile)
+        .eq("purpose", "reset")
+        .is("consumed_at", null)
+        .not("verified_at", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
         .maybeSingle();
-      if (!auth) return json({ error: "Not found" }, 404);
-
-      const oldHash = await sha256Hex(oldPw + ":" + secret.slice(0, 16));
-      const legacySecret2 = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
-      const oldLegacyHash = legacySecret2
-        ? await sha256Hex(oldPw + ":" + legacySecret2.slice(0, 16))
-        : "";
-      if (oldHash !== auth.password_hash && oldLegacyHash !== auth.password_hash) {
-        return json({ error: "Current password is incorrect" }, 401);
+
+      if (!otp || new Date(otp.expires_at).getTime() <= Date.now()) {
+        throw badRequest("Your reset request has expired. Please request a new code.");
       }
+      const check = await verifySecret(reset_token, otp.reset_token_hash);
+      if (!check.ok) throw new HttpError(401, "Invalid reset request", "invalid_reset_token");
+      audit.setActor({ type: "agent", id: otp.agent_id });
+
+      const { data: consumed } = await supabase
+        .from("agent_otps")
+        .update({ consumed_at: new Date().toISOString() })
+        .eq("id", otp.id)
+        .is("consumed_at", null)
+        .select("id");
+      if (!consumed || consumed.length === 0) throw badRequest("This reset request was already used.");
 
+      const agent = await activeAgent(supabase, otp.agent_id);
 
-      const newHash = await sha256Hex(newPw + ":" + secret.slice(0, 16));
-      await supabase.from("agent_auth").update({ password_hash: newHash }).eq("id", auth.id);
-      return json({ success: true });
-    }
-
-    // ---- auth helper for project actions ----
-    const requireAuth = async () => {
-      const token = req.headers.get("x-samrabhaka-token") || body.token;
-      if (!token) return { error: json({ error: "Unauthorized" }, 401) };
-      const payload = await verifyToken(token, secret);
-      if (!payload) return { error: json({ error: "Invalid or expired token" }, 401) };
-      return { agent_id: payload.agent_id as string };
-    };
-
-    const BUDGET_SHARES: Record<string, { own: number; elife: number }> = {
-      own_100: { own: 100, elife: 0 },
-      "80_20": { own: 80, elife: 20 },
-      "50_50": { own: 50, elife: 50 },
-      "20_80": { own: 20, elife: 80 },
-      samrambhini: { own: 0, elife: 0 },
-    };
-
-    // ---- list_projects ----
-    if (action === "list_projects") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
+      const { error: updErr } = await supabase
+        .from("agent_auth")
+        .update({ password_hash: await hashSecret(new_password), last_login_at: new Date().toISOString() })
+        .eq("agent_id", agent.id);
+      if (updErr) throw updErr;
+
+      // Whoever knew the old password is signed out everywhere.
+      await revokeAllSessions(supabase, "agent", agent.id, "password_reset");
+      await clearLoginFailures(supabase, "agent", mobile);
+      return signIn(supabase, req, agent);
+    },
+  }),
+
+  // ---- Signed-in agent ----
+  me: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const { data: agent } = await supabase
+        .from("pennyekart_agents")
+        .select("id, name, mobile, role, ward, is_active, customer_count, parent_agent_id, panchayath_id, panchayaths(name, district)")
+        .eq("id", caller.agent.agent_id)
+        .maybeSingle();
+
+      if (!agent || !agent.is_active) throw forbidden("Account inactive");
+      return { success: true, agent };
+    },
+  }),
+
+  logout: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      await revokeSession(supabase, caller.agent.session_id, "logout");
+      return { success: true };
+    },
+  }),
+
+  logout_all: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      await revokeAllSessions(supabase, "agent", caller.agent.agent_id, "logout_all");
+      return { success: true };
+    },
+  }),
+
+  change_password: action({
+    auth: "agent",
+    input: z.object({ old_password: z.string().default(""), new_password: newPassword("New password") }),
+    handler: async ({ old_password, new_password }, { supabase, caller }) => {
+      const { data: authRow } = await supabase
+        .from("agent_auth")
+        .select("id, password_hash")
+        .eq("agent_id", caller.agent.agent_id)
+        .maybeSingle();
+      if (!authRow) throw notFound();
+
+      const check = await verifySecret(old_password, authRow.password_hash, legacyPasswordHashes);
+      if (!check.ok) throw new HttpError(401, "Current password is incorrect", "invalid_credentials");
+
+      await supabase.from("agent_auth").update({ password_hash: await hashSecret(new_password) }).eq("id", authRow.id);
+      // Sign out every other device that knew the old password.
+      await revokeAllSessions(supabase, "agent", caller.agent.agent_id, "password_changed", caller.agent.session_id);
+      return { success: true };
+    },
+  }),
+
+  // ---- Pennyekart portal ----
+  // The agent, their upline and their whole team, with each one's latest rank.
+  my_network: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const agentId = caller.agent.agent_id;
+      const all = await loadAgents(supabase);
+      const upline = uplineOf(agentId, new Map(all.map((a) => [a.id, a.parent_agent_id])));
+      const ids = [agentId, ...upline, ...teamOf(agentId, all)];
+
+      const { data: latest } = await supabase
+        .from("pennyekart_agent_rank_snapshots")
+        .select("snapshot_date")
+        .order("snapshot_date", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      const [agents, ranks] = await Promise.all([
+        selectByIds(ids, (chunk) =>
+          supabase.from("pennyekart_agents").select("*, panchayath:panchayaths(name)").in("id", chunk)
+        ),
+        latest
+          ? selectByIds(ids, (chunk) =>
+            supabase
+              .from("pennyekart_agent_rank_snapshots")
+              .select("*, rule:pennyekart_rank_rules(*)")
+              .eq("snapshot_date", latest.snapshot_date)
+              .in("agent_id", chunk)
+          )
+          : [],
+      ]);
+      return { success: true, upline_ids: upline, agents, ranks, snapshot_date: latest?.snapshot_date ?? null };
+    },
+  }),
+
+  my_wallet: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const { data, error } = await supabase
+        .from("agent_wallet_transactions")
+        .select("*")
+        .eq("agent_id", caller.agent.agent_id)
+        .order("transfer_date", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      const transactions = data || [];
+      const balance = transactions.reduce((sum, t) => sum + Number(t.amount), 0);
+      return { success: true, balance, transactions };
+    },
+  }),
+
+  // Active tasks for the agent's panchayaths, with the feedback recorded for them.
+  my_agent_tasks: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const { data: agent } = await supabase
+        .from("pennyekart_agents")
+        .select("panchayath_id, responsible_panchayath_ids")
+        .eq("id", caller.agent.agent_id)
+        .maybeSingle();
+      if (!agent) throw notFound();
+      const panchayathIds = [...new Set([agent.panchayath_id, ...(agent.responsible_panchayath_ids || [])])];
+      const [{ data: tasks, error }, { data: feedback }] = await Promise.all([
+        supabase
+          .from("pennyekart_agent_tasks")
+          .select("*, panchayath:panchayaths(name)")
+          .in("panchayath_id", panchayathIds)
+          .eq("is_active", true)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("pennyekart_agent_task_feedback")
+          .select("task_id, status, remarks, updated_at")
+          .eq("agent_id", caller.agent.agent_id),
+      ]);
+      if (error) throw error;
+      const byTask = new Map((feedback || []).map((f) => [f.task_id, f]));
+      return {
+        success: true,
+        tasks: (tasks || []).map((t) => ({ ...t, feedback: byTask.get(t.id) ?? null })),
+      };
+    },
+  }),
+
+  my_complaints: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const { data, error } = await supabase
+        .from("agent_complaints")
+        .select("id, complaint_text, status, admin_remarks, created_at, updated_at")
+        .eq("agent_id", caller.agent.agent_id)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return { success: true, complaints: data || [] };
+    },
+  }),
+
+  // ---- Leave ----
+  // The agent's own requests, and the pending ones from their team that they
+  // can decide.
+  my_leaves: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const [{ data, error }, team_pending] = await Promise.all([
+        supabase
+          .from("agent_leave_requests")
+          .select("*")
+          .eq("agent_id", caller.agent.agent_id)
+          .order("start_date", { ascending: false })
+          .limit(50),
+        pendingTeamLeaves(supabase, caller.agent.agent_id),
+      ]);
+      if (error) throw error;
+      return { success: true, leaves: data || [], team_pending };
+    },
+  }),
+
+  request_leave: action({
+    auth: "agent",
+    input: z.object({ start_date: isoDay, end_date: isoDay, reason: z.string().trim().max(500).default("") }),
+    handler: async (dates, { supabase, caller }) => {
+      const agentId = caller.agent.agent_id;
+      const leave = await leaveAction(() => createLeaveRequest(supabase, agentId, dates, "portal", snapshotDate()));
+      await notifyLeaveRequested(supabase, agentId, leave);
+      return { success: true, leave };
+    },
+  }),
+
+  cancel_leave: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      await leaveAction(() => cancelLeave(supabase, caller.agent.agent_id, id, snapshotDate()));
+      return { success: true };
+    },
+  }),
+
+  decide_leave: action({
+    auth: "agent",
+    input: z.object({ id, approve: z.boolean(), remarks: z.string().trim().max(500).nullish() }),
+    handler: async ({ id, approve, remarks }, { supabase, caller }) => {
+      const leave = await leaveAction(() => decideLeave(supabase, caller.agent.agent_id, id, approve, remarks || null));
+      await notifyLeaveDecided(supabase, leave);
+      return { success: true, leave };
+    },
+  }),
+
+  // ---- Projects ----
+  list_projects: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
       const { data, error } = await supabase
         .from("agent_projects")
         .select("*")
-        .eq("agent_id", auth.agent_id)
+        .eq("agent_id", caller.agent.agent_id)
         .order("created_at", { ascending: false });
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, projects: data || [] });
-    }
-
-    // ---- my_todos: all tasks across owned + member projects ----
-    if (action === "my_todos") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-
+      if (error) throw error;
+      return { success: true, projects: data || [] };
+    },
+  }),
+
+  // All tasks across owned + member projects
+  my_todos: action({
+    auth: "agent",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      const agent_id = caller.agent.agent_id;
       const [{ data: owned }, { data: memberships }] = await Promise.all([
-        supabase.from("agent_projects").select("id, project_name").eq("agent_id", auth.agent_id),
-        supabase.from("agent_project_members").select("project_id").eq("agent_id", auth.agent_id),
+        supabase.from("agent_projects").select("id, project_name").eq("agent_id", agent_id),
+        supabase.from("agent_project_members").select("project_id").eq("agent_id", agent_id),
       ]);
 
       const memberIds = (memberships || []).map((m: { project_id: string }) => m.project_id);
@@ -306,43 +764,35 @@ serve(async (req) => {
       const projectMap = new Map<string, string>();
       for (const p of [...(owned || []), ...memberProjects]) projectMap.set(p.id, p.project_name);
       const ids = Array.from(projectMap.keys());
-      if (!ids.length) return json({ success: true, todos: [] });
+      if (!ids.length) return { success: true, todos: [] };
 
       const { data: todos, error } = await supabase
         .from("agent_project_todos")
         .select("*")
         .in("project_id", ids)
         .order("created_at", { ascending: false });
-      if (error) return json({ error: error.message }, 500);
+      if (error) throw error;
 
-      return json({
+      return {
         success: true,
         todos: (todos || []).map((t: Record<string, unknown>) => ({
           ...t,
           project_name: projectMap.get(t.project_id as string) || "",
         })),
-      });
-    }
-
-
-    // ---- create_project ----
-    if (action === "create_project") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const p = body.project || {};
-      if (!p.project_name || !p.model || !p.entity || !p.budget_plan) {
-        return json({ error: "project_name, model, entity and budget_plan are required" }, 400);
-      }
-      if (!["individual", "partnership", "group"].includes(p.model)) return json({ error: "Invalid model" }, 400);
-      if (!["own_company", "elife_affiliated"].includes(p.entity)) return json({ error: "Invalid entity" }, 400);
+      };
+    },
+  }),
+
+  create_project: action({
+    auth: "agent",
+    input: z.object({ project: projectFields }),
+    handler: async ({ project: p }, { supabase, caller }) => {
       const shares = BUDGET_SHARES[p.budget_plan];
-      if (!shares) return json({ error: "Invalid budget_plan" }, 400);
-
       const { data, error } = await supabase
         .from("agent_projects")
         .insert({
-          agent_id: auth.agent_id,
-          project_name: String(p.project_name).slice(0, 200),
+          agent_id: caller.agent.agent_id,
+          project_name: p.project_name,
           plan_description: p.plan_description || null,
           model: p.model,
           entity: p.entity,
@@ -353,33 +803,23 @@ serve(async (req) => {
         })
         .select()
         .single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, project: data });
-    }
-
-    // ---- update_project ----
-    if (action === "update_project") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      const p = body.project || {};
-      if (!id) return json({ error: "id required" }, 400);
-
+      if (error) throw error;
+      return { success: true, project: data };
+    },
+  }),
+
+  update_project: action({
+    auth: "agent",
+    input: z.object({ id, project: projectFields.partial().default({}) }),
+    handler: async ({ id, project: p }, { supabase, caller }) => {
       const patch: Record<string, unknown> = {};
-      if (p.project_name !== undefined) patch.project_name = String(p.project_name).slice(0, 200);
+      if (p.project_name !== undefined) patch.project_name = p.project_name;
       if (p.plan_description !== undefined) patch.plan_description = p.plan_description || null;
       if (p.logo_url !== undefined) patch.logo_url = p.logo_url || null;
-      if (p.model !== undefined) {
-        if (!["individual", "partnership", "group"].includes(p.model)) return json({ error: "Invalid model" }, 400);
-        patch.model = p.model;
-      }
-      if (p.entity !== undefined) {
-        if (!["own_company", "elife_affiliated"].includes(p.entity)) return json({ error: "Invalid entity" }, 400);
-        patch.entity = p.entity;
-      }
+      if (p.model !== undefined) patch.model = p.model;
+      if (p.entity !== undefined) patch.entity = p.entity;
       if (p.budget_plan !== undefined) {
         const shares = BUDGET_SHARES[p.budget_plan];
-        if (!shares) return json({ error: "Invalid budget_plan" }, 400);
         patch.budget_plan = p.budget_plan;
         patch.own_share = shares.own;
         patch.elife_share = shares.elife;
@@ -389,54 +829,33 @@ serve(async (req) => {
         .from("agent_projects")
         .update(patch)
         .eq("id", id)
-        .eq("agent_id", auth.agent_id)
+        .eq("agent_id", caller.agent.agent_id)
         .select()
         .single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, project: data });
-    }
-
-    // ---- delete_project ----
-    if (action === "delete_project") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      if (!id) return json({ error: "id required" }, 400);
+      if (error) throw error;
+      return { success: true, project: data };
+    },
+  }),
+
+  delete_project: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
       const { error } = await supabase
         .from("agent_projects")
         .delete()
         .eq("id", id)
-        .eq("agent_id", auth.agent_id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-
-    // Helper: assert caller owns the project (or is a member)
-    const assertProjectAccess = async (project_id: string, agent_id: string) => {
-      const { data: proj } = await supabase
-        .from("agent_projects")
-        .select("id, agent_id, model")
-        .eq("id", project_id)
-        .maybeSingle();
-      if (!proj) return { error: json({ error: "Project not found" }, 404) };
-      if (proj.agent_id === agent_id) return { project: proj, isOwner: true as const };
-      const { data: mem } = await supabase
-        .from("agent_project_members")
-        .select("id")
-        .eq("project_id", project_id)
-        .eq("agent_id", agent_id)
-        .maybeSingle();
-      if (!mem) return { error: json({ error: "Forbidden" }, 403) };
-      return { project: proj, isOwner: false as const };
-    };
-
-    if (action === "get_project") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      if (!id) return json({ error: "id required" }, 400);
-      const acc = await assertProjectAccess(id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+        .eq("agent_id", caller.agent.agent_id);
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  get_project: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      const acc = await assertProjectAccess(supabase, id, caller.agent.agent_id);
 
       const [{ data: project }, { data: todos }, { data: notes }, { data: members }] = await Promise.all([
         supabase.from("agent_projects").select("*").eq("id", id).single(),
@@ -449,96 +868,90 @@ serve(async (req) => {
           .order("created_at", { ascending: true }),
       ]);
 
-      return json({ success: true, project, todos: todos || [], notes: notes || [], members: members || [], isOwner: acc.isOwner });
-    }
-
-    if (action === "add_todo") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const project_id: string = body.project_id;
-      const title: string = (body.title || "").toString().trim();
-      if (!project_id || !title) return json({ error: "project_id and title required" }, 400);
-      const acc = await assertProjectAccess(project_id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+      return { success: true, project, todos: todos || [], notes: notes || [], members: members || [], isOwner: acc.isOwner };
+    },
+  }),
+
+  add_todo: action({
+    auth: "agent",
+    input: z.object({
+      project_id: z.string({ required_error: "project_id and title required" }).min(1, "project_id and title required"),
+      title: z.string({ required_error: "project_id and title required" }).trim().min(1, "project_id and title required"),
+    }),
+    handler: async ({ project_id, title }, { supabase, caller }) => {
+      await assertProjectAccess(supabase, project_id, caller.agent.agent_id);
       const { data, error } = await supabase
         .from("agent_project_todos")
         .insert({ project_id, title: title.slice(0, 300) })
         .select()
         .single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, todo: data });
-    }
-
-    if (action === "toggle_todo") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      const is_done: boolean = !!body.is_done;
-      if (!id) return json({ error: "id required" }, 400);
-      const { data: todo } = await supabase.from("agent_project_todos").select("project_id").eq("id", id).maybeSingle();
-      if (!todo) return json({ error: "Not found" }, 404);
-      const acc = await assertProjectAccess(todo.project_id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+      if (error) throw error;
+      return { success: true, todo: data };
+    },
+  }),
+
+  toggle_todo: action({
+    auth: "agent",
+    input: z.object({ id, is_done: z.boolean().default(false) }),
+    handler: async ({ id, is_done }, { supabase, caller }) => {
+      await assertChildAccess(supabase, "agent_project_todos", id, caller.agent.agent_id);
       const { error } = await supabase.from("agent_project_todos").update({ is_done }).eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-
-    if (action === "delete_todo") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      if (!id) return json({ error: "id required" }, 400);
-      const { data: todo } = await supabase.from("agent_project_todos").select("project_id").eq("id", id).maybeSingle();
-      if (!todo) return json({ error: "Not found" }, 404);
-      const acc = await assertProjectAccess(todo.project_id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  delete_todo: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      await assertChildAccess(supabase, "agent_project_todos", id, caller.agent.agent_id);
       const { error } = await supabase.from("agent_project_todos").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-
-    if (action === "add_note") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const project_id: string = body.project_id;
-      const bodyText: string = (body.body || "").toString().trim();
-      const title: string | null = body.title ? String(body.title).slice(0, 200) : null;
-      if (!project_id || !bodyText) return json({ error: "project_id and body required" }, 400);
-      const acc = await assertProjectAccess(project_id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  add_note: action({
+    auth: "agent",
+    input: z.object({
+      project_id: z.string({ required_error: "project_id and body required" }).min(1, "project_id and body required"),
+      body: z.string({ required_error: "project_id and body required" }).trim().min(1, "project_id and body required"),
+      title: z.string().nullish(),
+    }),
+    handler: async ({ project_id, body, title }, { supabase, caller }) => {
+      await assertProjectAccess(supabase, project_id, caller.agent.agent_id);
       const { data, error } = await supabase
         .from("agent_project_notes")
-        .insert({ project_id, title, body: bodyText })
+        .insert({ project_id, title: title ? title.slice(0, 200) : null, body })
         .select()
         .single();
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true, note: data });
-    }
-
-    if (action === "delete_note") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      if (!id) return json({ error: "id required" }, 400);
-      const { data: n } = await supabase.from("agent_project_notes").select("project_id").eq("id", id).maybeSingle();
-      if (!n) return json({ error: "Not found" }, 404);
-      const acc = await assertProjectAccess(n.project_id, auth.agent_id);
-      if ("error" in acc) return acc.error;
+      if (error) throw error;
+      return { success: true, note: data };
+    },
+  }),
+
+  delete_note: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
+      await assertChildAccess(supabase, "agent_project_notes", id, caller.agent.agent_id);
       const { error } = await supabase.from("agent_project_notes").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-
-    if (action === "search_registered_agents") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const q: string = (body.q || "").toString().trim();
-      if (q.length < 2) return json({ success: true, agents: [] });
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+
+  // ---- Project members ----
+  search_registered_agents: action({
+    auth: "agent",
+    input: z.object({ q: z.string().trim().default("") }),
+    handler: async ({ q }, { supabase, caller }) => {
+      if (q.length < 2) return { success: true, agents: [] };
 
       const { data: authRows } = await supabase.from("agent_auth").select("agent_id").limit(1000);
       const registeredIds = (authRows || []).map((r) => r.agent_id);
-      if (registeredIds.length === 0) return json({ success: true, agents: [] });
+      if (registeredIds.length === 0) return { success: true, agents: [] };
 
       const { data: agents } = await supabase
         .from("pennyekart_agents")
@@ -546,35 +959,36 @@ serve(async (req) => {
         .in("id", registeredIds)
         .or(`name.ilike.%${q}%,mobile.ilike.%${q}%`)
         .limit(20);
-      return json({ success: true, agents: (agents || []).filter((a) => a.id !== auth.agent_id) });
-    }
-
-    if (action === "add_member") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const project_id: string = body.project_id;
-      const agent_id: string = body.agent_id;
-      if (!project_id || !agent_id) return json({ error: "project_id and agent_id required" }, 400);
-
+      return { success: true, agents: (agents || []).filter((a) => a.id !== caller.agent.agent_id) };
+    },
+  }),
+
+  add_member: action({
+    auth: "agent",
+    input: z.object({
+      project_id: z.string({ required_error: "project_id and agent_id required" }).min(1, "project_id and agent_id required"),
+      agent_id: z.string({ required_error: "project_id and agent_id required" }).min(1, "project_id and agent_id required"),
+    }),
+    handler: async ({ project_id, agent_id }, { supabase, caller }) => {
       const { data: proj } = await supabase
         .from("agent_projects")
         .select("id, agent_id, model")
         .eq("id", project_id)
         .maybeSingle();
-      if (!proj) return json({ error: "Project not found" }, 404);
-      if (proj.agent_id !== auth.agent_id) return json({ error: "Only the project owner can add members" }, 403);
-      if (proj.model === "individual") return json({ error: "Individual projects cannot have partners" }, 400);
-      if (agent_id === proj.agent_id) return json({ error: "You are already the owner" }, 400);
+      if (!proj) throw notFound("Project not found");
+      if (proj.agent_id !== caller.agent.agent_id) throw forbidden("Only the project owner can add members");
+      if (proj.model === "individual") throw badRequest("Individual projects cannot have partners");
+      if (agent_id === proj.agent_id) throw badRequest("You are already the owner");
 
       const { data: authRow } = await supabase.from("agent_auth").select("id").eq("agent_id", agent_id).maybeSingle();
-      if (!authRow) return json({ error: "Selected user is not a registered Samrambhaka user" }, 400);
+      if (!authRow) throw badRequest("Selected user is not a registered Samrambhaka user");
 
       if (proj.model === "partnership") {
         const { count } = await supabase
           .from("agent_project_members")
           .select("id", { count: "exact", head: true })
           .eq("project_id", project_id);
-        if ((count || 0) >= 3) return json({ error: "Partnership projects allow max 4 members (owner + 3 partners)" }, 400);
+        if ((count || 0) >= 3) throw badRequest("Partnership projects allow max 4 members (owner + 3 partners)");
       }
 
       const { data, error } = await supabase
@@ -583,33 +997,30 @@ serve(async (req) => {
         .select("id, agent_id, created_at, pennyekart_agents(id, name, mobile, role)")
         .single();
       if (error) {
-        if (String(error.message).toLowerCase().includes("duplicate")) return json({ error: "Already a member" }, 400);
-        return json({ error: error.message }, 500);
+        if (String(error.message).toLowerCase().includes("duplicate")) throw badRequest("Already a member");
+        throw error;
       }
-      return json({ success: true, member: data });
-    }
-
-    if (action === "remove_member") {
-      const auth = await requireAuth();
-      if ("error" in auth) return auth.error;
-      const id: string = body.id;
-      if (!id) return json({ error: "id required" }, 400);
+      return { success: true, member: data };
+    },
+  }),
+
+  remove_member: action({
+    auth: "agent",
+    input: z.object({ id }),
+    handler: async ({ id }, { supabase, caller }) => {
       const { data: mem } = await supabase
         .from("agent_project_members")
         .select("id, project_id")
         .eq("id", id)
         .maybeSingle();
-      if (!mem) return json({ error: "Not found" }, 404);
+      if (!mem) throw notFound();
       const { data: proj } = await supabase.from("agent_projects").select("agent_id").eq("id", mem.project_id).maybeSingle();
-      if (!proj || proj.agent_id !== auth.agent_id) return json({ error: "Only the project owner can remove members" }, 403);
+      if (!proj || proj.agent_id !== caller.agent.agent_id) throw forbidden("Only the project owner can remove members");
       const { error } = await supabase.from("agent_project_members").delete().eq("id", id);
-      if (error) return json({ error: error.message }, 500);
-      return json({ success: true });
-    }
-
-    return json({ error: "Invalid action" }, 400);
-  } catch (e) {
-    console.error("samrabhaka-auth error:", e);
-    return json({ error: e instanceof Error ? e.message : "Server error" }, 500);
-  }
-});
\ No newline at end of file
+      if (error) throw error;
+      return { success: true };
+    },
+  }),
+});
+
+Deno.serve((req) => router.handle(req));
@@ -0,0 +1,174 @@
+// Edge function: WhatsApp broadcasts to agents (see _shared/broadcasts.ts).
+//
+// pg_cron calls `run` every minute with the secret from
+// whatsapp_broadcast_secrets; each run starts the broadcasts that are due and
+// sends the next batch from the queue. Super admins compose, schedule and
+// follow broadcasts from the WhatsApp broadcasts page.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { action, createRouter, forbidden, notFound, z } from "../_shared/router.ts";
+import { constantTimeEqualText } from "../_shared/password.ts";
+import { snapshotDate } from "../_shared/rankEngine.ts";
+import {
+  BROADCAST_ROLES,
+  cancelBroadcast,
+  type RecipientStatus,
+  resolveAudience,
+  runBroadcastQueue,
+} from "../_shared/broadcasts.ts";
+
+const HISTORY_LIMIT = 50;
+const PREVIEW_SAMPLE = 20;
+const PAGE_SIZE = 1000;
+// Twilio rejects WhatsApp bodies over 1600 characters; placeholders can grow the text
+const MAX_MESSAGE = 1400;
+
+const filters = z.object({
+  roles: z.array(z.enum(BROADCAST_ROLES)).default([]),
+  panchayath_ids: z.array(z.string().uuid()).default([]),
+  wards: z.array(z.string().trim().min(1)).default([]),
+  rank: z.enum(["any", "full", "not_full"]).default("any"),
+  absent_today: z.boolean().default(false),
+});
+
+/** Recipients of each broadcast by status. */
+async function recipientCounts(supabase: SupabaseClient, ids: string[]) {
+  const counts = new Map<string, Partial<Record<RecipientStatus, number>>>();
+  if (ids.length === 0) return counts;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("whatsapp_broadcast_recipients")
+      .select("broadcast_id, status")
+      .in("broadcast_id", ids)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      const byStatus = counts.get(row.broadcast_id) || {};
+      const status = row.status as RecipientStatus;
+      byStatus[status] = (byStatus[status] || 0) + 1;
+      counts.set(row.broadcast_id, byStatus);
+    }
+    if (!data || data.length < PAGE_SIZE) return counts;
+  }
+}
+
+const router = createRouter("whatsapp-broadcasts", {
+  // Called by the scheduler every minute.
+  run: action({
+    auth: "public",
+    input: z.object({}),
+    handler: async (_input, { supabase, req }) => {
+      const presented = req.headers.get("x-broadcast-secret") || "";
+      const { data: secret } = await supabase.from("whatsapp_broadcast_secrets").select("secret").single();
+      if (!secret || !constantTimeEqualText(presented, secret.secret)) throw forbidden("Invalid scheduler secret");
+
+      const now = new Date();
+      return { success: true, ...(await runBroadcastQueue(supabase, now, snapshotDate(now))) };
+    },
+  }),
+
+  // Who a broadcast with these filters would reach if it went out now.
+  preview_audience: action({
+    auth: "admin",
+    input: z.object({ filters }),
+    handler: async (input, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send broadcasts");
+      const audience = await resolveAudience(supabase, input.filters, snapshotDate());
+      return {
+        success: true,
+        count: audience.length,
+        sample: audience.slice(0, PREVIEW_SAMPLE).map((a) => ({ id: a.id, name: a.name, role: a.role, ward: a.ward })),
+      };
+    },
+  }),
+
+  // Recent broadcasts, newest first, with their recipients by status.
+  list: action({
+    auth: "admin",
+    input: z.object({}),
+    handler: async (_input, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send broadcasts");
+      const { data, error } = await supabase
+        .from("whatsapp_broadcasts")
+        .select("*")
+        .order("scheduled_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+      if (error) throw error;
+
+      const counts = await recipientCounts(supabase, (data || []).map((b) => b.id));
+      return {
+        success: true,
+        broadcasts: (data || []).map((b) => ({ ...b, counts: counts.get(b.id) || {} })),
+      };
+    },
+  }),
+
+  // Schedules a broadcast; without scheduled_at it goes out on the next run.
+  create: action({
+    auth: "admin",
+    input: z.object({
+      title: z.string().trim().min(1, "Title required").max(120),
+      message: z.string().trim().min(1, "Message required").max(MAX_MESSAGE, `Keep the message under ${MAX_MESSAGE} characters`),
+      filters,
+      scheduled_at: z.string().datetime({ offset: true }).nullable().default(null),
+    }),
+    handler: async (input, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send broadcasts");
+      const { data, error } = await supabase
+        .from("whatsapp_broadcasts")
+        .insert({
+          title: input.title,
+          message: input.message,
+          filters: input.filters,
+          scheduled_at: input.scheduled_at || new Date().toISOString(),
+          created_by: caller.admin.admin_id,
+        })
+        .select("*")
+        .single();
+      if (error) throw error;
+      return { success: true, broadcast: data };
+    },
+  }),
+
+  // Stops a broadcast that has not finished; messages already sent stay sent.
+  cancel: action({
+    auth: "admin",
+    input: z.object({ id: z.string().uuid() }),
+    handler: async ({ id }, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send broadcasts");
+      if (!(await cancelBroadcast(supabase, id, new Date()))) {
+        throw notFound("No scheduled or sending broadcast with that id");
+      }
+      return { success: true };
+    },
+  }),
+
+  // A broadcast and each of its recipients' delivery status.
+  details: action({
+    auth: "admin",
+    input: z.object({ id: z.string().uuid() }),
+    handler: async ({ id }, { supabase, caller }) => {
+      if (!caller.admin.isSuperAdmin) throw forbidden("Only super admins can send broadcasts");
+      const { data: broadcast, error } = await supabase.from("whatsapp_broadcasts").select("*").eq("id", id).maybeSingle();
+      if (error) throw error;
+      if (!broadcast) throw notFound("Broadcast not found");
+
+      const recipients: unknown[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error: recipientError } = await supabase
+          .from("whatsapp_broadcast_recipients")
+          .select("id, agent_id, name, mobile, status, attempts, error, sent_at, delivered_at, read_at")
+          .eq("broadcast_id", id)
+          .order("name")
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (recipientError) throw recipientError;
+        recipients.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return { success: true, broadcast, recipients };
+    },
+  }),
+});
+
+Deno.serve((req) => router.handle(req));
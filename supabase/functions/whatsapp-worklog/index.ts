@@ -1,4 +1,34 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { AuditTrail } from "../_shared/audit.ts";
+import {
+  formatMetricValues,
+  loadWorkMetrics,
+  metricsForRole,
+  parseWorkMetrics,
+  type WorkMetric,
+} from "../_shared/workMetrics.ts";
+import { globalOffReason, loadWorkCalendar, offReason } from "../_shared/workCalendar.ts";
+import {
+  createLeaveRequest,
+  decideLeave,
+  formatLeaveDates,
+  LeaveError,
+  notifyLeaveDecided,
+  notifyLeaveRequested,
+  parseLeaveText,
+  pendingTeamLeaves,
+} from "../_shared/leaveRequests.ts";
+import { describeEvidence, hasEvidence, readInboundEvidence, saveEvidence } from "../_shared/workLogMedia.ts";
+import {
+  type InboundMessage,
+  type OutboundReply,
+  whatsAppProvider,
+  WhatsAppWebhookError,
+} from "../_shared/whatsapp.ts";
+import { type BotFlow, type FlowWords, menuChoice, notAChoice, resumeFlow, startFlow } from "../_shared/botSessions.ts";
+import { botMessages, localName, type MessageCatalog, parseLanguage } from "../_shared/botMessages.ts";
+import { commandAllowed, loadTemplateValues, renderTemplate, templatePlaceholders } from "../_shared/botTemplates.ts";
+import { recordDeliveryStatuses } from "../_shared/broadcasts.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,76 +36,47 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-const CORE_HELP = `📋 *PennyeKart Agent Commands*
-
-1️⃣ <your work details>
-  Submit your daily work log.
-  Example: _1 Visited 5 shops in Ward 3, collected 2 orders_
-
-2️⃣
-  View your reporting person details.
-
-3️⃣ ?
-  Check your complaint status & admin remarks.
-
-3️⃣ <your complaint>
-  Register a new complaint.
-  Example: _3 Delivery not received for order #123_
-
-4️⃣
-  Check your wallet balance.
-
-5️⃣
-  Today's work log absence report (all agents).
-
-6️⃣
-  Coordinator absence report (by panchayath).
-
-7️⃣
-  Group Leader absence report (by panchayath).
-
-8️⃣
-  Show this help message.`;
-
-function buildHelpText(customCommands: Array<{ keyword: string; label: string }>) {
-  let help = CORE_HELP;
+function buildHelpText(m: MessageCatalog, customCommands: Array<{ keyword: string; label: string }>) {
+  let help = m.helpCore;
   for (const cmd of customCommands) {
     help += `\n\n${cmd.keyword}️⃣\n  ${cmd.label}`;
   }
-  help += `\n\n💡 *Tips:*
-• Send *1* followed by your work to log it.
-• You can send multiple reports in a day — they will be appended.
-• Your work logs are tracked daily by your team leader.`;
+  help += `\n\n${m.helpTips}`;
   return help;
 }
 
-function escapeXml(s: string): string {
-  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+function roleLabel(m: MessageCatalog, role: string) {
+  return m.roles[role] || role;
 }
 
-function twiml(msg: string) {
-  return new Response(
-    `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(msg)}</Message></Response>`,
-    { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } }
-  );
+// Appended to a work-log reply: today's metric totals, and a prompt for the
+// metrics the agent has not reported yet.
+function metricsSummary(m: MessageCatalog, values: Record<string, number>, metrics: WorkMetric[], unknown: string[]) {
+  if (metrics.length === 0) return "";
+  let msg = "";
+  const totals = formatMetricValues(values, metrics);
+  if (totals) msg += `\n\n${m.metricsToday(totals)}`;
+  if (unknown.length > 0) msg += `\n${m.metricsNotCounted([...new Set(unknown)].join(", "))}`;
+  const missing = metrics.filter((metric) => values[metric.key] === undefined);
+  if (missing.length > 0) {
+    msg += `\n\n${m.metricsMissing(missing.map((metric) => metric.label).join(", "))}`;
+    msg += `\n${m.metricsExample(missing.map((metric) => `${metric.key}:0`).join(" "))}`;
+  }
+  return msg;
 }
 
-const roleLabels: Record<string, string> = {
-  team_leader: "Team Leader",
-  coordinator: "Coordinator",
-  group_leader: "Group Leader",
-  pro: "PRO",
-};
-
+// In the language of the agent who asked; panchayath names too.
 async function buildAbsenceReport(
-  supabase: ReturnType<typeof createClient>,
+  supabase: SupabaseClient,
+  language: string,
   today: string,
   roleFilter?: string,
   panchayathId?: string,
 ) {
+  const m = botMessages(language);
   let agentQuery = supabase
     .from("pennyekart_agents")
-    .select("id, name, mobile, role, panchayath_id, ward, panchayath:panchayaths(name)")
+    .select("id, name, mobile, role, panchayath_id, ward, panchayath:panchayaths(name, name_ml)")
     .eq("is_active", true);
 
   if (roleFilter) {
@@ -87,7 +88,7 @@ async function buildAbsenceReport(
 
   const { data: agents, error: agentErr } = await agentQuery;
   if (agentErr) throw agentErr;
-  if (!agents || agents.length === 0) return "No agents found for this filter.";
+  if (!agents || agents.length === 0) return m.reportNoAgents;
 
   // Get today's logs for these agents
   const agentIds = agents.map((a: any) => a.id);
@@ -97,53 +98,260 @@ async function buildAbsenceReport(
     .eq("work_date", today)
     .in("agent_id", agentIds);
 
+  // Agents on leave or a holiday are not absent, unless they logged work anyway
+  const calendar = await loadWorkCalendar(supabase, today, today);
   const submittedIds = new Set((logs || []).map((l: any) => l.agent_id));
-  const absent = agents.filter((a: any) => !submittedIds.has(a.id));
-  const submitted = agents.filter((a: any) => submittedIds.has(a.id));
+  const expected = agents.filter((a: { id: string; panchayath_id: string }) => submittedIds.has(a.id) || !offReason(calendar, a, today));
+  const absent = expected.filter((a: any) => !submittedIds.has(a.id));
+  const submitted = expected.filter((a: any) => submittedIds.has(a.id));
+  const offCount = agents.length - expected.length;
+  const closedFor = globalOffReason(calendar, today);
 
-  const total = agents.length;
+  const total = expected.length;
   const submittedCount = submitted.length;
   const absentCount = absent.length;
   const rate = total > 0 ? Math.round((submittedCount / total) * 100) : 0;
 
-  let msg = `📊 *Work Log Report — ${today}*\n`;
-  if (roleFilter) msg += `🏷️ Role: ${roleLabels[roleFilter] || roleFilter}\n`;
+  let msg = m.reportTitle(today);
+  if (roleFilter) msg += m.reportRole(roleLabel(m, roleFilter));
 
-  const panchName = panchayathId && agents[0]?.panchayath?.name;
-  if (panchName) msg += `📍 Panchayath: ${panchName}\n`;
+  const panchayath = panchayathId && agents[0]?.panchayath;
+  if (panchayath) msg += m.reportPanchayath(localName(language, panchayath));
 
-  msg += `\n✅ Submitted: ${submittedCount}/${total} (${rate}%)\n❌ Absent: ${absentCount}\n`;
+  msg += m.reportCounts(submittedCount, total, rate, absentCount);
+  if (closedFor) msg += m.reportClosed(closedFor);
+  else if (offCount > 0) msg += m.reportOff(offCount);
 
   const MAX_ABSENT_SHOW = 15;
   if (absentCount > 0) {
-    msg += `\n❌ *Absent:*`;
+    msg += m.reportAbsentTitle;
     const showAbsent = absent.slice(0, MAX_ABSENT_SHOW);
     for (const a of showAbsent) {
       msg += `\n• ${a.name} — ${a.mobile}`;
     }
     if (absentCount > MAX_ABSENT_SHOW) {
-      msg += `\n...+${absentCount - MAX_ABSENT_SHOW} more`;
+      msg += m.reportMore(absentCount - MAX_ABSENT_SHOW);
     }
   }
 
   return msg;
 }
 
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
+type ReportPanchayath = { id: string; name: string; name_ml: string | null };
+
+// Panchayaths that have active agents of a given role, for reports 6 and 7
+async function panchayathsWithRole(supabase: SupabaseClient, role: string): Promise<ReportPanchayath[]> {
+  const { data: agents } = await supabase
+    .from("pennyekart_agents")
+    .select("panchayath_id")
+    .eq("role", role)
+    .eq("is_active", true);
+  if (!agents || agents.length === 0) return [];
+  const uniqueIds = [...new Set(agents.map((a: any) => a.panchayath_id))];
+  const { data: panchayaths } = await supabase
+    .from("panchayaths")
+    .select("id, name, name_ml")
+    .in("id", uniqueIds)
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+  return panchayaths || [];
+}
+
+interface BotAgent {
+  id: string;
+  name: string;
+  mobile: string;
+  role: string;
+  ward: string;
+  panchayath_id: string;
+  parent_agent_id: string | null;
+  language: string;
+}
+
+// Saves "1 <details>" as today's log, or adds it to or replaces the one
+// already there. Returns the reply.
+async function saveWorkLog(
+  supabase: SupabaseClient,
+  agent: BotAgent,
+  today: string,
+  workDetails: string,
+  mode: "append" | "replace",
+) {
+  const m = botMessages(agent.language);
+  const allMetrics = await loadWorkMetrics(supabase).catch((err) => {
+    console.error("Work metrics load error:", err);
+    return [] as WorkMetric[];
+  });
+  const metrics = metricsForRole(allMetrics, agent.role);
+  const { unknown } = parseWorkMetrics(workDetails, metrics);
+
+  const { data: existingLog } = await supabase
+    .from("agent_work_logs")
+    .select("id, work_details")
+    .eq("agent_id", agent.id)
+    .eq("work_date", today)
+    .maybeSingle();
+
+  if (existingLog) {
+    const updatedDetails = mode === "append" ? `${existingLog.work_details}\n${workDetails}` : workDetails;
+    const { values } = parseWorkMetrics(updatedDetails, metrics);
+    const { error } = await supabase
+      .from("agent_work_logs")
+      .update({ work_details: updatedDetails, metrics: values })
+      .eq("id", existingLog.id);
+
+    if (error) {
+      return m.workLogUpdateFailed;
+    }
+
+    return m.workLogUpdated(agent.name, today, updatedDetails, mode === "replace") + metricsSummary(m, values, metrics, unknown);
   }
 
+  const { values } = parseWorkMetrics(workDetails, metrics);
+  const { error } = await supabase
+    .from("agent_work_logs")
+    .insert({
+      agent_id: agent.id,
+      work_details: workDetails,
+      work_date: today,
+      metrics: values,
+    });
+
+  if (error) {
+    return m.workLogSaveFailed;
+  }
+
+  return m.workLogSaved(agent.name, today, workDetails) + metricsSummary(m, values, metrics, unknown);
+}
+
+async function submitComplaint(supabase: SupabaseClient, agent: BotAgent, complaintText: string) {
+  const m = botMessages(agent.language);
+  const { error } = await supabase
+    .from("agent_complaints")
+    .insert({
+      agent_id: agent.id,
+      complaint_text: complaintText,
+    });
+
+  if (error) {
+    console.error("Complaint insert error:", error);
+    return m.complaintFailed;
+  }
+
+  return m.complaintRegistered(agent.name, complaintText);
+}
+
+// --- CONVERSATIONS ---
+// Commands that need a follow-up answer start one of these flows; the agent's
+// next message goes to the flow's current step (see _shared/botSessions.ts).
+
+interface BotContext {
+  supabase: SupabaseClient;
+  agent: BotAgent;
+  today: string;
+  m: MessageCatalog;
+  words: FlowWords;
+}
+
+type WorkLogFlowData = { details: string };
+type ComplaintFlowData = { text: string };
+type ReportFlowData = { role?: string; panchayaths?: ReportPanchayath[] };
+
+// "1 <details>" when today's log exists: add to it, or replace it?
+const workLogFlow: BotFlow<BotContext, WorkLogFlowData> = {
+  name: "worklog",
+  timeoutMinutes: 10,
+  first: "mode",
+  steps: {
+    mode: {
+      async prompt({ supabase, agent, today, m }, { details }) {
+        const { data: log } = await supabase
+          .from("agent_work_logs")
+          .select("work_details")
+          .eq("agent_id", agent.id)
+          .eq("work_date", today)
+          .maybeSingle();
+        // The first report of the day needs no question
+        if (!log) return { done: await saveWorkLog(supabase, agent, today, details, "append") };
+        return { text: m.workLogAddOrReplace(log.work_details, details) };
+      },
+      async reply(input, { supabase, agent, today, m }, { details }) {
+        const choice = menuChoice(input, 2);
+        if (!choice) return notAChoice(input, m.flowWords.invalidChoice);
+        return { done: await saveWorkLog(supabase, agent, today, details, choice === 1 ? "append" : "replace") };
+      },
+    },
+  },
+};
+
+// "3 <complaint>": confirm before it is registered
+const complaintFlow: BotFlow<BotContext, ComplaintFlowData> = {
+  name: "complaint",
+  timeoutMinutes: 10,
+  first: "confirm",
+  steps: {
+    confirm: {
+      prompt: ({ m }, { text }) => ({ text: m.complaintConfirm(text) }),
+      async reply(input, { supabase, agent, m }, { text }) {
+        if (!menuChoice(input, 1)) return notAChoice(input, m.flowWords.invalidChoice);
+        return { done: await submitComplaint(supabase, agent, text) };
+      },
+    },
+  },
+};
+
+const REPORT_ROLES = ["coordinator", "group_leader"];
+
+// "reports": pick a report, then a panchayath. "6" and "7" start at the
+// panchayath step with the role chosen.
+const reportFlow: BotFlow<BotContext, ReportFlowData> = {
+  name: "reports",
+  timeoutMinutes: 10,
+  first: "report",
+  steps: {
+    report: {
+      prompt: ({ m }) => ({ text: m.reportMenu }),
+      async reply(input, { supabase, agent, today, m }) {
+        const choice = menuChoice(input, 1 + REPORT_ROLES.length);
+        if (!choice) return notAChoice(input, m.flowWords.invalidChoice);
+        if (choice === 1) return { done: await buildAbsenceReport(supabase, agent.language, today) };
+        return { next: "panchayath", data: { role: REPORT_ROLES[choice - 2] } };
+      },
+    },
+    panchayath: {
+      async prompt({ supabase, agent, m }, { role }) {
+        const label = roleLabel(m, role!);
+        const panchayaths = await panchayathsWithRole(supabase, role!);
+        if (panchayaths.length === 0) return { done: m.reportNoPanchayaths(label) };
+        let text = m.reportPickPanchayath(label);
+        panchayaths.forEach((p, i) => {
+          text += `\n${i + 1}. ${localName(agent.language, p)}`;
+        });
+        return { text, data: { panchayaths } };
+      },
+      async reply(input, { supabase, agent, today, m }, { role, panchayaths = [] }) {
+        const choice = menuChoice(input, panchayaths.length);
+        if (!choice) return notAChoice(input, m.flowWords.invalidChoice);
+        return { done: await buildAbsenceReport(supabase, agent.language, today, role, panchayaths[choice - 1].id) };
+      },
+    },
+  },
+};
+
+const BOT_FLOWS: BotFlow<BotContext>[] = [workLogFlow, complaintFlow, reportFlow];
+
+// Answers one message from an agent (or anyone else) with the reply to send.
+async function handleMessage(message: InboundMessage): Promise<string> {
+  let m = botMessages("en");
   try {
-    const formData = await req.formData();
-    const from = formData.get("From") as string;
-    const body = (formData.get("Body") as string)?.trim();
+    const { from, body } = message;
+    const evidence = readInboundEvidence(message);
 
-    if (!from || !body) {
-      return twiml("Missing message content.");
+    if (!from || (!body && !hasEvidence(evidence))) {
+      return "Missing message content.";
     }
 
-    const phoneRaw = from.replace("whatsapp:", "").trim();
+    const phoneRaw = from.trim();
     const last10 = phoneRaw.replace(/\D/g, "").slice(-10);
     const command = body.trim();
 
@@ -151,26 +359,20 @@ Deno.serve(async (req) => {
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const audit = new AuditTrail("whatsapp-worklog");
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, audit.clientOptions);
 
     // Fetch custom commands for help & matching
     const { data: customCommands } = await supabase
       .from("whatsapp_bot_commands")
-      .select("keyword, alt_keyword, label, response_text")
+      .select("keyword, alt_keyword, label, response_text, allowed_roles")
       .eq("is_active", true)
       .order("sort_order", { ascending: true });
 
-    const activeCustom = customCommands || [];
-
-    // Handle help before agent lookup
-    if (command === "8" || command.toLowerCase() === "help" || command.toLowerCase() === "hi" || command.toLowerCase() === "hello") {
-      return twiml(buildHelpText(activeCustom));
-    }
-
     // Find agent
     let { data: agent } = await supabase
       .from("pennyekart_agents")
-      .select("id, name, mobile, role, parent_agent_id")
+      .select("id, name, mobile, role, ward, panchayath_id, parent_agent_id, language")
       .eq("mobile", last10)
       .eq("is_active", true)
       .maybeSingle();
@@ -178,19 +380,134 @@ Deno.serve(async (req) => {
     if (!agent) {
       const { data: agent2 } = await supabase
         .from("pennyekart_agents")
-        .select("id, name, mobile, role, parent_agent_id")
+        .select("id, name, mobile, role, ward, panchayath_id, parent_agent_id, language")
         .eq("mobile", phoneRaw)
         .eq("is_active", true)
         .maybeSingle();
       agent = agent2;
     }
 
+    // Replies are in the agent's language; English for other numbers
+    m = botMessages(agent?.language);
+
+    // Custom commands limited to some roles are hidden from everyone else
+    const activeCustom = (customCommands || []).filter((cc) => commandAllowed(cc, agent?.role));
+
+    // Help works for any number
+    if (command === "8" || command.toLowerCase() === "help" || command.toLowerCase() === "hi" || command.toLowerCase() === "hello") {
+      return buildHelpText(m, activeCustom);
+    }
+
+    // Absence digest opt-out works for any number, so admins can use it too
+    const digestMatch = command.toLowerCase().match(/^digest\s+(on|off)$/);
+    if (digestMatch) {
+      if (last10.length !== 10) return m.digestNoMobile;
+      const { error } = digestMatch[1] === "off"
+        ? await supabase
+          .from("absence_digest_opt_outs")
+          .upsert({ mobile: last10, opted_out_by: "whatsapp" }, { onConflict: "mobile" })
+        : await supabase.from("absence_digest_opt_outs").delete().eq("mobile", last10);
+      if (error) {
+        console.error("Digest opt-out error:", error);
+        return m.digestFailed;
+      }
+      return digestMatch[1] === "off" ? m.digestOff : m.digestOn;
+    }
+
     if (!agent) {
-      return twiml(`❌ Your number is not registered as an agent. Please contact your team leader.\n\nType *3* for help.`);
+      return m.notRegistered;
     }
+    audit.setActor({ type: "agent", id: agent.id });
 
     const today = new Date().toISOString().split("T")[0];
 
+    // --- COMMAND: lang en|ml = reply language ---
+    const langMatch = command.match(/^(?:lang|language)(?:\s+(.+))?$/i);
+    if (langMatch) {
+      const language = parseLanguage(langMatch[1] || "");
+      if (!language) return m.languageUsage;
+      const { error } = await supabase.from("pennyekart_agents").update({ language }).eq("id", agent.id);
+      if (error) {
+        console.error("Language update error:", error);
+        return m.languageFailed;
+      }
+      return botMessages(language).languageSet;
+    }
+
+    // --- PHOTOS / LOCATION = evidence for today's work log ---
+    // Text sent with them is the caption; "1 <details>" also adds to the log,
+    // like command 1. Without a log yet, one is started for the day.
+    if (hasEvidence(evidence)) {
+      if (evidence.photos.length === 0 && !evidence.location) {
+        return m.evidenceOnlyPhotos;
+      }
+      try {
+        const logText = body.match(/^1\s+(.+)/is)?.[1].trim() || "";
+        const allMetrics = await loadWorkMetrics(supabase).catch((err) => {
+          console.error("Work metrics load error:", err);
+          return [] as WorkMetric[];
+        });
+        const metrics = metricsForRole(allMetrics, agent.role);
+
+        const { data: existingLog, error: logError } = await supabase
+          .from("agent_work_logs")
+          .select("id, work_details")
+          .eq("agent_id", agent.id)
+          .eq("work_date", today)
+          .maybeSingle();
+        if (logError) throw logError;
+
+        let logId = existingLog?.id as string | undefined;
+        if (existingLog && logText) {
+          const updatedDetails = `${existingLog.work_details}\n${logText}`;
+          const { error } = await supabase
+            .from("agent_work_logs")
+            .update({ work_details: updatedDetails, metrics: parseWorkMetrics(updatedDetails, metrics).values })
+            .eq("id", existingLog.id);
+          if (error) throw error;
+        } else if (!existingLog) {
+          const details = logText || `Shared ${describeEvidence(evidence.photos.length, !!evidence.location)}`;
+          const { data: created, error } = await supabase
+            .from("agent_work_logs")
+            .insert({
+              agent_id: agent.id,
+              work_details: details,
+              work_date: today,
+              metrics: parseWorkMetrics(details, metrics).values,
+            })
+            .select("id")
+            .single();
+          if (error) throw error;
+          logId = created.id;
+        }
+
+        const saved = await saveEvidence(supabase, agent.id, logId!, today, evidence, logText || body);
+        if (saved.duplicate) return m.evidenceDuplicate;
+        let msg = saved.photos > 0 || saved.location
+          ? m.evidenceAdded(m.evidence(saved.photos, saved.location), agent.name, today)
+          : m.evidenceNoneSaved(agent.name);
+        if (logText) msg += `\n📝 ${logText}`;
+        if (saved.skipped > 0) {
+          msg += `\n\n${m.evidenceSkipped(saved.skipped)}`;
+        }
+        return msg;
+      } catch (err) {
+        console.error("Work log evidence error:", err);
+        return m.evidenceFailed;
+      }
+    }
+
+    // --- CONVERSATION IN PROGRESS ---
+    // A reply to a menu or question goes to its flow; anything the flow does
+    // not take ends it and is handled as a command below.
+    const ctx: BotContext = { supabase, agent, today, m, words: m.flowWords };
+    const resumed = await resumeFlow(supabase, last10, BOT_FLOWS, command, ctx);
+    if (resumed && "reply" in resumed) return resumed.reply;
+    // A number sent just after a menu lapsed was most likely meant for it
+    if (resumed && /^\d+$/.test(command)) {
+      return m.menuTimedOut;
+    }
+
     // --- COMMAND: 2 = reporting person details ---
     if (command === "2" || command.toLowerCase() === "status") {
       const hierarchy: Array<{ name: string; mobile: string; role: string }> = [];
@@ -212,15 +529,15 @@ Deno.serve(async (req) => {
       }
 
       if (hierarchy.length === 0) {
-        return twiml(`👤 *${agent.name}* (${roleLabels[agent.role] || agent.role})\n\nNo reporting person found. You may be a top-level agent.`);
+        return m.chainNone(agent.name, roleLabel(m, agent.role));
       }
 
-      let msg = `👤 *Your Reporting Chain*\n🏷️ ${agent.name} (${roleLabels[agent.role] || agent.role})\n`;
+      let msg = m.chainTitle(agent.name, roleLabel(m, agent.role));
       for (const h of hierarchy) {
-        msg += `\n⬆️ *${roleLabels[h.role] || h.role}*\n   ${h.name}\n   📞 ${h.mobile}`;
+        msg += `\n⬆️ *${roleLabel(m, h.role)}*\n   ${h.name}\n   📞 ${h.mobile}`;
       }
 
-      return twiml(msg);
+      return msg;
     }
 
     // --- COMMAND: 3 ? or 3 alone = check complaint status ---
@@ -233,22 +550,10 @@ Deno.serve(async (req) => {
         const complaintText = complaintMatch[1].trim();
 
         if (!complaintText) {
-          return twiml(`⚠️ Please include your complaint details after *3*.\n\nExample: _3 Delivery not received for order #123_`);
+          return m.complaintNeedsDetails;
         }
 
-        const { error } = await supabase
-          .from("agent_complaints")
-          .insert({
-            agent_id: agent.id,
-            complaint_text: complaintText,
-          });
-
-        if (error) {
-          console.error("Complaint insert error:", error);
-          return twiml("❌ Failed to register complaint. Please try again.");
-        }
-
-        return twiml(`✅ Complaint registered, ${agent.name}!\n\n📝 ${complaintText}\n\nYour complaint has been submitted and will be reviewed by the admin team.\n\nSend *3 ?* to check your complaint status.`);
+        return await startFlow(supabase, last10, complaintFlow, ctx, { text: complaintText });
       }
     }
 
@@ -263,28 +568,28 @@ Deno.serve(async (req) => {
 
       if (cErr) {
         console.error("Complaint fetch error:", cErr);
-        return twiml("❌ Failed to fetch complaints. Please try again.");
+        return m.complaintsFetchFailed;
       }
 
       if (!myComplaints || myComplaints.length === 0) {
-        return twiml(`📋 *Complaint Status*\n\nNo complaints found, ${agent.name}.\n\nTo register a new complaint, send:\n_3 <your complaint>_`);
+        return m.complaintsNone(agent.name);
       }
 
       const statusEmoji: Record<string, string> = { pending: "⏳", resolved: "✅", dismissed: "❌" };
-      let msg = `📋 *Your Recent Complaints*\n👤 ${agent.name}\n`;
+      let msg = m.complaintsTitle(agent.name);
 
       for (const c of myComplaints) {
         const date = new Date(c.created_at).toLocaleDateString("en-IN");
         const emoji = statusEmoji[c.status] || "❓";
-        msg += `\n${emoji} *${c.status.toUpperCase()}* — ${date}`;
+        msg += `\n${emoji} *${m.complaintStatus[c.status] || c.status.toUpperCase()}* — ${date}`;
         msg += `\n   📝 ${c.complaint_text.substring(0, 80)}${c.complaint_text.length > 80 ? "..." : ""}`;
         if (c.admin_remarks) {
           msg += `\n   💬 _${c.admin_remarks}_`;
         }
       }
 
-      msg += `\n\n📌 To register a new complaint:\n_3 <your complaint>_`;
-      return twiml(msg);
+      msg += `\n\n${m.complaintsNewHint}`;
+      return msg;
     }
 
     // --- COMMAND: 1 = report ---
@@ -293,43 +598,10 @@ Deno.serve(async (req) => {
       const workDetails = reportMatch[1].trim();
 
       if (!workDetails) {
-        return twiml(`⚠️ Please include your work details after *1*.\n\nExample: _1 Visited 5 shops, collected 3 orders_`);
+        return m.workLogNeedsDetails;
       }
 
-      const { data: existingLog } = await supabase
-        .from("agent_work_logs")
-        .select("id, work_details")
-        .eq("agent_id", agent.id)
-        .eq("work_date", today)
-        .maybeSingle();
-
-      if (existingLog) {
-        const updatedDetails = `${existingLog.work_details}\n${workDetails}`;
-        const { error } = await supabase
-          .from("agent_work_logs")
-          .update({ work_details: updatedDetails })
-          .eq("id", existingLog.id);
-
-        if (error) {
-          return twiml("❌ Failed to update work log. Please try again.");
-        }
-
-        return twiml(`✅ Work log updated, ${agent.name}!\n\n📅 ${today}\n📝 Today's full log:\n${updatedDetails}`);
-      } else {
-        const { error } = await supabase
-          .from("agent_work_logs")
-          .insert({
-            agent_id: agent.id,
-            work_details: workDetails,
-            work_date: today,
-          });
-
-        if (error) {
-          return twiml("❌ Failed to save work log. Please try again.");
-        }
-
-        return twiml(`✅ Work log saved, ${agent.name}!\n\n📅 ${today}\n📝 ${workDetails}`);
-      }
+      return await startFlow(supabase, last10, workLogFlow, ctx, { details: workDetails });
     }
 
     // --- COMMAND: 4 = wallet balance ---
@@ -340,97 +612,136 @@ Deno.serve(async (req) => {
         .eq("agent_id", agent.id);
 
       if (walletError) {
-        return twiml("❌ Failed to fetch wallet balance. Please try again.");
+        return m.walletFailed;
       }
 
       const balance = (transactions || []).reduce((sum: number, t: { amount: number }) => sum + Number(t.amount), 0);
       const formatted = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(balance);
 
-      return twiml(`💰 *Wallet Balance*\n👤 ${agent.name}\n💳 Available Balance: ${formatted}`);
+      return m.walletBalance(agent.name, formatted);
+    }
+
+    // --- COMMAND: leave = leave requests ---
+    // "leaves" lists the team's pending requests; "leave approve|reject <n>"
+    // decides the nth of them.
+    if (command.toLowerCase() === "leaves") {
+      const pending = await pendingTeamLeaves(supabase, agent.id);
+      if (pending.length === 0) return m.leaveNonePending;
+      let msg = m.leavePendingTitle;
+      pending.forEach((l, i) => {
+        msg += `\n${i + 1}. ${l.agent?.name || m.agent} (${roleLabel(m, l.agent?.role || "")})`;
+        msg += `\n   📅 ${formatLeaveDates(l.start_date, l.end_date)}${l.reason ? ` — ${l.reason}` : ""}`;
+      });
+      msg += `\n\n${m.leavePendingHint}`;
+      return msg;
+    }
+
+    const leaveMatch = body.match(/^leave(?:\s+([\s\S]*))?$/i);
+    if (leaveMatch) {
+      const rest = (leaveMatch[1] || "").trim();
+      try {
+        const decision = rest.match(/^(approve|reject)\s+(\d+)(?:\s+([\s\S]+))?$/i);
+        if (decision) {
+          const pending = await pendingTeamLeaves(supabase, agent.id);
+          const target = pending[parseInt(decision[2], 10) - 1];
+          if (!target) return m.leaveInvalidNumber;
+          const decided = await decideLeave(
+            supabase,
+            agent.id,
+            target.id,
+            decision[1].toLowerCase() === "approve",
+            decision[3]?.trim() || null,
+          );
+          await notifyLeaveDecided(supabase, decided);
+          return m.leaveDecided(
+            decided.status === "approved",
+            target.agent?.name || m.agent,
+            formatLeaveDates(decided.start_date, decided.end_date),
+          );
+        }
+
+        if (!rest || rest === "?") {
+          const { data: mine, error } = await supabase
+            .from("agent_leave_requests")
+            .select("start_date, end_date, reason, status, remarks")
+            .eq("agent_id", agent.id)
+            .order("start_date", { ascending: false })
+            .limit(5);
+          if (error) throw error;
+          let msg = m.leaveMineTitle;
+          if (!mine || mine.length === 0) msg += `\n${m.leaveMineNone}`;
+          for (const l of mine || []) {
+            msg += `\n• ${formatLeaveDates(l.start_date, l.end_date)} — *${m.leaveStatus[l.status] || l.status.toUpperCase()}*`;
+            if (l.reason) msg += `\n   📝 ${l.reason}`;
+            if (l.remarks) msg += `\n   💬 _${l.remarks}_`;
+          }
+          msg += `\n\n${m.leaveAskHint}`;
+          return msg;
+        }
+
+        const leave = await createLeaveRequest(supabase, agent.id, parseLeaveText(rest, today), "whatsapp", today);
+        await notifyLeaveRequested(supabase, agent.id, leave);
+        return m.leaveRequested(agent.name, formatLeaveDates(leave.start_date, leave.end_date), leave.reason || "");
+      } catch (err) {
+        if (err instanceof LeaveError) return `⚠️ ${err.message}`;
+        console.error("Leave command error:", err);
+        return m.leaveFailed;
+      }
     }
 
     // --- COMMAND: 5 = admin work log absence report (all agents) ---
     if (command === "5") {
       try {
-        const report = await buildAbsenceReport(supabase, today);
-        return twiml(report);
+        const report = await buildAbsenceReport(supabase, agent.language, today);
+        return report;
       } catch (err) {
         console.error("Command 5 error:", err);
-        return twiml("❌ Failed to generate absence report. Please try again.");
+        return m.reportFailed;
       }
     }
 
-    // --- Helper: get panchayaths that have agents of a given role ---
-    async function getPanchayathsWithRole(role: string) {
-      const { data: agents } = await supabase
-        .from("pennyekart_agents")
-        .select("panchayath_id")
-        .eq("role", role)
-        .eq("is_active", true);
-      if (!agents || agents.length === 0) return [];
-      const uniqueIds = [...new Set(agents.map((a: any) => a.panchayath_id))];
-      const { data: panchayaths } = await supabase
-        .from("panchayaths")
-        .select("id, name")
-        .in("id", uniqueIds)
-        .eq("is_active", true)
-        .order("name", { ascending: true });
-      return panchayaths || [];
+    // --- COMMAND: reports = absence report menu ---
+    if (command.toLowerCase() === "reports") {
+      return await startFlow(supabase, last10, reportFlow, ctx, {});
     }
 
     // --- COMMAND: 6 = coordinator absence report (panchayath selection) ---
     const cmd6Match = command.match(/^6\s+(\d+)$/);
     if (command === "6") {
-      const panchayaths = await getPanchayathsWithRole("coordinator");
-      if (panchayaths.length === 0) {
-        return twiml("No panchayaths with coordinators found.");
-      }
-      let msg = `📍 *Coordinator Report*\nSend *6 <number>*:\n`;
-      panchayaths.forEach((p: any, i: number) => {
-        msg += `\n${i + 1}. ${p.name}`;
-      });
-      return twiml(msg);
+      return await startFlow(supabase, last10, reportFlow, ctx, { role: "coordinator" }, "panchayath");
     }
     if (cmd6Match) {
       const num = parseInt(cmd6Match[1], 10);
-      const panchayaths = await getPanchayathsWithRole("coordinator");
+      const panchayaths = await panchayathsWithRole(supabase, "coordinator");
       if (num < 1 || num > panchayaths.length) {
-        return twiml(`❌ Invalid. Send *6* to see list.`);
+        return m.reportInvalidPick("6");
       }
       try {
-        const report = await buildAbsenceReport(supabase, today, "coordinator", panchayaths[num - 1].id);
-        return twiml(report);
+        const report = await buildAbsenceReport(supabase, agent.language, today, "coordinator", panchayaths[num - 1].id);
+        return report;
       } catch (err) {
         console.error("Command 6 error:", err);
-        return twiml("❌ Failed to generate coordinator report.");
+        return m.reportFailed;
       }
     }
 
     // --- COMMAND: 7 = group leader absence report (panchayath selection) ---
     const cmd7Match = command.match(/^7\s+(\d+)$/);
     if (command === "7") {
-      const panchayaths = await getPanchayathsWithRole("group_leader");
-      if (panchayaths.length === 0) {
-        return twiml("No panchayaths with group leaders found.");
-      }
-      let msg = `📍 *Group Leader Report*\nSend *7 <number>*:\n`;
-      panchayaths.forEach((p: any, i: number) => {
-        msg += `\n${i + 1}. ${p.name}`;
-      });
-      return twiml(msg);
+      return await startFlow(supabase, last10, reportFlow, ctx, { role: "group_leader" }, "panchayath");
     }
     if (cmd7Match) {
       const num = parseInt(cmd7Match[1], 10);
-      const panchayaths = await getPanchayathsWithRole("group_leader");
+      const panchayaths = await panchayathsWithRole(supabase, "group_leader");
       if (num < 1 || num > panchayaths.length) {
-        return twiml(`❌ Invalid. Send *7* to see list.`);
+        return m.reportInvalidPick("7");
       }
       try {
-        const report = await buildAbsenceReport(supabase, today, "group_leader", panchayaths[num - 1].id);
-        return twiml(report);
+        const report = await buildAbsenceReport(supabase, agent.language, today, "group_leader", panchayaths[num - 1].id);
+        return report;
       } catch (err) {
         console.error("Command 7 error:", err);
-        return twiml("❌ Failed to generate group leader report.");
+        return m.reportFailed;
       }
     }
 
@@ -438,20 +749,54 @@ Deno.serve(async (req) => {
     const cmdLower = command.toLowerCase();
     for (const cc of activeCustom) {
       if (cmdLower === cc.keyword.toLowerCase() || (cc.alt_keyword && cmdLower === cc.alt_keyword.toLowerCase())) {
-        return twiml(cc.response_text);
+        // Placeholders such as {{agent.name}} are filled in for the sender
+        const placeholders = templatePlaceholders(cc.response_text);
+        if (placeholders.length === 0) return cc.response_text;
+        return renderTemplate(cc.response_text, await loadTemplateValues(supabase, agent, today, placeholders));
       }
     }
 
     // --- UNRECOGNIZED COMMAND ---
-    let fallback = `🤔 Sorry ${agent.name}, I didn't understand that.\n\n*Commands:*\n1️⃣ *1* <work details> — Submit work log\n2️⃣ *2* — Reporting person details\n3️⃣ *3* <complaint> — Register complaint\n4️⃣ *4* — Wallet balance\n5️⃣ *5* — Absence report\n6️⃣ *6* — Coordinator report\n7️⃣ *7* — Group Leader report\n8️⃣ *8* — Help`;
+    let fallback = m.fallback(agent.name);
     for (const cc of activeCustom) {
       fallback += `\n${cc.keyword}️⃣ *${cc.keyword}* — ${cc.label}`;
     }
-    fallback += `\n\nExample: _1 Visited 5 shops today_`;
+    fallback += `\n\n${m.fallbackExample}`;
 
-    return twiml(fallback);
+    return fallback;
   } catch (err) {
+    console.error("Message handling error:", err);
+    return m.error;
+  }
+}
+
+// The provider (see _shared/whatsapp.ts) turns the webhook into messages and
+// delivers the replies: in the response for Twilio, through the API for the
+// Cloud API, and into whatsapp_console_messages for the console.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const provider = whatsAppProvider();
+  if (req.method === "GET") return provider.verifyWebhook(req);
+
+  try {
+    const { messages, statuses } = await provider.parseWebhook(req);
+    if (statuses.length > 0) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+      await recordDeliveryStatuses(supabase, statuses);
+    }
+    const replies: OutboundReply[] = [];
+    for (const message of messages) {
+      replies.push({ to: message, text: await handleMessage(message) });
+    }
+    return await provider.respond(replies);
+  } catch (err) {
+    if (err instanceof WhatsAppWebhookError) {
+      return new Response(err.message, { status: err.status, headers: corsHeaders });
+    }
     console.error("Webhook error:", err);
-    return twiml("Something went wrong. Please try again later.\n\nType *3* for help.");
+    return new Response("Webhook error", { status: 500, headers: corsHeaders });
   }
 });
@@ -0,0 +1,110 @@
+-- Server-side sessions backing the signed tokens issued by edge functions.
+CREATE TABLE public.auth_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('admin', 'agent', 'department')),
+  subject_id text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  revoked_reason text
+);
+
+CREATE INDEX idx_auth_sessions_subject ON public.auth_sessions(kind, subject_id) WHERE revoked_at IS NULL;
+
+GRANT ALL ON public.auth_sessions TO service_role;
+
+ALTER TABLE public.auth_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages auth_sessions"
+  ON public.auth_sessions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Revoke every live session of a subject (used by the triggers below).
+CREATE OR REPLACE FUNCTION public.revoke_auth_sessions(_kind text, _subject_id text, _reason text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.auth_sessions
+  SET revoked_at = now(), revoked_reason = _reason
+  WHERE kind = _kind AND subject_id = _subject_id AND revoked_at IS NULL;
+$$;
+
+-- Deactivating, deleting or re-passwording an admin ends all of their sessions.
+CREATE OR REPLACE FUNCTION public.revoke_admin_sessions_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.revoke_auth_sessions('admin', OLD.id::text, 'admin_deleted');
+    RETURN OLD;
+  END IF;
+  IF COALESCE(OLD.is_active, true) AND NOT COALESCE(NEW.is_active, true) THEN
+    PERFORM public.revoke_auth_sessions('admin', NEW.id::text, 'admin_deactivated');
+  ELSIF NEW.password_hash IS DISTINCT FROM OLD.password_hash THEN
+    PERFORM public.revoke_auth_sessions('admin', NEW.id::text, 'password_changed');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_admins_revoke_sessions
+  AFTER UPDATE OR DELETE ON public.admins
+  FOR EACH ROW EXECUTE FUNCTION public.revoke_admin_sessions_on_change();
+
+-- Deactivating an agent ends their Samrambhaka and department sessions.
+CREATE OR REPLACE FUNCTION public.revoke_agent_sessions_on_deactivate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    PERFORM public.revoke_auth_sessions('agent', NEW.id::text, 'agent_deactivated');
+    PERFORM public.revoke_auth_sessions('department', NEW.mobile, 'agent_deactivated');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_pennyekart_agents_revoke_sessions
+  AFTER UPDATE OF is_active ON public.pennyekart_agents
+  FOR EACH ROW EXECUTE FUNCTION public.revoke_agent_sessions_on_deactivate();
+
+-- Changing a department PIN or removing a member ends that mobile's department sessions.
+CREATE OR REPLACE FUNCTION public.revoke_department_sessions_on_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _mobile text;
+BEGIN
+  SELECT mobile INTO _mobile FROM public.pennyekart_agents WHERE id = OLD.agent_id;
+  IF _mobile IS NOT NULL AND (
+    TG_OP = 'DELETE'
+    OR NEW.pin_hash IS DISTINCT FROM OLD.pin_hash
+    OR (OLD.is_active AND NOT NEW.is_active)
+  ) THEN
+    PERFORM public.revoke_auth_sessions('department', _mobile, 'membership_changed');
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_department_members_revoke_sessions
+  AFTER UPDATE OR DELETE ON public.department_members
+  FOR EACH ROW EXECUTE FUNCTION public.revoke_department_sessions_on_change();
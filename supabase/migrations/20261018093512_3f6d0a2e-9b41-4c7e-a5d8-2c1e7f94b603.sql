@@ -0,0 +1,93 @@
+-- Failed-login tracking for admin, agent and department logins.
+-- One row per (scope, key_type, key); key_type is 'mobile' or 'ip'.
+CREATE TABLE public.login_throttles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('admin', 'agent', 'department')),
+  key_type text NOT NULL CHECK (key_type IN ('mobile', 'ip')),
+  key text NOT NULL,
+  failure_count integer NOT NULL DEFAULT 0,
+  last_failure_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (scope, key_type, key)
+);
+
+CREATE INDEX idx_login_throttles_locked ON public.login_throttles(locked_until) WHERE locked_until IS NOT NULL;
+
+CREATE TRIGGER update_login_throttles_updated_at
+  BEFORE UPDATE ON public.login_throttles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+GRANT ALL ON public.login_throttles TO service_role;
+GRANT SELECT, DELETE ON public.login_throttles TO authenticated;
+
+ALTER TABLE public.login_throttles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages login_throttles"
+  ON public.login_throttles
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Super admins view login_throttles"
+  ON public.login_throttles
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- Unlocking is deleting the row, which also resets the failure count.
+CREATE POLICY "Super admins unlock login_throttles"
+  ON public.login_throttles
+  FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- Atomically count a failed attempt and return the resulting lock (if any).
+-- The first _free_attempts failures are free; after that each failure locks the
+-- key for _base_seconds * 2^(extra failures - 1), capped at _max_seconds.
+-- Failures older than _window_seconds are forgotten.
+CREATE OR REPLACE FUNCTION public.record_login_failure(
+  _scope text,
+  _key_type text,
+  _key text,
+  _free_attempts integer,
+  _base_seconds integer,
+  _max_seconds integer,
+  _window_seconds integer
+)
+RETURNS TABLE (failure_count integer, locked_until timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+  _until timestamptz;
+BEGIN
+  INSERT INTO public.login_throttles AS t (scope, key_type, key, failure_count, last_failure_at)
+  VALUES (_scope, _key_type, _key, 1, now())
+  ON CONFLICT (scope, key_type, key) DO UPDATE
+    SET failure_count = CASE
+          WHEN t.last_failure_at < now() - make_interval(secs => _window_seconds) THEN 1
+          ELSE t.failure_count + 1
+        END,
+        last_failure_at = now()
+  RETURNING t.failure_count INTO _count;
+
+  IF _count > _free_attempts THEN
+    _until := now() + make_interval(
+      secs => LEAST(_max_seconds::numeric, _base_seconds * power(2, _count - _free_attempts - 1))
+    );
+    UPDATE public.login_throttles t
+    SET locked_until = _until
+    WHERE t.scope = _scope AND t.key_type = _key_type AND t.key = _key;
+  END IF;
+
+  RETURN QUERY SELECT _count, _until;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_login_failure(text, text, text, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_login_failure(text, text, text, integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,28 @@
+-- One-time codes sent to agents over WhatsApp for OTP login and password reset.
+CREATE TABLE public.agent_otps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  mobile text NOT NULL,
+  purpose text NOT NULL CHECK (purpose IN ('login', 'reset')),
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  -- Set once a reset code is verified; reset_password must follow before it expires.
+  verified_at timestamptz,
+  reset_token_hash text,
+  consumed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_otps_mobile ON public.agent_otps(mobile, purpose, created_at DESC);
+
+GRANT ALL ON public.agent_otps TO service_role;
+
+ALTER TABLE public.agent_otps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages agent_otps"
+  ON public.agent_otps
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,137 @@
+-- System-wide audit trail: one row per inserted, updated or deleted record.
+CREATE TABLE public.audit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  occurred_at timestamptz NOT NULL DEFAULT now(),
+  -- admin = admins.id, super_admin/user = auth user id, agent = pennyekart_agents.id,
+  -- department = the member's mobile, system = no authenticated caller
+  actor_type text NOT NULL,
+  actor_id text,
+  -- Edge function name, 'client' for direct table writes, or the database role
+  source text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  entity text NOT NULL,
+  entity_id text,
+  before jsonb,
+  after jsonb,
+  changed_fields text[]
+);
+
+CREATE INDEX idx_audit_events_entity ON public.audit_events(entity, entity_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_actor ON public.audit_events(actor_type, actor_id, occurred_at DESC);
+CREATE INDEX idx_audit_events_occurred ON public.audit_events(occurred_at DESC);
+
+GRANT ALL ON public.audit_events TO service_role;
+GRANT SELECT ON public.audit_events TO authenticated;
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages audit_events"
+  ON public.audit_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Super admins view audit_events"
+  ON public.audit_events
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'super_admin'::app_role));
+
+-- Records a row change. Edge functions run as service_role and identify the
+-- real caller with x-audit-* request headers (see _shared/audit.ts); those
+-- headers are ignored for any other role so browsers cannot spoof an actor.
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _headers jsonb := nullif(current_setting('request.headers', true), '')::jsonb;
+  _claims jsonb := nullif(current_setting('request.jwt.claims', true), '')::jsonb;
+  _role text := coalesce(_claims->>'role', session_user);
+  _actor_type text;
+  _actor_id text;
+  _source text;
+  _before jsonb;
+  _after jsonb;
+  _changed text[];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN _before := to_jsonb(OLD); END IF;
+  IF TG_OP <> 'DELETE' THEN _after := to_jsonb(NEW); END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO _changed
+    FROM jsonb_each(_after) n
+    WHERE n.value IS DISTINCT FROM _before->n.key
+      AND n.key <> 'updated_at';
+    -- Re-saving identical values (e.g. sync upserts) is not a change.
+    IF _changed IS NULL THEN RETURN NULL; END IF;
+  END IF;
+
+  IF _role = 'service_role' THEN
+    _actor_type := coalesce(_headers->>'x-audit-actor-type', 'system');
+    _actor_id := _headers->>'x-audit-actor-id';
+    _source := coalesce(_headers->>'x-audit-source', 'service_role');
+  ELSIF auth.uid() IS NOT NULL THEN
+    _actor_type := CASE WHEN public.has_role(auth.uid(), 'super_admin'::app_role) THEN 'super_admin' ELSE 'user' END;
+    _actor_id := auth.uid()::text;
+    _source := 'client';
+  ELSE
+    _actor_type := 'system';
+    _source := _role;
+  END IF;
+
+  -- Never copy credentials into the audit trail.
+  _before := _before - ARRAY['password_hash', 'pin_hash', 'code_hash', 'reset_token_hash'];
+  _after := _after - ARRAY['password_hash', 'pin_hash', 'code_hash', 'reset_token_hash'];
+
+  INSERT INTO public.audit_events (actor_type, actor_id, source, action, entity, entity_id, before, after, changed_fields)
+  VALUES (
+    _actor_type,
+    _actor_id,
+    _source,
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    coalesce(_after->>'id', _before->>'id'),
+    _before,
+    _after,
+    _changed
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Attaches the audit trigger to a table. New tables call this in their migration.
+CREATE OR REPLACE FUNCTION public.enable_audit(_table regclass)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  EXECUTE format('DROP TRIGGER IF EXISTS trg_audit ON %s', _table);
+  EXECUTE format(
+    'CREATE TRIGGER trg_audit AFTER INSERT OR UPDATE OR DELETE ON %s FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+    _table
+  );
+END;
+$$;
+
+-- Audit every existing table except the trail itself, auth bookkeeping, and the
+-- read-only mirrors of the Pennyekart shop database (refreshed in bulk by sync).
+DO $$
+DECLARE
+  _t record;
+BEGIN
+  FOR _t IN
+    SELECT tablename FROM pg_tables
+    WHERE schemaname = 'public'
+      AND tablename NOT IN (
+        'audit_events', 'auth_sessions', 'login_throttles', 'agent_otps',
+        'pennyekart_products', 'pennyekart_categories', 'pennyekart_product_variants', 'pennyekart_orders'
+      )
+  LOOP
+    PERFORM public.enable_audit(format('public.%I', _t.tablename)::regclass);
+  END LOOP;
+END;
+$$;
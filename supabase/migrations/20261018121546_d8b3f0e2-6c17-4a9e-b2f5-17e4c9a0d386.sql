@@ -0,0 +1,11 @@
+-- Per-module capabilities for division admins (see _shared/capabilities.ts).
+-- Admins keep what they could already do: programs, trainings and agents.
+-- Payouts and sales uploads stay with super admins until granted.
+ALTER TABLE public.admins
+  ADD COLUMN capabilities text[] NOT NULL
+  DEFAULT ARRAY['programs:edit', 'trainings:publish', 'agents:manage']::text[];
+
+ALTER TABLE public.admins
+  ADD CONSTRAINT admins_capabilities_known CHECK (
+    capabilities <@ ARRAY['programs:edit', 'trainings:publish', 'agents:manage', 'payouts:approve', 'sales:upload']::text[]
+  );
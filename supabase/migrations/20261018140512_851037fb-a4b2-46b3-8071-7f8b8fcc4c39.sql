@@ -0,0 +1,133 @@
+-- Agent ranks computed by the pennyekart-agents compute_ranks action (see
+-- _shared/rankEngine.ts). Each run stores one snapshot per agent for the day;
+-- a later run on the same day replaces it.
+CREATE TABLE public.pennyekart_agent_rank_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  snapshot_date date NOT NULL,
+  role public.pennyekart_agent_role NOT NULL,
+  is_full boolean NOT NULL,
+  -- Full-rank agents (or customers, for PROs) counted towards the rank,
+  -- all agents of that role in the team, and how many the rank needs
+  current_count integer NOT NULL,
+  total_count integer NOT NULL,
+  required_count integer NOT NULL,
+  computed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (agent_id, snapshot_date)
+);
+
+CREATE INDEX idx_agent_rank_snapshots_date ON public.pennyekart_agent_rank_snapshots(snapshot_date DESC);
+
+-- One row each time an agent reaches or drops below full rank.
+CREATE TABLE public.pennyekart_agent_rank_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  role public.pennyekart_agent_role NOT NULL,
+  event text NOT NULL CHECK (event IN ('achieved', 'lost')),
+  occurred_on date NOT NULL,
+  current_count integer NOT NULL,
+  required_count integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_rank_events_agent ON public.pennyekart_agent_rank_events(agent_id, occurred_on DESC);
+
+GRANT ALL ON public.pennyekart_agent_rank_snapshots TO service_role;
+GRANT ALL ON public.pennyekart_agent_rank_events TO service_role;
+
+ALTER TABLE public.pennyekart_agent_rank_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pennyekart_agent_rank_events ENABLE ROW LEVEL SECURITY;
+
+-- Ranks are read wherever the agents themselves are (hierarchy pages,
+-- payouts and reports); only the edge function writes them.
+CREATE POLICY "Service role manages pennyekart_agent_rank_snapshots"
+  ON public.pennyekart_agent_rank_snapshots
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent rank snapshots are viewable"
+  ON public.pennyekart_agent_rank_snapshots
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Service role manages pennyekart_agent_rank_events"
+  ON public.pennyekart_agent_rank_events
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent rank events are viewable"
+  ON public.pennyekart_agent_rank_events
+  FOR SELECT
+  USING (true);
+
+-- Stores a run's ranks as the snapshot for _snapshot_date and records an
+-- event for every agent whose full-rank status changed since their previous
+-- snapshot. A first snapshot only records an event when the rank is full, and
+-- a role change counts as a fresh start. Roles without a rank rule
+-- (required_count = 0) never produce events.
+-- _ranks is a JSON array of {agent_id, role, is_full, current_count,
+-- total_count, required_count}.
+CREATE OR REPLACE FUNCTION public.record_agent_rank_snapshot(_snapshot_date date, _ranks jsonb)
+RETURNS TABLE (saved integer, achieved integer, lost integer)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT r.*
+    FROM jsonb_to_recordset(_ranks) AS r(
+      agent_id uuid,
+      role public.pennyekart_agent_role,
+      is_full boolean,
+      current_count integer,
+      total_count integer,
+      required_count integer
+    )
+    JOIN public.pennyekart_agents a ON a.id = r.agent_id
+  ),
+  previous AS (
+    SELECT DISTINCT ON (s.agent_id) s.agent_id, s.role, s.is_full
+    FROM public.pennyekart_agent_rank_snapshots s
+    JOIN incoming i ON i.agent_id = s.agent_id
+    ORDER BY s.agent_id, s.snapshot_date DESC, s.computed_at DESC
+  ),
+  events AS (
+    INSERT INTO public.pennyekart_agent_rank_events (agent_id, role, event, occurred_on, current_count, required_count)
+    SELECT i.agent_id, i.role,
+           CASE WHEN i.is_full THEN 'achieved' ELSE 'lost' END,
+           _snapshot_date, i.current_count, i.required_count
+    FROM incoming i
+    LEFT JOIN previous p ON p.agent_id = i.agent_id
+    WHERE i.required_count > 0
+      AND (
+        (i.is_full AND (p.agent_id IS NULL OR p.role <> i.role OR NOT p.is_full))
+        OR (NOT i.is_full AND p.role = i.role AND p.is_full)
+      )
+    RETURNING event
+  ),
+  snapshots AS (
+    INSERT INTO public.pennyekart_agent_rank_snapshots AS s
+      (agent_id, snapshot_date, role, is_full, current_count, total_count, required_count)
+    SELECT agent_id, _snapshot_date, role, is_full, current_count, total_count, required_count
+    FROM incoming
+    ON CONFLICT (agent_id, snapshot_date) DO UPDATE
+      SET role = EXCLUDED.role,
+          is_full = EXCLUDED.is_full,
+          current_count = EXCLUDED.current_count,
+          total_count = EXCLUDED.total_count,
+          required_count = EXCLUDED.required_count,
+          computed_at = now()
+    RETURNING 1
+  )
+  SELECT
+    (SELECT count(*)::integer FROM snapshots),
+    (SELECT count(*)::integer FROM events WHERE event = 'achieved'),
+    (SELECT count(*)::integer FROM events WHERE event = 'lost');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_agent_rank_snapshot(date, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_agent_rank_snapshot(date, jsonb) TO service_role;
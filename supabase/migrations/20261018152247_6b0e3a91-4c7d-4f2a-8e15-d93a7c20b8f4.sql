@@ -0,0 +1,120 @@
+-- Rank rules, versioned by the date they take effect. A role's rule on a given
+-- day is its row with the latest effective_from on or before that day; roles
+-- with no rule are always at full rank. Super admins edit them through the
+-- pennyekart-agents function, and compute_ranks applies the rules in force on
+-- the snapshot date.
+CREATE TABLE public.pennyekart_rank_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  role public.pennyekart_agent_role NOT NULL,
+  -- Role whose agents count towards the rank; NULL counts the agent's own customers
+  counted_role public.pennyekart_agent_role,
+  required_count integer NOT NULL CHECK (required_count > 0),
+  -- Whether counted agents must themselves be at full rank
+  require_full boolean NOT NULL DEFAULT true,
+  -- 'direct': only the agent's direct reports; 'team': anyone below them
+  scope text NOT NULL DEFAULT 'team' CHECK (scope IN ('direct', 'team')),
+  effective_from date NOT NULL,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (role, effective_from),
+  CHECK (counted_role IS DISTINCT FROM role)
+);
+
+GRANT ALL ON public.pennyekart_rank_rules TO service_role;
+
+ALTER TABLE public.pennyekart_rank_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_rank_rules"
+  ON public.pennyekart_rank_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Rank rules are viewable"
+  ON public.pennyekart_rank_rules
+  FOR SELECT
+  USING (true);
+
+SELECT public.enable_audit('public.pennyekart_rank_rules');
+
+-- The thresholds that applied before rules became configurable.
+INSERT INTO public.pennyekart_rank_rules (role, counted_role, required_count, require_full, scope, effective_from) VALUES
+  ('pro', NULL, 5, true, 'team', '2000-01-01'),
+  ('group_leader', 'pro', 5, true, 'team', '2000-01-01'),
+  ('coordinator', 'group_leader', 5, true, 'team', '2000-01-01'),
+  ('team_leader', 'coordinator', 4, true, 'team', '2000-01-01');
+
+-- Each snapshot remembers the rule it was measured against, so old snapshots
+-- keep showing the thresholds of their day.
+ALTER TABLE public.pennyekart_agent_rank_snapshots
+  ADD COLUMN rule_id uuid REFERENCES public.pennyekart_rank_rules(id) ON DELETE SET NULL;
+
+UPDATE public.pennyekart_agent_rank_snapshots s
+SET rule_id = r.id
+FROM public.pennyekart_rank_rules r
+WHERE r.role = s.role AND r.effective_from = '2000-01-01';
+
+-- As before, now also storing rule_id from each entry of _ranks.
+CREATE OR REPLACE FUNCTION public.record_agent_rank_snapshot(_snapshot_date date, _ranks jsonb)
+RETURNS TABLE (saved integer, achieved integer, lost integer)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT r.*
+    FROM jsonb_to_recordset(_ranks) AS r(
+      agent_id uuid,
+      role public.pennyekart_agent_role,
+      is_full boolean,
+      current_count integer,
+      total_count integer,
+      required_count integer,
+      rule_id uuid
+    )
+    JOIN public.pennyekart_agents a ON a.id = r.agent_id
+  ),
+  previous AS (
+    SELECT DISTINCT ON (s.agent_id) s.agent_id, s.role, s.is_full
+    FROM public.pennyekart_agent_rank_snapshots s
+    JOIN incoming i ON i.agent_id = s.agent_id
+    ORDER BY s.agent_id, s.snapshot_date DESC, s.computed_at DESC
+  ),
+  events AS (
+    INSERT INTO public.pennyekart_agent_rank_events (agent_id, role, event, occurred_on, current_count, required_count)
+    SELECT i.agent_id, i.role,
+           CASE WHEN i.is_full THEN 'achieved' ELSE 'lost' END,
+           _snapshot_date, i.current_count, i.required_count
+    FROM incoming i
+    LEFT JOIN previous p ON p.agent_id = i.agent_id
+    WHERE i.required_count > 0
+      AND (
+        (i.is_full AND (p.agent_id IS NULL OR p.role <> i.role OR NOT p.is_full))
+        OR (NOT i.is_full AND p.role = i.role AND p.is_full)
+      )
+    RETURNING event
+  ),
+  snapshots AS (
+    INSERT INTO public.pennyekart_agent_rank_snapshots AS s
+      (agent_id, snapshot_date, role, is_full, current_count, total_count, required_count, rule_id)
+    SELECT agent_id, _snapshot_date, role, is_full, current_count, total_count, required_count, rule_id
+    FROM incoming
+    ON CONFLICT (agent_id, snapshot_date) DO UPDATE
+      SET role = EXCLUDED.role,
+          is_full = EXCLUDED.is_full,
+          current_count = EXCLUDED.current_count,
+          total_count = EXCLUDED.total_count,
+          required_count = EXCLUDED.required_count,
+          rule_id = EXCLUDED.rule_id,
+          computed_at = now()
+    RETURNING 1
+  )
+  SELECT
+    (SELECT count(*)::integer FROM snapshots),
+    (SELECT count(*)::integer FROM events WHERE event = 'achieved'),
+    (SELECT count(*)::integer FROM events WHERE event = 'lost');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_agent_rank_snapshot(date, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_agent_rank_snapshot(date, jsonb) TO service_role;
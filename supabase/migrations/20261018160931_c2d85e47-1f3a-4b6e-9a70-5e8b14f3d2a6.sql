@@ -0,0 +1,47 @@
+-- Applies a hierarchy move planned by pennyekart-agents (move_agent): hands the
+-- agent's direct reports to _reports_to_id when given, then re-parents the
+-- agent, all in one transaction. Moves are serialised, and the agent's new
+-- chain of parents is re-checked here so that two moves racing each other
+-- cannot leave a cycle behind.
+CREATE OR REPLACE FUNCTION public.move_pennyekart_agent(
+  _agent_id uuid,
+  _new_parent_id uuid,
+  _reports_to_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('pennyekart_agent_hierarchy'));
+
+  IF _reports_to_id IS NOT NULL THEN
+    UPDATE public.pennyekart_agents
+    SET parent_agent_id = _reports_to_id
+    WHERE parent_agent_id = _agent_id AND id <> _agent_id;
+  END IF;
+
+  UPDATE public.pennyekart_agents SET parent_agent_id = _new_parent_id WHERE id = _agent_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE chain(id, depth) AS (
+      SELECT _new_parent_id, 1
+      UNION ALL
+      SELECT a.parent_agent_id, c.depth + 1
+      FROM chain c
+      JOIN public.pennyekart_agents a ON a.id = c.id
+      WHERE a.parent_agent_id IS NOT NULL AND c.id <> _agent_id AND c.depth < 50
+    )
+    SELECT 1 FROM chain WHERE id = _agent_id
+  ) THEN
+    RAISE EXCEPTION 'This move would make an agent report to their own team' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.move_pennyekart_agent(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.move_pennyekart_agent(uuid, uuid, uuid) TO service_role;
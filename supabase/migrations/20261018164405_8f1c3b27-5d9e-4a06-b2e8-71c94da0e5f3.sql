@@ -0,0 +1,145 @@
+-- Agent exits. When an agent leaves, their work is handed to a successor
+-- (another agent of the same role, or one of their direct reports promoted
+-- into the role) and the handover is recorded here.
+CREATE TABLE public.pennyekart_agent_handovers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  successor_id uuid REFERENCES public.pennyekart_agents(id) ON DELETE SET NULL,
+  -- The successor was a direct report promoted into the leaver's role
+  promoted boolean NOT NULL DEFAULT false,
+  handover_date date NOT NULL,
+  -- The leaver's role and areas at the time they left
+  role public.pennyekart_agent_role NOT NULL,
+  responsible_panchayath_ids uuid[] NOT NULL DEFAULT '{}',
+  responsible_wards text[] NOT NULL DEFAULT '{}',
+  reports_moved integer NOT NULL DEFAULT 0,
+  tasks_moved integer NOT NULL DEFAULT 0,
+  customers_moved integer NOT NULL DEFAULT 0,
+  notes text,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_handovers_agent ON public.pennyekart_agent_handovers(agent_id);
+CREATE INDEX idx_agent_handovers_successor ON public.pennyekart_agent_handovers(successor_id);
+
+GRANT ALL ON public.pennyekart_agent_handovers TO service_role;
+
+ALTER TABLE public.pennyekart_agent_handovers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_agent_handovers"
+  ON public.pennyekart_agent_handovers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent handovers are viewable"
+  ON public.pennyekart_agent_handovers
+  FOR SELECT
+  USING (true);
+
+SELECT public.enable_audit('public.pennyekart_agent_handovers');
+
+-- Carries out an exit checked by pennyekart-agents (exit_agent) in one
+-- transaction:
+--   * a promoted successor takes the leaver's role and place, and their own
+--     direct reports go to _backfill_id;
+--   * the leaver's direct reports move to the successor;
+--   * the successor picks up the leaver's responsible panchayaths and wards,
+--     open department tasks and direct customers (customers already on the
+--     successor's list are dropped from the leaver's);
+--   * the leaver is deactivated and the handover recorded.
+-- _successor_id may be NULL only when the leaver has nothing to hand over.
+CREATE OR REPLACE FUNCTION public.hand_over_pennyekart_agent(
+  _agent_id uuid,
+  _successor_id uuid,
+  _promote boolean,
+  _backfill_id uuid,
+  _handover_date date,
+  _notes text,
+  _created_by text
+)
+RETURNS public.pennyekart_agent_handovers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leaver public.pennyekart_agents;
+  _reports integer := 0;
+  _tasks integer := 0;
+  _customers integer := 0;
+  _handover public.pennyekart_agent_handovers;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('pennyekart_agent_hierarchy'));
+
+  SELECT * INTO _leaver FROM public.pennyekart_agents WHERE id = _agent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _successor_id IS NOT NULL THEN
+    IF _promote THEN
+      IF _backfill_id IS NOT NULL THEN
+        UPDATE public.pennyekart_agents
+        SET parent_agent_id = _backfill_id
+        WHERE parent_agent_id = _successor_id AND id <> _successor_id;
+      END IF;
+      UPDATE public.pennyekart_agents
+      SET role = _leaver.role, parent_agent_id = _leaver.parent_agent_id
+      WHERE id = _successor_id;
+    END IF;
+
+    UPDATE public.pennyekart_agents
+    SET parent_agent_id = _successor_id
+    WHERE parent_agent_id = _agent_id AND id <> _successor_id;
+    GET DIAGNOSTICS _reports = ROW_COUNT;
+
+    UPDATE public.pennyekart_agents s
+    SET responsible_panchayath_ids = ARRAY(
+          SELECT DISTINCT unnest(coalesce(s.responsible_panchayath_ids, '{}') || coalesce(_leaver.responsible_panchayath_ids, '{}'))
+        ),
+        responsible_wards = ARRAY(
+          SELECT DISTINCT unnest(coalesce(s.responsible_wards, '{}') || coalesce(_leaver.responsible_wards, '{}'))
+        )
+    WHERE s.id = _successor_id;
+
+    UPDATE public.department_tasks
+    SET assigned_agent_id = _successor_id
+    WHERE assigned_agent_id = _agent_id AND status <> 'completed';
+    GET DIAGNOSTICS _tasks = ROW_COUNT;
+
+    DELETE FROM public.agent_direct_customers c
+    WHERE c.agent_id = _agent_id
+      AND EXISTS (
+        SELECT 1 FROM public.agent_direct_customers s
+        WHERE s.agent_id = _successor_id AND s.mobile = c.mobile
+      );
+    UPDATE public.agent_direct_customers SET agent_id = _successor_id WHERE agent_id = _agent_id;
+    GET DIAGNOSTICS _customers = ROW_COUNT;
+  ELSIF EXISTS (SELECT 1 FROM public.pennyekart_agents WHERE parent_agent_id = _agent_id AND id <> _agent_id) THEN
+    RAISE EXCEPTION 'Choose a successor for the agent''s direct reports' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.pennyekart_agents
+  SET is_active = false, responsible_panchayath_ids = '{}', responsible_wards = '{}'
+  WHERE id = _agent_id;
+
+  INSERT INTO public.pennyekart_agent_handovers (
+    agent_id, successor_id, promoted, handover_date, role,
+    responsible_panchayath_ids, responsible_wards,
+    reports_moved, tasks_moved, customers_moved, notes, created_by
+  ) VALUES (
+    _agent_id, _successor_id, _successor_id IS NOT NULL AND _promote, _handover_date, _leaver.role,
+    coalesce(_leaver.responsible_panchayath_ids, '{}'), coalesce(_leaver.responsible_wards, '{}'),
+    _reports, _tasks, _customers, _notes, _created_by
+  )
+  RETURNING * INTO _handover;
+
+  RETURN _handover;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hand_over_pennyekart_agent(uuid, uuid, boolean, uuid, date, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hand_over_pennyekart_agent(uuid, uuid, boolean, uuid, date, text, text) TO service_role;
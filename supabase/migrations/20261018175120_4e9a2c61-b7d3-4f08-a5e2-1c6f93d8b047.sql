@@ -0,0 +1,137 @@
+-- Effective-dated history of where each agent sat in the hierarchy, so reports
+-- for a past period can use the tree as it was then. A version is in force
+-- from valid_from until valid_to (NULL for the current one).
+CREATE TABLE public.pennyekart_agent_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  role public.pennyekart_agent_role NOT NULL,
+  -- Not a foreign key: the parent may since have been deleted
+  parent_agent_id uuid,
+  panchayath_id uuid REFERENCES public.panchayaths(id) ON DELETE SET NULL,
+  ward text NOT NULL,
+  responsible_panchayath_ids uuid[] NOT NULL DEFAULT '{}',
+  responsible_wards text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  valid_from timestamptz NOT NULL,
+  valid_to timestamptz,
+  CHECK (valid_to IS NULL OR valid_to > valid_from)
+);
+
+CREATE INDEX idx_agent_versions_agent ON public.pennyekart_agent_versions(agent_id, valid_from DESC);
+CREATE INDEX idx_agent_versions_period ON public.pennyekart_agent_versions(valid_from, valid_to);
+CREATE UNIQUE INDEX idx_agent_versions_current ON public.pennyekart_agent_versions(agent_id) WHERE valid_to IS NULL;
+
+GRANT ALL ON public.pennyekart_agent_versions TO service_role;
+
+ALTER TABLE public.pennyekart_agent_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_agent_versions"
+  ON public.pennyekart_agent_versions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent versions are viewable"
+  ON public.pennyekart_agent_versions
+  FOR SELECT
+  USING (true);
+
+-- Opens a new version whenever an agent is added or its place in the
+-- hierarchy changes. Several changes in one transaction (a handover, say)
+-- update that transaction's version instead of leaving empty ones behind.
+CREATE OR REPLACE FUNCTION public.record_pennyekart_agent_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+     (NEW.role, NEW.parent_agent_id, NEW.panchayath_id, NEW.ward,
+      NEW.responsible_panchayath_ids, NEW.responsible_wards, NEW.is_active)
+     IS NOT DISTINCT FROM
+     (OLD.role, OLD.parent_agent_id, OLD.panchayath_id, OLD.ward,
+      OLD.responsible_panchayath_ids, OLD.responsible_wards, OLD.is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.pennyekart_agent_versions
+  SET role = NEW.role,
+      parent_agent_id = NEW.parent_agent_id,
+      panchayath_id = NEW.panchayath_id,
+      ward = NEW.ward,
+      responsible_panchayath_ids = coalesce(NEW.responsible_panchayath_ids, '{}'),
+      responsible_wards = coalesce(NEW.responsible_wards, '{}'),
+      is_active = coalesce(NEW.is_active, true)
+  WHERE agent_id = NEW.id AND valid_to IS NULL AND valid_from = now();
+  IF FOUND THEN RETURN NULL; END IF;
+
+  UPDATE public.pennyekart_agent_versions
+  SET valid_to = now()
+  WHERE agent_id = NEW.id AND valid_to IS NULL;
+
+  INSERT INTO public.pennyekart_agent_versions (
+    agent_id, role, parent_agent_id, panchayath_id, ward,
+    responsible_panchayath_ids, responsible_wards, is_active, valid_from
+  ) VALUES (
+    NEW.id, NEW.role, NEW.parent_agent_id, NEW.panchayath_id, NEW.ward,
+    coalesce(NEW.responsible_panchayath_ids, '{}'), coalesce(NEW.responsible_wards, '{}'),
+    coalesce(NEW.is_active, true), now()
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_pennyekart_agent_version
+  AFTER INSERT OR UPDATE ON public.pennyekart_agents
+  FOR EACH ROW EXECUTE FUNCTION public.record_pennyekart_agent_version();
+
+-- Backfill from the audit trail: each agent starts out as it was before its
+-- first audited change (or as it is now, if it has none) from the day it was
+-- created, then takes one version per audited hierarchy change.
+WITH changes AS (
+  SELECT e.entity_id::uuid AS agent_id, e.occurred_at, e.before, e.after
+  FROM public.audit_events e
+  JOIN public.pennyekart_agents a ON a.id::text = e.entity_id
+  WHERE e.entity = 'pennyekart_agents'
+    AND e.action = 'update'
+    AND e.changed_fields && ARRAY[
+      'role', 'parent_agent_id', 'panchayath_id', 'ward',
+      'responsible_panchayath_ids', 'responsible_wards', 'is_active'
+    ]
+),
+states AS (
+  SELECT a.id AS agent_id,
+         coalesce(a.created_at, now()) AS valid_from,
+         coalesce(
+           (SELECT c.before FROM changes c WHERE c.agent_id = a.id ORDER BY c.occurred_at LIMIT 1),
+           to_jsonb(a)
+         ) AS state
+  FROM public.pennyekart_agents a
+  UNION ALL
+  SELECT agent_id, occurred_at, after FROM changes
+),
+ordered AS (
+  SELECT agent_id, valid_from, state,
+         lead(valid_from) OVER (PARTITION BY agent_id ORDER BY valid_from) AS valid_to
+  FROM states
+)
+INSERT INTO public.pennyekart_agent_versions (
+  agent_id, role, parent_agent_id, panchayath_id, ward,
+  responsible_panchayath_ids, responsible_wards, is_active, valid_from, valid_to
+)
+SELECT
+  o.agent_id,
+  (o.state->>'role')::public.pennyekart_agent_role,
+  (o.state->>'parent_agent_id')::uuid,
+  p.id,
+  coalesce(o.state->>'ward', 'N/A'),
+  coalesce(ARRAY(SELECT jsonb_array_elements_text(nullif(o.state->'responsible_panchayath_ids', 'null'::jsonb)))::uuid[], '{}'),
+  coalesce(ARRAY(SELECT jsonb_array_elements_text(nullif(o.state->'responsible_wards', 'null'::jsonb))), '{}'),
+  coalesce((o.state->>'is_active')::boolean, true),
+  o.valid_from,
+  o.valid_to
+FROM ordered o
+LEFT JOIN public.panchayaths p ON p.id = (o.state->>'panchayath_id')::uuid
+WHERE o.valid_to IS NULL OR o.valid_to > o.valid_from;
@@ -0,0 +1,67 @@
+-- How PRO customer counts are derived. pennyekart_agents.customer_count used to
+-- be typed in by hand; it is now kept in sync by the pennyekart-agents function
+-- from each agent's direct customers and the synced Pennyekart orders matched
+-- to them by phone. A customer counts while they have ordered within the last
+-- active_days days, or, if count_new_registrations is on, while they were
+-- registered within that window. A single row; super admins edit it.
+CREATE TABLE public.pennyekart_customer_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  active_days integer NOT NULL DEFAULT 90 CHECK (active_days BETWEEN 1 AND 3650),
+  count_new_registrations boolean NOT NULL DEFAULT true,
+  updated_by text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON public.pennyekart_customer_settings TO service_role;
+
+ALTER TABLE public.pennyekart_customer_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_customer_settings"
+  ON public.pennyekart_customer_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Customer settings are viewable"
+  ON public.pennyekart_customer_settings
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER set_pennyekart_customer_settings_updated_at
+  BEFORE UPDATE ON public.pennyekart_customer_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.pennyekart_customer_settings');
+
+INSERT INTO public.pennyekart_customer_settings (id) VALUES (true);
+
+-- Attribution only reads orders placed within the active window.
+CREATE INDEX pennyekart_orders_source_created_at_idx ON public.pennyekart_orders (source_created_at);
+
+-- Writes the derived counts in one statement, touching only agents whose count
+-- changed. _counts is a JSON array of { agent_id, customer_count }.
+CREATE OR REPLACE FUNCTION public.set_pennyekart_customer_counts(_counts jsonb)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH incoming AS (
+    SELECT c.agent_id, c.customer_count
+    FROM jsonb_to_recordset(_counts) AS c(agent_id uuid, customer_count integer)
+  ),
+  changed AS (
+    UPDATE public.pennyekart_agents a
+    SET customer_count = i.customer_count
+    FROM incoming i
+    WHERE a.id = i.agent_id
+      AND a.customer_count IS DISTINCT FROM i.customer_count
+    RETURNING a.id
+  )
+  SELECT count(*)::integer FROM changed;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_pennyekart_customer_counts(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_pennyekart_customer_counts(jsonb) TO service_role;
@@ -0,0 +1,50 @@
+-- Structured work-log metrics. Agents still send free text with the WhatsApp
+-- `1 <details>` command; numbers written as `name:value` tokens (e.g.
+-- `shops:5 orders:2`) are parsed into agent_work_logs.metrics so they can be
+-- totalled. Which names count, and for which roles, is configured here by
+-- super admins. roles is empty for a metric every role reports.
+CREATE TABLE public.pennyekart_work_metrics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  roles public.pennyekart_agent_role[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON public.pennyekart_work_metrics TO service_role;
+
+ALTER TABLE public.pennyekart_work_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_work_metrics"
+  ON public.pennyekart_work_metrics
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Work metrics are viewable"
+  ON public.pennyekart_work_metrics
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER set_pennyekart_work_metrics_updated_at
+  BEFORE UPDATE ON public.pennyekart_work_metrics
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.pennyekart_work_metrics');
+
+INSERT INTO public.pennyekart_work_metrics (key, label, aliases, sort_order) VALUES
+  ('shops', 'Shops visited', '{shop}', 1),
+  ('orders', 'Orders collected', '{order}', 2),
+  ('customers', 'New customers', '{customer}', 3);
+
+-- Metric totals parsed from work_details, keyed by pennyekart_work_metrics.key.
+ALTER TABLE public.agent_work_logs
+  ADD COLUMN metrics jsonb NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(metrics) = 'object');
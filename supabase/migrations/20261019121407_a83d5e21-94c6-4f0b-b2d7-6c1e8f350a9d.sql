@@ -0,0 +1,129 @@
+-- Daily absence digests. Once a day, at send_time (India time), the
+-- absence-digest function sends every active Team Leader and Coordinator the
+-- agents in their own subtree who have not logged work that day, and sends
+-- admins who manage agents a summary by panchayath. A single settings row;
+-- super admins edit it. last_run_date is claimed by the run, so a day is only
+-- sent once.
+CREATE TABLE public.absence_digest_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  is_enabled boolean NOT NULL DEFAULT false,
+  send_time time NOT NULL DEFAULT '20:00',
+  last_run_date date,
+  updated_by text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON public.absence_digest_settings TO service_role;
+
+ALTER TABLE public.absence_digest_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages absence_digest_settings"
+  ON public.absence_digest_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Absence digest settings are viewable"
+  ON public.absence_digest_settings
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER set_absence_digest_settings_updated_at
+  BEFORE UPDATE ON public.absence_digest_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.absence_digest_settings');
+
+INSERT INTO public.absence_digest_settings (id) VALUES (true);
+
+-- Recipients who do not want the digest, by the last 10 digits of their
+-- number. Agents opt out over WhatsApp with "digest off"; super admins can
+-- also switch anyone off.
+CREATE TABLE public.absence_digest_opt_outs (
+  mobile text PRIMARY KEY CHECK (mobile ~ '^[0-9]{10}$'),
+  opted_out_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON public.absence_digest_opt_outs TO service_role;
+
+ALTER TABLE public.absence_digest_opt_outs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages absence_digest_opt_outs"
+  ON public.absence_digest_opt_outs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+SELECT public.enable_audit('public.absence_digest_opt_outs');
+
+-- One row per recipient per run. Holds phone numbers, so it is only read
+-- through the absence-digest function.
+CREATE TABLE public.absence_digest_sends (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_date date NOT NULL,
+  recipient_kind text NOT NULL CHECK (recipient_kind IN ('team_leader', 'coordinator', 'admin')),
+  recipient_id text NOT NULL,
+  recipient_name text NOT NULL,
+  mobile text NOT NULL,
+  absent_count integer NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'opted_out')),
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX absence_digest_sends_run_date_idx ON public.absence_digest_sends (run_date DESC);
+
+GRANT ALL ON public.absence_digest_sends TO service_role;
+
+ALTER TABLE public.absence_digest_sends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages absence_digest_sends"
+  ON public.absence_digest_sends
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- The shared secret the scheduler presents to absence-digest. No policies
+-- besides the service role's, so only the database and the function see it.
+CREATE TABLE public.absence_digest_secrets (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+);
+
+GRANT ALL ON public.absence_digest_secrets TO service_role;
+
+ALTER TABLE public.absence_digest_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages absence_digest_secrets"
+  ON public.absence_digest_secrets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO public.absence_digest_secrets (id) VALUES (true);
+
+-- Every 15 minutes; the function decides whether today's digest is due, so
+-- send_time is honoured to within a quarter of an hour.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'absence-digest',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://qnucqwniloioxsowdqzj.supabase.co/functions/v1/absence-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-digest-secret', (SELECT secret FROM public.absence_digest_secrets WHERE id)
+    ),
+    body := '{"action": "run"}'::jsonb
+  );
+  $$
+);
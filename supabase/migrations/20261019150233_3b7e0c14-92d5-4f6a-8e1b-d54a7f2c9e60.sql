@@ -0,0 +1,115 @@
+-- Days agents are not expected to log work. Absence reports, the daily digest
+-- and attendance scores skip an agent on a weekly off day, on a holiday for
+-- everyone or for their panchayath, and on days covered by their approved
+-- leave. A single settings row holds the weekly off days (0 = Sunday).
+CREATE TABLE public.work_calendar_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  weekly_off_days smallint[] NOT NULL DEFAULT '{0}'
+    CHECK (weekly_off_days <@ '{0,1,2,3,4,5,6}'::smallint[]),
+  updated_by text,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+GRANT ALL ON public.work_calendar_settings TO service_role;
+
+ALTER TABLE public.work_calendar_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages work_calendar_settings"
+  ON public.work_calendar_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Work calendar settings are viewable"
+  ON public.work_calendar_settings
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER set_work_calendar_settings_updated_at
+  BEFORE UPDATE ON public.work_calendar_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.work_calendar_settings');
+
+INSERT INTO public.work_calendar_settings (id) VALUES (true);
+
+-- Festival and other holidays. panchayath_id is null for a holiday everywhere.
+CREATE TABLE public.work_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date date NOT NULL,
+  name text NOT NULL,
+  panchayath_id uuid REFERENCES public.panchayaths(id) ON DELETE CASCADE,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- One holiday per day per panchayath, and one global holiday per day.
+CREATE UNIQUE INDEX idx_work_holidays_unique
+  ON public.work_holidays (holiday_date, COALESCE(panchayath_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+GRANT ALL ON public.work_holidays TO service_role;
+
+ALTER TABLE public.work_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages work_holidays"
+  ON public.work_holidays
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Work holidays are viewable"
+  ON public.work_holidays
+  FOR SELECT
+  USING (true);
+
+SELECT public.enable_audit('public.work_holidays');
+
+-- Leave an agent asks for over WhatsApp or the Samrabhaka portal. Anyone in
+-- the agent's upline can approve or reject it while it is pending; the agent
+-- can cancel it until it starts.
+CREATE TABLE public.agent_leave_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  source text NOT NULL CHECK (source IN ('whatsapp', 'portal')),
+  decided_by uuid REFERENCES public.pennyekart_agents(id) ON DELETE SET NULL,
+  decided_at timestamptz,
+  remarks text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_agent_leave_requests_agent ON public.agent_leave_requests (agent_id, start_date DESC);
+CREATE INDEX idx_agent_leave_requests_dates ON public.agent_leave_requests (start_date, end_date)
+  WHERE status = 'approved';
+
+GRANT ALL ON public.agent_leave_requests TO service_role;
+
+ALTER TABLE public.agent_leave_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages agent_leave_requests"
+  ON public.agent_leave_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent leave requests are viewable"
+  ON public.agent_leave_requests
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER set_agent_leave_requests_updated_at
+  BEFORE UPDATE ON public.agent_leave_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.agent_leave_requests');
@@ -0,0 +1,53 @@
+-- Photos and shared locations agents send on WhatsApp as evidence for the
+-- day's work log. whatsapp-worklog downloads each photo from Twilio into the
+-- work-log-media bucket; a location is stored as coordinates only.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('work-log-media', 'work-log-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Public read work log media"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'work-log-media');
+
+CREATE TABLE public.agent_work_log_media (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_log_id uuid NOT NULL REFERENCES public.agent_work_logs(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('photo', 'location')),
+  -- Path inside the work-log-media bucket, for photos
+  storage_path text,
+  content_type text,
+  latitude double precision,
+  longitude double precision,
+  -- The place name or address WhatsApp sends with a shared location
+  address text,
+  caption text NOT NULL DEFAULT '',
+  -- Twilio's MessageSid and media index, so a retried webhook adds nothing twice
+  message_sid text,
+  media_index smallint NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (kind <> 'photo' OR storage_path IS NOT NULL),
+  CHECK (kind <> 'location' OR (latitude IS NOT NULL AND longitude IS NOT NULL))
+);
+
+CREATE INDEX idx_agent_work_log_media_log ON public.agent_work_log_media (work_log_id, created_at);
+CREATE UNIQUE INDEX idx_agent_work_log_media_message
+  ON public.agent_work_log_media (message_sid, kind, media_index);
+
+GRANT ALL ON public.agent_work_log_media TO service_role;
+
+ALTER TABLE public.agent_work_log_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages agent_work_log_media"
+  ON public.agent_work_log_media
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Agent work log media is viewable"
+  ON public.agent_work_log_media
+  FOR SELECT
+  USING (true);
+
+SELECT public.enable_audit('public.agent_work_log_media');
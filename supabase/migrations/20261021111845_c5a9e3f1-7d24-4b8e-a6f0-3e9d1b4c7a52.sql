@@ -0,0 +1,33 @@
+-- Conversations in progress with the WhatsApp bot, one per mobile number.
+-- whatsapp-worklog keeps the flow and step an agent is in (e.g. picking a
+-- panchayath after "6"), the steps behind it for "0 = back", and the answers
+-- so far. A session lapses at expires_at; the next message starts afresh.
+-- Service role only, since it holds complaint text before it is submitted.
+CREATE TABLE public.whatsapp_bot_sessions (
+  mobile text PRIMARY KEY,
+  flow text NOT NULL,
+  step text NOT NULL,
+  history text[] NOT NULL DEFAULT '{}',
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_whatsapp_bot_sessions_expires ON public.whatsapp_bot_sessions (expires_at);
+
+GRANT ALL ON public.whatsapp_bot_sessions TO service_role;
+
+ALTER TABLE public.whatsapp_bot_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages whatsapp_bot_sessions"
+  ON public.whatsapp_bot_sessions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER set_whatsapp_bot_sessions_updated_at
+  BEFORE UPDATE ON public.whatsapp_bot_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,6 @@
+-- The language the WhatsApp bot replies to an agent in: English or Malayalam.
+-- Agents change it with "lang ml" / "lang en"; admins set it in the agent
+-- form. Complaint updates sent from the admin panel use it too.
+ALTER TABLE public.pennyekart_agents
+  ADD COLUMN language text NOT NULL DEFAULT 'en'
+  CONSTRAINT pennyekart_agents_language_check CHECK (language IN ('en', 'ml'));
@@ -0,0 +1,27 @@
+-- Messages to and from the console WhatsApp provider (WHATSAPP_PROVIDER=console),
+-- which sends nothing: inbound rows are what was posted to whatsapp-worklog,
+-- outbound rows are the bot's replies and every notification, OTP and digest
+-- that would have gone out. Lets local and staging environments run the bot
+-- end to end without a phone. Service role only, since it holds OTP codes.
+CREATE TABLE public.whatsapp_console_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  direction text NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  mobile text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  media jsonb NOT NULL DEFAULT '[]'::jsonb,
+  location jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_whatsapp_console_messages_mobile ON public.whatsapp_console_messages (mobile, created_at);
+
+GRANT ALL ON public.whatsapp_console_messages TO service_role;
+
+ALTER TABLE public.whatsapp_console_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages whatsapp_console_messages"
+  ON public.whatsapp_console_messages
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,6 @@
+-- Custom WhatsApp commands can be limited to some agent roles; empty means
+-- every agent (and, for help, any number). Replies may contain placeholders
+-- such as {{agent.name}} or {{wallet.balance}}, filled in by whatsapp-worklog
+-- for the agent who sent the command; response_text needs no change for that.
+ALTER TABLE public.whatsapp_bot_commands
+  ADD COLUMN allowed_roles public.pennyekart_agent_role[] NOT NULL DEFAULT '{}';
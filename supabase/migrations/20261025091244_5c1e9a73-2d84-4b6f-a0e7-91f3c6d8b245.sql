@@ -0,0 +1,122 @@
+-- WhatsApp broadcasts to agents. A super admin writes a message, chooses its
+-- audience (filters: roles, panchayath_ids, wards, rank and absent_today) and
+-- when it should go out; the whatsapp-broadcasts function queues one
+-- recipient row per agent when it is due and works through the queue a batch
+-- at a time.
+CREATE TABLE public.whatsapp_broadcasts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  message text NOT NULL,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'sending', 'sent', 'cancelled')),
+  scheduled_at timestamptz NOT NULL DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  recipient_count integer NOT NULL DEFAULT 0,
+  created_by text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX whatsapp_broadcasts_due_idx ON public.whatsapp_broadcasts (status, scheduled_at);
+
+GRANT ALL ON public.whatsapp_broadcasts TO service_role;
+
+ALTER TABLE public.whatsapp_broadcasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages whatsapp_broadcasts"
+  ON public.whatsapp_broadcasts
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER set_whatsapp_broadcasts_updated_at
+  BEFORE UPDATE ON public.whatsapp_broadcasts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+SELECT public.enable_audit('public.whatsapp_broadcasts');
+
+-- One row per agent per broadcast, with its place in the send queue and its
+-- delivery status. provider_message_id is the sid of the send, which delivery
+-- receipts refer to. Holds phone numbers, so it is only read through the
+-- whatsapp-broadcasts function.
+CREATE TABLE public.whatsapp_broadcast_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  broadcast_id uuid NOT NULL REFERENCES public.whatsapp_broadcasts(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES public.pennyekart_agents(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mobile text NOT NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'sent', 'delivered', 'read', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  provider_message_id text,
+  error text,
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (broadcast_id, agent_id)
+);
+
+CREATE INDEX whatsapp_broadcast_recipients_queue_idx
+  ON public.whatsapp_broadcast_recipients (next_attempt_at)
+  WHERE status = 'queued';
+
+CREATE INDEX whatsapp_broadcast_recipients_provider_message_idx
+  ON public.whatsapp_broadcast_recipients (provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+GRANT ALL ON public.whatsapp_broadcast_recipients TO service_role;
+
+ALTER TABLE public.whatsapp_broadcast_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages whatsapp_broadcast_recipients"
+  ON public.whatsapp_broadcast_recipients
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER set_whatsapp_broadcast_recipients_updated_at
+  BEFORE UPDATE ON public.whatsapp_broadcast_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- The shared secret the scheduler presents to whatsapp-broadcasts.
+CREATE TABLE public.whatsapp_broadcast_secrets (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+);
+
+GRANT ALL ON public.whatsapp_broadcast_secrets TO service_role;
+
+ALTER TABLE public.whatsapp_broadcast_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages whatsapp_broadcast_secrets"
+  ON public.whatsapp_broadcast_secrets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO public.whatsapp_broadcast_secrets (id) VALUES (true);
+
+-- Every minute: starts what is due and sends the next batch.
+SELECT cron.schedule(
+  'whatsapp-broadcasts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://qnucqwniloioxsowdqzj.supabase.co/functions/v1/whatsapp-broadcasts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-broadcast-secret', (SELECT secret FROM public.whatsapp_broadcast_secrets WHERE id)
+    ),
+    body := '{"action": "run"}'::jsonb
+  );
+  $$
+);
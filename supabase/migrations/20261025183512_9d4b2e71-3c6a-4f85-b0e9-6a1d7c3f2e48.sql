@@ -0,0 +1,42 @@
+-- Nightly upkeep for pennyekart-agents. PRO customer counts depend on orders
+-- synced from Pennyekart and on customers leaving the active window with
+-- time, neither of which goes through the function, so pg_cron calls
+-- run_daily just after midnight India time to re-derive them. The run then
+-- records the day's rank snapshot, so rank history has a row for every agent
+-- on every day, not only on days someone recomputed ranks.
+
+-- The shared secret the scheduler presents to pennyekart-agents. No policies
+-- besides the service role's, so only the database and the function see it.
+CREATE TABLE public.pennyekart_agents_secrets (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  secret text NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+);
+
+GRANT ALL ON public.pennyekart_agents_secrets TO service_role;
+
+ALTER TABLE public.pennyekart_agents_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages pennyekart_agents_secrets"
+  ON public.pennyekart_agents_secrets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO public.pennyekart_agents_secrets (id) VALUES (true);
+
+-- 18:35 UTC is 00:05 India time
+SELECT cron.schedule(
+  'pennyekart-agents-daily',
+  '35 18 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://qnucqwniloioxsowdqzj.supabase.co/functions/v1/pennyekart-agents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-scheduler-secret', (SELECT secret FROM public.pennyekart_agents_secrets WHERE id)
+    ),
+    body := '{"action": "run_daily"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,160 @@
+-- Agent versions opened by a handover start on the handover date rather than
+-- when it was entered. hand_over_pennyekart_agent passes the date to the
+-- version trigger in the transaction-local setting pennyekart.valid_from;
+-- every other change still starts at now().
+--
+-- A backdated change cannot reach behind the version already in force: when
+-- that version starts on or after the requested date it takes the change in
+-- place, just as several changes in one transaction share one version.
+CREATE OR REPLACE FUNCTION public.record_pennyekart_agent_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from timestamptz := least(
+    coalesce(nullif(current_setting('pennyekart.valid_from', true), '')::timestamptz, now()),
+    now()
+  );
+  _open public.pennyekart_agent_versions;
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+     (NEW.role, NEW.parent_agent_id, NEW.panchayath_id, NEW.ward,
+      NEW.responsible_panchayath_ids, NEW.responsible_wards, NEW.is_active)
+     IS NOT DISTINCT FROM
+     (OLD.role, OLD.parent_agent_id, OLD.panchayath_id, OLD.ward,
+      OLD.responsible_panchayath_ids, OLD.responsible_wards, OLD.is_active) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _open
+  FROM public.pennyekart_agent_versions
+  WHERE agent_id = NEW.id AND valid_to IS NULL
+  FOR UPDATE;
+
+  IF FOUND AND _open.valid_from >= _from THEN
+    UPDATE public.pennyekart_agent_versions
+    SET role = NEW.role,
+        parent_agent_id = NEW.parent_agent_id,
+        panchayath_id = NEW.panchayath_id,
+        ward = NEW.ward,
+        responsible_panchayath_ids = coalesce(NEW.responsible_panchayath_ids, '{}'),
+        responsible_wards = coalesce(NEW.responsible_wards, '{}'),
+        is_active = coalesce(NEW.is_active, true)
+    WHERE id = _open.id;
+    RETURN NULL;
+  END IF;
+
+  IF FOUND THEN
+    UPDATE public.pennyekart_agent_versions SET valid_to = _from WHERE id = _open.id;
+  END IF;
+
+  INSERT INTO public.pennyekart_agent_versions (
+    agent_id, role, parent_agent_id, panchayath_id, ward,
+    responsible_panchayath_ids, responsible_wards, is_active, valid_from
+  ) VALUES (
+    NEW.id, NEW.role, NEW.parent_agent_id, NEW.panchayath_id, NEW.ward,
+    coalesce(NEW.responsible_panchayath_ids, '{}'), coalesce(NEW.responsible_wards, '{}'),
+    coalesce(NEW.is_active, true), _from
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Unchanged apart from setting pennyekart.valid_from to the start of the
+-- handover date in India before touching any agent.
+CREATE OR REPLACE FUNCTION public.hand_over_pennyekart_agent(
+  _agent_id uuid,
+  _successor_id uuid,
+  _promote boolean,
+  _backfill_id uuid,
+  _handover_date date,
+  _notes text,
+  _created_by text
+)
+RETURNS public.pennyekart_agent_handovers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leaver public.pennyekart_agents;
+  _reports integer := 0;
+  _tasks integer := 0;
+  _customers integer := 0;
+  _handover public.pennyekart_agent_handovers;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('pennyekart_agent_hierarchy'));
+  PERFORM set_config(
+    'pennyekart.valid_from',
+    (_handover_date::timestamp AT TIME ZONE 'Asia/Kolkata')::text,
+    true
+  );
+
+  SELECT * INTO _leaver FROM public.pennyekart_agents WHERE id = _agent_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF _successor_id IS NOT NULL THEN
+    IF _promote THEN
+      IF _backfill_id IS NOT NULL THEN
+        UPDATE public.pennyekart_agents
+        SET parent_agent_id = _backfill_id
+        WHERE parent_agent_id = _successor_id AND id <> _successor_id;
+      END IF;
+      UPDATE public.pennyekart_agents
+      SET role = _leaver.role, parent_agent_id = _leaver.parent_agent_id
+      WHERE id = _successor_id;
+    END IF;
+
+    UPDATE public.pennyekart_agents
+    SET parent_agent_id = _successor_id
+    WHERE parent_agent_id = _agent_id AND id <> _successor_id;
+    GET DIAGNOSTICS _reports = ROW_COUNT;
+
+    UPDATE public.pennyekart_agents s
+    SET responsible_panchayath_ids = ARRAY(
+          SELECT DISTINCT unnest(coalesce(s.responsible_panchayath_ids, '{}') || coalesce(_leaver.responsible_panchayath_ids, '{}'))
+        ),
+        responsible_wards = ARRAY(
+          SELECT DISTINCT unnest(coalesce(s.responsible_wards, '{}') || coalesce(_leaver.responsible_wards, '{}'))
+        )
+    WHERE s.id = _successor_id;
+
+    UPDATE public.department_tasks
+    SET assigned_agent_id = _successor_id
+    WHERE assigned_agent_id = _agent_id AND status <> 'completed';
+    GET DIAGNOSTICS _tasks = ROW_COUNT;
+
+    DELETE FROM public.agent_direct_customers c
+    WHERE c.agent_id = _agent_id
+      AND EXISTS (
+        SELECT 1 FROM public.agent_direct_customers s
+        WHERE s.agent_id = _successor_id AND s.mobile = c.mobile
+      );
+    UPDATE public.agent_direct_customers SET agent_id = _successor_id WHERE agent_id = _agent_id;
+    GET DIAGNOSTICS _customers = ROW_COUNT;
+  ELSIF EXISTS (SELECT 1 FROM public.pennyekart_agents WHERE parent_agent_id = _agent_id AND id <> _agent_id) THEN
+    RAISE EXCEPTION 'Choose a successor for the agent''s direct reports' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.pennyekart_agents
+  SET is_active = false, responsible_panchayath_ids = '{}', responsible_wards = '{}'
+  WHERE id = _agent_id;
+
+  INSERT INTO public.pennyekart_agent_handovers (
+    agent_id, successor_id, promoted, handover_date, role,
+    responsible_panchayath_ids, responsible_wards,
+    reports_moved, tasks_moved, customers_moved, notes, created_by
+  ) VALUES (
+    _agent_id, _successor_id, _successor_id IS NOT NULL AND _promote, _handover_date, _leaver.role,
+    coalesce(_leaver.responsible_panchayath_ids, '{}'), coalesce(_leaver.responsible_wards, '{}'),
+    _reports, _tasks, _customers, _notes, _created_by
+  )
+  RETURNING * INTO _handover;
+
+  RETURN _handover;
+END;
+$$;
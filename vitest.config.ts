@@ -8,9 +8,14 @@ export default defineConfig({
     environment: "jsdom",
     globals: true,
     setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    include: ["src/**/*.{test,spec}.{ts,tsx}", "supabase/functions/**/*.test.ts"],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // Edge functions import from esm.sh; tests use the installed packages
+      "https://esm.sh/@supabase/supabase-js@2": "@supabase/supabase-js",
+      "https://esm.sh/zod@3.23.8": "zod",
+    },
   },
 });